@@ -16,12 +16,16 @@ import {
 } from "./guildScope";
 
 const SettingsForm = lazy(() => import("./components/SettingsForm"));
+const SettingsHistoryPanel = lazy(() => import("./components/SettingsHistoryPanel"));
+const SettingsPortabilityPanel = lazy(() => import("./components/SettingsPortabilityPanel"));
+const DashboardUsersPanel = lazy(() => import("./components/DashboardUsersPanel"));
 const MemoryTab = lazy(() => import("./components/MemoryTab"));
 const VoiceMonitor = lazy(() => import("./components/VoiceMonitor"));
 const TextTab = lazy(() => import("./components/TextTab"));
 const AgentsTab = lazy(() => import("./components/AgentsTab"));
+const AutomationsTab = lazy(() => import("./components/AutomationsTab"));
 
-const MAIN_TAB_IDS = ["activity", "text", "agents", "memory", "voice", "settings"] as const;
+const MAIN_TAB_IDS = ["activity", "text", "agents", "automations", "memory", "voice", "settings"] as const;
 const MAIN_TAB_STORAGE_KEY = "dashboard_main_tab";
 
 type MainTab = (typeof MAIN_TAB_IDS)[number];
@@ -62,6 +66,16 @@ const MAIN_TABS: MainTabDefinition[] = [
       </svg>
     )
   },
+  {
+    id: "automations",
+    label: "Automations",
+    icon: (
+      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <circle cx="12" cy="12" r="10" />
+        <polyline points="12 6 12 12 16 14" />
+      </svg>
+    )
+  },
   {
     id: "memory",
     label: "Memory",
@@ -273,13 +287,14 @@ function AuthenticatedDashboardShell({
     void reloadScopedStats();
   }, [reloadMemory, reloadScopedActivityActions, reloadScopedStats, reloadTextActions, selectedGuildId]);
 
-  const handleSettingsSave = useCallback(async (patch) => {
+  const handleSettingsSave = useCallback(async (patch, saveSource: { source?: string; preset?: string } = {}) => {
     setSettingsSaveBusy(true);
     try {
       const requestBody = settingsUpdatedAt
         ? {
             ...patch,
             _meta: {
+              ...saveSource,
               expectedUpdatedAt: settingsUpdatedAt
             }
           }
@@ -444,7 +459,7 @@ function AuthenticatedDashboardShell({
           <ActionStream actions={mergedActivityActions} />
           <div className="stack">
             <PerformancePanel performance={dashboardStats?.stats?.performance} />
-            <DailyCost rows={dashboardStats?.stats?.dailyCost} />
+            <DailyCost rows={dashboardStats?.stats?.dailyCost} spendCaps={dashboardStats?.spendCaps} />
           </div>
         </section>
       )}
@@ -454,6 +469,8 @@ function AuthenticatedDashboardShell({
 
         {tab === "agents" && <AgentsTab />}
 
+        {tab === "automations" && <AutomationsTab />}
+
         {tab === "voice" && <VoiceMonitor />}
 
         {tab === "memory" && (
@@ -478,6 +495,17 @@ function AuthenticatedDashboardShell({
               refreshRuntimeBusy={settingsRefreshBusy}
               toast={toast}
             />
+            <SettingsHistoryPanel
+              updatedAt={settingsUpdatedAt}
+              onRolledBack={reloadSettings}
+              notify={notify}
+            />
+            <SettingsPortabilityPanel
+              updatedAt={settingsUpdatedAt}
+              onImported={reloadSettings}
+              notify={notify}
+            />
+            {authState.requiresToken && authState.user?.role === "admin" && <DashboardUsersPanel notify={notify} />}
           </section>
         )}
       </Suspense>
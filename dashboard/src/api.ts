@@ -9,12 +9,15 @@ type ApiOptions = {
   body?: unknown;
 };
 
+export type DashboardRole = "viewer" | "operator" | "admin";
+
 export type DashboardAuthState = {
   authenticated: boolean;
   requiresToken: boolean;
   publicHttpsEnabled: boolean;
   authMethod: "none" | "open_local" | "header" | "session";
   configurationError: string | null;
+  user?: { username: string; role: DashboardRole } | null;
 };
 
 export class ApiError extends Error {
@@ -0,0 +1,615 @@
+import { useEffect, useState } from "react";
+import { usePolling } from "../hooks/usePolling";
+import { api } from "../api";
+import { useDashboardGuildScope } from "../guildScope";
+
+// ---- Types ----
+
+type AutomationSchedule = Record<string, unknown> & { kind?: string };
+
+interface Automation {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  channel_id: string;
+  created_by_name: string | null;
+  title: string;
+  instruction: string;
+  schedule: AutomationSchedule;
+  schedule_label: string;
+  next_run_at: string | null;
+  status: "active" | "paused" | "deleted";
+  is_running: boolean;
+  last_run_at: string | null;
+  last_error: string | null;
+  last_result: string | null;
+}
+
+interface AutomationRun {
+  id: number;
+  started_at: string;
+  finished_at: string | null;
+  status: "ok" | "error" | "skipped";
+  summary: string | null;
+  error: string | null;
+  message_id: string | null;
+  trigger_kind: string;
+}
+
+interface AutomationsResponse {
+  enabled: boolean;
+  rows: Automation[];
+}
+
+interface AutomationRunsResponse {
+  rows: AutomationRun[];
+}
+
+interface GuildChannel {
+  id: string;
+  name: string;
+  type: "text" | "voice";
+  category: string | null;
+}
+
+type ScheduleKind = "interval" | "daily" | "cron" | "once";
+
+interface AutomationDraft {
+  title: string;
+  channelId: string;
+  instruction: string;
+  kind: ScheduleKind;
+  everyMinutes: string;
+  hour: string;
+  minute: string;
+  expression: string;
+  atLocal: string;
+  timeZone: string;
+  runImmediately: boolean;
+}
+
+const SCHEDULE_KIND_OPTIONS: Array<{ value: ScheduleKind; label: string }> = [
+  { value: "interval", label: "Every N minutes" },
+  { value: "daily", label: "Daily" },
+  { value: "cron", label: "Cron expression" },
+  { value: "once", label: "Once" }
+];
+
+// ---- Helpers ----
+
+function formatTimestamp(iso: string | null | undefined): string {
+  if (!iso) return "-";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "-";
+  return date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  });
+}
+
+function toLocalInputValue(iso: unknown): string {
+  const date = new Date(String(iso || ""));
+  if (Number.isNaN(date.getTime())) return "";
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isEventSchedule(schedule: AutomationSchedule | null | undefined) {
+  return schedule?.kind === "event";
+}
+
+function emptyDraft(channelId = ""): AutomationDraft {
+  return {
+    title: "",
+    channelId,
+    instruction: "",
+    kind: "interval",
+    everyMinutes: "60",
+    hour: "9",
+    minute: "0",
+    expression: "0 9 * * 1-5",
+    atLocal: "",
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "",
+    runImmediately: false
+  };
+}
+
+function draftFromAutomation(automation: Automation): AutomationDraft {
+  const schedule = automation.schedule || {};
+  const draft = emptyDraft(automation.channel_id);
+  const kind = String(schedule.kind || "");
+  return {
+    ...draft,
+    title: automation.title,
+    instruction: automation.instruction,
+    kind: kind === "daily" || kind === "cron" || kind === "once" ? kind : "interval",
+    everyMinutes: schedule.everyMinutes !== undefined ? String(schedule.everyMinutes) : draft.everyMinutes,
+    hour: schedule.hour !== undefined ? String(schedule.hour) : draft.hour,
+    minute: schedule.minute !== undefined ? String(schedule.minute) : draft.minute,
+    expression: schedule.expression ? String(schedule.expression) : draft.expression,
+    atLocal: toLocalInputValue(schedule.atIso),
+    timeZone: schedule.timeZone ? String(schedule.timeZone) : draft.timeZone
+  };
+}
+
+function scheduleFromDraft(draft: AutomationDraft): AutomationSchedule {
+  if (draft.kind === "daily") {
+    return { kind: "daily", hour: Number(draft.hour), minute: Number(draft.minute), timeZone: draft.timeZone };
+  }
+  if (draft.kind === "cron") {
+    return { kind: "cron", expression: draft.expression, timeZone: draft.timeZone };
+  }
+  if (draft.kind === "once") {
+    const atMs = Date.parse(draft.atLocal);
+    return { kind: "once", atIso: Number.isFinite(atMs) ? new Date(atMs).toISOString() : "" };
+  }
+  return { kind: "interval", everyMinutes: Number(draft.everyMinutes) };
+}
+
+// ---- AutomationEditor ----
+
+function AutomationEditor({
+  initial,
+  channels,
+  eventSchedule = null,
+  isNew,
+  busy,
+  onSubmit,
+  onCancel
+}: {
+  initial: AutomationDraft;
+  channels: GuildChannel[];
+  eventSchedule?: string | null;
+  isNew: boolean;
+  busy: boolean;
+  onSubmit: (draft: AutomationDraft) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const set = <K extends keyof AutomationDraft>(key: K, value: AutomationDraft[K]) =>
+    setDraft((current) => ({ ...current, [key]: value }));
+  const textChannels = channels.filter((channel) => channel.type === "text");
+
+  return (
+    <div className="au-editor">
+      <div className="split">
+        <label>
+          Title
+          <input type="text" value={draft.title} onChange={(event) => set("title", event.target.value)} disabled={busy} />
+        </label>
+        <label>
+          Channel
+          <select value={draft.channelId} onChange={(event) => set("channelId", event.target.value)} disabled={busy}>
+            <option value="">Select a channel</option>
+            {textChannels.map((channel) => (
+              <option key={channel.id} value={channel.id}>
+                {channel.category ? `${channel.category} / ` : ""}#{channel.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label>
+        Instruction
+        <textarea
+          rows={3}
+          value={draft.instruction}
+          onChange={(event) => set("instruction", event.target.value)}
+          placeholder="What should the bot do on each run?"
+          disabled={busy}
+        />
+      </label>
+
+      {eventSchedule ? (
+        <p className="au-hint">Trigger: {eventSchedule}. Event triggers are edited from chat.</p>
+      ) : (
+        <div className="split">
+          <label>
+            Schedule
+            <select
+              value={draft.kind}
+              onChange={(event) => set("kind", event.target.value as ScheduleKind)}
+              disabled={busy}
+            >
+              {SCHEDULE_KIND_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          {draft.kind === "interval" && (
+            <label>
+              Every (minutes)
+              <input
+                type="number"
+                min={1}
+                value={draft.everyMinutes}
+                onChange={(event) => set("everyMinutes", event.target.value)}
+                disabled={busy}
+              />
+            </label>
+          )}
+          {draft.kind === "daily" && (
+            <div className="split">
+              <label>
+                Hour
+                <input type="number" min={0} max={23} value={draft.hour} onChange={(event) => set("hour", event.target.value)} disabled={busy} />
+              </label>
+              <label>
+                Minute
+                <input type="number" min={0} max={59} value={draft.minute} onChange={(event) => set("minute", event.target.value)} disabled={busy} />
+              </label>
+            </div>
+          )}
+          {draft.kind === "cron" && (
+            <label>
+              Expression
+              <input type="text" value={draft.expression} onChange={(event) => set("expression", event.target.value)} disabled={busy} />
+            </label>
+          )}
+          {draft.kind === "once" && (
+            <label>
+              At
+              <input type="datetime-local" value={draft.atLocal} onChange={(event) => set("atLocal", event.target.value)} disabled={busy} />
+            </label>
+          )}
+          {(draft.kind === "daily" || draft.kind === "cron") && (
+            <label>
+              Time zone
+              <input type="text" value={draft.timeZone} onChange={(event) => set("timeZone", event.target.value)} disabled={busy} />
+            </label>
+          )}
+        </div>
+      )}
+
+      {isNew && !eventSchedule && (
+        <label className="au-inline-check">
+          <input
+            type="checkbox"
+            checked={draft.runImmediately}
+            onChange={(event) => set("runImmediately", event.target.checked)}
+            disabled={busy}
+          />
+          Run immediately after creating
+        </label>
+      )}
+
+      <div className="au-actions">
+        <button type="button" onClick={() => onSubmit(draft)} disabled={busy}>
+          {busy ? "Saving..." : isNew ? "Create" : "Save"}
+        </button>
+        <button type="button" onClick={onCancel} disabled={busy}>Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+// ---- AutomationRuns ----
+
+function AutomationRuns({ guildId, automationId, refreshKey }: { guildId: string; automationId: number; refreshKey: string }) {
+  const [runs, setRuns] = useState<AutomationRun[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({ guildId, automationId: String(automationId), limit: "20" });
+    api<AutomationRunsResponse>(`/api/automations/runs?${params.toString()}`)
+      .then((data) => {
+        if (cancelled) return;
+        setRuns(Array.isArray(data?.rows) ? data.rows : []);
+        setError("");
+      })
+      .catch((loadError: unknown) => {
+        if (!cancelled) setError(errorText(loadError));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [guildId, automationId, refreshKey]);
+
+  if (error) return <p className="ag-error-message">{error}</p>;
+  if (!runs.length) return <p className="au-hint">No runs yet.</p>;
+
+  return (
+    <div className="ag-steps-list">
+      {runs.map((run) => (
+        <div key={run.id} className="au-run-row">
+          <span className={`au-run-status au-run-${run.status}`}>{run.status}</span>
+          <span className="au-run-trigger">{run.trigger_kind}</span>
+          <span className="au-run-text">
+            {run.status === "error" ? run.error || "failed" : run.summary || "-"}
+          </span>
+          <span className="ag-step-time">{formatTimestamp(run.started_at)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ---- AutomationCard ----
+
+function AutomationCard({
+  automation,
+  guildId,
+  channels,
+  busy,
+  onAction,
+  onSave
+}: {
+  automation: Automation;
+  guildId: string;
+  channels: GuildChannel[];
+  busy: boolean;
+  onAction: (automation: Automation, action: "run" | "pause" | "resume" | "delete") => void;
+  onSave: (automation: Automation, draft: AutomationDraft) => Promise<boolean>;
+}) {
+  const [editing, setEditing] = useState(false);
+  const channelName = channels.find((channel) => channel.id === automation.channel_id)?.name;
+  const eventDriven = isEventSchedule(automation.schedule);
+
+  return (
+    <details className="ag-card">
+      <summary className="ag-card-summary">
+        <span className="ag-card-expand-arrow">&#x25B8;</span>
+        <span className="ag-session-id">#{automation.id}</span>
+        <span className={`au-status au-status-${automation.is_running ? "running" : automation.status}`}>
+          {automation.is_running ? "running" : automation.status}
+        </span>
+        <span className="ag-instruction-preview">{automation.title}</span>
+        <span className="au-schedule">{automation.schedule_label}</span>
+        <span className="ag-session-time">
+          {automation.next_run_at ? `next ${formatTimestamp(automation.next_run_at)}` : eventDriven ? "on event" : "not scheduled"}
+        </span>
+        {automation.last_error && <span className="ag-chip-failed">FAILED</span>}
+      </summary>
+
+      <div className="ag-detail">
+        {editing ? (
+          <AutomationEditor
+            initial={draftFromAutomation(automation)}
+            channels={channels}
+            eventSchedule={eventDriven ? automation.schedule_label : null}
+            isNew={false}
+            busy={busy}
+            onSubmit={(draft) => {
+              void onSave(automation, draft).then((saved) => {
+                if (saved) setEditing(false);
+              });
+            }}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          <div>
+            <div className="ag-detail-section-label">INSTRUCTION</div>
+            <p className="ag-instruction-full">{automation.instruction}</p>
+          </div>
+        )}
+
+        {automation.last_error && (
+          <div>
+            <div className="ag-detail-section-label">LAST FAILURE</div>
+            <p className="ag-error-message">{automation.last_error}</p>
+          </div>
+        )}
+
+        <div className="ag-meta-grid">
+          <div className="ag-meta-item">
+            <span className="ag-meta-label">Channel</span>
+            <span className="ag-meta-value">{channelName ? `#${channelName}` : automation.channel_id}</span>
+          </div>
+          <div className="ag-meta-item">
+            <span className="ag-meta-label">Last run</span>
+            <span className="ag-meta-value">{formatTimestamp(automation.last_run_at)}</span>
+          </div>
+          <div className="ag-meta-item">
+            <span className="ag-meta-label">Created by</span>
+            <span className="ag-meta-value">{automation.created_by_name || "unknown"}</span>
+          </div>
+        </div>
+
+        {!editing && (
+          <div className="au-actions">
+            <button type="button" className="sm" onClick={() => onAction(automation, "run")} disabled={busy || automation.is_running}>
+              Run now
+            </button>
+            {automation.status === "active" ? (
+              <button type="button" className="sm" onClick={() => onAction(automation, "pause")} disabled={busy}>
+                Pause
+              </button>
+            ) : (
+              <button type="button" className="sm" onClick={() => onAction(automation, "resume")} disabled={busy}>
+                Resume
+              </button>
+            )}
+            <button type="button" className="sm" onClick={() => setEditing(true)} disabled={busy || automation.is_running}>
+              Edit
+            </button>
+            <button type="button" className="sm memory-reflection-delete-btn" onClick={() => onAction(automation, "delete")} disabled={busy}>
+              Delete
+            </button>
+          </div>
+        )}
+
+        <div>
+          <div className="ag-detail-section-label">RUN HISTORY</div>
+          <AutomationRuns
+            guildId={guildId}
+            automationId={automation.id}
+            refreshKey={`${automation.updated_at}:${automation.last_run_at || ""}`}
+          />
+        </div>
+      </div>
+    </details>
+  );
+}
+
+// ---- AutomationsTab (main) ----
+
+export default function AutomationsTab() {
+  const { selectedGuildId, selectedGuild } = useDashboardGuildScope();
+  const [channels, setChannels] = useState<GuildChannel[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ type: "ok" | "error" | ""; text: string }>({ type: "", text: "" });
+  const { data, reload } = usePolling(
+    () => {
+      if (!selectedGuildId) return Promise.resolve(null);
+      const params = new URLSearchParams({ guildId: selectedGuildId, limit: "120" });
+      return api<AutomationsResponse>(`/api/automations?${params.toString()}`);
+    },
+    15_000
+  );
+
+  useEffect(() => {
+    setCreating(false);
+    void reload();
+    if (!selectedGuildId) {
+      setChannels([]);
+      return;
+    }
+    api<GuildChannel[]>(`/api/guilds/${encodeURIComponent(selectedGuildId)}/channels`)
+      .then((rows) => setChannels(Array.isArray(rows) ? rows : []))
+      .catch(() => setChannels([]));
+  }, [selectedGuildId, reload]);
+
+  const automations: Automation[] = Array.isArray(data?.rows) ? data.rows : [];
+
+  const mutate = async (label: string, run: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await run();
+      setStatus({ type: "ok", text: label });
+      await reload();
+      return true;
+    } catch (error) {
+      setStatus({ type: "error", text: errorText(error) });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (draft: AutomationDraft) => {
+    void mutate("Automation created.", () =>
+      api("/api/automations", {
+        method: "POST",
+        body: {
+          guildId: selectedGuildId,
+          channelId: draft.channelId,
+          title: draft.title,
+          instruction: draft.instruction,
+          schedule: scheduleFromDraft(draft),
+          runImmediately: draft.runImmediately
+        }
+      })
+    ).then((created) => {
+      if (created) setCreating(false);
+    });
+  };
+
+  const handleSave = (automation: Automation, draft: AutomationDraft) =>
+    mutate(`Saved #${automation.id}.`, () =>
+      api(`/api/automations/${automation.id}`, {
+        method: "PATCH",
+        body: {
+          guildId: selectedGuildId,
+          channelId: draft.channelId,
+          title: draft.title,
+          instruction: draft.instruction,
+          ...(isEventSchedule(automation.schedule) ? {} : { schedule: scheduleFromDraft(draft) })
+        }
+      })
+    );
+
+  const handleAction = (automation: Automation, action: "run" | "pause" | "resume" | "delete") => {
+    if (action === "delete" && !window.confirm(`Delete automation #${automation.id} "${automation.title}"?`)) return;
+    const labels = {
+      run: `Ran #${automation.id}.`,
+      pause: `Paused #${automation.id}.`,
+      resume: `Resumed #${automation.id}.`,
+      delete: `Deleted #${automation.id}.`
+    };
+    void mutate(labels[action], async () => {
+      const result = await api<{ lastRun?: AutomationRun | null }>(
+        action === "delete" ? `/api/automations/${automation.id}` : `/api/automations/${automation.id}/${action}`,
+        {
+          method: action === "delete" ? "DELETE" : "POST",
+          body: { guildId: selectedGuildId }
+        }
+      );
+      if (action === "run" && result?.lastRun?.status === "error") {
+        throw new Error(`Run failed: ${result.lastRun.error || "unknown error"}`);
+      }
+    });
+  };
+
+  if (!selectedGuildId) {
+    return (
+      <section className="ag-container">
+        <div className="ag-empty">
+          <p>Select a server to manage its automations.</p>
+        </div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="ag-container">
+      <div className="ag-header-bar">
+        <span className="ag-header-bar-label">AUTOMATIONS</span>
+        <span className="ag-header-bar-count">{automations.length}</span>
+        {!creating && (
+          <button type="button" className="sm au-new-btn" onClick={() => setCreating(true)} disabled={busy}>
+            New automation
+          </button>
+        )}
+      </div>
+
+      {data && data.enabled === false && (
+        <p className="status-msg error">Automations are disabled in settings; schedules will not run.</p>
+      )}
+      {status.text && <p className={`status-msg ${status.type}`} role="status">{status.text}</p>}
+
+      {creating && (
+        <div className="ag-card au-create">
+          <AutomationEditor
+            initial={emptyDraft()}
+            channels={channels}
+            isNew
+            busy={busy}
+            onSubmit={handleCreate}
+            onCancel={() => setCreating(false)}
+          />
+        </div>
+      )}
+
+      {automations.length === 0 && !creating ? (
+        <div className="ag-empty">
+          <p>
+            {selectedGuild?.name ? `No automations for ${selectedGuild.name} yet.` : "No automations yet."}
+          </p>
+        </div>
+      ) : (
+        <div className="ag-feed">
+          {automations.map((automation) => (
+            <AutomationCard
+              key={automation.id}
+              automation={automation}
+              guildId={selectedGuildId}
+              channels={channels}
+              busy={busy}
+              onAction={handleAction}
+              onSave={handleSave}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,7 +1,59 @@
 import Skeleton from "./Skeleton";
 import { PanelHead } from "./ui";
 
-export default function DailyCost({ rows }) {
+const SPEND_CAP_FEATURE_LABELS = {
+  reply: "Replies",
+  voice: "Voice",
+  memoryReflection: "Memory reflection",
+  codeAgent: "Code agents",
+  browserAgent: "Browser agents",
+  vision: "Vision"
+};
+
+function formatBudgetWindow(spent, cap, remaining) {
+  if (!(Number(cap) > 0)) return null;
+  return `$${Number(remaining || 0).toFixed(2)} left of $${Number(cap).toFixed(2)} ($${Number(spent || 0).toFixed(4)} spent)`;
+}
+
+function SpendCapBudget({ spendCaps }) {
+  const features = Array.isArray(spendCaps?.features)
+    ? spendCaps.features.filter((entry) => Number(entry.dailyCapUsd) > 0 || Number(entry.monthlyCapUsd) > 0)
+    : [];
+  if (!spendCaps?.enabled || features.length === 0) return null;
+
+  return (
+    <>
+      <h4 style={{ margin: "16px 0 8px" }}>Remaining Budget</h4>
+      <ul className="cost-list">
+        {features.map((entry) => {
+          const daily = formatBudgetWindow(entry.dailySpentUsd, entry.dailyCapUsd, entry.dailyRemainingUsd);
+          const monthly = formatBudgetWindow(entry.monthlySpentUsd, entry.monthlyCapUsd, entry.monthlyRemainingUsd);
+          const usedPct = Math.max(
+            Number(entry.dailyCapUsd) > 0 ? Number(entry.dailySpentUsd || 0) / Number(entry.dailyCapUsd) : 0,
+            Number(entry.monthlyCapUsd) > 0 ? Number(entry.monthlySpentUsd || 0) / Number(entry.monthlyCapUsd) : 0
+          );
+          const status = entry.exceededWindow
+            ? entry.onExceeded === "degrade" ? "degraded" : "paused"
+            : null;
+          return (
+            <li key={entry.feature} className="cost-item">
+              <div className="cost-bar" style={{ width: `${Math.min(100, usedPct * 100)}%` }} />
+              <span className="day">
+                {SPEND_CAP_FEATURE_LABELS[entry.feature] || entry.feature}
+                {status ? ` · ${status}` : ""}
+              </span>
+              <span className="usd">
+                {[daily && `today ${daily}`, monthly && `month ${monthly}`].filter(Boolean).join(" · ")}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </>
+  );
+}
+
+export default function DailyCost({ rows, spendCaps = null }) {
   if (rows === undefined || rows === null) {
     return (
       <section className="panel">
@@ -22,6 +74,7 @@ export default function DailyCost({ rows }) {
       <section className="panel">
         <PanelHead title="Daily Cost (14d)" />
         <p className="cost-empty">No usage yet</p>
+        <SpendCapBudget spendCaps={spendCaps} />
       </section>
     );
   }
@@ -44,6 +97,7 @@ export default function DailyCost({ rows }) {
           );
         })}
       </ul>
+      <SpendCapBudget spendCaps={spendCaps} />
     </section>
   );
 }
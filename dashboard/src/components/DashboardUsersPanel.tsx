@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { api, type DashboardRole } from "../api";
+import { usePolling } from "../hooks/usePolling";
+import { PanelHead } from "./ui";
+
+// ---- Types ----
+
+interface DashboardUser {
+  id: number;
+  createdAt: string;
+  username: string;
+  role: DashboardRole;
+  lastSeenAt: string | null;
+  disabled: boolean;
+}
+
+interface DashboardUsersResponse {
+  roles: DashboardRole[];
+  users: DashboardUser[];
+}
+
+interface DashboardUserMutationResponse {
+  ok: boolean;
+  user: DashboardUser;
+  token?: string;
+}
+
+interface Props {
+  notify: (text: string, type?: string) => void;
+}
+
+const ROLE_OPTIONS: Array<{ value: DashboardRole; label: string }> = [
+  { value: "viewer", label: "Viewer — read-only" },
+  { value: "operator", label: "Operator — change settings and run actions" },
+  { value: "admin", label: "Admin — purge memory, OAuth, users" }
+];
+
+function formatTimestamp(value: string | null | undefined) {
+  const raw = String(value || "").trim();
+  if (!raw) return "never";
+  const parsed = new Date(raw);
+  if (Number.isNaN(parsed.getTime())) return raw;
+  return parsed.toLocaleString();
+}
+
+// ---- Main component ----
+
+export default function DashboardUsersPanel({ notify }: Props) {
+  const usersQuery = usePolling(() => api<DashboardUsersResponse>("/api/auth/users"), 0);
+  const data = usersQuery.data as DashboardUsersResponse | null;
+  const reload = usersQuery.reload;
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<DashboardRole>("viewer");
+  const [busy, setBusy] = useState(false);
+  const [issuedToken, setIssuedToken] = useState<{ username: string; token: string } | null>(null);
+
+  const users = Array.isArray(data?.users) ? data.users : [];
+
+  async function mutate(request: () => Promise<DashboardUserMutationResponse>, successText: string) {
+    setBusy(true);
+    try {
+      const result = await request();
+      if (result?.token) {
+        setIssuedToken({ username: result.user.username, token: result.token });
+      }
+      notify(successText);
+      await reload();
+      return true;
+    } catch (error) {
+      notify(error instanceof Error ? error.message : String(error), "error");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function createUser() {
+    const nextUsername = username.trim().toLowerCase();
+    if (!nextUsername) return;
+    void mutate(
+      () => api("/api/auth/users", { method: "POST", body: { username: nextUsername, role } }),
+      `Created ${nextUsername}`
+    ).then((created) => {
+      if (created) setUsername("");
+    });
+  }
+
+  function updateUser(user: DashboardUser, body: Record<string, unknown>, successText: string) {
+    void mutate(() => api(`/api/auth/users/${user.id}`, { method: "PATCH", body }), successText);
+  }
+
+  return (
+    <section className="panel du-panel">
+      <PanelHead title="Dashboard Users">
+        <span className="du-hint">The shared dashboard token always signs in as the admin “owner”.</span>
+      </PanelHead>
+
+      {issuedToken && (
+        <div className="du-token">
+          <p className="status-msg ok">
+            Access token for <strong>{issuedToken.username}</strong>. Copy it now; it is not shown again.
+          </p>
+          <code>{issuedToken.token}</code>
+          <button type="button" className="sm" onClick={() => setIssuedToken(null)}>
+            Done
+          </button>
+        </div>
+      )}
+
+      <div className="du-create">
+        <input
+          type="text"
+          placeholder="username"
+          value={username}
+          onChange={(event) => setUsername(event.target.value)}
+          maxLength={32}
+        />
+        <select value={role} onChange={(event) => setRole(event.target.value as DashboardRole)}>
+          {ROLE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button type="button" className="sm" onClick={createUser} disabled={busy || !username.trim()}>
+          Add user
+        </button>
+      </div>
+
+      {users.length === 0 ? (
+        <p className="du-hint">No named users yet.</p>
+      ) : (
+        <table className="du-table">
+          <thead>
+            <tr>
+              <th>User</th>
+              <th>Role</th>
+              <th>Last seen</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => (
+              <tr key={user.id} className={user.disabled ? "du-disabled" : ""}>
+                <td>{user.username}</td>
+                <td>
+                  <select
+                    value={user.role}
+                    disabled={busy || user.disabled}
+                    onChange={(event) =>
+                      updateUser(user, { role: event.target.value }, `${user.username} is now ${event.target.value}`)
+                    }
+                  >
+                    {ROLE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.value}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>{formatTimestamp(user.lastSeenAt)}</td>
+                <td className="du-actions">
+                  {!user.disabled && (
+                    <button
+                      type="button"
+                      className="sm"
+                      disabled={busy}
+                      onClick={() => updateUser(user, { rotateToken: true }, `Issued a new token for ${user.username}`)}
+                    >
+                      New token
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="sm"
+                    disabled={busy}
+                    onClick={() =>
+                      updateUser(
+                        user,
+                        { disabled: !user.disabled },
+                        user.disabled ? `Re-enabled ${user.username}` : `Disabled ${user.username}`
+                      )
+                    }
+                  >
+                    {user.disabled ? "Enable" : "Disable"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
@@ -30,6 +30,7 @@ export default function Header({
   const authenticated = Boolean(authState?.authenticated);
   const dashboardUnlocked = !requiresToken || authenticated;
   const configurationError = String(authState?.configurationError || "").trim();
+  const signedInUser = authState?.user || null;
   const statusText =
     requiresToken && !authenticated
       ? "AUTH REQUIRED"
@@ -40,7 +41,7 @@ export default function Header({
   async function authenticate() {
     const token = value.trim();
     if (!token) {
-      setNotice("Enter the dashboard token.");
+      setNotice("Enter the dashboard token or your access token.");
       setNoticeType("error");
       return;
     }
@@ -116,6 +117,11 @@ export default function Header({
               </select>
             </label>
           ) : null}
+          {requiresToken && authenticated && signedInUser ? (
+            <span className="hero-user" title={`Signed in as ${signedInUser.username}`}>
+              {signedInUser.username} · {signedInUser.role}
+            </span>
+          ) : null}
           <span className={`hero-status${isReady && (!requiresToken || authenticated) ? " online" : ""}`}>
             {statusText}
           </span>
@@ -144,7 +150,9 @@ export default function Header({
           ) : authenticated ? (
             <div className="stack">
               <p className="status-msg ok" role="status">
-                Dashboard session active on this browser.
+                {signedInUser
+                  ? `Signed in as ${signedInUser.username} (${signedInUser.role}).`
+                  : "Dashboard session active on this browser."}
               </p>
               <div className="token-row">
                 <button type="button" onClick={logout} disabled={busy}>
@@ -154,7 +162,7 @@ export default function Header({
             </div>
           ) : (
             <>
-              <label htmlFor="dashboard-token">Dashboard token</label>
+              <label htmlFor="dashboard-token">Dashboard or access token</label>
               <div className="token-row">
                 <input
                   id="dashboard-token"
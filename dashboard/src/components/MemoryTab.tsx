@@ -6,9 +6,10 @@ import MemorySearch from "./memoryTab/MemorySearch";
 import MemoryFactProfiles from "./memoryTab/MemoryFactProfiles";
 import MemoryReflections from "./memoryTab/MemoryReflections";
 import MemoryInspector from "./memoryTab/MemoryInspector";
+import MemoryEmbeddings from "./memoryTab/MemoryEmbeddings";
 import { loadStoredTab, saveStoredTab } from "../tabState";
 
-const MEMORY_SUB_TABS = ["runtime", "snapshot", "inspector", "profiles", "reflections", "search"] as const;
+const MEMORY_SUB_TABS = ["runtime", "snapshot", "inspector", "profiles", "reflections", "search", "embeddings"] as const;
 const MEMORY_SUB_TAB_STORAGE_KEY = "dashboard_memory_sub_tab";
 
 type SubTab = (typeof MEMORY_SUB_TABS)[number];
@@ -66,6 +67,9 @@ export default function MemoryTab({ markdown, onRefresh, notify }: Props) {
       <div style={{ display: subTab === "profiles" ? undefined : "none" }}>
         <MemoryFactProfiles notify={notify} />
       </div>
+      <div style={{ display: subTab === "embeddings" ? undefined : "none" }}>
+        <MemoryEmbeddings notify={notify} />
+      </div>
     </section>
   );
 }
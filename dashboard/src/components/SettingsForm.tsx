@@ -6,8 +6,10 @@ import {
   OPENAI_REALTIME_VOICE_OPTIONS,
   OPENAI_TRANSCRIPTION_MODEL_OPTIONS,
   XAI_VOICE_OPTIONS,
+  buildSettingsOverlayPatch,
   formToSettingsSnapshot,
   getCodeAgentValidationError,
+  getSettingsOverlayFieldStates,
   getSettingsValidationError,
   resolveBrowserProviderModelOptions,
   resolveModelOptions,
@@ -22,6 +24,7 @@ import { useActiveSection } from "../hooks/useActiveSection";
 import { AGENT_STACK_PRESET_OPTIONS } from "../../../src/settings/agentStackCatalog.ts";
 import { SettingsSection } from "./SettingsSection";
 import { EffectiveRuntimeSummary } from "./EffectiveRuntimeSummary";
+import { SettingsScopePicker, type SettingsScope } from "./SettingsScopePicker";
 import { CoreBehaviorSettingsSection } from "./settingsSections/CoreBehaviorSettingsSection";
 import { PromptGuidanceSettingsSection } from "./settingsSections/PromptGuidanceSettingsSection";
 import { LlmConfigurationSettingsSection } from "./settingsSections/LlmConfigurationSettingsSection";
@@ -31,11 +34,13 @@ import { VisionSettingsSection } from "./settingsSections/VisionSettingsSection"
 import { VideoContextSettingsSection } from "./settingsSections/VideoContextSettingsSection";
 import { VoiceModeSettingsSection } from "./settingsSections/VoiceModeSettingsSection";
 import { RateLimitsSettingsSection } from "./settingsSections/RateLimitsSettingsSection";
+import { SpendCapsSettingsSection } from "./settingsSections/SpendCapsSettingsSection";
 import { StartupCatchupSettingsSection } from "./settingsSections/StartupCatchupSettingsSection";
 import { DiscoverySettingsSection } from "./settingsSections/DiscoverySettingsSection";
 import { ChannelsPermissionsSettingsSection } from "./settingsSections/ChannelsPermissionsSettingsSection";
 import { SubAgentOrchestrationSettingsSection } from "./settingsSections/SubAgentOrchestrationSettingsSection";
 import { ProviderAuthSettingsSection } from "./settingsSections/ProviderAuthSettingsSection";
+import { McpSettingsSection } from "./settingsSections/McpSettingsSection";
 
 const BEHAVIOR_FIELDS = new Set([
   "botName", "botNameAliases", "personaFlavor", "personaHardLimits",
@@ -49,6 +54,7 @@ const BEHAVIOR_FIELDS = new Set([
 
 const PERMISSIONS_FIELDS = new Set([
   "maxMessages", "maxReactions", "minGap",
+  "spendCapsEnabled", "spendCapsDegradeProvider", "spendCapsDegradeModel", "spendCapFeatures",
   "replyChannels", "discoveryChannels", "allowedChannels", "blockedChannels", "blockedUsers",
   "catchupEnabled", "catchupLookbackHours", "catchupMaxMessages", "catchupMaxReplies"
 ]);
@@ -63,7 +69,7 @@ function getFieldNavSection(key: string): string {
   if (BEHAVIOR_PROMPT_FIELDS.has(key)) return "sec-behavior";
   if (PERMISSIONS_FIELDS.has(key)) return "sec-perms";
   if (key.startsWith("voice")) return "sec-voice";
-  if (key.startsWith("webSearch") || key.startsWith("browser")) return "sec-research";
+  if (key.startsWith("webSearch") || key.startsWith("browser") || key.startsWith("mcp")) return "sec-research";
   if (key.startsWith("vision") || key.startsWith("videoContext") || key.startsWith("discovery") || key.startsWith("replyImage") || key.startsWith("replyVideo") || key === "maxImagesPerDay" || key === "maxVideosPerDay" || key === "maxGifsPerDay") return "sec-media";
   return "sec-advanced";
 }
@@ -95,11 +101,13 @@ const SEARCH_INDEX: SearchEntry[] = [
   { label: "Screen Watch", scrollTo: "sec-voice", navSection: "sec-voice", keywords: "screen watch screen share stream watch frames vision native discord" },
   { label: "Soundboard", scrollTo: "sec-voice", navSection: "sec-voice", keywords: "soundboard sounds external" },
   { label: "Research & Browsing", scrollTo: "sec-research", navSection: "sec-research", keywords: "web search scrape browse browser tools" },
+  { label: "MCP Servers", scrollTo: "sec-mcp", navSection: "sec-research", keywords: "mcp model context protocol servers tools allow list" },
   { label: "Vision", scrollTo: "sec-vision", navSection: "sec-media", keywords: "vision caption image" },
   { label: "Video Context", scrollTo: "sec-video", navSection: "sec-media", keywords: "video transcript keyframe asr" },
   { label: "Initiative Feed & Media", scrollTo: "sec-discovery", navSection: "sec-media", keywords: "discovery feed image generation video gif" },
   { label: "Channels & Permissions", scrollTo: "sec-channels", navSection: "sec-perms", keywords: "channels allowed blocked users permissions reply" },
   { label: "Rate Limits", scrollTo: "sec-rate", navSection: "sec-perms", keywords: "rate limit messages reactions per hour gap" },
+  { label: "Spend Caps", scrollTo: "sec-spend-caps", navSection: "sec-perms", keywords: "spend cap budget usd cost daily monthly degrade refuse" },
   { label: "Startup Catch-up", scrollTo: "sec-startup", navSection: "sec-perms", keywords: "startup catchup lookback" },
   { label: "Provider Auth", scrollTo: "sec-provider-auth", navSection: "sec-advanced", keywords: "provider auth oauth openai claude anthropic xai credentials" },
   { label: "Stack Preset", scrollTo: "sec-stack", navSection: "sec-advanced", keywords: "preset stack defaults agent" },
@@ -147,8 +155,16 @@ export default function SettingsForm({
   const [savedForm, setSavedForm] = useState(() => (settings ? settingsToForm(settings) : null));
   const [presetLoadBusy, setPresetLoadBusy] = useState(false);
   const [presetStatus, setPresetStatus] = useState({ text: "", type: "" });
+  const [scope, setScope] = useState<SettingsScope>({ guildId: "", channelId: "" });
+  const [scopeInheritedForm, setScopeInheritedForm] = useState<ReturnType<typeof settingsToForm> | null>(null);
+  const [scopeBusy, setScopeBusy] = useState(false);
+  const [scopeStatus, setScopeStatus] = useState({ text: "", type: "" });
+  const scopeRef = useRef<SettingsScope>(scope);
   const savedFormRef = useRef<string>("");
   const presetRequestIdRef = useRef(0);
+  // Preset whose defaults were loaded into the current draft, so the save is
+  // attributed as a preset apply in settings history.
+  const loadedPresetRef = useRef<string | null>(null);
   const formRevisionRef = useRef(0);
   const defaultForm = useMemo(() => settingsToForm({}), []);
   const effectiveForm = form ?? defaultForm;
@@ -169,14 +185,19 @@ export default function SettingsForm({
     setPresetStatus((current) => (current.type === "warning" ? { text: "", type: "" } : current));
   }
 
-  useEffect(() => {
-    if (!settings) return;
-    const next = settingsToFormPreserving(settings, formRef.current);
+  function replaceFormBaseline(next) {
+    loadedPresetRef.current = null;
     formRef.current = next;
     setForm(next);
     setSavedForm(next);
     savedFormRef.current = JSON.stringify(next);
     formRevisionRef.current += 1;
+  }
+
+  useEffect(() => {
+    // While a guild/channel scope is open the form shows that scope's values.
+    if (!settings || scopeRef.current.guildId) return;
+    replaceFormBaseline(settingsToFormPreserving(settings, formRef.current));
     setPresetStatus({ text: "", type: "" });
   }, [settings]);
 
@@ -216,7 +237,9 @@ export default function SettingsForm({
     "sec-core": "sec-behavior",
     "sec-browser": "sec-research",
     "sec-search": "sec-research",
+    "sec-mcp": "sec-research",
     "sec-rate": "sec-perms",
+    "sec-spend-caps": "sec-perms",
     "sec-startup": "sec-perms",
     "sec-channels": "sec-perms",
     "sec-provider-auth": "sec-advanced",
@@ -260,7 +283,15 @@ export default function SettingsForm({
     return errors;
   }, [validationError, codeAgentValidationError]);
 
-  const saveDisabled = saveBusy || presetLoadBusy || Boolean(saveConflictText) || Boolean(validationError);
+  const scopeFieldStates = useMemo(
+    () => (form && scopeInheritedForm
+      ? getSettingsOverlayFieldStates(scopeInheritedForm, form)
+      : { overridden: [], globalOnly: [] }),
+    [form, scopeInheritedForm]
+  );
+
+  const saveDisabled =
+    saveBusy || presetLoadBusy || scopeBusy || Boolean(saveConflictText) || Boolean(validationError);
   const applySavedDisabled =
     refreshRuntimeBusy || saveBusy || presetLoadBusy || reloadServerSettingsBusy || isDirty || Boolean(saveConflictText);
 
@@ -288,6 +319,7 @@ export default function SettingsForm({
       formRef.current = next;
       setForm(next);
       formRevisionRef.current += 1;
+      loadedPresetRef.current = preset;
       setPresetStatus({
         text: "Preset defaults loaded into the draft. Save settings to apply them to the bot.",
         type: "ok"
@@ -585,6 +617,81 @@ export default function SettingsForm({
     updateForm((current) => ({ ...current, ...fields }));
   }
 
+  function applyScopedSettingsResponse(result) {
+    replaceFormBaseline(settingsToForm(result?.effective));
+    setScopeInheritedForm(settingsToForm(result?.inherited));
+  }
+
+  async function changeScope(nextScope: SettingsScope) {
+    if (isDirty && !globalThis.confirm("Discard unsaved settings changes?")) return;
+    scopeRef.current = nextScope;
+    setScope(nextScope);
+    setScopeStatus({ text: "", type: "" });
+    if (!nextScope.guildId) {
+      setScopeInheritedForm(null);
+      if (settings) replaceFormBaseline(settingsToForm(settings));
+      return;
+    }
+    setScopeBusy(true);
+    try {
+      const query = new URLSearchParams({ guildId: nextScope.guildId });
+      if (nextScope.channelId) query.set("channelId", nextScope.channelId);
+      const result = await api<Record<string, unknown>>(`/api/settings/scope?${query}`);
+      if (scopeRef.current !== nextScope) return;
+      applyScopedSettingsResponse(result);
+    } catch (err) {
+      setScopeStatus({ text: String(err?.message || "Failed to load scoped settings."), type: "error" });
+    } finally {
+      setScopeBusy(false);
+    }
+  }
+
+  async function saveScopedSettings(currentForm) {
+    const activeScope = scopeRef.current;
+    setScopeBusy(true);
+    try {
+      const result = await api<Record<string, unknown>>("/api/settings/overlays", {
+        method: "PUT",
+        body: {
+          guildId: activeScope.guildId,
+          channelId: activeScope.channelId || null,
+          patch: buildSettingsOverlayPatch(scopeInheritedForm ?? defaultForm, currentForm)
+        }
+      });
+      if (scopeRef.current !== activeScope) return;
+      applyScopedSettingsResponse(result);
+      setScopeStatus({ text: "Scope overrides saved.", type: "ok" });
+    } catch (err) {
+      setScopeStatus({ text: String(err?.message || "Failed to save scope overrides."), type: "error" });
+    } finally {
+      setScopeBusy(false);
+    }
+  }
+
+  async function clearScopedOverrides() {
+    const activeScope = scopeRef.current;
+    if (!activeScope.guildId) return;
+    if (!globalThis.confirm("Clear every override for this scope?")) return;
+    setScopeBusy(true);
+    try {
+      const query = new URLSearchParams({ guildId: activeScope.guildId });
+      if (activeScope.channelId) query.set("channelId", activeScope.channelId);
+      const result = await api<Record<string, unknown>>(`/api/settings/overlays?${query}`, { method: "DELETE" });
+      if (scopeRef.current !== activeScope) return;
+      applyScopedSettingsResponse(result);
+      setScopeStatus({ text: "Scope overrides cleared.", type: "ok" });
+    } catch (err) {
+      setScopeStatus({ text: String(err?.message || "Failed to clear scope overrides."), type: "error" });
+    } finally {
+      setScopeBusy(false);
+    }
+  }
+
+  function resetScopedField(key: string) {
+    if (!scopeInheritedForm) return;
+    updateForm((current) => ({ ...current, [key]: scopeInheritedForm[key] }));
+  }
+
   function submit(e) {
     e.preventDefault();
     if (validationError) {
@@ -592,7 +699,14 @@ export default function SettingsForm({
       return;
     }
     const currentForm = formRef.current ?? form ?? defaultForm;
-    onSave(formToSettingsSnapshot(currentForm));
+    if (scopeRef.current.guildId) {
+      void saveScopedSettings(currentForm);
+      return;
+    }
+    onSave(
+      formToSettingsSnapshot(currentForm),
+      loadedPresetRef.current ? { source: "preset_apply", preset: loadedPresetRef.current } : {}
+    );
   }
 
   function scrollTo(id: string) {
@@ -603,6 +717,16 @@ export default function SettingsForm({
   return (
     <form className="panel settings-form" onSubmit={submit}>
       <h3 className="settings-title">Settings</h3>
+      <SettingsScopePicker
+        scope={scope}
+        onScopeChange={(nextScope) => void changeScope(nextScope)}
+        overriddenFields={scopeFieldStates.overridden}
+        globalOnlyFields={scopeFieldStates.globalOnly}
+        onResetField={resetScopedField}
+        onClearOverrides={() => void clearScopedOverrides()}
+        busy={scopeBusy || saveBusy}
+        status={scopeStatus}
+      />
       <div className="settings-layout">
         <nav className="settings-sidebar">
           <div className="sidebar-search-wrap">
@@ -726,6 +850,9 @@ export default function SettingsForm({
             selectedBrowserLlmPresetModel={selectedBrowserLlmPresetModel}
           />
 
+          {/* ── MCP Servers ── */}
+          <McpSettingsSection id="sec-mcp" form={form} set={set} />
+
           {/* ── Media ── */}
           <div id="sec-media" className="section-group">
             <VisionSettingsSection
@@ -754,6 +881,7 @@ export default function SettingsForm({
           <div id="sec-perms" className="section-group">
             <ChannelsPermissionsSettingsSection id="sec-channels" form={form} set={set} />
             <RateLimitsSettingsSection id="sec-rate" form={form} set={set} />
+            <SpendCapsSettingsSection id="sec-spend-caps" form={form} set={set} />
             <StartupCatchupSettingsSection id="sec-startup" form={form} set={set} />
           </div>
 
@@ -885,7 +1013,7 @@ export default function SettingsForm({
             style={{ marginTop: 0, width: "auto", flex: "1 1 auto", minWidth: 0 }}
             disabled={saveDisabled}
           >
-            {saveBusy ? "Saving\u2026" : "Save settings"}
+            {saveBusy ? "Saving\u2026" : scope.guildId ? "Save scope overrides" : "Save settings"}
             {isDirty && <span className="unsaved-dot" />}
           </button>
           <button
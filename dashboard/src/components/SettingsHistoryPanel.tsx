@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { api, ApiError } from "../api";
+import { PanelHead } from "./ui";
+
+// ---- Types ----
+
+interface SettingsVersionSummary {
+  id: number;
+  createdAt: string;
+  actor: "dashboard" | "conversation" | "preset" | "rollback" | "system";
+  actorLabel: string | null;
+  source: string | null;
+  changedPaths: string[];
+  rollbackVersionId: number | null;
+  scope: { guildId: string; channelId: string | null } | null;
+}
+
+interface SettingsDiffEntry {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface SettingsVersionDetail {
+  version: SettingsVersionSummary;
+  against: DiffBase;
+  hasBase: boolean;
+  diff: SettingsDiffEntry[];
+}
+
+type DiffBase = "previous" | "current";
+
+interface Props {
+  updatedAt: string;
+  onRolledBack: () => Promise<unknown> | void;
+  notify: (text: string, type?: string) => void;
+}
+
+const ACTOR_LABELS: Record<SettingsVersionSummary["actor"], string> = {
+  dashboard: "dashboard",
+  conversation: "bot conversation",
+  preset: "preset apply",
+  rollback: "rollback",
+  system: "system"
+};
+
+// ---- Helpers ----
+
+function formatTimestamp(value: string | null | undefined) {
+  const raw = String(value || "").trim();
+  if (!raw) return "unknown time";
+  const parsed = new Date(raw);
+  if (Number.isNaN(parsed.getTime())) return raw;
+  return parsed.toLocaleString();
+}
+
+function formatDiffValue(value: unknown) {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "string") return value ? JSON.stringify(value) : '""';
+  return JSON.stringify(value);
+}
+
+function describeScope(scope: SettingsVersionSummary["scope"]) {
+  if (!scope) return "global";
+  return scope.channelId ? `channel ${scope.channelId}` : `guild ${scope.guildId}`;
+}
+
+function scopeKey(scope: SettingsVersionSummary["scope"]) {
+  return scope ? `${scope.guildId}:${scope.channelId || ""}` : "";
+}
+
+function describeVersion(version: SettingsVersionSummary) {
+  if (version.source === "baseline") return "settings before history was recorded";
+  if (version.rollbackVersionId) return `restored version #${version.rollbackVersionId}`;
+  const count = version.changedPaths.length;
+  if (!count) return version.source || "no changes";
+  const shown = version.changedPaths.slice(0, 3).join(", ");
+  return count > 3 ? `${shown} +${count - 3} more` : shown;
+}
+
+// ---- Sub-components ----
+
+function SettingsDiffView({ detail }: { detail: SettingsVersionDetail }) {
+  if (!detail.hasBase) {
+    return <p className="sh-empty">This is the oldest recorded version; there is nothing earlier to compare.</p>;
+  }
+  if (!detail.diff.length) {
+    return (
+      <p className="sh-empty">
+        {detail.against === "current" ? "Identical to the current settings." : "No effective changes."}
+      </p>
+    );
+  }
+  const [beforeLabel, afterLabel] = detail.against === "current"
+    ? [`#${detail.version.id}`, "current"]
+    : ["before", `#${detail.version.id}`];
+  return (
+    <table className="sh-diff">
+      <thead>
+        <tr>
+          <th>Setting</th>
+          <th>{beforeLabel}</th>
+          <th>{afterLabel}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {detail.diff.map((entry) => (
+          <tr key={entry.path}>
+            <td className="sh-diff-path">{entry.path}</td>
+            <td className="sh-diff-before">{formatDiffValue(entry.before)}</td>
+            <td className="sh-diff-after">{formatDiffValue(entry.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ---- Main component ----
+
+export default function SettingsHistoryPanel({ updatedAt, onRolledBack, notify }: Props) {
+  const [versions, setVersions] = useState<SettingsVersionSummary[]>([]);
+  const [loadError, setLoadError] = useState("");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [against, setAgainst] = useState<DiffBase>("previous");
+  const [detail, setDetail] = useState<SettingsVersionDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [rollingBackId, setRollingBackId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api<{ versions: SettingsVersionSummary[] }>("/api/settings/history?limit=50")
+      .then((data) => {
+        if (cancelled) return;
+        setVersions(Array.isArray(data?.versions) ? data.versions : []);
+        setLoadError("");
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : String(error));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [updatedAt]);
+
+  useEffect(() => {
+    if (selectedId === null) {
+      setDetail(null);
+      return;
+    }
+    let cancelled = false;
+    setDetailLoading(true);
+    api<SettingsVersionDetail>(`/api/settings/history/${selectedId}?against=${against}`)
+      .then((data) => {
+        if (!cancelled) setDetail(data);
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setDetail(null);
+        notify(error instanceof Error ? error.message : String(error), "error");
+      })
+      .finally(() => {
+        if (!cancelled) setDetailLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, against, updatedAt, notify]);
+
+  async function rollback(version: SettingsVersionSummary) {
+    const target = version.scope ? `the ${describeScope(version.scope)} overlay` : "settings";
+    if (!globalThis.confirm(`Roll ${target} back to version #${version.id}? Unsaved form changes will be lost.`)) return;
+    setRollingBackId(version.id);
+    try {
+      await api(`/api/settings/history/${version.id}/rollback`, {
+        method: "POST",
+        body: { expectedUpdatedAt: updatedAt }
+      });
+      notify(`${version.scope ? `${describeScope(version.scope)} overlay` : "Settings"} rolled back to version #${version.id}`);
+      await onRolledBack();
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        notify("Settings changed since the history was loaded. Reload and try again.", "error");
+        await onRolledBack();
+        return;
+      }
+      notify(error instanceof Error ? error.message : String(error), "error");
+    } finally {
+      setRollingBackId(null);
+    }
+  }
+
+  // Versions are listed newest first; each scope has its own latest version.
+  const latestIds = new Set<number>();
+  const seenScopes = new Set<string>();
+  for (const version of versions) {
+    const key = scopeKey(version.scope);
+    if (seenScopes.has(key)) continue;
+    seenScopes.add(key);
+    latestIds.add(version.id);
+  }
+
+  return (
+    <section className="panel sh-panel">
+      <PanelHead title="Settings History">
+        <span className="sh-count">{versions.length} versions</span>
+      </PanelHead>
+
+      {loadError && <p className="sh-error">{loadError}</p>}
+      {!loadError && versions.length === 0 && (
+        <p className="sh-empty">No settings changes recorded yet. Every save from here on is kept as a version.</p>
+      )}
+
+      <div className="sh-list">
+        {versions.map((version) => {
+          const selected = version.id === selectedId;
+          return (
+            <div key={version.id} className={`sh-row${selected ? " sh-row-selected" : ""}`}>
+              <button
+                type="button"
+                className="sh-row-summary"
+                onClick={() => setSelectedId(selected ? null : version.id)}
+              >
+                <span className="sh-id">#{version.id}</span>
+                <span className={`sh-actor sh-actor-${version.actor}`}>{ACTOR_LABELS[version.actor] || version.actor}</span>
+                {version.actorLabel && <span className="sh-actor-label">{version.actorLabel}</span>}
+                {version.scope && <span className="sh-scope">{describeScope(version.scope)}</span>}
+                <span className="sh-changes">{describeVersion(version)}</span>
+                <span className="sh-time">{formatTimestamp(version.createdAt)}</span>
+              </button>
+              {selected && (
+                <div className="sh-detail">
+                  <div className="sh-detail-bar">
+                    <select value={against} onChange={(event) => setAgainst(event.target.value as DiffBase)}>
+                      <option value="previous">Changes in this version</option>
+                      <option value="current">Compare with current settings</option>
+                    </select>
+                    {!latestIds.has(version.id) && (
+                      <button
+                        type="button"
+                        className="sm"
+                        onClick={() => void rollback(version)}
+                        disabled={rollingBackId !== null || !updatedAt}
+                      >
+                        {rollingBackId === version.id ? "Rolling back…" : "Roll back to this version"}
+                      </button>
+                    )}
+                  </div>
+                  {detailLoading && !detail ? <p className="sh-empty">Loading diff…</p> : null}
+                  {detail && detail.version.id === version.id ? <SettingsDiffView detail={detail} /> : null}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
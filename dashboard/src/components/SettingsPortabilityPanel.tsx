@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { api, ApiError } from "../api";
+import { PanelHead } from "./ui";
+
+// ---- Types ----
+
+interface SettingsDiffEntry {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface ImportedCount {
+  imported: number;
+  skipped: number;
+}
+
+interface SettingsImportResult {
+  ok: boolean;
+  dryRun: boolean;
+  updatedAt?: string;
+  diff: SettingsDiffEntry[];
+  automations: (ImportedCount & { skippedRows: Array<{ title: string; reason: string }> }) | null;
+  responseTriggers: ImportedCount | null;
+}
+
+interface SettingsBundle {
+  exportedAt?: string;
+  [key: string]: unknown;
+}
+
+type SectionKey = "includeDiscoverySources" | "includeAutomations" | "includeResponseTriggers";
+
+interface Props {
+  updatedAt: string;
+  onImported: () => Promise<unknown> | void;
+  notify: (text: string, type?: string) => void;
+}
+
+const SECTION_OPTIONS: Array<{ key: SectionKey; label: string }> = [
+  { key: "includeDiscoverySources", label: "Discovery sources" },
+  { key: "includeAutomations", label: "Automations" },
+  { key: "includeResponseTriggers", label: "Response triggers" }
+];
+
+// ---- Helpers ----
+
+function formatDiffValue(value: unknown) {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "string") return value ? JSON.stringify(value) : '""';
+  return JSON.stringify(value);
+}
+
+function downloadJson(fileName: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function describeExtras(result: SettingsImportResult) {
+  const parts: string[] = [];
+  if (result.automations) {
+    parts.push(`${result.automations.imported} automations (${result.automations.skipped} skipped)`);
+  }
+  if (result.responseTriggers) {
+    parts.push(`${result.responseTriggers.imported} response triggers (${result.responseTriggers.skipped} already known)`);
+  }
+  return parts.join(", ");
+}
+
+// ---- Main component ----
+
+export default function SettingsPortabilityPanel({ updatedAt, onImported, notify }: Props) {
+  const [sections, setSections] = useState<Record<SectionKey, boolean>>({
+    includeDiscoverySources: true,
+    includeAutomations: false,
+    includeResponseTriggers: false
+  });
+  const [busy, setBusy] = useState(false);
+  const [bundle, setBundle] = useState<SettingsBundle | null>(null);
+  const [preview, setPreview] = useState<SettingsImportResult | null>(null);
+
+  async function exportSettings() {
+    setBusy(true);
+    try {
+      const query = SECTION_OPTIONS.filter((option) => sections[option.key])
+        .map((option) => `${option.key}=1`)
+        .join("&");
+      const data = await api<SettingsBundle>(`/api/settings/export${query ? `?${query}` : ""}`);
+      downloadJson(`clanker-settings-${String(data.exportedAt || "").slice(0, 10) || "export"}.json`, data);
+    } catch (error) {
+      notify(error instanceof Error ? error.message : String(error), "error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function previewImport(file: File | undefined) {
+    if (!file) return;
+    setBusy(true);
+    setPreview(null);
+    try {
+      const parsed = JSON.parse(await file.text()) as SettingsBundle;
+      const result = await api<SettingsImportResult>("/api/settings/import", {
+        method: "POST",
+        body: { bundle: parsed, dryRun: true }
+      });
+      setBundle(parsed);
+      setPreview(result);
+    } catch (error) {
+      setBundle(null);
+      notify(error instanceof SyntaxError ? "That file is not a JSON settings bundle." : error instanceof Error ? error.message : String(error), "error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function applyImport() {
+    if (!bundle || !preview) return;
+    setBusy(true);
+    try {
+      const result = await api<SettingsImportResult>("/api/settings/import", {
+        method: "POST",
+        body: { bundle, expectedUpdatedAt: preview.updatedAt || updatedAt }
+      });
+      const extras = describeExtras(result);
+      notify(`Imported ${result.diff.length} setting changes${extras ? `, ${extras}` : ""}`);
+      setBundle(null);
+      setPreview(null);
+      await onImported();
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        notify("Settings changed since the preview. Preview the file again before importing.", "error");
+        setPreview(null);
+        return;
+      }
+      notify(error instanceof Error ? error.message : String(error), "error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section className="panel sp-panel">
+      <PanelHead title="Import / Export">
+        <span className="sp-hint">Bundles never include API keys or other secrets.</span>
+      </PanelHead>
+
+      <div className="sp-bar">
+        {SECTION_OPTIONS.map((option) => (
+          <label key={option.key} className="sp-check">
+            <input
+              type="checkbox"
+              checked={sections[option.key]}
+              onChange={(event) => setSections((current) => ({ ...current, [option.key]: event.target.checked }))}
+            />
+            {option.label}
+          </label>
+        ))}
+        <button type="button" className="sm" onClick={() => void exportSettings()} disabled={busy}>
+          Export
+        </button>
+        <label className="sp-file">
+          <input
+            type="file"
+            accept="application/json,.json"
+            disabled={busy}
+            onChange={(event) => {
+              void previewImport(event.target.files?.[0]);
+              event.target.value = "";
+            }}
+          />
+          <span>Import…</span>
+        </label>
+      </div>
+
+      {preview && (
+        <div className="sp-preview">
+          <p className="sp-hint">
+            {preview.diff.length
+              ? `${preview.diff.length} settings would change.`
+              : "The bundle matches the current settings."}
+            {describeExtras(preview) ? ` Also imports ${describeExtras(preview)}.` : ""}
+          </p>
+          {preview.diff.length > 0 && (
+            <table className="sh-diff">
+              <thead>
+                <tr>
+                  <th>Setting</th>
+                  <th>current</th>
+                  <th>imported</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.diff.map((entry) => (
+                  <tr key={entry.path}>
+                    <td className="sh-diff-path">{entry.path}</td>
+                    <td className="sh-diff-before">{formatDiffValue(entry.before)}</td>
+                    <td className="sh-diff-after">{formatDiffValue(entry.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="sp-bar">
+            <button type="button" className="sm" onClick={() => void applyImport()} disabled={busy}>
+              {busy ? "Importing…" : "Apply import"}
+            </button>
+            <button
+              type="button"
+              className="sm"
+              onClick={() => {
+                setBundle(null);
+                setPreview(null);
+              }}
+              disabled={busy}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
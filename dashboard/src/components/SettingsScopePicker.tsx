@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { api } from "../api";
+import { useDashboardGuildScope } from "../guildScope";
+
+export type SettingsScope = {
+  guildId: string;
+  channelId: string;
+};
+
+type GuildChannel = {
+  id: string;
+  name: string;
+  type: "text" | "voice";
+};
+
+type SettingsScopePickerProps = {
+  scope: SettingsScope;
+  onScopeChange: (scope: SettingsScope) => void;
+  overriddenFields: string[];
+  globalOnlyFields: string[];
+  onResetField: (key: string) => void;
+  onClearOverrides: () => void;
+  busy?: boolean;
+  status?: { text: string; type: string };
+};
+
+function formatFieldLabel(key: string) {
+  return key.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+}
+
+export function SettingsScopePicker({
+  scope,
+  onScopeChange,
+  overriddenFields,
+  globalOnlyFields,
+  onResetField,
+  onClearOverrides,
+  busy = false,
+  status
+}: SettingsScopePickerProps) {
+  const { guilds } = useDashboardGuildScope();
+  const [channels, setChannels] = useState<GuildChannel[]>([]);
+
+  useEffect(() => {
+    if (!scope.guildId) {
+      setChannels([]);
+      return;
+    }
+    api<GuildChannel[]>(`/api/guilds/${encodeURIComponent(scope.guildId)}/channels`)
+      .then((rows) => setChannels(Array.isArray(rows) ? rows.filter((row) => row.type === "text") : []))
+      .catch(() => setChannels([]));
+  }, [scope.guildId]);
+
+  const scoped = Boolean(scope.guildId);
+
+  return (
+    <div className="settings-scope">
+      <div className="settings-scope-pickers">
+        <label htmlFor="settings-scope-guild">Scope</label>
+        <select
+          id="settings-scope-guild"
+          value={scope.guildId}
+          disabled={busy}
+          onChange={(e) => onScopeChange({ guildId: e.target.value, channelId: "" })}
+        >
+          <option value="">Global (all servers)</option>
+          {guilds.map((guild) => (
+            <option key={guild.id} value={guild.id}>{guild.name}</option>
+          ))}
+        </select>
+        {scoped && (
+          <select
+            aria-label="Channel scope"
+            value={scope.channelId}
+            disabled={busy}
+            onChange={(e) => onScopeChange({ guildId: scope.guildId, channelId: e.target.value })}
+          >
+            <option value="">All channels</option>
+            {channels.map((channel) => (
+              <option key={channel.id} value={channel.id}>#{channel.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {scoped && (
+        <div className="settings-scope-summary">
+          <p className="settings-scope-hint">
+            Values not listed below are inherited from {scope.channelId ? "the server scope" : "global settings"}.
+            Saving stores only the overridden values.
+          </p>
+          {overriddenFields.length > 0 ? (
+            <ul className="settings-scope-fields">
+              {overriddenFields.map((key) => (
+                <li key={key}>
+                  <span className="settings-scope-badge">overridden</span>
+                  {formatFieldLabel(key)}
+                  <button type="button" className="settings-scope-reset" onClick={() => onResetField(key)}>
+                    Inherit
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="settings-scope-hint">No overrides for this scope yet.</p>
+          )}
+          {globalOnlyFields.length > 0 && (
+            <p className="status-msg warning">
+              Global-only fields changed and will not be saved in this scope: {globalOnlyFields.map(formatFieldLabel).join(", ")}
+            </p>
+          )}
+          <button type="button" className="settings-scope-clear" onClick={onClearOverrides} disabled={busy}>
+            Clear all overrides
+          </button>
+        </div>
+      )}
+      {status?.text && <p className={`status-msg ${status.type}`}>{status.text}</p>}
+    </div>
+  );
+}
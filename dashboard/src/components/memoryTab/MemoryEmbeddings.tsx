@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from "react";
+import { api } from "../../api";
+import { PanelHead } from "../ui";
+
+const RUNNING_POLL_MS = 3000;
+
+interface EmbeddingModelUsage {
+  model: string;
+  facts: number;
+  messages: number;
+  transcripts: number;
+}
+
+interface EmbeddingMigration {
+  id: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  targetModel: string;
+  sourceModel: string | null;
+  status: "running" | "completed" | "failed" | "cancelled";
+  factsTotal: number;
+  factsDone: number;
+  factsFailed: number;
+  messagesTotal: number;
+  messagesDone: number;
+  messagesFailed: number;
+  transcriptsTotal: number;
+  transcriptsDone: number;
+  transcriptsFailed: number;
+  errorMessage: string | null;
+}
+
+interface EmbeddingStatus {
+  configuredModel: string;
+  retrievalModel: string;
+  running: boolean;
+  modelUsage: EmbeddingModelUsage[];
+  migration: EmbeddingMigration | null;
+}
+
+function formatDateTime(value?: string | null) {
+  if (!value) return "n/a";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleString();
+}
+
+function formatProgress(done: number, failed: number, total: number) {
+  const processed = done + failed;
+  if (total <= 0) return `${processed}`;
+  const percent = Math.min(100, Math.round((processed / total) * 100));
+  return `${processed} / ${total} (${percent}%)`;
+}
+
+export default function MemoryEmbeddings({ notify }: { notify: (text: string, type?: string) => void }) {
+  const [status, setStatus] = useState<EmbeddingStatus | null>(null);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setStatus(await api<EmbeddingStatus>("/api/memory/embeddings"));
+      setError("");
+    } catch (loadError: unknown) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const migrationRunning = status?.migration?.status === "running";
+  useEffect(() => {
+    if (!migrationRunning) return;
+    const timer = setInterval(() => void load(), RUNNING_POLL_MS);
+    return () => clearInterval(timer);
+  }, [migrationRunning, load]);
+
+  const runAction = async (action: "start" | "cancel") => {
+    setBusy(true);
+    try {
+      await api("/api/memory/embeddings/migration", { method: "POST", body: { action } });
+      notify(action === "start" ? "Embedding migration started" : "Embedding migration cancelled");
+      await load();
+    } catch (actionError: unknown) {
+      notify(actionError instanceof Error ? actionError.message : String(actionError), "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const migration = status?.migration || null;
+  const pinned = Boolean(status && status.retrievalModel && status.retrievalModel !== status.configuredModel);
+
+  return (
+    <div>
+      <PanelHead title="Embeddings">
+        <div className="memory-reflection-controls">
+          {migrationRunning ? (
+            <button type="button" className="sm" disabled={busy} onClick={() => void runAction("cancel")}>
+              Cancel migration
+            </button>
+          ) : (
+            <button type="button" className="sm" disabled={busy} onClick={() => void runAction("start")}>
+              Re-embed now
+            </button>
+          )}
+          <button type="button" className="sm" onClick={() => void load()}>
+            Refresh
+          </button>
+        </div>
+      </PanelHead>
+
+      <p className="memory-reflection-copy">
+        When the embedding model changes, stored fact and message vectors are re-embedded in the background.
+        Retrieval keeps using the previous model until the migration completes.
+      </p>
+
+      {error ? (
+        <p className="memory-reflection-inline-status error" role="status">{error}</p>
+      ) : null}
+
+      {status ? (
+        <div className="memory-reflection-grid">
+          <div className="memory-reflection-meta">
+            <div><span>Configured model</span><strong>{status.configuredModel || "n/a"}</strong></div>
+            <div>
+              <span>Retrieval model</span>
+              <strong>{status.retrievalModel || "n/a"}{pinned ? " (until migration completes)" : ""}</strong>
+            </div>
+            {status.modelUsage.map((row) => (
+              <div key={row.model}>
+                <span>{row.model}</span>
+                <strong>{row.facts} facts · {row.messages} messages · {row.transcripts} transcript chunks</strong>
+              </div>
+            ))}
+          </div>
+
+          {migration ? (
+            <div className="memory-reflection-meta">
+              <div>
+                <span>Migration #{migration.id}</span>
+                <strong>
+                  <span className={`memory-reflection-status memory-reflection-status-${migration.status}`}>
+                    {migration.status}
+                  </span>
+                </strong>
+              </div>
+              <div><span>From</span><strong>{migration.sourceModel || "n/a"}</strong></div>
+              <div><span>To</span><strong>{migration.targetModel}</strong></div>
+              <div>
+                <span>Facts</span>
+                <strong>{formatProgress(migration.factsDone, migration.factsFailed, migration.factsTotal)}</strong>
+              </div>
+              <div>
+                <span>Messages</span>
+                <strong>{formatProgress(migration.messagesDone, migration.messagesFailed, migration.messagesTotal)}</strong>
+              </div>
+              <div>
+                <span>Video transcripts</span>
+                <strong>{formatProgress(migration.transcriptsDone, migration.transcriptsFailed, migration.transcriptsTotal)}</strong>
+              </div>
+              <div>
+                <span>Failed</span>
+                <strong>{migration.factsFailed + migration.messagesFailed + migration.transcriptsFailed}</strong>
+              </div>
+              <div><span>Started</span><strong>{formatDateTime(migration.createdAt)}</strong></div>
+              <div><span>Finished</span><strong>{formatDateTime(migration.completedAt)}</strong></div>
+            </div>
+          ) : (
+            <div className="memory-box">No embedding migration has run for the configured model.</div>
+          )}
+        </div>
+      ) : null}
+
+      {migration?.errorMessage ? (
+        <p className="memory-reflection-inline-status error">{migration.errorMessage}</p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { api } from "../../api";
+
+export interface FactRevisionRow {
+  id: number;
+  fact_id: number;
+  created_at: string;
+  action: string;
+  actor: string;
+  old_fact: string | null;
+  new_fact: string | null;
+  fact_type: string | null;
+  evidence_text: string | null;
+  confidence: number | null;
+  source_message_id: string | null;
+  rollback_revision_id: number | null;
+  source_author_name: string | null;
+  source_content: string | null;
+}
+
+interface SourceMessageRow {
+  message_id: string;
+  created_at: string;
+  channel_id: string;
+  author_name: string;
+  content: string;
+}
+
+interface FactHistoryResponse {
+  ok: boolean;
+  sourceMessage: SourceMessageRow | null;
+  revisions: FactRevisionRow[];
+}
+
+interface Props {
+  guildId: string;
+  factId: number;
+  currentFact: string;
+  evidenceText: string | null;
+  updatedAt: string;
+  rollingBackRevisionId: number | null;
+  disabled?: boolean;
+  onRollback: (revision: FactRevisionRow) => void;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  created: "learned",
+  restored: "re-learned",
+  updated: "edited",
+  superseded: "superseded",
+  rolled_back: "rolled back",
+  deleted: "deleted",
+  archived: "archived"
+};
+
+function formatTimestamp(value: string | null | undefined) {
+  const raw = String(value || "").trim();
+  if (!raw) return "unknown time";
+  const parsed = new Date(raw);
+  if (Number.isNaN(parsed.getTime())) return raw;
+  return parsed.toLocaleString();
+}
+
+export default function MemoryFactHistory({
+  guildId,
+  factId,
+  currentFact,
+  evidenceText,
+  updatedAt,
+  rollingBackRevisionId,
+  disabled = false,
+  onRollback
+}: Props) {
+  const [history, setHistory] = useState<FactHistoryResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    const params = new URLSearchParams({ guildId });
+    api<FactHistoryResponse>(`/api/memory/facts/${encodeURIComponent(String(factId))}/history?${params}`)
+      .then((data) => {
+        if (!cancelled) setHistory(data);
+      })
+      .catch((loadError: unknown) => {
+        if (cancelled) return;
+        setHistory(null);
+        setError(loadError instanceof Error ? loadError.message : String(loadError));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [factId, guildId, updatedAt]);
+
+  const sourceMessage = history?.sourceMessage || null;
+  const revisions = Array.isArray(history?.revisions) ? history.revisions : [];
+
+  return (
+    <div className="inspector-detail-section">
+      <span className="inspector-detail-label">Why does clanky believe this?</span>
+      {evidenceText ? <p className="inspector-detail-evidence">{evidenceText}</p> : null}
+      {sourceMessage ? (
+        <div className="inspector-audit-card">
+          <div className="inspector-audit-meta">
+            <strong>source</strong>
+            <span>{sourceMessage.author_name}</span>
+            <span>{formatTimestamp(sourceMessage.created_at)}</span>
+          </div>
+          <p className="inspector-audit-text">{sourceMessage.content}</p>
+        </div>
+      ) : null}
+
+      {loading && !history ? <p className="inspector-empty">Loading history...</p> : null}
+      {error ? <p className="memory-reflection-inline-status error">{error}</p> : null}
+      {!loading && !error && revisions.length === 0 ? (
+        <p className="inspector-empty">No recorded revisions; this fact predates revision history.</p>
+      ) : null}
+
+      {revisions.length > 0 ? (
+        <div className="inspector-audit-list">
+          {revisions.map((revision) => {
+            const restorable = Boolean(revision.new_fact) && revision.new_fact !== currentFact;
+            return (
+              <div key={revision.id} className="inspector-audit-card">
+                <div className="inspector-audit-meta">
+                  <strong>{ACTION_LABELS[revision.action] || revision.action}</strong>
+                  <span>by {revision.actor}</span>
+                  <span>{formatTimestamp(revision.created_at)}</span>
+                  {revision.rollback_revision_id ? <span>to revision #{revision.rollback_revision_id}</span> : null}
+                </div>
+                {revision.old_fact && revision.old_fact !== revision.new_fact ? (
+                  <p className="inspector-audit-text"><s>{revision.old_fact}</s></p>
+                ) : null}
+                {revision.new_fact ? <p className="inspector-audit-text">{revision.new_fact}</p> : null}
+                <div className="inspector-audit-submeta">
+                  <span>#{revision.id}</span>
+                  {revision.fact_type ? <span>{revision.fact_type}</span> : null}
+                  {revision.confidence !== null ? <span>{Math.round(Number(revision.confidence) * 100)}%</span> : null}
+                  {revision.source_message_id ? (
+                    <span title={revision.source_content || undefined}>
+                      source {revision.source_author_name ? `${revision.source_author_name}: ` : ""}
+                      {revision.source_content ? revision.source_content.slice(0, 120) : revision.source_message_id}
+                    </span>
+                  ) : null}
+                  {restorable ? (
+                    <button
+                      type="button"
+                      onClick={() => onRollback(revision)}
+                      disabled={disabled || rollingBackRevisionId !== null}
+                    >
+                      {rollingBackRevisionId === revision.id ? "Rolling back..." : "Roll back to this"}
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+    </div>
+  );
+}
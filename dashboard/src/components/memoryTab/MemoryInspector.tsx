@@ -1,6 +1,7 @@
 import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
 import { api } from "../../api";
 import { useDashboardGuildScope } from "../../guildScope";
+import MemoryFactHistory, { type FactRevisionRow } from "./MemoryFactHistory";
 
 interface SubjectRow {
   guild_id: string;
@@ -129,6 +130,7 @@ export default function MemoryInspector({ onMemoryMutated }: Props) {
   const [editor, setEditor] = useState<FactEditorState | null>(null);
   const [savingFactId, setSavingFactId] = useState<number | null>(null);
   const [deletingFactId, setDeletingFactId] = useState<number | null>(null);
+  const [rollingBackRevisionId, setRollingBackRevisionId] = useState<number | null>(null);
 
   const loadSubjects = useCallback(async () => {
     if (!selectedGuildId) return;
@@ -319,6 +321,37 @@ export default function MemoryInspector({ onMemoryMutated }: Props) {
     }
   }, [onMemoryMutated, refreshInspector, selectedGuildId, selectedSubject]);
 
+  const handleRollbackFact = useCallback(async (fact: FactRow, revision: FactRevisionRow) => {
+    if (!selectedGuildId) return;
+    if (!globalThis.confirm(`Roll fact #${fact.id} back to revision #${revision.id}?`)) return;
+
+    setRollingBackRevisionId(revision.id);
+    setStatus(null);
+    try {
+      const data = await api<FactMutationResponse>(
+        `/api/memory/facts/${encodeURIComponent(String(fact.id))}/rollback`,
+        {
+          method: "POST",
+          body: {
+            guildId: selectedGuildId,
+            revisionId: revision.id
+          }
+        }
+      );
+      if (data.fact) setEditor(buildEditorState(data.fact));
+      await refreshInspector(selectedSubject);
+      setStatus({ text: `Rolled fact #${fact.id} back to revision #${revision.id}.`, tone: "info" });
+      onMemoryMutated?.();
+    } catch (error: unknown) {
+      setStatus({
+        text: formatApiError(error),
+        tone: "error"
+      });
+    } finally {
+      setRollingBackRevisionId(null);
+    }
+  }, [onMemoryMutated, refreshInspector, selectedGuildId, selectedSubject]);
+
   return (
     <div className="inspector-layout">
       <div className="inspector-toolbar">
@@ -336,8 +369,8 @@ export default function MemoryInspector({ onMemoryMutated }: Props) {
       </div>
 
       <p className="memory-reflection-copy">
-        Browse, edit, and delete raw durable facts by subject. Snapshot markdown refreshes automatically after a save or
-        delete.
+        Browse, edit, and delete raw durable facts by subject, or open a fact to see why it is believed and roll it back
+        to an earlier revision. Snapshot markdown refreshes automatically after a save, rollback, or delete.
       </p>
 
       {status ? (
@@ -546,6 +579,17 @@ export default function MemoryInspector({ onMemoryMutated }: Props) {
                                   </label>
                                 </div>
 
+                                <MemoryFactHistory
+                                  guildId={selectedGuildId}
+                                  factId={fact.id}
+                                  currentFact={fact.fact}
+                                  evidenceText={fact.evidence_text}
+                                  updatedAt={fact.updated_at}
+                                  rollingBackRevisionId={rollingBackRevisionId}
+                                  disabled={isSaving || isDeleting}
+                                  onRollback={(revision) => void handleRollbackFact(fact, revision)}
+                                />
+
                                 <div className="inspector-detail-actions">
                                   <button
                                     type="button"
@@ -1,7 +1,109 @@
+import { useState } from "react";
 import { SettingsSection } from "../SettingsSection";
 import { ChannelChecklist } from "../ChannelChecklist";
 import { UserIdTagInput } from "../UserIdTagInput";
 
+type ToolPermissionRule = {
+  toolName: string;
+  reply: boolean;
+  voiceRealtime: boolean;
+  allowedUserIds: string;
+  allowedRoleIds: string;
+};
+
+function ToolPermissionMatrix({ form, set }) {
+  const [draftToolName, setDraftToolName] = useState("");
+  const rules: ToolPermissionRule[] = Array.isArray(form.toolPermissionRules) ? form.toolPermissionRules : [];
+
+  function commit(next: ToolPermissionRule[]) {
+    set("toolPermissionRules")({ target: { value: next } });
+  }
+
+  function updateRule(toolName: string, patch: Partial<ToolPermissionRule>) {
+    commit(rules.map((rule) => (rule.toolName === toolName ? { ...rule, ...patch } : rule)));
+  }
+
+  function addRule() {
+    const toolName = draftToolName.trim();
+    if (!toolName || rules.some((rule) => rule.toolName === toolName)) return;
+    commit([...rules, { toolName, reply: true, voiceRealtime: true, allowedUserIds: "", allowedRoleIds: "" }]);
+    setDraftToolName("");
+  }
+
+  return (
+    <>
+      <h4>Tool permissions</h4>
+      <p className="status-msg" style={{ marginTop: 4 }}>
+        Tools without a rule are available to everyone the bot replies to. A rule limits its tool to the listed
+        users and roles; a rule with nobody listed turns the tool off on its surfaces. MCP tools match on the name the
+        model sees (<code>mcp__server__tool</code> in text replies).
+      </p>
+      <div className="tp-add">
+        <input
+          type="text"
+          placeholder="tool name, e.g. web_search"
+          value={draftToolName}
+          onChange={(e) => setDraftToolName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addRule();
+            }
+          }}
+        />
+        <button type="button" className="sm" onClick={addRule} disabled={!draftToolName.trim()}>
+          Add rule
+        </button>
+      </div>
+
+      {rules.map((rule) => (
+        <div key={rule.toolName} className="tp-rule">
+          <div className="tp-rule-head">
+            <code>{rule.toolName}</code>
+            <label>
+              <input
+                type="checkbox"
+                checked={rule.reply}
+                onChange={(e) => updateRule(rule.toolName, { reply: e.target.checked })}
+              />
+              Text replies
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={rule.voiceRealtime}
+                onChange={(e) => updateRule(rule.toolName, { voiceRealtime: e.target.checked })}
+              />
+              Realtime voice
+            </label>
+            <button
+              type="button"
+              className="sm"
+              onClick={() => commit(rules.filter((entry) => entry.toolName !== rule.toolName))}
+            >
+              Remove
+            </button>
+          </div>
+          <UserIdTagInput
+            id={`tool-permission-users-${rule.toolName}`}
+            label="Allowed user IDs"
+            hint="Discord users who may use this tool."
+            value={rule.allowedUserIds}
+            onChange={(e) => updateRule(rule.toolName, { allowedUserIds: e.target.value })}
+          />
+          <UserIdTagInput
+            id={`tool-permission-roles-${rule.toolName}`}
+            label="Allowed role IDs"
+            hint="Members holding any of these guild roles may use this tool."
+            value={rule.allowedRoleIds}
+            onChange={(e) => updateRule(rule.toolName, { allowedRoleIds: e.target.value })}
+          />
+        </div>
+      ))}
+    </>
+  );
+}
+
 export function ChannelsPermissionsSettingsSection({ id, form, set }) {
   return (
     <SettingsSection id={id} title="Channels & Permissions">
@@ -70,6 +172,8 @@ export function ChannelsPermissionsSettingsSection({ id, form, set }) {
         value={form.voiceBlockedUserIds}
         onChange={set("voiceBlockedUserIds")}
       />
+
+      <ToolPermissionMatrix form={form} set={set} />
     </SettingsSection>
   );
 }
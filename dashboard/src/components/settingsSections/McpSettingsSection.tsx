@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { SettingsSection } from "../SettingsSection";
+import { api } from "../../api";
+
+type McpServerPolicy = {
+  serverName: string;
+  enabled: boolean;
+  allowedTools: string;
+};
+
+type McpStatusRow = {
+  serverName: string;
+  connected: boolean;
+  tools: Array<{ name: string; description: string }>;
+  lastError: string | null;
+  transport?: string | null;
+  surfaces?: string[];
+};
+
+export function McpSettingsSection({ id, form, set }) {
+  const [servers, setServers] = useState<McpStatusRow[]>([]);
+  const [statusError, setStatusError] = useState("");
+  const policies: McpServerPolicy[] = Array.isArray(form.mcpServerPolicies) ? form.mcpServerPolicies : [];
+  const mcpEnabled = Boolean(form.mcpEnabled);
+
+  useEffect(() => {
+    let cancelled = false;
+    api<{ servers: McpStatusRow[] }>("/api/mcp/status")
+      .then((result) => {
+        if (cancelled) return;
+        const rows = Array.isArray(result?.servers) ? result.servers : [];
+        setServers(rows.filter((row) => (row.surfaces || []).includes("text")));
+        setStatusError("");
+      })
+      .catch((error) => {
+        if (!cancelled) setStatusError(error instanceof Error ? error.message : String(error));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const serverNames = [
+    ...new Set([...servers.map((server) => server.serverName), ...policies.map((policy) => policy.serverName)])
+  ];
+
+  function getPolicy(serverName: string): McpServerPolicy {
+    return policies.find((policy) => policy.serverName === serverName) || {
+      serverName,
+      enabled: true,
+      allowedTools: ""
+    };
+  }
+
+  function updatePolicy(serverName: string, patch: Partial<McpServerPolicy>) {
+    const nextPolicy = { ...getPolicy(serverName), ...patch };
+    const exists = policies.some((policy) => policy.serverName === serverName);
+    const next = exists
+      ? policies.map((policy) => (policy.serverName === serverName ? nextPolicy : policy))
+      : [...policies, nextPolicy];
+    set("mcpServerPolicies")({ target: { value: next } });
+  }
+
+  return (
+    <SettingsSection id={id} title="MCP Servers" active={mcpEnabled}>
+      <div className="toggles">
+        <label>
+          <input type="checkbox" checked={mcpEnabled} onChange={set("mcpEnabled")} />
+          Expose MCP server tools to text replies, initiative, and automations
+        </label>
+      </div>
+      <p className="status-msg" style={{ marginTop: 4 }}>
+        Servers are configured with <code>MCP_SERVERS_JSON</code>. Servers without a policy here are enabled with all tools.
+      </p>
+      {statusError && <p className="status-msg error">{statusError}</p>}
+
+      {mcpEnabled && serverNames.length === 0 && !statusError && (
+        <p className="status-msg">No MCP servers configured.</p>
+      )}
+
+      {mcpEnabled && serverNames.map((serverName) => {
+        const status = servers.find((server) => server.serverName === serverName) || null;
+        const policy = getPolicy(serverName);
+        const inputId = `mcp-allowed-tools-${serverName}`;
+        return (
+          <div key={serverName} style={{ marginTop: 12 }}>
+            <div className="rb-tools">
+              <div className={`rb-tool${status?.connected && policy.enabled ? " rb-tool-on" : ""}`}>
+                <span className="rb-tool-name">{serverName}</span>
+                <span className="rb-tool-desc">
+                  {status
+                    ? `${status.connected ? "connected" : "disconnected"}${status.transport ? ` · ${status.transport}` : ""} · ${status.tools.length} tool${status.tools.length === 1 ? "" : "s"}${status.lastError ? ` · ${status.lastError}` : ""}`
+                    : "not configured on this instance"}
+                </span>
+              </div>
+            </div>
+            <div className="toggles">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={policy.enabled}
+                  onChange={(e) => updatePolicy(serverName, { enabled: e.target.checked })}
+                />
+                Enable {serverName}
+              </label>
+            </div>
+            {policy.enabled && (
+              <>
+                <label htmlFor={inputId}>Allowed tools (one per line, empty = all)</label>
+                <textarea
+                  id={inputId}
+                  rows={3}
+                  value={policy.allowedTools}
+                  placeholder={(status?.tools || []).slice(0, 4).map((tool) => tool.name).join("\n")}
+                  onChange={(e) => updatePolicy(serverName, { allowedTools: e.target.value })}
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+    </SettingsSection>
+  );
+}
@@ -0,0 +1,113 @@
+import { SettingsSection } from "../SettingsSection";
+import { LlmProviderOptions } from "./LlmProviderOptions";
+
+type SpendCapFeatureRow = {
+  feature: string;
+  dailyUsd: number | string;
+  monthlyUsd: number | string;
+  onExceeded: string;
+};
+
+const SPEND_CAP_FEATURE_LABELS: Record<string, string> = {
+  reply: "Text replies",
+  voice: "Voice",
+  memoryReflection: "Memory reflection",
+  codeAgent: "Code agents",
+  browserAgent: "Browser agents",
+  vision: "Vision"
+};
+
+const REFUSE_ONLY_FEATURES = new Set(["codeAgent", "browserAgent"]);
+
+export function SpendCapsSettingsSection({ id, form, set }) {
+  const spendCapsEnabled = Boolean(form.spendCapsEnabled);
+  const features: SpendCapFeatureRow[] = Array.isArray(form.spendCapFeatures) ? form.spendCapFeatures : [];
+
+  function updateFeature(feature: string, patch: Partial<SpendCapFeatureRow>) {
+    const next = features.map((entry) => (entry.feature === feature ? { ...entry, ...patch } : entry));
+    set("spendCapFeatures")({ target: { value: next } });
+  }
+
+  return (
+    <SettingsSection id={id} title="Spend Caps" active={spendCapsEnabled}>
+      <div className="toggles">
+        <label>
+          <input type="checkbox" checked={spendCapsEnabled} onChange={set("spendCapsEnabled")} />
+          Enforce daily and monthly USD caps per feature
+        </label>
+      </div>
+      <p className="status-msg" style={{ marginTop: 4 }}>
+        Caps reset at UTC midnight and on the first of the month. Leave a cap at 0 for no limit.
+      </p>
+
+      {spendCapsEnabled && (
+        <>
+          <p className="status-msg">Each row takes a daily and a monthly cap in USD.</p>
+          {features.map((entry) => {
+            const label = SPEND_CAP_FEATURE_LABELS[entry.feature] || entry.feature;
+            return (
+              <div key={entry.feature} className="split-3">
+                <div>
+                  <span>{label}</span>
+                </div>
+                <div style={{ display: "flex", gap: 6 }}>
+                  <input
+                    aria-label={`${label} daily cap`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="daily"
+                    value={entry.dailyUsd}
+                    onChange={(e) => updateFeature(entry.feature, { dailyUsd: e.target.value })}
+                  />
+                  <input
+                    aria-label={`${label} monthly cap`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="monthly"
+                    value={entry.monthlyUsd}
+                    onChange={(e) => updateFeature(entry.feature, { monthlyUsd: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <select
+                    aria-label={`${label} exceeded behavior`}
+                    value={REFUSE_ONLY_FEATURES.has(entry.feature) ? "refuse" : entry.onExceeded}
+                    disabled={REFUSE_ONLY_FEATURES.has(entry.feature)}
+                    onChange={(e) => updateFeature(entry.feature, { onExceeded: e.target.value })}
+                  >
+                    <option value="degrade">Switch to cheaper model</option>
+                    <option value="refuse">Refuse</option>
+                  </select>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="split" style={{ marginTop: 12 }}>
+            <div>
+              <label htmlFor="spend-caps-degrade-provider">Cheaper model provider</label>
+              <select
+                id="spend-caps-degrade-provider"
+                value={form.spendCapsDegradeProvider}
+                onChange={set("spendCapsDegradeProvider")}
+              >
+                <LlmProviderOptions />
+              </select>
+            </div>
+            <div>
+              <label htmlFor="spend-caps-degrade-model">Cheaper model</label>
+              <input
+                id="spend-caps-degrade-model"
+                type="text"
+                value={form.spendCapsDegradeModel}
+                onChange={set("spendCapsDegradeModel")}
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </SettingsSection>
+  );
+}
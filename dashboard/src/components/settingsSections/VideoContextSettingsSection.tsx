@@ -105,6 +105,30 @@ export function VideoContextSettingsSection({ id, form, set }) {
               <div />
             )}
           </div>
+
+          {form.videoContextAsrFallback && (
+            <div className="split">
+              <div>
+                <label htmlFor="video-context-asr-provider">ASR provider</label>
+                <select
+                  id="video-context-asr-provider"
+                  value={form.videoContextAsrProvider}
+                  onChange={set("videoContextAsrProvider")}
+                >
+                  <option value="openai">OpenAI</option>
+                  <option value="elevenlabs">ElevenLabs</option>
+                  <option value="local">Local whisper.cpp</option>
+                </select>
+              </div>
+              <div />
+            </div>
+          )}
+          {form.videoContextAsrFallback && (
+            <p>
+              When the selected hosted provider has no API key, transcription falls back to the local whisper.cpp
+              model if WHISPER_CPP_MODEL is configured.
+            </p>
+          )}
         </>
       )}
     </SettingsSection>
@@ -243,6 +243,7 @@ export function VoiceModeSettingsSection({
   const transcriptionProvider =
     String(isBrainPath ? form.voiceTranscriptionProvider || "openai" : "openai").trim().toLowerCase();
   const usesElevenLabsTranscription = transcriptionProvider === "elevenlabs";
+  const usesLocalTranscription = transcriptionProvider === "local";
   const openAiRealtimeTranscriptionMethodOptions = OPENAI_REALTIME_TRANSCRIPTION_METHOD_OPTIONS;
   const openAiRealtimeTranscriptionMethod = String(
     usesElevenLabsTranscription ? "file_wav" : form.voiceOpenAiRealtimeTranscriptionMethod || "realtime_bridge"
@@ -250,7 +251,7 @@ export function VoiceModeSettingsSection({
     .trim()
     .toLowerCase();
   const usesRealtimeAsrBridge = !usesElevenLabsTranscription && openAiRealtimeTranscriptionMethod !== "file_wav";
-  const asrModeConfigVisible = (isBridgePath || isBrainPath) && usesRealtimeAsrBridge;
+  const asrModeConfigVisible = (isBridgePath || isBrainPath) && usesRealtimeAsrBridge && !usesLocalTranscription;
   const openAiPerUserAsrBridge =
     asrModeConfigVisible &&
     Boolean(form.voiceOpenAiRealtimeUsePerUserAsrBridge);
@@ -621,6 +622,7 @@ export function VoiceModeSettingsSection({
                   >
                     <option value="openai">OpenAI</option>
                     <option value="elevenlabs">ElevenLabs (full brain only)</option>
+                    <option value="local">Local whisper.cpp (full brain only)</option>
                   </select>
                 </div>
                 {usesElevenLabsTranscription ? (
@@ -650,22 +652,26 @@ export function VoiceModeSettingsSection({
                         ))}
                       </select>
                     </div>
-                    <div>
-                      <label htmlFor="voice-openai-realtime-transcription-model">
-                        OpenAI transcription model
-                      </label>
-                      <select
-                        id="voice-openai-realtime-transcription-model"
-                        value={form.voiceOpenAiRealtimeInputTranscriptionModel}
-                        onChange={set("voiceOpenAiRealtimeInputTranscriptionModel")}
-                      >
-                        {openAiTranscriptionModelOptions.map((modelId) => (
-                          <option key={modelId} value={modelId}>
-                            {modelId}
-                          </option>
-                        ))}
-                      </select>
-                    </div>
+                    {usesLocalTranscription ? (
+                      <div />
+                    ) : (
+                      <div>
+                        <label htmlFor="voice-openai-realtime-transcription-model">
+                          OpenAI transcription model
+                        </label>
+                        <select
+                          id="voice-openai-realtime-transcription-model"
+                          value={form.voiceOpenAiRealtimeInputTranscriptionModel}
+                          onChange={set("voiceOpenAiRealtimeInputTranscriptionModel")}
+                        >
+                          {openAiTranscriptionModelOptions.map((modelId) => (
+                            <option key={modelId} value={modelId}>
+                              {modelId}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                   </>
                 )}
               </div>
@@ -673,6 +679,8 @@ export function VoiceModeSettingsSection({
               <p>
                 {usesElevenLabsTranscription
                   ? "ElevenLabs transcription is used on the Full Brain path as a finalized file-turn transcription step. It does not run the OpenAI realtime ASR bridge."
+                  : usesLocalTranscription
+                  ? "Local transcription runs the whisper.cpp binary from WHISPER_CPP_BIN with the WHISPER_CPP_MODEL model. The realtime bridge buffers each speaker's utterance and transcribes it on the host when the turn ends; no audio leaves the machine."
                   : usesRealtimeAsrBridge
                   ? "Realtime bridge streams audio into OpenAI transcription sessions and uses those transcripts as the source of truth."
                   : "File WAV transcribes each finalized turn from captured PCM after the turn ends. It is slower, but does not use realtime ASR bridge sessions."}
@@ -8,6 +8,7 @@ import "./styles/voice.css";
 import "./styles/action-stream.css";
 import "./styles/text-tab.css";
 import "./styles/agents-tab.css";
+import "./styles/automations-tab.css";
 import "./styles/inspector.css";
 import "./styles/voice-debugger.css";
 
@@ -1,9 +1,11 @@
 import { test } from "bun:test";
 import assert from "node:assert/strict";
 import {
+  buildSettingsOverlayPatch,
   formToSettingsPatch,
   formToSettingsSnapshot,
   getCodeAgentValidationError,
+  getSettingsOverlayFieldStates,
   getSettingsValidationError,
   resolveBrowserProviderModelOptions,
   resolveModelOptionsFromText,
@@ -824,6 +826,87 @@ test("settingsFormModel round-trips elevenlabs realtime settings", () => {
   );
 });
 
+test("settingsFormModel round-trips MCP server policies", () => {
+  const form = settingsToForm(withResolved(normalizeSettings({
+    mcp: {
+      servers: [
+        { serverName: "github", enabled: true, allowedTools: ["search_issues", "get_issue"] },
+        { serverName: "scratch", enabled: false, allowedTools: [] }
+      ]
+    }
+  })));
+
+  assert.equal(form.mcpEnabled, true);
+  assert.deepEqual(form.mcpServerPolicies, [
+    { serverName: "github", enabled: true, allowedTools: "search_issues\nget_issue" },
+    { serverName: "scratch", enabled: false, allowedTools: "" }
+  ]);
+
+  form.mcpEnabled = false;
+  form.mcpServerPolicies = [
+    { serverName: "github", enabled: true, allowedTools: "search_issues\nsearch_issues\n" },
+    { serverName: " ", enabled: true, allowedTools: "" }
+  ];
+  const { effectivePatch } = serializeForm(form);
+  assert.equal(effectivePatch.mcp.enabled, false);
+  assert.deepEqual(effectivePatch.mcp.servers, [
+    { serverName: "github", enabled: true, allowedTools: ["search_issues"] }
+  ]);
+});
+
+test("buildSettingsOverlayPatch keeps only overlayable values that differ from the inherited scope", () => {
+  const inheritedForm = settingsToForm(withResolved(normalizeSettings({
+    persona: { flavor: "global flavor" }
+  })));
+  const form = {
+    ...inheritedForm,
+    personaFlavor: "guild flavor",
+    textInitiativeEagerness: 75,
+    memoryEnabled: !inheritedForm.memoryEnabled
+  };
+
+  assert.deepEqual(buildSettingsOverlayPatch(inheritedForm, form), {
+    persona: { flavor: "guild flavor" },
+    initiative: { text: { eagerness: 75 } }
+  });
+  assert.deepEqual(getSettingsOverlayFieldStates(inheritedForm, form), {
+    overridden: ["personaFlavor", "textInitiativeEagerness"],
+    globalOnly: ["memoryEnabled"]
+  });
+  assert.deepEqual(buildSettingsOverlayPatch(inheritedForm, inheritedForm), {});
+});
+
+test("settingsFormModel round-trips spend caps", () => {
+  const form = settingsToForm(withResolved(normalizeSettings({
+    spendCaps: {
+      enabled: true,
+      degradeModel: { provider: "openai", model: "gpt-5-nano" },
+      features: {
+        reply: { dailyUsd: 2.5, monthlyUsd: 40, onExceeded: "degrade" },
+        codeAgent: { monthlyUsd: 20 }
+      }
+    }
+  })));
+
+  assert.equal(form.spendCapsEnabled, true);
+  assert.equal(form.spendCapsDegradeProvider, "openai");
+  assert.equal(form.spendCapsDegradeModel, "gpt-5-nano");
+  assert.deepEqual(form.spendCapFeatures.find((entry) => entry.feature === "reply"), {
+    feature: "reply",
+    dailyUsd: 2.5,
+    monthlyUsd: 40,
+    onExceeded: "degrade"
+  });
+
+  form.spendCapFeatures = form.spendCapFeatures.map((entry) =>
+    entry.feature === "vision" ? { ...entry, dailyUsd: 1.25, onExceeded: "refuse" } : entry
+  );
+  const { effectivePatch } = serializeForm(form);
+  assert.equal(effectivePatch.spendCaps.enabled, true);
+  assert.deepEqual(effectivePatch.spendCaps.features.vision, { dailyUsd: 1.25, monthlyUsd: 0, onExceeded: "refuse" });
+  assert.equal(effectivePatch.spendCaps.features.codeAgent.monthlyUsd, 20);
+});
+
 test("settingsToFormPreserving keeps user's comma format for aliases on reload", () => {
   const currentForm = settingsToForm(withResolved(normalizeSettings({
     identity: {
@@ -2,7 +2,8 @@ import {
   DEFAULT_SETTINGS,
   PROVIDER_MODEL_FALLBACKS,
   type Settings,
-  type SettingsInput
+  type SettingsInput,
+  type SettingsOverlayPatch
 } from "../../src/settings/settingsSchema.ts";
 import {
   buildDashboardSettingsEnvelope,
@@ -21,7 +22,8 @@ import {
 import {
   getResolvedMemoryBinding,
   getResolvedVoiceInterruptClassifierBinding,
-  getResolvedVoiceMusicBrainBinding
+  getResolvedVoiceMusicBrainBinding,
+  sanitizeSettingsOverlayPatch
 } from "../../src/settings/agentStack.ts";
 import {
   getPresetVoiceAdmissionClassifierFallback,
@@ -144,6 +146,8 @@ function buildSettingsFormView(settings: unknown) {
   const textInitiative = valueOr(s.initiative?.text, d.initiative.text);
   const memory = valueOr(s.memory, d.memory);
   const automations = valueOr(s.automations, d.automations);
+  const mcp = valueOr(s.mcp, d.mcp);
+  const spendCaps = valueOr(s.spendCaps, d.spendCaps);
   const sessions = valueOr(s.interaction?.sessions, d.interaction.sessions);
   const followup = valueOr(s.interaction?.followup, d.interaction.followup);
   const replyGeneration = valueOr(s.interaction?.replyGeneration, d.interaction.replyGeneration);
@@ -166,6 +170,7 @@ function buildSettingsFormView(settings: unknown) {
       ? browserExecution.model
       : orchestrator;
   const devPermissions = valueOr(s.permissions?.devTasks, d.permissions.devTasks);
+  const toolPermissions = valueOr(s.permissions?.tools, d.permissions.tools);
   const devTeam = valueOr(agentStack.runtimeConfig?.devTeam, d.agentStack.runtimeConfig.devTeam);
   const resolvedStack = resolved?.agentStack;
   const vision = valueOr(s.media?.vision, d.media.vision);
@@ -238,6 +243,7 @@ function buildSettingsFormView(settings: unknown) {
     },
     activity,
     permissions,
+    toolPermissions,
     textInitiative: {
       ...textInitiative,
       useTextModel: textInitiative.execution?.mode !== "dedicated_model",
@@ -246,6 +252,8 @@ function buildSettingsFormView(settings: unknown) {
     },
     memory,
     automations,
+    mcp,
+    spendCaps,
     subAgentOrchestration: sessions,
     llm: orchestrator,
     replyGeneration: {
@@ -523,6 +531,21 @@ export function settingsToForm(settings: unknown) {
     memoryEnabled: resolved.memory.enabled ?? defaults.memory.enabled,
     automationsEnabled:
       resolved.automations.enabled ?? defaults.automations.enabled,
+    mcpEnabled: resolved.mcp.enabled ?? defaults.mcp.enabled,
+    mcpServerPolicies: (resolved.mcp.servers || []).map((entry) => ({
+      serverName: String(entry.serverName || ""),
+      enabled: entry.enabled !== false,
+      allowedTools: formatLineList(entry.allowedTools)
+    })),
+    spendCapsEnabled: resolved.spendCaps.enabled ?? defaults.spendCaps.enabled,
+    spendCapsDegradeProvider: resolved.spendCaps.degradeModel?.provider ?? defaults.spendCaps.degradeModel.provider,
+    spendCapsDegradeModel: resolved.spendCaps.degradeModel?.model ?? defaults.spendCaps.degradeModel.model,
+    spendCapFeatures: Object.entries(resolved.spendCaps.features || defaults.spendCaps.features).map(([feature, entry]) => ({
+      feature,
+      dailyUsd: Number(entry?.dailyUsd) || 0,
+      monthlyUsd: Number(entry?.monthlyUsd) || 0,
+      onExceeded: String(entry?.onExceeded || "refuse")
+    })),
     subAgentSessionIdleTimeoutMs:
       resolved.subAgentOrchestration.sessionIdleTimeoutMs ?? defaults.subAgentOrchestration.sessionIdleTimeoutMs,
     subAgentMaxConcurrentSessions:
@@ -625,6 +648,7 @@ export function settingsToForm(settings: unknown) {
     videoContextKeyframeInterval: resolved?.videoContext?.keyframeIntervalSeconds ?? defaultVideoContext.keyframeIntervalSeconds,
     videoContextMaxKeyframes: resolved?.videoContext?.maxKeyframesPerVideo ?? defaultVideoContext.maxKeyframesPerVideo,
     videoContextAsrFallback: resolved?.videoContext?.allowAsrFallback ?? defaultVideoContext.allowAsrFallback,
+    videoContextAsrProvider: resolved?.videoContext?.asrProvider ?? defaultVideoContext.asrProvider,
     videoContextMaxAsrSeconds: resolved?.videoContext?.maxAsrSeconds ?? defaultVideoContext.maxAsrSeconds,
     voiceEnabled: resolved?.voice?.enabled ?? defaultVoice.enabled,
     voiceProvider: selectedVoiceProvider,
@@ -884,7 +908,14 @@ export function settingsToForm(settings: unknown) {
     discoveryChannels: formatLineList(resolved?.permissions?.discoveryChannelIds),
     allowedChannels: formatLineList(resolved?.permissions?.allowedChannelIds),
     blockedChannels: formatLineList(resolved?.permissions?.blockedChannelIds),
-    blockedUsers: formatLineList(resolved?.permissions?.blockedUserIds)
+    blockedUsers: formatLineList(resolved?.permissions?.blockedUserIds),
+    toolPermissionRules: (resolved?.toolPermissions?.rules || []).map((rule) => ({
+      toolName: String(rule.toolName || ""),
+      reply: rule.surfaces.includes("reply"),
+      voiceRealtime: rule.surfaces.includes("voice_realtime"),
+      allowedUserIds: formatLineList(rule.allowedUserIds),
+      allowedRoleIds: formatLineList(rule.allowedRoleIds)
+    }))
   };
 }
 
@@ -1401,10 +1432,11 @@ function buildSettingsInputFromForm(form: SettingsForm): SettingsInput {
     (usesElevenLabsVoiceRuntime || String(form.voiceTtsMode || "realtime").trim().toLowerCase() === "api")
       ? "api"
       : "realtime";
+  const requestedVoiceTranscriptionProvider = String(form.voiceTranscriptionProvider || "openai").trim().toLowerCase();
   const normalizedVoiceTranscriptionProvider =
     normalizedVoiceReplyPath === "brain" &&
-    String(form.voiceTranscriptionProvider || "openai").trim().toLowerCase() === "elevenlabs"
-      ? "elevenlabs"
+    (requestedVoiceTranscriptionProvider === "elevenlabs" || requestedVoiceTranscriptionProvider === "local")
+      ? requestedVoiceTranscriptionProvider
       : "openai";
   const normalizedVoiceAdmissionMode = resolveVoiceAdmissionModeForSettings({
     value: form.voiceReplyDecisionRealtimeAdmissionMode || "generation_decides",
@@ -1500,6 +1532,19 @@ function buildSettingsInputFromForm(form: SettingsForm): SettingsInput {
       },
       devTasks: {
         allowedUserIds: parseUniqueList(form.codeAgentAllowedUserIds)
+      },
+      tools: {
+        rules: (Array.isArray(form.toolPermissionRules) ? form.toolPermissionRules : [])
+          .map((rule) => ({
+            toolName: String(rule?.toolName || "").trim(),
+            surfaces: [
+              ...(rule?.reply !== false ? ["reply" as const] : []),
+              ...(rule?.voiceRealtime !== false ? ["voice_realtime" as const] : [])
+            ],
+            allowedUserIds: parseUniqueList(rule?.allowedUserIds),
+            allowedRoleIds: parseUniqueList(rule?.allowedRoleIds)
+          }))
+          .filter((rule) => rule.toolName && rule.surfaces.length)
       }
     },
     interaction: {
@@ -1896,11 +1941,39 @@ function buildSettingsInputFromForm(form: SettingsForm): SettingsInput {
         keyframeIntervalSeconds: Number(form.videoContextKeyframeInterval),
         maxKeyframesPerVideo: Number(form.videoContextMaxKeyframes),
         allowAsrFallback: form.videoContextAsrFallback,
+        asrProvider: String(form.videoContextAsrProvider || "openai").trim().toLowerCase(),
         maxAsrSeconds: Number(form.videoContextMaxAsrSeconds)
       }
     },
     automations: {
       enabled: Boolean(form.automationsEnabled)
+    },
+    mcp: {
+      enabled: Boolean(form.mcpEnabled),
+      servers: (Array.isArray(form.mcpServerPolicies) ? form.mcpServerPolicies : [])
+        .map((entry) => ({
+          serverName: String(entry?.serverName || "").trim(),
+          enabled: entry?.enabled !== false,
+          allowedTools: parseUniqueLineList(entry?.allowedTools)
+        }))
+        .filter((entry) => entry.serverName)
+    },
+    spendCaps: {
+      enabled: Boolean(form.spendCapsEnabled),
+      degradeModel: {
+        provider: String(form.spendCapsDegradeProvider || "").trim(),
+        model: String(form.spendCapsDegradeModel || "").trim()
+      },
+      features: Object.fromEntries(
+        (Array.isArray(form.spendCapFeatures) ? form.spendCapFeatures : []).map((entry) => [
+          entry.feature,
+          {
+            dailyUsd: Number(entry.dailyUsd) || 0,
+            monthlyUsd: Number(entry.monthlyUsd) || 0,
+            onExceeded: entry.onExceeded
+          }
+        ])
+      )
     }
   };
 }
@@ -1913,6 +1986,54 @@ export function formToSettingsSnapshot(form: SettingsForm) {
   return normalizeSettings(buildSettingsInputFromForm(form));
 }
 
+function diffSettingsInput(base: unknown, next: unknown): unknown {
+  if (isPlainRecord(base) && isPlainRecord(next)) {
+    const diff: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(next)) {
+      const entryDiff = diffSettingsInput(base[key], value);
+      if (entryDiff !== undefined) diff[key] = entryDiff;
+    }
+    return Object.keys(diff).length ? diff : undefined;
+  }
+  return JSON.stringify(base) === JSON.stringify(next) ? undefined : next;
+}
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Build the sparse overlay a guild/channel scope should store: only values
+ * that differ from the inherited form, limited to the overlayable sections.
+ */
+export function buildSettingsOverlayPatch(inheritedForm: SettingsForm, form: SettingsForm): SettingsOverlayPatch {
+  const diff = diffSettingsInput(
+    buildSettingsInputFromForm(inheritedForm),
+    buildSettingsInputFromForm(form)
+  );
+  return sanitizeSettingsOverlayPatch(diff);
+}
+
+/**
+ * Classify the form fields that differ from the inherited scope: `overridden`
+ * fields land in the overlay, `globalOnly` fields can only change globally and
+ * are dropped when the overlay is saved.
+ */
+export function getSettingsOverlayFieldStates(inheritedForm: SettingsForm, form: SettingsForm) {
+  const overridden: string[] = [];
+  const globalOnly: string[] = [];
+  for (const key of Object.keys(form)) {
+    if (JSON.stringify(form[key]) === JSON.stringify(inheritedForm[key])) continue;
+    const patch = buildSettingsOverlayPatch(inheritedForm, { ...inheritedForm, [key]: form[key] });
+    if (Object.keys(patch).length) {
+      overridden.push(key);
+    } else {
+      globalOnly.push(key);
+    }
+  }
+  return { overridden, globalOnly };
+}
+
 export function sanitizeAliasListInput(value: unknown) {
   return formatCommaList(parseUniqueList(value));
 }
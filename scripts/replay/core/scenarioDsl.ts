@@ -0,0 +1,264 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Scripted text-channel scenarios for the replay harness.
+ *
+ * A scenario is a JSON or YAML document describing one channel, its users and
+ * an ordered list of turns. User turns run through reply admission and, when
+ * admitted, through the actor LLM; bot turns are seeded straight into history.
+ * Each user turn may carry expectations and a `stub` response used when the
+ * scenario runs against the stub LLM instead of a live provider.
+ */
+
+export const SCENARIO_BOT_AUTHOR = "bot";
+const SCENARIO_FILE_EXTENSIONS = new Set([".json", ".yaml", ".yml"]);
+
+/** Admission reasons that mean the turn was not admitted. */
+export const DENY_ADMISSION_REASONS = new Set([
+  "unsolicited_replies_disabled",
+  "channel_not_allowed",
+  "user_blocked",
+  "startup_catchup_not_addressed",
+  "startup_catchup_stale"
+]);
+
+export type ScenarioTurnSource = "message" | "startup_catchup";
+export type ScenarioReplyOutcome = "send" | "skip" | "none";
+
+export type ScenarioToolCall = {
+  name: string;
+  input: Record<string, unknown>;
+};
+
+export type ScenarioStubResponse = {
+  text: string;
+  skip: boolean;
+  toolCalls: ScenarioToolCall[];
+  automationAction: Record<string, unknown> | null;
+};
+
+export type ScenarioTurnExpectation = {
+  admission: { allow: boolean; reason: string | null } | null;
+  attention: "ACTIVE" | "AMBIENT" | null;
+  reply: ScenarioReplyOutcome | null;
+  toolCalls: string[] | null;
+  automation: string | null;
+};
+
+export type ScenarioTurn = {
+  id: string;
+  author: string;
+  content: string;
+  replyTo: string | null;
+  mentionsBot: boolean;
+  source: ScenarioTurnSource;
+  minutesAgo: number | null;
+  expect: ScenarioTurnExpectation | null;
+  stub: ScenarioStubResponse | null;
+};
+
+export type ScenarioUser = {
+  id: string;
+  name: string;
+};
+
+export type ReplayScenario = {
+  name: string;
+  description: string;
+  file: string;
+  settings: Record<string, unknown>;
+  channel: {
+    id: string;
+    dm: boolean;
+  };
+  users: ScenarioUser[];
+  turns: ScenarioTurn[];
+  rubric: string[];
+};
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+}
+
+function readStringList(value: unknown, label: string) {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value)) throw new Error(`${label} must be a list`);
+  return value.map((entry) => readString(entry)).filter(Boolean);
+}
+
+function parseStub(value: unknown, label: string): ScenarioStubResponse | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string") {
+    return { text: value, skip: false, toolCalls: [], automationAction: null };
+  }
+  if (!isRecord(value)) throw new Error(`${label} must be a string or an object`);
+  const rawToolCalls = value.toolCalls ?? [];
+  if (!Array.isArray(rawToolCalls)) throw new Error(`${label}.toolCalls must be a list`);
+  const toolCalls = rawToolCalls.map((call, index) => {
+    if (typeof call === "string" && call.trim()) return { name: call.trim(), input: {} };
+    if (!isRecord(call) || !readString(call.name)) {
+      throw new Error(`${label}.toolCalls[${index}] needs a name`);
+    }
+    return { name: readString(call.name), input: isRecord(call.input) ? call.input : {} };
+  });
+  if (value.automationAction !== undefined && !isRecord(value.automationAction)) {
+    throw new Error(`${label}.automationAction must be an object`);
+  }
+  return {
+    text: readString(value.text),
+    skip: value.skip === true,
+    toolCalls,
+    automationAction: isRecord(value.automationAction) ? value.automationAction : null
+  };
+}
+
+function parseExpectation(value: unknown, label: string): ScenarioTurnExpectation | null {
+  if (value === undefined || value === null) return null;
+  if (!isRecord(value)) throw new Error(`${label} must be an object`);
+
+  let admission: ScenarioTurnExpectation["admission"] = null;
+  if (typeof value.admission === "boolean") {
+    admission = { allow: value.admission, reason: null };
+  } else if (typeof value.admission === "string") {
+    // A bare reason string implies allow/deny from the reason itself.
+    const reason = readString(value.admission);
+    admission = { allow: !DENY_ADMISSION_REASONS.has(reason), reason };
+  } else if (isRecord(value.admission)) {
+    if (typeof value.admission.allow !== "boolean") throw new Error(`${label}.admission.allow must be a boolean`);
+    admission = { allow: value.admission.allow, reason: readString(value.admission.reason) || null };
+  } else if (value.admission !== undefined) {
+    throw new Error(`${label}.admission must be a boolean, a reason or an object`);
+  }
+
+  const attention = readString(value.attention).toUpperCase();
+  if (attention && attention !== "ACTIVE" && attention !== "AMBIENT") {
+    throw new Error(`${label}.attention must be ACTIVE or AMBIENT`);
+  }
+  const reply = readString(value.reply).toLowerCase();
+  if (reply && reply !== "send" && reply !== "skip" && reply !== "none") {
+    throw new Error(`${label}.reply must be send, skip or none`);
+  }
+
+  return {
+    admission,
+    attention: attention === "ACTIVE" || attention === "AMBIENT" ? attention : null,
+    reply: reply === "send" || reply === "skip" || reply === "none" ? reply : null,
+    toolCalls: readStringList(value.toolCalls, `${label}.toolCalls`),
+    automation: readString(value.automation).toLowerCase() || null
+  };
+}
+
+/** Validates a parsed JSON/YAML document into a scenario, filling defaults. */
+export function parseReplayScenario(raw: unknown, file = "(inline)"): ReplayScenario {
+  if (!isRecord(raw)) throw new Error(`${file}: scenario must be an object`);
+  const name = readString(raw.name);
+  if (!name) throw new Error(`${file}: scenario needs a name`);
+  const label = `${file}#${name}`;
+
+  const channel = isRecord(raw.channel) ? raw.channel : {};
+  const rawUsers = raw.users ?? [];
+  if (!Array.isArray(rawUsers)) throw new Error(`${label}: users must be a list`);
+  const users = rawUsers.map((user, index) => {
+    if (typeof user === "string" && user.trim()) return { id: user.trim(), name: user.trim() };
+    if (!isRecord(user) || !readString(user.id)) throw new Error(`${label}: users[${index}] needs an id`);
+    return { id: readString(user.id), name: readString(user.name) || readString(user.id) };
+  });
+  const userIds = new Set(users.map((user) => user.id));
+  if (userIds.has(SCENARIO_BOT_AUTHOR)) throw new Error(`${label}: "${SCENARIO_BOT_AUTHOR}" is reserved for bot turns`);
+
+  if (!Array.isArray(raw.turns) || !raw.turns.length) throw new Error(`${label}: turns must be a non-empty list`);
+  const seenTurnIds = new Set<string>();
+  const turns = raw.turns.map((turn, index): ScenarioTurn => {
+    const turnLabel = `${label}: turns[${index}]`;
+    if (!isRecord(turn)) throw new Error(`${turnLabel} must be an object`);
+    const id = readString(turn.id) || `t${index + 1}`;
+    if (seenTurnIds.has(id)) throw new Error(`${turnLabel} reuses id "${id}"`);
+    const author = readString(turn.author);
+    if (author !== SCENARIO_BOT_AUTHOR && !userIds.has(author)) {
+      throw new Error(`${turnLabel} has unknown author "${author}"`);
+    }
+    const replyTo = readString(turn.replyTo) || null;
+    // Replies may point at an earlier turn or at the bot reply it produced (`<id>.reply`).
+    if (replyTo && !seenTurnIds.has(replyTo.replace(/\.reply$/, ""))) {
+      throw new Error(`${turnLabel} replies to unknown earlier turn "${replyTo}"`);
+    }
+    seenTurnIds.add(id);
+    const source = readString(turn.source) || "message";
+    if (source !== "message" && source !== "startup_catchup") {
+      throw new Error(`${turnLabel}.source must be message or startup_catchup`);
+    }
+    const minutesAgo = turn.minutesAgo === undefined ? null : Number(turn.minutesAgo);
+    if (minutesAgo !== null && (!Number.isFinite(minutesAgo) || minutesAgo < 0)) {
+      throw new Error(`${turnLabel}.minutesAgo must be a non-negative number`);
+    }
+    if (author === SCENARIO_BOT_AUTHOR && (turn.expect !== undefined || turn.stub !== undefined)) {
+      throw new Error(`${turnLabel}: bot turns take no expect or stub`);
+    }
+
+    return {
+      id,
+      author,
+      content: readString(turn.content),
+      replyTo,
+      mentionsBot: turn.mentionsBot === true,
+      source,
+      minutesAgo,
+      expect: parseExpectation(turn.expect, `${turnLabel}.expect`),
+      stub: parseStub(turn.stub, `${turnLabel}.stub`)
+    };
+  });
+
+  if (raw.settings !== undefined && !isRecord(raw.settings)) throw new Error(`${label}: settings must be an object`);
+
+  return {
+    name,
+    description: readString(raw.description),
+    file,
+    settings: isRecord(raw.settings) ? raw.settings : {},
+    channel: {
+      id: readString(channel.id) || "scenario-channel",
+      dm: channel.dm === true
+    },
+    users,
+    turns,
+    rubric: readStringList(raw.rubric, `${label}: rubric`) || []
+  };
+}
+
+/** Loads one scenario file. YAML files may hold a single scenario or a list. */
+export async function loadReplayScenarioFile(filePath: string): Promise<ReplayScenario[]> {
+  const rawText = await fs.readFile(filePath, "utf8");
+  const extension = path.extname(filePath).toLowerCase();
+  const parsed: unknown = extension === ".json" ? JSON.parse(rawText) : Bun.YAML.parse(rawText);
+  const documents = Array.isArray(parsed) ? parsed : [parsed];
+  const file = path.basename(filePath);
+  return documents.map((document) => parseReplayScenario(document, file));
+}
+
+/** Loads every scenario file under a directory (or a single file), sorted by path. */
+export async function loadReplayScenarios(targetPath: string): Promise<ReplayScenario[]> {
+  const stat = await fs.stat(targetPath);
+  if (!stat.isDirectory()) return await loadReplayScenarioFile(targetPath);
+
+  const entries = await fs.readdir(targetPath);
+  const files = entries
+    .filter((entry) => SCENARIO_FILE_EXTENSIONS.has(path.extname(entry).toLowerCase()))
+    .sort();
+  const scenarios: ReplayScenario[] = [];
+  for (const file of files) {
+    scenarios.push(...(await loadReplayScenarioFile(path.join(targetPath, file))));
+  }
+  const names = new Set<string>();
+  for (const scenario of scenarios) {
+    if (names.has(scenario.name)) throw new Error(`duplicate scenario name "${scenario.name}" in ${scenario.file}`);
+    names.add(scenario.name);
+  }
+  return scenarios;
+}
@@ -0,0 +1,734 @@
+import path from "node:path";
+import { parseStructuredReplyOutput, REPLY_OUTPUT_JSON_SCHEMA } from "../../../src/bot/botHelpers.ts";
+import {
+  evaluateReplyAdmissionDecision,
+  getReplyAddressSignal,
+  type ReplyAddressSignal
+} from "../../../src/bot/replyAdmission.ts";
+import { isChannelAllowed, isReplyChannel, isUserBlocked } from "../../../src/bot/permissions.ts";
+import { buildReplyPrompt, buildSystemPrompt } from "../../../src/prompts/index.ts";
+import { getActivitySettings, getBotName, getStartupSettings } from "../../../src/settings/agentStack.ts";
+import type { Settings } from "../../../src/settings/settingsSchema.ts";
+import { normalizeSettings } from "../../../src/store/settingsNormalization.ts";
+import { buildReplyToolSet } from "../../../src/tools/replyTools.ts";
+import { runJsonJudge } from "../core/judge.ts";
+import { createReplayLlmService } from "../core/llm.ts";
+import { writeJsonReport } from "../core/output.ts";
+import {
+  SCENARIO_BOT_AUTHOR,
+  loadReplayScenarios,
+  type ReplayScenario,
+  type ScenarioReplyOutcome,
+  type ScenarioTurn
+} from "../core/scenarioDsl.ts";
+import type { MessageRow } from "../core/types.ts";
+import { clamp, stableNumber, truncateText } from "../core/utils.ts";
+
+type ScriptedRunMode = "stub" | "live";
+
+type ScriptedReplayArgs = {
+  mode: ScriptedRunMode;
+  scenariosPath: string;
+  filter: string;
+  actorProvider: string;
+  actorModel: string;
+  judge: boolean | null;
+  judgeProvider: string;
+  judgeModel: string;
+  outJsonPath: string;
+};
+
+type ActorGenerateInput = {
+  settings: Record<string, unknown>;
+  systemPrompt: string;
+  userPrompt: string;
+  jsonSchema: string;
+  tools: ReturnType<typeof buildReplyToolSet>;
+  trace: {
+    guildId: string | null;
+    channelId: string;
+    userId: string;
+    source: string;
+    event: string;
+    reason: string;
+    messageId: string;
+  };
+};
+
+type ActorGeneration = {
+  text: string;
+  toolCalls?: Array<{ name: string }>;
+  provider?: string;
+  model?: string;
+  costUsd?: number;
+};
+
+type ScenarioActorLlm = {
+  generate: (input: ActorGenerateInput) => Promise<ActorGeneration>;
+};
+
+type ScenarioJudgeResult = {
+  pass: boolean;
+  score: number;
+  summary: string;
+  issues: string[];
+  rawText: string;
+};
+
+export type ScriptedTurnResult = {
+  turnId: string;
+  author: string;
+  content: string;
+  source: ScenarioTurn["source"];
+  admission: {
+    allow: boolean;
+    reason: string;
+    attention: string;
+  };
+  reply: ScenarioReplyOutcome;
+  botText: string;
+  toolCalls: string[];
+  automation: string;
+  failures: string[];
+};
+
+export type ScriptedScenarioResult = {
+  name: string;
+  file: string;
+  pass: boolean;
+  turns: ScriptedTurnResult[];
+  failures: string[];
+  judge: ScenarioJudgeResult | null;
+};
+
+export type ScriptedReplayReport = {
+  startedAt: string;
+  finishedAt: string;
+  mode: ScriptedRunMode;
+  scenarios: ScriptedScenarioResult[];
+  summary: {
+    scenarios: number;
+    passed: number;
+    failed: number;
+    turns: number;
+    failedTurns: number;
+  };
+};
+
+const BOT_USER_ID = "scenario-bot";
+const SCENARIO_GUILD_ID = "scenario-guild";
+const UNSOLICITED_REPLY_CONTEXT_WINDOW = 5;
+const RECENT_MESSAGE_LIMIT = 20;
+
+const DEFAULT_ARGS: ScriptedReplayArgs = {
+  mode: "stub",
+  scenariosPath: "scripts/replay/scenarios/library",
+  filter: "",
+  actorProvider: "",
+  actorModel: "",
+  judge: null,
+  judgeProvider: "",
+  judgeModel: "",
+  outJsonPath: ""
+};
+
+function parseScriptedReplayArgs(argv: string[]): ScriptedReplayArgs {
+  const out: ScriptedReplayArgs = { ...DEFAULT_ARGS };
+  for (let i = 0; i < argv.length; i += 1) {
+    const key = String(argv[i] || "").trim();
+    if (!key.startsWith("--")) continue;
+    const name = key.slice(2);
+    const rawValue = String(argv[i + 1] || "").trim();
+    const needsValue = !["judge", "no-judge"].includes(name);
+    if (needsValue && !rawValue.startsWith("--")) {
+      i += 1;
+    }
+
+    switch (name) {
+      case "mode":
+        out.mode = rawValue === "live" ? "live" : "stub";
+        break;
+      case "scenarios":
+        out.scenariosPath = rawValue || out.scenariosPath;
+        break;
+      case "filter":
+        out.filter = rawValue;
+        break;
+      case "actor-provider":
+        out.actorProvider = rawValue;
+        break;
+      case "actor-model":
+        out.actorModel = rawValue;
+        break;
+      case "judge":
+        out.judge = true;
+        break;
+      case "no-judge":
+        out.judge = false;
+        break;
+      case "judge-provider":
+        out.judgeProvider = rawValue;
+        break;
+      case "judge-model":
+        out.judgeModel = rawValue;
+        break;
+      case "out-json":
+        out.outJsonPath = rawValue;
+        break;
+      default:
+        break;
+    }
+  }
+  return out;
+}
+
+function withOrchestratorOverride(settings: Record<string, unknown>, provider: string, model: string) {
+  if (!provider && !model) return settings;
+  return {
+    ...settings,
+    agentStack: {
+      overrides: {
+        orchestrator: {
+          ...(provider ? { provider } : {}),
+          ...(model ? { model } : {})
+        }
+      }
+    }
+  };
+}
+
+function buildScenarioSettings(scenario: ReplayScenario, actorProvider = "", actorModel = "") {
+  return normalizeSettings(withOrchestratorOverride(structuredClone(scenario.settings), actorProvider, actorModel));
+}
+
+/**
+ * Stub actor: answers each admitted turn with the scenario's scripted `stub`
+ * response, or a structured skip when the turn has none.
+ */
+export function createScenarioStubLlm(scenario: ReplayScenario): ScenarioActorLlm {
+  const stubsByTurnId = new Map(scenario.turns.map((turn) => [turn.id, turn.stub]));
+  return {
+    async generate({ trace }) {
+      const stub = stubsByTurnId.get(trace.messageId) || null;
+      if (!stub) {
+        return { text: JSON.stringify({ text: "", skip: true }), toolCalls: [], provider: "stub", model: "scenario-stub" };
+      }
+      return {
+        text: JSON.stringify({
+          text: stub.text,
+          skip: stub.skip,
+          ...(stub.automationAction ? { automationAction: stub.automationAction } : {})
+        }),
+        toolCalls: stub.toolCalls.map((call) => ({ name: call.name, input: call.input })),
+        provider: "stub",
+        model: "scenario-stub",
+        costUsd: 0
+      };
+    }
+  };
+}
+
+function resolveTurnTimestamps(scenario: ReplayScenario, nowMs: number) {
+  const total = scenario.turns.length;
+  return new Map(
+    scenario.turns.map((turn, index) => {
+      const minutesAgo = turn.minutesAgo ?? total - index;
+      return [turn.id, nowMs - minutesAgo * 60_000];
+    })
+  );
+}
+
+function buildMessageRow({
+  id,
+  authorId,
+  authorName,
+  content,
+  referencedMessageId,
+  createdAtMs,
+  guildId,
+  channelId
+}: {
+  id: string;
+  authorId: string;
+  authorName: string;
+  content: string;
+  referencedMessageId: string | null;
+  createdAtMs: number;
+  guildId: string | null;
+  channelId: string;
+}): MessageRow {
+  return {
+    message_id: id,
+    created_at: new Date(createdAtMs).toISOString(),
+    guild_id: guildId,
+    channel_id: channelId,
+    author_id: authorId,
+    author_name: authorName,
+    is_bot: authorId === BOT_USER_ID ? 1 : 0,
+    content,
+    referenced_message_id: referencedMessageId
+  };
+}
+
+async function evaluateTurnAdmission({
+  settings,
+  scenario,
+  turn,
+  row,
+  history,
+  createdAtMs,
+  nowMs
+}: {
+  settings: Settings;
+  scenario: ReplayScenario;
+  turn: ScenarioTurn;
+  row: MessageRow;
+  history: MessageRow[];
+  createdAtMs: number;
+  nowMs: number;
+}) {
+  const recentMessages = history.slice(-RECENT_MESSAGE_LIMIT).reverse();
+  const referenced = row.referenced_message_id
+    ? history.find((entry) => entry.message_id === row.referenced_message_id) || null
+    : null;
+  const message = {
+    content: row.content,
+    author: { id: row.author_id },
+    mentions: {
+      users: { has: (id: string | undefined) => turn.mentionsBot && id === BOT_USER_ID },
+      repliedUser: referenced ? { id: referenced.author_id } : null
+    },
+    reference: row.referenced_message_id ? { messageId: row.referenced_message_id } : null
+  };
+  const addressSignal = await getReplyAddressSignal(
+    {
+      botUserId: BOT_USER_ID,
+      isDirectlyAddressed: (_settings, candidate) =>
+        Boolean(candidate.mentions?.users?.has(BOT_USER_ID) || candidate.mentions?.repliedUser?.id === BOT_USER_ID)
+    },
+    settings,
+    message,
+    recentMessages
+  );
+
+  // Mirrors the gates the runtime applies before admission: the channel
+  // allowlist (skipped in DMs), blocked users, and the startup catchup scan.
+  const deny = (reason: string) => ({ allow: false, reason, attention: "", addressSignal });
+  if (!scenario.channel.dm && !isChannelAllowed(settings, scenario.channel.id)) return deny("channel_not_allowed");
+  if (isUserBlocked(settings, row.author_id)) return deny("user_blocked");
+  if (turn.source === "startup_catchup") {
+    const startup = getStartupSettings(settings);
+    if (!addressSignal.triggered) return deny("startup_catchup_not_addressed");
+    if (nowMs - createdAtMs > startup.catchupLookbackHours * 60 * 60_000) return deny("startup_catchup_stale");
+  }
+
+  const decision = evaluateReplyAdmissionDecision({
+    botUserId: BOT_USER_ID,
+    settings,
+    recentMessages,
+    addressSignal,
+    isReplyChannel: isReplyChannel(settings, scenario.channel.id),
+    triggerMessageId: row.message_id,
+    triggerAuthorId: row.author_id,
+    triggerReferenceMessageId: row.referenced_message_id,
+    windowSize: UNSOLICITED_REPLY_CONTEXT_WINDOW
+  });
+  return {
+    allow: decision.allow,
+    reason: decision.reason,
+    attention: decision.attentionState.mode,
+    attentionReason: decision.attentionState.reason,
+    recentReplyWindowActive: decision.attentionState.recentReplyWindowActive,
+    addressSignal
+  };
+}
+
+async function runTurnGeneration({
+  llm,
+  settings,
+  scenario,
+  row,
+  history,
+  addressSignal,
+  attentionMode,
+  attentionReason,
+  recentReplyWindowActive
+}: {
+  llm: ScenarioActorLlm;
+  settings: Settings;
+  scenario: ReplayScenario;
+  row: MessageRow;
+  history: MessageRow[];
+  addressSignal: ReplyAddressSignal;
+  attentionMode: string;
+  attentionReason: string;
+  recentReplyWindowActive: boolean;
+}) {
+  const activity = getActivitySettings(settings);
+  const addressed = addressSignal.direct;
+  const maxMediaPromptChars = 900;
+  const userPrompt = buildReplyPrompt({
+    message: {
+      authorName: row.author_name,
+      content: row.content
+    },
+    imageInputs: [],
+    recentMessages: history.slice(-RECENT_MESSAGE_LIMIT).reverse(),
+    userFacts: [],
+    relevantFacts: [],
+    emojiHints: [],
+    ambientReplyEagerness: activity.ambientReplyEagerness,
+    responseWindowEagerness: activity.responseWindowEagerness,
+    recentReplyWindowActive,
+    textAttentionMode: attentionMode,
+    textAttentionReason: attentionReason,
+    reactivity: activity.reactivity,
+    addressing: {
+      directlyAddressed: addressed,
+      directAddressConfidence: addressSignal.confidence,
+      directAddressThreshold: addressSignal.threshold
+    },
+    allowAutomationDirective: true,
+    channelMode: isReplyChannel(settings, scenario.channel.id) ? "reply_channel" : "other_channel",
+    maxMediaPromptChars
+  });
+
+  const generation = await llm.generate({
+    settings,
+    systemPrompt: buildSystemPrompt(settings),
+    userPrompt,
+    jsonSchema: REPLY_OUTPUT_JSON_SCHEMA,
+    tools: buildReplyToolSet(settings, {
+      webSearchAvailable: true,
+      webScrapeAvailable: true,
+      memoryAvailable: true
+    }),
+    trace: {
+      guildId: row.guild_id,
+      channelId: row.channel_id,
+      userId: BOT_USER_ID,
+      source: "scripted_replay_actor",
+      event: scenario.name,
+      reason: addressed ? "addressed" : "unaddressed",
+      messageId: row.message_id
+    }
+  });
+
+  const parsed = parseStructuredReplyOutput(generation.text, maxMediaPromptChars);
+  const text = String(parsed.text || "").trim();
+  return {
+    reply: (!text || text === "[SKIP]" ? "skip" : "send") as ScenarioReplyOutcome,
+    text: text === "[SKIP]" ? "" : text,
+    toolCalls: (generation.toolCalls || []).map((call) => String(call.name || "").trim()).filter(Boolean),
+    automation: String(parsed.automationAction?.operation || "none")
+  };
+}
+
+function compareTurnExpectations(turn: ScenarioTurn, result: ScriptedTurnResult) {
+  const expected = turn.expect;
+  if (!expected) return [];
+  const failures: string[] = [];
+  if (expected.admission) {
+    if (expected.admission.allow !== result.admission.allow) {
+      failures.push(`admission.allow expected ${expected.admission.allow} got ${result.admission.allow}`);
+    }
+    if (expected.admission.reason && expected.admission.reason !== result.admission.reason) {
+      failures.push(`admission.reason expected ${expected.admission.reason} got ${result.admission.reason}`);
+    }
+  }
+  if (expected.attention && expected.attention !== result.admission.attention) {
+    failures.push(`attention expected ${expected.attention} got ${result.admission.attention || "(gated)"}`);
+  }
+  if (expected.reply && expected.reply !== result.reply) {
+    failures.push(`reply expected ${expected.reply} got ${result.reply}`);
+  }
+  if (expected.toolCalls) {
+    const want = [...expected.toolCalls].sort().join(",");
+    const got = [...result.toolCalls].sort().join(",");
+    if (want !== got) failures.push(`toolCalls expected [${want}] got [${got}]`);
+  }
+  if (expected.automation && expected.automation !== result.automation) {
+    failures.push(`automation expected ${expected.automation} got ${result.automation}`);
+  }
+  return failures;
+}
+
+async function runScenarioJudge({
+  llm,
+  settings,
+  scenario,
+  turns
+}: {
+  llm: ReturnType<typeof createReplayLlmService>;
+  settings: Settings;
+  scenario: ReplayScenario;
+  turns: ScriptedTurnResult[];
+}): Promise<ScenarioJudgeResult> {
+  const transcript = turns
+    .map((turn) => {
+      const bot = turn.reply === "send" ? `\n  BOT: ${turn.botText}` : "";
+      const tools = turn.toolCalls.length ? ` tools=[${turn.toolCalls.join(",")}]` : "";
+      return `- ${turn.author}: ${turn.content} (admission=${turn.admission.reason} reply=${turn.reply}${tools})${bot}`;
+    })
+    .join("\n");
+
+  return await runJsonJudge<ScenarioJudgeResult>({
+    llm,
+    settings,
+    systemPrompt: [
+      "You are a strict evaluator for Discord text-chat bot behavior.",
+      "Score the observed conversation against every rubric item.",
+      "Return strict JSON only."
+    ].join("\n"),
+    userPrompt: [
+      `Scenario: ${scenario.name}`,
+      scenario.description ? `Description: ${scenario.description}` : "",
+      `Bot name: ${getBotName(settings)}`,
+      "Rubric:",
+      scenario.rubric.map((item, index) => `${index + 1}) ${item}`).join("\n"),
+      "Observed conversation:",
+      transcript,
+      'Output schema: {"pass":true|false,"score":0..100,"summary":"...","issues":["..."]}'
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    trace: {
+      guildId: null,
+      channelId: scenario.channel.id,
+      userId: null,
+      source: "scripted_replay_judge",
+      event: scenario.name,
+      reason: null,
+      messageId: null
+    },
+    onParsed: (parsed, rawText) => ({
+      pass: Boolean(parsed.pass),
+      score: clamp(Math.floor(stableNumber(parsed.score, 0)), 0, 100),
+      summary: String(parsed.summary || "").trim(),
+      issues: Array.isArray(parsed.issues)
+        ? parsed.issues.map((issue) => String(issue || "").trim()).filter(Boolean).slice(0, 8)
+        : [],
+      rawText
+    }),
+    onParseError: (rawText) => ({
+      pass: false,
+      score: 0,
+      summary: "judge_parse_error",
+      issues: ["judge returned non-JSON output"],
+      rawText
+    })
+  });
+}
+
+export async function runScriptedScenario({
+  scenario,
+  llm,
+  settings = buildScenarioSettings(scenario),
+  judge = null,
+  nowMs = Date.now()
+}: {
+  scenario: ReplayScenario;
+  llm: ScenarioActorLlm;
+  settings?: Settings;
+  judge?: {
+    llm: ReturnType<typeof createReplayLlmService>;
+    settings: Settings;
+  } | null;
+  nowMs?: number;
+}): Promise<ScriptedScenarioResult> {
+  const guildId = scenario.channel.dm ? null : SCENARIO_GUILD_ID;
+  const usersById = new Map(scenario.users.map((user) => [user.id, user]));
+  const timestamps = resolveTurnTimestamps(scenario, nowMs);
+  const history: MessageRow[] = [];
+  const turns: ScriptedTurnResult[] = [];
+  const botName = getBotName(settings);
+
+  for (const turn of scenario.turns) {
+    const createdAtMs = timestamps.get(turn.id) ?? nowMs;
+    const isBotTurn = turn.author === SCENARIO_BOT_AUTHOR;
+    const row = buildMessageRow({
+      id: turn.id,
+      authorId: isBotTurn ? BOT_USER_ID : turn.author,
+      authorName: isBotTurn ? botName : usersById.get(turn.author)?.name || turn.author,
+      content: turn.content,
+      referencedMessageId: turn.replyTo,
+      createdAtMs,
+      guildId,
+      channelId: scenario.channel.id
+    });
+    history.push(row);
+    if (isBotTurn) continue;
+
+    const admission = await evaluateTurnAdmission({
+      settings,
+      scenario,
+      turn,
+      row,
+      history,
+      createdAtMs,
+      nowMs
+    });
+    const result: ScriptedTurnResult = {
+      turnId: turn.id,
+      author: row.author_name,
+      content: turn.content,
+      source: turn.source,
+      admission: {
+        allow: admission.allow,
+        reason: admission.reason,
+        attention: admission.attention
+      },
+      reply: "none",
+      botText: "",
+      toolCalls: [],
+      automation: "none",
+      failures: []
+    };
+
+    if (admission.allow) {
+      try {
+        const generation = await runTurnGeneration({
+          llm,
+          settings,
+          scenario,
+          row,
+          history,
+          addressSignal: admission.addressSignal,
+          attentionMode: admission.attention,
+          attentionReason: String(admission.attentionReason || ""),
+          recentReplyWindowActive: Boolean(admission.recentReplyWindowActive)
+        });
+        result.reply = generation.reply;
+        result.botText = generation.text;
+        result.toolCalls = generation.toolCalls;
+        result.automation = generation.automation;
+      } catch (error) {
+        result.failures.push(`generation_error: ${String((error as Error)?.message || error)}`);
+      }
+    }
+
+    if (result.reply === "send") {
+      history.push(
+        buildMessageRow({
+          id: `${turn.id}.reply`,
+          authorId: BOT_USER_ID,
+          authorName: botName,
+          content: result.botText,
+          referencedMessageId: turn.id,
+          createdAtMs,
+          guildId,
+          channelId: scenario.channel.id
+        })
+      );
+    }
+    result.failures.push(...compareTurnExpectations(turn, result));
+    turns.push(result);
+  }
+
+  let judgeResult: ScenarioJudgeResult | null = null;
+  if (judge && scenario.rubric.length) {
+    try {
+      judgeResult = await runScenarioJudge({ llm: judge.llm, settings: judge.settings, scenario, turns });
+    } catch (error) {
+      judgeResult = {
+        pass: false,
+        score: 0,
+        summary: "judge_error",
+        issues: [String((error as Error)?.message || error)],
+        rawText: ""
+      };
+    }
+  }
+
+  const failures = turns.flatMap((turn) => turn.failures.map((failure) => `${turn.turnId}: ${failure}`));
+  if (judgeResult && !judgeResult.pass) failures.push(`judge: ${judgeResult.summary || "fail"}`);
+  return {
+    name: scenario.name,
+    file: scenario.file,
+    pass: failures.length === 0,
+    turns,
+    failures,
+    judge: judgeResult
+  };
+}
+
+export async function runScriptedReplay(args: ScriptedReplayArgs): Promise<ScriptedReplayReport> {
+  const startedAt = new Date().toISOString();
+  const filter = args.filter.toLowerCase();
+  const scenarios = (await loadReplayScenarios(path.resolve(args.scenariosPath))).filter(
+    (scenario) => !filter || scenario.name.toLowerCase().includes(filter)
+  );
+  const judgeEnabled = args.judge ?? args.mode === "live";
+  const liveLlm = args.mode === "live" || judgeEnabled ? createReplayLlmService() : null;
+
+  const results: ScriptedScenarioResult[] = [];
+  for (const scenario of scenarios) {
+    const settings = buildScenarioSettings(scenario, args.actorProvider, args.actorModel);
+    const actor = args.mode === "live" && liveLlm ? liveLlm : createScenarioStubLlm(scenario);
+    results.push(
+      await runScriptedScenario({
+        scenario,
+        llm: actor,
+        settings,
+        judge:
+          judgeEnabled && liveLlm
+            ? {
+                llm: liveLlm,
+                settings: normalizeSettings(
+                  withOrchestratorOverride(
+                    { interaction: { replyGeneration: { temperature: 0, maxOutputTokens: 420 } } },
+                    args.judgeProvider || args.actorProvider,
+                    args.judgeModel || args.actorModel
+                  )
+                )
+              }
+            : null
+      })
+    );
+  }
+
+  const passed = results.filter((result) => result.pass).length;
+  const allTurns = results.flatMap((result) => result.turns);
+  return {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    mode: args.mode,
+    scenarios: results,
+    summary: {
+      scenarios: results.length,
+      passed,
+      failed: results.length - passed,
+      turns: allTurns.length,
+      failedTurns: allTurns.filter((turn) => turn.failures.length > 0).length
+    }
+  };
+}
+
+function printScriptedReplayReport(report: ScriptedReplayReport) {
+  console.log("Scripted Text Replay Harness");
+  console.log(`mode=${report.mode}`);
+  console.log("");
+  for (const scenario of report.scenarios) {
+    console.log(`${scenario.pass ? "pass" : "FAIL"} ${scenario.name} (${scenario.file}) turns=${scenario.turns.length}`);
+    for (const failure of scenario.failures.slice(0, 8)) {
+      console.log(`  ${truncateText(failure, 160)}`);
+    }
+    if (scenario.judge) {
+      console.log(`  judge pass=${scenario.judge.pass ? "yes" : "no"} score=${scenario.judge.score} ${scenario.judge.summary}`);
+    }
+  }
+  console.log("");
+  console.log(
+    `summary scenarios=${report.summary.scenarios} pass=${report.summary.passed} fail=${report.summary.failed} turns=${report.summary.turns} failedTurns=${report.summary.failedTurns}`
+  );
+}
+
+export async function runScriptedReplayHarness(argv: string[]) {
+  const args = parseScriptedReplayArgs(argv);
+  const report = await runScriptedReplay(args);
+  printScriptedReplayReport(report);
+  await writeJsonReport(args.outJsonPath, report);
+  if (report.summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
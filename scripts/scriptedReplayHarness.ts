@@ -0,0 +1,7 @@
+#!/usr/bin/env bun
+import { runScriptedReplayHarness } from "./replay/scenarios/scripted.ts";
+
+runScriptedReplayHarness(process.argv.slice(2)).catch((error) => {
+  console.error("scripted replay harness failed:", error);
+  process.exit(1);
+});
@@ -8,7 +8,7 @@ import {
 import { writeJsonReport } from "./replay/core/output.ts";
 
 type CliArgs = {
-  mode: "simulated" | "live";
+  mode: "simulated" | "live" | "record" | "replay";
   modes: string;
   iterations: number;
   actorProvider: string;
@@ -20,6 +20,7 @@ type CliArgs = {
   judgeModel: string;
   allowMissingCredentials: boolean;
   maxCases: number;
+  fixturePath: string;
   outJsonPath: string;
 };
 
@@ -36,6 +37,7 @@ const DEFAULT_ARGS: CliArgs = {
   judgeModel: "claude-haiku-4-5",
   allowMissingCredentials: false,
   maxCases: 6,
+  fixturePath: "",
   outJsonPath: ""
 };
 
@@ -52,7 +54,8 @@ function parseArgs(argv: string[]): CliArgs {
 
     switch (name) {
       case "mode":
-        out.mode = hasValue && next === "live" ? "live" : "simulated";
+        out.mode =
+          hasValue && (next === "live" || next === "record" || next === "replay") ? next : "simulated";
         break;
       case "modes":
         if (hasValue) out.modes = next;
@@ -90,6 +93,9 @@ function parseArgs(argv: string[]): CliArgs {
       case "max-cases":
         if (hasValue) out.maxCases = Math.max(1, Math.floor(Number(next) || 6));
         break;
+      case "fixture":
+        if (hasValue) out.fixturePath = next;
+        break;
       case "out-json":
         if (hasValue) out.outJsonPath = next;
         break;
@@ -123,7 +129,8 @@ async function main() {
     },
     onCaseProgress: createVoiceGoldenCaseProgressLogger(),
     allowMissingCredentials: args.allowMissingCredentials,
-    maxCases: args.maxCases
+    maxCases: args.maxCases,
+    fixturePath: args.fixturePath
   });
 
   printVoiceGoldenHarnessReport(report);
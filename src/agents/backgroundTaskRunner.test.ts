@@ -160,3 +160,138 @@ test("BackgroundTaskRunner cancels running tasks by scope", async () => {
   assert.equal(completionTaskStatus, "cancelled");
   assert.deepEqual(removedSessions, ["code:task:cancel"]);
 });
+
+test("BackgroundTaskRunner persists task lifecycle and worktree lease to the store", async () => {
+  const persisted = new Map<string, Record<string, unknown>>();
+  const runner = new BackgroundTaskRunner({
+    store: {
+      logAction() {},
+      upsertBackgroundTask(task) {
+        persisted.set(task.id, { ...task });
+      }
+    },
+    sessionManager: {
+      remove() {
+        return true;
+      }
+    },
+    sweepIntervalMs: 5_000
+  });
+
+  let statusWhileRunning = "";
+  const completionDone = new Promise<void>((resolve) => {
+    const session: SubAgentSession = {
+      ...createSession({
+        id: "code:task:persist",
+        runTurn: async () => {
+          statusWhileRunning = String(persisted.get("code:task:persist")?.status || "");
+          return {
+            text: "Done.",
+            costUsd: 0.25,
+            isError: false,
+            errorMessage: "",
+            usage: { ...EMPTY_USAGE, inputTokens: 120, outputTokens: 40 }
+          };
+        }
+      }),
+      getWorkspace() {
+        return {
+          mode: "git_worktree",
+          repoRoot: "/repo",
+          worktreePath: "/tmp/clanker-code-worktrees/repo-abc",
+          cwd: "/tmp/clanker-code-worktrees/repo-abc",
+          branch: "clanker/claude-code/scope-abc",
+          baseRef: "main",
+          cleanup() {}
+        };
+      }
+    };
+    runner.dispatch({
+      session,
+      input: "Fix the flaky test",
+      scopeKey: buildCodeTaskScopeKey({ guildId: "guild-1", channelId: "channel-1" }),
+      guildId: "guild-1",
+      channelId: "channel-1",
+      userId: "user-1",
+      triggerMessageId: "msg-3",
+      role: "implementation",
+      onComplete: async () => resolve()
+    });
+  });
+
+  await completionDone;
+  runner.close();
+
+  const row = persisted.get("code:task:persist");
+  assert.equal(statusWhileRunning, "running");
+  assert.equal(row?.status, "completed");
+  assert.equal(row?.worktreePath, "/tmp/clanker-code-worktrees/repo-abc");
+  assert.equal(row?.branch, "clanker/claude-code/scope-abc");
+  assert.equal(row?.costUsd, 0.25);
+  assert.deepEqual(row?.usage, { ...EMPTY_USAGE, inputTokens: 120, outputTokens: 40 });
+});
+
+test("BackgroundTaskRunner recovers orphaned running tasks as interrupted and releases worktrees", () => {
+  const statusUpdates: Array<{ taskId: string; status: string }> = [];
+  const released: string[] = [];
+  const loggedContents: string[] = [];
+  const runner = new BackgroundTaskRunner({
+    store: {
+      logAction(entry) {
+        loggedContents.push(String(entry.content || ""));
+      },
+      listBackgroundTasks() {
+        return [
+          {
+            id: "code:task:orphan",
+            sessionId: "code:task:orphan",
+            scopeKey: "code:guild-1:channel-1",
+            guildId: "guild-1",
+            channelId: "channel-1",
+            userId: "user-1",
+            triggerMessageId: "msg-4",
+            role: "implementation",
+            source: "reply_tool_code_task",
+            input: "Refactor the parser",
+            status: "running",
+            startedAt: "2026-03-01T10:00:00.000Z",
+            completedAt: null,
+            progress: {
+              events: [{ summary: "Edited src/parser.ts" }],
+              fileEdits: ["src/parser.ts"],
+              turnNumber: 2
+            },
+            worktreePath: "/tmp/clanker-code-worktrees/repo-orphan",
+            repoRoot: "/repo",
+            branch: "clanker/claude-code/orphan",
+            costUsd: 0,
+            errorMessage: null
+          }
+        ];
+      },
+      setBackgroundTaskStatus(opts) {
+        statusUpdates.push({ taskId: opts.taskId, status: opts.status });
+      }
+    },
+    sessionManager: {
+      remove() {
+        return true;
+      }
+    },
+    sweepIntervalMs: 5_000,
+    releaseWorktree({ worktreePath }) {
+      released.push(worktreePath);
+    }
+  });
+
+  const recovered = runner.recoverInterruptedTasks();
+  runner.close();
+
+  assert.equal(recovered.length, 1);
+  assert.equal(recovered[0]?.status, "interrupted");
+  assert.equal(recovered[0]?.channelId, "channel-1");
+  assert.deepEqual(recovered[0]?.progress.fileEdits, ["src/parser.ts"]);
+  assert.deepEqual(released, ["/tmp/clanker-code-worktrees/repo-orphan"]);
+  assert.deepEqual(statusUpdates, [{ taskId: "code:task:orphan", status: "interrupted" }]);
+  assert.equal(loggedContents.includes("background_code_task_interrupted"), true);
+});
@@ -1,5 +1,6 @@
 import { isAbortError } from "../tools/browserTaskRuntime.ts";
 import type { CodeAgentRole } from "./codeAgent.ts";
+import { releaseCodeAgentWorktree } from "./codeAgentWorkspace.ts";
 import type {
   SubAgentProgressEvent,
   SubAgentSession,
@@ -10,8 +11,12 @@ import type {
 const DEFAULT_TASK_RETENTION_MS = 30 * 60_000;
 const DEFAULT_SWEEP_INTERVAL_MS = 10_000;
 const MAX_STORED_PROGRESS_EVENTS = 240;
+const MAX_PERSISTED_PROGRESS_EVENTS = 40;
+const PROGRESS_PERSIST_INTERVAL_MS = 5_000;
+const PERSISTED_TASK_RETENTION_MS = 7 * 24 * 60 * 60_000;
+const INTERRUPTED_TASK_ERROR = "Interrupted by a bot restart before the task finished.";
 
-export type BackgroundTaskStatus = "running" | "completed" | "error" | "cancelled";
+export type BackgroundTaskStatus = "running" | "completed" | "error" | "cancelled" | "interrupted";
 
 export type BackgroundTaskProgress = {
   events: SubAgentProgressEvent[];
@@ -41,6 +46,7 @@ export type BackgroundTask = {
   progress: BackgroundTaskProgress;
   result: SubAgentTurnResult | null;
   errorMessage: string | null;
+  worktreePath: string | null;
 };
 
 type BackgroundTaskProgressConfig = {
@@ -72,17 +78,55 @@ type InternalTask = BackgroundTask & {
   onComplete?: BackgroundTaskDispatchArgs["onComplete"];
   callbackInFlight: boolean;
   followupQueue: string[];
+  repoRoot: string | null;
+  branch: string | null;
+  lastPersistedAt: number;
+  persistPending: boolean;
+};
+
+type PersistedBackgroundTask = {
+  id: string;
+  sessionId: string;
+  scopeKey: string;
+  guildId: string;
+  channelId: string;
+  userId: string | null;
+  triggerMessageId: string | null;
+  role: string;
+  source: string | null;
+  input: string;
+  status: string;
+  startedAt: string;
+  completedAt: string | null;
+  progress: Record<string, unknown>;
+  worktreePath: string | null;
+  repoRoot: string | null;
+  branch: string | null;
+  costUsd: number;
+  errorMessage: string | null;
 };
 
 type ActionStore = {
   logAction: (entry: Record<string, unknown>) => void;
+  upsertBackgroundTask?: (task: Record<string, unknown> & { id: string }) => unknown;
+  listBackgroundTasks?: (opts: { statuses?: string[]; limit?: number }) => PersistedBackgroundTask[];
+  setBackgroundTaskStatus?: (opts: {
+    taskId: string;
+    status: string;
+    errorMessage?: string | null;
+    completedAt?: string | null;
+  }) => unknown;
+  pruneBackgroundTasks?: (opts: { beforeIso: string }) => unknown;
 };
 
+type ReleaseWorktree = typeof releaseCodeAgentWorktree;
+
 type BackgroundTaskRunnerOptions = {
   store: ActionStore;
   sessionManager: Pick<SubAgentSessionManager, "remove">;
   retentionMs?: number;
   sweepIntervalMs?: number;
+  releaseWorktree?: ReleaseWorktree;
 };
 
 function truncateSummary(value: unknown, maxChars = 220) {
@@ -99,6 +143,17 @@ function extractFilePathFromSummary(summary: string): string {
   return String(match?.[1] || "").trim();
 }
 
+function toIsoOrNull(value: number | null | undefined) {
+  const ms = Number(value);
+  if (!Number.isFinite(ms) || ms <= 0) return null;
+  return new Date(ms).toISOString();
+}
+
+function parseIsoMs(value: unknown, fallback: number) {
+  const ms = Date.parse(String(value || ""));
+  return Number.isFinite(ms) ? ms : fallback;
+}
+
 function normalizeProgressReportsConfig(
   input: BackgroundTaskDispatchArgs["progressReports"]
 ): BackgroundTaskProgressConfig {
@@ -125,6 +180,7 @@ export class BackgroundTaskRunner {
   private readonly store: ActionStore;
   private readonly sessionManager: Pick<SubAgentSessionManager, "remove">;
   private readonly retentionMs: number;
+  private readonly releaseWorktree: ReleaseWorktree;
   private readonly tasks = new Map<string, InternalTask>();
   private readonly scopeIndex = new Map<string, Set<string>>();
   private readonly sweepTimer: ReturnType<typeof setInterval>;
@@ -133,10 +189,12 @@ export class BackgroundTaskRunner {
     store,
     sessionManager,
     retentionMs = DEFAULT_TASK_RETENTION_MS,
-    sweepIntervalMs = DEFAULT_SWEEP_INTERVAL_MS
+    sweepIntervalMs = DEFAULT_SWEEP_INTERVAL_MS,
+    releaseWorktree = releaseCodeAgentWorktree
   }: BackgroundTaskRunnerOptions) {
     this.store = store;
     this.sessionManager = sessionManager;
+    this.releaseWorktree = releaseWorktree;
     this.retentionMs = Math.max(60_000, Math.floor(Number(retentionMs) || DEFAULT_TASK_RETENTION_MS));
     this.sweepTimer = setInterval(() => this.sweep(), Math.max(5_000, Math.floor(Number(sweepIntervalMs) || DEFAULT_SWEEP_INTERVAL_MS)));
     if (typeof this.sweepTimer.unref === "function") {
@@ -147,6 +205,7 @@ export class BackgroundTaskRunner {
   dispatch(args: BackgroundTaskDispatchArgs): BackgroundTask {
     const now = Date.now();
     const progressReports = normalizeProgressReportsConfig(args.progressReports);
+    const workspace = args.session.getWorkspace?.() || null;
     const task: InternalTask = {
       id: String(args.session.id || "").trim() || `code-task-${now}`,
       sessionId: String(args.session.id || "").trim() || `code-task-${now}`,
@@ -176,13 +235,18 @@ export class BackgroundTaskRunner {
       },
       result: null,
       errorMessage: null,
+      worktreePath: workspace?.worktreePath || null,
       session: args.session,
       abortController: new AbortController(),
       progressReports,
       onProgress: args.onProgress,
       onComplete: args.onComplete,
       callbackInFlight: false,
-      followupQueue: []
+      followupQueue: [],
+      repoRoot: workspace?.repoRoot || null,
+      branch: workspace?.branch || null,
+      lastPersistedAt: 0,
+      persistPending: false
     };
 
     const existing = this.tasks.get(task.id);
@@ -193,6 +257,7 @@ export class BackgroundTaskRunner {
 
     this.tasks.set(task.id, task);
     this.indexTask(task);
+    this.persistTask(task);
 
     this.store.logAction({
       kind: "code_agent_call",
@@ -230,6 +295,7 @@ export class BackgroundTaskRunner {
     } catch {
       // ignore
     }
+    this.persistTask(task);
     this.store.logAction({
       kind: "code_agent_error",
       guildId: task.guildId || null,
@@ -289,6 +355,84 @@ export class BackgroundTaskRunner {
     return cancelled;
   }
 
+  /**
+   * Reconcile tasks that a previous process left in the `running` state. Their
+   * sessions died with that process, so each one is marked `interrupted`, its
+   * worktree is released, and the snapshot is returned so the caller can tell
+   * the originating channel.
+   */
+  recoverInterruptedTasks(): BackgroundTask[] {
+    if (typeof this.store.listBackgroundTasks !== "function") return [];
+    const now = Date.now();
+    let orphaned: PersistedBackgroundTask[] = [];
+    try {
+      orphaned = this.store.listBackgroundTasks({ statuses: ["running"], limit: 200 });
+    } catch (error) {
+      this.store.logAction({
+        kind: "bot_error",
+        content: `background_code_task_recovery_failed: ${String(error instanceof Error ? error.message : error)}`
+      });
+      return [];
+    }
+
+    const recovered: BackgroundTask[] = [];
+    for (const row of orphaned) {
+      const taskId = String(row?.id || "").trim();
+      if (!taskId || this.tasks.has(taskId)) continue;
+
+      let worktreeReleased = false;
+      if (row.worktreePath) {
+        try {
+          this.releaseWorktree({
+            repoRoot: String(row.repoRoot || ""),
+            worktreePath: row.worktreePath,
+            branch: row.branch
+          });
+          worktreeReleased = true;
+        } catch {
+          // ignore
+        }
+      }
+
+      const completedAtIso = new Date(now).toISOString();
+      this.store.setBackgroundTaskStatus?.({
+        taskId,
+        status: "interrupted",
+        errorMessage: INTERRUPTED_TASK_ERROR,
+        completedAt: completedAtIso
+      });
+
+      const snapshot = this.restoreTaskSnapshot(row, now);
+      this.store.logAction({
+        kind: "code_agent_error",
+        guildId: snapshot.guildId || null,
+        channelId: snapshot.channelId || null,
+        userId: snapshot.userId || null,
+        content: "background_code_task_interrupted",
+        metadata: {
+          taskId: snapshot.id,
+          sessionId: snapshot.sessionId,
+          role: snapshot.role,
+          source: snapshot.source || null,
+          startedAt: row.startedAt,
+          progressEvents: snapshot.progress.events.length,
+          worktreePath: snapshot.worktreePath,
+          worktreeReleased
+        }
+      });
+      recovered.push(snapshot);
+    }
+
+    try {
+      this.store.pruneBackgroundTasks?.({
+        beforeIso: new Date(now - PERSISTED_TASK_RETENTION_MS).toISOString()
+      });
+    } catch {
+      // ignore
+    }
+    return recovered;
+  }
+
   close() {
     clearInterval(this.sweepTimer);
     for (const task of this.tasks.values()) {
@@ -372,6 +516,11 @@ export class BackgroundTaskRunner {
     if (filePath && !task.progress.fileEdits.includes(filePath)) {
       task.progress.fileEdits.push(filePath);
     }
+    if (Date.now() - task.lastPersistedAt >= PROGRESS_PERSIST_INTERVAL_MS) {
+      this.persistTask(task);
+    } else {
+      task.persistPending = true;
+    }
     this.maybeEmitProgressMilestone(task);
   }
 
@@ -420,6 +569,7 @@ export class BackgroundTaskRunner {
     if (!task.completedAt) {
       task.completedAt = Date.now();
     }
+    this.persistTask(task);
     this.store.logAction({
       kind: task.status === "completed" ? "code_agent_call" : "code_agent_error",
       guildId: task.guildId || null,
@@ -492,7 +642,99 @@ export class BackgroundTaskRunner {
             imageInputs: Array.isArray(task.result.imageInputs) ? [...task.result.imageInputs] : undefined
           }
         : null,
-      errorMessage: task.errorMessage
+      errorMessage: task.errorMessage,
+      worktreePath: task.worktreePath
+    };
+  }
+
+  private persistTask(task: InternalTask) {
+    task.lastPersistedAt = Date.now();
+    task.persistPending = false;
+    if (typeof this.store.upsertBackgroundTask !== "function") return;
+    try {
+      this.store.upsertBackgroundTask({
+        id: task.id,
+        sessionId: task.sessionId,
+        scopeKey: task.scopeKey,
+        guildId: task.guildId || null,
+        channelId: task.channelId || null,
+        userId: task.userId,
+        triggerMessageId: task.triggerMessageId,
+        role: task.role,
+        source: task.source,
+        input: task.input,
+        status: task.status,
+        startedAt: toIsoOrNull(task.startedAt),
+        completedAt: toIsoOrNull(task.completedAt),
+        progress: {
+          events: task.progress.events.slice(-MAX_PERSISTED_PROGRESS_EVENTS),
+          lastEventAt: task.progress.lastEventAt,
+          turnNumber: task.progress.turnNumber,
+          totalTurns: task.progress.totalTurns,
+          fileEdits: [...task.progress.fileEdits],
+          reportsSent: task.progress.reportsSent,
+          followupQueueDepth: task.followupQueue.length
+        },
+        worktreePath: task.worktreePath,
+        repoRoot: task.repoRoot,
+        branch: task.branch,
+        usage: task.result?.usage ? { ...task.result.usage } : null,
+        costUsd: Number(task.result?.costUsd || 0),
+        errorMessage: task.errorMessage,
+        resultText: task.result?.text || null
+      });
+    } catch (error) {
+      this.store.logAction({
+        kind: "bot_error",
+        guildId: task.guildId || null,
+        channelId: task.channelId || null,
+        userId: task.userId || null,
+        content: `background_code_task_persist_failed: ${String(error instanceof Error ? error.message : error)}`,
+        metadata: {
+          taskId: task.id,
+          sessionId: task.sessionId,
+          status: task.status
+        }
+      });
+    }
+  }
+
+  private restoreTaskSnapshot(row: PersistedBackgroundTask, now: number): BackgroundTask {
+    const startedAt = parseIsoMs(row.startedAt, now);
+    const progress = row.progress || {};
+    const events = Array.isArray(progress.events) ? (progress.events as SubAgentProgressEvent[]) : [];
+    const fileEdits = Array.isArray(progress.fileEdits)
+      ? progress.fileEdits.map((value) => String(value || "").trim()).filter(Boolean)
+      : [];
+    return {
+      id: String(row.id),
+      sessionId: String(row.sessionId || row.id),
+      scopeKey: String(row.scopeKey || ""),
+      guildId: String(row.guildId || ""),
+      channelId: String(row.channelId || ""),
+      userId: row.userId || null,
+      triggerMessageId: row.triggerMessageId || null,
+      role: row.role as CodeAgentRole,
+      source: row.source || null,
+      input: String(row.input || ""),
+      startedAt,
+      completedAt: now,
+      status: "interrupted",
+      progress: {
+        events,
+        lastEventAt: Number(progress.lastEventAt) || startedAt,
+        turnNumber: Math.max(1, Math.floor(Number(progress.turnNumber) || 1)),
+        totalTurns: Number.isFinite(Number(progress.totalTurns)) && progress.totalTurns !== null
+          ? Number(progress.totalTurns)
+          : null,
+        fileEdits,
+        lastMilestoneReportedAt: startedAt,
+        reportsSent: Math.max(0, Math.floor(Number(progress.reportsSent) || 0)),
+        lastReportedEventCount: events.length
+      },
+      result: null,
+      errorMessage: INTERRUPTED_TASK_ERROR,
+      worktreePath: row.worktreePath || null
     };
   }
 
@@ -522,6 +764,9 @@ export class BackgroundTaskRunner {
     const now = Date.now();
     for (const task of this.tasks.values()) {
       if (task.status === "running") {
+        if (task.persistPending) {
+          this.persistTask(task);
+        }
         this.maybeEmitProgressMilestone(task);
         continue;
       }
@@ -613,6 +613,11 @@ class CodeAgentSession extends BaseAgentSession {
     };
   }
 
+  getWorkspace(): CodeAgentWorkspaceLease | null {
+    if (this.workspaceReleased) return null;
+    return this.workspace;
+  }
+
   private releaseWorkspace() {
     if (this.workspaceReleased) return;
     this.workspaceReleased = true;
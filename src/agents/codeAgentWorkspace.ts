@@ -92,6 +92,51 @@ function resolveBaseRef(repoRoot: string): string {
   return "HEAD";
 }
 
+/**
+ * Remove a code-agent worktree and its scratch branch. Safe to call for leases
+ * that were provisioned by a previous process (startup recovery) as well as
+ * live ones; every git step is best-effort.
+ */
+export function releaseCodeAgentWorktree({
+  repoRoot,
+  worktreePath,
+  branch
+}: {
+  repoRoot: string;
+  worktreePath: string;
+  branch?: string | null;
+}) {
+  const normalizedRepoRoot = String(repoRoot || "").trim();
+  const normalizedWorktreePath = String(worktreePath || "").trim();
+  if (!normalizedWorktreePath) return;
+
+  if (normalizedRepoRoot) {
+    try {
+      runGit(["worktree", "remove", "--force", normalizedWorktreePath], normalizedRepoRoot);
+    } catch {
+      // ignore
+    }
+  }
+  try {
+    rmSync(normalizedWorktreePath, { recursive: true, force: true });
+  } catch {
+    // ignore
+  }
+  if (!normalizedRepoRoot) return;
+  try {
+    runGit(["worktree", "prune"], normalizedRepoRoot);
+  } catch {
+    // ignore
+  }
+  const normalizedBranch = String(branch || "").trim();
+  if (!normalizedBranch) return;
+  try {
+    runGit(["branch", "-D", normalizedBranch], normalizedRepoRoot);
+  } catch {
+    // ignore
+  }
+}
+
 export function provisionCodeAgentWorkspace({
   cwd,
   provider,
@@ -133,27 +178,7 @@ export function provisionCodeAgentWorkspace({
     cleanup() {
       if (cleanedUp) return;
       cleanedUp = true;
-
-      try {
-        runGit(["worktree", "remove", "--force", worktreePath], repoRoot);
-      } catch {
-        // ignore
-      }
-      try {
-        rmSync(worktreePath, { recursive: true, force: true });
-      } catch {
-        // ignore
-      }
-      try {
-        runGit(["worktree", "prune"], repoRoot);
-      } catch {
-        // ignore
-      }
-      try {
-        runGit(["branch", "-D", branch], repoRoot);
-      } catch {
-        // ignore
-      }
+      releaseCodeAgentWorktree({ repoRoot, worktreePath, branch });
     }
   };
 }
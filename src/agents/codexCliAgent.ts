@@ -166,6 +166,11 @@ export class CodexCliAgentSession extends BaseAgentSession {
     };
   }
 
+  getWorkspace(): CodeAgentWorkspaceLease | null {
+    if (this.workspaceReleased) return null;
+    return this.workspace;
+  }
+
   private releaseWorkspace() {
     if (this.workspaceReleased) return;
     this.workspaceReleased = true;
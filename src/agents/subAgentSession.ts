@@ -1,4 +1,5 @@
 import type { ImageInput } from "../llm/serviceShared.ts";
+import type { CodeAgentWorkspaceLease } from "./codeAgentWorkspace.ts";
 
 /**
  * Unified SubAgentSession framework
@@ -65,6 +66,8 @@ export interface SubAgentSession {
   lastUsedAt: number;
   status: "idle" | "running" | "completed" | "error" | "cancelled";
   getBrowserSessionKey?(): string | null;
+  /** The git worktree lease backing a local code session, if any. */
+  getWorkspace?(): CodeAgentWorkspaceLease | null;
 
   /** Send a turn (initial instruction or follow-up) and get the result. */
   runTurn(input: string, options?: SubAgentTurnOptions): Promise<SubAgentTurnResult>;
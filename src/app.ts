@@ -23,6 +23,7 @@ import { WebSearchService } from "./services/search.ts";
 import { Store } from "./store/store.ts";
 import { VideoContextService } from "./video/videoContextService.ts";
 import { BrowserManager } from "./services/BrowserManager.ts";
+import { McpClientManager } from "./mcp/mcpClient.ts";
 import { PublicHttpsEntrypoint } from "./services/publicHttpsEntrypoint.ts";
 import { ScreenShareSessionManager } from "./services/screenShareSessionManager.ts";
 import { RuntimeActionLogger } from "./services/runtimeActionLogger.ts";
@@ -54,7 +55,14 @@ export async function main() {
   ]);
   const browserManager = new BrowserManager({ maxConcurrentSessions: 2, sessionTimeoutMs: 300_000 });
 
-  const bot = new ClankerBot({ appConfig, store, llm, memory, discovery, search, gifs, video, browserManager });
+  const mcp = new McpClientManager({ servers: appConfig.mcpServers, store });
+  if (appConfig.voiceMcpServers.length > 0) {
+    console.warn(
+      "VOICE_MCP_SERVERS_JSON is deprecated. Move these servers to MCP_SERVERS_JSON so text and voice share one client."
+    );
+  }
+
+  const bot = new ClankerBot({ appConfig, store, llm, memory, discovery, search, gifs, video, browserManager, mcp });
   const publicHttpsEntrypoint = new PublicHttpsEntrypoint({ appConfig, store });
   const screenShareSessionManager = new ScreenShareSessionManager({
     appConfig,
@@ -28,6 +28,7 @@ import {
   resolveCodeAgentConfig,
   getActiveCodeAgentTaskCount
 } from "./agents/codeAgent.ts";
+import { describeSpendCapExceeded, resolveSpendCapDecision } from "./llm/spendCaps.ts";
 import { ImageCaptionCache } from "./vision/imageCaptionCache.ts";
 import {
   normalizeReactionEmojiToken
@@ -88,7 +89,10 @@ import {
   requestVoiceJoinFromDashboard
 } from "./bot/voiceCoordination.ts";
 import {
-  maybeRunAutomationCycle
+  maybeRunAutomationCycle,
+  runAutomationNow,
+  maybeRunTriggeredAutomations,
+  type AutomationTriggerEvent
 } from "./bot/automationEngine.ts";
 import {
   dequeueReplyBurst,
@@ -124,6 +128,7 @@ import {
 } from "./bot/botRuntimeFactories.ts";
 import { VoiceSessionManager } from "./voice/voiceSessionManager.ts";
 import type { BrowserManager } from "./services/BrowserManager.ts";
+import type { McpClientManager } from "./mcp/mcpClient.ts";
 import {
   BrowserTaskRegistry,
   buildBrowserTaskScopeKey,
@@ -307,6 +312,7 @@ export class ClankerBot {
   client: DiscordClientLike;
   voiceSessionManager: VoiceSessionManager;
   browserManager: BrowserManager | null;
+  mcp: McpClientManager | null;
   activeReplies: ActiveReplyRegistry;
   activeBrowserTasks: BrowserTaskRegistry;
   subAgentSessions: SubAgentSessionManager;
@@ -316,7 +322,7 @@ export class ClankerBot {
   private streamDiscoveryCleanup: (() => void) | null;
   private captionTimestamps: number[];
 
-  constructor({ appConfig, store, llm, memory, discovery, search, gifs, video, browserManager = null }) {
+  constructor({ appConfig, store, llm, memory, discovery, search, gifs, video, browserManager = null, mcp = null }) {
     this.appConfig = appConfig;
     this.store = store;
     this.llm = llm;
@@ -326,6 +332,7 @@ export class ClankerBot {
     this.gifs = gifs;
     this.video = video;
     this.browserManager = browserManager;
+    this.mcp = mcp;
 
     this.lastBotMessageAt = 0;
     this.memoryTimer = null;
@@ -362,7 +369,8 @@ export class ClankerBot {
     });
     this.imageCaptionCache = new ImageCaptionCache({
       maxEntries: 200,
-      defaultTtlMs: 60 * 60 * 1000 // 1 hour
+      defaultTtlMs: 60 * 60 * 1000, // 1 hour
+      store: this.store
     });
     this.captionTimestamps = [];
     this.streamDiscovery = createStreamDiscoveryState();
@@ -388,6 +396,7 @@ export class ClankerBot {
       memory: this.memory,
       search: this.search,
       browserManager: this.browserManager,
+      mcp: this.mcp,
       composeOperationalMessage: (payload) =>
         composeVoiceOperationalMessage(this.toVoiceCoordinationRuntime(), payload),
       generateVoiceTurn: (payload) =>
@@ -474,12 +483,18 @@ export class ClankerBot {
   }
 
   async handleClankSlashCommand(interaction: ChatInputCommandInteraction) {
-    const settings = this.store.getSettings();
+    const settings = this.store.getScopedSettings({
+      guildId: interaction.guildId,
+      channelId: interaction.channelId
+    });
     const subcommandGroup = interaction.options.getSubcommandGroup(false);
 
     if (subcommandGroup === "music") {
       return await this.voiceSessionManager.handleClankSlashCommand(interaction, settings);
     }
+    if (subcommandGroup === "memory") {
+      return await this.handleClankMemorySlashCommand(interaction);
+    }
 
     const subcommand = interaction.options.getSubcommand(true);
     if (subcommand === "say") {
@@ -495,6 +510,78 @@ export class ClankerBot {
     await interaction.reply({ content: "Unsupported /clank command.", ephemeral: true });
   }
 
+  async handleClankMemorySlashCommand(interaction: ChatInputCommandInteraction) {
+    const subcommand = interaction.options.getSubcommand(true);
+    const userId = interaction.user.id;
+    const scope = {
+      userId,
+      guildId: interaction.guildId,
+      channelId: interaction.channelId,
+      source: "slash_command_clank_memory"
+    };
+
+    if (subcommand === "list") {
+      const { facts, total, page, pageCount } = this.memory.listUserMemoryFacts({
+        userId,
+        page: interaction.options.getInteger("page")
+      });
+      if (!total) {
+        await interaction.reply({ content: "I don't have any facts saved about you.", ephemeral: true });
+        return;
+      }
+      if (!facts.length) {
+        await interaction.reply({ content: `There are only ${pageCount} page(s) of facts about you.`, ephemeral: true });
+        return;
+      }
+      const lines = [
+        `Here's what I remember about you (page ${page} of ${pageCount}, ${total} facts). Use \`/clank memory forget fact_id:<n>\` to delete one.`
+      ];
+      for (const fact of facts) {
+        const factText = fact.fact.length > 160 ? `${fact.fact.slice(0, 157)}...` : fact.fact;
+        const line = `#${fact.id} [${fact.fact_type}]${fact.is_active ? "" : " (archived)"} ${factText}`;
+        if (lines.join("\n").length + line.length + 1 > 1900) {
+          lines.push(`...and ${facts.length - (lines.length - 1)} more on this page.`);
+          break;
+        }
+        lines.push(line);
+      }
+      if (page < pageCount) {
+        lines.push(`Use \`/clank memory list page:${page + 1}\` for more.`);
+      }
+      await interaction.reply({ content: lines.join("\n"), ephemeral: true });
+      return;
+    }
+
+    if (subcommand === "forget") {
+      const factId = interaction.options.getInteger("fact_id", true);
+      const result = await this.memory.forgetUserMemory({ ...scope, factIds: [factId] });
+      await interaction.reply({
+        content: result.ok
+          ? `Forgot fact #${factId}.`
+          : `I couldn't find fact #${factId} about you. Use \`/clank memory list\` to see your facts.`,
+        ephemeral: true
+      });
+      if (result.ok) this.purgeGuildMemoryRuntime(interaction.guildId);
+      return;
+    }
+
+    if (subcommand === "forget_all") {
+      if (!interaction.options.getBoolean("confirm", true)) {
+        await interaction.reply({ content: "Nothing was deleted. Set `confirm` to true to forget everything about you.", ephemeral: true });
+        return;
+      }
+      await interaction.deferReply({ ephemeral: true });
+      const result = await this.memory.forgetUserMemory(scope);
+      this.purgeGuildMemoryRuntime(interaction.guildId);
+      await interaction.editReply(
+        `Done. I forgot ${result.factsDeleted} fact${result.factsDeleted === 1 ? "" : "s"} about you and removed ${result.journalEntriesDeleted} of your lines from my daily logs.`
+      );
+      return;
+    }
+
+    await interaction.reply({ content: "Unsupported /clank memory command.", ephemeral: true });
+  }
+
   async handleClankBrowseSlashCommand(
     interaction: ChatInputCommandInteraction,
     settings: Settings
@@ -592,6 +679,11 @@ export class ClankerBot {
       await interaction.editReply("Code agent is currently blocked by hourly limits. Try again shortly.");
       return;
     }
+    const spendCap = resolveSpendCapDecision({ store: this.store, settings, feature: "codeAgent" });
+    if (spendCap.action === "refuse") {
+      await interaction.editReply(`Code agent is paused: ${describeSpendCapExceeded(spendCap.status)}`);
+      return;
+    }
 
     try {
       const {
@@ -870,6 +962,23 @@ export class ClankerBot {
       }
     });
 
+    this.client.on("voiceStateUpdate", (oldState, newState) => {
+      const voiceChannelId = String(newState?.channelId || "");
+      if (!voiceChannelId || voiceChannelId === String(oldState?.channelId || "")) return;
+      const member = newState.member;
+      if (!member || member.user?.bot) return;
+      this.fireAutomationEvent({
+        type: "voice_join",
+        guildId: String(newState.guild?.id || ""),
+        payload: {
+          userId: member.id,
+          userName: member.displayName || member.user?.username || member.id,
+          voiceChannelId,
+          voiceChannelName: newState.channel?.name || null
+        }
+      });
+    });
+
     this.client.on("messageReactionAdd", async (reaction, user) => {
       try {
         await this.recordReactionHistoryEvent(reaction, user);
@@ -936,6 +1045,14 @@ export class ClankerBot {
     this.isStopping = false;
     await this.client.login(this.appConfig.discordToken);
     this.lastGatewayEventAt = Date.now();
+    if (this.mcp?.hasServers()) {
+      this.mcp.connectAll().catch((error) => {
+        this.store.logAction({
+          kind: "bot_error",
+          content: `mcp_connect: ${String(error?.message || error)}`
+        });
+      });
+    }
 
     this.memoryTimer = setInterval(() => {
       this.memory.refreshMemoryMarkdown().catch((error) => {
@@ -944,6 +1061,7 @@ export class ClankerBot {
           content: `memory_refresh: ${String(error?.message || error)}`
         });
       });
+      this.memory.maybeStartEmbeddingMigration(this.store.getSettings());
     }, 5 * 60_000);
 
     this.initiativeTimer = setInterval(() => {
@@ -1030,9 +1148,20 @@ export class ClankerBot {
       }
     }
     this.backgroundTaskRunner.close();
+    if (this.mcp) {
+      try {
+        await this.mcp.close();
+      } catch (error) {
+        try { this.store.logAction({ kind: "bot_error", content: "shutdown_close_mcp_servers_failed", metadata: { error: String(error instanceof Error ? error.message : error) } }); } catch { /* store may be closing */ }
+      }
+    }
     await this.client.destroy();
   }
 
+  getMcpServerStatuses() {
+    return this.mcp?.getServerStatuses() || [];
+  }
+
   getRuntimeState() {
     return {
       isReady: this.client.isReady(),
@@ -1105,9 +1234,18 @@ export class ClankerBot {
     });
   }
 
+  async runAutomationCycleFromDashboard() {
+    await maybeRunAutomationCycle(this.toAutomationEngineRuntime());
+  }
+
+  async runAutomationNowFromDashboard({ automationId }: { automationId: number }) {
+    return await runAutomationNow(this.toAutomationEngineRuntime(), { automationId });
+  }
+
   async applyRuntimeSettings(nextSettings = null) {
     const settings = nextSettings || this.store.getSettings();
     await this.voiceSessionManager.reconcileSettings(settings);
+    this.memory.maybeStartEmbeddingMigration(settings);
   }
 
   async reloadOAuthProviders() {
@@ -1339,6 +1477,40 @@ export class ClankerBot {
     });
   }
 
+  async announceInterruptedBackgroundTasks() {
+    const interruptedTasks = this.backgroundTaskRunner.recoverInterruptedTasks();
+    let announced = 0;
+    for (const task of interruptedTasks) {
+      const channel = this.client.channels.cache.get(String(task.channelId || ""));
+      if (!isSendableChannel(channel)) continue;
+      const elapsedMinutes = Math.max(1, Math.round((Number(task.completedAt || Date.now()) - task.startedAt) / 60_000));
+      const touchedFiles = task.progress.fileEdits.length
+        ? ` It had touched ${task.progress.fileEdits.length} file${task.progress.fileEdits.length === 1 ? "" : "s"} before stopping; that scratch worktree has been cleaned up.`
+        : "";
+      const mention = task.userId ? `<@${task.userId}> ` : "";
+      try {
+        await channel.send({
+          content: `${mention}task interrupted: the background code task \`${task.sessionId}\` was cut off by a restart after ~${elapsedMinutes} min.${touchedFiles} Ask again if you still want it done.`,
+          allowedMentions: { users: task.userId ? [task.userId] : [] }
+        });
+        announced += 1;
+      } catch (error) {
+        this.store.logAction({
+          kind: "bot_error",
+          guildId: task.guildId || null,
+          channelId: task.channelId || null,
+          userId: task.userId || null,
+          content: `background_code_task_interrupted_notice_failed: ${String(error instanceof Error ? error.message : error)}`,
+          metadata: {
+            taskId: task.id,
+            sessionId: task.sessionId
+          }
+        });
+      }
+    }
+    return announced;
+  }
+
   async deliverAsyncTaskProgress(task: BackgroundTask, recentEvents: import("./agents/subAgentSession.ts").SubAgentProgressEvent[]) {
     if (!task?.channelId || !task?.guildId) return false;
     if (!Array.isArray(recentEvents) || recentEvents.length <= 0) return false;
@@ -1537,7 +1709,10 @@ export class ClankerBot {
     if (!message.channel || !message.author) return;
     if (isAppCommandInvocationMessage(message)) return;
 
-    const settings = this.store.getSettings();
+    const settings = this.store.getScopedSettings({
+      guildId: message.guildId,
+      channelId: message.channelId
+    });
 
     const text = String(message.content || "").trim();
     const recordedContent = composeMessageContentForHistory(
@@ -1561,6 +1736,21 @@ export class ClankerBot {
     if (!isDmContext && !isChannelAllowed(settings, String(message.channelId))) return;
     if (isUserBlocked(settings, String(message.author.id))) return;
 
+    if (!isDmContext && !message.author.bot && text) {
+      this.fireAutomationEvent({
+        type: "message",
+        guildId: String(message.guildId),
+        key: String(message.id),
+        payload: {
+          messageId: message.id,
+          channelId: message.channelId,
+          userId: message.author.id,
+          userName: message.member?.displayName || message.author.username,
+          content: text.slice(0, 500)
+        }
+      });
+    }
+
     if (isCancelIntent(text)) {
       const replyScopeKey = buildTextReplyScopeKey({
         guildId: message.guildId,
@@ -1723,7 +1913,7 @@ export class ClankerBot {
     if (member.user.bot) return;
     if (String(member.user.id) === String(this.client.user?.id || "")) return;
 
-    const settings = this.store.getSettings();
+    const settings = this.store.getScopedSettings({ guildId: member.guild.id });
     if (!settings?.permissions?.replies?.allowReplies) return;
 
     const displayName = member.displayName || member.user.username || "Someone";
@@ -2204,7 +2394,10 @@ export class ClankerBot {
     if (this.startupTasksRan) return;
     this.startupTasksRan = true;
 
+    await this.announceInterruptedBackgroundTasks();
+
     const settings = this.store.getSettings();
+    this.memory.maybeStartEmbeddingMigration(settings);
     await runStartupCatchup(
       {
         botUserId: String(this.client.user?.id || "").trim(),
@@ -2247,6 +2440,16 @@ export class ClankerBot {
     }
   }
 
+  fireAutomationEvent(event: AutomationTriggerEvent) {
+    maybeRunTriggeredAutomations(this.toAutomationEngineRuntime(), event).catch((error) => {
+      this.store.logAction({
+        kind: "bot_error",
+        guildId: event.guildId || null,
+        content: `automation_event_${event.type}: ${String(error?.message || error)}`
+      });
+    });
+  }
+
   async maybeRunReflection() {
     const settings = this.store.getSettings();
     const memory = getMemorySettings(settings);
@@ -14,6 +14,7 @@ import {
   isAbortError,
   runBrowserBrowseTask
 } from "../tools/browserTaskRuntime.ts";
+import { resolveSpendCapDecision, type SpendCapFeature } from "../llm/spendCaps.ts";
 import { clamp } from "../utils.ts";
 import { MAX_BROWSER_BROWSE_QUERY_LEN, normalizeDirectiveText } from "./botHelpers.ts";
 import { getResolvedBrowserTaskConfig, isDevTaskEnabled } from "../settings/agentStack.ts";
@@ -75,6 +76,10 @@ function buildCodeAgentBudgetWindowStart() {
   return new Date(Date.now() - 60 * 60 * 1000).toISOString();
 }
 
+function isBlockedBySpendCap(ctx: AgentContext, settings: Record<string, unknown>, feature: SpendCapFeature) {
+  return resolveSpendCapDecision({ store: ctx.store, settings, feature }).action === "refuse";
+}
+
 function buildScopeKey({
   guildId,
   channelId
@@ -272,7 +277,7 @@ export async function runModelRequestedCodeTask(
 
   const maxPerHour = codeAgentConfig.maxTasksPerHour;
   const used = ctx.store.countActionsSince("code_agent_call", buildCodeAgentBudgetWindowStart());
-  if (used >= maxPerHour) {
+  if (used >= maxPerHour || isBlockedBySpendCap(ctx, settings, "codeAgent")) {
     return { text: "", blockedByBudget: true };
   }
 
@@ -350,6 +355,7 @@ export function createCodeAgentSession(
   const maxPerHour = codeAgentConfig.maxTasksPerHour;
   const used = ctx.store.countActionsSince("code_agent_call", buildCodeAgentBudgetWindowStart());
   if (used >= maxPerHour) return null;
+  if (isBlockedBySpendCap(ctx, settings, "codeAgent")) return null;
 
   const {
     cwd,
@@ -406,6 +412,7 @@ function createBrowserAgentSession(
   }: CreateBrowserAgentSessionOptions
 ) {
   if (!ctx.browserManager) return null;
+  if (isBlockedBySpendCap(ctx, settings, "browserAgent")) return null;
   const browserTaskConfig = getResolvedBrowserTaskConfig(settings);
   if (browserTaskConfig.runtime === "openai_computer_use") return null;
   const maxSteps = clamp(Number(browserTaskConfig.maxStepsPerTask) || 15, 1, 30);
@@ -2,6 +2,8 @@ import { test } from "bun:test";
 import assert from "node:assert/strict";
 import {
   formatAutomationSchedule,
+  isLinearAutomationEventRegex,
+  matchAutomationEvent,
   normalizeAutomationInstruction,
   normalizeAutomationSchedule,
   normalizeAutomationTitle,
@@ -75,3 +77,108 @@ test("formatAutomationSchedule returns readable interval label", () => {
 
   assert.equal(label, "every 2 hours");
 });
+
+test("normalizeAutomationSchedule accepts cron schedules with an explicit timezone", () => {
+  const schedule = normalizeAutomationSchedule({
+    kind: "cron",
+    expression: "0 9 * * mon-fri",
+    timeZone: "America/New_York"
+  });
+
+  assert.deepEqual(schedule, {
+    kind: "cron",
+    expression: "0 9 * * MON-FRI",
+    timeZone: "America/New_York"
+  });
+  assert.equal(normalizeAutomationSchedule({ kind: "cron", expression: "0 9 * * MON-FRI", timeZone: "Nowhere/Else" }), null);
+  assert.equal(normalizeAutomationSchedule({ kind: "cron", expression: "every weekday" }), null);
+});
+
+test("resolveFollowingNextRunAt keeps daily wall-clock time across DST", () => {
+  const schedule = normalizeAutomationSchedule({
+    kind: "daily",
+    hour: 8,
+    minute: 0,
+    timeZone: "Europe/Berlin"
+  });
+  const nextRunAt = resolveFollowingNextRunAt({
+    schedule,
+    previousNextRunAt: "2026-03-28T07:00:00.000Z",
+    runFinishedMs: Date.parse("2026-03-28T07:00:20.000Z")
+  });
+
+  assert.equal(nextRunAt, "2026-03-29T06:00:00.000Z");
+});
+
+test("formatAutomationSchedule labels cron schedules with their timezone", () => {
+  const label = formatAutomationSchedule({
+    kind: "cron",
+    expression: "0 10 * * MON#1",
+    timeZone: "Europe/London"
+  });
+
+  assert.equal(label, "cron 0 10 * * MON#1 (Europe/London)");
+});
+
+test("normalizeAutomationSchedule validates event triggers", () => {
+  assert.deepEqual(
+    normalizeAutomationSchedule({ kind: "event", event: "message", pattern: "^ship(ped)?\\b", match: "regex", channelId: "chan-9" }),
+    {
+      kind: "event",
+      event: "message",
+      pattern: "^ship(ped)?\\b",
+      match: "regex",
+      sourceChannelId: "chan-9",
+      cooldownMinutes: 5
+    }
+  );
+  assert.equal(normalizeAutomationSchedule({ kind: "event", event: "message", pattern: "(", match: "regex" }), null);
+  assert.equal(normalizeAutomationSchedule({ kind: "event", event: "automation_run" }), null);
+  assert.equal(normalizeAutomationSchedule({ kind: "event", event: "sunrise" }), null);
+  assert.equal(resolveInitialNextRunAt({ schedule: { kind: "event", event: "voice_join" } }), null);
+});
+
+test("message regex triggers reject patterns that can backtrack catastrophically", () => {
+  for (const pattern of ["(a+)+$", "(\\w+\\s?)*$", "(a|ab)*c", "(a+){5}", "(\\w)\\1", "(?<n>x)\\k<n>", ".*.*.*.*x"]) {
+    assert.equal(isLinearAutomationEventRegex(pattern), false, pattern);
+    assert.equal(normalizeAutomationSchedule({ kind: "event", event: "message", pattern, match: "regex" }), null, pattern);
+  }
+  for (const pattern of ["^ship(ped)?\\b", "^!deploy\\s+\\w+", "(?:alpha|beta)\\s+release", "[(+]+x", "(ab){2}"]) {
+    assert.equal(isLinearAutomationEventRegex(pattern), true, pattern);
+  }
+
+  const tail = normalizeAutomationSchedule({ kind: "event", event: "message", pattern: "needle$", match: "regex" });
+  const longMessage = `${"x".repeat(1200)}needle`;
+  assert.equal(matchAutomationEvent(tail, { type: "message", guildId: "g", payload: { content: longMessage } }), null);
+});
+
+test("matchAutomationEvent matches each trigger type against its event payload", () => {
+  const keyword = normalizeAutomationSchedule({ kind: "event", event: "message", pattern: "Deploy Done" });
+  assert.equal(
+    matchAutomationEvent(keyword, { type: "message", guildId: "g", payload: { channelId: "c", content: "ok deploy   done!" } }),
+    "deploy done"
+  );
+  assert.equal(matchAutomationEvent(keyword, { type: "message", guildId: "g", payload: { content: "nothing" } }), null);
+
+  const voice = normalizeAutomationSchedule({ kind: "event", event: "voice_join", userId: "user-7" });
+  assert.equal(
+    matchAutomationEvent(voice, { type: "voice_join", guildId: "g", payload: { userId: "user-7", userName: "vee" } }),
+    "vee"
+  );
+  assert.equal(matchAutomationEvent(voice, { type: "voice_join", guildId: "g", payload: { userId: "user-8" } }), null);
+
+  const discovery = normalizeAutomationSchedule({ kind: "event", event: "discovery_item", source: "RSS" });
+  assert.equal(
+    matchAutomationEvent(discovery, { type: "discovery_item", guildId: "g", payload: { source: "rss", title: "New post" } }),
+    "New post"
+  );
+  assert.equal(matchAutomationEvent(discovery, { type: "discovery_item", guildId: "g", payload: { source: "reddit" } }), null);
+
+  const chained = normalizeAutomationSchedule({ kind: "event", event: "automation_run", automationId: 4, onStatus: "error" });
+  assert.equal(
+    matchAutomationEvent(chained, { type: "automation_run", guildId: "g", payload: { automationId: 4, status: "error" } }),
+    "automation #4 error"
+  );
+  assert.equal(matchAutomationEvent(chained, { type: "automation_run", guildId: "g", payload: { automationId: 4, status: "ok" } }), null);
+  assert.equal(formatAutomationSchedule(chained), "when automation #4 fails");
+});
@@ -1,6 +1,16 @@
 import { clamp } from "../utils.ts";
+import { normalizeIanaTimeZone, parseCronExpression, resolveNextCronRunMs } from "./automationCron.ts";
 
-const AUTOMATION_SCHEDULE_KINDS = new Set(["daily", "interval", "once"]);
+const AUTOMATION_SCHEDULE_KINDS = new Set(["daily", "interval", "once", "cron", "event"]);
+export const AUTOMATION_EVENT_TYPES = ["message", "voice_join", "discovery_item", "automation_run"] as const;
+const AUTOMATION_EVENT_TYPE_SET = new Set<string>(AUTOMATION_EVENT_TYPES);
+const AUTOMATION_RUN_TRIGGER_STATUSES = new Set(["ok", "error", "skipped", "any"]);
+
+const MAX_AUTOMATION_EVENT_PATTERN_LEN = 200;
+const MAX_AUTOMATION_EVENT_REGEX_UNBOUNDED_QUANTIFIERS = 3;
+const MAX_AUTOMATION_EVENT_MATCH_TEXT_LEN = 1000;
+const DEFAULT_AUTOMATION_EVENT_COOLDOWN_MINUTES = 5;
+export const MAX_AUTOMATION_CHAIN_DEPTH = 3;
 
 const MAX_AUTOMATION_TITLE_LEN = 90;
 const MAX_AUTOMATION_INSTRUCTION_LEN = 360;
@@ -41,11 +51,21 @@ export function normalizeAutomationSchedule(raw, { nowMs = Date.now(), allowPast
     .toLowerCase();
   if (!AUTOMATION_SCHEDULE_KINDS.has(kind)) return null;
 
-  if (kind === "daily") {
+  if (kind === "daily" || kind === "cron") {
+    const rawTimeZone = String(raw.timeZone || "").trim();
+    const timeZone = rawTimeZone ? normalizeIanaTimeZone(rawTimeZone) : resolveScheduleTimeZone(null);
+    if (!timeZone) return null;
+
+    if (kind === "cron") {
+      const cron = parseCronExpression(raw.expression);
+      if (!cron) return null;
+      return { kind, expression: cron.expression, timeZone };
+    }
+
     const hour = clamp(Math.floor(Number(raw.hour)), 0, 23);
     const minute = clamp(Math.floor(Number(raw.minute ?? 0)), 0, 59);
     if (!Number.isFinite(hour) || !Number.isFinite(minute)) return null;
-    return { kind, hour, minute };
+    return { kind, hour, minute, timeZone };
   }
 
   if (kind === "interval") {
@@ -54,18 +74,217 @@ export function normalizeAutomationSchedule(raw, { nowMs = Date.now(), allowPast
     return { kind, everyMinutes };
   }
 
+  if (kind === "event") return normalizeAutomationEventSchedule(raw);
+
   const parsedAt = Date.parse(String(raw.atIso || "").trim());
   if (!Number.isFinite(parsedAt)) return null;
   if (!allowPastOnce && parsedAt < nowMs - 15_000) return null;
   return { kind: "once", atIso: new Date(parsedAt).toISOString() };
 }
 
+export function isEventAutomationSchedule(schedule) {
+  return Boolean(schedule && typeof schedule === "object" && schedule.kind === "event");
+}
+
+function normalizeAutomationEventSchedule(raw) {
+  const event = String(raw.event || "")
+    .trim()
+    .toLowerCase();
+  if (!AUTOMATION_EVENT_TYPE_SET.has(event)) return null;
+
+  const cooldownRaw = Number(raw.cooldownMinutes ?? DEFAULT_AUTOMATION_EVENT_COOLDOWN_MINUTES);
+  const cooldownMinutes = clamp(
+    Math.floor(Number.isFinite(cooldownRaw) ? cooldownRaw : DEFAULT_AUTOMATION_EVENT_COOLDOWN_MINUTES),
+    0,
+    24 * 60
+  );
+  const optionalId = (value) => String(value || "").trim().slice(0, 40) || null;
+
+  if (event === "message") {
+    const pattern = String(raw.pattern || "").trim().slice(0, MAX_AUTOMATION_EVENT_PATTERN_LEN);
+    const match = String(raw.match || "keyword").trim().toLowerCase() === "regex" ? "regex" : "keyword";
+    if (!pattern) return null;
+    if (match === "regex" && !compileAutomationEventRegex(pattern)) return null;
+    return {
+      kind: "event",
+      event,
+      pattern,
+      match,
+      sourceChannelId: optionalId(raw.sourceChannelId ?? raw.channelId),
+      cooldownMinutes
+    };
+  }
+
+  if (event === "voice_join") {
+    return {
+      kind: "event",
+      event,
+      userId: optionalId(raw.userId),
+      voiceChannelId: optionalId(raw.voiceChannelId ?? raw.channelId),
+      cooldownMinutes
+    };
+  }
+
+  if (event === "discovery_item") {
+    return {
+      kind: "event",
+      event,
+      source: String(raw.source || "").trim().toLowerCase().slice(0, 40) || null,
+      pattern: String(raw.pattern || "").trim().slice(0, MAX_AUTOMATION_EVENT_PATTERN_LEN) || null,
+      cooldownMinutes
+    };
+  }
+
+  const automationId = Math.floor(Number(raw.automationId));
+  if (!Number.isInteger(automationId) || automationId <= 0) return null;
+  const onStatus = String(raw.onStatus || "ok").trim().toLowerCase();
+  return {
+    kind: "event",
+    event,
+    automationId,
+    onStatus: AUTOMATION_RUN_TRIGGER_STATUSES.has(onStatus) ? onStatus : "ok",
+    cooldownMinutes
+  };
+}
+
+/**
+ * Checks an incoming runtime event against an event-kind schedule. Returns the matched
+ * text (keyword, regex match, or a short label) when the schedule should fire, else null.
+ */
+export function matchAutomationEvent(schedule, event) {
+  if (!isEventAutomationSchedule(schedule) || !event || schedule.event !== event.type) return null;
+  const payload = event.payload && typeof event.payload === "object" ? event.payload : {};
+
+  if (schedule.event === "message") {
+    if (schedule.sourceChannelId && String(payload.channelId || "") !== schedule.sourceChannelId) return null;
+    const content = String(payload.content || "").slice(0, MAX_AUTOMATION_EVENT_MATCH_TEXT_LEN);
+    if (!content) return null;
+    if (schedule.match === "regex") {
+      const regex = compileAutomationEventRegex(schedule.pattern);
+      const matched = regex ? content.match(regex) : null;
+      return matched ? matched[0].slice(0, 120) : null;
+    }
+    return matchKeyword(content, schedule.pattern);
+  }
+
+  if (schedule.event === "voice_join") {
+    if (schedule.userId && String(payload.userId || "") !== schedule.userId) return null;
+    if (schedule.voiceChannelId && String(payload.voiceChannelId || "") !== schedule.voiceChannelId) return null;
+    return String(payload.userName || payload.userId || "voice join");
+  }
+
+  if (schedule.event === "discovery_item") {
+    if (schedule.source && String(payload.source || "").toLowerCase() !== schedule.source) return null;
+    if (!schedule.pattern) return String(payload.title || payload.url || "discovery item").slice(0, 120);
+    return matchKeyword(`${String(payload.title || "")} ${String(payload.excerpt || "")}`, schedule.pattern);
+  }
+
+  if (Number(payload.automationId) !== Number(schedule.automationId)) return null;
+  const runStatus = String(payload.status || "");
+  if (schedule.onStatus !== "any" && runStatus !== schedule.onStatus) return null;
+  return `automation #${schedule.automationId} ${runStatus}`;
+}
+
+function matchKeyword(text, keyword) {
+  const normalizedKeyword = String(keyword || "").toLowerCase().replace(/\s+/g, " ").trim();
+  if (!normalizedKeyword) return null;
+  const normalizedText = String(text || "").toLowerCase().replace(/\s+/g, " ");
+  return normalizedText.includes(normalizedKeyword) ? normalizedKeyword : null;
+}
+
+function compileAutomationEventRegex(pattern) {
+  const source = String(pattern || "");
+  if (!isLinearAutomationEventRegex(source)) return null;
+  try {
+    return new RegExp(source, "i");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Message patterns run against every guild message, so reject the shapes that make a
+ * backtracking engine blow up: backreferences, a repeated group that itself contains a
+ * quantifier or alternation (`(a+)+`, `(a|ab)*`), and long chains of unbounded quantifiers.
+ */
+export function isLinearAutomationEventRegex(pattern) {
+  const source = String(pattern || "");
+  const groups: Array<{ risky: boolean }> = [];
+  let unboundedQuantifiers = 0;
+  let lastClosedGroupRisky = false;
+  let index = 0;
+
+  const markRisky = () => {
+    for (const group of groups) group.risky = true;
+  };
+  const readQuantifier = () => {
+    const char = source[index];
+    if (char === "*" || char === "+") return { length: 1, repeats: true, unbounded: true };
+    if (char === "?") return { length: 1, repeats: false, unbounded: false };
+    if (char !== "{") return null;
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index));
+    if (!match) return null;
+    const unbounded = match[2] !== undefined && !match[3];
+    return { length: match[0].length, repeats: unbounded || Number(match[3] || match[1]) > 1, unbounded };
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    let atomWasGroup = false;
+
+    if (char === "\\") {
+      const next = source[index + 1] || "";
+      if (/[1-9]/.test(next) || (next === "k" && source[index + 2] === "<")) return false;
+      index += 2;
+    } else if (char === "[") {
+      index += 1;
+      while (index < source.length && source[index] !== "]") {
+        index += source[index] === "\\" ? 2 : 1;
+      }
+      index += 1;
+    } else if (char === "(") {
+      groups.push({ risky: false });
+      index += 1;
+      if (source[index] === "?") {
+        index += 1;
+        if (source[index] === "<" && source[index + 1] !== "=" && source[index + 1] !== "!") {
+          while (index < source.length && source[index] !== ">") index += 1;
+        } else if (source[index] === "<") {
+          index += 1;
+        }
+        index += 1;
+      }
+      continue;
+    } else if (char === ")") {
+      lastClosedGroupRisky = Boolean(groups.pop()?.risky);
+      atomWasGroup = true;
+      index += 1;
+    } else if (char === "|") {
+      markRisky();
+      index += 1;
+      continue;
+    } else {
+      index += 1;
+    }
+
+    const quantifier = readQuantifier();
+    if (!quantifier) continue;
+    if (atomWasGroup && lastClosedGroupRisky && quantifier.repeats) return false;
+    if (quantifier.unbounded) unboundedQuantifiers += 1;
+    if (unboundedQuantifiers > MAX_AUTOMATION_EVENT_REGEX_UNBOUNDED_QUANTIFIERS) return false;
+    markRisky();
+    index += quantifier.length;
+    if (source[index] === "?") index += 1;
+  }
+  return true;
+}
+
 export function resolveInitialNextRunAt({ schedule, nowMs = Date.now(), runImmediately = false }) {
   if (!schedule || typeof schedule !== "object") return null;
   if (runImmediately) return new Date(nowMs).toISOString();
 
-  if (schedule.kind === "daily") {
-    const nextMs = resolveNextDailyRunMs(schedule, nowMs);
+  if (schedule.kind === "daily" || schedule.kind === "cron") {
+    const nextMs = resolveNextCalendarRunMs(schedule, nowMs);
     return Number.isFinite(nextMs) ? new Date(nextMs).toISOString() : null;
   }
 
@@ -89,8 +308,10 @@ export function resolveFollowingNextRunAt({ schedule, previousNextRunAt = null,
 
   if (schedule.kind === "once") return null;
 
-  if (schedule.kind === "daily") {
-    const nextMs = resolveNextDailyRunMs(schedule, runFinishedMs + 1000);
+  if (schedule.kind === "daily" || schedule.kind === "cron") {
+    const previousMs = Date.parse(String(previousNextRunAt || ""));
+    const referenceMs = Number.isFinite(previousMs) ? Math.max(previousMs, runFinishedMs) : runFinishedMs;
+    const nextMs = resolveNextCalendarRunMs(schedule, referenceMs);
     return Number.isFinite(nextMs) ? new Date(nextMs).toISOString() : null;
   }
 
@@ -121,7 +342,13 @@ export function formatAutomationSchedule(schedule) {
   if (schedule.kind === "daily") {
     const hour = clamp(Math.floor(Number(schedule.hour)), 0, 23);
     const minute = clamp(Math.floor(Number(schedule.minute)), 0, 59);
-    return `daily at ${formatHourMinute(hour, minute)}`;
+    const timeZone = normalizeIanaTimeZone(schedule.timeZone);
+    return `daily at ${formatHourMinute(hour, minute)}${timeZone ? ` (${timeZone})` : ""}`;
+  }
+
+  if (schedule.kind === "cron") {
+    const expression = String(schedule.expression || "").trim() || "?";
+    return `cron ${expression} (${resolveScheduleTimeZone(schedule)})`;
   }
 
   if (schedule.kind === "interval") {
@@ -133,6 +360,10 @@ export function formatAutomationSchedule(schedule) {
     return everyMinutes === 1 ? "every 1 minute" : `every ${everyMinutes} minutes`;
   }
 
+  if (schedule.kind === "event") {
+    return formatAutomationEventSchedule(schedule);
+  }
+
   if (schedule.kind === "once") {
     const atMs = Date.parse(String(schedule.atIso || ""));
     if (!Number.isFinite(atMs)) return "once";
@@ -142,26 +373,48 @@ export function formatAutomationSchedule(schedule) {
   return "unknown schedule";
 }
 
+function formatAutomationEventSchedule(schedule) {
+  if (schedule.event === "message") {
+    const matchLabel = schedule.match === "regex" ? `/${schedule.pattern}/` : `"${schedule.pattern}"`;
+    return `when a message matches ${matchLabel}${schedule.sourceChannelId ? ` in <#${schedule.sourceChannelId}>` : ""}`;
+  }
+  if (schedule.event === "voice_join") {
+    const who = schedule.userId ? `<@${schedule.userId}>` : "anyone";
+    return `when ${who} joins ${schedule.voiceChannelId ? `<#${schedule.voiceChannelId}>` : "voice"}`;
+  }
+  if (schedule.event === "discovery_item") {
+    const source = schedule.source ? `${schedule.source} ` : "";
+    return `when a new ${source}discovery item appears${schedule.pattern ? ` matching "${schedule.pattern}"` : ""}`;
+  }
+  if (schedule.event === "automation_run") {
+    const outcome = schedule.onStatus === "any" ? "runs" : schedule.onStatus === "ok" ? "succeeds" : schedule.onStatus === "error" ? "fails" : "is skipped";
+    return `when automation #${schedule.automationId} ${outcome}`;
+  }
+  return "on event";
+}
+
 export function getLocalTimeZoneLabel() {
   const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
   return String(zone || "local time");
 }
 
-function resolveNextDailyRunMs(schedule, referenceMs) {
+function resolveNextCalendarRunMs(schedule, referenceMs) {
+  const timeZone = resolveScheduleTimeZone(schedule);
+  if (schedule.kind === "cron") {
+    const cron = parseCronExpression(schedule.expression);
+    return cron ? resolveNextCronRunMs(cron, timeZone, referenceMs) : NaN;
+  }
+
   const hour = clamp(Math.floor(Number(schedule.hour)), 0, 23);
   const minute = clamp(Math.floor(Number(schedule.minute)), 0, 59);
   if (!Number.isFinite(hour) || !Number.isFinite(minute)) return NaN;
+  const cron = parseCronExpression(`${minute} ${hour} * * *`);
+  return cron ? resolveNextCronRunMs(cron, timeZone, referenceMs) : NaN;
+}
 
-  const reference = new Date(referenceMs);
-  const next = new Date(referenceMs);
-  next.setSeconds(0, 0);
-  next.setHours(hour, minute, 0, 0);
-
-  if (next.getTime() <= reference.getTime()) {
-    next.setDate(next.getDate() + 1);
-  }
-
-  return next.getTime();
+// Schedules saved before timezones were stored keep following the host clock.
+function resolveScheduleTimeZone(schedule) {
+  return normalizeIanaTimeZone(schedule?.timeZone) || normalizeIanaTimeZone(getLocalTimeZoneLabel()) || "UTC";
 }
 
 function formatHourMinute(hour, minute) {
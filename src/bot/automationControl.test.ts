@@ -268,6 +268,61 @@ test("applyAutomationControlAction create persists and logs automation rows", as
   assert.equal(cycleRuns, 1);
 });
 
+test("applyAutomationControlAction create stores cron schedules with their timezone", async () => {
+  const createdArgs = [];
+  const channels = new Map();
+  channels.set("text-1", {
+    id: "text-1",
+    isTextBased() {
+      return true;
+    },
+    async send() {}
+  });
+
+  const bot = createBot({
+    client: {
+      channels: {
+        cache: channels
+      }
+    },
+    store: {
+      createAutomation(args) {
+        createdArgs.push(args);
+        return baseAutomationRow({
+          id: 78,
+          schedule: args.schedule,
+          next_run_at: args.nextRunAt
+        });
+      }
+    }
+  });
+
+  const result = await applyAutomationControlAction(bot, {
+    message: createMessage(),
+    settings: {},
+    automationAction: {
+      operation: "create",
+      title: "standup ping",
+      instruction: "remind everyone about standup",
+      schedule: { kind: "cron", expression: "30 9 * * mon-fri", timeZone: "America/Chicago" },
+      runImmediately: false
+    }
+  });
+
+  assert.equal(result?.metadata?.ok, true);
+  assert.deepEqual(createdArgs[0]?.schedule, {
+    kind: "cron",
+    expression: "30 9 * * MON-FRI",
+    timeZone: "America/Chicago"
+  });
+  const nextRun = new Date(createdArgs[0]?.nextRunAt);
+  assert.equal(
+    nextRun.toLocaleString("en-US", { timeZone: "America/Chicago", hour: "numeric", minute: "2-digit", hour12: false }),
+    "09:30"
+  );
+  assert.equal(String(result?.detailLines?.[0] || "").includes("cron 30 9 * * MON-FRI (America/Chicago)"), true);
+});
+
 test("applyAutomationControlAction resume updates status and schedules cycle", async () => {
   const paused = baseAutomationRow({
     id: 19,
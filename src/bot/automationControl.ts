@@ -1,14 +1,17 @@
 import {
   formatAutomationSchedule,
+  isEventAutomationSchedule,
+  normalizeAutomationSchedule,
   resolveInitialNextRunAt
 } from "./automation.ts";
+import { normalizeIanaTimeZone } from "./automationCron.ts";
 import { normalizeSkipSentinel } from "./botHelpers.ts";
 import { sanitizeBotText } from "../utils.ts";
 
-const MAX_AUTOMATIONS_PER_GUILD = 90;
+export const MAX_AUTOMATIONS_PER_GUILD = 90;
 const MAX_AUTOMATION_LIST_ROWS = 10;
 
-function queueAutomationCycle(runtime, {
+export function queueAutomationCycle(runtime, {
   guildId = null,
   channelId = null,
   userId = null,
@@ -100,7 +103,7 @@ export async function applyAutomationControlAction(runtime, { message, settings,
 
   if (operation === "create") {
     const instruction = String(automationAction?.instruction || "").trim();
-    const schedule = automationAction?.schedule || null;
+    const schedule = normalizeAutomationSchedule(automationAction?.schedule, { nowMs: Date.now() });
     if (!instruction || !schedule) {
       return {
         handled: true,
@@ -164,7 +167,7 @@ export async function applyAutomationControlAction(runtime, { message, settings,
       nowMs: Date.now(),
       runImmediately: Boolean(automationAction?.runImmediately)
     });
-    if (!nextRunAt) {
+    if (!nextRunAt && !isEventAutomationSchedule(schedule)) {
       return {
         handled: true,
         detailLines: [],
@@ -275,7 +278,7 @@ export async function applyAutomationControlAction(runtime, { message, settings,
           nowMs,
           runImmediately: false
         });
-        if (!nextRunAt) continue;
+        if (!nextRunAt && !isEventAutomationSchedule(row.schedule)) continue;
         const resumed = runtime.store.setAutomationStatus({
           automationId: row.id,
           guildId,
@@ -397,8 +400,14 @@ export function resolveAutomationTargetsForControl(
 export function formatAutomationListLine(row) {
   const channelLabel = row?.channel_id ? `<#${row.channel_id}>` : "(unknown channel)";
   const scheduleLabel = formatAutomationSchedule(row?.schedule);
-  const nextRunLabel = row?.next_run_at ? new Date(row.next_run_at).toLocaleString() : "paused";
+  const timeZone = normalizeIanaTimeZone(row?.schedule?.timeZone);
+  const nextRunLabel = row?.next_run_at
+    ? new Date(row.next_run_at).toLocaleString([], timeZone ? { timeZone, timeZoneName: "short" } : undefined)
+    : "paused";
   const title = String(row?.title || "scheduled task").slice(0, 80);
   const status = String(row?.status || "active");
+  if (isEventAutomationSchedule(row?.schedule) && !row?.next_run_at && status === "active") {
+    return `- #${row?.id} [${status}] ${title} | ${scheduleLabel} | ${channelLabel}`;
+  }
   return `- #${row?.id} [${status}] ${title} | ${scheduleLabel} | next: ${nextRunLabel} | ${channelLabel}`;
 }
@@ -0,0 +1,58 @@
+import { test } from "bun:test";
+import assert from "node:assert/strict";
+import { normalizeIanaTimeZone, parseCronExpression, resolveNextCronRunMs } from "./automationCron.ts";
+
+function nextRunIso(expression: string, timeZone: string, referenceIso: string) {
+  const cron = parseCronExpression(expression);
+  assert.ok(cron, `expected ${expression} to parse`);
+  return new Date(resolveNextCronRunMs(cron, timeZone, Date.parse(referenceIso))).toISOString();
+}
+
+test("parseCronExpression accepts names, steps and macros and rejects malformed input", () => {
+  const weekdays = parseCronExpression("0  9 * *  mon-fri");
+  assert.equal(weekdays?.expression, "0 9 * * MON-FRI");
+  assert.deepEqual([...(weekdays?.weekdays || [])], [1, 2, 3, 4, 5]);
+
+  assert.deepEqual(parseCronExpression("*/20 8-10/2 * * *")?.minutes, [0, 20, 40]);
+  assert.deepEqual(parseCronExpression("*/20 8-10/2 * * *")?.hours, [8, 10]);
+  assert.equal(parseCronExpression("@daily")?.expression, "@daily");
+
+  assert.equal(parseCronExpression("61 * * * *"), null);
+  assert.equal(parseCronExpression("0 9 * *"), null);
+  assert.equal(parseCronExpression("0 9 * * MON#6"), null);
+  assert.equal(parseCronExpression("0 9 10-5 * *"), null);
+  assert.equal(parseCronExpression(""), null);
+});
+
+test("resolveNextCronRunMs handles weekday-only, nth-weekday and last-day schedules", () => {
+  assert.equal(
+    nextRunIso("0 9 * * MON-FRI", "America/New_York", "2026-03-06T15:00:00.000Z"),
+    "2026-03-09T13:00:00.000Z"
+  );
+  assert.equal(
+    nextRunIso("0 10 * * MON#1", "America/New_York", "2026-03-03T12:00:00.000Z"),
+    "2026-04-06T14:00:00.000Z"
+  );
+  assert.equal(
+    nextRunIso("0 9,17 * * *", "Asia/Tokyo", "2026-05-01T01:00:00.000Z"),
+    "2026-05-01T08:00:00.000Z"
+  );
+  assert.equal(nextRunIso("0 12 L * *", "UTC", "2026-02-10T00:00:00.000Z"), "2026-02-28T12:00:00.000Z");
+});
+
+test("resolveNextCronRunMs shifts spring-forward gaps and fires fall-back repeats once", () => {
+  assert.equal(
+    nextRunIso("30 2 * * *", "America/New_York", "2026-03-08T06:00:00.000Z"),
+    "2026-03-08T07:30:00.000Z"
+  );
+
+  const firstPass = nextRunIso("30 1 * * *", "America/New_York", "2026-11-01T04:00:00.000Z");
+  assert.equal(firstPass, "2026-11-01T05:30:00.000Z");
+  assert.equal(nextRunIso("30 1 * * *", "America/New_York", firstPass), "2026-11-02T06:30:00.000Z");
+});
+
+test("normalizeIanaTimeZone canonicalizes known zones", () => {
+  assert.equal(normalizeIanaTimeZone(" Europe/Berlin "), "Europe/Berlin");
+  assert.equal(normalizeIanaTimeZone("Mars/Olympus_Mons"), null);
+  assert.equal(normalizeIanaTimeZone(""), null);
+});
@@ -0,0 +1,296 @@
+const CRON_MACROS = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *"
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const MAX_CRON_EXPRESSION_LEN = 120;
+const MAX_CRON_SEARCH_DAYS = 366 * 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const timeZoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export type CronSchedule = {
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  lastDayOfMonth: boolean;
+  months: Set<number>;
+  weekdays: Set<number>;
+  nthWeekdays: Array<{ weekday: number; nth: number }>;
+  dayOfMonthRestricted: boolean;
+  weekdayRestricted: boolean;
+};
+
+type ZonedWallTime = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+};
+
+/**
+ * Parses a standard five-field cron expression (minute hour day-of-month month day-of-week).
+ * Supports lists, ranges, steps, month/weekday names, `L` (last day of month) and
+ * `weekday#n` (nth weekday of month) plus the usual `@daily`-style macros.
+ * Returns null when the expression is malformed.
+ */
+export function parseCronExpression(rawExpression): CronSchedule | null {
+  const collapsed = String(rawExpression || "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!collapsed || collapsed.length > MAX_CRON_EXPRESSION_LEN) return null;
+
+  const macro = CRON_MACROS[collapsed.toLowerCase()];
+  const expression = macro ? collapsed.toLowerCase() : collapsed.toUpperCase();
+  const fields = String(macro || expression).split(" ");
+  if (fields.length !== 5) return null;
+
+  const [minuteField, hourField, dayOfMonthField, monthField, weekdayField] = fields;
+  const minutes = parseCronField(minuteField, { min: 0, max: 59 });
+  const hours = parseCronField(hourField, { min: 0, max: 23 });
+  const months = parseCronField(monthField, { min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 });
+  if (!minutes || !hours || !months) return null;
+
+  const dayOfMonth = parseDayOfMonthField(dayOfMonthField);
+  const weekday = parseWeekdayField(weekdayField);
+  if (!dayOfMonth || !weekday) return null;
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth: new Set(dayOfMonth.days),
+    lastDayOfMonth: dayOfMonth.lastDayOfMonth,
+    months: new Set(months),
+    weekdays: new Set(weekday.weekdays),
+    nthWeekdays: weekday.nthWeekdays,
+    dayOfMonthRestricted: !isWildcardField(dayOfMonthField),
+    weekdayRestricted: !isWildcardField(weekdayField)
+  };
+}
+
+/**
+ * Returns the first cron occurrence strictly after `referenceMs`, evaluated in wall-clock
+ * time for `timeZone`. Wall times skipped by a spring-forward transition fire right after
+ * the gap; wall times repeated by a fall-back transition fire once, on the first pass.
+ */
+export function resolveNextCronRunMs(cron: CronSchedule, timeZone: string, referenceMs: number) {
+  if (!cron || !Number.isFinite(referenceMs)) return NaN;
+  const start = getZonedWallTime(timeZone, referenceMs);
+  if (!start) return NaN;
+
+  const startDayMs = Date.UTC(start.year, start.month - 1, start.day);
+  for (let dayOffset = 0; dayOffset <= MAX_CRON_SEARCH_DAYS; dayOffset += 1) {
+    const date = new Date(startDayMs + dayOffset * DAY_MS);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    if (!cronMatchesDay(cron, { year, month, day, weekday: date.getUTCDay() })) continue;
+
+    let bestMs = NaN;
+    let bestHour = -1;
+    for (const hour of cron.hours) {
+      // Wall times only shift by a DST gap, so hours well before the reference hour or well
+      // after the best candidate so far can't win.
+      if (dayOffset === 0 && hour < start.hour - 2) continue;
+      if (bestHour >= 0 && hour > bestHour + 2) break;
+      for (const minute of cron.minutes) {
+        const runMs = zonedWallTimeToUtcMs(timeZone, { year, month, day, hour, minute });
+        if (!Number.isFinite(runMs) || runMs <= referenceMs) continue;
+        if (!Number.isFinite(bestMs) || runMs < bestMs) {
+          bestMs = runMs;
+          bestHour = hour;
+        }
+      }
+    }
+    if (Number.isFinite(bestMs)) return bestMs;
+  }
+
+  return NaN;
+}
+
+/** Returns the canonical IANA name for `rawTimeZone`, or null when the runtime does not know it. */
+export function normalizeIanaTimeZone(rawTimeZone) {
+  const text = String(rawTimeZone || "").trim();
+  if (!text || text.length > 64) return null;
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: text }).resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+}
+
+export function getZonedWallTime(timeZone: string, utcMs: number): ZonedWallTime | null {
+  const formatter = getTimeZoneFormatter(timeZone);
+  if (!formatter || !Number.isFinite(utcMs)) return null;
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(utcMs))) {
+    if (part.type === "literal") continue;
+    parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour === 24 ? 0 : parts.hour,
+    minute: parts.minute
+  };
+}
+
+function zonedWallTimeToUtcMs(timeZone: string, wall: ZonedWallTime) {
+  const wallMs = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const offsetBefore = getTimeZoneOffsetMs(timeZone, wallMs - DAY_MS);
+  const offsetAfter = getTimeZoneOffsetMs(timeZone, wallMs + DAY_MS);
+  if (!Number.isFinite(offsetBefore) || !Number.isFinite(offsetAfter)) return NaN;
+
+  const candidates = [...new Set([offsetBefore, offsetAfter])]
+    .map((offsetMs) => wallMs - offsetMs)
+    .filter((candidateMs) => getTimeZoneOffsetMs(timeZone, candidateMs) === wallMs - candidateMs);
+  if (candidates.length) return Math.min(...candidates);
+
+  // The wall time falls inside a spring-forward gap; keep the pre-transition offset so the
+  // run lands just after the clocks jump.
+  return wallMs - offsetBefore;
+}
+
+function getTimeZoneOffsetMs(timeZone: string, utcMs: number) {
+  const wall = getZonedWallTime(timeZone, utcMs);
+  if (!wall) return NaN;
+  const wallMs = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const flooredUtcMs = Math.floor(utcMs / 60_000) * 60_000;
+  return wallMs - flooredUtcMs;
+}
+
+function getTimeZoneFormatter(timeZone: string) {
+  const cached = timeZoneFormatters.get(timeZone);
+  if (cached) return cached;
+  try {
+    const formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric"
+    });
+    timeZoneFormatters.set(timeZone, formatter);
+    return formatter;
+  } catch {
+    return null;
+  }
+}
+
+function cronMatchesDay(cron: CronSchedule, { year, month, day, weekday }) {
+  if (!cron.months.has(month)) return false;
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const dayOfMonthMatch = cron.daysOfMonth.has(day) || (cron.lastDayOfMonth && day === lastDay);
+  const weekdayMatch =
+    cron.weekdays.has(weekday) ||
+    cron.nthWeekdays.some((entry) => entry.weekday === weekday && Math.ceil(day / 7) === entry.nth);
+
+  if (cron.dayOfMonthRestricted && cron.weekdayRestricted) return dayOfMonthMatch || weekdayMatch;
+  if (cron.dayOfMonthRestricted) return dayOfMonthMatch;
+  if (cron.weekdayRestricted) return weekdayMatch;
+  return true;
+}
+
+function parseDayOfMonthField(field: string) {
+  const days: number[] = [];
+  let lastDayOfMonth = false;
+  for (const token of field.split(",")) {
+    if (token === "L") {
+      lastDayOfMonth = true;
+      continue;
+    }
+    const values = parseCronField(token, { min: 1, max: 31 });
+    if (!values) return null;
+    days.push(...values);
+  }
+  return { days, lastDayOfMonth };
+}
+
+function parseWeekdayField(field: string) {
+  const weekdays: number[] = [];
+  const nthWeekdays: Array<{ weekday: number; nth: number }> = [];
+  for (const token of field.split(",")) {
+    const nthMatch = token.match(/^([A-Z]+|\d)#([1-5])$/);
+    if (nthMatch) {
+      const weekday = parseCronValue(nthMatch[1], { min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 });
+      if (weekday === null) return null;
+      nthWeekdays.push({ weekday: weekday % 7, nth: Number(nthMatch[2]) });
+      continue;
+    }
+    const values = parseCronField(token, { min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 });
+    if (!values) return null;
+    weekdays.push(...values.map((value) => value % 7));
+  }
+  return { weekdays, nthWeekdays };
+}
+
+function parseCronField(
+  field: string,
+  { min, max, names = null, nameOffset = 0 }: { min: number; max: number; names?: string[] | null; nameOffset?: number }
+) {
+  const values = new Set<number>();
+  for (const token of String(field || "").split(",")) {
+    const [rangeText, stepText, extra] = token.split("/");
+    if (!rangeText || extra !== undefined) return null;
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) return null;
+
+    let start = min;
+    let end = max;
+    if (rangeText !== "*" && rangeText !== "?") {
+      const [startText, endText, extraBound] = rangeText.split("-");
+      if (extraBound !== undefined) return null;
+      const parsedStart = parseCronValue(startText, { min, max, names, nameOffset });
+      if (parsedStart === null) return null;
+      start = parsedStart;
+      if (endText !== undefined) {
+        const parsedEnd = parseCronValue(endText, { min, max, names, nameOffset });
+        if (parsedEnd === null || parsedEnd < start) return null;
+        end = parsedEnd;
+      } else if (stepText === undefined) {
+        end = start;
+      }
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  if (!values.size) return null;
+  return [...values].sort((a, b) => a - b);
+}
+
+function parseCronValue(
+  text: string,
+  { min, max, names = null, nameOffset = 0 }: { min: number; max: number; names?: string[] | null; nameOffset?: number }
+) {
+  const normalized = String(text || "").trim();
+  if (!normalized) return null;
+  if (names) {
+    const nameIndex = names.indexOf(normalized);
+    if (nameIndex >= 0) return nameIndex + nameOffset;
+  }
+  if (!/^\d+$/.test(normalized)) return null;
+  const value = Number(normalized);
+  if (value < min || value > max) return null;
+  return value;
+}
+
+function isWildcardField(field: string) {
+  return field.startsWith("*") || field === "?";
+}
@@ -0,0 +1,146 @@
+import { test } from "bun:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { Store } from "../store/store.ts";
+import { maybeRunTriggeredAutomations } from "./automationEngine.ts";
+
+async function withTempStore(run: (store: Store) => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-automation-engine-test-"));
+  const store = new Store(path.join(dir, "clanker.db"));
+  store.init();
+
+  try {
+    await run(store);
+  } finally {
+    store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function createRuntime(store: Store) {
+  const sent: string[] = [];
+  let messageCounter = 0;
+  const channel = {
+    id: "chan-1",
+    name: "general",
+    async sendTyping() {},
+    async send(payload: { content?: string }) {
+      messageCounter += 1;
+      sent.push(String(payload?.content || ""));
+      return {
+        id: `sent-${messageCounter}`,
+        createdTimestamp: Date.now(),
+        guildId: "guild-1",
+        channelId: "chan-1"
+      };
+    }
+  };
+  const runtime = {
+    store,
+    llm: null,
+    memory: null,
+    client: {
+      user: { id: "bot-1" },
+      channels: {
+        cache: {
+          get: (id: string) => (id === "chan-1" ? channel : undefined)
+        }
+      }
+    },
+    isChannelAllowed: () => true,
+    canSendMessage: () => true,
+    canTalkNow: () => true,
+    getSimulatedTypingDelayMs: () => 0,
+    markSpoke: () => undefined,
+    composeMessageContentForHistory: (_message: unknown, baseText = "") => baseText
+  } as Parameters<typeof maybeRunTriggeredAutomations>[0];
+  return { runtime, sent };
+}
+
+function createEventAutomation(store: Store, title: string, schedule: Record<string, unknown>) {
+  const row = store.createAutomation({
+    guildId: "guild-1",
+    channelId: "chan-1",
+    createdByUserId: "user-1",
+    createdByName: "alice",
+    title,
+    instruction: `${title} instruction`,
+    schedule,
+    nextRunAt: null
+  });
+  assert.ok(row?.id);
+  return row;
+}
+
+test("maybeRunTriggeredAutomations runs matching event automations and chains follow-ups", async () => {
+  await withTempStore(async (store) => {
+    const { runtime, sent } = createRuntime(store);
+    const watcher = createEventAutomation(store, "deploy watcher", {
+      kind: "event",
+      event: "message",
+      pattern: "deploy",
+      match: "keyword",
+      cooldownMinutes: 0
+    });
+    const followUp = createEventAutomation(store, "deploy follow-up", {
+      kind: "event",
+      event: "automation_run",
+      automationId: watcher.id,
+      onStatus: "ok",
+      cooldownMinutes: 0
+    });
+
+    const fired = await maybeRunTriggeredAutomations(runtime, {
+      type: "message",
+      guildId: "guild-1",
+      key: "msg-1",
+      payload: { messageId: "msg-1", channelId: "chan-1", userId: "user-2", content: "deploy finished" }
+    });
+
+    assert.deepEqual(fired, [watcher.id]);
+    assert.deepEqual(sent, ["deploy watcher instruction", "deploy follow-up instruction"]);
+
+    const watcherRuns = store.getAutomationRuns({ guildId: "guild-1", automationId: watcher.id });
+    assert.equal(watcherRuns[0]?.trigger_kind, "message");
+    assert.equal(watcherRuns[0]?.trigger_payload?.matched, "deploy");
+    assert.equal(store.getAutomationById(watcher.id)?.status, "active");
+
+    const followUpRuns = store.getAutomationRuns({ guildId: "guild-1", automationId: followUp.id });
+    assert.equal(followUpRuns[0]?.trigger_kind, "automation_run");
+    assert.equal(followUpRuns[0]?.trigger_payload?.automationId, watcher.id);
+
+    const replay = await maybeRunTriggeredAutomations(runtime, {
+      type: "message",
+      guildId: "guild-1",
+      key: "msg-1",
+      payload: { messageId: "msg-1", channelId: "chan-1", userId: "user-2", content: "deploy finished" }
+    });
+    assert.deepEqual(replay, []);
+  });
+});
+
+test("maybeRunTriggeredAutomations respects trigger cooldowns", async () => {
+  await withTempStore(async (store) => {
+    const { runtime, sent } = createRuntime(store);
+    createEventAutomation(store, "greeter", {
+      kind: "event",
+      event: "voice_join",
+      userId: "user-7",
+      cooldownMinutes: 30
+    });
+
+    const join = {
+      type: "voice_join" as const,
+      guildId: "guild-1",
+      payload: { userId: "user-7", userName: "vee", voiceChannelId: "voice-1" }
+    };
+    await maybeRunTriggeredAutomations(runtime, join);
+    await maybeRunTriggeredAutomations(runtime, join);
+    await maybeRunTriggeredAutomations(runtime, { ...join, payload: { userId: "user-8" } });
+
+    assert.deepEqual(sent, ["greeter instruction"]);
+  });
+});
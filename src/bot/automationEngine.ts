@@ -1,4 +1,9 @@
-import { resolveFollowingNextRunAt } from "./automation.ts";
+import {
+  isEventAutomationSchedule,
+  matchAutomationEvent,
+  MAX_AUTOMATION_CHAIN_DEPTH,
+  resolveFollowingNextRunAt
+} from "./automation.ts";
 import {
   composeReplyImagePrompt,
   composeReplyVideoPrompt,
@@ -11,7 +16,7 @@ import {
 } from "./botHelpers.ts";
 import { buildAutomationPrompt, buildSystemPrompt } from "../prompts/index.ts";
 import { getMediaPromptCraftGuidance } from "../prompts/promptCore.ts";
-import { buildReplyToolSet, executeReplyTool } from "../tools/replyTools.ts";
+import { buildReplyToolSet, executeReplyTool, rejectUnpermittedReplyToolCall } from "../tools/replyTools.ts";
 import type { ReplyToolContext, ReplyToolRuntime } from "../tools/replyTools.ts";
 import { sanitizeBotText, sleep } from "../utils.ts";
 import {
@@ -28,6 +33,7 @@ import {
 } from "../llm/serviceShared.ts";
 import type { BotContext } from "./botContext.ts";
 import { loadBehavioralMemoryFacts } from "./memorySlice.ts";
+import { getMemberRoleIds } from "./permissions.ts";
 
 const MAX_AUTOMATION_RUNS_PER_TICK = 4;
 
@@ -66,12 +72,43 @@ type AutomationRowLike = {
   guild_id?: string;
   channel_id?: string;
   title?: string;
+  status?: string;
   instruction?: string;
   created_by_user_id?: string;
   next_run_at?: string | null;
+  last_run_at?: string | null;
   schedule?: Record<string, unknown>;
 };
 
+export type AutomationTriggerEvent = {
+  type: "message" | "voice_join" | "discovery_item" | "automation_run";
+  guildId: string;
+  key?: string | null;
+  payload: Record<string, unknown>;
+  chainDepth?: number;
+};
+
+type AutomationRunTrigger = {
+  kind: string;
+  key: string | null;
+  payload: Record<string, unknown> | null;
+  chainDepth: number;
+};
+
+const SCHEDULE_TRIGGER: AutomationRunTrigger = {
+  kind: "schedule",
+  key: null,
+  payload: null,
+  chainDepth: 0
+};
+
+const MANUAL_TRIGGER: AutomationRunTrigger = {
+  kind: "manual",
+  key: null,
+  payload: null,
+  chainDepth: 0
+};
+
 type ImageBudgetLike = {
   canGenerate: boolean;
   remaining: number;
@@ -177,9 +214,68 @@ export async function maybeRunAutomationCycle(runtime: AutomationEngineRuntime)
   }
 }
 
+/**
+ * Runs one automation immediately, outside the scheduler cycle. The job's
+ * status and next scheduled run are left as they were, so running a paused
+ * automation does not resume it. Returns null when it is already running.
+ */
+export async function runAutomationNow(runtime: AutomationEngineRuntime, { automationId }: { automationId: number }) {
+  const claimed = runtime.store.claimTriggeredAutomation({ automationId, includePaused: true });
+  if (!claimed) return null;
+  await runAutomationJob(runtime, claimed as AutomationRowLike, MANUAL_TRIGGER);
+  return claimed;
+}
+
+/**
+ * Runs every active event-kind automation in the guild whose trigger matches `event`.
+ * Cooldowns, per-trigger dedupe keys and the chain depth cap keep noisy channels and
+ * automation chains from fanning out.
+ */
+export async function maybeRunTriggeredAutomations(
+  runtime: AutomationEngineRuntime,
+  event: AutomationTriggerEvent
+) {
+  const guildId = String(event?.guildId || "").trim();
+  if (!guildId) return [];
+  if (!getAutomationsSettings(runtime.store.getSettings()).enabled) return [];
+  const chainDepth = Math.max(0, Math.floor(Number(event.chainDepth) || 0));
+  if (chainDepth > MAX_AUTOMATION_CHAIN_DEPTH) return [];
+
+  const rows = runtime.store.listEventAutomations({ guildId, event: event.type }) as AutomationRowLike[];
+  const firedIds: number[] = [];
+  for (const row of rows) {
+    if (event.type === "automation_run" && Number(row.id) === Number(event.payload?.automationId)) continue;
+    const matched = matchAutomationEvent(row.schedule, event);
+    if (!matched) continue;
+
+    const cooldownMs = Math.max(0, Number(row.schedule?.cooldownMinutes) || 0) * 60_000;
+    const lastRunMs = Date.parse(String(row.last_run_at || ""));
+    if (cooldownMs > 0 && Number.isFinite(lastRunMs) && Date.now() - lastRunMs < cooldownMs) continue;
+
+    const triggerKey = event.key ? `${event.type}:${String(event.key)}` : null;
+    if (triggerKey && runtime.store.hasAutomationRunForTrigger({ automationId: Number(row.id), triggerKey })) continue;
+
+    const claimed = runtime.store.claimTriggeredAutomation({ automationId: Number(row.id) });
+    if (!claimed) continue;
+
+    await runAutomationJob(runtime, claimed as AutomationRowLike, {
+      kind: event.type,
+      key: triggerKey,
+      payload: {
+        ...event.payload,
+        matched
+      },
+      chainDepth
+    });
+    firedIds.push(Number(row.id));
+  }
+  return firedIds;
+}
+
 async function runAutomationJob(
   runtime: AutomationEngineRuntime,
-  automation: AutomationRowLike
+  automation: AutomationRowLike,
+  trigger: AutomationRunTrigger = SCHEDULE_TRIGGER
 ) {
   const startedAt = new Date().toISOString();
   const guildId = String(automation?.guild_id || "").trim();
@@ -187,7 +283,7 @@ async function runAutomationJob(
   const automationId = Number(automation?.id || 0);
   if (!guildId || !channelId || !Number.isInteger(automationId) || automationId <= 0) return;
 
-  const settings = runtime.store.getSettings();
+  const settings = runtime.store.getScopedSettings({ guildId, channelId });
   const permissions = getReplyPermissions(settings);
   const botName = getBotName(settings);
   let status = "active";
@@ -219,7 +315,8 @@ async function runAutomationJob(
         const generationResult = await generateAutomationPayload(runtime, {
           automation,
           settings,
-          channel
+          channel,
+          trigger
         });
 
         if (generationResult.skip) {
@@ -294,9 +391,15 @@ async function runAutomationJob(
     errorText = String(error instanceof Error ? error.message : error);
   }
 
+  const eventDriven = isEventAutomationSchedule(automation.schedule);
   if (runStatus === "error") {
     status = "paused";
     nextRunAt = null;
+  } else if (trigger === MANUAL_TRIGGER) {
+    status = automation.status === "paused" ? "paused" : "active";
+    nextRunAt = status === "paused" ? null : automation.next_run_at || null;
+  } else if (eventDriven) {
+    nextRunAt = null;
   } else if (retrySoon) {
     nextRunAt = new Date(Date.now() + 5 * 60_000).toISOString();
   } else {
@@ -320,7 +423,7 @@ async function runAutomationJob(
     lastError: errorText || null,
     lastResult: summary || (runStatus === "error" ? "error" : runStatus)
   });
-  runtime.store.recordAutomationRun({
+  const runId = runtime.store.recordAutomationRun({
     automationId,
     startedAt,
     finishedAt,
@@ -331,7 +434,8 @@ async function runAutomationJob(
     metadata: {
       nextRunAt,
       statusAfterRun: finalized?.status || status
-    }
+    },
+    trigger
   });
 
   runtime.store.logAction({
@@ -348,9 +452,55 @@ async function runAutomationJob(
       automationId,
       runStatus,
       statusAfterRun: finalized?.status || status,
-      nextRunAt
+      nextRunAt,
+      trigger: trigger.kind
     }
   });
+
+  try {
+    await maybeRunTriggeredAutomations(runtime, {
+      type: "automation_run",
+      guildId,
+      key: runId ? String(runId) : null,
+      chainDepth: trigger.chainDepth + 1,
+      payload: {
+        automationId,
+        title: String(automation.title || ""),
+        status: runStatus,
+        summary: summary || null,
+        error: errorText || null
+      }
+    });
+  } catch (error) {
+    runtime.store.logAction({
+      kind: "bot_error",
+      guildId,
+      channelId,
+      userId: runtime.client.user?.id || null,
+      content: `automation_chain_trigger: ${String(error instanceof Error ? error.message : error)}`.slice(0, 2000),
+      metadata: {
+        automationId
+      }
+    });
+  }
+}
+
+function describeAutomationTrigger(trigger: AutomationRunTrigger) {
+  const payload = trigger.payload || {};
+  const text = (value: unknown, maxLen = 200) => String(value || "").replace(/\s+/g, " ").trim().slice(0, maxLen);
+  if (trigger.kind === "message") {
+    return `message from ${text(payload.userName || payload.userId, 80) || "someone"}: "${text(payload.content, 300)}" (matched ${text(payload.matched, 80)})`;
+  }
+  if (trigger.kind === "voice_join") {
+    return `${text(payload.userName || payload.userId, 80) || "someone"} joined voice channel ${text(payload.voiceChannelName || payload.voiceChannelId, 80)}`;
+  }
+  if (trigger.kind === "discovery_item") {
+    return `new ${text(payload.sourceLabel || payload.source, 60) || "discovery"} item: ${text(payload.title)} ${text(payload.url, 300)}`.trim();
+  }
+  if (trigger.kind === "automation_run") {
+    return `automation #${text(payload.automationId, 20)} (${text(payload.title, 90)}) finished with status ${text(payload.status, 20)}: ${text(payload.summary || payload.error)}`;
+  }
+  return "";
 }
 
 async function generateAutomationPayload(
@@ -358,11 +508,13 @@ async function generateAutomationPayload(
   {
     automation,
     settings,
-    channel
+    channel,
+    trigger = SCHEDULE_TRIGGER
   }: {
     automation: AutomationRowLike;
     settings: Record<string, unknown>;
     channel: AutomationChannelLike;
+    trigger?: AutomationRunTrigger;
   }
 ) {
   const memory = getMemorySettings(settings);
@@ -424,6 +576,7 @@ async function generateAutomationPayload(
   const memoryLookup = runtime.buildMemoryLookupContext({ settings });
   const promptBase = {
     instruction: automation.instruction,
+    triggerSummary: describeAutomationTrigger(trigger),
     channelName: channel.name || "channel",
     recentMessages,
     userFacts: memorySlice.userFacts,
@@ -458,17 +611,27 @@ async function generateAutomationPayload(
     reason: null,
     messageId: null
   };
+  // Automations resolve restricted tools as their creator; dashboard-created
+  // ones have no Discord identity and only get unrestricted tools.
+  const automationToolRequester = {
+    userId: automationOwnerId,
+    roleIds: getMemberRoleIds(
+      runtime.client.guilds.cache.get(String(automation.guild_id || ""))?.members?.cache?.get(String(automationOwnerId || ""))
+    )
+  };
   const automationReplyTools = buildReplyToolSet(settings, {
     webSearchAvailable: false,
     webScrapeAvailable: false,
     browserBrowseAvailable: false,
     memoryAvailable: memory.enabled,
-    imageLookupAvailable: false
-  });
+    imageLookupAvailable: false,
+    mcpServers: runtime.mcp?.listServerTools() || []
+  }, automationToolRequester);
   const automationToolRuntime: ReplyToolRuntime = {
     search: runtime.search,
     memory: runtime.memory,
-    store: runtime.store
+    store: runtime.store,
+    mcp: runtime.mcp || null
   };
   const automationToolContext: ReplyToolContext = {
     settings,
@@ -514,12 +677,13 @@ async function generateAutomationPayload(
       if (automationTotalToolCalls >= AUTOMATION_TOOL_LOOP_MAX_CALLS) break;
       automationTotalToolCalls += 1;
 
-      const result = await executeReplyTool(
-        toolCall.name,
-        toolCall.input as Record<string, unknown>,
-        automationToolRuntime,
-        automationToolContext
-      );
+      const result = rejectUnpermittedReplyToolCall(settings, toolCall.name, automationToolRequester) ||
+        await executeReplyTool(
+          toolCall.name,
+          toolCall.input as Record<string, unknown>,
+          automationToolRuntime,
+          automationToolContext
+        );
 
       toolResultMessages.push({
         type: "tool_result",
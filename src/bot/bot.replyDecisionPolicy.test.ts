@@ -1656,6 +1656,170 @@ test("reply tool loop keeps remaining concurrent tool results when one concurren
   });
 });
 
+test("reply tool loop refuses restricted tools the model names without permission", async () => {
+  await withTempStore(async (store) => {
+    const channelId = "chan-1";
+    applyBaselineSettings(store, channelId);
+    patchTestSettings(store, {
+      permissions: {
+        devTasks: {
+          allowedUserIds: ["user-1"]
+        },
+        tools: {
+          rules: [
+            { toolName: "code_task", surfaces: ["reply"], allowedUserIds: ["user-9"], allowedRoleIds: [] },
+            { toolName: "web_search", surfaces: ["reply"], allowedUserIds: [], allowedRoleIds: [] }
+          ]
+        }
+      },
+      agentStack: {
+        runtimeConfig: {
+          devTeam: {
+            codex: {
+              enabled: true
+            }
+          }
+        }
+      }
+    });
+
+    const llmCalls = [];
+    const replyPayloads = [];
+    const channelSendPayloads = [];
+    const typingCallsRef = { count: 0 };
+
+    const bot = new ClankerBot({
+      appConfig: {},
+      store,
+      llm: {
+        async generate(payload) {
+          llmCalls.push(payload);
+          if (llmCalls.length === 1) {
+            return {
+              text: "",
+              toolCalls: [
+                {
+                  id: "tc_search_1",
+                  name: "web_search",
+                  input: { query: "repo status" }
+                },
+                {
+                  id: "tc_code_1",
+                  name: "code_task",
+                  input: { task: "inspect the repo status" }
+                }
+              ],
+              rawContent: [
+                { type: "text", text: "" },
+                {
+                  type: "tool_use",
+                  id: "tc_search_1",
+                  name: "web_search",
+                  input: { query: "repo status" }
+                },
+                {
+                  type: "tool_use",
+                  id: "tc_code_1",
+                  name: "code_task",
+                  input: { task: "inspect the repo status" }
+                }
+              ],
+              provider: "test",
+              model: "test-model",
+              usage: null,
+              costUsd: 0
+            };
+          }
+
+          return {
+            text: JSON.stringify({
+              text: "could not use those tools",
+              skip: false,
+              reactionEmoji: null,
+              media: null,
+              automationAction: { operation: "none" },
+              voiceIntent: { intent: "none", confidence: 0, reason: null },
+              screenWatchIntent: { action: "none", confidence: 0, reason: null }
+            }),
+            provider: "test",
+            model: "test-model",
+            usage: null,
+            costUsd: 0
+          };
+        }
+      },
+      memory: null,
+      discovery: null,
+      search: null,
+      gifs: null,
+      video: null
+    });
+
+    bot.client.user = {
+      id: "bot-1",
+      username: "clanky",
+      tag: "clanky#0001"
+    };
+    let codeTaskCalls = 0;
+    const originalToReplyPipelineRuntime = bot.toReplyPipelineRuntime.bind(bot);
+    bot.toReplyPipelineRuntime = () => ({
+      ...originalToReplyPipelineRuntime(),
+      runModelRequestedCodeTask: async () => {
+        codeTaskCalls += 1;
+        return { text: "repo status inspected", isError: false, costUsd: 0, error: null };
+      }
+    });
+
+    const guild = buildGuild();
+    const channel = buildChannel({ guild, channelId, channelSendPayloads, typingCallsRef });
+    store.recordMessage({
+      messageId: "bot-context-restricted-tools",
+      createdAt: Date.now() - 750,
+      guildId: guild.id,
+      channelId,
+      authorId: "bot-1",
+      authorName: "clanky",
+      isBot: true,
+      content: "last bot line",
+      referencedMessageId: null
+    });
+    const incoming = buildIncomingMessage({
+      guild,
+      channel,
+      messageId: "msg-restricted-tools",
+      content: "check both tools",
+      replyPayloads
+    });
+
+    const settings = store.getSettings();
+    const recentMessages = store.getRecentMessages(
+      channelId,
+      getMemorySettings(settings).promptSlice.maxRecentMessages
+    );
+    const sent = await bot.maybeReplyToMessage(incoming, settings, {
+      source: "message_event",
+      recentMessages,
+      addressSignal: {
+        direct: false,
+        inferred: false,
+        triggered: false,
+        reason: "llm_decides"
+      }
+    });
+
+    assert.equal(sent, true);
+    assert.equal(llmCalls.length, 2);
+    assert.equal(channelSendPayloads.length, 1);
+    assert.equal(codeTaskCalls, 0);
+    const offeredTools = (llmCalls[0]?.tools || []).map((tool) => tool.name);
+    assert.equal(offeredTools.includes("code_task"), false);
+    const followupContext = JSON.stringify(llmCalls[1]?.contextMessages || []);
+    assert.match(followupContext, /Tool code_task is not permitted for this requester/);
+    assert.match(followupContext, /Tool web_search is not permitted for this requester/);
+    assert.doesNotMatch(followupContext, /repo status inspected/);
+  });
+});
+
 test("reply generation passes a structured JSON schema contract for voice intent directives", async () => {
   await withTempStore(async (store) => {
     const channelId = "chan-1";
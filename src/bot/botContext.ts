@@ -3,6 +3,7 @@ import type { appConfig } from "../config.ts";
 import type { DiscoveryService } from "../services/discovery.ts";
 import type { GifService } from "../services/gif.ts";
 import type { LLMService } from "../llm.ts";
+import type { McpClientManager } from "../mcp/mcpClient.ts";
 import type { MemoryManager } from "../memory/memoryManager.ts";
 import type { BrowserManager } from "../services/BrowserManager.ts";
 import type { WebSearchService } from "../services/search.ts";
@@ -15,6 +16,7 @@ import type { SubAgentSessionManager } from "../agents/subAgentSession.ts";
 import type { BrowserStreamPublishManager } from "../voice/voiceBrowserStreamPublish.ts";
 import type {
   InFlightAcceptedBrainTurn,
+  MusicSelectionPlatform,
   VoiceSession,
   VoiceSessionStreamWatchState,
   VoiceSessionDurableContextEntry
@@ -77,6 +79,7 @@ export interface BotContext {
   readonly memory: MemoryManager;
   readonly client: DiscordClientLike;
   readonly botUserId?: string | null;
+  readonly mcp?: McpClientManager | null;
 }
 
 interface DiscoveryContext extends BotContext {
@@ -349,7 +352,7 @@ export interface VoiceReplyRuntime extends BotContext {
     } | null) => {
       active: true;
       query: string | null;
-      platform: "youtube" | "soundcloud" | "discord" | "auto";
+      platform: MusicSelectionPlatform;
       action: "play_now" | "queue_next" | "queue_add";
       requestedByUserId: string | null;
       options: Array<{
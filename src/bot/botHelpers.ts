@@ -105,13 +105,54 @@ export const REPLY_OUTPUT_SCHEMA = {
               type: "object",
               additionalProperties: false,
               properties: {
-                kind: { type: "string", enum: ["daily", "interval", "once"] },
+                kind: { type: "string", enum: ["daily", "interval", "once", "cron", "event"] },
                 hour: { type: ["number", "null"] },
                 minute: { type: ["number", "null"] },
                 everyMinutes: { type: ["number", "null"] },
-                atIso: { type: ["string", "null"] }
+                atIso: { type: ["string", "null"] },
+                expression: { type: ["string", "null"] },
+                timeZone: { type: ["string", "null"] },
+                event: {
+                  anyOf: [
+                    { type: "null" },
+                    { type: "string", enum: ["message", "voice_join", "discovery_item", "automation_run"] }
+                  ]
+                },
+                pattern: { type: ["string", "null"] },
+                match: {
+                  anyOf: [
+                    { type: "null" },
+                    { type: "string", enum: ["keyword", "regex"] }
+                  ]
+                },
+                userId: { type: ["string", "null"] },
+                channelId: { type: ["string", "null"] },
+                source: { type: ["string", "null"] },
+                automationId: { type: ["number", "null"] },
+                onStatus: {
+                  anyOf: [
+                    { type: "null" },
+                    { type: "string", enum: ["ok", "error", "any"] }
+                  ]
+                }
               },
-              required: ["kind", "hour", "minute", "everyMinutes", "atIso"]
+              required: [
+                "kind",
+                "hour",
+                "minute",
+                "everyMinutes",
+                "atIso",
+                "expression",
+                "timeZone",
+                "event",
+                "pattern",
+                "match",
+                "userId",
+                "channelId",
+                "source",
+                "automationId",
+                "onStatus"
+              ]
             }
           ]
         },
@@ -80,7 +80,8 @@ function createBotContext(bot: ClankerBot): BotContext {
     llm: bot.llm,
     memory: bot.memory,
     client: bot.client,
-    botUserId: String(bot.client.user?.id || "").trim() || null
+    botUserId: String(bot.client.user?.id || "").trim() || null,
+    mcp: bot.mcp
   };
 }
 
@@ -190,6 +191,7 @@ export function buildInitiativeRuntime(bot: ClankerBot): InitiativeRuntime {
     client: bot.client,
     discovery: bot.discovery,
     search: bot.search,
+    fireAutomationEvent: (event) => bot.fireAutomationEvent(event),
     getPendingInitiativeThoughts: () => bot.pendingInitiativeThoughts,
     getPendingInitiativeThought: (guildId) => bot.pendingInitiativeThoughts.get(String(guildId || "").trim()) || null,
     setPendingInitiativeThought: (guildId, thought) => {
@@ -515,7 +517,8 @@ export function buildReplyPipelineRuntime(
     runModelRequestedImageLookup: (payload) =>
       runModelRequestedImageLookup({
         imageLookup: payload.imageLookup || {},
-        query: payload.query || ""
+        query: payload.query || "",
+        imageCaptionCache: bot.imageCaptionCache
       }),
     mergeImageInputs: (payload) => mergeImageInputs(payload),
     maybeHandleStructuredAutomationIntent: (payload) =>
@@ -9,6 +9,7 @@ import {
   getResolvedBrowserTaskConfig
 } from "../settings/agentStack.ts";
 import type { Settings } from "../settings/settingsSchema.ts";
+import { resolveSpendCapDecision } from "../llm/spendCaps.ts";
 import { clamp } from "../utils.ts";
 import { extractHistoryImageCandidates } from "./imageAnalysis.ts";
 import type { BudgetContext } from "./botContext.ts";
@@ -85,6 +86,8 @@ type BuildMemoryLookupContextOptions = {
 type BuildImageLookupContextOptions = {
   recentMessages?: RecentHistoryMessage[];
   excludedUrls?: string[];
+  guildId?: string | null;
+  channelId?: string | null;
 };
 
 type WebSearchContextState = {
@@ -137,6 +140,8 @@ type ImageLookupContextState = {
   results: HistoryImageCandidate[];
   selectedImageInputs: SelectedImageInput[];
   error: string | null;
+  guildId?: string | null;
+  channelId?: string | null;
 };
 
 const DAY_IN_HOURS = 24;
@@ -264,12 +269,14 @@ function getBrowserBudgetState(
   const maxPerHour = clamp(Number(browser.localBrowserAgent?.maxBrowseCallsPerHour) || 0, 0, 60);
   const used = ctx.store.countActionsSince("browser_browse_call", buildWindowStart(1));
   const remaining = Math.max(0, maxPerHour - used);
+  const spendCapReached =
+    resolveSpendCapDecision({ store: ctx.store, settings, feature: "browserAgent" }).action === "refuse";
 
   return {
     maxPerHour,
     used,
     remaining,
-    canBrowse: maxPerHour > 0 && remaining > 0
+    canBrowse: maxPerHour > 0 && remaining > 0 && !spendCapReached
   };
 }
 
@@ -352,7 +359,9 @@ export function buildImageLookupContext(
   ctx: BudgetContext,
   {
     recentMessages = [],
-    excludedUrls = []
+    excludedUrls = [],
+    guildId = null,
+    channelId = null
   }: BuildImageLookupContextOptions = {}
 ): ImageLookupContextState {
   const excluded = new Set(
@@ -374,6 +383,8 @@ export function buildImageLookupContext(
     candidates,
     results: [],
     selectedImageInputs: [],
-    error: null
+    error: null,
+    guildId: guildId || null,
+    channelId: channelId || null
   };
 }
@@ -192,6 +192,47 @@ test("runModelRequestedImageLookup resolves direct IMG refs", async () => {
   assert.equal(lookup.selectedImageInputs[0]?.filename, "cat.png");
 });
 
+test("runModelRequestedImageLookup falls back to archived captions when history has no images", async () => {
+  const searches: Array<{ query: string; guildId?: string | null }> = [];
+  const imageCaptionCache: ImageCaptionCacheLike = {
+    hasOrInflight() {
+      return false;
+    },
+    async getOrCaption() {
+      return null;
+    },
+    search(payload) {
+      searches.push({ query: payload.query, guildId: payload.guildId });
+      return [
+        {
+          url: "https://cdn.example.com/old-cat.png",
+          caption: "an orange cat asleep on a keyboard",
+          mimeType: "image/png",
+          messageId: "msg-old",
+          lastSeenAt: "2026-01-01T00:00:00.000Z"
+        }
+      ];
+    }
+  };
+
+  const lookup = await runModelRequestedImageLookup({
+    imageLookup: {
+      enabled: true,
+      candidates: [],
+      guildId: "guild-1",
+      channelId: "chan-1"
+    },
+    query: "cat on keyboard",
+    imageCaptionCache
+  });
+
+  assert.deepEqual(searches, [{ query: "cat on keyboard", guildId: "guild-1" }]);
+  assert.equal(lookup.used, true);
+  assert.equal(lookup.error, null);
+  assert.equal(lookup.selectedImageInputs[0]?.url, "https://cdn.example.com/old-cat.png");
+  assert.equal(lookup.results[0]?.imageRef, "IMG 1");
+});
+
 test("captionRecentHistoryImages respects hourly budget and skips inflight URLs", async () => {
   await withTempImageContext(async (ctx) => {
     const captionTimestamps = [Date.now() - 2 * 60 * 60 * 1000, Date.now() - 1000];
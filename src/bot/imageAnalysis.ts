@@ -21,6 +21,18 @@ export interface ImageCaptionCacheLike {
     mimeType?: string;
     trace?: Record<string, unknown> | null;
   }) => Promise<unknown>;
+  search?: (payload: {
+    query: string;
+    guildId?: string | null;
+    channelId?: string | null;
+    limit?: number;
+  }) => Array<{
+    caption: string;
+    url: string | null;
+    mimeType: string | null;
+    messageId: string | null;
+    lastSeenAt: string;
+  }>;
 }
 
 type HistoryImageCandidate = {
@@ -68,9 +80,12 @@ type RunModelRequestedImageLookupOptions = {
         results?: HistoryImageCandidate[];
         selectedImageInputs?: Array<Record<string, unknown>>;
         error?: string | null;
+        guildId?: string | null;
+        channelId?: string | null;
       } & Record<string, unknown>)
     | null;
   query?: string;
+  imageCaptionCache?: ImageCaptionCacheLike | null;
 };
 
 type MergeImageInputsOptions = {
@@ -138,11 +153,15 @@ export function captionRecentHistoryImages(
         llm: ctx.llm,
         settings,
         mimeType: candidate.contentType || "",
-        trace: trace || {
-          guildId: null,
-          channelId: null,
-          userId: null,
-          source: "history_image_caption"
+        trace: {
+          ...(trace || {
+            guildId: null,
+            channelId: null,
+            userId: null,
+            source: "history_image_caption"
+          }),
+          // Persisted captions remember which message first carried the image.
+          messageId: candidate.messageId || null
         }
       })
       .catch((error) => {
@@ -271,9 +290,56 @@ export function rankImageLookupCandidates({
   return matched.length ? matched : ranked;
 }
 
+/**
+ * Turns persisted caption matches into lookup candidates, numbered after the
+ * recent-history candidates so their refs never collide.
+ */
+function findArchivedImageCandidates({
+  imageCaptionCache,
+  query,
+  guildId,
+  channelId,
+  candidates
+}: {
+  imageCaptionCache: ImageCaptionCacheLike | null;
+  query: string;
+  guildId: string | null;
+  channelId: string | null;
+  candidates: HistoryImageCandidate[];
+}): HistoryImageCandidate[] {
+  if (typeof imageCaptionCache?.search !== "function") return [];
+  const seen = new Set(candidates.map((candidate) => String(candidate?.url || "")));
+  const archived: HistoryImageCandidate[] = [];
+  for (const match of imageCaptionCache.search({
+    query,
+    guildId,
+    channelId,
+    limit: MAX_HISTORY_IMAGE_LOOKUP_RESULTS
+  })) {
+    const url = String(match?.url || "").trim();
+    if (!url || seen.has(url)) continue;
+    seen.add(url);
+    const parsed = parseHistoryImageReference(url);
+    archived.push({
+      messageId: match.messageId || null,
+      authorName: "earlier",
+      createdAt: match.lastSeenAt,
+      imageRef: `IMG ${candidates.length + archived.length + 1}`,
+      url,
+      filename: parsed.filename || "(unnamed)",
+      contentType: match.mimeType || parsed.contentType || "",
+      context: `[caption: ${match.caption}]`.slice(0, 360),
+      recencyRank: candidates.length + archived.length,
+      hasCachedCaption: true
+    });
+  }
+  return archived;
+}
+
 export async function runModelRequestedImageLookup({
   imageLookup,
-  query
+  query,
+  imageCaptionCache = null
 }: RunModelRequestedImageLookupOptions) {
   const normalizedQuery = normalizeDirectiveText(query, MAX_IMAGE_LOOKUP_QUERY_LEN);
   const directRef = normalizeHistoryImageRef(normalizedQuery);
@@ -301,7 +367,16 @@ export async function runModelRequestedImageLookup({
   }
 
   const candidates = state.candidates;
-  if (!candidates.length) {
+  const archivedCandidates = directRef
+    ? []
+    : findArchivedImageCandidates({
+      imageCaptionCache,
+      query: normalizedQuery,
+      guildId: String(baseState.guildId || "").trim() || null,
+      channelId: String(baseState.channelId || "").trim() || null,
+      candidates
+    });
+  if (!candidates.length && !archivedCandidates.length) {
     return {
       ...state,
       error: "No recent history images are available for lookup."
@@ -337,7 +412,7 @@ export async function runModelRequestedImageLookup({
   }
 
   const ranked = rankImageLookupCandidates({
-    candidates,
+    candidates: [...candidates, ...archivedCandidates],
     query: normalizedQuery
   });
   const selected = ranked.slice(0, Math.min(MAX_HISTORY_IMAGE_LOOKUP_RESULTS, MAX_MODEL_IMAGE_INPUTS));
@@ -43,8 +43,11 @@ import {
   WEB_SEARCH_SCHEMA,
   toAnthropicTool
 } from "../tools/sharedToolSchemas.ts";
+import { buildMcpToolSchemas } from "../tools/toolRegistry.ts";
+import type { McpServerToolListing } from "../mcp/mcpClient.ts";
 import { normalizeDiscoveryUrl } from "../services/discovery.ts";
 import type { BotContext } from "./botContext.ts";
+import type { AutomationTriggerEvent } from "./automationEngine.ts";
 
 const INITIATIVE_TICK_MAX_RUNTIME_MS = 30_000;
 const INITIATIVE_SOURCE_STATS_WINDOW_DAYS = 14;
@@ -196,6 +199,7 @@ export type InitiativeRuntime = BotContext & {
     }>;
   } | null;
   readonly search: ReplyToolRuntime["search"];
+  fireAutomationEvent?: (event: AutomationTriggerEvent) => void;
   initiativeCycleRunning: boolean;
   getPendingInitiativeThoughts: () => Map<string, InitiativePendingThought>;
   getPendingInitiativeThought: (guildId: string) => InitiativePendingThought | null;
@@ -990,6 +994,10 @@ function updateDiscoverySources({
         [key]: nextList
       }
     }
+  }, {
+    actor: "conversation",
+    actorLabel: channelId ? `channel:${channelId}` : `guild:${guildId}`,
+    source: operation === "add" ? "initiative_source_add" : "initiative_source_remove"
   });
   const nextDiscoverySettings = getDiscoverySettings(nextSettings);
   runtime.store.logAction({
@@ -1063,7 +1071,8 @@ async function executeInitiativeTool(
       }
     },
     memory: runtime.memory,
-    store: runtime.store
+    store: runtime.store,
+    mcp: runtime.mcp || null
   };
   const toolContext: ReplyToolContext = {
     settings,
@@ -1089,13 +1098,15 @@ function initiativeToolSet({
   allowWebSearch,
   allowWebScrape,
   allowBrowserBrowse,
-  allowSelfCuration
+  allowSelfCuration,
+  mcpServers = []
 }: {
   settings: Record<string, unknown>;
   allowWebSearch: boolean;
   allowWebScrape: boolean;
   allowBrowserBrowse: boolean;
   allowSelfCuration: boolean;
+  mcpServers?: McpServerToolListing[];
 }) {
   const tools = [];
   const memoryEnabled = Boolean(getMemorySettings(settings).enabled);
@@ -1116,6 +1127,9 @@ function initiativeToolSet({
     tools.push(toAnthropicTool(DISCOVERY_SOURCE_ADD_SCHEMA));
     tools.push(toAnthropicTool(DISCOVERY_SOURCE_REMOVE_SCHEMA));
   }
+  for (const schema of buildMcpToolSchemas(settings, mcpServers)) {
+    tools.push(toAnthropicTool(schema));
+  }
   return tools;
 }
 
@@ -1124,11 +1138,9 @@ export async function maybeRunInitiativeCycle(runtime: InitiativeRuntime) {
   runtime.initiativeCycleRunning = true;
 
   try {
-    const settings = runtime.store.getSettings();
-    const initiative = getTextInitiativeSettings(settings);
+    let settings = runtime.store.getSettings();
+    let initiative = getTextInitiativeSettings(settings);
     const permissions = getReplyPermissions(settings);
-    const discoverySettings = getDiscoverySettings(settings);
-    const memorySettings = getMemorySettings(settings);
     if (!initiative.enabled) return;
     if (initiative.maxPostsPerDay <= 0) return;
     if (!runtime.canSendMessage(permissions.maxMessagesPerHour)) return;
@@ -1139,7 +1151,6 @@ export async function maybeRunInitiativeCycle(runtime: InitiativeRuntime) {
     if (posts24h >= initiative.maxPostsPerDay) return;
 
     const now = Date.now();
-    const minGapMs = Math.max(1, Number(initiative.minMinutesBetweenPosts || 0) * 60_000);
     const eligibleChannels = await buildEligibleChannels(runtime, settings);
     const {
       dueCandidates: duePendingCandidates,
@@ -1147,13 +1158,21 @@ export async function maybeRunInitiativeCycle(runtime: InitiativeRuntime) {
     } = collectPendingInitiativeThoughtCandidates(runtime, eligibleChannels, now);
     const freshEligibleChannels = eligibleChannels.filter((channel) => !pendingThoughtGuildIds.has(channel.guildId));
     const freshGuildChannels = pickGuildChannelSet(freshEligibleChannels);
+    // Cadence comes from the picked guild so per-guild overlays can retune or mute it.
+    const freshInitiative = freshGuildChannels.length
+      ? getTextInitiativeSettings(runtime.store.getScopedSettings({
+          guildId: freshGuildChannels[0].guildId,
+          channelId: freshGuildChannels[0].channelId
+        }))
+      : initiative;
     let freshPassAllowed = false;
 
-    if (freshGuildChannels.length) {
+    if (freshGuildChannels.length && freshInitiative.enabled) {
+      const freshMinGapMs = Math.max(1, Number(freshInitiative.minMinutesBetweenPosts || 0) * 60_000);
       const lastPostTimes = getLastActionTimes(runtime.store, [...INITIATIVE_MIN_GAP_ACTION_KINDS]);
       const lastPostTs = lastPostTimes.length ? Math.max(...lastPostTimes) : 0;
-      if (!lastPostTs || now - lastPostTs >= minGapMs) {
-        const eagerness = Math.max(0, Math.min(100, Number(initiative.eagerness) || 0));
+      if (!lastPostTs || now - lastPostTs >= freshMinGapMs) {
+        const eagerness = Math.max(0, Math.min(100, Number(freshInitiative.eagerness) || 0));
         const roll = Math.random() * 100;
         freshPassAllowed = roll < eagerness;
       }
@@ -1169,6 +1188,12 @@ export async function maybeRunInitiativeCycle(runtime: InitiativeRuntime) {
     if (!isPendingThoughtPass && !freshPassAllowed) return;
 
     const guildId = guildChannels[0].guildId;
+    settings = runtime.store.getScopedSettings({ guildId, channelId: guildChannels[0].channelId });
+    initiative = getTextInitiativeSettings(settings);
+    if (!initiative.enabled) return;
+    const minGapMs = Math.max(1, Number(initiative.minMinutesBetweenPosts || 0) * 60_000);
+    const discoverySettings = getDiscoverySettings(settings);
+    const memorySettings = getMemorySettings(settings);
     const recentGuildMessages = runtime.store.getRecentMessagesAcrossGuild(guildId, 180) as StoredMessageRow[];
     const recentGuildQuery = recentGuildMessages
       .slice(0, 24)
@@ -1200,6 +1225,24 @@ export async function maybeRunInitiativeCycle(runtime: InitiativeRuntime) {
           errors: []
         };
 
+    for (const candidate of discoveryResult.candidates) {
+      const url = String(candidate?.url || "").trim();
+      if (!url) continue;
+      runtime.fireAutomationEvent?.({
+        type: "discovery_item",
+        guildId,
+        key: url,
+        payload: {
+          url,
+          title: candidate.title,
+          source: candidate.source,
+          sourceLabel: candidate.sourceLabel,
+          excerpt: candidate.excerpt,
+          publishedAt: candidate.publishedAt
+        }
+      });
+    }
+
     const memoryFacts = memorySettings.enabled
       ? await runtime.loadRelevantMemoryFacts({
           settings,
@@ -1336,7 +1379,8 @@ export async function maybeRunInitiativeCycle(runtime: InitiativeRuntime) {
       allowWebSearch: webSearchToolAvailable,
       allowWebScrape: webSearchToolAvailable,
       allowBrowserBrowse: browserBrowseToolAvailable,
-      allowSelfCuration
+      allowSelfCuration,
+      mcpServers: runtime.mcp?.listServerTools() || []
     });
     const trace = {
       guildId,
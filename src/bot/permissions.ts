@@ -42,3 +42,12 @@ export function isDiscoveryChannel(settings: Settings, channelId: string) {
   if (!discoveryChannelIds.length) return false;
   return discoveryChannelIds.includes(id);
 }
+
+/** Role ids of a guild member, from either a cached discord.js member or a raw API member. */
+export function getMemberRoleIds(member: unknown): string[] {
+  const roles = (member as { roles?: unknown } | null | undefined)?.roles;
+  if (Array.isArray(roles)) return roles.map((roleId) => String(roleId));
+  const cache = (roles as { cache?: { keys?: () => Iterable<string> } } | null | undefined)?.cache;
+  if (cache && typeof cache.keys === "function") return [...cache.keys()].map((roleId) => String(roleId));
+  return [];
+}
@@ -277,7 +277,10 @@ export async function processReplyQueue(bot: QueueGatewayRuntime, channelId: str
         continue;
       }
 
-      const settings = bot.store.getSettings();
+      const settings = bot.store.getScopedSettings({
+        guildId: headMessage.guildId,
+        channelId: headMessage.channelId
+      });
       const permissions = getReplyPermissions(settings);
       const memory = getMemorySettings(settings);
 
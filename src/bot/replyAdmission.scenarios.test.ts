@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { test } from "bun:test";
+import path from "node:path";
+import { loadReplayScenarios, parseReplayScenario } from "../../scripts/replay/core/scenarioDsl.ts";
+import { createScenarioStubLlm, runScriptedScenario } from "../../scripts/replay/scenarios/scripted.ts";
+
+const LIBRARY_DIR = path.resolve(import.meta.dir, "../../scripts/replay/scenarios/library");
+
+test("scripted scenario library passes against the stub LLM", async () => {
+  const scenarios = await loadReplayScenarios(LIBRARY_DIR);
+  assert.ok(scenarios.length > 0);
+  for (const scenario of scenarios) {
+    const result = await runScriptedScenario({ scenario, llm: createScenarioStubLlm(scenario) });
+    assert.deepEqual(result.failures, [], `${scenario.file}#${scenario.name}`);
+  }
+});
+
+test("scripted scenarios report admission and tool call drift per turn", async () => {
+  const scenario = parseReplayScenario({
+    name: "drift",
+    users: ["alice"],
+    turns: [
+      {
+        author: "alice",
+        content: "clanky look this up",
+        stub: { text: "on it", toolCalls: ["web_search"] },
+        expect: { admission: "unsolicited_replies_disabled", toolCalls: ["memory_search"] }
+      },
+      { author: "alice", content: "thanks", replyTo: "t1.reply", expect: { admission: true, reply: "skip" } }
+    ]
+  });
+
+  const result = await runScriptedScenario({ scenario, llm: createScenarioStubLlm(scenario) });
+  assert.equal(result.pass, false);
+  assert.deepEqual(result.failures, [
+    "t1: admission.allow expected false got true",
+    "t1: admission.reason expected unsolicited_replies_disabled got hard_address",
+    "t1: toolCalls expected [memory_search] got [web_search]"
+  ]);
+  assert.equal(result.turns[1]?.admission.reason, "hard_address");
+});
+
+test("scenario parsing rejects unknown authors and dangling replies", () => {
+  assert.throws(
+    () => parseReplayScenario({ name: "bad", users: ["alice"], turns: [{ author: "bob", content: "hi" }] }),
+    /unknown author "bob"/
+  );
+  assert.throws(
+    () =>
+      parseReplayScenario({
+        name: "bad",
+        users: ["alice"],
+        turns: [{ author: "alice", content: "hi", replyTo: "later" }]
+      }),
+    /replies to unknown earlier turn "later"/
+  );
+  assert.throws(() => parseReplayScenario({ name: "bad", users: ["bot"], turns: [] }), /reserved for bot turns/);
+});
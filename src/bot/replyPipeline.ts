@@ -15,8 +15,10 @@ import {
   splitDiscordMessage
 } from "./botHelpers.ts";
 import { getLocalTimeZoneLabel } from "./automation.ts";
-import { buildReplyToolSet, executeReplyTool } from "../tools/replyTools.ts";
+import { buildReplyToolSet, executeReplyTool, rejectUnpermittedReplyToolCall } from "../tools/replyTools.ts";
 import type { ReplyToolContext, ReplyToolRuntime, ReplyToolDefinition } from "../tools/replyTools.ts";
+import { buildMcpToolName, isToolPermittedForRequester, type ToolRequester } from "../tools/toolRegistry.ts";
+import type { McpServerToolListing } from "../mcp/mcpClient.ts";
 import {
   resolveReplyFollowupGenerationSettings,
   runModelRequestedWebSearch
@@ -44,6 +46,7 @@ import {
 } from "./replyAdmission.ts";
 import { loadConversationContinuityContext } from "./conversationContinuity.ts";
 import { loadBehavioralMemoryFacts } from "./memorySlice.ts";
+import { getMemberRoleIds } from "./permissions.ts";
 import {
   getActivitySettings,
   getAutomationsSettings,
@@ -160,6 +163,7 @@ type ReplyPipelineMessage = ReplyPipelineSentMessage & {
   };
   member?: {
     displayName?: string | null;
+    roles?: unknown;
   } | null;
   channel: ReplyPipelineChannel;
   mentions?: ReplyPipelineMentions;
@@ -423,8 +427,13 @@ function buildReplyToolAvailabilityState(
   {
     webSearch,
     browserBrowse,
-    imageLookup
-  }: Pick<ReplyPipelineContext, "webSearch" | "browserBrowse" | "imageLookup">
+    imageLookup,
+    mcpServers = [],
+    requester = null
+  }: Pick<ReplyPipelineContext, "webSearch" | "browserBrowse" | "imageLookup"> & {
+    mcpServers?: McpServerToolListing[];
+    requester?: ToolRequester | null;
+  }
 ): {
   tools: ReplyToolDefinition[];
   capabilities: {
@@ -435,6 +444,7 @@ function buildReplyToolAvailabilityState(
     imageLookupAvailable?: boolean;
     codeAgentAvailable?: boolean;
     voiceToolsAvailable?: boolean;
+    mcpServers?: McpServerToolListing[];
   };
   includedTools: string[];
   excludedTools: Array<{ name: string; reason: string }>;
@@ -486,9 +496,10 @@ function buildReplyToolAvailabilityState(
     imageLookupAvailable: imageLookupReason === "available",
     videoContextAvailable: videoContextReason === "available",
     codeAgentAvailable: codeTaskReason === "available",
-    voiceToolsAvailable: voiceToolReason === "available"
+    voiceToolsAvailable: voiceToolReason === "available",
+    mcpServers
   };
-  const tools = buildReplyToolSet(settings, capabilities);
+  const tools = buildReplyToolSet(settings, capabilities, requester);
   const includedSet = new Set(tools.map((tool) => String(tool.name || "").trim()).filter(Boolean));
   const candidates: Array<{ name: string; reason: string }> = [
     { name: "web_search", reason: webSearchReason },
@@ -496,13 +507,20 @@ function buildReplyToolAvailabilityState(
     { name: "browser_browse", reason: browserBrowseReason },
     { name: "memory_search", reason: memoryReason },
     { name: "memory_write", reason: memoryReason },
+    { name: "memory_forget", reason: memoryReason },
     { name: "conversation_search", reason: "available" },
     { name: "image_lookup", reason: imageLookupReason },
     { name: "code_task", reason: codeTaskReason },
     ...VOICE_TOOL_SCHEMAS.map((schema) => ({
       name: schema.name,
       reason: voiceToolReason
-    }))
+    })),
+    ...mcpServers.flatMap((server) =>
+      server.tools.map((tool) => ({
+        name: buildMcpToolName(server.serverName, tool.name),
+        reason: "mcp_settings_disabled"
+      }))
+    )
   ];
 
   return {
@@ -518,7 +536,9 @@ function buildReplyToolAvailabilityState(
       )
       .map((candidate) => ({
         name: candidate.name,
-        reason: candidate.reason
+        reason: candidate.reason === "available" && !isToolPermittedForRequester(settings, "reply", candidate.name, requester)
+          ? "requester_not_permitted"
+          : candidate.reason
       }))
   };
 }
@@ -739,7 +759,9 @@ async function buildReplyContext(
   ].slice(0, MAX_MODEL_IMAGE_INPUTS);
   const imageLookup = bot.buildImageLookupContext({
     recentMessages,
-    excludedUrls: modelImageInputs.map((image) => String(image?.url || "").trim())
+    excludedUrls: modelImageInputs.map((image) => String(image?.url || "").trim()),
+    guildId: message.guildId,
+    channelId: message.channelId
   });
 
   if (Boolean(visionSettings.enabled) && imageLookup.candidates?.length) {
@@ -909,10 +931,16 @@ async function executeReplyLlm(
   } = ctx;
   let { webSearch, browserBrowse, memoryLookup, modelImageInputs, imageLookup, replyPrompts } = ctx;
 
+  const toolRequester: ToolRequester = {
+    userId: message.author.id,
+    roleIds: getMemberRoleIds(message.member)
+  };
   const replyToolAvailability = buildReplyToolAvailabilityState(settings, {
     webSearch,
     browserBrowse,
-    imageLookup
+    imageLookup,
+    mcpServers: bot.mcp?.listServerTools() || [],
+    requester: toolRequester
   });
   const replyTools = replyToolAvailability.tools;
   logReplyToolAvailability(bot, {
@@ -949,6 +977,7 @@ async function executeReplyLlm(
           keyframeIntervalSeconds: Number(videoContextSettings.keyframeIntervalSeconds) || 0,
           maxKeyframesPerVideo: Number(videoContextSettings.maxKeyframesPerVideo) || 0,
           allowAsrFallback: Boolean(videoContextSettings.allowAsrFallback),
+          asrProvider: String(videoContextSettings.asrProvider || "openai"),
           maxAsrSeconds: Number(videoContextSettings.maxAsrSeconds) || 120,
           trace
         });
@@ -1005,7 +1034,8 @@ async function executeReplyLlm(
           text: toolResultText,
           imageInputs: frameImages.length ? frameImages : undefined
         };
-      }
+      },
+      searchLinkedVideos: (opts) => bot.video.searchLinkedVideos(opts)
     } : undefined,
     browser: {
       browse: async ({ settings: toolSettings, query, guildId, channelId, userId, source }) => {
@@ -1046,6 +1076,7 @@ async function executeReplyLlm(
       cancel: (taskId, reason) => bot.backgroundTaskRunner.cancel(taskId, reason)
     },
     voiceSession: activeVoiceCallbacks || undefined,
+    mcp: bot.mcp || null,
     voiceJoin: Boolean(getVoiceSettings(settings).enabled) && bot.voiceSessionManager
       ? async () => {
         try {
@@ -1179,7 +1210,8 @@ async function executeReplyLlm(
       const settledCalls = await Promise.allSettled(concurrentCalls.map(async (toolCall) => {
         throwIfAborted(signal, "Reply cancelled");
         const toolInput = toolCall.input;
-        const result = await executeReplyTool(toolCall.name, toolInput, replyToolRuntime, replyToolContext);
+        const result = rejectUnpermittedReplyToolCall(settings, toolCall.name, toolRequester) ||
+          await executeReplyTool(toolCall.name, toolInput, replyToolRuntime, replyToolContext);
         if (mergeToolResultImages(result?.imageInputs)) {
           toolResultImageInputsAdded = true;
         }
@@ -1218,7 +1250,10 @@ async function executeReplyLlm(
       throwIfAborted(signal, "Reply cancelled");
       const toolInput = toolCall.input;
       let result: ReplyToolExecutionResult;
-      if (toolCall.name === "web_search") {
+      const deniedResult = rejectUnpermittedReplyToolCall(settings, toolCall.name, toolRequester);
+      if (deniedResult) {
+        result = deniedResult;
+      } else if (toolCall.name === "web_search") {
         const toolQuery = String(toolInput.query || "");
         webSearch = await runModelRequestedWebSearch(
           { llm: bot.llm, search: bot.search, memory: bot.memory },
@@ -15,6 +15,9 @@ function createBot() {
           }
         });
       },
+      getScopedSettings() {
+        return this.getSettings();
+      },
       countActionsSince() {
         return 0;
       },
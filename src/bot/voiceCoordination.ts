@@ -243,7 +243,6 @@ export async function requestVoiceJoinFromDashboard(
     source?: string;
   } = {}
 ) {
-  const settings = runtime.store.getSettings();
   const normalizedGuildId = String(guildId || "").trim();
   const normalizedRequesterUserId = String(requesterUserId || "").trim();
   const normalizedTextChannelId = String(textChannelId || "").trim();
@@ -328,7 +327,10 @@ export async function requestVoiceJoinFromDashboard(
 
   const handled = await runtime.voiceSessionManager.requestJoin({
     message: syntheticMessage,
-    settings,
+    settings: runtime.store.getScopedSettings({
+      guildId: syntheticMessage.guildId,
+      channelId: syntheticMessage.channelId
+    }),
     intentConfidence: 1
   });
 
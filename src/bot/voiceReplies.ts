@@ -13,7 +13,8 @@ import {
 } from "./botHelpers.ts";
 import {
   buildReplyToolSet,
-  executeReplyTool
+  executeReplyTool,
+  rejectUnpermittedReplyToolCall
 } from "../tools/replyTools.ts";
 import type { ReplyToolRuntime, ReplyToolContext } from "../tools/replyTools.ts";
 import { createAbortError, isAbortError, throwIfAborted } from "../tools/browserTaskRuntime.ts";
@@ -21,6 +22,7 @@ import { shouldRequestVoiceToolFollowup } from "../tools/sharedToolSchemas.ts";
 import { clamp, sanitizeBotText } from "../utils.ts";
 import { SETTINGS_NUMERIC_CONSTRAINTS } from "../settings/settingsConstraints.ts";
 import { normalizeFactProfileSlice } from "./memorySlice.ts";
+import { getMemberRoleIds } from "./permissions.ts";
 import type { MemoryFactRow } from "../store/storeMemory.ts";
 import {
   resolveWarmMemory,
@@ -1346,6 +1348,10 @@ export async function generateVoiceTurnReply(runtime: VoiceReplyRuntime, {
     });
 
     const codeAgentRuntimeAvailable = typeof runtime.runModelRequestedCodeTask === "function";
+    const voiceToolRequester = {
+      userId,
+      roleIds: getMemberRoleIds(guild?.members?.cache?.get(String(userId || "")))
+    };
     const voiceReplyTools = buildReplyToolSet(settings as Record<string, unknown>, {
       webSearchAvailable: allowWebSearchToolCall && webSearchAvailableNow,
       webScrapeAvailable: allowWebSearchToolCall && webSearchAvailableNow,
@@ -1360,7 +1366,7 @@ export async function generateVoiceTurnReply(runtime: VoiceReplyRuntime, {
       soundboardAvailable: allowSoundboardToolCall,
       codeAgentAvailable: codeAgentRuntimeAvailable,
       voiceToolsAvailable: Boolean(voiceToolCallbacks)
-    });
+    }, voiceToolRequester);
 
     const subAgentSessions =
       typeof runtime.buildSubAgentSessionsRuntime === "function"
@@ -1821,7 +1827,14 @@ export async function generateVoiceTurnReply(runtime: VoiceReplyRuntime, {
 
         const toolInput = toolCall.input as Record<string, unknown>;
         const toolStartMs = Date.now();
-        const result = toolCall.name === "note_context"
+        const deniedResult = rejectUnpermittedReplyToolCall(
+          settings as Record<string, unknown>,
+          toolCall.name,
+          voiceToolRequester
+        );
+        const result = deniedResult
+          ? deniedResult
+          : toolCall.name === "note_context"
           ? (() => {
             const stored = appendSessionDurableContextEntry({
               session: activeVoiceSession,
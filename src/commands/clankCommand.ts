@@ -1,13 +1,14 @@
 import { SlashCommandBuilder } from "discord.js";
 import { addBrowseSubcommand } from "./browseCommand.ts";
 import { addCodeSubcommand } from "./codeCommand.ts";
+import { addMemorySubcommandGroup } from "./memoryCommand.ts";
 import { addMusicSubcommandGroup } from "../voice/musicCommands.ts";
 
 export const clankCommand = addCodeSubcommand(
   addBrowseSubcommand(
     new SlashCommandBuilder()
       .setName("clank")
-      .setDescription("Text, browsing, coding, and music commands")
+      .setDescription("Text, browsing, coding, music, and memory commands")
       .addSubcommand((subcommand) =>
         subcommand
           .setName("say")
@@ -20,5 +21,6 @@ export const clankCommand = addCodeSubcommand(
           )
       )
       .addSubcommandGroup((group) => addMusicSubcommandGroup(group))
+      .addSubcommandGroup((group) => addMemorySubcommandGroup(group))
   )
 );
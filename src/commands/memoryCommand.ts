@@ -0,0 +1,41 @@
+import { type SlashCommandSubcommandGroupBuilder } from "discord.js";
+
+export function addMemorySubcommandGroup(group: SlashCommandSubcommandGroupBuilder) {
+  return group
+    .setName("memory")
+    .setDescription("See or delete what the bot remembers about you")
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("list")
+        .setDescription("List the facts the bot remembers about you")
+        .addIntegerOption((option) =>
+          option
+            .setName("page")
+            .setDescription("Page of facts to show (default 1)")
+            .setMinValue(1)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("forget")
+        .setDescription("Delete one remembered fact about you")
+        .addIntegerOption((option) =>
+          option
+            .setName("fact_id")
+            .setDescription("Fact number from /clank memory list")
+            .setMinValue(1)
+            .setRequired(true)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("forget_all")
+        .setDescription("Delete every fact about you and scrub your lines from the daily logs")
+        .addBooleanOption((option) =>
+          option
+            .setName("confirm")
+            .setDescription("Set to true to confirm; this cannot be undone")
+            .setRequired(true)
+        )
+    );
+}
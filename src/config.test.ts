@@ -28,6 +28,14 @@ const CONFIG_ENV_KEYS = [
   "GIPHY_RATING",
   "YOUTUBE_API_KEY",
   "SOUNDCLOUD_CLIENT_ID",
+  "MUSIC_YTDLP_SEARCH",
+  "MUSIC_BANDCAMP_SEARCH",
+  "MUSIC_RADIO_ENABLED",
+  "MUSIC_RADIO_STATIONS_JSON",
+  "MUSIC_LOCAL_LIBRARY_DIR",
+  "MUSIC_LYRICS_DIR",
+  "MUSIC_LRCLIB_ENABLED",
+  "MUSIC_MUSICBRAINZ_ENABLED",
   "SPOTIFY_CLIENT_ID",
   "SPOTIFY_CLIENT_SECRET",
   "SPOTIFY_REFRESH_TOKEN",
@@ -158,6 +166,42 @@ test("config falls back youtube key to GOOGLE_API_KEY", async () => {
   );
 });
 
+test("config parses music source flags and radio stations", async () => {
+  await withConfigEnv(
+    {
+      DISCORD_TOKEN: "token-music-sources",
+      MUSIC_YTDLP_SEARCH: "true",
+      MUSIC_RADIO_ENABLED: "yes",
+      MUSIC_RADIO_STATIONS_JSON: JSON.stringify([
+        { name: "Groove Salad", url: "https://ice1.somafm.com/groovesalad-128-mp3", genre: "ambient" },
+        { name: "Not a stream", url: "ftp://example.com/radio" }
+      ]),
+      MUSIC_LOCAL_LIBRARY_DIR: "  /srv/music  "
+    },
+    async () => {
+      const { appConfig } = await importFreshConfig("music-sources");
+      assert.equal(appConfig.musicYtDlpSearchEnabled, true);
+      assert.equal(appConfig.musicBandcampSearchEnabled, false);
+      assert.equal(appConfig.musicRadioEnabled, true);
+      assert.deepEqual(appConfig.musicRadioStations, [
+        { name: "Groove Salad", url: "https://ice1.somafm.com/groovesalad-128-mp3", genre: "ambient" }
+      ]);
+      assert.equal(appConfig.musicLocalLibraryDir, "/srv/music");
+    }
+  );
+
+  await withConfigEnv(
+    {
+      DISCORD_TOKEN: "token-music-sources-bad-json",
+      MUSIC_RADIO_STATIONS_JSON: "{not json"
+    },
+    async () => {
+      const { appConfig } = await importFreshConfig("music-sources-bad-json");
+      assert.deepEqual(appConfig.musicRadioStations, []);
+    }
+  );
+});
+
 test("config enables stream link fallback by default", async () => {
   await withConfigEnv(
     {
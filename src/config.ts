@@ -1,6 +1,8 @@
 import dotenv from "dotenv";
 import { normalizeLlmProvider } from "./llm/llmHelpers.ts";
 import { parseBooleanFlag, parseNumberOrFallback } from "./normalization/valueParsers.ts";
+import { normalizeMcpServerConfigs } from "./mcp/mcpClient.ts";
+import { normalizeRadioStations } from "./voice/musicSources.ts";
 
 dotenv.config();
 
@@ -30,6 +32,14 @@ export const appConfig = {
   giphyRating: process.env.GIPHY_RATING ?? "pg-13",
   youtubeApiKey: String(process.env.YOUTUBE_API_KEY || process.env.GOOGLE_API_KEY || "").trim(),
   soundcloudClientId: process.env.SOUNDCLOUD_CLIENT_ID ?? "",
+  musicYtDlpSearchEnabled: parseBooleanFlag(process.env.MUSIC_YTDLP_SEARCH, false),
+  musicBandcampSearchEnabled: parseBooleanFlag(process.env.MUSIC_BANDCAMP_SEARCH, false),
+  musicRadioEnabled: parseBooleanFlag(process.env.MUSIC_RADIO_ENABLED, false),
+  musicRadioStations: parseMusicRadioStations(process.env.MUSIC_RADIO_STATIONS_JSON),
+  musicLocalLibraryDir: String(process.env.MUSIC_LOCAL_LIBRARY_DIR || "").trim(),
+  musicLyricsDir: String(process.env.MUSIC_LYRICS_DIR || "").trim(),
+  musicLrclibEnabled: parseBooleanFlag(process.env.MUSIC_LRCLIB_ENABLED, false),
+  musicBrainzEnabled: parseBooleanFlag(process.env.MUSIC_MUSICBRAINZ_ENABLED, false),
   defaultProvider: normalizeLlmProvider(process.env.DEFAULT_PROVIDER, "anthropic"),
   defaultOpenAiModel: process.env.DEFAULT_MODEL_OPENAI ?? "claude-haiku-4-5",
   defaultAnthropicModel: process.env.DEFAULT_MODEL_ANTHROPIC ?? "claude-haiku-4-5",
@@ -39,7 +49,13 @@ export const appConfig = {
   defaultCodexCliModel: process.env.DEFAULT_MODEL_CODEX_CLI ?? "gpt-5.4",
   defaultMemoryEmbeddingModel: process.env.DEFAULT_MEMORY_EMBEDDING_MODEL ?? "text-embedding-3-small",
   ollamaBaseUrl: process.env.OLLAMA_BASE_URL ?? "",
+  localEmbeddingCacheDir: process.env.LOCAL_EMBEDDING_CACHE_DIR ?? "data/models",
+  whisperCppBin: String(process.env.WHISPER_CPP_BIN || "").trim() || "whisper-cli",
+  whisperCppModel: String(process.env.WHISPER_CPP_MODEL || "").trim(),
+  whisperCppThreads: parseNumberOrFallback(process.env.WHISPER_CPP_THREADS, 0),
+  // Deprecated HTTP tool bridge for voice only. Realtime voice also uses the MCP_SERVERS_JSON servers.
   voiceMcpServers: parseVoiceMcpServers(process.env.VOICE_MCP_SERVERS_JSON),
+  mcpServers: parseMcpServers(process.env.MCP_SERVERS_JSON),
   runtimeStructuredLogsEnabled: parseBooleanFlag(process.env.RUNTIME_STRUCTURED_LOGS_ENABLED, true),
   runtimeStructuredLogsStdout: parseBooleanFlag(process.env.RUNTIME_STRUCTURED_LOGS_STDOUT, true),
   runtimeStructuredLogsFilePath:
@@ -58,6 +74,26 @@ export function normalizeDashboardHost(value) {
   return normalized || "127.0.0.1";
 }
 
+function parseMcpServers(rawValue) {
+  const text = String(rawValue || "").trim();
+  if (!text) return [];
+  try {
+    return normalizeMcpServerConfigs(JSON.parse(text));
+  } catch {
+    return [];
+  }
+}
+
+function parseMusicRadioStations(rawValue) {
+  const text = String(rawValue || "").trim();
+  if (!text) return [];
+  try {
+    return normalizeRadioStations(JSON.parse(text));
+  } catch {
+    return [];
+  }
+}
+
 function parseVoiceMcpServers(rawValue) {
   const text = String(rawValue || "").trim();
   if (!text) return [];
@@ -4,14 +4,26 @@ import { fileURLToPath } from "node:url";
 import { Hono } from "hono";
 import { serveStatic } from "hono/bun";
 import type { Store } from "./store/store.ts";
+import type { MemoryExportBundle, MemoryImportConflictPolicy } from "./memory/memoryPortability.ts";
+import type { EmbeddingMigrationRecord } from "./store/storeEmbeddingMigrations.ts";
 import { normalizeDashboardHost } from "./config.ts";
 import { classifyApiAccessPath, isAllowedPublicApiPath, isPublicTunnelRequestHost } from "./services/publicIngressAccess.ts";
-import { attachAuthRoutes, hasValidDashboardSessionCookie, isDashboardAuthSessionApiPath } from "./dashboard/routesAuth.ts";
+import {
+  attachAuthRoutes,
+  hasDashboardRole,
+  isDashboardAuthSessionApiPath,
+  LOCAL_DASHBOARD_ACTOR,
+  requiredDashboardRole,
+  resolveDashboardActor,
+  type DashboardActor
+} from "./dashboard/routesAuth.ts";
 import { attachSettingsRoutes } from "./dashboard/routesSettings.ts";
 import { attachOAuthRoutes } from "./dashboard/routesOAuth.ts";
 import { attachMetricsRoutes } from "./dashboard/routesMetrics.ts";
+import { attachAutomationRoutes } from "./dashboard/routesAutomations.ts";
 import { attachVoiceRoutes } from "./dashboard/routesVoice.ts";
 import { BonjourAdvertiser } from "./services/bonjourAdvertiser.ts";
+import { getSpendCapStatus } from "./llm/spendCaps.ts";
 import {
   createDashboardServerHandle,
   DashboardHttpError,
@@ -68,6 +80,7 @@ export interface DashboardBot {
       sessions?: Array<Record<string, unknown>>;
     };
   };
+  getMcpServerStatuses?(): Array<Record<string, unknown>>;
   getGuilds(): Array<{ id: string; name: string }>;
   getGuildChannels(guildId: string): unknown;
   purgeGuildMemoryRuntime?(guildId: string): Promise<unknown> | unknown;
@@ -77,6 +90,8 @@ export interface DashboardBot {
     textChannelId: string | null;
     source: string;
   }): Promise<unknown>;
+  runAutomationCycleFromDashboard?(): Promise<unknown>;
+  runAutomationNowFromDashboard?(payload: { automationId: number }): Promise<unknown>;
   ingestVoiceStreamFrame(payload: {
     guildId: string;
     streamerUserId: string | null;
@@ -106,6 +121,34 @@ export interface DashboardMemory {
     journalFilesTouched?: number;
     summaryRefreshed?: boolean;
   }>;
+  exportMemory?(opts: {
+    guildId?: string | null;
+    userId?: string | null;
+  }): Promise<MemoryExportBundle>;
+  importMemory?(opts: {
+    bundle: MemoryExportBundle;
+    guildId?: string | null;
+    settings?: unknown;
+    dryRun?: boolean;
+    conflictPolicy?: MemoryImportConflictPolicy;
+    actor?: "dashboard";
+  }): Promise<Record<string, unknown>>;
+  getEmbeddingMigrationStatus?(settings?: unknown): {
+    configuredModel: string;
+    retrievalModel: string;
+    running: boolean;
+    modelUsage: Array<{ model: string; facts: number; messages: number }>;
+    migration: EmbeddingMigrationRecord | null;
+  };
+  maybeStartEmbeddingMigration?(
+    settings: unknown,
+    opts?: { force?: boolean }
+  ): { ok: boolean; reason: string; migration?: EmbeddingMigrationRecord | null };
+  cancelEmbeddingMigration?(settings: unknown): {
+    ok: boolean;
+    reason: string;
+    migration?: EmbeddingMigrationRecord | null;
+  };
   loadFactProfile?(payload: {
     userId?: string | null;
     guildId?: string | null;
@@ -231,6 +274,7 @@ export function createDashboardServer({
     const botRuntime = bot.getRuntimeState();
     return {
       stats: store.getStats({ guildId }),
+      spendCaps: getSpendCapStatus(store, store.getSettings()),
       runtime: {
         ...botRuntime,
         publicHttps: publicHttpsEntrypoint?.getState?.() || null,
@@ -328,18 +372,40 @@ export function createDashboardServer({
     const isPublicApiRoute = isAllowedPublicApiPath(apiPath);
     const dashboardToken = String(appConfig.dashboardToken || "").trim();
     const publicApiToken = String(appConfig.publicApiToken || "").trim();
-    const presentedDashboardToken = c.req.header("x-dashboard-token") || "";
     const presentedPublicToken = c.req.header("x-public-api-token") || "";
-    const isDashboardSessionAuthorized = await hasValidDashboardSessionCookie(c, dashboardToken);
-    const isDashboardAuthorized =
-      (Boolean(dashboardToken) && presentedDashboardToken === dashboardToken) || isDashboardSessionAuthorized;
+    const dashboardActor = await resolveDashboardActor(c, { dashboardToken, store });
     const isPublicApiAuthorized = Boolean(publicApiToken) && presentedPublicToken === publicApiToken;
     const isPublicTunnelRequest = isRequestFromPublicTunnel(c, publicHttpsEntrypoint);
     const publicHttpsEnabled = Boolean(publicHttpsEntrypoint?.getState?.()?.enabled);
-
-    if (isDashboardAuthorized) {
+    const runAsDashboardActor = async (actor: DashboardActor) => {
+      const requiredRole = requiredDashboardRole(c.req.method, apiPath);
+      if (!hasDashboardRole(actor.role, requiredRole)) {
+        store.logAction({
+          kind: "dashboard",
+          content: "dashboard_access_denied",
+          metadata: { method: c.req.method, path: apiPath, username: actor.username, role: actor.role, requiredRole }
+        });
+        return c.json({ error: "forbidden", detail: `This action requires the ${requiredRole} role.`, requiredRole }, 403);
+      }
+      c.set("dashboardActor", actor);
       await next();
-      return;
+      if (apiAccessKind === "private" && requiredRole !== "viewer") {
+        store.logAction({
+          kind: "dashboard_audit",
+          content: `${c.req.method} ${apiPath}`,
+          metadata: {
+            username: actor.username,
+            userId: actor.userId,
+            role: actor.role,
+            authMethod: actor.authMethod,
+            status: c.res.status
+          }
+        });
+      }
+    };
+
+    if (dashboardActor) {
+      return runAsDashboardActor(dashboardActor);
     }
     if (apiAccessKind === "public_session_token") {
       await next();
@@ -391,8 +457,7 @@ export function createDashboardServer({
           503
         );
       }
-      await next();
-      return;
+      return runAsDashboardActor(LOCAL_DASHBOARD_ACTOR);
     }
 
     return c.json({ error: "Unauthorized. Provide x-dashboard-token." }, 401);
@@ -419,7 +484,8 @@ export function createDashboardServer({
 
   attachAuthRoutes(app, {
     appConfig,
-    publicHttpsEntrypoint
+    publicHttpsEntrypoint,
+    store
   });
   attachSettingsRoutes(app, { store, bot, appConfig });
   attachOAuthRoutes(app, { store, appConfig, bot });
@@ -430,6 +496,7 @@ export function createDashboardServer({
     activitySseClients,
     writeSseEvent
   });
+  attachAutomationRoutes(app, { store, bot });
   attachVoiceRoutes(app, {
     store,
     bot,
@@ -2,6 +2,7 @@ import { test } from "bun:test";
 import assert from "node:assert/strict";
 import { withDashboardServer } from "../testHelpers.ts";
 import { normalizeSettings } from "../store/settingsNormalization.ts";
+import { runAutomationNow } from "../bot/automationEngine.ts";
 
 test("dashboard memory search handles missing params and valid lookups", async () => {
   const result = await withDashboardServer({}, async ({ baseUrl, memoryCalls }) => {
@@ -541,7 +542,7 @@ test("dashboard memory fact inspector routes list subjects and facts", async ()
   }
 });
 
-test("dashboard memory fact inspector can update and delete facts", async () => {
+test("dashboard memory fact inspector can update, roll back, and delete facts", async () => {
   let refreshCalls = 0;
 
   const result = await withDashboardServer(
@@ -593,6 +594,29 @@ test("dashboard memory fact inspector can update and delete facts", async () =>
       assert.equal(updateJson.fact?.fact_type, "project");
       assert.equal(updateJson.fact?.confidence, 0.93);
 
+      const historyResponse = await fetch(`${baseUrl}/api/memory/facts/${initialFact.id}/history?guildId=guild-1`);
+      assert.equal(historyResponse.status, 200);
+      const historyJson = await historyResponse.json();
+      assert.deepEqual(
+        historyJson.revisions.map((revision) => [revision.action, revision.actor]),
+        [["updated", "dashboard"], ["created", "system"]]
+      );
+
+      const rollbackResponse = await fetch(`${baseUrl}/api/memory/facts/${initialFact.id}/rollback`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          guildId: "guild-1",
+          revisionId: historyJson.revisions[1].id
+        })
+      });
+      assert.equal(rollbackResponse.status, 200);
+      const rollbackJson = await rollbackResponse.json();
+      assert.equal(rollbackJson.fact?.fact, "Speaker likes old school DS hardware.");
+      assert.equal(rollbackJson.fact?.fact_type, "preference");
+
       const deleteResponse = await fetch(`${baseUrl}/api/memory/facts/${initialFact.id}`, {
         method: "DELETE",
         headers: {
@@ -613,7 +637,98 @@ test("dashboard memory fact inspector can update and delete facts", async () =>
       assert.equal(afterDelete.status, 200);
       const afterDeleteJson = await afterDelete.json();
       assert.deepEqual(afterDeleteJson.facts, []);
-      assert.equal(refreshCalls, 2);
+      assert.equal(refreshCalls, 3);
+    }
+  );
+
+  if (result?.skipped) {
+    return;
+  }
+});
+
+test("dashboard memory export and import routes validate bundles and forward import options", async () => {
+  const importCalls = [];
+  const bundle = {
+    format: "clanker-memory-export",
+    version: 1,
+    exportedAt: "2026-03-01T00:00:00.000Z",
+    guildId: "guild-1",
+    userId: null,
+    facts: [
+      {
+        scope: "guild",
+        guildId: "guild-1",
+        channelId: null,
+        userId: null,
+        subject: "user-1",
+        fact: "Speaker likes old school DS hardware.",
+        factType: "preference",
+        evidenceText: null,
+        sourceMessageId: null,
+        confidence: 0.8,
+        createdAt: "2026-02-01T00:00:00.000Z",
+        updatedAt: "2026-02-01T00:00:00.000Z",
+        vectorModels: ["text-embedding-3-small"]
+      }
+    ],
+    dailyLogEntries: [],
+    reflectionEvents: []
+  };
+
+  const result = await withDashboardServer(
+    {
+      memoryOverrides: {
+        async exportMemory() {
+          return bundle;
+        },
+        async importMemory(payload) {
+          importCalls.push(payload);
+          return { ok: true, dryRun: payload.dryRun };
+        }
+      }
+    },
+    async ({ baseUrl }) => {
+      const missingScope = await fetch(`${baseUrl}/api/memory/export`);
+      assert.equal(missingScope.status, 400);
+
+      const jsonlResponse = await fetch(`${baseUrl}/api/memory/export?guildId=guild-1&format=jsonl`);
+      assert.equal(jsonlResponse.status, 200);
+      assert.match(String(jsonlResponse.headers.get("content-disposition")), /clanker-memory-guild-1-2026-03-01\.jsonl/);
+      const jsonlText = await jsonlResponse.text();
+      assert.deepEqual(
+        jsonlText.trim().split("\n").map((line) => JSON.parse(line).type),
+        ["header", "fact"]
+      );
+
+      const badImport = await fetch(`${baseUrl}/api/memory/import`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ bundle: { format: "something-else", version: 1 } })
+      });
+      assert.equal(badImport.status, 400);
+      assert.equal((await badImport.json()).error, "unsupported_format");
+
+      const importResponse = await fetch(`${baseUrl}/api/memory/import`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          bundle: jsonlText,
+          guildId: "guild-2",
+          dryRun: true,
+          conflictPolicy: "import"
+        })
+      });
+      assert.equal(importResponse.status, 200);
+      assert.equal(importCalls.length, 1);
+      assert.equal(importCalls[0].guildId, "guild-2");
+      assert.equal(importCalls[0].dryRun, true);
+      assert.equal(importCalls[0].conflictPolicy, "import");
+      assert.equal(importCalls[0].actor, "dashboard");
+      assert.deepEqual(importCalls[0].bundle.facts, bundle.facts);
     }
   );
 
@@ -972,6 +1087,152 @@ test("dashboard automations and share-session routes validate params and unavail
   }
 });
 
+test("dashboard automation routes create, edit, pause, resume, run now and delete", async () => {
+  let cycleStore = null;
+  const posted: string[] = [];
+  const createAutomationRuntime = () => ({
+    store: cycleStore,
+    llm: null,
+    memory: null,
+    client: {
+      user: { id: "bot-1" },
+      channels: {
+        cache: {
+          get: (id: string) => id !== "chan-1" ? undefined : {
+            id: "chan-1",
+            name: "general",
+            async sendTyping() {},
+            async send(payload: { content?: string }) {
+              posted.push(String(payload?.content || ""));
+              return { id: `sent-${posted.length}`, createdTimestamp: Date.now(), guildId: "guild-1", channelId: "chan-1" };
+            }
+          }
+        }
+      }
+    },
+    isChannelAllowed: () => true,
+    canSendMessage: () => true,
+    canTalkNow: () => true,
+    getSimulatedTypingDelayMs: () => 0,
+    markSpoke: () => undefined,
+    composeMessageContentForHistory: (_message: unknown, baseText = "") => baseText
+  }) as Parameters<typeof runAutomationNow>[0];
+  const result = await withDashboardServer(
+    {
+      botOverrides: {
+        getGuildChannels() {
+          return [
+            { id: "chan-1", name: "general", type: "text", category: null },
+            { id: "chan-2", name: "news", type: "text", category: null },
+            { id: "voice-1", name: "lounge", type: "voice", category: null }
+          ];
+        },
+        async runAutomationCycleFromDashboard() {},
+        async runAutomationNowFromDashboard({ automationId }) {
+          return await runAutomationNow(createAutomationRuntime(), { automationId });
+        }
+      }
+    },
+    async ({ baseUrl, store }) => {
+      cycleStore = store;
+      const send = (method, path, body) =>
+        fetch(`${baseUrl}${path}`, {
+          method,
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(body)
+        });
+
+      const voiceTarget = await send("POST", "/api/automations", {
+        guildId: "guild-1",
+        channelId: "voice-1",
+        instruction: "post a digest",
+        schedule: { kind: "interval", everyMinutes: 30 }
+      });
+      assert.equal(voiceTarget.status, 400);
+      assert.equal((await voiceTarget.json()).error, "target_channel_unavailable");
+
+      const created = await send("POST", "/api/automations", {
+        guildId: "guild-1",
+        channelId: "chan-1",
+        title: "digest",
+        instruction: "post a digest",
+        schedule: { kind: "interval", everyMinutes: 30 }
+      });
+      assert.equal(created.status, 201);
+      const automation = (await created.json()).automation;
+      assert.equal(automation.status, "active");
+      assert.equal(automation.created_by_user_id, "dashboard");
+      assert.equal(automation.schedule_label, "every 30 minutes");
+
+      const edited = await send("PATCH", `/api/automations/${automation.id}`, {
+        guildId: "guild-1",
+        channelId: "chan-2",
+        instruction: "post the weekly digest",
+        schedule: { kind: "interval", everyMinutes: 120 }
+      });
+      assert.equal(edited.status, 200);
+      const editedJson = await edited.json();
+      assert.equal(editedJson.automation.channel_id, "chan-2");
+      assert.equal(editedJson.automation.instruction, "post the weekly digest");
+      assert.equal(editedJson.automation.schedule_label, "every 2 hours");
+
+      const paused = await send("POST", `/api/automations/${automation.id}/pause`, { guildId: "guild-1" });
+      assert.equal((await paused.json()).automation.next_run_at, null);
+      const resumed = await send("POST", `/api/automations/${automation.id}/resume`, { guildId: "guild-1" });
+      const resumedJson = await resumed.json();
+      assert.equal(resumedJson.automation.status, "active");
+      assert.ok(resumedJson.automation.next_run_at);
+
+      const ran = await send("POST", `/api/automations/${automation.id}/run`, { guildId: "guild-1" });
+      assert.equal(ran.status, 200);
+      const ranJson = await ran.json();
+      assert.equal(ranJson.lastRun.status, "error");
+      assert.equal(ranJson.lastRun.error, "channel unavailable");
+      assert.equal(ranJson.automation.status, "paused");
+      assert.equal(ranJson.lastRun.trigger_kind, "manual");
+
+      const runs = await fetch(`${baseUrl}/api/automations/runs?guildId=guild-1&automationId=${automation.id}`);
+      assert.equal((await runs.json()).rows.length, 1);
+
+      const scheduled = await send("POST", "/api/automations", {
+        guildId: "guild-1",
+        channelId: "chan-1",
+        title: "standup",
+        instruction: "post the standup prompt",
+        schedule: { kind: "interval", everyMinutes: 60 }
+      });
+      const scheduledAutomation = (await scheduled.json()).automation;
+      const activeRun = await send("POST", `/api/automations/${scheduledAutomation.id}/run`, { guildId: "guild-1" });
+      const activeRunJson = await activeRun.json();
+      assert.equal(activeRunJson.lastRun.status, "ok");
+      assert.equal(activeRunJson.automation.status, "active");
+      assert.equal(activeRunJson.automation.next_run_at, scheduledAutomation.next_run_at);
+
+      await send("POST", `/api/automations/${scheduledAutomation.id}/pause`, { guildId: "guild-1" });
+      const pausedRun = await send("POST", `/api/automations/${scheduledAutomation.id}/run`, { guildId: "guild-1" });
+      assert.equal(pausedRun.status, 200);
+      const pausedRunJson = await pausedRun.json();
+      assert.equal(pausedRunJson.lastRun.status, "ok");
+      assert.equal(pausedRunJson.automation.status, "paused");
+      assert.equal(pausedRunJson.automation.next_run_at, null);
+      assert.deepEqual(posted, ["post the standup prompt", "post the standup prompt"]);
+      assert.equal(store.claimDueAutomations({ now: new Date(Date.now() + 86_400_000).toISOString() }).length, 0);
+
+      const wrongGuild = await send("DELETE", `/api/automations/${automation.id}`, { guildId: "guild-2" });
+      assert.equal(wrongGuild.status, 404);
+      const deleted = await send("DELETE", `/api/automations/${automation.id}`, { guildId: "guild-1" });
+      assert.equal(deleted.status, 200);
+      await send("DELETE", `/api/automations/${scheduledAutomation.id}`, { guildId: "guild-1" });
+      const list = await fetch(`${baseUrl}/api/automations?guildId=guild-1`);
+      assert.equal((await list.json()).rows.length, 0);
+    }
+  );
+
+  if (result?.skipped) {
+    return;
+  }
+});
+
 test("dashboard public tunnel and public API token gates are enforced", async () => {
   const result = await withDashboardServer(
     {
@@ -1108,6 +1369,164 @@ test("dashboard auth session cookie grants local browser access without resendin
   }
 });
 
+test("dashboard named users are authorized by role and audited", async () => {
+  const result = await withDashboardServer(
+    {
+      dashboardToken: "dash-token"
+    },
+    async ({ baseUrl, store }) => {
+      const ownerHeaders = { "content-type": "application/json", "x-dashboard-token": "dash-token" };
+      const createUser = async (username: string, role: string) => {
+        const response = await fetch(`${baseUrl}/api/auth/users`, {
+          method: "POST",
+          headers: ownerHeaders,
+          body: JSON.stringify({ username, role })
+        });
+        assert.equal(response.status, 201);
+        return response.json();
+      };
+      const viewer = await createUser("vera", "viewer");
+      const operator = await createUser("otto", "operator");
+      assert.equal(viewer.token.startsWith("dcu_"), true);
+
+      const duplicate = await fetch(`${baseUrl}/api/auth/users`, {
+        method: "POST",
+        headers: ownerHeaders,
+        body: JSON.stringify({ username: "vera", role: "admin" })
+      });
+      assert.equal(duplicate.status, 409);
+
+      const login = await fetch(`${baseUrl}/api/auth/session`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ token: viewer.token })
+      });
+      assert.equal(login.status, 200);
+      assert.deepEqual((await login.json()).user, { username: "vera", role: "viewer" });
+      const viewerCookie = String(login.headers.get("set-cookie") || "").split(";")[0];
+
+      const viewerRead = await fetch(`${baseUrl}/api/settings`, { headers: { cookie: viewerCookie } });
+      assert.equal(viewerRead.status, 200);
+      const viewerWrite = await fetch(`${baseUrl}/api/settings/refresh`, {
+        method: "POST",
+        headers: { cookie: viewerCookie }
+      });
+      assert.equal(viewerWrite.status, 403);
+      assert.equal((await viewerWrite.json()).requiredRole, "operator");
+
+      const operatorHeaders = { "content-type": "application/json", "x-dashboard-token": operator.token };
+      const operatorRefresh = await fetch(`${baseUrl}/api/settings/refresh`, { method: "POST", headers: operatorHeaders });
+      assert.equal(operatorRefresh.status, 200);
+      const operatorPurge = await fetch(`${baseUrl}/api/memory/guild`, {
+        method: "DELETE",
+        headers: operatorHeaders,
+        body: JSON.stringify({ guildId: "guild-1" })
+      });
+      assert.equal(operatorPurge.status, 403);
+      const operatorReset = await fetch(`${baseUrl}/api/settings/reset`, { method: "POST", headers: operatorHeaders });
+      assert.equal(operatorReset.status, 403);
+      const operatorImport = await fetch(`${baseUrl}/api/settings/import`, {
+        method: "POST",
+        headers: operatorHeaders,
+        body: JSON.stringify({ bundle: {}, dryRun: true })
+      });
+      assert.equal(operatorImport.status, 403);
+      assert.equal((await operatorImport.json()).requiredRole, "admin");
+      const operatorRollback = await fetch(`${baseUrl}/api/settings/history/1/rollback`, {
+        method: "POST",
+        headers: operatorHeaders,
+        body: JSON.stringify({})
+      });
+      assert.equal(operatorRollback.status, 403);
+      const operatorUsers = await fetch(`${baseUrl}/api/auth/users`, { headers: operatorHeaders });
+      assert.equal(operatorUsers.status, 403);
+
+      const promote = await fetch(`${baseUrl}/api/auth/users/${operator.user.id}`, {
+        method: "PATCH",
+        headers: ownerHeaders,
+        body: JSON.stringify({ role: "admin" })
+      });
+      assert.equal(promote.status, 200);
+      const adminReset = await fetch(`${baseUrl}/api/settings/reset`, { method: "POST", headers: operatorHeaders });
+      assert.equal(adminReset.status, 200);
+
+      const disable = await fetch(`${baseUrl}/api/auth/users/${viewer.user.id}`, {
+        method: "PATCH",
+        headers: ownerHeaders,
+        body: JSON.stringify({ disabled: true })
+      });
+      assert.equal((await disable.json()).user.disabled, true);
+      const disabledRead = await fetch(`${baseUrl}/api/settings`, { headers: { cookie: viewerCookie } });
+      assert.equal(disabledRead.status, 401);
+
+      const audit = store.getRecentActions(50, { kinds: ["dashboard_audit"] });
+      const resetAudit = audit.find((action) => action.content === "POST /settings/reset");
+      assert.equal(resetAudit?.metadata?.username, "otto");
+      assert.equal(resetAudit?.metadata?.role, "admin");
+      assert.equal(
+        store.getRecentActions(50).some((action) =>
+          action.content === "dashboard_access_denied" && action.metadata?.username === "vera"
+        ),
+        true
+      );
+    }
+  );
+
+  if (result?.skipped) {
+    return;
+  }
+});
+
+test("dashboard user sessions end when the user's token is rotated", async () => {
+  const result = await withDashboardServer(
+    {
+      dashboardToken: "dash-token"
+    },
+    async ({ baseUrl }) => {
+      const ownerHeaders = { "content-type": "application/json", "x-dashboard-token": "dash-token" };
+      const created = await fetch(`${baseUrl}/api/auth/users`, {
+        method: "POST",
+        headers: ownerHeaders,
+        body: JSON.stringify({ username: "rita", role: "operator" })
+      });
+      const user = await created.json();
+      const login = async (token: string) => {
+        const response = await fetch(`${baseUrl}/api/auth/session`, {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ token })
+        });
+        assert.equal(response.status, 200);
+        return String(response.headers.get("set-cookie") || "").split(";")[0];
+      };
+      const staleCookie = await login(user.token);
+      const beforeRotate = await fetch(`${baseUrl}/api/settings`, { headers: { cookie: staleCookie } });
+      assert.equal(beforeRotate.status, 200);
+
+      const rotate = await fetch(`${baseUrl}/api/auth/users/${user.user.id}`, {
+        method: "PATCH",
+        headers: ownerHeaders,
+        body: JSON.stringify({ rotateToken: true })
+      });
+      const rotated = await rotate.json();
+      assert.equal(typeof rotated.token, "string");
+
+      const afterRotate = await fetch(`${baseUrl}/api/settings`, { headers: { cookie: staleCookie } });
+      assert.equal(afterRotate.status, 401);
+      const staleSession = await fetch(`${baseUrl}/api/auth/session`, { headers: { cookie: staleCookie } });
+      assert.equal((await staleSession.json()).authenticated, false);
+
+      const freshCookie = await login(rotated.token);
+      const freshRead = await fetch(`${baseUrl}/api/settings`, { headers: { cookie: freshCookie } });
+      assert.equal(freshRead.status, 200);
+    }
+  );
+
+  if (result?.skipped) {
+    return;
+  }
+});
+
 test("dashboard auth session login is not exposed on the public tunnel host", async () => {
   const result = await withDashboardServer(
     {
@@ -1282,6 +1701,183 @@ test("dashboard settings save logs live runtime apply outcome", async () => {
   }
 });
 
+test("dashboard settings history attributes saves, diffs versions, and rolls back", async () => {
+  const result = await withDashboardServer({}, async ({ baseUrl, store }) => {
+    const save = async (botName: string, meta: Record<string, unknown> = {}) => {
+      const current = await (await fetch(`${baseUrl}/api/settings`)).json();
+      const response = await fetch(`${baseUrl}/api/settings`, {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          ...current.intent,
+          identity: { ...current.intent?.identity, botName },
+          _meta: { ...meta, expectedUpdatedAt: current._meta?.updatedAt }
+        })
+      });
+      assert.equal(response.status, 200);
+    };
+
+    await save("history one");
+    await save("history two", { source: "preset_apply", preset: "openai_native_realtime" });
+
+    const historyResponse = await fetch(`${baseUrl}/api/settings/history`);
+    assert.equal(historyResponse.status, 200);
+    const history = await historyResponse.json();
+    assert.deepEqual(history.versions.map((version) => version.actor), ["preset", "dashboard", "system"]);
+    assert.equal(history.versions[0].source, "preset_apply:openai_native_realtime");
+    assert.equal(history.versions[1].actorLabel, "local");
+
+    const firstSaveId = history.versions[1].id;
+    const diffResponse = await fetch(`${baseUrl}/api/settings/history/${firstSaveId}?against=current`);
+    assert.equal(diffResponse.status, 200);
+    const diff = await diffResponse.json();
+    assert.deepEqual(diff.diff, [{ path: "identity.botName", before: "history one", after: "history two" }]);
+
+    const staleRollback = await fetch(`${baseUrl}/api/settings/history/${firstSaveId}/rollback`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ expectedUpdatedAt: "stale" })
+    });
+    assert.equal(staleRollback.status, 409);
+
+    const rollbackResponse = await fetch(`${baseUrl}/api/settings/history/${firstSaveId}/rollback`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ expectedUpdatedAt: store.getSettingsRecord().updatedAt })
+    });
+    assert.equal(rollbackResponse.status, 200);
+    assert.equal(store.getSettings().identity.botName, "history one");
+    const [latest] = store.listSettingsVersions({ limit: 1 });
+    assert.equal(latest?.actor, "rollback");
+    assert.equal(latest?.rollbackVersionId, firstSaveId);
+
+    const missing = await fetch(`${baseUrl}/api/settings/history/999999`);
+    assert.equal(missing.status, 404);
+  });
+
+  if (result?.skipped) {
+    return;
+  }
+});
+
+test("dashboard settings export and import preview the diff before applying", async () => {
+  const result = await withDashboardServer({}, async ({ baseUrl, store }) => {
+    store.patchSettings({ identity: { botName: "exported bot" } });
+    const exportResponse = await fetch(`${baseUrl}/api/settings/export?includeDiscoverySources=1`);
+    assert.equal(exportResponse.status, 200);
+    assert.match(String(exportResponse.headers.get("content-disposition")), /clanker-settings-/);
+    const bundle = await exportResponse.json();
+    assert.equal(bundle.format, "clanker-settings-export");
+    assert.equal(bundle.settings.identity.botName, "exported bot");
+    assert.ok(Array.isArray(bundle.discoverySources.rssFeeds));
+
+    store.patchSettings({ identity: { botName: "drifted bot" } });
+    const previewResponse = await fetch(`${baseUrl}/api/settings/import`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ bundle, dryRun: true })
+    });
+    assert.equal(previewResponse.status, 200);
+    const preview = await previewResponse.json();
+    assert.deepEqual(preview.diff, [{ path: "identity.botName", before: "drifted bot", after: "exported bot" }]);
+    assert.equal(store.getSettings().identity.botName, "drifted bot");
+
+    const staleImport = await fetch(`${baseUrl}/api/settings/import`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ bundle, expectedUpdatedAt: "stale" })
+    });
+    assert.equal(staleImport.status, 409);
+
+    const importResponse = await fetch(`${baseUrl}/api/settings/import`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ bundle, expectedUpdatedAt: preview.updatedAt })
+    });
+    assert.equal(importResponse.status, 200);
+    assert.equal(store.getSettings().identity.botName, "exported bot");
+    const [latest] = store.listSettingsVersions({ limit: 1 });
+    assert.equal(latest?.source, "settings_import");
+
+    const invalid = await fetch(`${baseUrl}/api/settings/import`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ bundle: { format: "something-else", version: 1 }, dryRun: true })
+    });
+    assert.equal(invalid.status, 400);
+    assert.equal((await invalid.json()).error, "unsupported_format");
+  });
+
+  if (result?.skipped) {
+    return;
+  }
+});
+
+test("dashboard settings overlays save per-guild values and report inherited settings", async () => {
+  const result = await withDashboardServer({}, async ({ baseUrl, store }) => {
+    store.setSettings({ persona: { flavor: "global flavor" } });
+
+    const saveResponse = await fetch(`${baseUrl}/api/settings/overlays`, {
+      method: "PUT",
+      headers: {
+        "content-type": "application/json"
+      },
+      body: JSON.stringify({
+        guildId: "guild-1",
+        patch: {
+          persona: { flavor: "guild flavor" },
+          agentStack: { preset: "openai_api" }
+        }
+      })
+    });
+    assert.equal(saveResponse.status, 200);
+    const saved = await saveResponse.json();
+    assert.deepEqual(saved.overlay?.patch, { persona: { flavor: "guild flavor" } });
+    assert.equal(saved.inherited?.persona?.flavor, "global flavor");
+    assert.equal(saved.effective?.persona?.flavor, "guild flavor");
+
+    const channelResponse = await fetch(`${baseUrl}/api/settings/scope?guildId=guild-1&channelId=channel-1`);
+    assert.equal(channelResponse.status, 200);
+    const channelScope = await channelResponse.json();
+    assert.equal(channelScope.overlay, null);
+    assert.equal(channelScope.inherited?.persona?.flavor, "guild flavor");
+
+    const listResponse = await fetch(`${baseUrl}/api/settings/overlays`);
+    const listed = await listResponse.json();
+    assert.deepEqual(listed.overlays.map((overlay) => overlay.guildId), ["guild-1"]);
+
+    const deleteResponse = await fetch(`${baseUrl}/api/settings/overlays?guildId=guild-1`, {
+      method: "DELETE"
+    });
+    const deleted = await deleteResponse.json();
+    assert.equal(deleted.deleted, true);
+    assert.equal(deleted.effective?.persona?.flavor, "global flavor");
+    assert.equal(store.getSettings().persona.flavor, "global flavor");
+
+    const history = await (await fetch(`${baseUrl}/api/settings/history`)).json();
+    const [clearedVersion, savedVersion] = history.versions;
+    assert.deepEqual(clearedVersion.scope, { guildId: "guild-1", channelId: null });
+    assert.equal(clearedVersion.actorLabel, "local");
+    const diff = await (await fetch(`${baseUrl}/api/settings/history/${clearedVersion.id}`)).json();
+    assert.deepEqual(diff.diff, [{ path: "persona", before: { flavor: "guild flavor" }, after: null }]);
+
+    const rollbackResponse = await fetch(`${baseUrl}/api/settings/history/${savedVersion.id}/rollback`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({})
+    });
+    assert.equal(rollbackResponse.status, 200);
+    const rolledBack = await rollbackResponse.json();
+    assert.equal(rolledBack.effective?.persona?.flavor, "guild flavor");
+    assert.deepEqual(store.getSettingsOverlay({ guildId: "guild-1" })?.patch, { persona: { flavor: "guild flavor" } });
+    assert.equal(store.getSettings().persona.flavor, "global flavor");
+  });
+
+  if (result?.skipped) {
+    return;
+  }
+});
+
 test("dashboard preset defaults preview settings without mutating saved state", async () => {
   const result = await withDashboardServer({}, async ({ baseUrl, store, bot }) => {
     const before = store.getSettings();
@@ -1,42 +1,162 @@
+import { createHash, randomBytes } from "node:crypto";
 import { deleteCookie, getSignedCookie, setSignedCookie } from "hono/cookie";
+import type { Context } from "hono";
 import type { DashboardAppConfig, DashboardPublicHttpsEntrypoint } from "../dashboard.ts";
+import type { Store } from "../store/store.ts";
+import {
+  DASHBOARD_USER_ROLES,
+  normalizeDashboardUserRole,
+  normalizeDashboardUsername,
+  type DashboardUser,
+  type DashboardUserRole
+} from "../store/storeDashboardUsers.ts";
 import { isPublicTunnelRequestHost } from "../services/publicIngressAccess.ts";
-import type { DashboardApp } from "./shared.ts";
+import type { DashboardApp, DashboardEnv } from "./shared.ts";
 import { getRequestHost, readDashboardBody } from "./shared.ts";
 
 const DASHBOARD_SESSION_COOKIE_NAME = "dashboard_session";
 const DASHBOARD_SESSION_MAX_AGE_SECONDS = 60 * 60 * 12;
+const DASHBOARD_USER_SESSION_PREFIX = "user:";
+const DASHBOARD_USER_TOKEN_PREFIX = "dcu_";
 type DashboardCookieContext = Parameters<typeof getSignedCookie>[0];
+type DashboardAuthMethod = "none" | "open_local" | "header" | "session";
+
+/**
+ * Who is behind an authenticated dashboard request. The shared dashboard
+ * token acts as the built-in `owner` admin; named users carry their own role.
+ */
+export interface DashboardActor {
+  userId: number | null;
+  username: string;
+  role: DashboardUserRole;
+  authMethod: Exclude<DashboardAuthMethod, "none">;
+}
 
 interface DashboardAuthState {
   authenticated: boolean;
   requiresToken: boolean;
   publicHttpsEnabled: boolean;
-  authMethod: "none" | "open_local" | "header" | "session";
+  authMethod: DashboardAuthMethod;
   configurationError: string | null;
+  user: Pick<DashboardActor, "username" | "role"> | null;
 }
 
 interface AuthRouteDeps {
   appConfig: DashboardAppConfig;
   publicHttpsEntrypoint: DashboardPublicHttpsEntrypoint | null;
+  store: Store;
 }
 
+export const LOCAL_DASHBOARD_ACTOR: DashboardActor = {
+  userId: null,
+  username: "local",
+  role: "admin",
+  authMethod: "open_local"
+};
+
+// Routes that can wipe data, replace whole settings, or change provider
+// credentials need an admin; everything else that mutates needs at least an
+// operator.
+const ADMIN_ROUTE_RULES: Array<{ methods: string[] | null; path: RegExp }> = [
+  { methods: ["DELETE"], path: /^\/memory\/guild\/?$/ },
+  { methods: ["POST"], path: /^\/settings\/reset\/?$/ },
+  { methods: ["POST"], path: /^\/settings\/import\/?$/ },
+  { methods: ["POST"], path: /^\/settings\/history\/[^/]+\/rollback\/?$/ },
+  { methods: ["POST", "PUT", "PATCH", "DELETE"], path: /^\/oauth\// },
+  { methods: null, path: /^\/auth\/users(?:\/|$)/ }
+];
+// Read-only previews that happen to use POST bodies.
+const VIEWER_POST_PATHS = new Set(["/settings/preset-defaults", "/memory/runtime-snapshot"]);
+const DASHBOARD_ROLE_RANK: Record<DashboardUserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2
+};
+
 export function isDashboardAuthSessionApiPath(apiPath: string) {
   return String(apiPath || "").trim() === "/auth/session";
 }
 
-export async function hasValidDashboardSessionCookie(
+export function hashDashboardUserToken(token: string) {
+  return createHash("sha256").update(String(token || "").trim()).digest("hex");
+}
+
+/**
+ * Resolves the owner or named user behind a request from the
+ * `x-dashboard-token` header or the signed session cookie. Returns null when
+ * no dashboard token is configured; open local access is handled by the
+ * caller so public-tunnel checks still run first.
+ */
+export async function resolveDashboardActor(
   c: DashboardCookieContext,
-  dashboardToken: string
-) {
+  { dashboardToken, store }: { dashboardToken: string; store: Store }
+): Promise<DashboardActor | null> {
   const normalizedToken = String(dashboardToken || "").trim();
-  if (!normalizedToken) return false;
+  if (!normalizedToken) return null;
+
+  const presentedDashboardToken = String(c.req.header("x-dashboard-token") || "").trim();
+  if (presentedDashboardToken) {
+    if (presentedDashboardToken === normalizedToken) return buildOwnerActor("header");
+    const headerUser = presentedDashboardToken.startsWith(DASHBOARD_USER_TOKEN_PREFIX)
+      ? store.findDashboardUserByTokenHash(hashDashboardUserToken(presentedDashboardToken))
+      : null;
+    if (headerUser) return buildUserActor(store, headerUser, "header");
+  }
+
   const cookieValue = await getSignedCookie(c, normalizedToken, DASHBOARD_SESSION_COOKIE_NAME);
-  return typeof cookieValue === "string" && cookieValue.length > 0;
+  if (typeof cookieValue !== "string" || !cookieValue) return null;
+  if (!cookieValue.startsWith(DASHBOARD_USER_SESSION_PREFIX)) return buildOwnerActor("session");
+  // Users are re-read on every request so role changes and disables apply
+  // to existing sessions immediately; the token fingerprint ends sessions
+  // opened with a token that has since been rotated.
+  const [rawUserId, sessionFingerprint] = cookieValue.slice(DASHBOARD_USER_SESSION_PREFIX.length).split(":");
+  const userId = Number(rawUserId);
+  const tokenHash = store.getDashboardUserTokenHash(userId);
+  if (!tokenHash || sessionFingerprint !== buildDashboardSessionFingerprint(tokenHash)) return null;
+  const user = store.getDashboardUserById(userId);
+  return user && !user.disabled ? buildUserActor(store, user, "session") : null;
+}
+
+export function getDashboardActor(c: Context<DashboardEnv>): DashboardActor | null {
+  return c.get("dashboardActor") || null;
+}
+
+export function requiredDashboardRole(method: string, apiPath: string): DashboardUserRole {
+  const normalizedMethod = String(method || "GET").trim().toUpperCase();
+  const path = String(apiPath || "");
+  const adminRule = ADMIN_ROUTE_RULES.find((rule) =>
+    rule.path.test(path) && (!rule.methods || rule.methods.includes(normalizedMethod))
+  );
+  if (adminRule) return "admin";
+  if (normalizedMethod === "GET" || normalizedMethod === "HEAD" || normalizedMethod === "OPTIONS") return "viewer";
+  if (normalizedMethod === "POST" && VIEWER_POST_PATHS.has(path.replace(/\/$/, ""))) return "viewer";
+  return "operator";
+}
+
+export function hasDashboardRole(role: DashboardUserRole, requiredRole: DashboardUserRole) {
+  return DASHBOARD_ROLE_RANK[role] >= DASHBOARD_ROLE_RANK[requiredRole];
+}
+
+function buildOwnerActor(authMethod: DashboardActor["authMethod"]): DashboardActor {
+  return { userId: null, username: "owner", role: "admin", authMethod };
+}
+
+function buildUserActor(store: Store, user: DashboardUser, authMethod: DashboardActor["authMethod"]): DashboardActor {
+  store.touchDashboardUser(user.id);
+  return { userId: user.id, username: user.username, role: user.role, authMethod };
+}
+
+/** Short digest of a user's token hash, so the signed cookie never carries the hash itself. */
+function buildDashboardSessionFingerprint(tokenHash: string) {
+  return createHash("sha256").update(`dashboard_session:${tokenHash}`).digest("hex").slice(0, 32);
+}
+
+function generateDashboardUserToken() {
+  return `${DASHBOARD_USER_TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
 }
 
 export function attachAuthRoutes(app: DashboardApp, deps: AuthRouteDeps) {
-  const { appConfig, publicHttpsEntrypoint } = deps;
+  const { appConfig, publicHttpsEntrypoint, store } = deps;
 
   app.get("/api/auth/session", async (c) => {
     c.header("Cache-Control", "no-store");
@@ -68,11 +188,25 @@ export function attachAuthRoutes(app: DashboardApp, deps: AuthRouteDeps) {
 
     const body = await readDashboardBody(c);
     const presentedToken = String(body.token || "").trim();
-    if (!presentedToken || presentedToken !== dashboardToken) {
+    const user = presentedToken && presentedToken !== dashboardToken && presentedToken.startsWith(DASHBOARD_USER_TOKEN_PREFIX)
+      ? store.findDashboardUserByTokenHash(hashDashboardUserToken(presentedToken))
+      : null;
+    if (!presentedToken || (presentedToken !== dashboardToken && !user)) {
+      store.logAction({ kind: "dashboard", content: "dashboard_login_failed" });
       return c.json({ error: "Unauthorized. Provide a valid dashboard token." }, 401);
     }
 
-    await setSignedCookie(c, DASHBOARD_SESSION_COOKIE_NAME, crypto.randomUUID(), dashboardToken, {
+    const actor = user ? buildUserActor(store, user, "session") : buildOwnerActor("session");
+    const sessionFingerprint = user ? buildDashboardSessionFingerprint(hashDashboardUserToken(presentedToken)) : "";
+    const sessionValue = user
+      ? `${DASHBOARD_USER_SESSION_PREFIX}${user.id}:${sessionFingerprint}:${crypto.randomUUID()}`
+      : crypto.randomUUID();
+    store.logAction({
+      kind: "dashboard",
+      content: "dashboard_login",
+      metadata: { username: actor.username, role: actor.role, userId: actor.userId }
+    });
+    await setSignedCookie(c, DASHBOARD_SESSION_COOKIE_NAME, sessionValue, dashboardToken, {
       httpOnly: true,
       maxAge: DASHBOARD_SESSION_MAX_AGE_SECONDS,
       path: "/",
@@ -85,7 +219,8 @@ export function attachAuthRoutes(app: DashboardApp, deps: AuthRouteDeps) {
       requiresToken: true,
       publicHttpsEnabled,
       authMethod: "session",
-      configurationError: null
+      configurationError: null,
+      user: { username: actor.username, role: actor.role }
     } satisfies DashboardAuthState);
   });
 
@@ -107,7 +242,8 @@ export function attachAuthRoutes(app: DashboardApp, deps: AuthRouteDeps) {
         requiresToken: publicHttpsEnabled,
         publicHttpsEnabled,
         authMethod: publicHttpsEnabled ? "none" : "open_local",
-        configurationError: publicHttpsEnabled ? "dashboard_token_required_when_public_https_enabled" : null
+        configurationError: publicHttpsEnabled ? "dashboard_token_required_when_public_https_enabled" : null,
+        user: publicHttpsEnabled ? null : { username: LOCAL_DASHBOARD_ACTOR.username, role: LOCAL_DASHBOARD_ACTOR.role }
       } satisfies DashboardAuthState);
     }
 
@@ -116,14 +252,97 @@ export function attachAuthRoutes(app: DashboardApp, deps: AuthRouteDeps) {
       requiresToken: true,
       publicHttpsEnabled,
       authMethod: "none",
-      configurationError: null
+      configurationError: null,
+      user: null
     } satisfies DashboardAuthState);
   });
+
+  app.get("/api/auth/users", (c) => {
+    c.header("Cache-Control", "no-store");
+    return c.json({ roles: DASHBOARD_USER_ROLES, users: store.listDashboardUsers() });
+  });
+
+  app.post("/api/auth/users", async (c) => {
+    c.header("Cache-Control", "no-store");
+    // Session cookies are signed with the dashboard token, so named users
+    // cannot log in without one.
+    if (!String(appConfig.dashboardToken || "").trim()) {
+      return c.json({ ok: false, error: "dashboard_token_required" }, 409);
+    }
+    const body = await readDashboardBody(c);
+    const username = normalizeDashboardUsername(body.username);
+    if (!username || username === "owner" || username === "local") {
+      return c.json({ ok: false, error: "invalid_username" }, 400);
+    }
+    const role = normalizeDashboardUserRole(body.role);
+    if (!role) {
+      return c.json({ ok: false, error: "invalid_role" }, 400);
+    }
+
+    const token = generateDashboardUserToken();
+    const user = store.createDashboardUser({ username, role, tokenHash: hashDashboardUserToken(token) });
+    if (!user) {
+      return c.json({ ok: false, error: "username_taken" }, 409);
+    }
+    logDashboardUserChange(c, store, "dashboard_user_created", user, { role });
+    return c.json({ ok: true, user, token }, 201);
+  });
+
+  app.patch("/api/auth/users/:userId", async (c) => {
+    c.header("Cache-Control", "no-store");
+    const current = store.getDashboardUserById(Number(c.req.param("userId")));
+    if (!current) {
+      return c.json({ ok: false, error: "dashboard_user_not_found" }, 404);
+    }
+    const body = await readDashboardBody(c);
+    const role = body.role === undefined ? undefined : normalizeDashboardUserRole(body.role);
+    if (role === null) {
+      return c.json({ ok: false, error: "invalid_role" }, 400);
+    }
+    const disabled = typeof body.disabled === "boolean" ? body.disabled : undefined;
+    const token = body.rotateToken === true ? generateDashboardUserToken() : null;
+
+    const user = store.updateDashboardUser({
+      userId: current.id,
+      role,
+      disabled,
+      tokenHash: token ? hashDashboardUserToken(token) : undefined
+    });
+    if (!user) {
+      return c.json({ ok: false, error: "dashboard_user_not_found" }, 404);
+    }
+    logDashboardUserChange(c, store, "dashboard_user_updated", user, {
+      ...(role && role !== current.role ? { previousRole: current.role, role } : {}),
+      ...(disabled !== undefined && disabled !== current.disabled ? { disabled } : {}),
+      ...(token ? { tokenRotated: true } : {})
+    });
+    return c.json({ ok: true, user, ...(token ? { token } : {}) });
+  });
+}
+
+function logDashboardUserChange(
+  c: Context<DashboardEnv>,
+  store: Store,
+  content: string,
+  user: DashboardUser,
+  changes: Record<string, unknown>
+) {
+  const actor = getDashboardActor(c);
+  store.logAction({
+    kind: "dashboard",
+    content,
+    metadata: {
+      targetUserId: user.id,
+      targetUsername: user.username,
+      changes,
+      actor: actor?.username || null
+    }
+  });
 }
 
 async function buildDashboardAuthState(
   c: DashboardCookieContext,
-  { appConfig, publicHttpsEntrypoint }: AuthRouteDeps
+  { appConfig, publicHttpsEntrypoint, store }: AuthRouteDeps
 ): Promise<DashboardAuthState> {
   const dashboardToken = String(appConfig.dashboardToken || "").trim();
   const publicHttpsEnabled = Boolean(publicHttpsEntrypoint?.getState?.()?.enabled);
@@ -135,7 +354,8 @@ async function buildDashboardAuthState(
         requiresToken: true,
         publicHttpsEnabled,
         authMethod: "none",
-        configurationError: "dashboard_token_required_when_public_https_enabled"
+        configurationError: "dashboard_token_required_when_public_https_enabled",
+        user: null
       };
     }
 
@@ -144,28 +364,19 @@ async function buildDashboardAuthState(
       requiresToken: false,
       publicHttpsEnabled,
       authMethod: "open_local",
-      configurationError: null
-    };
-  }
-
-  const presentedDashboardToken = String(c.req.header("x-dashboard-token") || "").trim();
-  if (presentedDashboardToken && presentedDashboardToken === dashboardToken) {
-    return {
-      authenticated: true,
-      requiresToken: true,
-      publicHttpsEnabled,
-      authMethod: "header",
-      configurationError: null
+      configurationError: null,
+      user: { username: LOCAL_DASHBOARD_ACTOR.username, role: LOCAL_DASHBOARD_ACTOR.role }
     };
   }
 
-  const hasSessionCookie = await hasValidDashboardSessionCookie(c, dashboardToken);
+  const actor = await resolveDashboardActor(c, { dashboardToken, store });
   return {
-    authenticated: hasSessionCookie,
+    authenticated: Boolean(actor),
     requiresToken: true,
     publicHttpsEnabled,
-    authMethod: hasSessionCookie ? "session" : "none",
-    configurationError: null
+    authMethod: actor?.authMethod || "none",
+    configurationError: null,
+    user: actor ? { username: actor.username, role: actor.role } : null
   };
 }
 
@@ -0,0 +1,340 @@
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import type { DashboardBot } from "../dashboard.ts";
+import type { DashboardApp } from "./shared.ts";
+import type { Store } from "../store/store.ts";
+import {
+  formatAutomationSchedule,
+  isEventAutomationSchedule,
+  normalizeAutomationInstruction,
+  normalizeAutomationSchedule,
+  resolveInitialNextRunAt
+} from "../bot/automation.ts";
+import { MAX_AUTOMATIONS_PER_GUILD, queueAutomationCycle } from "../bot/automationControl.ts";
+import { isChannelAllowed } from "../bot/permissions.ts";
+import { getAutomationsSettings } from "../settings/agentStack.ts";
+import { parseBoundedInt, readDashboardBody } from "./shared.ts";
+
+const DASHBOARD_AUTOMATION_ACTOR = "dashboard";
+
+interface AutomationRouteDeps {
+  store: Store;
+  bot: DashboardBot;
+}
+
+type AutomationRecord = NonNullable<ReturnType<Store["getAutomationById"]>>;
+
+function withScheduleLabel(row: AutomationRecord) {
+  return {
+    ...row,
+    schedule_label: formatAutomationSchedule(row.schedule)
+  };
+}
+
+function listGuildTextChannelIds(bot: DashboardBot, guildId: string) {
+  const channels = bot.getGuildChannels(guildId);
+  if (!Array.isArray(channels)) return new Set<string>();
+  return new Set(
+    channels
+      .filter((channel) => channel && typeof channel === "object" && channel.type === "text")
+      .map((channel) => String(channel.id || ""))
+      .filter(Boolean)
+  );
+}
+
+export function attachAutomationRoutes(app: DashboardApp, deps: AutomationRouteDeps) {
+  const { store, bot } = deps;
+
+  const fail = (c: Context, error: string, status: ContentfulStatusCode, extra: Record<string, unknown> = {}) =>
+    c.json({ ok: false, error, ...extra }, status);
+
+  const queueCycle = (guildId: string, channelId: string, trigger: string, automationId: number) => {
+    if (typeof bot?.runAutomationCycleFromDashboard !== "function") return;
+    queueAutomationCycle(
+      {
+        store,
+        maybeRunAutomationCycle: () => bot.runAutomationCycleFromDashboard()
+      },
+      {
+        guildId,
+        channelId,
+        trigger,
+        automationId
+      }
+    );
+  };
+
+  const resolveTargetChannelError = (guildId: string, channelId: string) => {
+    if (!channelId) return "channel_required";
+    if (!isChannelAllowed(store.getScopedSettings({ guildId, channelId }), channelId)) {
+      return "target_channel_blocked";
+    }
+    if (!listGuildTextChannelIds(bot, guildId).has(channelId)) return "target_channel_unavailable";
+    return null;
+  };
+
+  const logAutomationChange = (
+    kind: "automation_created" | "automation_updated",
+    row: AutomationRecord,
+    content: string,
+    metadata: Record<string, unknown>
+  ) => {
+    store.logAction({
+      kind,
+      guildId: row.guild_id,
+      channelId: row.channel_id,
+      content: content.slice(0, 400),
+      metadata: {
+        automationId: row.id,
+        source: DASHBOARD_AUTOMATION_ACTOR,
+        ...metadata
+      }
+    });
+  };
+
+  const loadTarget = async (c: Context) => {
+    const automationId = Number(c.req.param("automationId"));
+    const body = await readDashboardBody(c);
+    const guildId = String(body.guildId || c.req.query("guildId") || "").trim();
+    if (!guildId) return { error: fail(c, "guildId required", 400) };
+    if (!Number.isInteger(automationId) || automationId <= 0) {
+      return { error: fail(c, "valid automationId required", 400) };
+    }
+    const row = store.getAutomationById(automationId, guildId);
+    if (!row || row.status === "deleted") return { error: fail(c, "not_found", 404) };
+    return { body, guildId, row };
+  };
+
+  app.get("/api/automations", (c) => {
+    const guildId = String(c.req.query("guildId") || "").trim();
+    const channelId = String(c.req.query("channelId") || "").trim() || null;
+    const statusParam = String(c.req.query("status") || "active,paused").trim();
+    const query = String(c.req.query("q") || "").trim();
+    const limit = parseBoundedInt(c.req.query("limit"), 30, 1, 120);
+
+    if (!guildId) {
+      return c.json({ error: "guildId is required" }, 400);
+    }
+
+    const statuses = statusParam
+      .split(",")
+      .map((item) => item.trim().toLowerCase())
+      .filter(Boolean);
+    const rows = store.listAutomations({
+      guildId,
+      channelId,
+      statuses,
+      query,
+      limit
+    });
+
+    return c.json({
+      guildId,
+      channelId,
+      statuses,
+      query,
+      limit,
+      enabled: getAutomationsSettings(store.getSettings()).enabled,
+      rows: rows.map(withScheduleLabel)
+    });
+  });
+
+  app.get("/api/automations/runs", (c) => {
+    const guildId = String(c.req.query("guildId") || "").trim();
+    const automationId = Number(c.req.query("automationId"));
+    const limit = parseBoundedInt(c.req.query("limit"), 30, 1, 120);
+
+    if (!guildId || !Number.isInteger(automationId) || automationId <= 0) {
+      return c.json({ error: "guildId and automationId are required" }, 400);
+    }
+
+    const rows = store.getAutomationRuns({
+      guildId,
+      automationId,
+      limit
+    });
+
+    return c.json({
+      guildId,
+      automationId,
+      limit,
+      rows
+    });
+  });
+
+  app.post("/api/automations", async (c) => {
+    const body = await readDashboardBody(c);
+    const guildId = String(body.guildId || "").trim();
+    const channelId = String(body.channelId || "").trim();
+    const nowMs = Date.now();
+    const instruction = normalizeAutomationInstruction(body.instruction);
+    const schedule = normalizeAutomationSchedule(body.schedule, { nowMs });
+
+    if (!guildId) return fail(c, "guildId required", 400);
+    if (!instruction || !schedule) return fail(c, "missing_schedule_or_instruction", 400);
+
+    const currentCount = store.countAutomations({ guildId, statuses: ["active", "paused"] });
+    if (currentCount >= MAX_AUTOMATIONS_PER_GUILD) {
+      return fail(c, "automation_cap_reached", 409, { currentCount });
+    }
+
+    const channelError = resolveTargetChannelError(guildId, channelId);
+    if (channelError) return fail(c, channelError, 400);
+
+    const runImmediately = Boolean(body.runImmediately);
+    const nextRunAt = resolveInitialNextRunAt({ schedule, nowMs, runImmediately });
+    if (!nextRunAt && !isEventAutomationSchedule(schedule)) return fail(c, "schedule_invalid", 400);
+
+    const created = store.createAutomation({
+      guildId,
+      channelId,
+      createdByUserId: DASHBOARD_AUTOMATION_ACTOR,
+      createdByName: DASHBOARD_AUTOMATION_ACTOR,
+      title: String(body.title || "").trim() || instruction.slice(0, 80),
+      instruction,
+      schedule,
+      nextRunAt
+    });
+    if (!created) return fail(c, "create_failed", 500);
+
+    logAutomationChange("automation_created", created, `${created.title}: ${created.instruction}`, {
+      schedule: created.schedule,
+      nextRunAt: created.next_run_at
+    });
+    if (runImmediately) queueCycle(guildId, created.channel_id, "create", created.id);
+
+    return c.json({ ok: true, automation: withScheduleLabel(created) }, 201);
+  });
+
+  app.patch("/api/automations/:automationId", async (c) => {
+    const target = await loadTarget(c);
+    if (target.error) return target.error;
+    const { body, guildId, row } = target;
+    if (row.is_running) return fail(c, "automation_running", 409);
+
+    const update: Parameters<Store["updateAutomation"]>[0] = {
+      automationId: row.id,
+      guildId
+    };
+    if (body.title !== undefined) update.title = String(body.title || "");
+    if (body.instruction !== undefined) {
+      update.instruction = normalizeAutomationInstruction(body.instruction);
+      if (!update.instruction) return fail(c, "instruction_required", 400);
+    }
+    if (body.channelId !== undefined) {
+      const channelId = String(body.channelId || "").trim();
+      const channelError = resolveTargetChannelError(guildId, channelId);
+      if (channelError) return fail(c, channelError, 400);
+      update.channelId = channelId;
+    }
+    if (body.schedule !== undefined) {
+      const schedule = normalizeAutomationSchedule(body.schedule, { nowMs: Date.now() });
+      if (!schedule) return fail(c, "schedule_invalid", 400);
+      update.schedule = schedule;
+      if (row.status === "active") {
+        const nextRunAt = resolveInitialNextRunAt({ schedule, nowMs: Date.now() });
+        if (!nextRunAt && !isEventAutomationSchedule(schedule)) return fail(c, "schedule_invalid", 400);
+        update.nextRunAt = nextRunAt;
+      }
+    }
+
+    const updated = store.updateAutomation(update);
+    if (!updated) return fail(c, "update_failed", 500);
+    logAutomationChange("automation_updated", updated, `edit: #${updated.id}`, {
+      operation: "edit",
+      updatedIds: [updated.id],
+      nextRunAt: updated.next_run_at
+    });
+    return c.json({ ok: true, automation: withScheduleLabel(updated) });
+  });
+
+  app.post("/api/automations/:automationId/pause", async (c) => {
+    const target = await loadTarget(c);
+    if (target.error) return target.error;
+    const { guildId, row } = target;
+    if (row.status !== "active") return fail(c, "automation_not_active", 409);
+
+    const paused = store.setAutomationStatus({
+      automationId: row.id,
+      guildId,
+      status: "paused",
+      nextRunAt: null
+    });
+    if (!paused) return fail(c, "status_update_failed", 500);
+    logAutomationChange("automation_updated", paused, `pause: #${paused.id}`, {
+      operation: "pause",
+      updatedIds: [paused.id]
+    });
+    return c.json({ ok: true, automation: withScheduleLabel(paused) });
+  });
+
+  app.post("/api/automations/:automationId/resume", async (c) => {
+    const target = await loadTarget(c);
+    if (target.error) return target.error;
+    const { guildId, row } = target;
+    if (row.status !== "paused") return fail(c, "automation_not_paused", 409);
+
+    const nextRunAt = resolveInitialNextRunAt({ schedule: row.schedule, nowMs: Date.now() });
+    if (!nextRunAt && !isEventAutomationSchedule(row.schedule)) return fail(c, "schedule_invalid", 409);
+    const resumed = store.setAutomationStatus({
+      automationId: row.id,
+      guildId,
+      status: "active",
+      nextRunAt
+    });
+    if (!resumed) return fail(c, "status_update_failed", 500);
+    logAutomationChange("automation_updated", resumed, `resume: #${resumed.id}`, {
+      operation: "resume",
+      updatedIds: [resumed.id]
+    });
+    queueCycle(guildId, resumed.channel_id, "resume", resumed.id);
+    return c.json({ ok: true, automation: withScheduleLabel(resumed) });
+  });
+
+  // Run now runs the single job outside the scheduler cycle, leaving its
+  // status and next scheduled run untouched.
+  app.post("/api/automations/:automationId/run", async (c) => {
+    const target = await loadTarget(c);
+    if (target.error) return target.error;
+    const { guildId, row } = target;
+    if (typeof bot?.runAutomationNowFromDashboard !== "function") {
+      return fail(c, "automation_runner_unavailable", 503);
+    }
+    if (!getAutomationsSettings(store.getSettings()).enabled) return fail(c, "automations_disabled", 409);
+    if (row.is_running) return fail(c, "automation_running", 409);
+
+    const claimed = await bot.runAutomationNowFromDashboard({ automationId: row.id });
+    if (!claimed) return fail(c, "automation_running", 409);
+    logAutomationChange("automation_updated", row, `run_now: #${row.id}`, {
+      operation: "run_now",
+      updatedIds: [row.id]
+    });
+
+    const automation = store.getAutomationById(row.id, guildId);
+    const [lastRun = null] = store.getAutomationRuns({ automationId: row.id, guildId, limit: 1 });
+    return c.json({
+      ok: true,
+      automation: automation ? withScheduleLabel(automation) : null,
+      lastRun
+    });
+  });
+
+  app.delete("/api/automations/:automationId", async (c) => {
+    const target = await loadTarget(c);
+    if (target.error) return target.error;
+    const { guildId, row } = target;
+
+    const deleted = store.setAutomationStatus({
+      automationId: row.id,
+      guildId,
+      status: "deleted",
+      nextRunAt: null
+    });
+    if (!deleted) return fail(c, "status_update_failed", 500);
+    logAutomationChange("automation_updated", deleted, `delete: #${deleted.id}`, {
+      operation: "delete",
+      updatedIds: [deleted.id]
+    });
+    return c.json({ ok: true, deleted: deleted.id });
+  });
+}
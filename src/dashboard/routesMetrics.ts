@@ -114,60 +114,4 @@ export function attachMetricsRoutes(app: DashboardApp, deps: MetricsRouteDeps) {
       });
     });
   });
-
-  app.get("/api/automations", (c) => {
-    const guildId = String(c.req.query("guildId") || "").trim();
-    const channelId = String(c.req.query("channelId") || "").trim() || null;
-    const statusParam = String(c.req.query("status") || "active,paused").trim();
-    const query = String(c.req.query("q") || "").trim();
-    const limit = parseBoundedInt(c.req.query("limit"), 30, 1, 120);
-
-    if (!guildId) {
-      return c.json({ error: "guildId is required" }, 400);
-    }
-
-    const statuses = statusParam
-      .split(",")
-      .map((item) => item.trim().toLowerCase())
-      .filter(Boolean);
-    const rows = store.listAutomations({
-      guildId,
-      channelId,
-      statuses,
-      query,
-      limit
-    });
-
-    return c.json({
-      guildId,
-      channelId,
-      statuses,
-      query,
-      limit,
-      rows
-    });
-  });
-
-  app.get("/api/automations/runs", (c) => {
-    const guildId = String(c.req.query("guildId") || "").trim();
-    const automationId = Number(c.req.query("automationId"));
-    const limit = parseBoundedInt(c.req.query("limit"), 30, 1, 120);
-
-    if (!guildId || !Number.isInteger(automationId) || automationId <= 0) {
-      return c.json({ error: "guildId and automationId are required" }, 400);
-    }
-
-    const rows = store.getAutomationRuns({
-      guildId,
-      automationId,
-      limit
-    });
-
-    return c.json({
-      guildId,
-      automationId,
-      limit,
-      rows
-    });
-  });
 }
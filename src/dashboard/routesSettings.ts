@@ -12,7 +12,17 @@ import {
   buildDashboardSettingsEnvelope,
   type DashboardProviderAuthBindings
 } from "../settings/dashboardSettingsState.ts";
+import type { SettingsOverlayScope } from "../settings/settingsSchema.ts";
 import { normalizeSettings } from "../store/settingsNormalization.ts";
+import type { SettingsWriteOrigin } from "../store/storeSettingsHistory.ts";
+import { diffSettings } from "../settings/settingsDiff.ts";
+import {
+  buildSettingsExportBundle,
+  importSettingsBundleExtras,
+  parseSettingsBundle,
+  resolveImportedSettings
+} from "../settings/settingsPortability.ts";
+import { getDashboardActor } from "./routesAuth.ts";
 import { readDashboardBody, toRecord } from "./shared.ts";
 
 interface SettingsRouteDeps {
@@ -29,6 +39,20 @@ export function attachSettingsRoutes(app: DashboardApp, deps: SettingsRouteDeps)
     c.header("Cache-Control", "no-store");
   };
 
+  const applySettingsToRuntime = async (source: string) => {
+    if (!bot || typeof bot.applyRuntimeSettings !== "function") return;
+    try {
+      await bot.applyRuntimeSettings(store.getSettings());
+    } catch (error) {
+      store.logAction({
+        kind: "dashboard",
+        level: "error",
+        content: "settings_runtime_apply_failed",
+        metadata: { source, error: error instanceof Error ? error.message : String(error) }
+      });
+    }
+  };
+
   app.get("/api/health", (c) => {
     return c.json({ ok: true });
   });
@@ -86,7 +110,10 @@ export function attachSettingsRoutes(app: DashboardApp, deps: SettingsRouteDeps)
       );
     }
 
-    const saved = store.replaceSettingsWithVersion(body, expectedUpdatedAt);
+    const saved = store.replaceSettingsWithVersion(body, expectedUpdatedAt, {
+      ...readSettingsSaveOrigin(meta),
+      actorLabel: getDashboardActor(c)?.username || null
+    });
     if (!saved.ok) {
       store.logAction({kind: "dashboard", content: "settings_save_rejected_cas_conflict", metadata: { expectedUpdatedAt, currentUpdatedAt: saved.updatedAt }});
       return c.json(
@@ -198,6 +225,68 @@ export function attachSettingsRoutes(app: DashboardApp, deps: SettingsRouteDeps)
     });
   });
 
+  app.get("/api/settings/overlays", (c) => {
+    applyNoStore(c);
+    const guildId = String(c.req.query("guildId") || "").trim() || null;
+    return c.json({ overlays: store.getSettingsOverlays({ guildId }) });
+  });
+
+  app.get("/api/settings/scope", (c) => {
+    applyNoStore(c);
+    const scope = readSettingsScope(c.req.query("guildId"), c.req.query("channelId"));
+    if (!scope.guildId) {
+      return c.json({ error: "guildId is required" }, 400);
+    }
+    return c.json(buildScopedSettingsResponse(store, scope));
+  });
+
+  app.put("/api/settings/overlays", async (c) => {
+    applyNoStore(c);
+    const body = await readDashboardBody(c);
+    const scope = readSettingsScope(body.guildId, body.channelId);
+    if (!scope.guildId) {
+      return c.json({ error: "guildId is required" }, 400);
+    }
+    const overlay = store.setSettingsOverlay(
+      { ...scope, patch: body.patch },
+      { actor: "dashboard", actorLabel: getDashboardActor(c)?.username || null, source: "dashboard_overlay" }
+    );
+    store.logAction({
+      kind: "dashboard",
+      guildId: scope.guildId,
+      channelId: scope.channelId,
+      content: overlay ? "settings_overlay_saved" : "settings_overlay_cleared",
+      metadata: {
+        sections: overlay ? Object.keys(overlay.patch) : []
+      }
+    });
+    await applySettingsToRuntime("overlay_save");
+    return c.json(buildScopedSettingsResponse(store, scope));
+  });
+
+  app.delete("/api/settings/overlays", async (c) => {
+    applyNoStore(c);
+    const scope = readSettingsScope(c.req.query("guildId"), c.req.query("channelId"));
+    if (!scope.guildId) {
+      return c.json({ error: "guildId is required" }, 400);
+    }
+    const deleted = store.deleteSettingsOverlay(scope, {
+      actor: "dashboard",
+      actorLabel: getDashboardActor(c)?.username || null,
+      source: "dashboard_overlay"
+    });
+    if (deleted) {
+      store.logAction({
+        kind: "dashboard",
+        guildId: scope.guildId,
+        channelId: scope.channelId,
+        content: "settings_overlay_cleared"
+      });
+      await applySettingsToRuntime("overlay_delete");
+    }
+    return c.json({ ok: true, deleted, ...buildScopedSettingsResponse(store, scope) });
+  });
+
   // Legacy reset endpoint — same as preset-defaults with the default preset.
   // Preserves channel permissions, same as preset-defaults.
   app.post("/api/settings/reset", async (c) => {
@@ -216,6 +305,217 @@ export function attachSettingsRoutes(app: DashboardApp, deps: SettingsRouteDeps)
     }));
   });
 
+  app.get("/api/settings/history", (c) => {
+    applyNoStore(c);
+    const limit = Number(c.req.query("limit") || 50);
+    const beforeId = Number(c.req.query("beforeId") || 0) || null;
+    return c.json({ versions: store.listSettingsVersions({ limit, beforeId }) });
+  });
+
+  app.get("/api/settings/history/:versionId", (c) => {
+    applyNoStore(c);
+    const version = store.getSettingsVersion(Number(c.req.param("versionId")));
+    if (!version) {
+      return c.json({ error: "settings_version_not_found" }, 404);
+    }
+    const against = c.req.query("against") === "current" ? "current" : "previous";
+    if (version.scope) {
+      // Overlay versions hold the overlay patch, so diff patches directly.
+      const basePatch = against === "current"
+        ? store.getSettingsOverlay(version.scope)?.patch || {}
+        : store.getPreviousSettingsVersion(version.id)?.intent ?? null;
+      const diff = basePatch === null
+        ? []
+        : against === "current"
+          ? diffSettings(version.intent, basePatch)
+          : diffSettings(basePatch, version.intent);
+      return c.json({ version, against, hasBase: basePatch !== null, diff });
+    }
+    const baseIntent = against === "current"
+      ? store.getSettingsRecord().intent
+      : store.getPreviousSettingsVersion(version.id)?.intent ?? null;
+    // Diff effective settings so default-valued fields still show up when an
+    // override is added or removed.
+    const versionSettings = normalizeSettings(version.intent);
+    const diff = baseIntent === null
+      ? []
+      : against === "current"
+        ? diffSettings(versionSettings, normalizeSettings(baseIntent))
+        : diffSettings(normalizeSettings(baseIntent), versionSettings);
+    return c.json({ version, against, hasBase: baseIntent !== null, diff });
+  });
+
+  app.post("/api/settings/history/:versionId/rollback", async (c) => {
+    applyNoStore(c);
+    const version = store.getSettingsVersion(Number(c.req.param("versionId")));
+    if (!version) {
+      return c.json({ ok: false, error: "settings_version_not_found" }, 404);
+    }
+    if (version.scope) {
+      const scope = version.scope;
+      const overlay = store.setSettingsOverlay(
+        { ...scope, patch: version.intent },
+        {
+          actor: "rollback",
+          actorLabel: getDashboardActor(c)?.username || null,
+          source: "dashboard_history",
+          rollbackVersionId: version.id
+        }
+      );
+      store.logAction({
+        kind: "dashboard",
+        guildId: scope.guildId,
+        channelId: scope.channelId,
+        content: "settings_overlay_rolled_back",
+        metadata: { versionId: version.id, cleared: !overlay }
+      });
+      await applySettingsToRuntime("overlay_rollback");
+      return c.json({ ok: true, versionId: version.id, ...buildScopedSettingsResponse(store, scope) });
+    }
+    const body = await readDashboardBody(c);
+    const expectedUpdatedAt = String(body.expectedUpdatedAt || "").trim();
+    if (!expectedUpdatedAt) {
+      return c.json({ ok: false, error: "settings_version_required" }, 409);
+    }
+
+    const saved = store.replaceSettingsWithVersion(version.intent, expectedUpdatedAt, {
+      actor: "rollback",
+      actorLabel: getDashboardActor(c)?.username || null,
+      source: "dashboard_history",
+      rollbackVersionId: version.id
+    });
+    if (!saved.ok) {
+      store.logAction({kind: "dashboard", content: "settings_rollback_rejected_stale", metadata: { versionId: version.id, expectedUpdatedAt, currentUpdatedAt: saved.updatedAt }});
+      return c.json(
+        {
+          ok: false,
+          error: "settings_conflict",
+          detail: "Settings changed since the history was loaded. Reload and try again.",
+          ...buildSettingsResponse({
+            intent: saved.intent,
+            effective: saved.settings,
+            providerAuth: getProviderAuth(),
+            updatedAt: saved.updatedAt
+          })
+        },
+        409
+      );
+    }
+
+    store.logAction({
+      kind: "dashboard",
+      content: "settings_rolled_back",
+      metadata: { versionId: version.id, updatedAt: saved.updatedAt }
+    });
+    await applySettingsToRuntime("rollback");
+    return c.json({
+      ok: true,
+      versionId: version.id,
+      ...buildSettingsResponse({
+        intent: saved.intent,
+        effective: saved.settings,
+        providerAuth: getProviderAuth(),
+        updatedAt: saved.updatedAt
+      })
+    });
+  });
+
+  const listBotGuildIds = () => {
+    const guilds = typeof bot?.getGuilds === "function" ? bot.getGuilds() : [];
+    return (Array.isArray(guilds) ? guilds : []).map((guild) => String(guild?.id || "")).filter(Boolean);
+  };
+
+  app.get("/api/settings/export", (c) => {
+    applyNoStore(c);
+    const bundle = buildSettingsExportBundle({
+      store,
+      settings: store.getSettingsRecord().intent,
+      guildIds: listBotGuildIds(),
+      include: {
+        discoverySources: readQueryFlag(c.req.query("includeDiscoverySources")),
+        automations: readQueryFlag(c.req.query("includeAutomations")),
+        responseTriggers: readQueryFlag(c.req.query("includeResponseTriggers"))
+      }
+    });
+    c.header("Content-Disposition", `attachment; filename="clanker-settings-${bundle.exportedAt.slice(0, 10)}.json"`);
+    return c.json(bundle);
+  });
+
+  app.post("/api/settings/import", async (c) => {
+    applyNoStore(c);
+    const body = await readDashboardBody(c);
+    const parsed = parseSettingsBundle(body.bundle);
+    if (parsed.ok === false) {
+      return c.json({ ok: false, error: parsed.reason }, 400);
+    }
+    const { bundle } = parsed;
+    const dryRun = body.dryRun === true;
+    const current = store.getSettingsRecord();
+    const imported = resolveImportedSettings(bundle, current.intent);
+    const diff = diffSettings(normalizeSettings(current.intent), imported);
+    const guildIds = listBotGuildIds();
+
+    if (dryRun) {
+      return c.json({
+        ok: true,
+        dryRun: true,
+        updatedAt: current.updatedAt,
+        diff,
+        ...importSettingsBundleExtras({ store, bundle, guildIds, dryRun: true })
+      });
+    }
+
+    const expectedUpdatedAt = String(body.expectedUpdatedAt || "").trim();
+    if (!expectedUpdatedAt) {
+      return c.json({ ok: false, error: "settings_version_required" }, 409);
+    }
+    const saved = store.replaceSettingsWithVersion(imported, expectedUpdatedAt, {
+      actor: "dashboard",
+      actorLabel: getDashboardActor(c)?.username || null,
+      source: "settings_import"
+    });
+    if (!saved.ok) {
+      store.logAction({kind: "dashboard", content: "settings_import_rejected_stale", metadata: { expectedUpdatedAt, currentUpdatedAt: saved.updatedAt }});
+      return c.json(
+        {
+          ok: false,
+          error: "settings_conflict",
+          detail: "Settings changed since the import was previewed. Preview it again and retry.",
+          updatedAt: saved.updatedAt
+        },
+        409
+      );
+    }
+
+    const extras = importSettingsBundleExtras({ store, bundle, guildIds });
+    store.logAction({
+      kind: "dashboard",
+      content: "settings_imported",
+      metadata: {
+        bundleVersion: bundle.version,
+        exportedAt: bundle.exportedAt || null,
+        changedPaths: diff.length,
+        discoverySources: Boolean(bundle.discoverySources),
+        automationsImported: extras.automations?.imported ?? null,
+        responseTriggersImported: extras.responseTriggers?.imported ?? null,
+        updatedAt: saved.updatedAt
+      }
+    });
+    await applySettingsToRuntime("import");
+    return c.json({
+      ok: true,
+      dryRun: false,
+      diff,
+      ...extras,
+      ...buildSettingsResponse({
+        intent: saved.intent,
+        effective: saved.settings,
+        providerAuth: getProviderAuth(),
+        updatedAt: saved.updatedAt
+      })
+    });
+  });
+
   app.get("/api/llm/models", (c) => {
     const settings = store.getSettings();
     return c.json(getLlmModelCatalog(getReplyGenerationSettings(settings).pricing));
@@ -349,6 +649,42 @@ function buildSettingsResponse({
   });
 }
 
+function readQueryFlag(value: string | undefined) {
+  const normalized = String(value || "").trim().toLowerCase();
+  return normalized === "1" || normalized === "true";
+}
+
+function readSettingsSaveOrigin(meta: Record<string, unknown>): SettingsWriteOrigin {
+  const source = String(meta.source || "").trim();
+  if (source === "preset_apply" || source === "reset") {
+    const preset = String(meta.preset || "").trim();
+    return { actor: "preset", source: preset ? `${source}:${preset}` : source };
+  }
+  return { actor: "dashboard", source: "settings_save" };
+}
+
+function readSettingsScope(guildId: unknown, channelId: unknown): SettingsOverlayScope {
+  return {
+    guildId: String(guildId || "").trim(),
+    channelId: String(channelId || "").trim() || null
+  };
+}
+
+function buildScopedSettingsResponse(store: Store, scope: SettingsOverlayScope) {
+  // Inherited values come from the parent scope: global for a guild overlay,
+  // the guild's effective settings for a channel overlay.
+  const inherited = scope.channelId
+    ? store.getScopedSettings({ guildId: scope.guildId })
+    : store.getSettings();
+  return {
+    guildId: scope.guildId,
+    channelId: scope.channelId || null,
+    overlay: store.getSettingsOverlay(scope),
+    inherited,
+    effective: store.getScopedSettings(scope)
+  };
+}
+
 function resolveProviderAuth(appConfig: DashboardAppConfig): DashboardProviderAuthBindings {
   return {
     claude_code:
@@ -2,6 +2,7 @@ import { stream } from "hono/streaming";
 import type { DashboardBot, DashboardMemory, DashboardScreenShareSessionManager } from "../dashboard.ts";
 import type { DashboardApp, DashboardSseClient } from "./shared.ts";
 import type { Store } from "../store/store.ts";
+import { parseMemoryBundle, serializeMemoryBundleJsonl } from "../memory/memoryPortability.ts";
 import { parseBoundedInt, readDashboardBody, STREAM_INGEST_API_PATH, toRecord } from "./shared.ts";
 
 interface VoiceRouteDeps {
@@ -581,6 +582,31 @@ export function attachVoiceRoutes(app: DashboardApp, deps: VoiceRouteDeps) {
       const sessions = Array.isArray(voiceState?.sessions) ? voiceState.sessions : [];
       const byName = new Map<string, MpcStatusRow>();
 
+      const sharedRows = typeof bot.getMcpServerStatuses === "function" ? bot.getMcpServerStatuses() : [];
+      for (const row of sharedRows) {
+        const rowRecord = toRecord(row);
+        const serverName = String(rowRecord.serverName || "").trim();
+        if (!serverName) continue;
+        byName.set(serverName, {
+          serverName,
+          connected: Boolean(rowRecord.connected),
+          tools: Array.isArray(rowRecord.tools)
+            ? rowRecord.tools.map((tool) => {
+                const toolRecord = toRecord(tool);
+                return {
+                  name: String(toolRecord.name || ""),
+                  description: String(toolRecord.description || "")
+                };
+              })
+            : [],
+          lastError: rowRecord.lastError ? String(rowRecord.lastError) : null,
+          transport: rowRecord.transport ? String(rowRecord.transport) : null,
+          lastConnectedAt: rowRecord.lastConnectedAt ? String(rowRecord.lastConnectedAt) : null,
+          lastCallAt: rowRecord.lastCallAt ? String(rowRecord.lastCallAt) : null,
+          surfaces: ["text"]
+        });
+      }
+
       for (const session of sessions) {
         const sessionRecord = toRecord(session);
         const rows = Array.isArray(sessionRecord.mcpStatus) ? sessionRecord.mcpStatus : [];
@@ -602,7 +628,8 @@ export function attachVoiceRoutes(app: DashboardApp, deps: VoiceRouteDeps) {
                   };
                 })
               : [],
-            lastError: rowRecord.lastError ? String(rowRecord.lastError) : null
+            lastError: rowRecord.lastError ? String(rowRecord.lastError) : null,
+            surfaces: ["voice"]
           };
 
           if (!existing) {
@@ -614,7 +641,8 @@ export function attachVoiceRoutes(app: DashboardApp, deps: VoiceRouteDeps) {
             ...existing,
             connected: Boolean(existing.connected || candidate.connected),
             tools: existing.tools.length > 0 ? existing.tools : candidate.tools,
-            lastError: existing.lastError || candidate.lastError
+            lastError: existing.lastError || candidate.lastError,
+            surfaces: [...new Set([...(existing.surfaces || []), ...(candidate.surfaces || [])])]
           });
         }
       }
@@ -722,6 +750,97 @@ export function attachVoiceRoutes(app: DashboardApp, deps: VoiceRouteDeps) {
     });
   });
 
+  app.get("/api/memory/export", async (c) => {
+    const guildId = String(c.req.query("guildId") || "").trim() || null;
+    const userId = String(c.req.query("userId") || "").trim() || null;
+    const format = String(c.req.query("format") || "json").trim().toLowerCase();
+    if (!guildId && !userId) {
+      return c.json({ ok: false, error: "guildId or userId required" }, 400);
+    }
+    if (format !== "json" && format !== "jsonl") {
+      return c.json({ ok: false, error: "format must be json or jsonl" }, 400);
+    }
+    if (typeof memory.exportMemory !== "function") {
+      return c.json({ ok: false, error: "export_unavailable" }, 400);
+    }
+
+    const bundle = await memory.exportMemory({ guildId, userId });
+    const fileStem = `clanker-memory-${guildId || `user-${userId}`}-${bundle.exportedAt.slice(0, 10)}`
+      .replace(/[^a-zA-Z0-9._-]/g, "_");
+    c.header("Cache-Control", "no-store");
+    c.header("Content-Disposition", `attachment; filename="${fileStem}.${format}"`);
+    if (format === "jsonl") {
+      c.header("Content-Type", "application/x-ndjson; charset=UTF-8");
+      return c.body(serializeMemoryBundleJsonl(bundle));
+    }
+    return c.json(bundle);
+  });
+
+  app.post("/api/memory/import", async (c) => {
+    const body = await readDashboardBody(c);
+    const guildId = String(body.guildId || "").trim() || null;
+    const conflictPolicy = String(body.conflictPolicy || "skip").trim().toLowerCase();
+    if (conflictPolicy !== "skip" && conflictPolicy !== "import") {
+      return c.json({ ok: false, error: "conflictPolicy must be skip or import" }, 400);
+    }
+    if (typeof memory.importMemory !== "function") {
+      return c.json({ ok: false, error: "import_unavailable" }, 400);
+    }
+
+    const parsed = parseMemoryBundle(body.bundle);
+    if (parsed.ok === false) {
+      return c.json({ ok: false, error: parsed.reason }, 400);
+    }
+
+    const result = await memory.importMemory({
+      bundle: parsed.bundle,
+      guildId,
+      settings: store.getSettings(),
+      dryRun: body.dryRun === true,
+      conflictPolicy,
+      actor: "dashboard"
+    });
+    if (guildId && body.dryRun !== true) {
+      try {
+        invalidateGuildMemoryRuntime(bot, guildId);
+      } catch {
+        // Imported facts are durable; runtime caches pick them up on their next refresh.
+      }
+    }
+    return c.json(result);
+  });
+
+  app.get("/api/memory/embeddings", (c) => {
+    if (typeof memory.getEmbeddingMigrationStatus !== "function") {
+      return c.json({ ok: false, error: "embedding_migration_unavailable" }, 400);
+    }
+    return c.json(memory.getEmbeddingMigrationStatus(store.getSettings()));
+  });
+
+  app.post("/api/memory/embeddings/migration", async (c) => {
+    const body = await readDashboardBody(c);
+    const action = String(body.action || "").trim().toLowerCase();
+    if (action !== "start" && action !== "cancel") {
+      return c.json({ ok: false, error: "action must be start or cancel" }, 400);
+    }
+    if (
+      typeof memory.maybeStartEmbeddingMigration !== "function" ||
+      typeof memory.cancelEmbeddingMigration !== "function"
+    ) {
+      return c.json({ ok: false, error: "embedding_migration_unavailable" }, 400);
+    }
+
+    const settings = store.getSettings();
+    const result =
+      action === "start"
+        ? memory.maybeStartEmbeddingMigration(settings, { force: true })
+        : memory.cancelEmbeddingMigration(settings);
+    if (!result?.ok) {
+      return c.json({ ok: false, error: result?.reason || "embedding_migration_failed" }, 400);
+    }
+    return c.json({ ok: true, reason: result.reason, migration: result.migration || null });
+  });
+
   app.post("/api/memory/runtime-snapshot", async (c) => {
     const body = await readDashboardBody(c);
     const guildId = String(body.guildId || "").trim();
@@ -1074,6 +1193,63 @@ export function attachVoiceRoutes(app: DashboardApp, deps: VoiceRouteDeps) {
     return c.json({ guildId, limit, subject: subjectFilter, queryText, facts });
   });
 
+  app.get("/api/memory/facts/:factId/history", (c) => {
+    const factId = Number(c.req.param("factId"));
+    const guildId = String(c.req.query("guildId") || "").trim();
+    const limit = parseBoundedInt(c.req.query("limit"), 50, 1, 200);
+    if (!guildId) {
+      return c.json({ ok: false, error: "guildId required" }, 400);
+    }
+    if (!Number.isInteger(factId) || factId <= 0) {
+      return c.json({ ok: false, error: "valid factId required" }, 400);
+    }
+
+    const history = store.getMemoryFactHistory({ guildId, factId, limit });
+    if (!history) {
+      return c.json({ ok: false, error: "not_found" }, 404);
+    }
+    return c.json({ ok: true, ...history });
+  });
+
+  app.post("/api/memory/facts/:factId/rollback", async (c) => {
+    const factId = Number(c.req.param("factId"));
+    const body = await readDashboardBody(c);
+    const guildId = String(body.guildId || "").trim();
+    const revisionId = Number(body.revisionId);
+
+    if (!guildId) {
+      return c.json({ ok: false, error: "guildId required" }, 400);
+    }
+    if (!Number.isInteger(factId) || factId <= 0) {
+      return c.json({ ok: false, error: "valid factId required" }, 400);
+    }
+    if (!Number.isInteger(revisionId) || revisionId <= 0) {
+      return c.json({ ok: false, error: "valid revisionId required" }, 400);
+    }
+
+    const result = store.rollbackMemoryFact({
+      guildId,
+      factId,
+      revisionId,
+      actor: "dashboard"
+    });
+    if (!result.ok) {
+      const status = result.reason === "duplicate"
+        ? 409
+        : result.reason === "not_found" || result.reason === "revision_not_found"
+          ? 404
+          : 400;
+      return c.json({ ok: false, error: result.reason }, status);
+    }
+
+    await refreshDashboardMemoryMarkdown(memory);
+
+    return c.json({
+      ok: true,
+      fact: result.row
+    });
+  });
+
   app.put("/api/memory/facts/:factId", async (c) => {
     const factId = Number(c.req.param("factId"));
     const body = await readDashboardBody(c);
@@ -1107,7 +1283,8 @@ export function attachVoiceRoutes(app: DashboardApp, deps: VoiceRouteDeps) {
       fact,
       factType,
       evidenceText,
-      confidence
+      confidence,
+      actor: "dashboard"
     });
 
     if (!result.ok) {
@@ -1137,7 +1314,8 @@ export function attachVoiceRoutes(app: DashboardApp, deps: VoiceRouteDeps) {
 
     const result = store.deleteMemoryFact({
       guildId,
-      factId
+      factId,
+      actor: "dashboard"
     });
     if (!result.ok) {
       return c.json({ ok: false, error: result.reason }, result.reason === "not_found" ? 404 : 400);
@@ -1160,4 +1338,8 @@ interface MpcStatusRow {
     description: string;
   }>;
   lastError: string | null;
+  transport?: string | null;
+  lastConnectedAt?: string | null;
+  lastCallAt?: string | null;
+  surfaces?: Array<"text" | "voice">;
 }
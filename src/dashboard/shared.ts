@@ -1,5 +1,6 @@
 import type { Context, Hono } from "hono";
 import { getConnInfo } from "hono/bun";
+import type { DashboardActor } from "./routesAuth.ts";
 
 export const STREAM_INGEST_API_PATH = "/voice/stream-ingest/frame";
 const DASHBOARD_BODY_LIMIT_BYTES = 7 * 1024 * 1024;
@@ -8,6 +9,9 @@ export type DashboardEnv = {
   Bindings: {
     server: Bun.Server<undefined>;
   };
+  Variables: {
+    dashboardActor?: DashboardActor;
+  };
 };
 
 export type DashboardApp = Hono<DashboardEnv>;
@@ -2,6 +2,11 @@ import { spawnSync } from "node:child_process";
 import Anthropic from "@anthropic-ai/sdk";
 import OpenAI from "openai";
 import { estimateUsdCost } from "./llm/pricing.ts";
+import {
+  resolveSpendCapDecision,
+  resolveSpendCapFeature,
+  SpendCapExceededError
+} from "./llm/spendCaps.ts";
 import {
   isAsrReady as isAsrReadyRequest,
   isSpeechSynthesisReady as isSpeechSynthesisReadyRequest,
@@ -41,6 +46,7 @@ import {
   resolveEmbeddingModel as resolveEmbeddingModelRequest,
   createOpenAiEmbeddingProvider,
   createOllamaEmbeddingProvider,
+  createLocalEmbeddingProvider,
   type EmbeddingServiceDeps,
   type EmbeddingProvider
 } from "./llm/embeddingService.ts";
@@ -283,6 +289,10 @@ export class LLMService {
     // Fallback: local Ollama (no API key needed; health-probed on startup).
     const ollamaBaseUrl = String(this.appConfig.ollamaBaseUrl || "").trim() || null;
     chain.push(createOllamaEmbeddingProvider(ollamaBaseUrl));
+    // In-process ONNX embedder; only serves `local:` models, so it is inert otherwise.
+    chain.push(createLocalEmbeddingProvider({
+      cacheDir: String(this.appConfig.localEmbeddingCacheDir || "").trim() || null
+    }));
     this.embeddingProviderChainCache = chain;
     return chain;
   }
@@ -291,6 +301,11 @@ export class LLMService {
     return {
       openai: this.openai,
       elevenLabsApiKey: this.appConfig.elevenLabsApiKey,
+      localAsr: {
+        binaryPath: this.appConfig.whisperCppBin,
+        modelPath: this.appConfig.whisperCppModel,
+        threads: this.appConfig.whisperCppThreads
+      },
       store: this.store
     };
   }
@@ -460,13 +475,6 @@ export class LLMService {
     signal?: AbortSignal;
     onTextDelta: (delta: string) => void;
   }) {
-    const orchestrator = getResolvedOrchestratorBinding(settings);
-    const replyGeneration = getReplyGenerationSettings(settings);
-    const { provider, model } = this.resolveProviderAndModel(orchestrator);
-    const temperature = Number(orchestrator.temperature) || 0.9;
-    const maxOutputTokens = Number(orchestrator.maxOutputTokens) || 800;
-    const normalizedJsonSchema = String(jsonSchema || "").trim();
-    const normalizedTools = Array.isArray(tools) ? tools : [];
     const normalizedTrace: LlmTrace = {
       guildId: trace.guildId == null ? null : String(trace.guildId),
       channelId: trace.channelId == null ? null : String(trace.channelId),
@@ -477,6 +485,39 @@ export class LLMService {
       messageId: trace.messageId == null ? null : String(trace.messageId),
       sessionId: trace.sessionId == null ? null : String(trace.sessionId)
     };
+    const spendCap = resolveSpendCapDecision({
+      store: this.store,
+      settings,
+      feature: resolveSpendCapFeature({ kind: "llm_call", source: normalizedTrace.source })
+    });
+    if (spendCap.action === "refuse") {
+      this.store.logAction({
+        kind: "spend_cap_exceeded",
+        guildId: normalizedTrace.guildId,
+        channelId: normalizedTrace.channelId,
+        userId: normalizedTrace.userId,
+        content: spendCap.status.feature,
+        metadata: {
+          feature: spendCap.status.feature,
+          window: spendCap.status.exceededWindow,
+          dailySpentUsd: spendCap.status.dailySpentUsd,
+          monthlySpentUsd: spendCap.status.monthlySpentUsd,
+          source: normalizedTrace.source || null,
+          event: normalizedTrace.event || null
+        }
+      });
+      throw new SpendCapExceededError(spendCap.status);
+    }
+    const configuredOrchestrator = getResolvedOrchestratorBinding(settings);
+    const orchestrator = spendCap.action === "degrade"
+      ? { ...configuredOrchestrator, provider: spendCap.binding.provider, model: spendCap.binding.model }
+      : configuredOrchestrator;
+    const replyGeneration = getReplyGenerationSettings(settings);
+    const { provider, model } = this.resolveProviderAndModel(orchestrator);
+    const temperature = Number(orchestrator.temperature) || 0.9;
+    const maxOutputTokens = Number(orchestrator.maxOutputTokens) || 800;
+    const normalizedJsonSchema = String(jsonSchema || "").trim();
+    const normalizedTools = Array.isArray(tools) ? tools : [];
     // JSON schema instructions are appended inside each provider's request
     // builder (buildAnthropicMessagesRequest, buildOpenAiResponsesRequestBody,
     // callXaiChatCompletions). Do NOT pre-append here to avoid duplication.
@@ -566,6 +607,7 @@ export class LLMService {
           messageId: normalizedTrace.messageId || null,
           sessionId: normalizedTrace.sessionId || null,
           streaming: usedStreamingTransport,
+          spendCapDegraded: spendCap.action === "degrade" ? spendCap.status.feature : null,
           systemPrompt: systemPrompt || null,
           userPrompt: userPrompt || null,
           contextMessageCount: contextMessages.length
@@ -671,11 +713,11 @@ export class LLMService {
     closeCodexCliSession(this.codexCliDeps());
   }
 
-  isEmbeddingReady() {
-    return isEmbeddingReadyRequest(this.embeddingDeps());
+  isEmbeddingReady(settings: unknown = null) {
+    return isEmbeddingReadyRequest(this.embeddingDeps(), settings);
   }
 
-  async embedText(args: { settings: unknown; text: unknown; trace?: LlmTrace }) {
+  async embedText(args: { settings: unknown; text: unknown; model?: string | null; trace?: LlmTrace }) {
     return embedTextRequest(this.embeddingDeps(), args);
   }
 
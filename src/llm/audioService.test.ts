@@ -1,7 +1,11 @@
 import { EventEmitter } from "node:events";
+import { chmod, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import assert from "node:assert/strict";
 import { test } from "bun:test";
 import {
+  isAsrReady,
   synthesizeSpeech,
   transcribeAudio,
   type AudioServiceDeps
@@ -182,3 +186,76 @@ test("transcribeAudio uses the official ElevenLabs realtime speech-to-text webso
   assert.equal(asrCall?.metadata?.model, "scribe_v1");
   assert.equal(asrCall?.metadata?.sampleRateHz, 22050);
 });
+
+test("transcribeAudio runs the local whisper.cpp CLI on a 16 kHz WAV", async () => {
+  const tempDir = await mkdtemp(path.join(os.tmpdir(), "audio-service-local-asr-"));
+  try {
+    const modelPath = path.join(tempDir, "ggml-base.en.bin");
+    const binaryPath = path.join(tempDir, "whisper-cli");
+    const argsPath = path.join(tempDir, "args.txt");
+    const wavCopyPath = path.join(tempDir, "input.wav");
+    await writeFile(modelPath, "model");
+    // Stand-in CLI: records its arguments and input, then prints a transcript.
+    await writeFile(
+      binaryPath,
+      `#!/bin/sh\nprintf '%s\\n' "$@" > "${argsPath}"\ncp "$4" "${wavCopyPath}"\necho " hello from"\necho " whisper "\n`
+    );
+    await chmod(binaryPath, 0o755);
+
+    const { deps, logs } = createAudioDeps({
+      localAsr: { binaryPath, modelPath, threads: 2 }
+    });
+    assert.equal(isAsrReady(deps, { provider: "local" }), true);
+    const missingModelDeps = { ...deps, localAsr: { binaryPath, modelPath: path.join(tempDir, "missing.bin") } };
+    assert.equal(isAsrReady(missingModelDeps, { provider: "local" }), false);
+
+    // 0.1s of 48 kHz PCM16 mono, passed as raw PCM.
+    const transcript = await transcribeAudio(deps, {
+      audioBytes: Buffer.alloc(9_600, 1),
+      provider: "local",
+      model: "gpt-4o-mini-transcribe",
+      language: "en-US",
+      sampleRateHz: 48_000,
+      trace: { guildId: "guild-1", channelId: "chan-1", userId: "user-1", source: "test" }
+    });
+
+    assert.equal(transcript, "hello from whisper");
+    const args = (await readFile(argsPath, "utf8")).trim().split("\n");
+    assert.deepEqual(args.slice(0, 2), ["-m", modelPath]);
+    assert.equal(args.includes("-nt"), true);
+    assert.deepEqual(args.slice(args.indexOf("-l"), args.indexOf("-l") + 2), ["-l", "en"]);
+    assert.deepEqual(args.slice(args.indexOf("-t"), args.indexOf("-t") + 2), ["-t", "2"]);
+    const wav = await readFile(wavCopyPath);
+    assert.equal(wav.toString("ascii", 0, 4), "RIFF");
+    assert.equal(wav.readUInt32LE(24), 16_000);
+    assert.equal(wav.length, 44 + 3_200);
+
+    const asrCall = logs.find((entry) => entry.kind === "asr_call");
+    assert.equal(asrCall?.metadata?.provider, "local");
+    assert.equal(asrCall?.metadata?.model, "ggml-base.en");
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("transcribeAudio logs asr_error when the local CLI fails", async () => {
+  const tempDir = await mkdtemp(path.join(os.tmpdir(), "audio-service-local-asr-"));
+  try {
+    const modelPath = path.join(tempDir, "ggml-tiny.bin");
+    const binaryPath = path.join(tempDir, "whisper-cli");
+    await writeFile(modelPath, "model");
+    await writeFile(binaryPath, "#!/bin/sh\necho 'failed to load model' >&2\nexit 3\n");
+    await chmod(binaryPath, 0o755);
+    const { deps, logs } = createAudioDeps({ localAsr: { binaryPath, modelPath } });
+
+    await assert.rejects(
+      transcribeAudio(deps, { audioBytes: Buffer.alloc(3_200), provider: "local" }),
+      /Local ASR exited with code 3: failed to load model/
+    );
+    const asrError = logs.find((entry) => entry.kind === "asr_error");
+    assert.equal(asrError?.metadata?.provider, "local");
+    assert.equal(asrError?.metadata?.model, "ggml-tiny");
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+});
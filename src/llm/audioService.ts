@@ -7,14 +7,22 @@ import {
   normalizeElevenLabsBaseUrl
 } from "../voice/realtimeProviderNormalization.ts";
 import { clampNumber, normalizeInlineText } from "./llmHelpers.ts";
+import {
+  isLocalAsrConfigured,
+  localAsrModelLabel,
+  runLocalTranscription,
+  type LocalAsrConfig
+} from "./localTranscription.ts";
 import type { LlmActionStore, LlmTrace } from "./serviceShared.ts";
 
 type AudioServiceProvider = "openai" | "elevenlabs";
+type TranscriptionProvider = AudioServiceProvider | "local";
 type OpenRealtimeSocketFn = typeof openRealtimeSocket;
 
 export type AudioServiceDeps = {
   openai: OpenAI | null;
   elevenLabsApiKey?: string | null;
+  localAsr?: LocalAsrConfig | null;
   store: LlmActionStore;
   fetchFn?: typeof fetch;
   openWebSocket?: OpenRealtimeSocketFn;
@@ -45,6 +53,11 @@ function normalizeAudioProvider(value: unknown, fallback: AudioServiceProvider =
   return normalized === "elevenlabs" ? "elevenlabs" : "openai";
 }
 
+function normalizeTranscriptionProvider(value: unknown): TranscriptionProvider {
+  const normalized = String(value || "").trim().toLowerCase();
+  return normalized === "local" ? "local" : normalizeAudioProvider(normalized, "openai");
+}
+
 function resolveFetchFn(deps: AudioServiceDeps) {
   return deps.fetchFn ?? fetch;
 }
@@ -529,11 +542,91 @@ async function transcribeAudioWithElevenLabs(
   return transcript;
 }
 
+/** `model` may name a different whisper.cpp model file; hosted model ids fall back to the configured one. */
+function resolveLocalAsrModelPath(deps: AudioServiceDeps, model: unknown) {
+  const override = String(model || "").trim();
+  return override.endsWith(".bin") ? override : String(deps.localAsr?.modelPath || "").trim();
+}
+
+async function transcribeAudioLocally(
+  deps: AudioServiceDeps,
+  {
+    filePath,
+    audioBytes = null,
+    fileName = "audio.wav",
+    model = "",
+    language = "",
+    prompt = "",
+    sampleRateHz = 16000,
+    trace = { guildId: null, channelId: null, userId: null, source: null }
+  }: {
+    filePath?: string | null;
+    audioBytes?: Buffer | Uint8Array | ArrayBuffer | null;
+    fileName?: string;
+    model?: string;
+    language?: string;
+    prompt?: string;
+    sampleRateHz?: number;
+    trace?: LlmTrace;
+  }
+) {
+  // whisper.cpp takes bare language codes ("en", not "en-us").
+  const resolvedLanguage = String(language || "")
+    .trim()
+    .toLowerCase()
+    .split(/[-_]/)[0]
+    .slice(0, 8);
+  const resolvedPrompt = String(prompt || "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 280);
+  const resolvedModelPath = resolveLocalAsrModelPath(deps, model);
+
+  const { audioBuffer, fileName: resolvedFileName } = await resolveAudioBytes({
+    filePath,
+    audioBytes,
+    fileName
+  });
+  const transcript = await runLocalTranscription({
+    config: deps.localAsr,
+    audioBuffer,
+    sampleRateHz,
+    modelPath: resolvedModelPath,
+    language: resolvedLanguage,
+    prompt: resolvedPrompt
+  });
+  if (!transcript) {
+    throw new Error("ASR returned empty transcript.");
+  }
+
+  const modelLabel = localAsrModelLabel(resolvedModelPath);
+  deps.store.logAction({
+    kind: "asr_call",
+    guildId: trace.guildId,
+    channelId: trace.channelId,
+    userId: trace.userId,
+    content: modelLabel,
+    metadata: {
+      provider: "local",
+      model: modelLabel,
+      fileName: resolvedFileName,
+      language: resolvedLanguage || null,
+      prompt: resolvedPrompt || null,
+      source: trace.source || "unknown"
+    }
+  });
+
+  return transcript;
+}
+
 export function isAsrReady(
   deps: AudioServiceDeps,
   { provider = "openai" }: { provider?: string } = {}
 ) {
-  const resolvedProvider = normalizeAudioProvider(provider, "openai");
+  const resolvedProvider = normalizeTranscriptionProvider(provider);
+  if (resolvedProvider === "local") {
+    return isLocalAsrConfigured(deps.localAsr);
+  }
   if (resolvedProvider === "elevenlabs") {
     return Boolean(String(deps.elevenLabsApiKey || "").trim());
   }
@@ -577,7 +670,37 @@ export async function transcribeAudio(
     trace?: LlmTrace;
   }
 ) {
-  const resolvedProvider = normalizeAudioProvider(provider, "openai");
+  const resolvedProvider = normalizeTranscriptionProvider(provider);
+  if (resolvedProvider === "local") {
+    try {
+      return await transcribeAudioLocally(deps, {
+        filePath,
+        audioBytes,
+        fileName,
+        model,
+        language,
+        prompt,
+        sampleRateHz,
+        trace
+      });
+    } catch (error) {
+      deps.store.logAction({
+        kind: "asr_error",
+        guildId: trace.guildId,
+        channelId: trace.channelId,
+        userId: trace.userId,
+        content: String((error as Error)?.message || error),
+        metadata: {
+          provider: "local",
+          model: localAsrModelLabel(resolveLocalAsrModelPath(deps, model)),
+          language: String(language || "").trim() || null,
+          prompt: String(prompt || "").trim() || null,
+          source: trace.source || "unknown"
+        }
+      });
+      throw error;
+    }
+  }
   if (resolvedProvider === "elevenlabs") {
     try {
       return await transcribeAudioWithElevenLabs(deps, {
@@ -2,6 +2,7 @@ import { test, expect } from "bun:test";
 import {
   createOpenAiEmbeddingProvider,
   createOllamaEmbeddingProvider,
+  createLocalEmbeddingProvider,
   isEmbeddingReady,
   resolveEmbeddingModel,
   embedText,
@@ -207,3 +208,48 @@ test("Ollama readiness recovers after recheck interval", async () => {
   // Immediately after failure, still not ready (within cooldown).
   expect(provider.isReady()).toBe(false);
 });
+
+test("local provider only serves local: models and goes first for them", async () => {
+  const store = createMockStore();
+  const loadedModels: string[] = [];
+  const local = createLocalEmbeddingProvider({
+    loadModule: async () => ({
+      pipeline: async (_task, model) => {
+        loadedModels.push(model);
+        return async () => ({ data: new Float32Array([0.5, 0.25]) });
+      }
+    })
+  });
+  const openai = createMockProvider({ name: "openai" });
+
+  const remote = await embedText(
+    { store, providers: [openai, local] },
+    { settings: { memory: { embeddingModel: "text-embedding-3-small" } }, text: "hello" }
+  );
+  expect(remote.model).toBe("text-embedding-3-small");
+  expect(loadedModels).toEqual([]);
+
+  const localResult = await embedText(
+    { store, providers: [openai, local] },
+    { settings: { memory: { embeddingModel: "text-embedding-3-small" } }, text: "hello", model: "local:Xenova/bge-small-en-v1.5" }
+  );
+  expect(localResult.model).toBe("local:Xenova/bge-small-en-v1.5");
+  expect(localResult.embedding).toEqual([0.5, 0.25]);
+  expect(loadedModels).toEqual(["Xenova/bge-small-en-v1.5"]);
+});
+
+test("local provider reports not ready once the optional runtime fails to load", async () => {
+  const local = createLocalEmbeddingProvider({
+    loadModule: async () => {
+      throw new Error("Cannot find module");
+    }
+  });
+  const deps = { store: createMockStore(), providers: [local] };
+  const settings = { memory: { embeddingModel: "local:Xenova/all-MiniLM-L6-v2" } };
+  expect(isEmbeddingReady(deps, settings)).toBe(true);
+  // Non-local models never route to the local provider.
+  expect(isEmbeddingReady(deps, { memory: { embeddingModel: "text-embedding-3-small" } })).toBe(false);
+
+  await expect(embedText(deps, { settings, text: "hello" })).rejects.toThrow();
+  expect(isEmbeddingReady(deps, settings)).toBe(false);
+});
@@ -7,6 +7,10 @@ import type { LlmActionStore, LlmTrace } from "./serviceShared.ts";
 const DEFAULT_MEMORY_EMBEDDING_MODEL = "text-embedding-3-small";
 const DEFAULT_OLLAMA_EMBEDDING_MODEL = "nomic-embed-text";
 const OLLAMA_DEFAULT_BASE_URL = "http://127.0.0.1:11434";
+export const LOCAL_EMBEDDING_MODEL_PREFIX = "local:";
+const DEFAULT_LOCAL_EMBEDDING_MODEL = `${LOCAL_EMBEDDING_MODEL_PREFIX}Xenova/all-MiniLM-L6-v2`;
+// Optional runtime dependency; resolved lazily so installs without it keep working.
+const LOCAL_EMBEDDING_MODULE = "@huggingface/transformers";
 
 // ---------------------------------------------------------------------------
 // Provider interface
@@ -20,6 +24,8 @@ export type EmbeddingProviderResult = {
 
 export type EmbeddingProvider = {
   name: string;
+  /** When set, the provider only serves models carrying this prefix and is tried first for them. */
+  modelPrefix?: string;
   isReady(): boolean;
   defaultModel(): string;
   embed(args: { model: string; input: string }): Promise<EmbeddingProviderResult>;
@@ -105,6 +111,73 @@ export function createOllamaEmbeddingProvider(baseUrl?: string | null): Embeddin
   };
 }
 
+// ---------------------------------------------------------------------------
+// Local in-process provider (ONNX sentence model via transformers.js, no daemon)
+// ---------------------------------------------------------------------------
+
+type LocalFeatureExtractor = (
+  input: string,
+  options: { pooling: "mean"; normalize: boolean }
+) => Promise<{ data: ArrayLike<number> }>;
+
+type LocalEmbeddingModule = {
+  env?: { cacheDir?: string };
+  pipeline: (task: "feature-extraction", model: string) => Promise<LocalFeatureExtractor>;
+};
+
+export function createLocalEmbeddingProvider({
+  cacheDir = null,
+  loadModule = async () => (await import(LOCAL_EMBEDDING_MODULE)) as LocalEmbeddingModule
+}: {
+  cacheDir?: string | null;
+  loadModule?: () => Promise<LocalEmbeddingModule>;
+} = {}): EmbeddingProvider {
+  const extractors = new Map<string, Promise<LocalFeatureExtractor>>();
+  let moduleUnavailable = false;
+
+  const loadExtractor = (modelId: string) => {
+    let extractor = extractors.get(modelId);
+    if (!extractor) {
+      extractor = (async () => {
+        let runtime: LocalEmbeddingModule;
+        try {
+          runtime = await loadModule();
+        } catch {
+          moduleUnavailable = true;
+          throw new Error(`Local embeddings need the optional ${LOCAL_EMBEDDING_MODULE} package (bun add ${LOCAL_EMBEDDING_MODULE}).`);
+        }
+        if (cacheDir && runtime.env) runtime.env.cacheDir = cacheDir;
+        return await runtime.pipeline("feature-extraction", modelId);
+      })();
+      extractors.set(modelId, extractor);
+      // A failed load (bad model id, download error) should be retried on the next call.
+      extractor.catch(() => extractors.delete(modelId));
+    }
+    return extractor;
+  };
+
+  return {
+    name: "local",
+    modelPrefix: LOCAL_EMBEDDING_MODEL_PREFIX,
+    isReady() {
+      return !moduleUnavailable;
+    },
+    defaultModel() {
+      return DEFAULT_LOCAL_EMBEDDING_MODEL;
+    },
+    async embed({ model, input }) {
+      const modelId = model.startsWith(LOCAL_EMBEDDING_MODEL_PREFIX)
+        ? model.slice(LOCAL_EMBEDDING_MODEL_PREFIX.length)
+        : model;
+      const extractor = await loadExtractor(modelId);
+      const output = await extractor(input, { pooling: "mean", normalize: true });
+      const embedding = Array.from(output?.data || [], (value) => Number(value));
+      if (!embedding.length) throw new Error("Local embedding model returned no vector.");
+      return { embedding, model: `${LOCAL_EMBEDDING_MODEL_PREFIX}${modelId}`, inputTokens: 0 };
+    }
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Provider health check (async, updates isReady state for Ollama)
 // ---------------------------------------------------------------------------
@@ -151,8 +224,18 @@ function resolveProviderChain(deps: EmbeddingServiceDeps): EmbeddingProvider[] {
   return [];
 }
 
-export function isEmbeddingReady(deps: EmbeddingServiceDeps) {
-  const chain = resolveProviderChain(deps);
+/**
+ * Prefix-scoped providers (the local embedder) only join the chain for their own models,
+ * and then go first; everything else keeps its configured order as fallback.
+ */
+function orderProvidersForModel(chain: EmbeddingProvider[], globalModel: string) {
+  const owners = chain.filter((provider) => provider.modelPrefix && globalModel.startsWith(provider.modelPrefix));
+  const general = chain.filter((provider) => !provider.modelPrefix);
+  return [...owners, ...general];
+}
+
+export function isEmbeddingReady(deps: EmbeddingServiceDeps, settings: unknown = null) {
+  const chain = orderProvidersForModel(resolveProviderChain(deps), resolveEmbeddingModel(deps, settings));
   return chain.some((provider) => provider.isReady());
 }
 
@@ -181,6 +264,10 @@ export function resolveEmbeddingModel(
 const OPENAI_EMBEDDING_MODEL_PATTERN = /^text-embedding-/i;
 
 function resolveModelForProvider(globalModel: string, provider: EmbeddingProvider): string {
+  if (provider.modelPrefix) {
+    return globalModel.startsWith(provider.modelPrefix) ? globalModel : provider.defaultModel();
+  }
+  if (globalModel.startsWith(LOCAL_EMBEDDING_MODEL_PREFIX)) return provider.defaultModel();
   if (provider.name === "openai") return globalModel;
   // If the global model looks like an OpenAI model name, use the provider's default.
   if (OPENAI_EMBEDDING_MODEL_PATTERN.test(globalModel)) return provider.defaultModel();
@@ -192,14 +279,18 @@ export async function embedText(
   {
     settings,
     text,
+    model: modelOverride = null,
     trace = { guildId: null, channelId: null, userId: null, source: null }
   }: {
     settings: unknown;
     text: unknown;
+    /** Embed with this model instead of the configured one (retrieval pinning, migrations). */
+    model?: string | null;
     trace?: LlmTrace;
   }
 ) {
-  const chain = resolveProviderChain(deps);
+  const globalModel = String(modelOverride || "").trim().slice(0, 120) || resolveEmbeddingModel(deps, settings);
+  const chain = orderProvidersForModel(resolveProviderChain(deps), globalModel);
   if (!chain.length) {
     throw new Error("No embedding providers available. Configure OPENAI_API_KEY or a local Ollama instance.");
   }
@@ -208,13 +299,12 @@ export async function embedText(
   if (!input) {
     return {
       embedding: [],
-      model: resolveEmbeddingModel(deps, settings),
+      model: globalModel,
       usage: { inputTokens: 0, outputTokens: 0 },
       costUsd: 0
     };
   }
 
-  const globalModel = resolveEmbeddingModel(deps, settings);
   let lastError: Error | null = null;
 
   for (const provider of chain) {
@@ -1246,3 +1246,61 @@ test("generateImage uses OpenAI Responses image_generation tool", async () => {
   assert.equal(seenPayload.input?.[0]?.role, "user");
   assert.equal(seenPayload.input?.[0]?.content?.[0]?.type, "input_text");
 });
+
+test("generateStreaming degrades to the spend cap binding once a feature cap is reached", async () => {
+  const logs = [];
+  const service = createService({ xaiApiKey: "test-xai-key", openaiApiKey: "test-openai-key" }, { logs });
+  service.store.getSpendLedgerTotals = () => [
+    { feature: "reply", dayUsd: 3, monthUsd: 3 }
+  ];
+  const seenModels: string[] = [];
+  service.callChatModelStreaming = async (provider, payload) => {
+    seenModels.push(`${provider}:${payload.model}`);
+    return {
+      text: "cheap reply",
+      toolCalls: [],
+      rawContent: null,
+      usage: { inputTokens: 1, outputTokens: 1, cacheWriteTokens: 0, cacheReadTokens: 0 }
+    };
+  };
+  const settings = {
+    agentStack: {
+      overrides: {
+        orchestrator: { provider: "xai", model: "grok-3-mini-latest" }
+      }
+    },
+    spendCaps: {
+      enabled: true,
+      degradeModel: { provider: "openai", model: "gpt-5-nano" },
+      features: {
+        reply: { dailyUsd: 2, onExceeded: "degrade" },
+        vision: { dailyUsd: 2, onExceeded: "refuse" }
+      }
+    }
+  };
+
+  const result = await service.generate({
+    settings,
+    systemPrompt: "system",
+    userPrompt: "user",
+    trace: { source: "message_event" }
+  });
+  assert.equal(result.text, "cheap reply");
+  assert.deepEqual(seenModels, ["openai:gpt-5-nano"]);
+  assert.equal(logs.find((entry) => entry?.kind === "llm_call")?.metadata?.spendCapDegraded, "reply");
+
+  service.store.getSpendLedgerTotals = () => [
+    { feature: "vision", dayUsd: 3, monthUsd: 3 }
+  ];
+  await assert.rejects(
+    () => service.generate({
+      settings,
+      systemPrompt: "system",
+      userPrompt: "user",
+      trace: { source: "image_caption" }
+    }),
+    /vision daily spend cap reached/
+  );
+  assert.equal(seenModels.length, 1);
+  assert.ok(logs.some((entry) => entry?.kind === "spend_cap_exceeded"));
+});
@@ -0,0 +1,204 @@
+/**
+ * Local speech-to-text through a whisper.cpp-style CLI (`whisper-cli`).
+ *
+ * Audio is normalized to a 16 kHz PCM16 mono WAV (what whisper.cpp expects),
+ * written to a temp file and transcribed by the binary with timestamps and
+ * progress output disabled, so stdout is just the transcript text.
+ */
+
+import { existsSync } from "node:fs";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+export const LOCAL_ASR_SAMPLE_RATE_HZ = 16_000;
+const LOCAL_ASR_TIMEOUT_MS = 120_000;
+const MAX_LOCAL_ASR_OUTPUT_CHARS = 60_000;
+
+export type LocalAsrConfig = {
+  binaryPath?: string | null;
+  modelPath?: string | null;
+  threads?: number | null;
+};
+
+/** Resolves the CLI to an executable path: explicit paths must exist, bare names go through PATH. */
+export function resolveLocalAsrBinary(binaryPath: unknown): string | null {
+  const configured = String(binaryPath || "").trim();
+  if (!configured) return null;
+  if (configured.includes("/") || configured.includes("\\")) {
+    return existsSync(configured) ? configured : null;
+  }
+  return typeof Bun !== "undefined" && typeof Bun.which === "function" ? Bun.which(configured) || null : null;
+}
+
+export function isLocalAsrConfigured(config: LocalAsrConfig | null | undefined) {
+  const modelPath = String(config?.modelPath || "").trim();
+  if (!modelPath || !existsSync(modelPath)) return false;
+  return Boolean(resolveLocalAsrBinary(config?.binaryPath));
+}
+
+/** Model label for logs, e.g. `ggml-base.en` for `models/ggml-base.en.bin`. */
+export function localAsrModelLabel(modelPath: unknown) {
+  const base = path.basename(String(modelPath || "").trim());
+  return base.replace(/\.bin$/i, "") || "whisper_cpp";
+}
+
+function readPcm16MonoWav(audioBuffer: Buffer): { pcm: Buffer; sampleRateHz: number } | null {
+  if (
+    audioBuffer.length < 12 ||
+    audioBuffer.toString("ascii", 0, 4) !== "RIFF" ||
+    audioBuffer.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    return null;
+  }
+  let sampleRateHz = 0;
+  let pcmFormat = false;
+  let offset = 12;
+  while (offset + 8 <= audioBuffer.length) {
+    const chunkId = audioBuffer.toString("ascii", offset, offset + 4);
+    const chunkLength = audioBuffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+    if (chunkId === "fmt " && chunkStart + 16 <= audioBuffer.length) {
+      pcmFormat =
+        audioBuffer.readUInt16LE(chunkStart) === 1 &&
+        audioBuffer.readUInt16LE(chunkStart + 2) === 1 &&
+        audioBuffer.readUInt16LE(chunkStart + 14) === 16;
+      sampleRateHz = audioBuffer.readUInt32LE(chunkStart + 4);
+    } else if (chunkId === "data") {
+      if (!pcmFormat || !sampleRateHz) return null;
+      const end = Math.min(audioBuffer.length, chunkStart + chunkLength);
+      return { pcm: audioBuffer.subarray(chunkStart, end - ((end - chunkStart) % 2)), sampleRateHz };
+    }
+    offset = chunkStart + chunkLength + (chunkLength % 2);
+  }
+  return null;
+}
+
+/** Linear-interpolation resample of PCM16 mono samples. */
+export function resamplePcm16Mono(pcm: Buffer, fromRateHz: number, toRateHz: number) {
+  const sourceSamples = Math.floor(pcm.length / 2);
+  if (!sourceSamples || fromRateHz === toRateHz) return pcm.subarray(0, sourceSamples * 2);
+  const targetSamples = Math.max(1, Math.round((sourceSamples * toRateHz) / fromRateHz));
+  const output = Buffer.alloc(targetSamples * 2);
+  const step = fromRateHz / toRateHz;
+  for (let index = 0; index < targetSamples; index++) {
+    const position = index * step;
+    const left = Math.min(sourceSamples - 1, Math.floor(position));
+    const right = Math.min(sourceSamples - 1, left + 1);
+    const fraction = position - left;
+    const sample = pcm.readInt16LE(left * 2) * (1 - fraction) + pcm.readInt16LE(right * 2) * fraction;
+    output.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(sample))), index * 2);
+  }
+  return output;
+}
+
+function encodeWav(pcm: Buffer, sampleRateHz: number) {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write("WAVE", 8);
+  header.write("fmt ", 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRateHz, 24);
+  header.writeUInt32LE(sampleRateHz * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Normalizes input for whisper.cpp: PCM16 mono WAVs and raw PCM16 (at
+ * `sampleRateHz`) are resampled to 16 kHz. Other containers pass through
+ * untouched and are left to the CLI to decode.
+ */
+export function prepareLocalAsrAudio(audioBuffer: Buffer, sampleRateHz = LOCAL_ASR_SAMPLE_RATE_HZ) {
+  const wav = readPcm16MonoWav(audioBuffer);
+  if (wav) {
+    if (wav.sampleRateHz === LOCAL_ASR_SAMPLE_RATE_HZ) return audioBuffer;
+    return encodeWav(resamplePcm16Mono(wav.pcm, wav.sampleRateHz, LOCAL_ASR_SAMPLE_RATE_HZ), LOCAL_ASR_SAMPLE_RATE_HZ);
+  }
+  if (audioBuffer.toString("ascii", 0, 4) === "RIFF") return audioBuffer;
+  const inputRateHz = Math.max(8000, Math.round(Number(sampleRateHz) || LOCAL_ASR_SAMPLE_RATE_HZ));
+  return encodeWav(resamplePcm16Mono(audioBuffer, inputRateHz, LOCAL_ASR_SAMPLE_RATE_HZ), LOCAL_ASR_SAMPLE_RATE_HZ);
+}
+
+export async function runLocalTranscription({
+  config,
+  audioBuffer,
+  sampleRateHz = LOCAL_ASR_SAMPLE_RATE_HZ,
+  modelPath = "",
+  language = "",
+  prompt = "",
+  timeoutMs = LOCAL_ASR_TIMEOUT_MS
+}: {
+  config: LocalAsrConfig | null | undefined;
+  audioBuffer: Buffer;
+  sampleRateHz?: number;
+  modelPath?: string;
+  language?: string;
+  prompt?: string;
+  timeoutMs?: number;
+}) {
+  const binary = resolveLocalAsrBinary(config?.binaryPath);
+  if (!binary) {
+    throw new Error("Local ASR requires a whisper.cpp binary (WHISPER_CPP_BIN).");
+  }
+  const resolvedModelPath = String(modelPath || config?.modelPath || "").trim();
+  if (!resolvedModelPath || !existsSync(resolvedModelPath)) {
+    throw new Error("Local ASR requires a whisper.cpp model file (WHISPER_CPP_MODEL).");
+  }
+
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-local-asr-"));
+  const audioPath = path.join(tempDir, "audio.wav");
+  try {
+    await fs.writeFile(audioPath, prepareLocalAsrAudio(audioBuffer, sampleRateHz));
+    const args = [
+      binary,
+      "-m", resolvedModelPath,
+      "-f", audioPath,
+      "-nt",
+      "-np",
+      "-l", String(language || "").trim() || "auto"
+    ];
+    const threads = Math.floor(Number(config?.threads) || 0);
+    if (threads > 0) args.push("-t", String(threads));
+    if (prompt) args.push("--prompt", prompt);
+
+    const child = Bun.spawn(args, { stdin: "ignore", stdout: "pipe", stderr: "pipe" });
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      try {
+        child.kill("SIGKILL");
+      } catch {
+        // ignore
+      }
+    }, Math.max(1_000, Number(timeoutMs) || LOCAL_ASR_TIMEOUT_MS));
+    try {
+      const [stdout, stderr, exitCode] = await Promise.all([
+        new Response(child.stdout).text(),
+        new Response(child.stderr).text(),
+        child.exited
+      ]);
+      if (timedOut) {
+        throw new Error(`Local ASR timed out after ${timeoutMs}ms.`);
+      }
+      if (exitCode !== 0) {
+        const detail = String(stderr || "").trim().split("\n").slice(-3).join(" ").slice(0, 400);
+        throw new Error(`Local ASR exited with code ${exitCode}${detail ? `: ${detail}` : ""}`);
+      }
+      return String(stdout || "")
+        .replace(/\s+/g, " ")
+        .trim()
+        .slice(0, MAX_LOCAL_ASR_OUTPUT_CHARS);
+    } finally {
+      clearTimeout(timeout);
+    }
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
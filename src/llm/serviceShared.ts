@@ -1,5 +1,6 @@
 import type Anthropic from "@anthropic-ai/sdk";
 import { safeJsonParse } from "./llmClaudeCode.ts";
+import type { SpendCapStore } from "./spendCaps.ts";
 import {
   isGpt5FamilyModel,
   normalizeOpenAiReasoningEffort
@@ -92,7 +93,7 @@ export type ChatModelStreamCallbacks = {
   signal?: AbortSignal;
 };
 
-export type LlmActionStore = {
+export type LlmActionStore = SpendCapStore & {
   logAction: (entry: {
     kind: string;
     guildId?: string | null;
@@ -121,6 +122,10 @@ export type LLMAppConfig = {
   defaultCodexCliModel?: string | null;
   defaultMemoryEmbeddingModel?: string | null;
   ollamaBaseUrl?: string | null;
+  localEmbeddingCacheDir?: string | null;
+  whisperCppBin?: string | null;
+  whisperCppModel?: string | null;
+  whisperCppThreads?: number | null;
 };
 
 type ToolLoopTextBlock = {
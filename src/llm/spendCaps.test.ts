@@ -0,0 +1,149 @@
+import { test } from "bun:test";
+import assert from "node:assert/strict";
+import { Store } from "../store/store.ts";
+import { backfillSpendLedgerFromActions } from "../store/storeSpendLedger.ts";
+import {
+  getSpendCapStatus,
+  resolveSpendCapDecision,
+  resolveSpendCapFeature
+} from "./spendCaps.ts";
+
+const NOW_MS = Date.parse("2026-03-15T12:00:00.000Z");
+
+function logSpend(store: Store, { kind, source = null, usdCost, createdAt }: {
+  kind: string;
+  source?: string | null;
+  usdCost: number;
+  createdAt: string;
+}) {
+  store.recordSpendLedgerEntry({ kind, source, usdCost, createdAt });
+}
+
+function capSettings(features: Record<string, unknown>) {
+  return {
+    spendCaps: {
+      enabled: true,
+      degradeModel: { provider: "openai", model: "gpt-5-nano" },
+      features
+    }
+  };
+}
+
+test("resolveSpendCapFeature attributes actions by kind and trace source", () => {
+  assert.equal(resolveSpendCapFeature({ kind: "llm_call", source: "message_event" }), "reply");
+  assert.equal(resolveSpendCapFeature({ kind: "llm_call", source: "reply_pipeline_auto_caption" }), "vision");
+  assert.equal(resolveSpendCapFeature({ kind: "llm_call", source: "voice_realtime_generation" }), "voice");
+  assert.equal(resolveSpendCapFeature({ kind: "voice_runtime" }), "voice");
+  assert.equal(resolveSpendCapFeature({ kind: "memory_reflection_complete" }), "memoryReflection");
+  assert.equal(resolveSpendCapFeature({ kind: "code_agent_call", source: "reply_message" }), "codeAgent");
+  assert.equal(resolveSpendCapFeature({ kind: "browser_browse_call", source: "reply_message" }), "browserAgent");
+  assert.equal(resolveSpendCapFeature({ kind: "llm_tool_call", source: "reply_message" }), null);
+  assert.equal(resolveSpendCapFeature({ kind: "llm_call", source: "automation_run" }), null);
+});
+
+test("getSpendCapStatus sums UTC day and month spend per feature", () => {
+  const store = new Store(":memory:");
+  store.init();
+
+  try {
+    logSpend(store, { kind: "llm_call", source: "message_event", usdCost: 0.4, createdAt: "2026-03-15T08:00:00.000Z" });
+    logSpend(store, { kind: "llm_call", source: "reply_message", usdCost: 0.25, createdAt: "2026-03-02T08:00:00.000Z" });
+    logSpend(store, { kind: "llm_call", source: "message_event", usdCost: 9, createdAt: "2026-02-27T08:00:00.000Z" });
+    logSpend(store, { kind: "code_agent_call", source: "reply_message", usdCost: 1.5, createdAt: "2026-03-15T09:00:00.000Z" });
+
+    const status = getSpendCapStatus(store, capSettings({
+      reply: { dailyUsd: 1, monthlyUsd: 5 },
+      codeAgent: { dailyUsd: 1, onExceeded: "degrade" }
+    }), NOW_MS);
+
+    assert.equal(status.enabled, true);
+    assert.equal(status.dayStartedAt, "2026-03-15T00:00:00.000Z");
+    assert.equal(status.monthStartedAt, "2026-03-01T00:00:00.000Z");
+
+    const reply = status.features.find((entry) => entry.feature === "reply");
+    assert.equal(reply?.dailySpentUsd, 0.4);
+    assert.equal(reply?.monthlySpentUsd, 0.65);
+    assert.equal(reply?.dailyRemainingUsd, 0.6);
+    assert.equal(reply?.monthlyRemainingUsd, 4.35);
+    assert.equal(reply?.exceededWindow, null);
+
+    const codeAgent = status.features.find((entry) => entry.feature === "codeAgent");
+    assert.equal(codeAgent?.exceededWindow, "daily");
+    assert.equal(codeAgent?.onExceeded, "refuse");
+    assert.equal(codeAgent?.monthlyRemainingUsd, null);
+  } finally {
+    store.close();
+  }
+});
+
+test("resolveSpendCapDecision degrades or refuses once a cap is reached", () => {
+  const store = new Store(":memory:");
+  store.init();
+
+  try {
+    logSpend(store, { kind: "llm_call", source: "message_event", usdCost: 2, createdAt: "2026-03-10T08:00:00.000Z" });
+    logSpend(store, { kind: "llm_call", source: "image_caption", usdCost: 2, createdAt: "2026-03-10T08:00:00.000Z" });
+
+    const settings = capSettings({
+      reply: { monthlyUsd: 2, onExceeded: "degrade" },
+      vision: { monthlyUsd: 2, onExceeded: "refuse" },
+      voice: { dailyUsd: 1 }
+    });
+
+    const reply = resolveSpendCapDecision({ store, settings, feature: "reply", nowMs: NOW_MS });
+    assert.equal(reply.action, "degrade");
+    assert.deepEqual(reply.action === "degrade" ? reply.binding : null, { provider: "openai", model: "gpt-5-nano" });
+
+    const vision = resolveSpendCapDecision({ store, settings, feature: "vision", nowMs: NOW_MS });
+    assert.equal(vision.action, "refuse");
+    assert.equal(vision.status?.exceededWindow, "monthly");
+
+    assert.equal(resolveSpendCapDecision({ store, settings, feature: "voice", nowMs: NOW_MS }).action, "allow");
+    assert.equal(
+      resolveSpendCapDecision({
+        store,
+        settings: { spendCaps: { ...settings.spendCaps, enabled: false } },
+        feature: "vision",
+        nowMs: NOW_MS
+      }).action,
+      "allow"
+    );
+  } finally {
+    store.close();
+  }
+});
+
+test("monthly spend survives action log pruning through the spend ledger", () => {
+  const store = new Store(":memory:");
+  store.init();
+
+  try {
+    store.logAction({ kind: "llm_call", content: "reply", metadata: { source: "message_event" }, usdCost: 1.25 });
+    store.logAction({ kind: "voice_runtime", content: "voice", usdCost: 0.5 });
+    store.logAction({ kind: "llm_call", content: "unbilled", metadata: { source: "automation_run" }, usdCost: 3 });
+    store.pruneActionLog({ now: new Date(Date.now() + 40 * 24 * 60 * 60 * 1000).toISOString(), maxAgeDays: 1 });
+    assert.equal(store.getRecentActions(10).length, 0);
+
+    const status = getSpendCapStatus(store, capSettings({ reply: { monthlyUsd: 5 } }));
+    assert.equal(status.features.find((entry) => entry.feature === "reply")?.monthlySpentUsd, 1.25);
+    assert.equal(status.features.find((entry) => entry.feature === "voice")?.monthlySpentUsd, 0.5);
+  } finally {
+    store.close();
+  }
+});
+
+test("an empty spend ledger is seeded from the action log", () => {
+  const store = new Store(":memory:");
+  store.init();
+
+  try {
+    store.logAction({ kind: "llm_call", content: "reply", metadata: { source: "reply_message" }, usdCost: 0.75 });
+    store.db.prepare("DELETE FROM spend_ledger").run();
+    backfillSpendLedgerFromActions(store);
+
+    const status = getSpendCapStatus(store, capSettings({ reply: { monthlyUsd: 5 } }));
+    assert.equal(status.features.find((entry) => entry.feature === "reply")?.monthlySpentUsd, 0.75);
+  } finally {
+    store.close();
+  }
+});
@@ -0,0 +1,221 @@
+import { getSpendCapsSettings } from "../settings/agentStack.ts";
+
+export const SPEND_CAP_FEATURES = [
+  "reply",
+  "voice",
+  "memoryReflection",
+  "codeAgent",
+  "browserAgent",
+  "vision"
+] as const;
+
+export type SpendCapFeature = (typeof SPEND_CAP_FEATURES)[number];
+
+// Code and browser agents run as multi-step sessions without a single binding to swap,
+// so an exceeded cap always refuses new runs for them.
+const DEGRADABLE_SPEND_CAP_FEATURES = new Set<SpendCapFeature>(["reply", "voice", "memoryReflection", "vision"]);
+
+const VISION_SPEND_SOURCES = new Set([
+  "image_caption",
+  "history_image_caption",
+  "reply_pipeline_auto_caption",
+  "video_keyframe",
+  "video_context_tool"
+]);
+
+const REPLY_SPEND_SOURCES = new Set([
+  "message_event",
+  "reply_message",
+  "startup_catchup",
+  "member_join_event",
+  "text_cancel_acknowledgement"
+]);
+
+export type SpendCapWindow = "daily" | "monthly";
+
+export type SpendLedgerTotal = {
+  feature: SpendCapFeature;
+  dayUsd: number;
+  monthUsd: number;
+};
+
+export type SpendCapStore = {
+  getSpendLedgerTotals?: (args: { monthSinceIso: string; daySinceIso: string }) => SpendLedgerTotal[];
+};
+
+export type SpendCapFeatureStatus = {
+  feature: SpendCapFeature;
+  onExceeded: "degrade" | "refuse";
+  dailyCapUsd: number;
+  monthlyCapUsd: number;
+  dailySpentUsd: number;
+  monthlySpentUsd: number;
+  dailyRemainingUsd: number | null;
+  monthlyRemainingUsd: number | null;
+  exceededWindow: SpendCapWindow | null;
+};
+
+export type SpendCapStatus = {
+  enabled: boolean;
+  dayStartedAt: string;
+  monthStartedAt: string;
+  degradeModel: { provider: string; model: string };
+  features: SpendCapFeatureStatus[];
+};
+
+export type SpendCapDecision =
+  | { action: "allow"; status: SpendCapFeatureStatus | null }
+  | { action: "degrade"; status: SpendCapFeatureStatus; binding: { provider: string; model: string } }
+  | { action: "refuse"; status: SpendCapFeatureStatus };
+
+export class SpendCapExceededError extends Error {
+  feature: SpendCapFeature;
+  window: SpendCapWindow;
+
+  constructor(status: SpendCapFeatureStatus) {
+    super(describeSpendCapExceeded(status));
+    this.name = "SpendCapExceededError";
+    this.feature = status.feature;
+    this.window = status.exceededWindow || "daily";
+  }
+}
+
+/**
+ * Maps a logged action onto the capped feature it bills against. Tool-loop calls
+ * (`llm_tool_call`) are skipped because the browser, code and voice runtimes already
+ * record their step spend on a summary row of their own.
+ */
+export function resolveSpendCapFeature({ kind, source = null }: { kind: unknown; source?: unknown }): SpendCapFeature | null {
+  const normalizedKind = String(kind || "").trim();
+  const normalizedSource = String(source || "").trim();
+  if (normalizedKind.startsWith("code_agent_")) return "codeAgent";
+  if (normalizedKind === "browser_browse_call" || normalizedKind === "browser_agent_session_turn") return "browserAgent";
+  if (normalizedKind === "memory_reflection_complete") return "memoryReflection";
+  if (normalizedKind === "voice_runtime") return "voice";
+  if (normalizedKind === "video_context_call") return "vision";
+  if (normalizedKind !== "llm_call") return null;
+
+  if (VISION_SPEND_SOURCES.has(normalizedSource)) return "vision";
+  if (normalizedSource.startsWith("voice_") || normalizedSource === "realtime") return "voice";
+  if (REPLY_SPEND_SOURCES.has(normalizedSource) || normalizedSource.startsWith("reply_")) return "reply";
+  return null;
+}
+
+function getSpendWindowStarts(nowMs: number) {
+  const now = new Date(nowMs);
+  const dayStartMs = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const monthStartMs = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+  return {
+    dayStartedAt: new Date(dayStartMs).toISOString(),
+    monthStartedAt: new Date(monthStartMs).toISOString()
+  };
+}
+
+function roundUsd(value: number) {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function buildFeatureStatus(
+  feature: SpendCapFeature,
+  config: { dailyUsd: number; monthlyUsd: number; onExceeded: string },
+  spend: { dayUsd: number; monthUsd: number }
+): SpendCapFeatureStatus {
+  const dailyCapUsd = Math.max(0, Number(config.dailyUsd) || 0);
+  const monthlyCapUsd = Math.max(0, Number(config.monthlyUsd) || 0);
+  const dailySpentUsd = roundUsd(spend.dayUsd);
+  const monthlySpentUsd = roundUsd(spend.monthUsd);
+  const dailyExceeded = dailyCapUsd > 0 && dailySpentUsd >= dailyCapUsd;
+  const monthlyExceeded = monthlyCapUsd > 0 && monthlySpentUsd >= monthlyCapUsd;
+  const onExceeded =
+    config.onExceeded === "degrade" && DEGRADABLE_SPEND_CAP_FEATURES.has(feature) ? "degrade" : "refuse";
+
+  return {
+    feature,
+    onExceeded,
+    dailyCapUsd,
+    monthlyCapUsd,
+    dailySpentUsd,
+    monthlySpentUsd,
+    dailyRemainingUsd: dailyCapUsd > 0 ? roundUsd(Math.max(0, dailyCapUsd - dailySpentUsd)) : null,
+    monthlyRemainingUsd: monthlyCapUsd > 0 ? roundUsd(Math.max(0, monthlyCapUsd - monthlySpentUsd)) : null,
+    exceededWindow: monthlyExceeded ? "monthly" : dailyExceeded ? "daily" : null
+  };
+}
+
+/**
+ * Reads this UTC day's and month's spend per capped feature from the spend ledger, which
+ * keeps daily totals after the action log is pruned.
+ */
+export function getSpendCapStatus(store: SpendCapStore | null | undefined, settings: unknown, nowMs = Date.now()): SpendCapStatus {
+  const spendCaps = getSpendCapsSettings(settings);
+  const windows = getSpendWindowStarts(nowMs);
+  const spendByFeature = new Map<SpendCapFeature, { dayUsd: number; monthUsd: number }>(
+    SPEND_CAP_FEATURES.map((feature) => [feature, { dayUsd: 0, monthUsd: 0 }])
+  );
+
+  const rows = typeof store?.getSpendLedgerTotals === "function"
+    ? store.getSpendLedgerTotals({ monthSinceIso: windows.monthStartedAt, daySinceIso: windows.dayStartedAt })
+    : [];
+  for (const row of rows) {
+    const totals = spendByFeature.get(row.feature);
+    if (!totals) continue;
+    totals.dayUsd += Number(row.dayUsd) || 0;
+    totals.monthUsd += Number(row.monthUsd) || 0;
+  }
+
+  return {
+    enabled: Boolean(spendCaps.enabled),
+    ...windows,
+    degradeModel: {
+      provider: spendCaps.degradeModel.provider,
+      model: spendCaps.degradeModel.model
+    },
+    features: SPEND_CAP_FEATURES.map((feature) =>
+      buildFeatureStatus(feature, spendCaps.features[feature], spendByFeature.get(feature))
+    )
+  };
+}
+
+/**
+ * Decides whether a call billed to `feature` may proceed. Features without caps, or with
+ * caps disabled, skip the spend query entirely.
+ */
+export function resolveSpendCapDecision({
+  store,
+  settings,
+  feature,
+  nowMs = Date.now()
+}: {
+  store: SpendCapStore | null | undefined;
+  settings: unknown;
+  feature: SpendCapFeature | null;
+  nowMs?: number;
+}): SpendCapDecision {
+  if (!feature) return { action: "allow", status: null };
+  const spendCaps = getSpendCapsSettings(settings);
+  const config = spendCaps.features[feature];
+  if (!spendCaps.enabled || !config || (!(Number(config.dailyUsd) > 0) && !(Number(config.monthlyUsd) > 0))) {
+    return { action: "allow", status: null };
+  }
+
+  const status = getSpendCapStatus(store, settings, nowMs).features.find((entry) => entry.feature === feature);
+  if (!status?.exceededWindow) return { action: "allow", status: status || null };
+  if (status.onExceeded === "degrade") {
+    return {
+      action: "degrade",
+      status,
+      binding: {
+        provider: spendCaps.degradeModel.provider,
+        model: spendCaps.degradeModel.model
+      }
+    };
+  }
+  return { action: "refuse", status };
+}
+
+export function describeSpendCapExceeded(status: SpendCapFeatureStatus) {
+  const window = status.exceededWindow === "monthly" ? "monthly" : "daily";
+  const spent = window === "monthly" ? status.monthlySpentUsd : status.dailySpentUsd;
+  const cap = window === "monthly" ? status.monthlyCapUsd : status.dailyCapUsd;
+  return `${status.feature} ${window} spend cap reached ($${spent.toFixed(4)} of $${cap.toFixed(2)}).`;
+}
@@ -0,0 +1,161 @@
+import { test } from "bun:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { McpClientManager, normalizeMcpServerConfigs } from "./mcpClient.ts";
+import { McpProtocolError, type McpTransport } from "./mcpTransports.ts";
+
+function createFakeTransport(handlers: Record<string, (params: Record<string, unknown>) => unknown>) {
+  const calls: Array<{ method: string; params: Record<string, unknown> }> = [];
+  const transport: McpTransport & { calls: typeof calls; closed: boolean } = {
+    calls,
+    closed: false,
+    async request(method, params) {
+      calls.push({ method, params });
+      const handler = handlers[method];
+      if (!handler) throw new McpProtocolError(`Method not found: ${method}`, -32601);
+      return await handler(params);
+    },
+    async notify(method, params = {}) {
+      calls.push({ method, params });
+    },
+    async close() {
+      transport.closed = true;
+    }
+  };
+  return transport;
+}
+
+test("normalizeMcpServerConfigs infers transports and drops incomplete entries", () => {
+  const servers = normalizeMcpServerConfigs([
+    { serverName: "github", command: "npx", args: ["-y", "server-github"], env: { TOKEN: "abc" } },
+    { name: "docs", url: "https://example.com/mcp", headers: { authorization: "Bearer x" }, timeoutMs: 5 },
+    { serverName: "github", command: "duplicate" },
+    { serverName: "broken", transport: "stdio", url: "https://example.com/mcp" },
+    { serverName: "" , command: "nope" },
+    "not-an-object"
+  ]);
+
+  assert.deepEqual(servers.map((server) => [server.serverName, server.transport]), [
+    ["github", "stdio"],
+    ["docs", "streamable_http"]
+  ]);
+  assert.deepEqual(servers[0]?.args, ["-y", "server-github"]);
+  assert.deepEqual(servers[0]?.env, { TOKEN: "abc" });
+  assert.deepEqual(servers[1]?.headers, { authorization: "Bearer x" });
+  assert.equal(servers[1]?.timeoutMs, 500);
+  assert.deepEqual(normalizeMcpServerConfigs(null), []);
+});
+
+test("McpClientManager discovers tools and routes tool calls to the owning server", async () => {
+  const transport = createFakeTransport({
+    initialize: () => ({ protocolVersion: "2025-03-26", serverInfo: { name: "docs", version: "1.2.0" } }),
+    "tools/list": () => ({
+      tools: [{ name: "search_docs", description: "Search docs", inputSchema: { type: "object", properties: { query: { type: "string" } } } }]
+    }),
+    "tools/call": (params) => ({
+      content: [{ type: "text", text: `results for ${String((params.arguments as Record<string, unknown>)?.query)}` }]
+    })
+  });
+  const manager = new McpClientManager({
+    servers: normalizeMcpServerConfigs([{ serverName: "docs", url: "https://example.com/mcp" }]),
+    createTransport: () => transport
+  });
+
+  const statuses = await manager.connectAll();
+  assert.equal(statuses[0]?.connected, true);
+  assert.equal(statuses[0]?.serverVersion, "1.2.0");
+  assert.deepEqual(manager.listServerTools().map((listing) => [listing.serverName, listing.tools.map((tool) => tool.name)]), [
+    ["docs", ["search_docs"]]
+  ]);
+  assert.equal(transport.calls.some((call) => call.method === "notifications/initialized"), true);
+
+  const result = await manager.callTool({ serverName: "docs", toolName: "search_docs", args: { query: "voice" } });
+  assert.deepEqual(result, { content: "results for voice", isError: false });
+  assert.ok(manager.getServerStatuses()[0]?.lastCallAt);
+
+  await manager.close();
+  assert.equal(transport.closed, true);
+});
+
+test("McpClientManager marks a server disconnected when its transport fails", async () => {
+  const transport = createFakeTransport({
+    initialize: () => ({ serverInfo: { name: "flaky" } }),
+    "tools/list": () => ({ tools: [{ name: "ping_host" }] }),
+    "tools/call": () => {
+      throw new Error("mcp_process_exited:code 1");
+    }
+  });
+  const actions: Array<Record<string, unknown>> = [];
+  const manager = new McpClientManager({
+    servers: normalizeMcpServerConfigs([{ serverName: "flaky", command: "flaky-server" }]),
+    store: { logAction: (entry) => actions.push(entry) },
+    createTransport: () => transport
+  });
+  await manager.connectAll();
+
+  const result = await manager.callTool({ serverName: "flaky", toolName: "ping_host" });
+  assert.equal(result.isError, true);
+  assert.match(result.content, /mcp_process_exited/);
+  const status = manager.getServerStatuses()[0];
+  assert.equal(status?.connected, false);
+  assert.match(String(status?.lastError), /mcp_process_exited/);
+  assert.deepEqual(manager.listServerTools(), []);
+  assert.equal(actions.some((entry) => entry.content === "mcp_tool_call_failed"), true);
+
+  const missing = await manager.callTool({ serverName: "unknown", toolName: "anything" });
+  assert.equal(missing.isError, true);
+});
+
+test("McpClientManager keeps the server connected on tool-level protocol errors", async () => {
+  const manager = new McpClientManager({
+    servers: normalizeMcpServerConfigs([{ serverName: "docs", url: "https://example.com/mcp" }]),
+    createTransport: () => createFakeTransport({
+      initialize: () => ({}),
+      "tools/list": () => ({ tools: [{ name: "search_docs" }] })
+    })
+  });
+  await manager.connectAll();
+
+  const result = await manager.callTool({ serverName: "docs", toolName: "search_docs" });
+  assert.equal(result.isError, true);
+  assert.equal(manager.getServerStatuses()[0]?.connected, true);
+});
+
+test("McpClientManager talks to a stdio MCP server process", async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "clanker-mcp-"));
+  const scriptPath = path.join(dir, "server.js");
+  await writeFile(scriptPath, `
+let buffer = "";
+process.stdin.setEncoding("utf8");
+process.stdin.on("data", (chunk) => {
+  buffer += chunk;
+  let index;
+  while ((index = buffer.indexOf("\\n")) >= 0) {
+    const line = buffer.slice(0, index);
+    buffer = buffer.slice(index + 1);
+    if (!line.trim()) continue;
+    const message = JSON.parse(line);
+    if (message.id === undefined) continue;
+    let result = {};
+    if (message.method === "initialize") result = { protocolVersion: message.params.protocolVersion, serverInfo: { name: "echo", version: "0.0.1" } };
+    if (message.method === "tools/list") result = { tools: [{ name: "echo", inputSchema: { type: "object", properties: { text: { type: "string" } } } }] };
+    if (message.method === "tools/call") result = { content: [{ type: "text", text: "echo:" + message.params.arguments.text }] };
+    process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: message.id, result }) + "\\n");
+  }
+});
+`);
+  const manager = new McpClientManager({
+    servers: normalizeMcpServerConfigs([{ serverName: "echo", command: process.execPath, args: [scriptPath] }])
+  });
+  try {
+    await manager.connectAll();
+    assert.deepEqual(manager.listServerTools()[0]?.tools.map((tool) => tool.name), ["echo"]);
+    const result = await manager.callTool({ serverName: "echo", toolName: "echo", args: { text: "hi" } });
+    assert.deepEqual(result, { content: "echo:hi", isError: false });
+  } finally {
+    await manager.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
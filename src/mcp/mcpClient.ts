@@ -0,0 +1,427 @@
+import { clamp, nowIso } from "../utils.ts";
+import { isAbortError } from "../tools/browserTaskRuntime.ts";
+import {
+  McpProtocolError,
+  StdioMcpTransport,
+  StreamableHttpMcpTransport,
+  type McpTransport
+} from "./mcpTransports.ts";
+
+const MCP_PROTOCOL_VERSION = "2025-03-26";
+const MCP_CLIENT_INFO = { name: "clanker-conk", version: "0.1.0" };
+const DEFAULT_TIMEOUT_MS = 20_000;
+const MIN_TIMEOUT_MS = 500;
+const MAX_TIMEOUT_MS = 120_000;
+const MAX_TOOLS_PER_SERVER = 128;
+const MAX_TOOL_LIST_PAGES = 8;
+const MAX_TOOL_RESULT_CHARS = 12_000;
+const RECONNECT_BACKOFF_MS = 30_000;
+
+export type McpServerTransportKind = "stdio" | "streamable_http";
+
+export type McpServerConfig = {
+  serverName: string;
+  transport: McpServerTransportKind;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  timeoutMs: number;
+};
+
+export type McpToolDescriptor = {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+};
+
+export type McpServerToolListing = {
+  serverName: string;
+  tools: McpToolDescriptor[];
+};
+
+export type McpServerStatus = {
+  serverName: string;
+  transport: McpServerTransportKind;
+  connected: boolean;
+  tools: McpToolDescriptor[];
+  lastError: string | null;
+  lastConnectedAt: string | null;
+  lastCallAt: string | null;
+  serverVersion: string | null;
+};
+
+export type McpToolCallResult = {
+  content: string;
+  isError: boolean;
+};
+
+type McpActionStore = {
+  logAction: (entry: Record<string, unknown>) => void;
+};
+
+type McpServerEntry = {
+  config: McpServerConfig;
+  transport: McpTransport | null;
+  status: McpServerStatus;
+  connecting: Promise<boolean> | null;
+  lastAttemptAt: number;
+};
+
+function normalizeStringRecord(value: unknown, maxKeyLen: number, maxValueLen: number) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value)
+      .map(([key, entryValue]) => [String(key || "").trim().slice(0, maxKeyLen), String(entryValue ?? "").slice(0, maxValueLen)])
+      .filter(([key]) => Boolean(key))
+  );
+}
+
+/**
+ * Parse MCP server definitions from operator config. Entries with a `command`
+ * run over stdio; entries with a `url` use streamable HTTP unless
+ * `transport` says otherwise.
+ */
+export function normalizeMcpServerConfigs(raw: unknown): McpServerConfig[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const servers: McpServerConfig[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") continue;
+    const serverName = String(entry.serverName || entry.name || "").trim().slice(0, 80);
+    if (!serverName || seen.has(serverName)) continue;
+    const command = String(entry.command || "").trim();
+    const url = String(entry.url || entry.baseUrl || "").trim();
+    const requestedTransport = String(entry.transport || "").trim().toLowerCase();
+    const transport: McpServerTransportKind | null =
+      requestedTransport === "stdio"
+        ? "stdio"
+        : requestedTransport === "http" || requestedTransport === "streamable_http" || requestedTransport === "streamable-http"
+          ? "streamable_http"
+          : command
+            ? "stdio"
+            : url
+              ? "streamable_http"
+              : null;
+    if (transport === "stdio" && !command) continue;
+    if (transport === "streamable_http" && !url) continue;
+    if (!transport) continue;
+    seen.add(serverName);
+    servers.push({
+      serverName,
+      transport,
+      ...(transport === "stdio"
+        ? {
+            command,
+            args: Array.isArray(entry.args) ? entry.args.map((arg) => String(arg ?? "")) : [],
+            env: normalizeStringRecord(entry.env, 120, 4000),
+            cwd: String(entry.cwd || "").trim() || undefined
+          }
+        : {
+            url,
+            headers: normalizeStringRecord(entry.headers, 120, 2000)
+          }),
+      timeoutMs: clamp(Math.round(Number(entry.timeoutMs) || DEFAULT_TIMEOUT_MS), MIN_TIMEOUT_MS, MAX_TIMEOUT_MS)
+    });
+  }
+  return servers;
+}
+
+function createDefaultTransport(config: McpServerConfig): McpTransport {
+  if (config.transport === "stdio") {
+    return new StdioMcpTransport({
+      command: String(config.command || ""),
+      args: config.args || [],
+      env: config.env || {},
+      cwd: config.cwd
+    });
+  }
+  return new StreamableHttpMcpTransport({
+    url: String(config.url || ""),
+    headers: config.headers || {}
+  });
+}
+
+function normalizeToolDescriptor(value: unknown): McpToolDescriptor | null {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  const name = String(record.name || "").trim().slice(0, 120);
+  if (!name) return null;
+  const inputSchema =
+    record.inputSchema && typeof record.inputSchema === "object" && !Array.isArray(record.inputSchema)
+      ? record.inputSchema as Record<string, unknown>
+      : { type: "object", properties: {} };
+  return {
+    name,
+    description: String(record.description || "").trim().slice(0, 800),
+    inputSchema
+  };
+}
+
+function formatToolCallContent(result: unknown): McpToolCallResult {
+  const record = result && typeof result === "object" ? result as Record<string, unknown> : {};
+  const blocks = Array.isArray(record.content) ? record.content : [];
+  const parts: string[] = [];
+  for (const block of blocks) {
+    if (!block || typeof block !== "object") continue;
+    const blockRecord = block as Record<string, unknown>;
+    const type = String(blockRecord.type || "");
+    if (type === "text") {
+      parts.push(String(blockRecord.text || ""));
+    } else if (type === "resource") {
+      const resource = blockRecord.resource && typeof blockRecord.resource === "object"
+        ? blockRecord.resource as Record<string, unknown>
+        : {};
+      parts.push(String(resource.text || `[resource ${String(resource.uri || "")}]`));
+    } else if (type === "resource_link") {
+      parts.push(`[resource ${String(blockRecord.uri || "")}]`);
+    } else if (type) {
+      parts.push(`[${type} content omitted]`);
+    }
+  }
+  if (!parts.length && record.structuredContent !== undefined) {
+    parts.push(JSON.stringify(record.structuredContent));
+  }
+  const content = parts.join("\n").trim() || "(no content)";
+  return {
+    content: content.slice(0, MAX_TOOL_RESULT_CHARS),
+    isError: record.isError === true
+  };
+}
+
+function describeError(error: unknown) {
+  return String(error instanceof Error ? error.message : error).slice(0, 400);
+}
+
+/**
+ * Shared MCP client for every text-side tool loop. Each configured server is
+ * connected lazily (initialize + tools/list), tracked with its own health
+ * status, and reconnected on the next call after a transport failure.
+ */
+export class McpClientManager {
+  private readonly servers = new Map<string, McpServerEntry>();
+  private readonly store: McpActionStore | null;
+  private readonly createTransport: (config: McpServerConfig) => McpTransport;
+  private closed = false;
+
+  constructor({
+    servers = [],
+    store = null,
+    createTransport = createDefaultTransport
+  }: {
+    servers?: McpServerConfig[];
+    store?: McpActionStore | null;
+    createTransport?: (config: McpServerConfig) => McpTransport;
+  } = {}) {
+    this.store = store;
+    this.createTransport = createTransport;
+    for (const config of servers) {
+      this.servers.set(config.serverName, {
+        config,
+        transport: null,
+        connecting: null,
+        lastAttemptAt: 0,
+        status: {
+          serverName: config.serverName,
+          transport: config.transport,
+          connected: false,
+          tools: [],
+          lastError: null,
+          lastConnectedAt: null,
+          lastCallAt: null,
+          serverVersion: null
+        }
+      });
+    }
+  }
+
+  hasServers() {
+    return this.servers.size > 0;
+  }
+
+  async connectAll() {
+    await Promise.all([...this.servers.values()].map((entry) => this.ensureConnected(entry, { force: true })));
+    return this.getServerStatuses();
+  }
+
+  getServerStatuses(): McpServerStatus[] {
+    return [...this.servers.values()].map((entry) => ({
+      ...entry.status,
+      tools: entry.status.tools.map((tool) => ({ ...tool }))
+    }));
+  }
+
+  listServerTools(): McpServerToolListing[] {
+    return [...this.servers.values()]
+      .filter((entry) => entry.status.connected && entry.status.tools.length > 0)
+      .map((entry) => ({
+        serverName: entry.config.serverName,
+        tools: entry.status.tools
+      }));
+  }
+
+  async callTool({
+    serverName,
+    toolName,
+    args = {},
+    signal
+  }: {
+    serverName: string;
+    toolName: string;
+    args?: Record<string, unknown>;
+    signal?: AbortSignal;
+  }): Promise<McpToolCallResult> {
+    const entry = this.servers.get(String(serverName || "").trim());
+    if (!entry) {
+      return { content: `MCP server '${serverName}' is not configured.`, isError: true };
+    }
+    const connected = await this.ensureConnected(entry);
+    if (!connected || !entry.transport) {
+      return {
+        content: `MCP server '${entry.config.serverName}' is unavailable: ${entry.status.lastError || "not connected"}`,
+        isError: true
+      };
+    }
+
+    entry.status.lastCallAt = nowIso();
+    try {
+      const result = await entry.transport.request(
+        "tools/call",
+        { name: toolName, arguments: args && typeof args === "object" ? args : {} },
+        { timeoutMs: entry.config.timeoutMs, signal }
+      );
+      entry.status.lastError = null;
+      return formatToolCallContent(result);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const message = describeError(error);
+      if (!(error instanceof McpProtocolError)) {
+        await this.markDisconnected(entry, message);
+      } else {
+        entry.status.lastError = message;
+      }
+      this.log("bot_error", "mcp_tool_call_failed", {
+        serverName: entry.config.serverName,
+        toolName,
+        error: message
+      });
+      return { content: `MCP tool ${toolName} failed: ${message}`, isError: true };
+    }
+  }
+
+  async close() {
+    this.closed = true;
+    await Promise.all([...this.servers.values()].map(async (entry) => {
+      const transport = entry.transport;
+      entry.transport = null;
+      entry.status.connected = false;
+      await transport?.close().catch(() => undefined);
+    }));
+  }
+
+  private async ensureConnected(entry: McpServerEntry, { force = false }: { force?: boolean } = {}) {
+    if (this.closed) return false;
+    if (entry.status.connected && entry.transport) return true;
+    if (entry.connecting) return await entry.connecting;
+    if (!force && Date.now() - entry.lastAttemptAt < RECONNECT_BACKOFF_MS) return false;
+    entry.lastAttemptAt = Date.now();
+    entry.connecting = this.connect(entry).finally(() => {
+      entry.connecting = null;
+    });
+    return await entry.connecting;
+  }
+
+  private async connect(entry: McpServerEntry) {
+    const { config } = entry;
+    const transport = this.createTransport(config);
+    try {
+      const initResult = await transport.request(
+        "initialize",
+        {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: MCP_CLIENT_INFO
+        },
+        { timeoutMs: config.timeoutMs }
+      ) as Record<string, unknown> | null;
+      await transport.notify("notifications/initialized");
+      const tools = await this.listTools(transport, config.timeoutMs);
+      if (this.closed) {
+        await transport.close().catch(() => undefined);
+        return false;
+      }
+      const serverInfo = initResult?.serverInfo && typeof initResult.serverInfo === "object"
+        ? initResult.serverInfo as Record<string, unknown>
+        : {};
+      entry.transport = transport;
+      entry.status = {
+        ...entry.status,
+        connected: true,
+        tools,
+        lastError: null,
+        lastConnectedAt: nowIso(),
+        serverVersion: String(serverInfo.version || "").trim() || null
+      };
+      this.log("runtime", "mcp_server_connected", {
+        serverName: config.serverName,
+        transport: config.transport,
+        toolCount: tools.length
+      });
+      return true;
+    } catch (error) {
+      const message = describeError(error);
+      await transport.close().catch(() => undefined);
+      entry.transport = null;
+      entry.status = {
+        ...entry.status,
+        connected: false,
+        lastError: message
+      };
+      this.log("bot_error", "mcp_server_connect_failed", {
+        serverName: config.serverName,
+        transport: config.transport,
+        error: message
+      });
+      return false;
+    }
+  }
+
+  private async listTools(transport: McpTransport, timeoutMs: number) {
+    const tools: McpToolDescriptor[] = [];
+    let cursor: string | null = null;
+    for (let page = 0; page < MAX_TOOL_LIST_PAGES; page += 1) {
+      const result = await transport.request("tools/list", cursor ? { cursor } : {}, { timeoutMs }) as
+        Record<string, unknown> | null;
+      const pageTools = Array.isArray(result?.tools) ? result.tools : [];
+      for (const tool of pageTools) {
+        const normalized = normalizeToolDescriptor(tool);
+        if (normalized) tools.push(normalized);
+      }
+      cursor = String(result?.nextCursor || "").trim() || null;
+      if (!cursor || tools.length >= MAX_TOOLS_PER_SERVER) break;
+    }
+    return tools.slice(0, MAX_TOOLS_PER_SERVER);
+  }
+
+  private async markDisconnected(entry: McpServerEntry, message: string) {
+    const transport = entry.transport;
+    entry.transport = null;
+    entry.lastAttemptAt = 0;
+    entry.status = {
+      ...entry.status,
+      connected: false,
+      lastError: message
+    };
+    await transport?.close().catch(() => undefined);
+  }
+
+  private log(kind: string, content: string, metadata: Record<string, unknown>) {
+    try {
+      this.store?.logAction({ kind, content, metadata });
+    } catch {
+      // logging must never break tool execution
+    }
+  }
+}
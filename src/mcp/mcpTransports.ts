@@ -0,0 +1,355 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { createAbortError } from "../tools/browserTaskRuntime.ts";
+
+const MAX_STDERR_TAIL_CHARS = 2000;
+const MAX_ERROR_DETAIL_CHARS = 400;
+
+export type McpRequestOptions = {
+  timeoutMs: number;
+  signal?: AbortSignal;
+};
+
+export interface McpTransport {
+  request(method: string, params: Record<string, unknown>, options: McpRequestOptions): Promise<unknown>;
+  notify(method: string, params?: Record<string, unknown>): Promise<void>;
+  close(): Promise<void>;
+}
+
+type JsonRpcMessage = {
+  jsonrpc?: string;
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: {
+    code?: number;
+    message?: string;
+    data?: unknown;
+  } | null;
+};
+
+type PendingRequest = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+};
+
+export class McpProtocolError extends Error {
+  code: number | null;
+
+  constructor(message: string, code: number | null = null) {
+    super(message);
+    this.name = "McpProtocolError";
+    this.code = code;
+  }
+}
+
+function buildJsonRpcError(error: JsonRpcMessage["error"]) {
+  const message = String(error?.message || "MCP request failed").slice(0, MAX_ERROR_DETAIL_CHARS);
+  const code = Number.isFinite(Number(error?.code)) ? Number(error?.code) : null;
+  return new McpProtocolError(message, code);
+}
+
+function parseJsonRpcMessage(raw: string): JsonRpcMessage | null {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function buildRequestSignal(timeoutMs: number, signal?: AbortSignal) {
+  const timeoutSignal = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+}
+
+function describeAbort(signal: AbortSignal, method: string, timeoutMs: number) {
+  const reason = signal.reason;
+  if (reason instanceof Error && reason.name === "TimeoutError") {
+    return new Error(`mcp_request_timeout:${method}:${timeoutMs}ms`);
+  }
+  return createAbortError(reason || `MCP ${method} cancelled`);
+}
+
+/**
+ * Newline-delimited JSON-RPC over a child process's stdin/stdout, per the MCP
+ * stdio transport. Server-initiated requests are answered with method-not-found
+ * (or an empty result for `ping`) so a chatty server never stalls the pipe.
+ */
+export class StdioMcpTransport implements McpTransport {
+  private readonly command: string;
+  private readonly args: string[];
+  private readonly env: Record<string, string>;
+  private readonly cwd: string | undefined;
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private stdoutBuffer = "";
+  private stderrTail = "";
+  private nextRequestId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private exitError: Error | null = null;
+
+  constructor({
+    command,
+    args = [],
+    env = {},
+    cwd
+  }: {
+    command: string;
+    args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+  }) {
+    this.command = command;
+    this.args = args;
+    this.env = env;
+    this.cwd = cwd || undefined;
+  }
+
+  private ensureProcess() {
+    if (this.exitError) throw this.exitError;
+    if (this.child) return this.child;
+    const child = spawn(this.command, this.args, {
+      cwd: this.cwd,
+      env: { ...process.env, ...this.env },
+      stdio: ["pipe", "pipe", "pipe"]
+    });
+    child.stdout.setEncoding("utf8");
+    child.stderr.setEncoding("utf8");
+    child.stdout.on("data", (chunk: string) => this.handleStdout(chunk));
+    child.stderr.on("data", (chunk: string) => {
+      this.stderrTail = `${this.stderrTail}${chunk}`.slice(-MAX_STDERR_TAIL_CHARS);
+    });
+    child.on("error", (error) => this.handleExit(error));
+    child.on("exit", (code, signal) => {
+      const detail = this.stderrTail.trim().split("\n").pop()?.slice(0, MAX_ERROR_DETAIL_CHARS) || "";
+      const reason = signal ? `signal ${signal}` : `code ${code ?? "unknown"}`;
+      this.handleExit(new Error(`mcp_process_exited:${reason}${detail ? `: ${detail}` : ""}`));
+    });
+    child.stdin.on("error", () => {
+      // surfaced through the exit handler
+    });
+    this.child = child;
+    return child;
+  }
+
+  private handleExit(error: Error) {
+    if (this.exitError) return;
+    this.exitError = error;
+    this.child = null;
+    for (const request of this.pending.values()) {
+      request.cleanup();
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  private handleStdout(chunk: string) {
+    this.stdoutBuffer += chunk;
+    let newlineIndex = this.stdoutBuffer.indexOf("\n");
+    while (newlineIndex >= 0) {
+      const line = this.stdoutBuffer.slice(0, newlineIndex).trim();
+      this.stdoutBuffer = this.stdoutBuffer.slice(newlineIndex + 1);
+      if (line) this.handleMessage(parseJsonRpcMessage(line));
+      newlineIndex = this.stdoutBuffer.indexOf("\n");
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage | null) {
+    if (!message) return;
+    if (message.method) {
+      if (message.id === undefined || message.id === null) return;
+      this.write(
+        message.method === "ping"
+          ? { jsonrpc: "2.0", id: message.id, result: {} }
+          : { jsonrpc: "2.0", id: message.id, error: { code: -32601, message: "Method not found" } }
+      );
+      return;
+    }
+    const id = Number(message.id);
+    const request = this.pending.get(id);
+    if (!request) return;
+    this.pending.delete(id);
+    request.cleanup();
+    if (message.error) {
+      request.reject(buildJsonRpcError(message.error));
+      return;
+    }
+    request.resolve(message.result);
+  }
+
+  private write(payload: JsonRpcMessage) {
+    const child = this.ensureProcess();
+    child.stdin.write(`${JSON.stringify(payload)}\n`);
+  }
+
+  async request(method: string, params: Record<string, unknown>, { timeoutMs, signal }: McpRequestOptions) {
+    this.ensureProcess();
+    const id = this.nextRequestId++;
+    const requestSignal = buildRequestSignal(timeoutMs, signal);
+    return await new Promise<unknown>((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        reject(describeAbort(requestSignal, method, timeoutMs));
+      };
+      if (requestSignal.aborted) {
+        onAbort();
+        return;
+      }
+      requestSignal.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(id, {
+        resolve,
+        reject,
+        cleanup: () => requestSignal.removeEventListener("abort", onAbort)
+      });
+      try {
+        this.write({ jsonrpc: "2.0", id, method, params });
+      } catch (error) {
+        this.pending.delete(id);
+        requestSignal.removeEventListener("abort", onAbort);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  async notify(method: string, params: Record<string, unknown> = {}) {
+    this.write({ jsonrpc: "2.0", method, params });
+  }
+
+  async close() {
+    const child = this.child;
+    this.handleExit(new Error("mcp_transport_closed"));
+    if (!child) return;
+    try {
+      child.stdin.end();
+    } catch {
+      // ignore
+    }
+    child.kill("SIGTERM");
+  }
+}
+
+/**
+ * MCP streamable-HTTP transport: each JSON-RPC message is POSTed to a single
+ * endpoint and the response arrives either as a JSON body or as an SSE stream
+ * that eventually carries the matching response. The server-assigned
+ * `Mcp-Session-Id` is echoed on every subsequent request.
+ */
+export class StreamableHttpMcpTransport implements McpTransport {
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly fetchImpl: typeof fetch;
+  private sessionId: string | null = null;
+  private nextRequestId = 1;
+
+  constructor({
+    url,
+    headers = {},
+    fetchImpl = fetch
+  }: {
+    url: string;
+    headers?: Record<string, string>;
+    fetchImpl?: typeof fetch;
+  }) {
+    this.url = url;
+    this.headers = headers;
+    this.fetchImpl = fetchImpl;
+  }
+
+  private buildHeaders() {
+    return {
+      ...this.headers,
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+      ...(this.sessionId ? { "mcp-session-id": this.sessionId } : {})
+    };
+  }
+
+  private async post(payload: JsonRpcMessage, signal?: AbortSignal) {
+    const response = await this.fetchImpl(this.url, {
+      method: "POST",
+      headers: this.buildHeaders(),
+      body: JSON.stringify(payload),
+      signal
+    });
+    const sessionId = String(response.headers.get("mcp-session-id") || "").trim();
+    if (sessionId) this.sessionId = sessionId;
+    return response;
+  }
+
+  async request(method: string, params: Record<string, unknown>, { timeoutMs, signal }: McpRequestOptions) {
+    const id = this.nextRequestId++;
+    const requestSignal = buildRequestSignal(timeoutMs, signal);
+    try {
+      const response = await this.post({ jsonrpc: "2.0", id, method, params }, requestSignal);
+      if (!response.ok) {
+        const bodyText = await response.text().catch(() => "");
+        if (response.status === 404 && this.sessionId) {
+          this.sessionId = null;
+        }
+        throw new Error(`mcp_http_${response.status}${bodyText ? `: ${bodyText.slice(0, MAX_ERROR_DETAIL_CHARS)}` : ""}`);
+      }
+      const contentType = String(response.headers.get("content-type") || "").toLowerCase();
+      const message = contentType.includes("text/event-stream")
+        ? await readSseResponse(response, id)
+        : parseJsonRpcMessage(await response.text());
+      if (!message) {
+        throw new Error(`mcp_invalid_response:${method}`);
+      }
+      if (message.error) throw buildJsonRpcError(message.error);
+      return message.result;
+    } catch (error) {
+      if (requestSignal.aborted) throw describeAbort(requestSignal, method, timeoutMs);
+      throw error;
+    }
+  }
+
+  async notify(method: string, params: Record<string, unknown> = {}) {
+    const response = await this.post({ jsonrpc: "2.0", method, params }, AbortSignal.timeout(10_000));
+    await response.body?.cancel().catch(() => undefined);
+  }
+
+  async close() {
+    if (!this.sessionId) return;
+    try {
+      await this.fetchImpl(this.url, {
+        method: "DELETE",
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(5_000)
+      });
+    } catch {
+      // best-effort session teardown
+    }
+    this.sessionId = null;
+  }
+}
+
+async function readSseResponse(response: Response, requestId: number): Promise<JsonRpcMessage | null> {
+  if (!response.body) return null;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (value) buffer += value;
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary >= 0) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+        const data = rawEvent
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).replace(/^ /, ""))
+          .join("\n");
+        const message = data ? parseJsonRpcMessage(data) : null;
+        if (message && !message.method && Number(message.id) === requestId) {
+          return message;
+        }
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+      if (done) return null;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
@@ -2,6 +2,7 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { clampInt, normalizeInlineText } from "../llm/llmHelpers.ts";
 import { estimateUsdCost } from "../llm/pricing.ts";
+import { describeSpendCapExceeded, resolveSpendCapDecision, type SpendCapStore } from "../llm/spendCaps.ts";
 import {
   getBotName,
   getMemorySettings,
@@ -92,7 +93,7 @@ type ReflectionSettings = {
   };
 };
 
-type ReflectionStore = {
+type ReflectionStore = SpendCapStore & {
   logAction(args: {
     kind: string;
     guildId?: string | null;
@@ -130,6 +131,7 @@ type ReflectionMemory = {
     validationMode?: string;
     evidenceText?: string | null;
     supersedesFactText?: string | null;
+    actor?: "reflection";
   }): Promise<{
     ok: boolean;
     reason?: string;
@@ -425,8 +427,27 @@ async function reflectGuildJournal({
       }
     }
 
-    provider = memoryBinding.provider;
-    model = memoryBinding.model;
+    const spendCap = resolveSpendCapDecision({ store, settings, feature: "memoryReflection" });
+    if (spendCap.action === "refuse") {
+      store.logAction({
+        kind: "spend_cap_exceeded",
+        guildId,
+        content: describeSpendCapExceeded(spendCap.status),
+        metadata: {
+          feature: spendCap.status.feature,
+          window: spendCap.status.exceededWindow,
+          dailySpentUsd: spendCap.status.dailySpentUsd,
+          monthlySpentUsd: spendCap.status.monthlySpentUsd,
+          dateKey,
+          guildId
+        }
+      });
+      return;
+    }
+
+    const reflectionBinding = spendCap.action === "degrade" ? spendCap.binding : memoryBinding;
+    provider = reflectionBinding.provider;
+    model = reflectionBinding.model;
 
     store.logAction({
       kind: "memory_reflection_start",
@@ -521,7 +542,8 @@ async function reflectGuildJournal({
         confidence: item.confidence,
         validationMode: "minimal",
         evidenceText: item.evidence || null,
-        supersedesFactText: item.supersedes || null
+        supersedesFactText: item.supersedes || null,
+        actor: "reflection"
       });
 
       if (saveResult?.ok) {
@@ -0,0 +1,158 @@
+import assert from "node:assert/strict";
+import { test } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { MemoryManager } from "./memoryManager.ts";
+import { Store } from "../store/store.ts";
+import { runEmbeddingMigration } from "./embeddingMigration.ts";
+
+const OLD_MODEL = "text-embedding-3-small";
+const NEW_MODEL = "local:Xenova/all-MiniLM-L6-v2";
+
+function createFakeLlm({ failOn = "" }: { failOn?: string } = {}) {
+  const calls: Array<{ model: string | null; text: string }> = [];
+  return {
+    calls,
+    isEmbeddingReady() {
+      return true;
+    },
+    resolveEmbeddingModel(settings) {
+      return String(settings?.memory?.embeddingModel || OLD_MODEL);
+    },
+    async embedText({ settings, text, model = null }) {
+      const resolvedModel = String(model || settings?.memory?.embeddingModel || OLD_MODEL);
+      calls.push({ model, text: String(text) });
+      if (failOn && String(text).includes(failOn)) throw new Error("provider exploded");
+      return { embedding: [0.1, 0.2, 0.3], model: resolvedModel };
+    }
+  };
+}
+
+async function createMigrationFixture(llm: ReturnType<typeof createFakeLlm>) {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-embedding-migration-"));
+  const store = new Store(path.join(tempDir, "clanker.db"));
+  store.init();
+  const memory = new MemoryManager({
+    store,
+    llm,
+    memoryFilePath: path.join(tempDir, "memory", "MEMORY.md")
+  });
+
+  for (const fact of ["Alice plays bass.", "Bob collects vinyl."]) {
+    store.addMemoryFact({ guildId: "guild-1", subject: "user-1", fact, factType: "profile", confidence: 0.7 });
+    const row = store.getMemoryFactBySubjectAndFact({ scope: "guild", guildId: "guild-1", subject: "user-1", fact });
+    store.upsertMemoryFactVectorNative({ factId: Number(row?.id), model: OLD_MODEL, embedding: [1, 0, 0] });
+  }
+  store.recordMessage({
+    messageId: "msg-1",
+    createdAt: Date.now(),
+    guildId: "guild-1",
+    channelId: "chan-1",
+    authorId: "1001",
+    authorName: "Alice",
+    isBot: false,
+    content: "anyone want to jam this weekend"
+  });
+  store.upsertMessageVectorNative({ messageId: "msg-1", model: OLD_MODEL, embedding: [1, 0, 0] });
+  // Never embedded, so it stays out of the migration.
+  store.recordMessage({
+    messageId: "msg-2",
+    createdAt: Date.now(),
+    guildId: "guild-1",
+    channelId: "chan-1",
+    authorId: "1002",
+    authorName: "Bob",
+    isBot: false,
+    content: "sure"
+  });
+  store.saveVideoContext({
+    videoKey: "youtube:abc123",
+    context: { provider: "youtube", kind: "youtube", videoId: "abc123", url: "https://youtu.be/abc123", title: "Surf rock basics" },
+    transcriptChunks: ["first play the root note", "then slide up the neck"]
+  });
+  store.upsertVideoTranscriptVectorNative({ videoKey: "youtube:abc123", chunkIndex: 0, model: OLD_MODEL, embedding: [1, 0, 0] });
+
+  return {
+    store,
+    memory,
+    async cleanup() {
+      store.close();
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  };
+}
+
+test("embedding migrations re-embed facts, messages, and transcripts, pin retrieval until done, then prune old vectors", async () => {
+  const llm = createFakeLlm();
+  const fixture = await createMigrationFixture(llm);
+  const settings = { memory: { enabled: true, embeddingModel: NEW_MODEL } };
+
+  try {
+    assert.equal(fixture.memory.maybeStartEmbeddingMigration({ memory: { enabled: true } }).reason, "up_to_date");
+
+    const started = fixture.memory.maybeStartEmbeddingMigration(settings);
+    assert.equal(started.ok, true);
+    assert.equal(started.migration?.sourceModel, OLD_MODEL);
+    assert.equal(started.migration?.factsTotal, 2);
+    assert.equal(started.migration?.messagesTotal, 1);
+    assert.equal(started.migration?.transcriptsTotal, 1);
+    assert.equal(fixture.memory.resolveRetrievalEmbeddingModel(settings), OLD_MODEL);
+    assert.equal(fixture.memory.maybeStartEmbeddingMigration(settings).reason, "already_running");
+
+    await fixture.memory.embeddingMigrationTask;
+
+    const status = fixture.memory.getEmbeddingMigrationStatus(settings);
+    assert.equal(status.migration?.status, "completed");
+    assert.equal(status.migration?.factsDone, 2);
+    assert.equal(status.migration?.messagesDone, 1);
+    assert.equal(status.migration?.transcriptsDone, 1);
+    assert.equal(status.retrievalModel, NEW_MODEL);
+    assert.deepEqual(status.modelUsage, [{ model: NEW_MODEL, facts: 2, messages: 1, transcripts: 1 }]);
+    assert.ok(llm.calls.every((call) => call.model === NEW_MODEL));
+    assert.equal(fixture.memory.maybeStartEmbeddingMigration(settings).reason, "up_to_date");
+  } finally {
+    await fixture.cleanup();
+  }
+});
+
+test("embedding migrations keep old vectors after partial failures and stop when cancelled", async () => {
+  const llm = createFakeLlm({ failOn: "Bob" });
+  const fixture = await createMigrationFixture(llm);
+
+  try {
+    const partial = fixture.store.createEmbeddingMigration({ targetModel: NEW_MODEL, sourceModel: OLD_MODEL });
+    const finished = await runEmbeddingMigration({
+      store: fixture.store,
+      llm,
+      settings: {},
+      migrationId: Number(partial?.id),
+      batchSize: 1
+    });
+    assert.equal(finished?.status, "failed");
+    assert.equal(finished?.factsDone, 1);
+    assert.equal(finished?.factsFailed, 1);
+    assert.match(String(finished?.errorMessage), /provider exploded/);
+    assert.equal(fixture.store.getEmbeddingModelUsage().find((row) => row.model === OLD_MODEL)?.facts, 2);
+
+    // Failed runs are not restarted by the timer, only on request.
+    const settings = { memory: { enabled: true, embeddingModel: NEW_MODEL } };
+    assert.equal(fixture.memory.maybeStartEmbeddingMigration(settings).reason, "migration_failed");
+    assert.equal(fixture.memory.resolveRetrievalEmbeddingModel(settings), OLD_MODEL);
+
+    const retry = fixture.store.createEmbeddingMigration({ targetModel: NEW_MODEL, sourceModel: OLD_MODEL });
+    assert.equal(retry?.factsTotal, 1);
+    const cancelled = fixture.memory.cancelEmbeddingMigration(settings);
+    assert.equal(cancelled.ok, true);
+    const afterCancel = await runEmbeddingMigration({
+      store: fixture.store,
+      llm,
+      settings: {},
+      migrationId: Number(retry?.id)
+    });
+    assert.equal(afterCancel?.status, "cancelled");
+    assert.equal(afterCancel?.factsDone, 0);
+  } finally {
+    await fixture.cleanup();
+  }
+});
@@ -0,0 +1,256 @@
+import type {
+  EmbeddingMigrationFactRow,
+  EmbeddingMigrationMessageRow,
+  EmbeddingMigrationProgressInput,
+  EmbeddingMigrationRecord,
+  EmbeddingMigrationTranscriptRow
+} from "../store/storeEmbeddingMigrations.ts";
+import { buildFactEmbeddingPayload, cleanDailyEntryContent } from "./memoryHelpers.ts";
+
+const DEFAULT_MIGRATION_BATCH_SIZE = 24;
+
+type EmbeddingMigrationStore = {
+  getEmbeddingMigration(id: number): EmbeddingMigrationRecord | null;
+  updateEmbeddingMigration(id: number, progress: EmbeddingMigrationProgressInput): EmbeddingMigrationRecord | null;
+  getFactsMissingEmbeddingModel(opts: { model: string; afterId?: number; limit?: number }): EmbeddingMigrationFactRow[];
+  getMessagesMissingEmbeddingModel(opts: {
+    model: string;
+    afterRowId?: number;
+    limit?: number;
+  }): EmbeddingMigrationMessageRow[];
+  getTranscriptChunksMissingEmbeddingModel(opts: {
+    model: string;
+    afterRowId?: number;
+    limit?: number;
+  }): EmbeddingMigrationTranscriptRow[];
+  upsertMemoryFactVectorNative(opts: { factId: number; model: string; embedding: number[] }): unknown;
+  upsertMessageVectorNative(opts: { messageId: string; model: string; embedding: number[] }): unknown;
+  upsertVideoTranscriptVectorNative(opts: {
+    videoKey: string;
+    chunkIndex: number;
+    model: string;
+    embedding: number[];
+  }): unknown;
+  pruneEmbeddingVectorsExceptModel(model: string): {
+    factVectorsDeleted: number;
+    messageVectorsDeleted: number;
+    transcriptVectorsDeleted: number;
+  };
+  logAction(action: Record<string, unknown>): void;
+};
+
+type EmbeddingMigrationLlm = {
+  embedText(args: {
+    settings: unknown;
+    text: unknown;
+    model?: string | null;
+    trace?: Record<string, unknown>;
+  }): Promise<{ embedding?: unknown; model?: unknown } | null>;
+};
+
+type BatchOutcome = {
+  done: number;
+  failed: number;
+  cursor: number;
+  lastError: string | null;
+};
+
+async function embedForTarget({
+  llm,
+  settings,
+  targetModel,
+  text,
+  trace
+}: {
+  llm: EmbeddingMigrationLlm;
+  settings: unknown;
+  targetModel: string;
+  text: string;
+  trace: Record<string, unknown>;
+}) {
+  const embedded = await llm.embedText({ settings, text, model: targetModel, trace });
+  const vector = Array.isArray(embedded?.embedding) ? embedded.embedding.map((value) => Number(value)) : [];
+  if (!vector.length) throw new Error("Embedding provider returned no vector.");
+  // A fallback provider answering with its own model would just recreate the mixed-model problem.
+  const model = String(embedded?.model || "").trim();
+  if (model !== targetModel) {
+    throw new Error(`Embedding provider answered with ${model || "an unknown model"} instead of ${targetModel}.`);
+  }
+  return vector;
+}
+
+async function migrateRows<Row>({
+  rows,
+  cursorOf,
+  embedRow
+}: {
+  rows: Row[];
+  cursorOf: (row: Row) => number;
+  embedRow: (row: Row) => Promise<boolean>;
+}): Promise<BatchOutcome> {
+  const outcome: BatchOutcome = { done: 0, failed: 0, cursor: 0, lastError: null };
+  for (const row of rows) {
+    try {
+      if (await embedRow(row)) {
+        outcome.done += 1;
+      }
+    } catch (error) {
+      outcome.failed += 1;
+      outcome.lastError = String((error as Error)?.message || error);
+    }
+    outcome.cursor = Math.max(outcome.cursor, cursorOf(row));
+  }
+  return outcome;
+}
+
+/**
+ * Re-embeds every active fact, previously embedded message, and previously embedded video
+ * transcript chunk under the migration's target model. Progress and cursors are persisted
+ * after each batch so a restart resumes where the last process stopped; a dashboard cancel
+ * is picked up between batches.
+ */
+export async function runEmbeddingMigration({
+  store,
+  llm,
+  settings,
+  migrationId,
+  batchSize = DEFAULT_MIGRATION_BATCH_SIZE
+}: {
+  store: EmbeddingMigrationStore;
+  llm: EmbeddingMigrationLlm;
+  settings: unknown;
+  migrationId: number;
+  batchSize?: number;
+}) {
+  let migration = store.getEmbeddingMigration(migrationId);
+  if (!migration || migration.status !== "running") return migration;
+  const targetModel = migration.targetModel;
+  const trace = { source: "embedding_migration", reason: `migration:${migration.id}` };
+
+  const fail = (errorMessage: string) => {
+    const failed = store.updateEmbeddingMigration(migrationId, { status: "failed", errorMessage });
+    store.logAction({
+      kind: "bot_error",
+      content: `embedding_migration_failed: ${errorMessage}`,
+      metadata: { migrationId, targetModel }
+    });
+    return failed;
+  };
+
+  while (migration?.status === "running") {
+    const facts = store.getFactsMissingEmbeddingModel({
+      model: targetModel,
+      afterId: migration.factCursor,
+      limit: batchSize
+    });
+    if (!facts.length) break;
+    const outcome = await migrateRows({
+      rows: facts,
+      cursorOf: (row) => Number(row.id),
+      embedRow: async (row) => {
+        const payload = buildFactEmbeddingPayload(row);
+        if (!payload) return false;
+        const embedding = await embedForTarget({ llm, settings, targetModel, text: payload, trace });
+        store.upsertMemoryFactVectorNative({ factId: Number(row.id), model: targetModel, embedding });
+        return true;
+      }
+    });
+    // Re-read before writing so a cancel issued mid-batch is not overwritten.
+    const latest = store.getEmbeddingMigration(migrationId);
+    migration = store.updateEmbeddingMigration(migrationId, {
+      status: latest?.status,
+      factsDone: migration.factsDone + outcome.done,
+      factsFailed: migration.factsFailed + outcome.failed,
+      factCursor: outcome.cursor
+    });
+    if (outcome.failed >= facts.length && outcome.lastError) return fail(outcome.lastError);
+  }
+
+  while (migration?.status === "running") {
+    const messages = store.getMessagesMissingEmbeddingModel({
+      model: targetModel,
+      afterRowId: migration.messageCursor,
+      limit: batchSize
+    });
+    if (!messages.length) break;
+    const outcome = await migrateRows({
+      rows: messages,
+      cursorOf: (row) => Number(row.row_id),
+      embedRow: async (row) => {
+        const payload = cleanDailyEntryContent(row.content);
+        if (!payload) return false;
+        const embedding = await embedForTarget({ llm, settings, targetModel, text: payload, trace });
+        store.upsertMessageVectorNative({ messageId: row.message_id, model: targetModel, embedding });
+        return true;
+      }
+    });
+    const latest = store.getEmbeddingMigration(migrationId);
+    migration = store.updateEmbeddingMigration(migrationId, {
+      status: latest?.status,
+      messagesDone: migration.messagesDone + outcome.done,
+      messagesFailed: migration.messagesFailed + outcome.failed,
+      messageCursor: outcome.cursor
+    });
+    if (outcome.failed >= messages.length && outcome.lastError) return fail(outcome.lastError);
+  }
+
+  while (migration?.status === "running") {
+    const chunks = store.getTranscriptChunksMissingEmbeddingModel({
+      model: targetModel,
+      afterRowId: migration.transcriptCursor,
+      limit: batchSize
+    });
+    if (!chunks.length) break;
+    const outcome = await migrateRows({
+      rows: chunks,
+      cursorOf: (row) => Number(row.row_id),
+      embedRow: async (row) => {
+        const payload = String(row.content || "").trim();
+        if (!payload) return false;
+        const embedding = await embedForTarget({ llm, settings, targetModel, text: payload, trace });
+        store.upsertVideoTranscriptVectorNative({
+          videoKey: row.video_key,
+          chunkIndex: Number(row.chunk_index),
+          model: targetModel,
+          embedding
+        });
+        return true;
+      }
+    });
+    const latest = store.getEmbeddingMigration(migrationId);
+    migration = store.updateEmbeddingMigration(migrationId, {
+      status: latest?.status,
+      transcriptsDone: migration.transcriptsDone + outcome.done,
+      transcriptsFailed: migration.transcriptsFailed + outcome.failed,
+      transcriptCursor: outcome.cursor
+    });
+    if (outcome.failed >= chunks.length && outcome.lastError) return fail(outcome.lastError);
+  }
+
+  if (migration?.status !== "running") return migration;
+
+  // Only drop the old vectors when every row made it across; otherwise keep them around so
+  // a follow-up run can retry the stragglers without losing anything.
+  const cleanRun = migration.factsFailed === 0 && migration.messagesFailed === 0 && migration.transcriptsFailed === 0;
+  const pruned = cleanRun
+    ? store.pruneEmbeddingVectorsExceptModel(targetModel)
+    : { factVectorsDeleted: 0, messageVectorsDeleted: 0, transcriptVectorsDeleted: 0 };
+  const completed = store.updateEmbeddingMigration(migrationId, { status: "completed", errorMessage: null });
+  store.logAction({
+    kind: "memory_embedding_migration",
+    content: targetModel,
+    metadata: {
+      migrationId,
+      sourceModel: completed?.sourceModel || null,
+      targetModel,
+      factsDone: completed?.factsDone || 0,
+      factsFailed: completed?.factsFailed || 0,
+      messagesDone: completed?.messagesDone || 0,
+      messagesFailed: completed?.messagesFailed || 0,
+      transcriptsDone: completed?.transcriptsDone || 0,
+      transcriptsFailed: completed?.transcriptsFailed || 0,
+      ...pruned
+    }
+  });
+  return completed;
+}
@@ -730,3 +730,142 @@ test("purgeGuildMemory removes only the selected guild's stored memory artifacts
     await fs.rm(tempDir, { recursive: true, force: true });
   }
 });
+
+test("listUserMemoryFacts pages through every user-scoped fact, including behavioral and guidance facts", async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-memory-list-"));
+  const store = new Store(path.join(tempDir, "clanker.db"));
+  store.init();
+
+  try {
+    const memory = new MemoryManager({
+      store,
+      llm: {},
+      memoryFilePath: path.join(tempDir, "MEMORY.md")
+    });
+
+    for (let index = 0; index < 24; index += 1) {
+      store.addMemoryFact({
+        scope: "user",
+        guildId: null,
+        userId: "1001",
+        subject: "1001",
+        fact: `Alice profile fact number ${index}.`,
+        factType: "profile",
+        confidence: 0.7
+      });
+    }
+    for (const [fact, factType] of [
+      ["Alice wants short answers.", "guidance"],
+      ["Alice gets annoyed by puns.", "behavioral"]
+    ]) {
+      store.addMemoryFact({
+        scope: "user",
+        guildId: null,
+        userId: "1001",
+        subject: "1001",
+        fact,
+        factType,
+        confidence: 0.7
+      });
+    }
+
+    const first = memory.listUserMemoryFacts({ userId: "1001" });
+    assert.equal(first.total, 26);
+    assert.equal(first.page, 1);
+    assert.equal(first.pageCount, 3);
+    assert.equal(first.facts.length, 10);
+
+    const listed = [1, 2, 3].flatMap((page) => memory.listUserMemoryFacts({ userId: "1001", page }).facts);
+    assert.equal(listed.length, 26);
+    assert.equal(new Set(listed.map((fact) => fact.id)).size, 26);
+    assert.equal(listed.some((fact) => fact.fact_type === "behavioral"), true);
+    assert.equal(listed.some((fact) => fact.fact_type === "guidance"), true);
+    assert.equal(memory.listUserMemoryFacts({ userId: "1001", page: 4 }).facts.length, 0);
+  } finally {
+    store.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("forgetUserMemory hard-deletes the speaker's facts, scrubs their daily-log lines, and audits the request", async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-memory-forget-"));
+  const store = new Store(path.join(tempDir, "clanker.db"));
+  store.init();
+
+  try {
+    const memory = new MemoryManager({
+      store,
+      llm: {},
+      memoryFilePath: path.join(tempDir, "MEMORY.md")
+    });
+    memory.queueMemoryRefresh = async () => undefined;
+
+    for (const [userId, fact] of [
+      ["1001", "Alice plays bass in a surf rock band."],
+      ["1001", "Alice is learning Rust."],
+      ["1002", "Bob collects keyboards."]
+    ]) {
+      store.addMemoryFact({
+        scope: "user",
+        guildId: null,
+        userId,
+        subject: userId,
+        fact,
+        factType: "profile",
+        confidence: 0.7
+      });
+    }
+    await memory.appendDailyLogEntry({
+      messageId: "msg-1",
+      authorId: "1001",
+      authorName: "Alice",
+      guildId: "guild-1",
+      channelId: "chan-1",
+      content: "alice said something private"
+    });
+    await memory.appendDailyLogEntry({
+      messageId: "msg-2",
+      authorId: "1002",
+      authorName: "Bob",
+      guildId: "guild-1",
+      channelId: "chan-1",
+      content: "bob said something"
+    });
+
+    const aliceFacts = memory.listUserMemoryFacts({ userId: "1001" }).facts;
+    assert.equal(aliceFacts.length, 2);
+    const bobFactId = memory.listUserMemoryFacts({ userId: "1002" }).facts[0]?.id;
+
+    const wrongOwner = await memory.forgetUserMemory({ userId: "1001", factIds: [Number(bobFactId)], source: "test" });
+    assert.equal(wrongOwner.ok, false);
+    assert.equal(wrongOwner.reason, "not_found");
+
+    const single = await memory.forgetUserMemory({ userId: "1001", factIds: [aliceFacts[0].id], source: "test" });
+    assert.equal(single.ok, true);
+    assert.equal(single.factsDeleted, 1);
+    assert.equal(single.journalEntriesDeleted, 0);
+    assert.equal(store.getMemoryFactRevisions(aliceFacts[0].id).length, 0);
+    assert.equal(memory.listUserMemoryFacts({ userId: "1001" }).total, 1);
+
+    const all = await memory.forgetUserMemory({ userId: "1001", guildId: "guild-1", source: "test" });
+    assert.equal(all.ok, true);
+    assert.equal(all.factsDeleted, 1);
+    assert.equal(all.journalEntriesDeleted, 1);
+    assert.equal(memory.listUserMemoryFacts({ userId: "1001" }).total, 0);
+    assert.equal(memory.listUserMemoryFacts({ userId: "1002" }).total, 1);
+
+    const date = new Date();
+    const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+    const dailyFileText = await fs.readFile(path.join(tempDir, `${dateKey}.md`), "utf8");
+    assert.equal(dailyFileText.includes("alice said something private"), false);
+    assert.equal(dailyFileText.includes("bob said something"), true);
+
+    const audit = store.getRecentActions(10, { kinds: ["memory_forget"] });
+    assert.equal(audit.length, 2);
+    assert.equal(audit.some((row) => String(row.content || "").includes("surf rock")), false);
+    assert.deepEqual(audit.map((row) => row.content).sort(), ["forget_all", "forget_facts"]);
+  } finally {
+    store.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
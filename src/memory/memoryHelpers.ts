@@ -398,6 +398,42 @@ const SCOPE_FRAGMENT_RE = /\[guild:(\S+)\s+channel:(\S+)\s+message:(\S+)(?:\s+(v
 // Author IDs are serialized as trailing "(123456789)" in daily lines.
 const AUTHOR_ID_RE = /\((\d+)\)$/;
 
+export function formatDailyEntryLine({
+  timestampIso,
+  authorName,
+  authorId,
+  guildId = "",
+  channelId = "",
+  messageId = "",
+  isVoice = false,
+  content
+}: {
+  timestampIso: string;
+  authorName?: string | null;
+  authorId?: string | null;
+  guildId?: string | null;
+  channelId?: string | null;
+  messageId?: string | null;
+  isVoice?: boolean;
+  content: string;
+}) {
+  const safeAuthorName = sanitizeInline(authorName || "unknown", 80);
+  const safeAuthorId = sanitizeInline(authorId || "unknown", 40);
+  const safeGuildId = sanitizeInline(guildId || "", 40);
+  const safeChannelId = sanitizeInline(channelId || "", 40);
+  const safeMessageId = sanitizeInline(messageId || "", 40);
+  const scopeFragment = [
+    safeGuildId ? `guild:${safeGuildId}` : "",
+    safeChannelId ? `channel:${safeChannelId}` : "",
+    safeMessageId ? `message:${safeMessageId}` : "",
+    isVoice ? "voice" : ""
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const scopedContent = scopeFragment ? `[${scopeFragment}] ${content}` : content;
+  return `- ${timestampIso} | ${safeAuthorName} (${safeAuthorId}) | ${scopedContent}`;
+}
+
 export function parseDailyEntryLineWithScope(line) {
   if (!String(line).startsWith("- ")) return null;
   const payload = line.slice(2).trim();
@@ -14,6 +14,7 @@ import {
   computeRecencyScore,
   computeTemporalDecayMultiplier,
   extractStableTokens,
+  formatDailyEntryLine,
   formatDateLocal,
   formatTypedFactForMemory,
   isBehavioralDirectiveLikeFactText,
@@ -35,7 +36,14 @@ import {
 } from "./memoryHelpers.ts";
 import { runDailyReflection } from "./dailyReflection.ts";
 import { runMicroReflection } from "./microReflection.ts";
-import type { MemoryFactRow } from "../store/storeMemory.ts";
+import {
+  exportMemoryBundle,
+  importMemoryBundle,
+  type MemoryExportBundle,
+  type MemoryImportConflictPolicy
+} from "./memoryPortability.ts";
+import { runEmbeddingMigration } from "./embeddingMigration.ts";
+import type { MemoryFactRevisionActor, MemoryFactRow } from "../store/storeMemory.ts";
 
 // Daily transcript journals are stored as YYYY-MM-DD.md files.
 const DAILY_FILE_PATTERN = /^\d{4}-\d{2}-\d{2}\.md$/;
@@ -62,6 +70,7 @@ const BEHAVIORAL_FACT_TYPE = "behavioral";
 
 // Limits for prompt construction and hybrid reranking behavior.
 const FULL_MEMORY_DUMP_LIMIT = 200;
+const USER_MEMORY_FACT_PAGE_SIZE = 10;
 const HYBRID_RECENT_CANDIDATE_LIMIT = 24;
 const HYBRID_MMR_LAMBDA = 0.7;
 const HYBRID_TEMPORAL_DECAY_HALF_LIFE_DAYS = 90;
@@ -180,6 +189,7 @@ export class MemoryManager {
   textMicroReflectionTimers;
   textMicroReflectionState;
   microReflectionInFlight;
+  embeddingMigrationTask;
 
   constructor({ store, llm, memoryFilePath }) {
     this.store = store;
@@ -198,6 +208,7 @@ export class MemoryManager {
     this.textMicroReflectionTimers = new Map();
     this.textMicroReflectionState = new Map();
     this.microReflectionInFlight = new Set();
+    this.embeddingMigrationTask = null;
   }
 
   async ingestMessage({
@@ -613,7 +624,7 @@ export class MemoryManager {
     const normalizedMessageId = String(messageId || "").trim();
     const payload = cleanDailyEntryContent(content);
     if (!normalizedMessageId || !payload) return null;
-    if (!this.llm?.isEmbeddingReady?.()) return null;
+    if (!this.llm?.isEmbeddingReady?.(settings)) return null;
     if (typeof this.store?.upsertMessageVectorNative !== "function") return null;
 
     try {
@@ -1282,7 +1293,7 @@ export class MemoryManager {
   buildQueryEmbeddingCacheKey({ queryText, settings }) {
     const normalizedQuery = normalizeQueryEmbeddingText(queryText);
     if (!normalizedQuery) return "";
-    const resolvedModel = String(this.llm?.resolveEmbeddingModel?.(settings) || "").trim().toLowerCase() || "default";
+    const resolvedModel = this.resolveRetrievalEmbeddingModel(settings).toLowerCase() || "default";
     return `${resolvedModel}\n${normalizedQuery}`;
   }
 
@@ -1346,6 +1357,7 @@ export class MemoryManager {
       const queryEmbeddingResult = await this.llm.embedText({
         settings,
         text: query,
+        model: this.resolveRetrievalEmbeddingModel(settings) || null,
         trace: {
           ...trace,
           source: String((trace as Record<string, unknown>)?.source || "memory_query")
@@ -1374,7 +1386,7 @@ export class MemoryManager {
   }
 
   async getSemanticScoreMap({ candidates, queryText, settings, trace = {} }) {
-    if (!this.llm?.isEmbeddingReady?.()) return new Map();
+    if (!this.llm?.isEmbeddingReady?.(settings)) return new Map();
 
     const query = String(queryText || "").trim();
     if (query.length < 3) return new Map();
@@ -1470,6 +1482,7 @@ export class MemoryManager {
       const embedded = await this.llm.embedText({
         settings,
         text: payload,
+        model: resolvedModel,
         trace
       });
       const vector = Array.isArray(embedded?.embedding)
@@ -1631,6 +1644,235 @@ export class MemoryManager {
     } as const;
   }
 
+  /**
+   * Lists one page of the user-scoped facts stored about a user, independent of the
+   * prompt-profile caps, so the forget flow can show every fact it would delete.
+   */
+  listUserMemoryFacts({ userId, page = 1 }: { userId?: string | null; page?: number | null }) {
+    const normalizedPage = Math.max(1, Math.floor(Number(page) || 1));
+    const { facts, total } = this.store.listMemoryFactsForUser({
+      userId: String(userId || "").trim(),
+      limit: USER_MEMORY_FACT_PAGE_SIZE,
+      offset: (normalizedPage - 1) * USER_MEMORY_FACT_PAGE_SIZE
+    });
+    return {
+      facts: facts as Array<MemoryFactRow & { is_active: number }>,
+      total: Number(total) || 0,
+      page: normalizedPage,
+      pageCount: Math.max(1, Math.ceil((Number(total) || 0) / USER_MEMORY_FACT_PAGE_SIZE))
+    };
+  }
+
+  /**
+   * Right-to-forget for one user. With `factIds`, only those user-scoped facts are removed;
+   * otherwise every user-scoped fact about them is removed and their lines are scrubbed from
+   * the daily logs. Facts are hard-deleted (no revision trail keeps the text) and the request
+   * is recorded as a `memory_forget` action without the forgotten content.
+   */
+  async forgetUserMemory({
+    userId,
+    guildId = null,
+    channelId = null,
+    factIds = null,
+    source = "unknown"
+  }: {
+    userId?: string | null;
+    guildId?: string | null;
+    channelId?: string | null;
+    factIds?: number[] | null;
+    source?: string;
+  }) {
+    const normalizedUserId = String(userId || "").trim();
+    const forgetAll = !Array.isArray(factIds);
+    if (!normalizedUserId) {
+      return {
+        ok: false,
+        reason: "user_required",
+        factIds: [] as number[],
+        factsDeleted: 0,
+        journalEntriesDeleted: 0
+      } as const;
+    }
+
+    if (forgetAll) {
+      try {
+        await this.drainIngestQueue({ timeoutMs: 8_000 });
+      } catch {
+        // Best effort. The purge below is still the source of truth.
+      }
+    }
+
+    const factResult = this.store.purgeMemoryFactsForUser({
+      userId: normalizedUserId,
+      factIds: forgetAll ? null : factIds
+    });
+    const journalResult = forgetAll
+      ? await this.purgeUserEntriesFromDailyLogs(normalizedUserId)
+      : { entriesDeleted: 0, filesTouched: 0 };
+    const factsDeleted = Number(factResult?.factsDeleted || 0);
+    const journalEntriesDeleted = Number(journalResult?.entriesDeleted || 0);
+
+    if (!forgetAll && !factsDeleted) {
+      return {
+        ok: false,
+        reason: "not_found",
+        factIds: [] as number[],
+        factsDeleted: 0,
+        journalEntriesDeleted: 0
+      } as const;
+    }
+
+    this.store.logAction({
+      kind: "memory_forget",
+      guildId: guildId ? String(guildId) : null,
+      channelId: channelId ? String(channelId) : null,
+      userId: normalizedUserId,
+      content: forgetAll ? "forget_all" : "forget_facts",
+      metadata: {
+        source,
+        scope: forgetAll ? "all" : "facts",
+        factIds: factResult.factIds,
+        factsDeleted,
+        vectorsDeleted: Number(factResult?.vectorsDeleted || 0),
+        journalEntriesDeleted,
+        journalFilesTouched: Number(journalResult?.filesTouched || 0)
+      }
+    });
+    this.queueMemoryRefresh();
+
+    return {
+      ok: true,
+      reason: "deleted",
+      factIds: factResult.factIds,
+      factsDeleted,
+      journalEntriesDeleted
+    } as const;
+  }
+
+  /**
+   * Model used for query embeddings and vector lookups. While a migration towards the
+   * configured model is still unfinished, retrieval stays on the migration's source model so
+   * scores are never computed against a half-populated vector set.
+   */
+  resolveRetrievalEmbeddingModel(settings) {
+    const configuredModel = String(this.llm?.resolveEmbeddingModel?.(settings) || "").trim();
+    if (!configuredModel || typeof this.store?.getLatestEmbeddingMigration !== "function") return configuredModel;
+    const migration = this.store.getLatestEmbeddingMigration({ targetModel: configuredModel });
+    if (!migration || migration.status === "completed" || !migration.sourceModel) return configuredModel;
+    return migration.sourceModel;
+  }
+
+  getEmbeddingMigrationStatus(settings = null) {
+    const configuredModel = String(this.llm?.resolveEmbeddingModel?.(settings) || "").trim();
+    return {
+      configuredModel,
+      retrievalModel: this.resolveRetrievalEmbeddingModel(settings),
+      running: Boolean(this.embeddingMigrationTask),
+      modelUsage: this.store.getEmbeddingModelUsage(),
+      migration: configuredModel
+        ? this.store.getLatestEmbeddingMigration({ targetModel: configuredModel })
+        : null
+    };
+  }
+
+  /**
+   * Starts (or resumes) re-embedding towards the configured model when stored vectors were
+   * produced by another one. Failed and cancelled runs are left alone unless `force` is set,
+   * so a broken provider does not retry in a loop from the memory timer.
+   */
+  maybeStartEmbeddingMigration(settings, { force = false } = {}) {
+    if (this.embeddingMigrationTask) return { ok: false, reason: "already_running" } as const;
+    if (!getMemorySettings(settings).enabled) return { ok: false, reason: "memory_disabled" } as const;
+    if (!this.llm?.isEmbeddingReady?.(settings)) return { ok: false, reason: "embeddings_unavailable" } as const;
+    const targetModel = String(this.llm?.resolveEmbeddingModel?.(settings) || "").trim();
+    if (!targetModel) return { ok: false, reason: "embeddings_unavailable" } as const;
+
+    let migration = this.store.getLatestEmbeddingMigration({ targetModel });
+    if (migration?.status !== "running") {
+      if (!force && migration && migration.status !== "completed") {
+        return { ok: false, reason: `migration_${migration.status}` } as const;
+      }
+      const otherModels = this.store
+        .getEmbeddingModelUsage()
+        .filter((row) => row.model !== targetModel && row.facts + row.messages + row.transcripts > 0);
+      if (!otherModels.length) return { ok: false, reason: "up_to_date" } as const;
+      migration = this.store.createEmbeddingMigration({
+        targetModel,
+        sourceModel: otherModels[0].model
+      });
+      if (!migration) return { ok: false, reason: "embeddings_unavailable" } as const;
+      this.queryEmbeddingCache.clear();
+    }
+
+    const migrationId = migration.id;
+    this.embeddingMigrationTask = runEmbeddingMigration({
+      store: this.store,
+      llm: this.llm,
+      settings,
+      migrationId
+    })
+      .catch((error) => {
+        this.store.updateEmbeddingMigration(migrationId, {
+          status: "failed",
+          errorMessage: String(error?.message || error)
+        });
+      })
+      .finally(() => {
+        this.embeddingMigrationTask = null;
+        this.queryEmbeddingCache.clear();
+      });
+    return { ok: true, reason: "started", migration } as const;
+  }
+
+  cancelEmbeddingMigration(settings) {
+    const targetModel = String(this.llm?.resolveEmbeddingModel?.(settings) || "").trim();
+    const migration = targetModel ? this.store.getLatestEmbeddingMigration({ targetModel }) : null;
+    if (!migration || migration.status !== "running") return { ok: false, reason: "not_running" } as const;
+    return {
+      ok: true,
+      reason: "cancelled",
+      migration: this.store.updateEmbeddingMigration(migration.id, { status: "cancelled" })
+    } as const;
+  }
+
+  async exportMemory({ guildId = null, userId = null }: { guildId?: string | null; userId?: string | null } = {}) {
+    return await exportMemoryBundle({
+      store: this.store,
+      memory: this,
+      guildId,
+      userId
+    });
+  }
+
+  async importMemory({
+    bundle,
+    guildId = null,
+    settings = null,
+    dryRun = false,
+    conflictPolicy = "skip",
+    actor = "system"
+  }: {
+    bundle: MemoryExportBundle;
+    guildId?: string | null;
+    settings?: unknown;
+    dryRun?: boolean;
+    conflictPolicy?: MemoryImportConflictPolicy;
+    actor?: MemoryFactRevisionActor;
+  }) {
+    const result = await importMemoryBundle({
+      store: this.store,
+      memory: this,
+      bundle,
+      guildId,
+      settings,
+      dryRun,
+      conflictPolicy,
+      actor
+    });
+    if (!dryRun) this.queueMemoryRefresh();
+    return result;
+  }
+
   buildPeopleSection(guildId: string | null = null) {
     const normalizedGuildId = String(guildId || "").trim() || null;
     const subjects = this.store
@@ -1766,7 +2008,8 @@ export class MemoryManager {
     confidence = null,
     validationMode = "strict",
     evidenceText = null,
-    supersedesFactText = null
+    supersedesFactText = null,
+    actor = "system"
   }: {
     line: string;
     sourceMessageId?: string | null;
@@ -1781,6 +2024,7 @@ export class MemoryManager {
     validationMode?: string;
     evidenceText?: string | null;
     supersedesFactText?: string | null;
+    actor?: MemoryFactRevisionActor;
   }) {
     const scopeGuildId = String(guildId || "").trim() || null;
     const scopeConfig = resolveDirectiveScopeConfig(scope);
@@ -1859,7 +2103,10 @@ export class MemoryManager {
           fact: factText,
           factType: normalizedFactType,
           evidenceText: normalizedEvidenceText,
-          confidence: Math.max(normalizedConfidence, Number(supersededFact.confidence || 0))
+          confidence: Math.max(normalizedConfidence, Number(supersededFact.confidence || 0)),
+          actor,
+          sourceMessageId,
+          revisionAction: "superseded"
         });
         if (updateResult?.ok) {
           const updatedRow = updateResult.row || this.store.getMemoryFactBySubjectAndFact({
@@ -1932,7 +2179,8 @@ export class MemoryManager {
       factType: normalizedFactType,
       evidenceText: normalizedEvidenceText,
       sourceMessageId,
-      confidence: normalizedConfidence
+      confidence: normalizedConfidence,
+      actor
     });
 
     if (!inserted) {
@@ -2014,21 +2262,17 @@ export class MemoryManager {
     const now = new Date();
     const dateKey = formatDateLocal(now);
     const dailyFilePath = path.join(this.memoryDirPath, `${dateKey}.md`);
-    const safeAuthorName = sanitizeInline(authorName || "unknown", 80);
-    const safeAuthorId = sanitizeInline(authorId || "unknown", 40);
     const safeMessageId = sanitizeInline(messageId || "", 40);
-    const safeGuildId = sanitizeInline(guildId || "", 40);
-    const safeChannelId = sanitizeInline(channelId || "", 40);
-    const scopeFragment = [
-      safeGuildId ? `guild:${safeGuildId}` : "",
-      safeChannelId ? `channel:${safeChannelId}` : "",
-      safeMessageId ? `message:${safeMessageId}` : "",
-      isVoice ? "voice" : ""
-    ]
-      .filter(Boolean)
-      .join(" ");
-    const scopedContent = scopeFragment ? `[${scopeFragment}] ${content}` : content;
-    const line = `- ${now.toISOString()} | ${safeAuthorName} (${safeAuthorId}) | ${scopedContent}`;
+    const line = formatDailyEntryLine({
+      timestampIso: now.toISOString(),
+      authorName,
+      authorId,
+      guildId,
+      channelId,
+      messageId: safeMessageId,
+      isVoice,
+      content
+    });
 
     await fs.mkdir(this.memoryDirPath, { recursive: true });
     await this.ensureDailyLogHeader(dailyFilePath, dateKey);
@@ -2136,6 +2380,22 @@ export class MemoryManager {
       };
     }
 
+    return await this.purgeDailyLogEntries((entry) => String(entry.guildId || "").trim() === normalizedGuildId);
+  }
+
+  async purgeUserEntriesFromDailyLogs(userId: string) {
+    const normalizedUserId = String(userId || "").trim();
+    if (!normalizedUserId) {
+      return {
+        entriesDeleted: 0,
+        filesTouched: 0
+      };
+    }
+
+    return await this.purgeDailyLogEntries((entry) => String(entry.authorId || "").trim() === normalizedUserId);
+  }
+
+  async purgeDailyLogEntries(shouldDelete: (entry: NonNullable<ReturnType<typeof parseDailyEntryLineWithScope>>) => boolean) {
     let dailyFileNames: string[] = [];
     try {
       dailyFileNames = (await fs.readdir(this.memoryDirPath))
@@ -2164,7 +2424,7 @@ export class MemoryManager {
       let fileRemovedCount = 0;
       for (const line of lines) {
         const parsed = parseDailyEntryLineWithScope(line);
-        if (parsed && String(parsed.guildId || "").trim() === normalizedGuildId) {
+        if (parsed && shouldDelete(parsed)) {
           fileRemovedCount += 1;
           continue;
         }
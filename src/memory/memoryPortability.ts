@@ -0,0 +1,582 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { MemoryFactExportRow, MemoryFactRevisionActor, MemoryFactRow, MemoryFactScope } from "../store/storeMemory.ts";
+import type { MemoryReflectionEventInput } from "../store/storeActionLog.ts";
+import {
+  extractStableTokens,
+  formatDailyEntryLine,
+  formatDateLocal,
+  isUnsafeMemoryFactText,
+  parseDailyEntryLineWithScope
+} from "./memoryHelpers.ts";
+
+export const MEMORY_EXPORT_FORMAT = "clanker-memory-export";
+export const MEMORY_EXPORT_VERSION = 1;
+
+// Daily transcript journals are stored as YYYY-MM-DD.md files.
+const DAILY_FILE_PATTERN = /^\d{4}-\d{2}-\d{2}\.md$/;
+const REFLECTION_EVENT_KINDS = new Set([
+  "memory_reflection_start",
+  "memory_reflection_complete",
+  "memory_reflection_error"
+]);
+
+// Imported facts sharing this fraction of stable tokens with an existing fact on the same
+// subject are reported as conflicts instead of silently stacking near-duplicates.
+const SIMILAR_FACT_TOKEN_OVERLAP = 0.6;
+const CONFLICT_SCAN_LIMIT = 400;
+const MAX_IMPORT_REPORT_ROWS = 200;
+
+export type MemoryExportFact = {
+  scope: MemoryFactScope;
+  guildId: string | null;
+  channelId: string | null;
+  userId: string | null;
+  subject: string;
+  fact: string;
+  factType: string;
+  evidenceText: string | null;
+  sourceMessageId: string | null;
+  confidence: number;
+  createdAt: string;
+  updatedAt: string;
+  vectorModels: string[];
+};
+
+export type MemoryExportDailyLogEntry = {
+  timestampIso: string;
+  authorName: string;
+  authorId: string | null;
+  guildId: string | null;
+  channelId: string | null;
+  messageId: string | null;
+  isVoice: boolean;
+  content: string;
+};
+
+export type MemoryExportReflectionEvent = {
+  createdAt: string;
+  guildId: string;
+  channelId: string | null;
+  kind: string;
+  content: string | null;
+  metadata: Record<string, unknown> | null;
+  usdCost: number;
+};
+
+export type MemoryExportBundle = {
+  format: typeof MEMORY_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  guildId: string | null;
+  userId: string | null;
+  facts: MemoryExportFact[];
+  dailyLogEntries: MemoryExportDailyLogEntry[];
+  reflectionEvents: MemoryExportReflectionEvent[];
+};
+
+export type MemoryImportConflictPolicy = "skip" | "import";
+
+type MemoryImportReportRow = {
+  subject: string;
+  fact: string;
+  reason: string;
+  existingFactId?: number;
+  existingFact?: string;
+};
+
+type PortabilityStore = {
+  getMemoryFactsForExport(opts: { guildId?: string | null; userId?: string | null }): MemoryFactExportRow[];
+  getMemoryReflectionEvents(guildId: string): Array<{
+    created_at: string;
+    guild_id: string | null;
+    channel_id: string | null;
+    kind: string;
+    content: string | null;
+    metadata: unknown;
+    usd_cost: number;
+  }>;
+  importMemoryReflectionEvents(
+    events: MemoryReflectionEventInput[],
+    opts?: { dryRun?: boolean }
+  ): { imported: number; skipped: number };
+  getMemoryFactBySubjectAndFact(opts: {
+    guildId?: string | null;
+    scope?: MemoryFactScope | null;
+    userId?: string | null;
+    subject: string;
+    fact: string;
+  }): MemoryFactRow | null;
+  getFactsForScope(opts: {
+    guildId?: string | null;
+    scope?: MemoryFactScope | null;
+    limit?: number;
+    subjectIds?: string[] | null;
+  }): MemoryFactRow[];
+  addMemoryFact(fact: Record<string, unknown>): boolean;
+};
+
+type PortabilityMemory = {
+  memoryDirPath: string;
+  ensureDailyLogHeader(dailyFilePath: string, dateKey: string): Promise<void>;
+  getDailyLogMessageIds(dailyFilePath: string): Promise<Set<unknown>>;
+  ensureFactVector(args: {
+    factRow: MemoryFactRow;
+    settings: unknown;
+    trace?: Record<string, unknown>;
+  }): Promise<unknown>;
+};
+
+function normalizeText(value: unknown, maxLen: number) {
+  return String(value ?? "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, maxLen);
+}
+
+function normalizeOptionalId(value: unknown) {
+  return normalizeText(value, 120) || null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function computeTokenOverlap(left: string, right: string) {
+  const leftTokens = new Set(extractStableTokens(left));
+  const rightTokens = new Set(extractStableTokens(right));
+  if (!leftTokens.size || !rightTokens.size) return 0;
+  let shared = 0;
+  for (const token of leftTokens) {
+    if (rightTokens.has(token)) shared += 1;
+  }
+  return shared / (leftTokens.size + rightTokens.size - shared);
+}
+
+async function readDailyLogEntries(memoryDirPath: string, { guildId, userId }: { guildId: string | null; userId: string | null }) {
+  let dailyFileNames: string[] = [];
+  try {
+    dailyFileNames = (await fs.readdir(memoryDirPath)).filter((name) => DAILY_FILE_PATTERN.test(name)).sort();
+  } catch {
+    return [];
+  }
+
+  const entries: MemoryExportDailyLogEntry[] = [];
+  for (const fileName of dailyFileNames) {
+    let text = "";
+    try {
+      text = await fs.readFile(path.join(memoryDirPath, fileName), "utf8");
+    } catch {
+      continue;
+    }
+    for (const line of text.split("\n")) {
+      const parsed = parseDailyEntryLineWithScope(line);
+      if (!parsed) continue;
+      if (guildId && String(parsed.guildId || "") !== guildId) continue;
+      if (userId && String(parsed.authorId || "") !== userId) continue;
+      entries.push({
+        timestampIso: parsed.timestampIso,
+        authorName: parsed.author,
+        authorId: parsed.authorId,
+        guildId: parsed.guildId,
+        channelId: parsed.channelId,
+        messageId: parsed.messageId,
+        isVoice: parsed.isVoice,
+        content: parsed.content
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Collects the durable memory for one guild and/or user: active facts (with the ids of
+ * the embedding models they had vectors for), daily-log entries, and, for guild exports,
+ * reflection run events. Vectors themselves are not exported; imports re-embed.
+ */
+export async function exportMemoryBundle({
+  store,
+  memory,
+  guildId = null,
+  userId = null,
+  now = new Date()
+}: {
+  store: PortabilityStore;
+  memory: Pick<PortabilityMemory, "memoryDirPath">;
+  guildId?: string | null;
+  userId?: string | null;
+  now?: Date;
+}): Promise<MemoryExportBundle> {
+  const normalizedGuildId = normalizeOptionalId(guildId);
+  const normalizedUserId = normalizeOptionalId(userId);
+
+  const facts = store.getMemoryFactsForExport({ guildId: normalizedGuildId, userId: normalizedUserId }).map((row) => ({
+    scope: row.scope,
+    guildId: row.guild_id,
+    channelId: row.channel_id,
+    userId: row.user_id,
+    subject: row.subject,
+    fact: row.fact,
+    factType: row.fact_type,
+    evidenceText: row.evidence_text,
+    sourceMessageId: row.source_message_id,
+    confidence: Number(row.confidence),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    vectorModels: String(row.vector_models || "")
+      .split(",")
+      .map((model) => model.trim())
+      .filter(Boolean)
+  }));
+
+  const reflectionEvents = normalizedGuildId
+    ? store.getMemoryReflectionEvents(normalizedGuildId).map((row) => ({
+      createdAt: row.created_at,
+      guildId: String(row.guild_id || normalizedGuildId),
+      channelId: row.channel_id,
+      kind: row.kind,
+      content: row.content,
+      metadata: isRecord(row.metadata) ? row.metadata : null,
+      usdCost: Number(row.usd_cost) || 0
+    }))
+    : [];
+
+  return {
+    format: MEMORY_EXPORT_FORMAT,
+    version: MEMORY_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    guildId: normalizedGuildId,
+    userId: normalizedUserId,
+    facts,
+    dailyLogEntries: await readDailyLogEntries(memory.memoryDirPath, {
+      guildId: normalizedGuildId,
+      userId: normalizedUserId
+    }),
+    reflectionEvents
+  };
+}
+
+/** One JSON record per line: a header, then `fact`, `daily_log_entry` and `reflection_event` records. */
+export function serializeMemoryBundleJsonl(bundle: MemoryExportBundle) {
+  const { facts, dailyLogEntries, reflectionEvents, ...header } = bundle;
+  return [
+    { type: "header", ...header },
+    ...facts.map((fact) => ({ type: "fact", ...fact })),
+    ...dailyLogEntries.map((entry) => ({ type: "daily_log_entry", ...entry })),
+    ...reflectionEvents.map((event) => ({ type: "reflection_event", ...event }))
+  ]
+    .map((record) => JSON.stringify(record))
+    .join("\n")
+    .concat("\n");
+}
+
+/** Accepts a bundle object, its JSON text, or its JSONL text. */
+export function parseMemoryBundle(input: unknown):
+  | { ok: true; bundle: MemoryExportBundle }
+  | { ok: false; reason: string } {
+  let raw: unknown = input;
+  if (typeof input === "string") {
+    const text = input.trim();
+    if (!text) return { ok: false, reason: "empty_bundle" };
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      const records: Record<string, unknown>[] = [];
+      for (const line of text.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          const parsed: unknown = JSON.parse(line);
+          if (isRecord(parsed)) records.push(parsed);
+        } catch {
+          return { ok: false, reason: "invalid_jsonl" };
+        }
+      }
+      const header = records.find((record) => record.type === "header") || {};
+      raw = {
+        ...header,
+        facts: records.filter((record) => record.type === "fact"),
+        dailyLogEntries: records.filter((record) => record.type === "daily_log_entry"),
+        reflectionEvents: records.filter((record) => record.type === "reflection_event")
+      };
+    }
+  }
+
+  if (!isRecord(raw)) return { ok: false, reason: "invalid_bundle" };
+  if (raw.format !== MEMORY_EXPORT_FORMAT) return { ok: false, reason: "unsupported_format" };
+  const version = Number(raw.version);
+  if (!Number.isInteger(version) || version < 1 || version > MEMORY_EXPORT_VERSION) {
+    return { ok: false, reason: "unsupported_version" };
+  }
+
+  const facts = (Array.isArray(raw.facts) ? raw.facts : []).filter(isRecord).map((record) => ({
+    scope: (record.scope === "user" ? "user" : "guild") as MemoryFactScope,
+    guildId: normalizeOptionalId(record.guildId),
+    channelId: normalizeOptionalId(record.channelId),
+    userId: normalizeOptionalId(record.userId),
+    subject: normalizeText(record.subject, 120),
+    fact: normalizeText(record.fact, 400),
+    factType: normalizeText(record.factType, 40).toLowerCase() || "other",
+    evidenceText: normalizeText(record.evidenceText, 240) || null,
+    sourceMessageId: normalizeOptionalId(record.sourceMessageId),
+    confidence: Number.isFinite(Number(record.confidence)) ? Number(record.confidence) : 0.5,
+    createdAt: String(record.createdAt || ""),
+    updatedAt: String(record.updatedAt || ""),
+    vectorModels: (Array.isArray(record.vectorModels) ? record.vectorModels : []).map(String)
+  }));
+
+  const dailyLogEntries = (Array.isArray(raw.dailyLogEntries) ? raw.dailyLogEntries : [])
+    .filter(isRecord)
+    .map((record) => ({
+      timestampIso: String(record.timestampIso || ""),
+      authorName: normalizeText(record.authorName, 80) || "unknown",
+      authorId: normalizeOptionalId(record.authorId),
+      guildId: normalizeOptionalId(record.guildId),
+      channelId: normalizeOptionalId(record.channelId),
+      messageId: normalizeOptionalId(record.messageId),
+      isVoice: Boolean(record.isVoice),
+      content: normalizeText(record.content, 4000)
+    }))
+    .filter((entry) => Number.isFinite(Date.parse(entry.timestampIso)) && entry.content);
+
+  const reflectionEvents = (Array.isArray(raw.reflectionEvents) ? raw.reflectionEvents : [])
+    .filter(isRecord)
+    .map((record) => ({
+      createdAt: String(record.createdAt || ""),
+      guildId: normalizeText(record.guildId, 120),
+      channelId: normalizeOptionalId(record.channelId),
+      kind: String(record.kind || ""),
+      content: record.content === null || record.content === undefined ? null : String(record.content),
+      metadata: isRecord(record.metadata) ? record.metadata : null,
+      usdCost: Number(record.usdCost) || 0
+    }))
+    .filter((event) => REFLECTION_EVENT_KINDS.has(event.kind) && Number.isFinite(Date.parse(event.createdAt)));
+
+  return {
+    ok: true,
+    bundle: {
+      format: MEMORY_EXPORT_FORMAT,
+      version,
+      exportedAt: String(raw.exportedAt || ""),
+      guildId: normalizeOptionalId(raw.guildId),
+      userId: normalizeOptionalId(raw.userId),
+      facts,
+      dailyLogEntries,
+      reflectionEvents
+    }
+  };
+}
+
+function findFactConflict(
+  store: PortabilityStore,
+  fact: MemoryExportFact,
+  existingBySubject: Map<string, MemoryFactRow[]>
+) {
+  const key = [fact.scope, fact.guildId || "", fact.userId || "", fact.subject].join("\u0000");
+  let candidates = existingBySubject.get(key);
+  if (!candidates) {
+    candidates = store
+      .getFactsForScope({
+        guildId: fact.scope === "guild" ? fact.guildId : null,
+        scope: fact.scope,
+        subjectIds: [fact.subject],
+        limit: CONFLICT_SCAN_LIMIT
+      })
+      .filter((row) => fact.scope === "guild" || String(row.user_id || "") === String(fact.userId || ""));
+    existingBySubject.set(key, candidates);
+  }
+
+  for (const row of candidates) {
+    if (row.fact === fact.fact) continue;
+    if (computeTokenOverlap(row.fact, fact.fact) >= SIMILAR_FACT_TOKEN_OVERLAP) {
+      return { reason: "similar_fact", existingFactId: row.id, existingFact: row.fact };
+    }
+  }
+  return null;
+}
+
+async function importDailyLogEntries(
+  memory: PortabilityMemory,
+  entries: MemoryExportDailyLogEntry[],
+  dryRun: boolean
+) {
+  let imported = 0;
+  let duplicates = 0;
+  const fileTextCache = new Map<string, string>();
+
+  for (const entry of entries) {
+    const dateKey = formatDateLocal(new Date(entry.timestampIso));
+    const dailyFilePath = path.join(memory.memoryDirPath, `${dateKey}.md`);
+    const line = formatDailyEntryLine({
+      timestampIso: new Date(entry.timestampIso).toISOString(),
+      authorName: entry.authorName,
+      authorId: entry.authorId,
+      guildId: entry.guildId,
+      channelId: entry.channelId,
+      messageId: entry.messageId,
+      isVoice: entry.isVoice,
+      content: entry.content
+    });
+
+    if (entry.messageId) {
+      const knownMessageIds = await memory.getDailyLogMessageIds(dailyFilePath);
+      if (knownMessageIds.has(entry.messageId)) {
+        duplicates += 1;
+        continue;
+      }
+      if (!dryRun) knownMessageIds.add(entry.messageId);
+    } else {
+      if (!fileTextCache.has(dailyFilePath)) {
+        fileTextCache.set(dailyFilePath, await fs.readFile(dailyFilePath, "utf8").catch(() => ""));
+      }
+      if (fileTextCache.get(dailyFilePath).split("\n").includes(line)) {
+        duplicates += 1;
+        continue;
+      }
+    }
+
+    imported += 1;
+    if (dryRun) continue;
+    await fs.mkdir(memory.memoryDirPath, { recursive: true });
+    await memory.ensureDailyLogHeader(dailyFilePath, dateKey);
+    await fs.appendFile(dailyFilePath, `${line}\n`, "utf8");
+    if (fileTextCache.has(dailyFilePath)) {
+      fileTextCache.set(dailyFilePath, `${fileTextCache.get(dailyFilePath)}${line}\n`);
+    }
+  }
+
+  return { imported, duplicates };
+}
+
+/**
+ * Merges an export bundle into this instance. Facts whose exact text already exists are
+ * skipped as duplicates; facts that closely resemble an existing fact on the same subject
+ * are reported as conflicts and, unless `conflictPolicy` is `import`, left out. Every
+ * imported fact is queued for embedding with the current embedding model.
+ */
+export async function importMemoryBundle({
+  store,
+  memory,
+  bundle,
+  guildId = null,
+  settings = null,
+  dryRun = false,
+  conflictPolicy = "skip",
+  actor = "system"
+}: {
+  store: PortabilityStore;
+  memory: PortabilityMemory;
+  bundle: MemoryExportBundle;
+  guildId?: string | null;
+  settings?: unknown;
+  dryRun?: boolean;
+  conflictPolicy?: MemoryImportConflictPolicy;
+  actor?: MemoryFactRevisionActor;
+}) {
+  const targetGuildId = normalizeOptionalId(guildId);
+  const remapGuildId = (value: string | null) => (value && targetGuildId ? targetGuildId : value);
+
+  const skipped: MemoryImportReportRow[] = [];
+  const conflicts: MemoryImportReportRow[] = [];
+  const importedRows: MemoryFactRow[] = [];
+  const seenInBundle = new Set<string>();
+  const existingBySubject = new Map<string, MemoryFactRow[]>();
+  let duplicates = 0;
+  let imported = 0;
+
+  for (const sourceFact of bundle.facts) {
+    const fact = { ...sourceFact, guildId: remapGuildId(sourceFact.guildId) };
+    const report = { subject: fact.subject, fact: fact.fact };
+    if (!fact.subject || !fact.fact) {
+      skipped.push({ ...report, reason: "invalid_fact" });
+      continue;
+    }
+    if (fact.scope === "guild" && !fact.guildId) {
+      skipped.push({ ...report, reason: "guild_required" });
+      continue;
+    }
+    if (isUnsafeMemoryFactText(fact.fact)) {
+      skipped.push({ ...report, reason: "unsafe_instruction" });
+      continue;
+    }
+
+    const identity = { scope: fact.scope, guildId: fact.guildId, userId: fact.userId, subject: fact.subject, fact: fact.fact };
+    const bundleKey = JSON.stringify(identity);
+    const existing = store.getMemoryFactBySubjectAndFact(identity);
+    if (existing || seenInBundle.has(bundleKey)) {
+      duplicates += 1;
+      if (existing && existing.fact_type !== fact.factType) {
+        conflicts.push({ ...report, reason: "fact_type_mismatch", existingFactId: existing.id, existingFact: existing.fact });
+      }
+      continue;
+    }
+    seenInBundle.add(bundleKey);
+
+    const conflict = findFactConflict(store, fact, existingBySubject);
+    if (conflict) {
+      conflicts.push({ ...report, ...conflict });
+      if (conflictPolicy !== "import") continue;
+    }
+
+    imported += 1;
+    if (dryRun) continue;
+    const inserted = store.addMemoryFact({
+      scope: fact.scope,
+      guildId: fact.guildId,
+      channelId: fact.channelId,
+      userId: fact.userId,
+      subject: fact.subject,
+      fact: fact.fact,
+      factType: fact.factType,
+      evidenceText: fact.evidenceText,
+      sourceMessageId: fact.sourceMessageId,
+      confidence: fact.confidence,
+      actor
+    });
+    const row = inserted ? store.getMemoryFactBySubjectAndFact(identity) : null;
+    if (row) importedRows.push(row);
+  }
+
+  const dailyLogResult = await importDailyLogEntries(
+    memory,
+    bundle.dailyLogEntries.map((entry) => ({ ...entry, guildId: remapGuildId(entry.guildId) })),
+    dryRun
+  );
+
+  const reflectionEvents = bundle.reflectionEvents
+    .map((event) => ({
+      ...event,
+      guildId: remapGuildId(event.guildId),
+      metadata: event.metadata && targetGuildId ? { ...event.metadata, guildId: targetGuildId } : event.metadata
+    }))
+    .filter((event) => event.guildId);
+  const reflectionResult = store.importMemoryReflectionEvents(reflectionEvents, { dryRun });
+
+  // Vectors are never part of a bundle; embed imported facts with this instance's model.
+  for (const factRow of importedRows) {
+    void memory.ensureFactVector({
+      factRow,
+      settings,
+      trace: { guildId: factRow.guild_id, source: "memory_import" }
+    });
+  }
+
+  return {
+    ok: true,
+    dryRun,
+    facts: {
+      total: bundle.facts.length,
+      imported: dryRun ? imported : importedRows.length,
+      duplicates,
+      conflicts: conflicts.length,
+      skipped: skipped.length
+    },
+    conflicts: conflicts.slice(0, MAX_IMPORT_REPORT_ROWS),
+    skipped: skipped.slice(0, MAX_IMPORT_REPORT_ROWS),
+    dailyLogEntries: dailyLogResult,
+    reflectionEvents: {
+      imported: reflectionResult.imported,
+      duplicates: reflectionResult.skipped
+    },
+    reembedQueued: importedRows.length
+  };
+}
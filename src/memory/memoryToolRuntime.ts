@@ -52,6 +52,7 @@ type SharedMemoryRuntime = {
       subjectOverride?: string;
       factType?: string | null;
       validationMode?: "strict" | "minimal";
+      actor?: "tool";
     }) => Promise<{
       ok: boolean;
       reason?: string;
@@ -510,6 +511,7 @@ export async function executeSharedMemoryToolWrite({
       sourceText: sourceText || item.text,
       scope: scope.directiveScope,
       factType: item.factType,
+      actor: "tool",
       ...(scope.directiveScope === "user" && scope.subject ? { subjectOverride: scope.subject } : {})
     });
     if (!result?.ok) {
@@ -54,6 +54,7 @@ type MicroReflectionMemory = {
     validationMode?: string;
     evidenceText?: string | null;
     supersedesFactText?: string | null;
+    actor?: "reflection";
   }): Promise<{
     ok: boolean;
     reason?: string;
@@ -317,7 +318,8 @@ export async function runMicroReflection({
       confidence: fact.confidence,
       validationMode: "minimal",
       evidenceText: fact.evidence || null,
-      supersedesFactText: fact.supersedes || null
+      supersedesFactText: fact.supersedes || null,
+      actor: "reflection"
     });
     if (saveResult?.ok) {
       savedCount += 1;
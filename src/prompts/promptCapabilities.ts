@@ -44,6 +44,7 @@ const TEXT_TOOL_SUMMARIES: Record<string, string> = {
   browser_browse: "JS rendering, visual layout, screenshots, navigation, or interaction.",
   memory_search: "Look up durable memory facts (speaker, guild, self, lore).",
   memory_write: "Store long-lived useful facts or standing guidance, never secrets or chatter. Write from your own perspective (use 'me'/'my', not your name).",
+  memory_forget: "List or delete what you remember about the speaker when they ask to see or remove it.",
   image_lookup: "Find a previously shared image from message history by ref or description.",
   code_task: "Run, follow up on, check status of, or cancel a coding task. Use action=followup with a session_id to steer a running background task.",
   join_voice_channel: "Join the requesting user's current voice channel.",
@@ -52,14 +53,16 @@ const TEXT_TOOL_SUMMARIES: Record<string, string> = {
   music_play: "Start audio playback from a query or prior selection_id.",
   video_search: "Browse YouTube video candidates without starting playback.",
   video_play: "Start YouTube video playback via Discord Go Live.",
-  music_queue_add: "Append tracks to the end of the queue.",
+  music_queue_add: "Append tracks, a saved playlist, or past plays to the end of the queue.",
   music_queue_next: "Insert tracks immediately after the current track.",
   media_stop: "Stop playback and clear the queue.",
   media_pause: "Pause current playback.",
   media_resume: "Resume paused playback.",
   media_reply_handoff: "Temporarily pause/duck playback while you speak.",
   media_skip: "Skip to the next queued item.",
-  media_now_playing: "Read current playback and queue status.",
+  media_now_playing: "Read current playback and queue status; include_details adds album, year and lyrics at the current position.",
+  media_seek: "Jump to a position in the current track.",
+  media_effects: "Change crossfade, loudness normalization, speed, pitch or bass boost for this server's music.",
   start_screen_watch: "Watch the most relevant active stream for live visual context.",
   share_browser_session: "Share a persistent browser session into Discord Go Live.",
   stop_video_share: "Stop the current outbound video share.",
@@ -124,9 +127,15 @@ export function buildAutomationDocs(): string[] {
     "You can create and manage scheduled automations for users.",
     "If the user asks to schedule/start recurring tasks, set automationAction.operation=create.",
     "For create, set automationAction.schedule with one of:",
-    "- daily: {\"kind\":\"daily\",\"hour\":0-23,\"minute\":0-59}",
+    "- daily: {\"kind\":\"daily\",\"hour\":0-23,\"minute\":0-59,\"timeZone\":\"IANA zone or null\"}",
     "- interval: {\"kind\":\"interval\",\"everyMinutes\":integer}",
     "- once: {\"kind\":\"once\",\"atIso\":\"ISO-8601 timestamp\"}",
+    "- cron: {\"kind\":\"cron\",\"expression\":\"minute hour day-of-month month day-of-week\",\"timeZone\":\"IANA zone or null\"}",
+    "Use cron for weekday-only, nth-weekday, or multiple-times-per-day schedules (e.g. \"0 9 * * MON-FRI\", \"0 10 * * MON#1\", \"0 9,17 * * *\").",
+    "Set timeZone (e.g. \"America/New_York\") when the user names a timezone or city; null uses the scheduler timezone.",
+    "- event: {\"kind\":\"event\",\"event\":\"message|voice_join|discovery_item|automation_run\",...} runs when something happens instead of on a clock:",
+    "  message: pattern (keyword, or a simple regex with match=regex: no backreferences or repeated groups containing quantifiers), optional channelId to watch; voice_join: optional userId and voice channelId;",
+    "  discovery_item: optional source (reddit|hackernews|youtube|rss|x) and keyword pattern; automation_run: automationId of the upstream automation and onStatus ok|error|any.",
     "For create, set automationAction.instruction to the exact task instruction (what to do each run).",
     "Use automationAction.runImmediately=true only when user asks for immediate first run.",
     "If user asks to stop/pause a recurring task, set automationAction.operation=pause with targetQuery.",
@@ -199,7 +208,8 @@ export function buildMemoryLookupDocs(): string[] {
   return [
     "If the user asks what you remember (or asks for stored facts) and current memory context is insufficient, call memory_search with a concise query.",
     "If the user asks for a broad dump of stored memory or everything you remember, use query \"__ALL__\".",
-    "`__ALL__` requests a capped stored-memory dump, not a ranked topical lookup."
+    "`__ALL__` requests a capped stored-memory dump, not a ranked topical lookup.",
+    "If the speaker asks what you know about them so they can correct it, or asks you to forget something about them, call memory_forget: first with no arguments to get their fact ids, then with fact_ids (or all=true only when they ask to be forgotten entirely). Only the speaker's own facts can be forgotten."
   ];
 }
 
@@ -286,7 +296,7 @@ export function buildTextCapabilitiesDocs(
   const availableToolNames: string[] = ["conversation_search"];
   if (flags.webSearchEnabled) availableToolNames.push("web_search", "web_scrape");
   if (flags.browserEnabled) availableToolNames.push("browser_browse");
-  if (flags.memoryEnabled) availableToolNames.push("memory_search", "memory_write");
+  if (flags.memoryEnabled) availableToolNames.push("memory_search", "memory_write", "memory_forget");
   availableToolNames.push("image_lookup");
   if (flags.voiceEnabled) {
     availableToolNames.push(
@@ -294,6 +304,7 @@ export function buildTextCapabilitiesDocs(
       "music_play", "music_search", "music_queue_add", "music_queue_next",
       "video_play", "video_search",
       "media_stop", "media_pause", "media_resume", "media_skip", "media_now_playing",
+      "media_seek", "media_effects",
       "media_reply_handoff", "play_soundboard", "note_context"
     );
   }
@@ -388,8 +399,11 @@ export function buildVoiceMusicToolDocs(): string[] {
     "Visualizer: stream_visualizer starts a Go Live audio visualizer for currently playing music. Optional mode: cqt, spectrum, waves, vectorscope.",
     "Use video_search only when the user explicitly wants video options. If seeing the site, thumbnails, or layout would help you decide, browser_browse can be the better tool.",
     "Queue: music_queue_next (after current) and music_queue_add (append) can take either direct query text or exact prior IDs. Prefer direct query for ordinary queue requests; use music_search only when the user explicitly wants options or browsing.",
+    "Song questions: for \"what album is this\" or \"what did they just say\", call media_now_playing with include_details and answer from the returned lyric lines; don't guess lyrics.",
+    "Saved music: music_queue_add also takes playlist (a saved playlist name) or history_since/history_until (ISO dates) for requests like \"play what we listened to last Friday\". Resolve relative days against the current date.",
     "For a request like \"play X, then queue Y\", emit music_play for X first and music_queue_next for Y second in the same tool response. Do not say Y is queued unless music_queue_next or music_queue_add succeeds.",
     "Other playback controls: media_stop, media_pause, media_resume, media_skip, media_now_playing. Don't chain queue_add+skip to emulate play-now.",
+    "Sound: media_seek jumps within the current track (read position_ms from media_now_playing for \"skip ahead 30 seconds\"); media_effects changes crossfade, loudness normalization, speed, pitch and bass boost, which persist for this server.",
     `Floor control: ${MUSIC_ACTIVE_AUTONOMY_POLICY_LINE}`,
     MUSIC_REPLY_HANDOFF_POLICY_LINE
   ];
@@ -475,6 +489,7 @@ export function buildVoiceCapabilitiesDocs(
     "music_play", "music_search", "music_queue_add", "music_queue_next",
     "video_play", "video_search",
     "media_stop", "media_pause", "media_resume", "media_skip", "media_now_playing",
+    "media_seek", "media_effects",
     "media_reply_handoff", "stream_visualizer", "play_soundboard",
     "leave_voice_channel"
   );
@@ -235,6 +235,28 @@ export function formatConversationWindows(windows) {
     .join("\n");
 }
 
+export function formatLinkedVideoMatches(matches) {
+  const rows = Array.isArray(matches) ? matches : [];
+  if (!rows.length) return "(no matching linked videos)";
+
+  return rows
+    .slice(0, 4)
+    .map((match, index) => {
+      const title = String(match?.title || "untitled video").trim() || "untitled video";
+      const channel = String(match?.channel || "").trim();
+      const linkedAge = formatRelativePromptAge(match?.linkedAt);
+      const header = [
+        `- [V${index + 1}] "${title}"`,
+        channel ? ` by ${channel}` : "",
+        linkedAge ? `, linked ${linkedAge}` : "",
+        match?.url ? `: ${String(match.url).trim()}` : ""
+      ].join("");
+      const snippet = String(match?.snippet || "").replace(/\s+/g, " ").trim();
+      return snippet ? `${header}\n  transcript: "${snippet}"` : header;
+    })
+    .join("\n");
+}
+
 export function formatConversationParticipantMemory({
   participantProfiles = [],
   selfFacts = [],
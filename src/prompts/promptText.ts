@@ -624,6 +624,7 @@ export function buildInitiativePrompt({
 
 export function buildAutomationPrompt({
   instruction,
+  triggerSummary = "",
   channelName = "channel",
   recentMessages = [],
   userFacts = [],
@@ -648,10 +649,18 @@ export function buildAutomationPrompt({
     .trim()
     .slice(0, 360);
 
+  const trigger = String(triggerSummary || "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 600);
+
   parts.push("=== AUTOMATION TASK ===");
-  parts.push("You are executing a scheduled automation task.");
+  parts.push(trigger ? "You are executing an event-triggered automation task." : "You are executing a scheduled automation task.");
   parts.push(`Target channel: #${String(channelName || "channel").trim() || "channel"}.`);
   parts.push(`Task instruction: ${taskInstruction || "(missing instruction)"}`);
+  if (trigger) {
+    parts.push(`Triggered by: ${trigger}`);
+  }
   parts.push("Keep the output in normal persona voice. No robotic framing.");
   parts.push("=== RECENT MESSAGES ===");
   parts.push(formatRecentChat(recentMessages));
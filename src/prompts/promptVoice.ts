@@ -22,7 +22,8 @@ import {
   getScreenWatchCommentaryTier
 } from "./voiceAdmissionPolicy.ts";
 import { VOICE_TOOL_SCHEMAS } from "../tools/sharedToolSchemas.ts";
-import type { VoiceSessionDurableContextEntry } from "../voice/voiceSessionTypes.ts";
+import { isMusicPlatform } from "../voice/musicSearch.ts";
+import type { MusicSelectionPlatform, VoiceSessionDurableContextEntry } from "../voice/voiceSessionTypes.ts";
 
 type VoiceMusicPromptContext = {
   playbackState: "playing" | "paused" | "stopped" | "idle";
@@ -38,14 +39,14 @@ type VoiceMusicPromptContext = {
 type VoiceMusicDisambiguationPromptContext = {
   active: boolean;
   query: string | null;
-  platform: "youtube" | "soundcloud" | "discord" | "auto";
+  platform: MusicSelectionPlatform;
   action: "play_now" | "queue_next" | "queue_add";
   requestedByUserId: string | null;
   options: Array<{
     id: string;
     title: string;
     artist: string;
-    platform: "youtube" | "soundcloud" | "discord" | "auto";
+    platform: MusicSelectionPlatform;
   }>;
 };
 
@@ -101,7 +102,7 @@ function normalizeMusicDisambiguationPlatform(
   value: unknown
 ): VoiceMusicDisambiguationPromptContext["platform"] {
   const token = String(value || "").trim().toLowerCase();
-  if (token === "youtube" || token === "soundcloud" || token === "discord") {
+  if (isMusicPlatform(token) || token === "discord") {
     return token;
   }
   return "auto";
@@ -429,7 +430,7 @@ export function buildVoiceTurnPrompt({
               platform
             };
           })
-          .filter((entry): entry is { id: string; title: string; artist: string; platform: "youtube" | "soundcloud" | "discord" | "auto" } => Boolean(entry))
+          .filter((entry): entry is { id: string; title: string; artist: string; platform: MusicSelectionPlatform } => Boolean(entry))
           .slice(0, 5)
       }
       : null;
@@ -1,12 +1,17 @@
 import { deepMerge } from "../utils.ts";
-import { isRecord } from "../store/normalize/primitives.ts";
+import { isRecord, omitUndefinedDeep } from "../store/normalize/primitives.ts";
+import { normalizeSettings } from "../store/settingsNormalization.ts";
 import {
   DEFAULT_SETTINGS,
+  SETTINGS_OVERLAY_SECTIONS,
   type DevTeamRoles,
   type Settings,
   type SettingsCodingWorkerName,
   type SettingsModelBinding,
-  type SettingsInput
+  type SettingsInput,
+  type SettingsOverlay,
+  type SettingsOverlayPatch,
+  type SettingsOverlayScope
 } from "./settingsSchema.ts";
 import {
   getAgentStackPresetDefaults,
@@ -197,6 +202,14 @@ export function getDevTaskPermissions(settings: unknown): Settings["permissions"
   );
 }
 
+export function getToolPermissions(settings: unknown): Settings["permissions"]["tools"] {
+  return getSettingsSection(
+    settings,
+    (input) => input.permissions?.tools,
+    DEFAULT_SETTINGS.permissions.tools as Settings["permissions"]["tools"]
+  );
+}
+
 export function getActivitySettings(settings: unknown): Settings["interaction"]["activity"] {
   return getSettingsSection(
     settings,
@@ -341,6 +354,14 @@ export function getAutomationsSettings(settings: unknown): Settings["automations
   return getSettingsSection(settings, (input) => input.automations, DEFAULT_SETTINGS.automations);
 }
 
+export function getMcpSettings(settings: unknown): Settings["mcp"] {
+  return getSettingsSection(settings, (input) => input.mcp, DEFAULT_SETTINGS.mcp as Settings["mcp"]);
+}
+
+export function getSpendCapsSettings(settings: unknown): Settings["spendCaps"] {
+  return getSettingsSection(settings, (input) => input.spendCaps, DEFAULT_SETTINGS.spendCaps);
+}
+
 function getRuntimeConfig(settings: unknown): Settings["agentStack"]["runtimeConfig"] {
   const agentStack = getAgentStackSettings(settings);
   return mergeWithDefaults(DEFAULT_SETTINGS.agentStack.runtimeConfig, agentStack.runtimeConfig);
@@ -757,3 +778,62 @@ export function isDevTaskEnabled(settings: unknown): boolean {
   const hasWorkers = Boolean(runtime?.codex?.enabled || runtime?.codexCli?.enabled || runtime?.claudeCode?.enabled);
   return hasWorkers && Array.isArray(permissions.allowedUserIds) && permissions.allowedUserIds.length > 0;
 }
+
+function normalizeScopeId(value: unknown) {
+  return String(value || "").trim();
+}
+
+/**
+ * Keep only the sections that may vary per guild/channel. Provider bindings,
+ * memory, automations and MCP stay global because they back shared runtimes.
+ */
+export function sanitizeSettingsOverlayPatch(patch: unknown): SettingsOverlayPatch {
+  if (!isRecord(patch)) return {};
+  const sanitized: Record<string, unknown> = {};
+  for (const section of SETTINGS_OVERLAY_SECTIONS) {
+    const value = patch[section];
+    if (!isRecord(value)) continue;
+    const cleaned = omitUndefinedDeep(value);
+    if (isRecord(cleaned) && Object.keys(cleaned).length > 0) {
+      sanitized[section] = cleaned;
+    }
+  }
+  return sanitized as SettingsOverlayPatch;
+}
+
+/**
+ * Pick the overlays that apply to a scope, guild-wide first and then the
+ * channel-specific one, so channel values win over guild values.
+ */
+export function selectSettingsOverlays(
+  overlays: readonly SettingsOverlay[] | null | undefined,
+  scope: SettingsOverlayScope | null | undefined
+): SettingsOverlay[] {
+  const guildId = normalizeScopeId(scope?.guildId);
+  if (!guildId || !Array.isArray(overlays) || overlays.length === 0) return [];
+  const channelId = normalizeScopeId(scope?.channelId);
+  const guildOverlay = overlays.find((overlay) => overlay.guildId === guildId && !overlay.channelId) || null;
+  const channelOverlay = channelId
+    ? overlays.find((overlay) => overlay.guildId === guildId && overlay.channelId === channelId) || null
+    : null;
+  return [guildOverlay, channelOverlay].filter((overlay): overlay is SettingsOverlay => Boolean(overlay));
+}
+
+/**
+ * Resolve the effective settings for a guild/channel by layering its overlays
+ * on top of the global settings. Returns the global settings untouched when no
+ * overlay applies.
+ */
+export function resolveScopedSettings(
+  settings: Settings,
+  overlays: readonly SettingsOverlay[] | null | undefined,
+  scope: SettingsOverlayScope | null | undefined
+): Settings {
+  const applicable = selectSettingsOverlays(overlays, scope);
+  if (!applicable.length) return settings;
+  let merged: unknown = settings;
+  for (const overlay of applicable) {
+    merged = deepMerge(merged, sanitizeSettingsOverlayPatch(overlay.patch));
+  }
+  return normalizeSettings(merged);
+}
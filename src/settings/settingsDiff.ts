@@ -0,0 +1,29 @@
+import { isRecord } from "../store/normalize/primitives.ts";
+
+export type SettingsDiffEntry = {
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+function sameValue(left: unknown, right: unknown) {
+  return JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+}
+
+/**
+ * Leaf-level diff of two settings trees. Objects are walked key by key;
+ * arrays and scalars are compared whole, so a list change is one entry.
+ */
+export function diffSettings(before: unknown, after: unknown, prefix = ""): SettingsDiffEntry[] {
+  if (!isRecord(before) || !isRecord(after)) {
+    return sameValue(before, after) ? [] : [{ path: prefix || "(root)", before: before ?? null, after: after ?? null }];
+  }
+
+  const entries: SettingsDiffEntry[] = [];
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  for (const key of keys) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    entries.push(...diffSettings(before[key], after[key], path));
+  }
+  return entries;
+}
@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { test } from "bun:test";
+import { Store } from "../store/store.ts";
+import {
+  SETTINGS_EXPORT_FORMAT,
+  buildSettingsExportBundle,
+  importSettingsBundleExtras,
+  parseSettingsBundle,
+  resolveImportedSettings
+} from "./settingsPortability.ts";
+
+function createStore() {
+  const store = new Store(":memory:");
+  store.init();
+  return store;
+}
+
+test("settings export leaves discovery sources and extras out unless requested", () => {
+  const store = createStore();
+  store.patchSettings({ identity: { botName: "exported bot" } });
+  store.logAction({ kind: "sent_reply", metadata: { triggerMessageId: "msg-1" } });
+
+  const minimal = buildSettingsExportBundle({ store, settings: store.getSettingsRecord().intent });
+  assert.equal(minimal.format, SETTINGS_EXPORT_FORMAT);
+  assert.equal((minimal.settings.identity as { botName: string }).botName, "exported bot");
+  const discovery = ((minimal.settings.initiative as Record<string, unknown>).discovery || {}) as Record<string, unknown>;
+  assert.equal("rssFeeds" in discovery, false);
+  assert.equal(minimal.discoverySources, null);
+  assert.equal(minimal.automations, null);
+  assert.equal(minimal.responseTriggers, null);
+
+  const full = buildSettingsExportBundle({
+    store,
+    settings: store.getSettingsRecord().intent,
+    include: { discoverySources: true, automations: true, responseTriggers: true }
+  });
+  assert.deepEqual(full.discoverySources?.rssFeeds, store.getSettings().initiative.discovery.rssFeeds);
+  assert.deepEqual(full.responseTriggers?.map((trigger) => trigger.triggerMessageId), ["msg-1"]);
+});
+
+test("settings bundle parsing rejects foreign bundles and drops secret-looking keys", () => {
+  assert.deepEqual(parseSettingsBundle({ format: "clanker-memory-export", version: 1 }), {
+    ok: false,
+    reason: "unsupported_format"
+  });
+  assert.deepEqual(parseSettingsBundle({ format: SETTINGS_EXPORT_FORMAT, version: 99, settings: {} }), {
+    ok: false,
+    reason: "unsupported_version"
+  });
+  assert.deepEqual(parseSettingsBundle("{not json"), { ok: false, reason: "invalid_json" });
+
+  const parsed = parseSettingsBundle(JSON.stringify({
+    format: SETTINGS_EXPORT_FORMAT,
+    version: 1,
+    settings: {
+      identity: { botName: "imported", apiKey: "sk-live", refreshToken: "rt" },
+      interaction: { replyGeneration: { maxOutputTokens: 900 } }
+    }
+  }));
+  assert.equal(parsed.ok, true);
+  if (!parsed.ok) return;
+  assert.deepEqual(parsed.bundle.settings.identity, { botName: "imported" });
+  assert.deepEqual(parsed.bundle.settings.interaction, { replyGeneration: { maxOutputTokens: 900 } });
+});
+
+test("settings import keeps the target's discovery sources when the bundle has none", () => {
+  const store = createStore();
+  store.patchSettings({ initiative: { discovery: { rssFeeds: ["https://target.example/feed.xml"] } } });
+  const parsed = parseSettingsBundle({
+    format: SETTINGS_EXPORT_FORMAT,
+    version: 1,
+    settings: { identity: { botName: "imported" } }
+  });
+  assert.equal(parsed.ok, true);
+  if (!parsed.ok) return;
+
+  const imported = resolveImportedSettings(parsed.bundle, store.getSettingsRecord().intent);
+  assert.equal(imported.identity.botName, "imported");
+  assert.deepEqual(imported.initiative.discovery.rssFeeds, ["https://target.example/feed.xml"]);
+
+  const withSources = resolveImportedSettings(
+    { ...parsed.bundle, discoverySources: { redditSubreddits: [], youtubeChannelIds: [], rssFeeds: [], xHandles: ["someone"] } },
+    store.getSettingsRecord().intent
+  );
+  assert.deepEqual(withSources.initiative.discovery.rssFeeds, []);
+  assert.deepEqual(withSources.initiative.discovery.xHandles, ["someone"]);
+});
+
+test("settings import adds new automations and response triggers and skips duplicates", () => {
+  const store = createStore();
+  store.createAutomation({
+    guildId: "guild-1",
+    channelId: "chan-1",
+    createdByUserId: "user-1",
+    title: "existing",
+    instruction: "post a daily recap",
+    schedule: { kind: "interval", everyMinutes: 60 },
+    nextRunAt: new Date(Date.now() + 60_000).toISOString()
+  });
+  store.logAction({ kind: "sent_reply", metadata: { triggerMessageId: "msg-known" } });
+
+  const parsed = parseSettingsBundle({
+    format: SETTINGS_EXPORT_FORMAT,
+    version: 1,
+    settings: {},
+    automations: [
+      { guildId: "guild-1", channelId: "chan-1", title: "existing", instruction: "post a daily recap", schedule: { kind: "interval", everyMinutes: 60 }, status: "active" },
+      { guildId: "guild-1", channelId: "chan-2", title: "weekly", instruction: "share a meme", schedule: { kind: "interval", everyMinutes: 120 }, status: "paused" },
+      { guildId: "guild-elsewhere", channelId: "chan-9", title: "away", instruction: "say hi", schedule: { kind: "interval", everyMinutes: 30 }, status: "active" }
+    ],
+    responseTriggers: [
+      { triggerMessageId: "msg-known", createdAt: new Date().toISOString() },
+      { triggerMessageId: "msg-new", createdAt: new Date().toISOString() }
+    ]
+  });
+  assert.equal(parsed.ok, true);
+  if (!parsed.ok) return;
+
+  const preview = importSettingsBundleExtras({ store, bundle: parsed.bundle, guildIds: ["guild-1"], dryRun: true });
+  assert.equal(preview.automations?.imported, 1);
+  assert.deepEqual(preview.automations?.skippedRows.map((row) => row.reason), ["duplicate", "guild_unavailable"]);
+  assert.deepEqual(preview.responseTriggers, { imported: 1, skipped: 1 });
+  assert.equal(store.countAutomations({ guildId: "guild-1" }), 1);
+  assert.equal(store.hasTriggeredResponse("msg-new"), false);
+
+  importSettingsBundleExtras({ store, bundle: parsed.bundle, guildIds: ["guild-1"] });
+  const rows = store.listAutomations({ guildId: "guild-1" });
+  assert.equal(rows.length, 2);
+  assert.equal(rows.find((row) => row.title === "weekly")?.status, "paused");
+  assert.equal(store.hasTriggeredResponse("msg-new"), true);
+
+  store.pruneActionLog({ maxAgeDays: 30 });
+  assert.equal(store.hasTriggeredResponse("msg-new"), true);
+});
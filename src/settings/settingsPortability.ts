@@ -0,0 +1,353 @@
+import { isEventAutomationSchedule, normalizeAutomationInstruction, normalizeAutomationSchedule, resolveInitialNextRunAt } from "../bot/automation.ts";
+import { MAX_AUTOMATIONS_PER_GUILD } from "../bot/automationControl.ts";
+import { isRecord } from "../store/normalize/primitives.ts";
+import { normalizeSettings } from "../store/settingsNormalization.ts";
+import type { ResponseTriggerInput } from "../store/storeActionLog.ts";
+import type { Settings } from "./settingsSchema.ts";
+
+export const SETTINGS_EXPORT_FORMAT = "clanker-settings-export";
+export const SETTINGS_EXPORT_VERSION = 1;
+
+const IMPORT_AUTOMATION_ACTOR = "settings_import";
+const MAX_IMPORT_REPORT_ROWS = 200;
+const MAX_EXPORT_RESPONSE_TRIGGERS = 5000;
+
+// Settings never hold credentials today (provider keys live in the environment), but a
+// bundle is meant to be shared, so anything named like one is dropped on the way out and in.
+const SECRET_KEY_PATTERN = /(api[_-]?key|secret|password|passphrase|access[_-]?token|refresh[_-]?token|bearer|authorization|cookie)$/i;
+
+const DISCOVERY_SOURCE_KEYS = ["redditSubreddits", "youtubeChannelIds", "rssFeeds", "xHandles"] as const;
+
+type DiscoverySourceKey = (typeof DISCOVERY_SOURCE_KEYS)[number];
+
+export type SettingsExportDiscoverySources = Record<DiscoverySourceKey, string[]>;
+
+export type SettingsExportAutomation = {
+  guildId: string;
+  channelId: string;
+  title: string;
+  instruction: string;
+  schedule: Record<string, unknown>;
+  status: "active" | "paused";
+};
+
+export type SettingsExportBundle = {
+  format: typeof SETTINGS_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: Record<string, unknown>;
+  discoverySources: SettingsExportDiscoverySources | null;
+  automations: SettingsExportAutomation[] | null;
+  responseTriggers: ResponseTriggerInput[] | null;
+};
+
+export type SettingsExportSections = {
+  discoverySources?: boolean;
+  automations?: boolean;
+  responseTriggers?: boolean;
+};
+
+type PortabilityAutomationRow = {
+  id: number;
+  guild_id: string;
+  channel_id: string;
+  title: string;
+  instruction: string;
+  schedule: unknown;
+  status: string;
+};
+
+type PortabilityStore = {
+  listAutomations(opts: { guildId: string; statuses?: string[]; limit?: number }): PortabilityAutomationRow[];
+  createAutomation(opts: {
+    guildId: string;
+    channelId: string;
+    createdByUserId: string;
+    createdByName?: string;
+    title: string;
+    instruction: string;
+    schedule: unknown;
+    nextRunAt?: string | null;
+  }): PortabilityAutomationRow | null;
+  setAutomationStatus(opts: { automationId: number; guildId: string; status: string; nextRunAt?: string | null }): unknown;
+  listResponseTriggers(opts?: { limit?: number }): ResponseTriggerInput[];
+  importResponseTriggers(triggers: ResponseTriggerInput[], opts?: { dryRun?: boolean }): { imported: number; skipped: number };
+};
+
+type SettingsImportReportRow = {
+  guildId: string;
+  channelId: string;
+  title: string;
+  reason: string;
+};
+
+function stripSecretKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripSecretKeys);
+  if (!isRecord(value)) return value;
+  const out: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (SECRET_KEY_PATTERN.test(key)) continue;
+    out[key] = stripSecretKeys(entry);
+  }
+  return out;
+}
+
+function readDiscoverySources(settings: Settings): SettingsExportDiscoverySources {
+  const discovery = settings.initiative.discovery;
+  return {
+    redditSubreddits: [...discovery.redditSubreddits],
+    youtubeChannelIds: [...discovery.youtubeChannelIds],
+    rssFeeds: [...discovery.rssFeeds],
+    xHandles: [...discovery.xHandles]
+  };
+}
+
+function withoutDiscoverySources(settings: Record<string, unknown>) {
+  const initiative = isRecord(settings.initiative) ? settings.initiative : {};
+  const discovery = isRecord(initiative.discovery) ? { ...initiative.discovery } : {};
+  for (const key of DISCOVERY_SOURCE_KEYS) delete discovery[key];
+  return { ...settings, initiative: { ...initiative, discovery } };
+}
+
+function automationKey(row: { guildId: string; channelId: string; title: string; instruction: string }) {
+  return [row.guildId, row.channelId, row.title.trim().toLowerCase(), row.instruction.trim().toLowerCase()].join("\u0000");
+}
+
+/**
+ * Bundles the normalized settings, minus anything secret-looking. Discovery source
+ * lists, automations and response triggers ride along only when asked for; the
+ * settings section itself never carries the source lists so importing a bundle
+ * without them leaves the target's sources alone.
+ */
+export function buildSettingsExportBundle({
+  store,
+  settings,
+  guildIds = [],
+  include = {},
+  now = new Date()
+}: {
+  store: Pick<PortabilityStore, "listAutomations" | "listResponseTriggers">;
+  settings: unknown;
+  guildIds?: string[];
+  include?: SettingsExportSections;
+  now?: Date;
+}): SettingsExportBundle {
+  const normalized = normalizeSettings(settings);
+  const automations = include.automations
+    ? guildIds.flatMap((guildId) =>
+      store.listAutomations({ guildId, statuses: ["active", "paused"], limit: MAX_AUTOMATIONS_PER_GUILD }).map((row) => ({
+        guildId: row.guild_id,
+        channelId: row.channel_id,
+        title: row.title,
+        instruction: row.instruction,
+        schedule: isRecord(row.schedule) ? row.schedule : {},
+        status: (row.status === "paused" ? "paused" : "active") as SettingsExportAutomation["status"]
+      }))
+    )
+    : null;
+
+  return {
+    format: SETTINGS_EXPORT_FORMAT,
+    version: SETTINGS_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    settings: withoutDiscoverySources(stripSecretKeys(normalized) as Record<string, unknown>),
+    discoverySources: include.discoverySources ? readDiscoverySources(normalized) : null,
+    automations,
+    responseTriggers: include.responseTriggers
+      ? store.listResponseTriggers({ limit: MAX_EXPORT_RESPONSE_TRIGGERS })
+      : null
+  };
+}
+
+export function parseSettingsBundle(input: unknown):
+  | { ok: true; bundle: SettingsExportBundle }
+  | { ok: false; reason: string } {
+  let raw: unknown = input;
+  if (typeof input === "string") {
+    const text = input.trim();
+    if (!text) return { ok: false, reason: "empty_bundle" };
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      return { ok: false, reason: "invalid_json" };
+    }
+  }
+
+  if (!isRecord(raw)) return { ok: false, reason: "invalid_bundle" };
+  if (raw.format !== SETTINGS_EXPORT_FORMAT) return { ok: false, reason: "unsupported_format" };
+  const version = Number(raw.version);
+  if (!Number.isInteger(version) || version < 1 || version > SETTINGS_EXPORT_VERSION) {
+    return { ok: false, reason: "unsupported_version" };
+  }
+  if (!isRecord(raw.settings)) return { ok: false, reason: "missing_settings" };
+
+  let discoverySources: SettingsExportDiscoverySources | null = null;
+  if (isRecord(raw.discoverySources)) {
+    const sources = raw.discoverySources;
+    discoverySources = {
+      redditSubreddits: [],
+      youtubeChannelIds: [],
+      rssFeeds: [],
+      xHandles: []
+    };
+    for (const key of DISCOVERY_SOURCE_KEYS) {
+      discoverySources[key] = (Array.isArray(sources[key]) ? sources[key] : []).map(String);
+    }
+  }
+
+  const automations = Array.isArray(raw.automations)
+    ? raw.automations.filter(isRecord).map((record) => ({
+      guildId: String(record.guildId || "").trim(),
+      channelId: String(record.channelId || "").trim(),
+      title: String(record.title || "").trim(),
+      instruction: String(record.instruction || ""),
+      schedule: isRecord(record.schedule) ? record.schedule : {},
+      status: (record.status === "paused" ? "paused" : "active") as SettingsExportAutomation["status"]
+    }))
+    : null;
+
+  const responseTriggers = Array.isArray(raw.responseTriggers)
+    ? raw.responseTriggers.filter(isRecord).map((record) => ({
+      triggerMessageId: String(record.triggerMessageId || "").trim(),
+      createdAt: String(record.createdAt || "")
+    })).filter((record) => record.triggerMessageId)
+    : null;
+
+  return {
+    ok: true,
+    bundle: {
+      format: SETTINGS_EXPORT_FORMAT,
+      version,
+      exportedAt: String(raw.exportedAt || ""),
+      settings: stripSecretKeys(raw.settings) as Record<string, unknown>,
+      discoverySources,
+      automations,
+      responseTriggers
+    }
+  };
+}
+
+/**
+ * Settings the import would write: the bundle's settings run through normalization,
+ * with the discovery source lists taken from the bundle when it carries them and
+ * from the current settings otherwise.
+ */
+export function resolveImportedSettings(bundle: SettingsExportBundle, current: unknown): Settings {
+  const sources = bundle.discoverySources || readDiscoverySources(normalizeSettings(current));
+  const imported = normalizeSettings(bundle.settings);
+  return normalizeSettings({
+    ...imported,
+    initiative: {
+      ...imported.initiative,
+      discovery: {
+        ...imported.initiative.discovery,
+        ...sources
+      }
+    }
+  });
+}
+
+/**
+ * Imports the optional automation and response-trigger sections. Automations that
+ * already exist (same guild, channel, title and instruction), target a guild this
+ * instance is not in, or would exceed the per-guild cap are skipped and reported.
+ */
+export function importSettingsBundleExtras({
+  store,
+  bundle,
+  guildIds,
+  dryRun = false,
+  nowMs = Date.now()
+}: {
+  store: PortabilityStore;
+  bundle: SettingsExportBundle;
+  guildIds: string[];
+  dryRun?: boolean;
+  nowMs?: number;
+}) {
+  const knownGuildIds = new Set(guildIds);
+  const existingByGuild = new Map<string, Set<string>>();
+  const existingKeysFor = (guildId: string) => {
+    let keys = existingByGuild.get(guildId);
+    if (!keys) {
+      keys = new Set(
+        store.listAutomations({ guildId, statuses: ["active", "paused"], limit: MAX_AUTOMATIONS_PER_GUILD }).map((row) =>
+          automationKey({ guildId: row.guild_id, channelId: row.channel_id, title: row.title, instruction: row.instruction })
+        )
+      );
+      existingByGuild.set(guildId, keys);
+    }
+    return keys;
+  };
+
+  let importedAutomations = 0;
+  const skippedAutomations: SettingsImportReportRow[] = [];
+  const skip = (automation: SettingsExportAutomation, reason: string) => {
+    skippedAutomations.push({
+      guildId: automation.guildId,
+      channelId: automation.channelId,
+      title: automation.title,
+      reason
+    });
+  };
+
+  for (const automation of bundle.automations || []) {
+    const instruction = normalizeAutomationInstruction(automation.instruction);
+    const schedule = normalizeAutomationSchedule(automation.schedule, { nowMs });
+    if (!automation.guildId || !automation.channelId || !instruction || !schedule) {
+      skip(automation, "invalid");
+      continue;
+    }
+    if (!knownGuildIds.has(automation.guildId)) {
+      skip(automation, "guild_unavailable");
+      continue;
+    }
+    const nextRunAt = resolveInitialNextRunAt({ schedule, nowMs });
+    if (!nextRunAt && !isEventAutomationSchedule(schedule)) {
+      skip(automation, "schedule_invalid");
+      continue;
+    }
+    const existingKeys = existingKeysFor(automation.guildId);
+    const key = automationKey({ ...automation, instruction });
+    if (existingKeys.has(key)) {
+      skip(automation, "duplicate");
+      continue;
+    }
+    if (existingKeys.size >= MAX_AUTOMATIONS_PER_GUILD) {
+      skip(automation, "automation_cap_reached");
+      continue;
+    }
+
+    existingKeys.add(key);
+    importedAutomations += 1;
+    if (dryRun) continue;
+    const created = store.createAutomation({
+      guildId: automation.guildId,
+      channelId: automation.channelId,
+      createdByUserId: IMPORT_AUTOMATION_ACTOR,
+      createdByName: IMPORT_AUTOMATION_ACTOR,
+      title: automation.title || instruction.slice(0, 80),
+      instruction,
+      schedule,
+      nextRunAt
+    });
+    if (created && automation.status === "paused") {
+      store.setAutomationStatus({ automationId: created.id, guildId: created.guild_id, status: "paused", nextRunAt: null });
+    }
+  }
+
+  const responseTriggers = bundle.responseTriggers
+    ? store.importResponseTriggers(bundle.responseTriggers, { dryRun })
+    : null;
+
+  return {
+    automations: bundle.automations
+      ? {
+        imported: importedAutomations,
+        skipped: skippedAutomations.length,
+        skippedRows: skippedAutomations.slice(0, MAX_IMPORT_REPORT_ROWS)
+      }
+      : null,
+    responseTriggers
+  };
+}
@@ -56,6 +56,11 @@ const VOICE_RUNTIME_KINDS = [
   "elevenlabs_realtime"
 ] as const;
 
+export const SPEND_CAP_EXCEEDED_MODES = [
+  "degrade",
+  "refuse"
+] as const;
+
 const VOICE_ADMISSION_MODES = [
   "classifier_gate",
   "generation_decides"
@@ -248,6 +253,9 @@ export const DEFAULT_SETTINGS = {
     },
     devTasks: {
       allowedUserIds: []
+    },
+    tools: {
+      rules: []
     }
   },
   interaction: {
@@ -655,6 +663,7 @@ export const DEFAULT_SETTINGS = {
       keyframeIntervalSeconds: 8,
       maxKeyframesPerVideo: 3,
       allowAsrFallback: false,
+      asrProvider: "openai",
       maxAsrSeconds: 120
     }
   },
@@ -666,6 +675,25 @@ export const DEFAULT_SETTINGS = {
   },
   automations: {
     enabled: true
+  },
+  mcp: {
+    enabled: true,
+    servers: []
+  },
+  spendCaps: {
+    enabled: false,
+    degradeModel: {
+      provider: "anthropic",
+      model: "claude-haiku-4-5"
+    },
+    features: {
+      reply: { dailyUsd: 0, monthlyUsd: 0, onExceeded: "degrade" },
+      voice: { dailyUsd: 0, monthlyUsd: 0, onExceeded: "degrade" },
+      memoryReflection: { dailyUsd: 0, monthlyUsd: 0, onExceeded: "degrade" },
+      codeAgent: { dailyUsd: 0, monthlyUsd: 0, onExceeded: "refuse" },
+      browserAgent: { dailyUsd: 0, monthlyUsd: 0, onExceeded: "refuse" },
+      vision: { dailyUsd: 0, monthlyUsd: 0, onExceeded: "degrade" }
+    }
   }
 } as const;
 
@@ -717,6 +745,31 @@ type SettingsAgentStack = Omit<SettingsFromDefaults["agentStack"], "overrides" |
 
 type SettingsMemory = SettingsFromDefaults["memory"];
 
+export type SettingsMcpServerPolicy = {
+  serverName: string;
+  enabled: boolean;
+  allowedTools: readonly string[];
+};
+
+type SettingsMcp = Omit<SettingsFromDefaults["mcp"], "servers"> & {
+  servers: readonly SettingsMcpServerPolicy[];
+};
+
+export type SettingsToolPermissionSurface = "reply" | "voice_realtime";
+
+export type SettingsToolPermissionRule = {
+  toolName: string;
+  surfaces: readonly SettingsToolPermissionSurface[];
+  allowedUserIds: readonly string[];
+  allowedRoleIds: readonly string[];
+};
+
+type SettingsPermissions = Omit<SettingsFromDefaults["permissions"], "tools"> & {
+  tools: {
+    rules: readonly SettingsToolPermissionRule[];
+  };
+};
+
 type SettingsInitiative = Omit<SettingsFromDefaults["initiative"], "text" | "voice"> & {
   text: Omit<SettingsFromDefaults["initiative"]["text"], "execution"> & {
     execution: SettingsExecutionPolicy;
@@ -737,14 +790,44 @@ type SettingsMedia = Omit<SettingsFromDefaults["media"], "vision" | "videoContex
 
 export type Settings = Omit<
   SettingsFromDefaults,
-  "interaction" | "agentStack" | "memory" | "memoryLlm" | "initiative" | "media"
+  "permissions" | "interaction" | "agentStack" | "memory" | "memoryLlm" | "initiative" | "media" | "mcp"
 > & {
+  permissions: SettingsPermissions;
   interaction: SettingsInteraction;
   agentStack: SettingsAgentStack;
   memory: SettingsMemory;
   memoryLlm: Partial<SettingsModelBinding>;
   initiative: SettingsInitiative;
   media: SettingsMedia;
+  mcp: SettingsMcp;
 };
 
 export type SettingsInput = DeepPartial<Settings>;
+
+export const SETTINGS_OVERLAY_SECTIONS = [
+  "identity",
+  "persona",
+  "prompting",
+  "permissions",
+  "interaction",
+  "initiative",
+  "voice",
+  "media",
+  "music"
+] as const satisfies readonly (keyof Settings)[];
+
+export type SettingsOverlaySection = (typeof SETTINGS_OVERLAY_SECTIONS)[number];
+
+export type SettingsOverlayPatch = Pick<SettingsInput, SettingsOverlaySection>;
+
+export type SettingsOverlayScope = {
+  guildId: string;
+  channelId?: string | null;
+};
+
+export type SettingsOverlay = {
+  guildId: string;
+  channelId: string | null;
+  patch: SettingsOverlayPatch;
+  updatedAt: string;
+};
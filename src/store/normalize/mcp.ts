@@ -0,0 +1,26 @@
+import { DEFAULT_SETTINGS, type Settings } from "../../settings/settingsSchema.ts";
+import { isRecord, normalizeBoolean, normalizeString, normalizeStringList } from "./primitives.ts";
+
+const MAX_MCP_SERVER_POLICIES = 32;
+
+export function normalizeMcpSection(section: Settings["mcp"]): Settings["mcp"] {
+  const rawServers = Array.isArray(section.servers) ? section.servers : [];
+  const seen = new Set<string>();
+  const servers: Settings["mcp"]["servers"][number][] = [];
+  for (const entry of rawServers) {
+    if (!isRecord(entry)) continue;
+    const serverName = normalizeString(entry.serverName, "", 80);
+    if (!serverName || seen.has(serverName)) continue;
+    seen.add(serverName);
+    servers.push({
+      serverName,
+      enabled: normalizeBoolean(entry.enabled, true),
+      allowedTools: normalizeStringList(entry.allowedTools, 128, 120)
+    });
+    if (servers.length >= MAX_MCP_SERVER_POLICIES) break;
+  }
+  return {
+    enabled: normalizeBoolean(section.enabled, DEFAULT_SETTINGS.mcp.enabled),
+    servers
+  };
+}
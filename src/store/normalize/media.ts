@@ -1,9 +1,11 @@
 import { DEFAULT_SETTINGS, type Settings } from "../../settings/settingsSchema.ts";
 import {
   normalizeBoolean,
-  normalizeInt
+  normalizeInt,
+  normalizeString
 } from "./primitives.ts";
 import { normalizeExecutionPolicy, type AgentStackPresetConfig } from "./shared.ts";
+import { normalizeTranscriberProvider } from "../../voice/voiceModes.ts";
 
 export function normalizeMediaSection(section: Settings["media"], presetConfig?: AgentStackPresetConfig): Settings["media"] {
   const vision = section.vision;
@@ -63,6 +65,10 @@ export function normalizeMediaSection(section: Settings["media"], presetConfig?:
         videoContext.allowAsrFallback,
         DEFAULT_SETTINGS.media.videoContext.allowAsrFallback
       ),
+      asrProvider: normalizeTranscriberProvider(
+        normalizeString(videoContext.asrProvider, DEFAULT_SETTINGS.media.videoContext.asrProvider, 40),
+        "openai"
+      ),
       maxAsrSeconds: normalizeInt(
         videoContext.maxAsrSeconds,
         DEFAULT_SETTINGS.media.videoContext.maxAsrSeconds,
@@ -1,14 +1,42 @@
 import { DEFAULT_SETTINGS, type Settings } from "../../settings/settingsSchema.ts";
 import { SETTINGS_NUMERIC_CONSTRAINTS } from "../../settings/settingsConstraints.ts";
 import {
+  isRecord,
   normalizeBoolean,
   normalizeInt,
+  normalizeString,
   normalizeStringList
 } from "./primitives.ts";
 
+const MAX_TOOL_PERMISSION_RULES = 64;
+const TOOL_PERMISSION_SURFACES = ["reply", "voice_realtime"] as const;
+
+function normalizeToolPermissionRules(value: unknown): Settings["permissions"]["tools"]["rules"] {
+  const rawRules = Array.isArray(value) ? value : [];
+  const seen = new Set<string>();
+  const rules: Settings["permissions"]["tools"]["rules"][number][] = [];
+  for (const entry of rawRules) {
+    if (!isRecord(entry)) continue;
+    const toolName = normalizeString(entry.toolName, "", 120);
+    if (!toolName || seen.has(toolName)) continue;
+    seen.add(toolName);
+    const rawSurfaces = normalizeStringList(entry.surfaces, 2, 40);
+    const surfaces = TOOL_PERMISSION_SURFACES.filter((surface) => rawSurfaces.includes(surface));
+    rules.push({
+      toolName,
+      surfaces: surfaces.length ? surfaces : [...TOOL_PERMISSION_SURFACES],
+      allowedUserIds: normalizeStringList(entry.allowedUserIds, 200, 60),
+      allowedRoleIds: normalizeStringList(entry.allowedRoleIds, 100, 60)
+    });
+    if (rules.length >= MAX_TOOL_PERMISSION_RULES) break;
+  }
+  return rules;
+}
+
 export function normalizePermissionsSection(section: Settings["permissions"]): Settings["permissions"] {
   const replies = section.replies;
   const devTasks = section.devTasks;
+  const tools = isRecord(section.tools) ? section.tools : { rules: [] };
 
   return {
     replies: {
@@ -41,6 +69,9 @@ export function normalizePermissionsSection(section: Settings["permissions"]): S
     },
     devTasks: {
       allowedUserIds: normalizeStringList(devTasks.allowedUserIds, 200, 60)
+    },
+    tools: {
+      rules: normalizeToolPermissionRules(tools.rules)
     }
   };
 }
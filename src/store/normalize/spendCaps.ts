@@ -0,0 +1,46 @@
+import {
+  DEFAULT_SETTINGS,
+  SPEND_CAP_EXCEEDED_MODES,
+  type Settings
+} from "../../settings/settingsSchema.ts";
+import { isRecord, normalizeBoolean, normalizeNumber } from "./primitives.ts";
+import { normalizeModelBinding } from "./shared.ts";
+
+const MAX_SPEND_CAP_USD = 100_000;
+const SPEND_CAP_EXCEEDED_MODE_SET = new Set<string>(SPEND_CAP_EXCEEDED_MODES);
+
+type SpendCapFeatureName = keyof Settings["spendCaps"]["features"];
+
+function normalizeSpendCapFeature(
+  value: unknown,
+  fallback: Settings["spendCaps"]["features"][SpendCapFeatureName]
+): Settings["spendCaps"]["features"][SpendCapFeatureName] {
+  const source = isRecord(value) ? value : {};
+  const onExceeded = String(source.onExceeded || "").trim().toLowerCase();
+  return {
+    dailyUsd: normalizeNumber(source.dailyUsd, fallback.dailyUsd, 0, MAX_SPEND_CAP_USD),
+    monthlyUsd: normalizeNumber(source.monthlyUsd, fallback.monthlyUsd, 0, MAX_SPEND_CAP_USD),
+    onExceeded: SPEND_CAP_EXCEEDED_MODE_SET.has(onExceeded) ? onExceeded : fallback.onExceeded
+  };
+}
+
+export function normalizeSpendCapsSection(section: Settings["spendCaps"]): Settings["spendCaps"] {
+  const defaults = DEFAULT_SETTINGS.spendCaps;
+  const features: Record<string, unknown> = isRecord(section.features) ? section.features : {};
+  return {
+    enabled: normalizeBoolean(section.enabled, defaults.enabled),
+    degradeModel: normalizeModelBinding(
+      section.degradeModel,
+      defaults.degradeModel.provider,
+      defaults.degradeModel.model
+    ),
+    features: {
+      reply: normalizeSpendCapFeature(features.reply, defaults.features.reply),
+      voice: normalizeSpendCapFeature(features.voice, defaults.features.voice),
+      memoryReflection: normalizeSpendCapFeature(features.memoryReflection, defaults.features.memoryReflection),
+      codeAgent: normalizeSpendCapFeature(features.codeAgent, defaults.features.codeAgent),
+      browserAgent: normalizeSpendCapFeature(features.browserAgent, defaults.features.browserAgent),
+      vision: normalizeSpendCapFeature(features.vision, defaults.features.vision)
+    }
+  };
+}
@@ -18,6 +18,7 @@ import {
   normalizeStreamWatchVisualizerMode,
   resolveVoiceAdmissionModeForSettings
 } from "../../settings/voiceDashboardMappings.ts";
+import { normalizeTranscriberProvider } from "../../voice/voiceModes.ts";
 
 export function normalizeVoiceSection(section: Settings["voice"]): Settings["voice"] {
   const transcription = section.transcription;
@@ -44,14 +45,10 @@ export function normalizeVoiceSection(section: Settings["voice"]): Settings["voi
     enabled: normalizeBoolean(section.enabled, DEFAULT_SETTINGS.voice.enabled),
     transcription: {
       enabled: normalizeBoolean(transcription.enabled, DEFAULT_SETTINGS.voice.transcription.enabled),
-      provider:
-        normalizeString(
-          transcription.provider,
-          DEFAULT_SETTINGS.voice.transcription.provider,
-          40
-        ).toLowerCase() === "elevenlabs"
-          ? "elevenlabs"
-          : "openai",
+      provider: normalizeTranscriberProvider(
+        normalizeString(transcription.provider, DEFAULT_SETTINGS.voice.transcription.provider, 40),
+        "openai"
+      ),
       languageMode:
         normalizeString(
           transcription.languageMode,
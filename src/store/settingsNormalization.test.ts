@@ -134,6 +134,7 @@ test("normalizeSettings clamps and canonicalizes complex settings payloads", ()
         keyframeIntervalSeconds: -5,
         maxKeyframesPerVideo: 30,
         allowAsrFallback: true,
+        asrProvider: " LOCAL ",
         maxAsrSeconds: 2
       }
     },
@@ -249,6 +250,7 @@ test("normalizeSettings clamps and canonicalizes complex settings payloads", ()
   assert.equal(normalized.agentStack.runtimeConfig.browser.localBrowserAgent.sessionTimeoutMs, 999_999);
 
   assert.equal(normalized.media.videoContext.maxAsrSeconds, 15);
+  assert.equal(normalized.media.videoContext.asrProvider, "local");
 
   assert.equal(normalized.voice.transcription.languageMode, "fixed");
   assert.equal(normalized.voice.admission.mode, "generation_decides");
@@ -759,6 +761,27 @@ test("normalizeSettings preserves long media prompt craft guidance blocks", () =
   assert.equal(normalized.prompting.media.promptCraftGuidance, longGuidance);
 });
 
+test("normalizeSettings keeps one tool permission rule per tool and defaults to both surfaces", () => {
+  const normalized = normalizeSettings({
+    permissions: {
+      tools: {
+        rules: [
+          { toolName: " browser_browse ", surfaces: ["reply", "bogus"], allowedUserIds: ["1", "1", "2"] },
+          { toolName: "browser_browse", allowedUserIds: ["3"] },
+          { toolName: "play_soundboard", allowedRoleIds: ["role-1"] },
+          { toolName: "" },
+          "not-a-rule"
+        ]
+      }
+    }
+  });
+
+  assert.deepEqual(normalized.permissions.tools.rules, [
+    { toolName: "browser_browse", surfaces: ["reply"], allowedUserIds: ["1", "2"], allowedRoleIds: [] },
+    { toolName: "play_soundboard", surfaces: ["reply", "voice_realtime"], allowedUserIds: [], allowedRoleIds: ["role-1"] }
+  ]);
+});
+
 test("normalizeSettings allows longer persona flavor values", () => {
   const withinLimit = "x".repeat(PERSONA_FLAVOR_MAX_CHARS);
   const normalizedWithinLimit = normalizeSettings({
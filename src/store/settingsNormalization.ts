@@ -9,12 +9,14 @@ import { normalizeAutomationsSection } from "./normalize/automations.ts";
 import { normalizeIdentitySection } from "./normalize/identity.ts";
 import { normalizeInitiativeSection } from "./normalize/initiative.ts";
 import { normalizeInteractionSection } from "./normalize/interaction.ts";
+import { normalizeMcpSection } from "./normalize/mcp.ts";
 import { normalizeMediaSection } from "./normalize/media.ts";
 import { normalizeMemorySection } from "./normalize/memory.ts";
 import { normalizeMusicSection } from "./normalize/music.ts";
 import { normalizePermissionsSection } from "./normalize/permissions.ts";
 import { normalizePersonaSection } from "./normalize/persona.ts";
 import { normalizePromptingSection } from "./normalize/prompting.ts";
+import { normalizeSpendCapsSection } from "./normalize/spendCaps.ts";
 import {
   isRecord,
   omitUndefinedDeep
@@ -103,6 +105,8 @@ export function normalizeSettings(raw: unknown): Settings {
     voice: normalizedVoice,
     media: normalizeMediaSection(merged.media, presetConfig),
     music: normalizeMusicSection(merged.music),
-    automations: normalizeAutomationsSection(merged.automations)
+    automations: normalizeAutomationsSection(merged.automations),
+    mcp: normalizeMcpSection(merged.mcp),
+    spendCaps: normalizeSpendCapsSection(merged.spendCaps)
   };
 }
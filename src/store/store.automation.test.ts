@@ -75,3 +75,90 @@ test("claimDueAutomations marks only due active jobs as running", async () => {
     assert.equal(secondClaim.length, 0);
   });
 });
+
+test("event automations are claimed per trigger and runs keep the trigger payload", async () => {
+  await withTempStore(async (store) => {
+    const watcher = store.createAutomation({
+      guildId: "guild-a",
+      channelId: "chan-1",
+      createdByUserId: "user-1",
+      createdByName: "alice",
+      title: "deploy watcher",
+      instruction: "summarize the deploy chatter",
+      schedule: { kind: "event", event: "message", pattern: "deploy", match: "keyword", cooldownMinutes: 5 },
+      nextRunAt: null
+    });
+    store.createAutomation({
+      guildId: "guild-a",
+      channelId: "chan-1",
+      createdByUserId: "user-1",
+      createdByName: "alice",
+      title: "hourly",
+      instruction: "post hourly",
+      schedule: { kind: "interval", everyMinutes: 60 },
+      nextRunAt: "2026-02-26T16:30:00.000Z"
+    });
+    assert.ok(watcher?.id);
+
+    const listed = store.listEventAutomations({ guildId: "guild-a", event: "message" });
+    assert.deepEqual(listed.map((row) => row.id), [watcher.id]);
+    assert.deepEqual(store.listEventAutomations({ guildId: "guild-a", event: "voice_join" }), []);
+
+    const claimed = store.claimTriggeredAutomation({ automationId: watcher.id });
+    assert.equal(claimed?.is_running, true);
+    assert.equal(store.claimTriggeredAutomation({ automationId: watcher.id }), null);
+    assert.deepEqual(store.listEventAutomations({ guildId: "guild-a", event: "message" }), []);
+
+    store.recordAutomationRun({
+      automationId: watcher.id,
+      status: "ok",
+      summary: "posted",
+      trigger: {
+        kind: "message",
+        key: "message:msg-1",
+        payload: { messageId: "msg-1", content: "deploy is live", matched: "deploy" }
+      }
+    });
+
+    assert.equal(store.hasAutomationRunForTrigger({ automationId: watcher.id, triggerKey: "message:msg-1" }), true);
+    assert.equal(store.hasAutomationRunForTrigger({ automationId: watcher.id, triggerKey: "message:msg-2" }), false);
+
+    const runs = store.getAutomationRuns({ guildId: "guild-a", automationId: watcher.id });
+    assert.equal(runs.length, 1);
+    assert.equal(runs[0]?.trigger_kind, "message");
+    assert.equal(runs[0]?.trigger_key, "message:msg-1");
+    assert.deepEqual(runs[0]?.trigger_payload, { messageId: "msg-1", content: "deploy is live", matched: "deploy" });
+  });
+});
+
+test("updateAutomation edits fields in place and keeps omitted ones", async () => {
+  await withTempStore(async (store) => {
+    const created = store.createAutomation({
+      guildId: "guild-a",
+      channelId: "chan-1",
+      createdByUserId: "user-1",
+      title: "standup",
+      instruction: "post the standup prompt",
+      schedule: { kind: "interval", everyMinutes: 60 },
+      nextRunAt: "2026-02-26T17:00:00.000Z"
+    });
+    assert.ok(created?.id);
+
+    const updated = store.updateAutomation({
+      automationId: created.id,
+      guildId: "guild-a",
+      instruction: "post the   retro prompt",
+      schedule: { kind: "interval", everyMinutes: 120 },
+      nextRunAt: "2026-02-26T18:00:00.000Z"
+    });
+    assert.equal(updated?.title, "standup");
+    assert.equal(updated?.channel_id, "chan-1");
+    assert.equal(updated?.instruction, "post the retro prompt");
+    assert.deepEqual(updated?.schedule, { kind: "interval", everyMinutes: 120 });
+    assert.equal(updated?.next_run_at, "2026-02-26T18:00:00.000Z");
+    assert.equal(store.findAutomationsByQuery({ guildId: "guild-a", query: "retro" }).length, 1);
+
+    assert.equal(store.updateAutomation({ automationId: created.id, guildId: "guild-b", title: "x" }), null);
+    assert.equal(store.updateAutomation({ automationId: created.id, guildId: "guild-a", instruction: " " }), null);
+  });
+});
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { test } from "bun:test";
+import { Store } from "./store.ts";
+
+async function withTempStore(run) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-background-task-store-test-"));
+  const dbPath = path.join(dir, "clanker.db");
+  const store = new Store(dbPath);
+  store.init();
+
+  try {
+    await run(store);
+  } finally {
+    store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+test("background tasks survive a store reopen and can be marked interrupted", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-background-task-reopen-test-"));
+  const dbPath = path.join(dir, "clanker.db");
+  try {
+    const first = new Store(dbPath);
+    first.init();
+    first.upsertBackgroundTask({
+      id: "code:task:1",
+      sessionId: "code:task:1",
+      scopeKey: "code:guild-1:channel-1",
+      guildId: "guild-1",
+      channelId: "channel-1",
+      userId: "user-1",
+      role: "implementation",
+      input: "Add retries to the fetcher",
+      status: "running",
+      startedAt: "2026-03-01T10:00:00.000Z",
+      progress: { events: [{ summary: "Reading src/fetcher.ts" }], fileEdits: [] },
+      worktreePath: "/tmp/clanker-code-worktrees/repo-1",
+      repoRoot: "/repo",
+      branch: "clanker/claude-code/one"
+    });
+    first.close();
+
+    const second = new Store(dbPath);
+    second.init();
+    const running = second.listBackgroundTasks({ statuses: ["running"] });
+    assert.equal(running.length, 1);
+    assert.equal(running[0]?.worktreePath, "/tmp/clanker-code-worktrees/repo-1");
+    assert.deepEqual(running[0]?.progress.events, [{ summary: "Reading src/fetcher.ts" }]);
+
+    assert.equal(
+      second.setBackgroundTaskStatus({
+        taskId: "code:task:1",
+        status: "interrupted",
+        errorMessage: "restart",
+        completedAt: "2026-03-01T10:05:00.000Z"
+      }),
+      true
+    );
+    const interrupted = second.getBackgroundTask("code:task:1");
+    assert.equal(interrupted?.status, "interrupted");
+    assert.equal(interrupted?.errorMessage, "restart");
+    assert.equal(interrupted?.completedAt, "2026-03-01T10:05:00.000Z");
+    assert.equal(second.listBackgroundTasks({ statuses: ["running"] }).length, 0);
+    second.close();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("upsertBackgroundTask updates status, usage and cost in place", async () => {
+  await withTempStore(async (store) => {
+    const base = {
+      id: "code:task:2",
+      sessionId: "code:task:2",
+      scopeKey: "code:guild-1:channel-1",
+      guildId: "guild-1",
+      channelId: "channel-1",
+      role: "implementation",
+      input: "Write docs",
+      startedAt: "2026-03-01T10:00:00.000Z"
+    };
+    store.upsertBackgroundTask({ ...base, status: "running", worktreePath: "/tmp/wt-2" });
+    store.upsertBackgroundTask({
+      ...base,
+      status: "completed",
+      completedAt: "2026-03-01T10:10:00.000Z",
+      usage: { inputTokens: 10, outputTokens: 5 },
+      costUsd: 0.12,
+      resultText: "Docs written."
+    });
+
+    const row = store.getBackgroundTask("code:task:2");
+    assert.equal(row?.status, "completed");
+    assert.equal(row?.worktreePath, "/tmp/wt-2");
+    assert.equal(row?.costUsd, 0.12);
+    assert.deepEqual(row?.usage, { inputTokens: 10, outputTokens: 5 });
+    assert.equal(row?.resultText, "Docs written.");
+  });
+});
@@ -247,6 +247,121 @@ test("memory facts can be updated and soft-deleted while clearing stale vectors"
   });
 });
 
+test("memory fact revisions record each change and support rollback", async () => {
+  await withTempStore(async (store) => {
+    store.recordMessage({
+      messageId: "msg-7",
+      createdAt: Date.now(),
+      guildId: "guild-a",
+      channelId: "chan-1",
+      authorId: "user-1",
+      authorName: "alice",
+      isBot: false,
+      content: "i just switched to a steam deck",
+      referencedMessageId: null
+    });
+    store.addMemoryFact({
+      guildId: "guild-a",
+      subject: "user-1",
+      fact: "User plays on a Switch.",
+      factType: "preference",
+      evidenceText: "Mentioned a Switch.",
+      sourceMessageId: "msg-1",
+      confidence: 0.6,
+      actor: "tool"
+    });
+    const factId = Number(store.getMemoryFactBySubjectAndFact({
+      scope: "guild",
+      guildId: "guild-a",
+      subject: "user-1",
+      fact: "User plays on a Switch."
+    })?.id);
+    assert.ok(factId > 0);
+
+    const superseded = store.updateMemoryFact({
+      guildId: "guild-a",
+      factId,
+      subject: "user-1",
+      fact: "User plays on a Steam Deck.",
+      factType: "preference",
+      evidenceText: "Switched to a Steam Deck.",
+      confidence: 0.8,
+      actor: "reflection",
+      sourceMessageId: "msg-7",
+      revisionAction: "superseded"
+    });
+    assert.equal(superseded.ok, true);
+    assert.equal(superseded.ok && superseded.row.source_message_id, "msg-7");
+
+    const history = store.getMemoryFactHistory({ guildId: "guild-a", factId });
+    assert.equal(history?.sourceMessage?.author_name, "alice");
+    assert.deepEqual(
+      history?.revisions.map((revision) => [revision.action, revision.actor, revision.old_fact, revision.new_fact]),
+      [
+        ["superseded", "reflection", "User plays on a Switch.", "User plays on a Steam Deck."],
+        ["created", "tool", null, "User plays on a Switch."]
+      ]
+    );
+    assert.equal(history?.revisions[0]?.source_content, "i just switched to a steam deck");
+
+    const created = history?.revisions[1];
+    const rolledBack = store.rollbackMemoryFact({
+      guildId: "guild-a",
+      factId,
+      revisionId: created?.id,
+      actor: "dashboard"
+    });
+    assert.equal(rolledBack.ok, true);
+    assert.equal(rolledBack.ok && rolledBack.row.fact, "User plays on a Switch.");
+    assert.equal(rolledBack.ok && rolledBack.row.evidence_text, "Mentioned a Switch.");
+
+    const latest = store.getMemoryFactRevisions(factId)[0];
+    assert.equal(latest?.action, "rolled_back");
+    assert.equal(latest?.actor, "dashboard");
+    assert.equal(latest?.rollback_revision_id, created?.id);
+
+    store.deleteMemoryFact({ guildId: "guild-a", factId, actor: "dashboard" });
+    const deletion = store.getMemoryFactRevisions(factId)[0];
+    assert.equal(deletion?.action, "deleted");
+    assert.equal(deletion?.new_fact, null);
+    assert.equal(
+      store.rollbackMemoryFact({ guildId: "guild-a", factId, revisionId: deletion?.id }).reason,
+      "revision_not_restorable"
+    );
+  });
+});
+
+test("memory fact revisions backfill a baseline for facts written before tracking", async () => {
+  await withTempStore(async (store) => {
+    store.addMemoryFact({
+      guildId: "guild-a",
+      subject: "user-1",
+      fact: "User likes handhelds.",
+      confidence: 0.7
+    });
+    const factId = Number(store.getMemoryFactBySubjectAndFact({
+      scope: "guild",
+      guildId: "guild-a",
+      subject: "user-1",
+      fact: "User likes handhelds."
+    })?.id);
+    store.db.prepare("DELETE FROM memory_fact_revisions WHERE fact_id = ?").run(factId);
+
+    store.updateMemoryFact({
+      guildId: "guild-a",
+      factId,
+      subject: "user-1",
+      fact: "User likes handheld PCs.",
+      actor: "dashboard"
+    });
+
+    const revisions = store.getMemoryFactRevisions(factId);
+    assert.deepEqual(revisions.map((revision) => revision.action), ["updated", "created"]);
+    assert.equal(revisions[1]?.actor, "system");
+    assert.equal(revisions[1]?.new_fact, "User likes handhelds.");
+  });
+});
+
 test("voice reply decision llm settings normalize provider and model", async () => {
   await withTempStore(async (store) => {
     const patched = store.patchSettings(createTestSettingsPatch({
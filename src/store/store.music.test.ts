@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { test } from "bun:test";
+import { Store } from "./store.ts";
+
+async function withTempStore(run) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-music-store-test-"));
+  const dbPath = path.join(dir, "clanker.db");
+  const store = new Store(dbPath);
+  store.init();
+
+  try {
+    await run(store);
+  } finally {
+    store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+const ALL_CAPS = {
+  id: "youtube:all-caps",
+  title: "All Caps",
+  artist: "MF DOOM",
+  durationMs: 140000,
+  platform: "youtube",
+  externalUrl: "https://youtube.com/watch?v=allcaps"
+};
+const ACCORDION = {
+  id: "youtube:accordion",
+  title: "Accordion",
+  artist: "Madvillain",
+  durationMs: 120000,
+  platform: "youtube",
+  externalUrl: "https://youtube.com/watch?v=accordion"
+};
+
+test("music queue state round-trips per guild and drops malformed tracks", async () => {
+  await withTempStore(async (store) => {
+    store.saveMusicQueueState({
+      guildId: "guild-1",
+      voiceChannelId: "voice-1",
+      tracks: [ALL_CAPS, { title: "no id" }, ACCORDION],
+      nowPlayingIndex: 1,
+      isPaused: true,
+      volume: 0.5
+    });
+    store.saveMusicQueueState({ guildId: "guild-2", tracks: [ACCORDION], nowPlayingIndex: 7 });
+
+    const saved = store.getMusicQueueState("guild-1");
+    assert.deepEqual(saved?.tracks.map((track) => track.id), [ALL_CAPS.id, ACCORDION.id]);
+    assert.equal(saved?.nowPlayingIndex, 1);
+    assert.equal(saved?.isPaused, true);
+    assert.equal(saved?.volume, 0.5);
+    assert.equal(store.getMusicQueueState("guild-2")?.nowPlayingIndex, null);
+
+    store.saveMusicQueueState({ guildId: "guild-1", tracks: [] });
+    assert.deepEqual(store.getMusicQueueState("guild-1")?.tracks, []);
+    assert.equal(store.getMusicQueueState("guild-3"), null);
+  });
+});
+
+test("music play history filters by guild and time window in play order", async () => {
+  await withTempStore(async (store) => {
+    const first = store.recordMusicPlay({ guildId: "guild-1", track: ALL_CAPS, requestedByUserId: "user-1" });
+    const second = store.recordMusicPlay({ guildId: "guild-1", track: ACCORDION, source: "slash_command" });
+    store.recordMusicPlay({ guildId: "guild-2", track: ACCORDION });
+    const setPlayedAt = store.db.prepare("UPDATE music_play_history SET created_at = ? WHERE id = ?");
+    setPlayedAt.run("2026-03-06T20:00:00.000Z", first);
+    setPlayedAt.run("2026-03-07T20:00:00.000Z", second);
+
+    const friday = store.getMusicPlayHistory({
+      guildId: "guild-1",
+      sinceIso: "2026-03-06T00:00:00.000Z",
+      untilIso: "2026-03-07T00:00:00.000Z"
+    });
+    assert.deepEqual(friday.map((row) => row.title), ["All Caps"]);
+    assert.equal(friday[0]?.requestedByUserId, "user-1");
+
+    const all = store.getMusicPlayHistory({ guildId: "guild-1" });
+    assert.deepEqual(all.map((row) => row.title), ["All Caps", "Accordion"]);
+    assert.equal(all[1]?.source, "slash_command");
+  });
+});
+
+test("music playlists upsert case-insensitively per guild and can be deleted", async () => {
+  await withTempStore(async (store) => {
+    assert.equal(store.saveMusicPlaylist({ guildId: "guild-1", name: "Friday", tracks: [] }), null);
+
+    store.saveMusicPlaylist({ guildId: "guild-1", name: "Friday", tracks: [ALL_CAPS], createdByUserId: "user-1" });
+    const updated = store.saveMusicPlaylist({ guildId: "guild-1", name: "friday", tracks: [ACCORDION, ALL_CAPS] });
+    store.saveMusicPlaylist({ guildId: "guild-2", name: "Friday", tracks: [ACCORDION] });
+
+    assert.deepEqual(updated?.tracks.map((track) => track.id), [ACCORDION.id, ALL_CAPS.id]);
+    assert.equal(store.listMusicPlaylists("guild-1").length, 1);
+    assert.equal(store.getMusicPlaylist({ guildId: "guild-1", name: "FRIDAY" })?.tracks.length, 2);
+
+    assert.equal(store.deleteMusicPlaylist({ guildId: "guild-1", name: "Friday" }), true);
+    assert.equal(store.deleteMusicPlaylist({ guildId: "guild-1", name: "Friday" }), false);
+    assert.equal(store.getMusicPlaylist({ guildId: "guild-2", name: "friday" })?.tracks[0]?.id, ACCORDION.id);
+  });
+});
+
+test("music playback effects upsert per guild", async () => {
+  await withTempStore(async (store) => {
+    assert.equal(store.getMusicPlaybackEffects("guild-1"), null);
+    store.saveMusicPlaybackEffects({
+      guildId: "guild-1",
+      crossfadeMs: 4000,
+      loudnessNormalization: true,
+      speed: 1.25,
+      pitchSemitones: -2,
+      bassBoostDb: 6,
+      updatedByUserId: "user-1"
+    });
+    const saved = store.saveMusicPlaybackEffects({
+      guildId: "guild-1",
+      crossfadeMs: 0,
+      loudnessNormalization: true,
+      speed: 1,
+      pitchSemitones: 0,
+      bassBoostDb: 6,
+      updatedByUserId: "user-2"
+    });
+
+    assert.equal(saved?.crossfadeMs, 0);
+    assert.equal(saved?.loudnessNormalization, true);
+    assert.equal(saved?.bassBoostDb, 6);
+    assert.equal(saved?.updatedByUserId, "user-2");
+    assert.equal(store.getMusicPlaybackEffects("guild-2"), null);
+    assert.equal(
+      store.saveMusicPlaybackEffects({
+        guildId: " ",
+        crossfadeMs: 0,
+        loudnessNormalization: false,
+        speed: 1,
+        pitchSemitones: 0,
+        bassBoostDb: 0
+      }),
+      null
+    );
+  });
+});
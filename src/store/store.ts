@@ -4,6 +4,7 @@ import { Database } from "bun:sqlite";
 import { clamp, nowIso } from "../utils.ts";
 import { normalizeSettings } from "./settingsNormalization.ts";
 import { minimizeSettingsIntent } from "../settings/settingsIntent.ts";
+import type { SettingsOverlayScope } from "../settings/settingsSchema.ts";
 import {
   rewriteRuntimeSettingsRow,
   getSettings,
@@ -12,8 +13,29 @@ import {
   patchSettings,
   patchSettingsWithVersion,
   replaceSettingsWithVersion,
-  resetSettings
+  resetSettings,
+  getSettingsOverlays,
+  getSettingsOverlay,
+  setSettingsOverlay,
+  deleteSettingsOverlay,
+  getScopedSettings
 } from "./storeSettings.ts";
+import {
+  listSettingsVersions,
+  getSettingsVersion,
+  getPreviousSettingsVersion,
+  type SettingsWriteOrigin
+} from "./storeSettingsHistory.ts";
+import {
+  createDashboardUser,
+  getDashboardUserById,
+  findDashboardUserByTokenHash,
+  getDashboardUserTokenHash,
+  listDashboardUsers,
+  updateDashboardUser,
+  touchDashboardUser,
+  type DashboardUserRole
+} from "./storeDashboardUsers.ts";
 import {
   recordMessage,
   getRecentMessages,
@@ -27,12 +49,71 @@ import {
   upsertMessageVectorNative,
   deleteMessagesForGuild
 } from "./storeMessages.ts";
-import { maybePruneActionLog, pruneActionLog, logAction, countActionsSince, getLastActionTime, getRecentActions, getRecentMemoryReflections, deleteReflectionRun, deleteMemoryReflectionRunsForGuild, getRecentBrowserSessions, indexResponseTriggersForAction, hasTriggeredResponse, hasReflectionBeenCompleted } from "./storeActionLog.ts";
+import { maybePruneActionLog, pruneActionLog, logAction, countActionsSince, getLastActionTime, getRecentActions, getRecentMemoryReflections, deleteReflectionRun, deleteMemoryReflectionRunsForGuild, getMemoryReflectionEvents, importMemoryReflectionEvents, type MemoryReflectionEventInput, getRecentBrowserSessions, indexResponseTriggersForAction, hasTriggeredResponse, listResponseTriggers, importResponseTriggers, type ResponseTriggerInput, hasReflectionBeenCompleted } from "./storeActionLog.ts";
 import { wasLinkSharedSince, recordSharedLink } from "./storeLookups.ts";
 import { getRecentVoiceSessions, getVoiceSessionEvents } from "./storeVoice.ts";
 import { getReplyPerformanceStats, getStats } from "./storeStats.ts";
-import { createAutomation, getAutomationById, countAutomations, listAutomations, getMostRecentAutomations, findAutomationsByQuery, setAutomationStatus, claimDueAutomations, finalizeAutomationRun, recordAutomationRun, getAutomationRuns } from "./storeAutomation.ts";
-import { addMemoryFact, getFactProfileRows, getFactsForSubjectScoped, getFactsForSubjects, getFactsForScope, getFactsForSubjectsScoped, getMemoryFactById, getMemoryFactBySubjectAndFact, updateMemoryFact, deleteMemoryFact, deleteMemoryFactsForGuild, ensureSqliteVecReady, upsertMemoryFactVectorNative, getMemoryFactVectorNative, getMemoryFactVectorNativeScores, getMemorySubjects, archiveOldFactsForSubject, searchMemoryFactsLexical, searchMemoryFactsByEmbedding } from "./storeMemory.ts";
+import { backfillSpendLedgerFromActions, getSpendLedgerTotals, recordSpendLedgerEntry } from "./storeSpendLedger.ts";
+import { createAutomation, getAutomationById, countAutomations, listAutomations, getMostRecentAutomations, findAutomationsByQuery, setAutomationStatus, updateAutomation, claimDueAutomations, listEventAutomations, claimTriggeredAutomation, hasAutomationRunForTrigger, finalizeAutomationRun, recordAutomationRun, getAutomationRuns } from "./storeAutomation.ts";
+import {
+  upsertBackgroundTask,
+  getBackgroundTask,
+  listBackgroundTasks,
+  setBackgroundTaskStatus,
+  pruneBackgroundTasks,
+  type BackgroundTaskRecordInput
+} from "./storeBackgroundTasks.ts";
+import {
+  getEmbeddingModelUsage,
+  getFactsMissingEmbeddingModel,
+  getMessagesMissingEmbeddingModel,
+  getTranscriptChunksMissingEmbeddingModel,
+  createEmbeddingMigration,
+  getEmbeddingMigration,
+  getLatestEmbeddingMigration,
+  updateEmbeddingMigration,
+  pruneEmbeddingVectorsExceptModel,
+  type EmbeddingMigrationProgressInput,
+  type EmbeddingMigrationStatus
+} from "./storeEmbeddingMigrations.ts";
+import {
+  saveMusicQueueState,
+  getMusicQueueState,
+  recordMusicPlay,
+  getMusicPlayHistory,
+  saveMusicPlaylist,
+  getMusicPlaylist,
+  listMusicPlaylists,
+  deleteMusicPlaylist,
+  listMusicLocalTracks,
+  getMusicLocalTrack,
+  upsertMusicLocalTracks,
+  deleteMusicLocalTracks,
+  getMusicPlaybackEffects,
+  saveMusicPlaybackEffects
+} from "./storeMusic.ts";
+import type { MusicLocalTrackRecord } from "./storeMusic.ts";
+import {
+  getImageCaptionByHash,
+  getImageCaptionByUrl,
+  findSimilarImageCaption,
+  recordImageCaptionSighting,
+  saveImageCaption,
+  searchImageCaptions,
+  type ImageCaptionSighting
+} from "./storeImageCaptions.ts";
+import {
+  getVideoContext,
+  getVideoTranscriptChunks,
+  recordVideoContextLink,
+  saveVideoContext,
+  searchVideoTranscripts,
+  searchVideoTranscriptsByEmbedding,
+  upsertVideoTranscriptVectorNative,
+  type VideoContextLink,
+  type VideoContextSummaryInput
+} from "./storeVideoContexts.ts";
+import { addMemoryFact, getFactProfileRows, getFactsForSubjectScoped, getFactsForSubjects, getFactsForScope, getFactsForSubjectsScoped, getMemoryFactById, getMemoryFactBySubjectAndFact, updateMemoryFact, deleteMemoryFact, deleteMemoryFactsForGuild, purgeMemoryFactsForUser, listMemoryFactsForUser, getMemoryFactRevisions, getMemoryFactHistory, rollbackMemoryFact, type MemoryFactRevisionActor, ensureSqliteVecReady, upsertMemoryFactVectorNative, getMemoryFactVectorNative, getMemoryFactVectorNativeScores, getMemorySubjects, archiveOldFactsForSubject, searchMemoryFactsLexical, searchMemoryFactsByEmbedding, getMemoryFactsForExport } from "./storeMemory.ts";
 
 export const SETTINGS_KEY = "runtime_settings";
 const ACTION_LOG_RETENTION_DAYS_DEFAULT = 14;
@@ -254,6 +335,54 @@ function setupMemoryFactsSchema(db: Database) {
   ensureMemoryFactsIndexes(db);
 }
 
+function ensureAutomationRunTriggerColumns(db: Database) {
+  const columnNames = new Set(
+    db
+      .prepare<SqliteTableColumnRow, []>("PRAGMA table_info(automation_runs)")
+      .all()
+      .map((column) => String(column?.name || "").trim().toLowerCase())
+  );
+  if (!columnNames.has("trigger_kind")) {
+    db.exec("ALTER TABLE automation_runs ADD COLUMN trigger_kind TEXT NOT NULL DEFAULT 'schedule'");
+  }
+  if (!columnNames.has("trigger_key")) {
+    db.exec("ALTER TABLE automation_runs ADD COLUMN trigger_key TEXT");
+  }
+  if (!columnNames.has("trigger_payload")) {
+    db.exec("ALTER TABLE automation_runs ADD COLUMN trigger_payload TEXT");
+  }
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_automation_runs_trigger_key ON automation_runs(automation_id, trigger_key)"
+  );
+}
+
+function ensureEmbeddingMigrationTranscriptColumns(db: Database) {
+  const columnNames = new Set(
+    db
+      .prepare<SqliteTableColumnRow, []>("PRAGMA table_info(embedding_migrations)")
+      .all()
+      .map((column) => String(column?.name || "").trim().toLowerCase())
+  );
+  for (const column of ["transcripts_total", "transcripts_done", "transcripts_failed", "transcript_cursor"]) {
+    if (!columnNames.has(column)) {
+      db.exec(`ALTER TABLE embedding_migrations ADD COLUMN ${column} INTEGER NOT NULL DEFAULT 0`);
+    }
+  }
+}
+
+function ensureSettingsVersionScopeColumns(db: Database) {
+  const columnNames = new Set(
+    db
+      .prepare<SqliteTableColumnRow, []>("PRAGMA table_info(settings_versions)")
+      .all()
+      .map((column) => String(column?.name || "").trim().toLowerCase())
+  );
+  for (const column of ["guild_id", "channel_id"]) {
+    if (!columnNames.has(column)) {
+      db.exec(`ALTER TABLE settings_versions ADD COLUMN ${column} TEXT`);
+    }
+  }
+}
 
 export class Store {
   dbPath;
@@ -356,6 +485,45 @@ export class Store {
         PRIMARY KEY (fact_id, model)
       );
 
+      CREATE TABLE IF NOT EXISTS memory_fact_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        fact_id INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        action TEXT NOT NULL,
+        actor TEXT NOT NULL DEFAULT 'system',
+        old_fact TEXT,
+        new_fact TEXT,
+        fact_type TEXT,
+        evidence_text TEXT,
+        confidence REAL,
+        source_message_id TEXT,
+        rollback_revision_id INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS settings_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL,
+        intent TEXT NOT NULL,
+        actor TEXT NOT NULL DEFAULT 'system',
+        actor_label TEXT,
+        source TEXT,
+        changed_paths TEXT,
+        rollback_version_id INTEGER,
+        guild_id TEXT,
+        channel_id TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS dashboard_users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        username TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL DEFAULT 'viewer',
+        token_hash TEXT NOT NULL,
+        last_seen_at TEXT,
+        disabled_at TEXT
+      );
+
       CREATE TABLE IF NOT EXISTS message_vectors_native (
         message_id TEXT NOT NULL,
         model TEXT NOT NULL,
@@ -365,6 +533,164 @@ export class Store {
         PRIMARY KEY (message_id, model)
       );
 
+      CREATE TABLE IF NOT EXISTS music_queues (
+        guild_id TEXT PRIMARY KEY,
+        voice_channel_id TEXT,
+        tracks_json TEXT NOT NULL DEFAULT '[]',
+        now_playing_index INTEGER,
+        is_paused INTEGER NOT NULL DEFAULT 0,
+        volume REAL NOT NULL DEFAULT 1,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS music_play_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL,
+        guild_id TEXT NOT NULL,
+        voice_channel_id TEXT,
+        track_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        artist TEXT,
+        platform TEXT NOT NULL,
+        external_url TEXT,
+        duration_ms INTEGER,
+        requested_by_user_id TEXT,
+        source TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS music_playlists (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        guild_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        name_key TEXT NOT NULL,
+        created_by_user_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        tracks_json TEXT NOT NULL DEFAULT '[]',
+        UNIQUE(guild_id, name_key)
+      );
+
+      CREATE TABLE IF NOT EXISTS music_local_tracks (
+        file_path TEXT PRIMARY KEY,
+        library_dir TEXT NOT NULL,
+        relative_path TEXT NOT NULL,
+        mtime_ms INTEGER NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        artist TEXT,
+        album TEXT,
+        duration_ms INTEGER,
+        indexed_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS music_playback_effects (
+        guild_id TEXT PRIMARY KEY,
+        crossfade_ms INTEGER NOT NULL DEFAULT 0,
+        loudness_normalization INTEGER NOT NULL DEFAULT 0,
+        speed REAL NOT NULL DEFAULT 1,
+        pitch_semitones REAL NOT NULL DEFAULT 0,
+        bass_boost_db REAL NOT NULL DEFAULT 0,
+        updated_by_user_id TEXT,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS image_captions (
+        image_hash TEXT PRIMARY KEY,
+        caption TEXT NOT NULL,
+        provider TEXT,
+        model TEXT,
+        mime_type TEXT,
+        url TEXT,
+        guild_id TEXT,
+        channel_id TEXT,
+        message_id TEXT,
+        hit_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS image_caption_urls (
+        url_key TEXT PRIMARY KEY,
+        image_hash TEXT NOT NULL,
+        url TEXT NOT NULL,
+        guild_id TEXT,
+        channel_id TEXT,
+        message_id TEXT,
+        seen_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS video_contexts (
+        video_key TEXT PRIMARY KEY,
+        provider TEXT,
+        kind TEXT,
+        video_id TEXT,
+        url TEXT NOT NULL,
+        title TEXT,
+        channel TEXT,
+        published_at TEXT,
+        duration_seconds REAL,
+        view_count INTEGER,
+        description TEXT NOT NULL DEFAULT '',
+        transcript TEXT NOT NULL DEFAULT '',
+        transcript_source TEXT,
+        transcript_error TEXT,
+        fetched_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        hit_count INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS video_context_links (
+        video_key TEXT NOT NULL,
+        guild_id TEXT,
+        channel_id TEXT NOT NULL,
+        user_id TEXT,
+        message_id TEXT,
+        first_linked_at TEXT NOT NULL,
+        last_linked_at TEXT NOT NULL,
+        link_count INTEGER NOT NULL DEFAULT 1,
+        PRIMARY KEY (video_key, channel_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS video_transcript_chunks (
+        video_key TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        PRIMARY KEY (video_key, chunk_index)
+      );
+
+      CREATE TABLE IF NOT EXISTS video_transcript_vectors_native (
+        video_key TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        model TEXT NOT NULL,
+        dims INTEGER NOT NULL,
+        embedding_blob BLOB NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (video_key, chunk_index, model)
+      );
+
+      CREATE TABLE IF NOT EXISTS embedding_migrations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        completed_at TEXT,
+        target_model TEXT NOT NULL,
+        source_model TEXT,
+        status TEXT NOT NULL,
+        facts_total INTEGER NOT NULL DEFAULT 0,
+        facts_done INTEGER NOT NULL DEFAULT 0,
+        facts_failed INTEGER NOT NULL DEFAULT 0,
+        fact_cursor INTEGER NOT NULL DEFAULT 0,
+        messages_total INTEGER NOT NULL DEFAULT 0,
+        messages_done INTEGER NOT NULL DEFAULT 0,
+        messages_failed INTEGER NOT NULL DEFAULT 0,
+        message_cursor INTEGER NOT NULL DEFAULT 0,
+        transcripts_total INTEGER NOT NULL DEFAULT 0,
+        transcripts_done INTEGER NOT NULL DEFAULT 0,
+        transcripts_failed INTEGER NOT NULL DEFAULT 0,
+        transcript_cursor INTEGER NOT NULL DEFAULT 0,
+        error_message TEXT
+      );
+
       CREATE TABLE IF NOT EXISTS shared_links (
         url TEXT PRIMARY KEY,
         first_shared_at TEXT NOT NULL,
@@ -404,7 +730,43 @@ export class Store {
         summary TEXT,
         error TEXT,
         message_id TEXT,
-        metadata TEXT
+        metadata TEXT,
+        trigger_kind TEXT NOT NULL DEFAULT 'schedule',
+        trigger_key TEXT,
+        trigger_payload TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS background_tasks (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        scope_key TEXT NOT NULL,
+        guild_id TEXT,
+        channel_id TEXT,
+        user_id TEXT,
+        trigger_message_id TEXT,
+        role TEXT NOT NULL,
+        source TEXT,
+        input TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        completed_at TEXT,
+        updated_at TEXT NOT NULL,
+        progress_json TEXT,
+        worktree_path TEXT,
+        repo_root TEXT,
+        branch TEXT,
+        usage_json TEXT,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        error_message TEXT,
+        result_text TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS spend_ledger (
+        day TEXT NOT NULL,
+        feature TEXT NOT NULL,
+        usd_cost REAL NOT NULL DEFAULT 0,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY(day, feature)
       );
 
       CREATE TABLE IF NOT EXISTS response_triggers (
@@ -418,16 +780,34 @@ export class Store {
       CREATE INDEX IF NOT EXISTS idx_actions_kind_time ON actions(kind, created_at DESC);
       CREATE INDEX IF NOT EXISTS idx_actions_time ON actions(created_at DESC);
       CREATE INDEX IF NOT EXISTS idx_memory_vectors_native_model_dims ON memory_fact_vectors_native(model, dims);
+      CREATE INDEX IF NOT EXISTS idx_memory_fact_revisions_fact ON memory_fact_revisions(fact_id, id DESC);
+      CREATE INDEX IF NOT EXISTS idx_dashboard_users_token_hash ON dashboard_users(token_hash);
       CREATE INDEX IF NOT EXISTS idx_message_vectors_native_model_dims ON message_vectors_native(model, dims);
+      CREATE INDEX IF NOT EXISTS idx_embedding_migrations_target ON embedding_migrations(target_model, id DESC);
+      CREATE INDEX IF NOT EXISTS idx_music_play_history_guild_time ON music_play_history(guild_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_music_local_tracks_library ON music_local_tracks(library_dir, relative_path);
+      CREATE INDEX IF NOT EXISTS idx_image_captions_last_seen ON image_captions(last_seen_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_image_caption_urls_hash ON image_caption_urls(image_hash);
+      CREATE INDEX IF NOT EXISTS idx_image_caption_urls_guild ON image_caption_urls(guild_id, seen_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_video_contexts_last_seen ON video_contexts(last_seen_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_video_context_links_guild ON video_context_links(guild_id, last_linked_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_video_context_links_channel ON video_context_links(channel_id, last_linked_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_video_transcript_vectors_native_model_dims ON video_transcript_vectors_native(model, dims);
       CREATE INDEX IF NOT EXISTS idx_shared_links_last_shared_at ON shared_links(last_shared_at DESC);
       CREATE INDEX IF NOT EXISTS idx_automations_scope_status_next ON automations(guild_id, status, next_run_at);
       CREATE INDEX IF NOT EXISTS idx_automations_running_next ON automations(is_running, next_run_at);
       CREATE INDEX IF NOT EXISTS idx_automations_match_text ON automations(guild_id, match_text);
       CREATE INDEX IF NOT EXISTS idx_automation_runs_job_time ON automation_runs(automation_id, created_at DESC);
       CREATE INDEX IF NOT EXISTS idx_response_triggers_action_id ON response_triggers(action_id);
+      CREATE INDEX IF NOT EXISTS idx_background_tasks_status_time ON background_tasks(status, started_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_background_tasks_scope_time ON background_tasks(scope_key, started_at DESC);
     `);
     this.ensureSqliteVecReady();
     setupMemoryFactsSchema(this.db);
+    ensureAutomationRunTriggerColumns(this.db);
+    ensureEmbeddingMigrationTranscriptColumns(this.db);
+    ensureSettingsVersionScopeColumns(this.db);
+    backfillSpendLedgerFromActions(this);
 
     if (!this.db.prepare("SELECT 1 FROM settings WHERE key = ?").get(SETTINGS_KEY)) {
       const defaultSettings = minimizeSettingsIntent({});
@@ -461,24 +841,84 @@ export class Store {
     return getSettingsRecord(this);
   }
 
-  setSettings(next) {
-    return setSettings(this, next);
+  setSettings(next, origin: SettingsWriteOrigin | null = null) {
+    return setSettings(this, next, origin);
+  }
+
+  patchSettings(patch, origin: SettingsWriteOrigin | null = null) {
+    return patchSettings(this, patch, origin);
   }
 
-  patchSettings(patch) {
-    return patchSettings(this, patch);
+  patchSettingsWithVersion(patch, expectedUpdatedAt, origin: SettingsWriteOrigin | null = null) {
+    return patchSettingsWithVersion(this, patch, expectedUpdatedAt, origin);
   }
 
-  patchSettingsWithVersion(patch, expectedUpdatedAt) {
-    return patchSettingsWithVersion(this, patch, expectedUpdatedAt);
+  replaceSettingsWithVersion(next, expectedUpdatedAt, origin: SettingsWriteOrigin | null = null) {
+    return replaceSettingsWithVersion(this, next, expectedUpdatedAt, origin);
   }
 
-  replaceSettingsWithVersion(next, expectedUpdatedAt) {
-    return replaceSettingsWithVersion(this, next, expectedUpdatedAt);
+  resetSettings(origin: SettingsWriteOrigin | null = null) {
+    return resetSettings(this, origin);
   }
 
-  resetSettings() {
-    return resetSettings(this);
+  listSettingsVersions(opts: { limit?: number; beforeId?: number | null } = {}) {
+    return listSettingsVersions(this, opts);
+  }
+
+  getSettingsVersion(versionId: number) {
+    return getSettingsVersion(this, versionId);
+  }
+
+  getPreviousSettingsVersion(versionId: number) {
+    return getPreviousSettingsVersion(this, versionId);
+  }
+
+  createDashboardUser(opts: { username: string; role: DashboardUserRole; tokenHash: string }) {
+    return createDashboardUser(this, opts);
+  }
+
+  getDashboardUserById(userId: number) {
+    return getDashboardUserById(this, userId);
+  }
+
+  findDashboardUserByTokenHash(tokenHash: string) {
+    return findDashboardUserByTokenHash(this, tokenHash);
+  }
+
+  getDashboardUserTokenHash(userId: number) {
+    return getDashboardUserTokenHash(this, userId);
+  }
+
+  listDashboardUsers(opts: { includeDisabled?: boolean } = {}) {
+    return listDashboardUsers(this, opts);
+  }
+
+  updateDashboardUser(opts: { userId: number; role?: DashboardUserRole; tokenHash?: string; disabled?: boolean }) {
+    return updateDashboardUser(this, opts);
+  }
+
+  touchDashboardUser(userId: number) {
+    return touchDashboardUser(this, userId);
+  }
+
+  getSettingsOverlays(opts: { guildId?: string | null } = {}) {
+    return getSettingsOverlays(this, opts);
+  }
+
+  getSettingsOverlay(scope: SettingsOverlayScope) {
+    return getSettingsOverlay(this, scope);
+  }
+
+  setSettingsOverlay(opts: SettingsOverlayScope & { patch: unknown }, origin: SettingsWriteOrigin | null = null) {
+    return setSettingsOverlay(this, opts, origin);
+  }
+
+  deleteSettingsOverlay(scope: SettingsOverlayScope, origin: SettingsWriteOrigin | null = null) {
+    return deleteSettingsOverlay(this, scope, origin);
+  }
+
+  getScopedSettings(scope: SettingsOverlayScope | null | undefined) {
+    return getScopedSettings(this, scope);
   }
 
   recordMessage(message) {
@@ -610,6 +1050,14 @@ export class Store {
     return hasTriggeredResponse(this, triggerMessageId);
   }
 
+  listResponseTriggers(opts: { limit?: number } = {}) {
+    return listResponseTriggers(this, opts);
+  }
+
+  importResponseTriggers(triggers: ResponseTriggerInput[], opts: { dryRun?: boolean } = {}) {
+    return importResponseTriggers(this, triggers, opts);
+  }
+
   hasReflectionBeenCompleted(dateKey: string, guildId: string): boolean {
     return hasReflectionBeenCompleted(this, dateKey, guildId);
   }
@@ -622,6 +1070,14 @@ export class Store {
     return deleteMemoryReflectionRunsForGuild(this, guildId);
   }
 
+  getMemoryReflectionEvents(guildId: string) {
+    return getMemoryReflectionEvents(this, guildId);
+  }
+
+  importMemoryReflectionEvents(events: MemoryReflectionEventInput[], opts: { dryRun?: boolean } = {}) {
+    return importMemoryReflectionEvents(this, events, opts);
+  }
+
   wasLinkSharedSince(url, sinceIso) {
     return wasLinkSharedSince(this, url, sinceIso);
   }
@@ -646,6 +1102,14 @@ export class Store {
     return getStats(this, opts);
   }
 
+  recordSpendLedgerEntry(opts: { kind: string; source?: string | null; usdCost: number; createdAt?: string }) {
+    return recordSpendLedgerEntry(this, opts);
+  }
+
+  getSpendLedgerTotals(opts: { monthSinceIso: string; daySinceIso: string }) {
+    return getSpendLedgerTotals(this, opts);
+  }
+
   createAutomation(opts: {
     guildId;
     channelId;
@@ -707,10 +1171,34 @@ export class Store {
     return setAutomationStatus(this, opts);
   }
 
+  updateAutomation(opts: {
+    automationId: number;
+    guildId: string;
+    channelId?: string;
+    title?: string;
+    instruction?: string;
+    schedule?: Record<string, unknown>;
+    nextRunAt?: string | null;
+  }) {
+    return updateAutomation(this, opts);
+  }
+
   claimDueAutomations(opts: { now?: string; limit?: number } = {}) {
     return claimDueAutomations(this, opts);
   }
 
+  listEventAutomations(opts: { guildId: string; event: string }) {
+    return listEventAutomations(this, opts);
+  }
+
+  claimTriggeredAutomation(opts: { automationId: number; now?: string; includePaused?: boolean }) {
+    return claimTriggeredAutomation(this, opts);
+  }
+
+  hasAutomationRunForTrigger(opts: { automationId: number; triggerKey: string }) {
+    return hasAutomationRunForTrigger(this, opts);
+  }
+
   finalizeAutomationRun(opts: {
     automationId?: number | string;
     guildId?: string;
@@ -732,6 +1220,7 @@ export class Store {
     error?;
     messageId?;
     metadata?;
+    trigger?: { kind?: string; key?: string | null; payload?: Record<string, unknown> | null } | null;
   }) {
     return recordAutomationRun(this, opts);
   }
@@ -744,6 +1233,232 @@ export class Store {
     return getAutomationRuns(this, opts);
   }
 
+  upsertBackgroundTask(task: BackgroundTaskRecordInput) {
+    return upsertBackgroundTask(this, task);
+  }
+
+  getBackgroundTask(taskId: string) {
+    return getBackgroundTask(this, taskId);
+  }
+
+  listBackgroundTasks(opts: { statuses?: string[]; guildId?: string | null; limit?: number } = {}) {
+    return listBackgroundTasks(this, opts);
+  }
+
+  setBackgroundTaskStatus(opts: {
+    taskId: string;
+    status: string;
+    errorMessage?: string | null;
+    completedAt?: string | null;
+  }) {
+    return setBackgroundTaskStatus(this, opts);
+  }
+
+  pruneBackgroundTasks(opts: { beforeIso: string }) {
+    return pruneBackgroundTasks(this, opts);
+  }
+
+  getEmbeddingModelUsage() {
+    return getEmbeddingModelUsage(this);
+  }
+
+  getFactsMissingEmbeddingModel(opts: { model: string; afterId?: number; limit?: number }) {
+    return getFactsMissingEmbeddingModel(this, opts);
+  }
+
+  getMessagesMissingEmbeddingModel(opts: { model: string; afterRowId?: number; limit?: number }) {
+    return getMessagesMissingEmbeddingModel(this, opts);
+  }
+
+  getTranscriptChunksMissingEmbeddingModel(opts: { model: string; afterRowId?: number; limit?: number }) {
+    return getTranscriptChunksMissingEmbeddingModel(this, opts);
+  }
+
+  createEmbeddingMigration(opts: { targetModel: string; sourceModel?: string | null }) {
+    return createEmbeddingMigration(this, opts);
+  }
+
+  getEmbeddingMigration(id: number) {
+    return getEmbeddingMigration(this, id);
+  }
+
+  getLatestEmbeddingMigration(opts: { targetModel?: string | null; status?: EmbeddingMigrationStatus | null } = {}) {
+    return getLatestEmbeddingMigration(this, opts);
+  }
+
+  updateEmbeddingMigration(id: number, progress: EmbeddingMigrationProgressInput) {
+    return updateEmbeddingMigration(this, id, progress);
+  }
+
+  pruneEmbeddingVectorsExceptModel(model: string) {
+    return pruneEmbeddingVectorsExceptModel(this, model);
+  }
+
+  saveMusicQueueState(opts: {
+    guildId: string;
+    voiceChannelId?: string | null;
+    tracks: unknown[];
+    nowPlayingIndex?: number | null;
+    isPaused?: boolean;
+    volume?: number;
+  }) {
+    return saveMusicQueueState(this, opts);
+  }
+
+  getMusicQueueState(guildId: string) {
+    return getMusicQueueState(this, guildId);
+  }
+
+  recordMusicPlay(opts: {
+    guildId: string;
+    voiceChannelId?: string | null;
+    track: unknown;
+    requestedByUserId?: string | null;
+    source?: string | null;
+  }) {
+    return recordMusicPlay(this, opts);
+  }
+
+  getMusicPlayHistory(opts: { guildId: string; sinceIso?: string | null; untilIso?: string | null; limit?: number }) {
+    return getMusicPlayHistory(this, opts);
+  }
+
+  saveMusicPlaylist(opts: { guildId: string; name: string; tracks: unknown[]; createdByUserId?: string | null }) {
+    return saveMusicPlaylist(this, opts);
+  }
+
+  getMusicPlaylist(opts: { guildId: string; name: string }) {
+    return getMusicPlaylist(this, opts);
+  }
+
+  listMusicPlaylists(guildId: string) {
+    return listMusicPlaylists(this, guildId);
+  }
+
+  deleteMusicPlaylist(opts: { guildId: string; name: string }) {
+    return deleteMusicPlaylist(this, opts);
+  }
+
+  listMusicLocalTracks(libraryDir: string) {
+    return listMusicLocalTracks(this, libraryDir);
+  }
+
+  getMusicLocalTrack(filePath: string) {
+    return getMusicLocalTrack(this, filePath);
+  }
+
+  upsertMusicLocalTracks(tracks: MusicLocalTrackRecord[]) {
+    return upsertMusicLocalTracks(this, tracks);
+  }
+
+  deleteMusicLocalTracks(filePaths: string[]) {
+    return deleteMusicLocalTracks(this, filePaths);
+  }
+
+  getMusicPlaybackEffects(guildId: string) {
+    return getMusicPlaybackEffects(this, guildId);
+  }
+
+  saveMusicPlaybackEffects(opts: {
+    guildId: string;
+    crossfadeMs: number;
+    loudnessNormalization: boolean;
+    speed: number;
+    pitchSemitones: number;
+    bassBoostDb: number;
+    updatedByUserId?: string | null;
+  }) {
+    return saveMusicPlaybackEffects(this, opts);
+  }
+
+  getImageCaptionByHash(imageHash: string) {
+    return getImageCaptionByHash(this, imageHash);
+  }
+
+  getImageCaptionByUrl(urlKey: string) {
+    return getImageCaptionByUrl(this, urlKey);
+  }
+
+  findSimilarImageCaption(opts: { imageHash: string; maxDistance: number }) {
+    return findSimilarImageCaption(this, opts);
+  }
+
+  recordImageCaptionSighting(opts: { imageHash: string; sighting: ImageCaptionSighting }) {
+    return recordImageCaptionSighting(this, opts);
+  }
+
+  saveImageCaption(opts: {
+    imageHash: string;
+    caption: string;
+    provider?: string | null;
+    model?: string | null;
+    mimeType?: string | null;
+    sighting: ImageCaptionSighting;
+  }) {
+    return saveImageCaption(this, opts);
+  }
+
+  searchImageCaptions(opts: {
+    guildId?: string | null;
+    channelId?: string | null;
+    queryText?: string;
+    queryTokens?: string[];
+    limit?: number;
+  }) {
+    return searchImageCaptions(this, opts);
+  }
+
+  getVideoContext(videoKey: string) {
+    return getVideoContext(this, videoKey);
+  }
+
+  saveVideoContext(opts: {
+    videoKey: string;
+    context: VideoContextSummaryInput;
+    transcriptChunks?: string[] | null;
+  }) {
+    return saveVideoContext(this, opts);
+  }
+
+  recordVideoContextLink(link: VideoContextLink) {
+    return recordVideoContextLink(this, link);
+  }
+
+  getVideoTranscriptChunks(opts: { videoKey: string; missingVectorModel?: string | null }) {
+    return getVideoTranscriptChunks(this, opts);
+  }
+
+  upsertVideoTranscriptVectorNative(opts: {
+    videoKey: string;
+    chunkIndex: number;
+    model: string;
+    embedding: number[];
+  }) {
+    return upsertVideoTranscriptVectorNative(this, opts);
+  }
+
+  searchVideoTranscripts(opts: {
+    guildId?: string | null;
+    channelId?: string | null;
+    queryText?: string;
+    queryTokens?: string[];
+    limit?: number;
+    maxAgeHours?: number;
+  }) {
+    return searchVideoTranscripts(this, opts);
+  }
+
+  searchVideoTranscriptsByEmbedding(opts: {
+    guildId?: string | null;
+    channelId?: string | null;
+    queryEmbedding: number[];
+    model: string;
+    limit?: number;
+    maxAgeHours?: number;
+  }) {
+    return searchVideoTranscriptsByEmbedding(this, opts);
+  }
+
   addMemoryFact(fact) {
     return addMemoryFact(this, fact);
   }
@@ -829,6 +1544,9 @@ export class Store {
     factType?;
     evidenceText?;
     confidence?;
+    actor?: MemoryFactRevisionActor;
+    sourceMessageId?: string | null;
+    revisionAction?: "updated" | "superseded";
   }) {
     return updateMemoryFact(this, opts);
   }
@@ -838,14 +1556,50 @@ export class Store {
     scope?: "user" | "guild" | null;
     userId?;
     factId;
+    actor?: MemoryFactRevisionActor;
   }) {
     return deleteMemoryFact(this, opts);
   }
 
+  getMemoryFactRevisions(factId, limit = 50) {
+    return getMemoryFactRevisions(this, factId, limit);
+  }
+
+  getMemoryFactHistory(opts: {
+    guildId?: string | null;
+    scope?: "user" | "guild" | null;
+    factId;
+    limit?: number;
+  }) {
+    return getMemoryFactHistory(this, opts);
+  }
+
+  rollbackMemoryFact(opts: {
+    guildId?: string | null;
+    scope?: "user" | "guild" | null;
+    factId;
+    revisionId;
+    actor?: MemoryFactRevisionActor;
+  }) {
+    return rollbackMemoryFact(this, opts);
+  }
+
   deleteMemoryFactsForGuild(guildId: string) {
     return deleteMemoryFactsForGuild(this, guildId);
   }
 
+  purgeMemoryFactsForUser(opts: { userId: string; factIds?: number[] | null }) {
+    return purgeMemoryFactsForUser(this, opts);
+  }
+
+  listMemoryFactsForUser(opts: { userId: string; limit?: number; offset?: number }) {
+    return listMemoryFactsForUser(this, opts);
+  }
+
+  getMemoryFactsForExport(opts: { guildId?: string | null; userId?: string | null }) {
+    return getMemoryFactsForExport(this, opts);
+  }
+
   ensureSqliteVecReady() {
     return ensureSqliteVecReady(this);
   }
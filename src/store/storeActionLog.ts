@@ -36,6 +36,16 @@ interface ActionLogEntry {
   usdCost?: number | null;
 }
 
+export interface MemoryReflectionEventInput {
+  createdAt: string;
+  guildId: string;
+  channelId?: string | null;
+  kind: string;
+  content?: string | null;
+  metadata?: unknown;
+  usdCost?: number | null;
+}
+
 interface ActionLogStore {
   db: Database;
   actionWritesSincePrune: number;
@@ -48,6 +58,7 @@ interface ActionLogStore {
     deletedResponseTriggers: number;
   };
   maybePruneActionLog(args?: { now?: string }): void;
+  recordSpendLedgerEntry?(args: { kind: string; source?: string | null; usdCost: number; createdAt?: string }): void;
   indexResponseTriggersForAction(args: {
     actionId: number;
     kind: string;
@@ -200,6 +211,17 @@ export function logAction(store: ActionLogStore, action: ActionLogEntry) {
     metadata: action.metadata,
     createdAt
   });
+  if (Number(action.usdCost) > 0) {
+    const actionMetadata = action.metadata && typeof action.metadata === "object"
+      ? action.metadata as Record<string, unknown>
+      : {};
+    store.recordSpendLedgerEntry?.({
+      kind: actionKind,
+      source: actionMetadata.source ? String(actionMetadata.source) : null,
+      usdCost: Number(action.usdCost),
+      createdAt
+    });
+  }
   try {
     store.maybePruneActionLog({ now: createdAt });
   } catch {
@@ -518,6 +540,134 @@ export function deleteMemoryReflectionRunsForGuild(store: ActionLogStore, guildI
   } as const;
 }
 
+export function getMemoryReflectionEvents(store: ActionLogStore, guildId: string) {
+  const normalizedGuildId = String(guildId || "").trim();
+  if (!normalizedGuildId) return [];
+
+  const rows = store.db
+    .prepare<ActionLogRow, [string]>(
+      `SELECT id, created_at, guild_id, channel_id, message_id, user_id, kind, content, metadata, usd_cost
+         FROM actions
+         WHERE guild_id = ?
+           AND kind IN ('memory_reflection_start', 'memory_reflection_complete', 'memory_reflection_error')
+         ORDER BY created_at ASC, id ASC`
+    )
+    .all(normalizedGuildId);
+  return rows.map((row) => ({
+    ...row,
+    metadata: safeJsonParse(row.metadata, null)
+  }));
+}
+
+/**
+ * Inserts reflection events from a memory export with their original timestamps.
+ * Events already present (same guild, kind, timestamp and run) are skipped.
+ */
+export function importMemoryReflectionEvents(
+  store: ActionLogStore,
+  events: MemoryReflectionEventInput[],
+  { dryRun = false }: { dryRun?: boolean } = {}
+) {
+  const existsStatement = store.db.prepare<ActionIdRow, [string, string, string, string]>(
+    `SELECT id
+       FROM actions
+       WHERE guild_id = ?
+         AND kind = ?
+         AND created_at = ?
+         AND IFNULL(json_extract(metadata, '$.runId'), '') = ?
+       LIMIT 1`
+  );
+  const insertStatement = store.db.prepare(
+    `INSERT INTO actions(created_at, guild_id, channel_id, kind, content, metadata, usd_cost)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  let imported = 0;
+  let skipped = 0;
+  const importTx = store.db.transaction(() => {
+    for (const event of events) {
+      const metadata = event.metadata && typeof event.metadata === "object" ? event.metadata : null;
+      const runId = String((metadata as { runId?: unknown } | null)?.runId || "").trim();
+      if (existsStatement.get(event.guildId, event.kind, event.createdAt, runId)) {
+        skipped += 1;
+        continue;
+      }
+      imported += 1;
+      if (dryRun) continue;
+      insertStatement.run(
+        event.createdAt,
+        event.guildId,
+        event.channelId ? String(event.channelId) : null,
+        event.kind,
+        event.content ? String(event.content).slice(0, ACTION_LOG_CONTENT_MAX_CHARS) : null,
+        metadata ? JSON.stringify(metadata) : null,
+        Number(event.usdCost) || 0
+      );
+    }
+  });
+  importTx();
+  return { imported, skipped };
+}
+
+export interface ResponseTriggerInput {
+  triggerMessageId: string;
+  createdAt: string;
+}
+
+export function listResponseTriggers(store: ActionLogStore, { limit = 5000 }: { limit?: number } = {}) {
+  const boundedLimit = clamp(Math.floor(Number(limit) || 5000), 1, 20_000);
+  return store.db
+    .prepare<{ trigger_message_id: string; created_at: string }, [number]>(
+      `SELECT trigger_message_id, created_at
+         FROM response_triggers
+         ORDER BY created_at DESC
+         LIMIT ?`
+    )
+    .all(boundedLimit)
+    .map((row) => ({ triggerMessageId: row.trigger_message_id, createdAt: row.created_at }));
+}
+
+/**
+ * Marks trigger messages answered on another instance as already handled here.
+ * Rows hang off a single `response_triggers_imported` action so action-log pruning
+ * keeps them until they age out like locally recorded triggers.
+ */
+export function importResponseTriggers(
+  store: ActionLogStore,
+  triggers: ResponseTriggerInput[],
+  { dryRun = false }: { dryRun?: boolean } = {}
+) {
+  const existsStatement = store.db.prepare<ActionPresenceRow, [string]>(
+    "SELECT 1 AS found FROM response_triggers WHERE trigger_message_id = ? LIMIT 1"
+  );
+  const fresh: ResponseTriggerInput[] = [];
+  const seen = new Set<string>();
+  for (const trigger of triggers) {
+    const triggerMessageId = String(trigger.triggerMessageId || "").trim();
+    if (!triggerMessageId || seen.has(triggerMessageId)) continue;
+    seen.add(triggerMessageId);
+    if (existsStatement.get(triggerMessageId)) continue;
+    fresh.push({ triggerMessageId, createdAt: String(trigger.createdAt || "") || nowIso() });
+  }
+  const skipped = triggers.length - fresh.length;
+  if (dryRun || !fresh.length) return { imported: fresh.length, skipped };
+
+  const importTx = store.db.transaction(() => {
+    const anchor = store.db
+      .prepare("INSERT INTO actions(created_at, kind, content, metadata) VALUES (?, ?, ?, ?)")
+      .run(nowIso(), "response_triggers_imported", `${fresh.length} response triggers`, JSON.stringify({ count: fresh.length }));
+    const anchorId = Number(anchor.lastInsertRowid || 0);
+    const insertTrigger = store.db.prepare(
+      "INSERT OR IGNORE INTO response_triggers(trigger_message_id, action_id, created_at) VALUES (?, ?, ?)"
+    );
+    for (const trigger of fresh) {
+      insertTrigger.run(trigger.triggerMessageId, anchorId, trigger.createdAt);
+    }
+  });
+  importTx();
+  return { imported: fresh.length, skipped };
+}
+
 export function getRecentBrowserSessions(
   store: ActionLogStore,
   limit = DEFAULT_RECENT_BROWSER_SESSIONS_LIMIT,
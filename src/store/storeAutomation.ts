@@ -57,6 +57,13 @@ interface AutomationRunRow {
   error: string | null;
   message_id: string | null;
   metadata: string | null;
+  trigger_kind: string | null;
+  trigger_key: string | null;
+  trigger_payload: string | null;
+}
+
+interface AutomationRunExistsRow {
+  id: number;
 }
 
 interface AutomationCountRow {
@@ -291,6 +298,76 @@ store.db
 return store.getAutomationById(id, normalizedGuildId);
 }
 
+/**
+ * Edits an automation in place. Omitted (undefined) fields keep their stored
+ * value; `nextRunAt: null` clears the next run. Running state and run
+ * bookkeeping are left alone.
+ */
+export function updateAutomation(store: AutomationStore, {
+    automationId,
+    guildId,
+    channelId,
+    title,
+    instruction,
+    schedule,
+    nextRunAt
+  }: {
+    automationId: number;
+    guildId: string;
+    channelId?: string;
+    title?: string;
+    instruction?: string;
+    schedule?: Record<string, unknown>;
+    nextRunAt?: string | null;
+  }) {
+const id = Number(automationId);
+const normalizedGuildId = String(guildId || "").trim();
+if (!Number.isInteger(id) || id <= 0 || !normalizedGuildId) return null;
+
+const current = store.getAutomationById(id, normalizedGuildId);
+if (!current) return null;
+
+const normalizedChannelId = channelId === undefined ? current.channel_id : String(channelId || "").trim();
+const normalizedTitle = title === undefined ? current.title : normalizeAutomationTitle(title, current.title);
+const normalizedInstruction =
+  instruction === undefined ? current.instruction : normalizeAutomationInstruction(instruction);
+const normalizedSchedule =
+  schedule === undefined ? current.schedule : safeJsonParse(JSON.stringify(schedule), null);
+if (!normalizedChannelId || !normalizedInstruction) return null;
+if (!normalizedSchedule || typeof normalizedSchedule !== "object") return null;
+
+const resolvedNextRunAt = nextRunAt === undefined ? current.next_run_at : nextRunAt;
+store.db
+  .prepare(
+    `UPDATE automations
+         SET
+           updated_at = ?,
+           channel_id = ?,
+           title = ?,
+           instruction = ?,
+           schedule_json = ?,
+           next_run_at = ?,
+           match_text = ?
+         WHERE id = ? AND guild_id = ?`
+  )
+  .run(
+    nowIso(),
+    normalizedChannelId,
+    normalizedTitle,
+    normalizedInstruction,
+    JSON.stringify(normalizedSchedule),
+    resolvedNextRunAt ? String(resolvedNextRunAt) : null,
+    buildAutomationMatchText({
+      title: normalizedTitle,
+      instruction: normalizedInstruction
+    }),
+    id,
+    normalizedGuildId
+  );
+
+return store.getAutomationById(id, normalizedGuildId);
+}
+
 export function claimDueAutomations(store: AutomationStore, { now = nowIso(), limit = 4 }: { now?: string; limit?: number } = {}) {
 const normalizedNow = String(now || nowIso());
 const boundedLimit = clamp(Math.floor(Number(limit) || 4), 1, 40);
@@ -338,6 +415,75 @@ const rows = claimTx(normalizedNow, boundedLimit);
 return rows.map((row) => mapAutomationRow(row)).filter(isAutomationRecord);
 }
 
+export function listEventAutomations(store: AutomationStore, { guildId, event }: { guildId: string; event: string }) {
+const normalizedGuildId = String(guildId || "").trim();
+const normalizedEvent = String(event || "").trim();
+if (!normalizedGuildId || !normalizedEvent) return [];
+
+const rows = store.db
+  .prepare<AutomationRow, [string, string]>(
+    `SELECT *
+         FROM automations
+         WHERE guild_id = ?
+           AND status = 'active'
+           AND is_running = 0
+           AND json_extract(schedule_json, '$.kind') = 'event'
+           AND json_extract(schedule_json, '$.event') = ?
+         ORDER BY id ASC
+         LIMIT 40`
+  )
+  .all(normalizedGuildId, normalizedEvent);
+return rows.map((row) => mapAutomationRow(row)).filter(isAutomationRecord);
+}
+
+export function claimTriggeredAutomation(store: AutomationStore, {
+    automationId,
+    now = nowIso(),
+    includePaused = false
+  }: {
+    automationId: number;
+    now?: string;
+    includePaused?: boolean;
+  }) {
+const id = Number(automationId);
+if (!Number.isInteger(id) || id <= 0) return null;
+
+const normalizedNow = String(now || nowIso());
+const claim = store.db
+  .prepare(
+    `UPDATE automations
+         SET
+           is_running = 1,
+           running_started_at = ?,
+           updated_at = ?
+         WHERE id = ?
+           AND status ${includePaused ? "IN ('active', 'paused')" : "= 'active'"}
+           AND is_running = 0`
+  )
+  .run(normalizedNow, normalizedNow, id);
+if (Number(claim?.changes || 0) !== 1) return null;
+return store.getAutomationById(id);
+}
+
+export function hasAutomationRunForTrigger(store: AutomationStore, {
+    automationId,
+    triggerKey
+  }: {
+    automationId: number;
+    triggerKey: string;
+  }) {
+const id = Number(automationId);
+const normalizedKey = String(triggerKey || "").trim();
+if (!Number.isInteger(id) || id <= 0 || !normalizedKey) return false;
+
+const row = store.db
+  .prepare<AutomationRunExistsRow, [number, string]>(
+    "SELECT id FROM automation_runs WHERE automation_id = ? AND trigger_key = ? LIMIT 1"
+  )
+  .get(id, normalizedKey);
+return Boolean(row);
+}
+
 export function finalizeAutomationRun(store: AutomationStore, {
     automationId,
     guildId,
@@ -396,13 +542,17 @@ export function recordAutomationRun(store: AutomationStore, {
     summary = "",
     error = "",
     messageId = null,
-    metadata = null
+    metadata = null,
+    trigger = null
   }) {
 const id = Number(automationId);
 if (!Number.isInteger(id) || id <= 0) return null;
 
 const createdAt = nowIso();
-store.db
+const triggerKind = String(trigger?.kind || "schedule").trim().slice(0, 40) || "schedule";
+const triggerKey = String(trigger?.key || "").trim().slice(0, 300) || null;
+const triggerPayload = trigger?.payload && typeof trigger.payload === "object" ? trigger.payload : null;
+const result = store.db
   .prepare(
     `INSERT INTO automation_runs(
           automation_id,
@@ -413,8 +563,11 @@ store.db
           summary,
           error,
           message_id,
-          metadata
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          metadata,
+          trigger_kind,
+          trigger_key,
+          trigger_payload
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   )
   .run(
     id,
@@ -425,8 +578,12 @@ store.db
     summary ? String(summary).slice(0, 700) : null,
     error ? String(error).slice(0, 1000) : null,
     messageId ? String(messageId) : null,
-    metadata ? JSON.stringify(metadata) : null
+    metadata ? JSON.stringify(metadata) : null,
+    triggerKind,
+    triggerKey,
+    triggerPayload ? JSON.stringify(triggerPayload) : null
   );
+return Number(result?.lastInsertRowid || 0) || null;
 }
 
 export function getAutomationRuns(store: AutomationStore, {
@@ -457,6 +614,8 @@ const rows = store.db
 
 return rows.map((row) => ({
   ...row,
-  metadata: safeJsonParse(row.metadata, null)
+  metadata: safeJsonParse(row.metadata, null),
+  trigger_kind: row.trigger_kind || "schedule",
+  trigger_payload: safeJsonParse(row.trigger_payload, null)
 }));
 }
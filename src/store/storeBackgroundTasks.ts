@@ -0,0 +1,292 @@
+// Extracted Store Methods
+import type { Database } from "bun:sqlite";
+
+import { clamp, nowIso } from "../utils.ts";
+import { safeJsonParse } from "../normalization/valueParsers.ts";
+
+interface BackgroundTaskStore {
+  db: Database;
+}
+
+interface BackgroundTaskRow {
+  id: string;
+  session_id: string;
+  scope_key: string;
+  guild_id: string | null;
+  channel_id: string | null;
+  user_id: string | null;
+  trigger_message_id: string | null;
+  role: string;
+  source: string | null;
+  input: string;
+  status: string;
+  started_at: string;
+  completed_at: string | null;
+  updated_at: string;
+  progress_json: string | null;
+  worktree_path: string | null;
+  repo_root: string | null;
+  branch: string | null;
+  usage_json: string | null;
+  cost_usd: number;
+  error_message: string | null;
+  result_text: string | null;
+}
+
+export type BackgroundTaskRecordInput = {
+  id: string;
+  sessionId: string;
+  scopeKey: string;
+  guildId?: string | null;
+  channelId?: string | null;
+  userId?: string | null;
+  triggerMessageId?: string | null;
+  role: string;
+  source?: string | null;
+  input: string;
+  status: string;
+  startedAt: string;
+  completedAt?: string | null;
+  progress?: Record<string, unknown> | null;
+  worktreePath?: string | null;
+  repoRoot?: string | null;
+  branch?: string | null;
+  usage?: Record<string, unknown> | null;
+  costUsd?: number;
+  errorMessage?: string | null;
+  resultText?: string | null;
+};
+
+export type BackgroundTaskRecord = {
+  id: string;
+  sessionId: string;
+  scopeKey: string;
+  guildId: string;
+  channelId: string;
+  userId: string | null;
+  triggerMessageId: string | null;
+  role: string;
+  source: string | null;
+  input: string;
+  status: string;
+  startedAt: string;
+  completedAt: string | null;
+  updatedAt: string;
+  progress: Record<string, unknown>;
+  worktreePath: string | null;
+  repoRoot: string | null;
+  branch: string | null;
+  usage: Record<string, unknown>;
+  costUsd: number;
+  errorMessage: string | null;
+  resultText: string | null;
+};
+
+const MAX_TASK_INPUT_CHARS = 8000;
+const MAX_TASK_RESULT_CHARS = 8000;
+
+function optionalText(value: unknown, maxChars = 400) {
+  const normalized = String(value ?? "").trim();
+  return normalized ? normalized.slice(0, maxChars) : null;
+}
+
+function mapBackgroundTaskRow(row: BackgroundTaskRow | null | undefined): BackgroundTaskRecord | null {
+  if (!row) return null;
+  const progress = safeJsonParse(row.progress_json, {});
+  const usage = safeJsonParse(row.usage_json, {});
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    scopeKey: row.scope_key,
+    guildId: row.guild_id || "",
+    channelId: row.channel_id || "",
+    userId: row.user_id || null,
+    triggerMessageId: row.trigger_message_id || null,
+    role: row.role,
+    source: row.source || null,
+    input: row.input,
+    status: row.status,
+    startedAt: row.started_at,
+    completedAt: row.completed_at || null,
+    updatedAt: row.updated_at,
+    progress: progress && typeof progress === "object" ? progress : {},
+    worktreePath: row.worktree_path || null,
+    repoRoot: row.repo_root || null,
+    branch: row.branch || null,
+    usage: usage && typeof usage === "object" ? usage : {},
+    costUsd: Number(row.cost_usd) || 0,
+    errorMessage: row.error_message || null,
+    resultText: row.result_text || null
+  };
+}
+
+export function upsertBackgroundTask(store: BackgroundTaskStore, task: BackgroundTaskRecordInput) {
+  const id = String(task?.id || "").trim();
+  if (!id) return null;
+  const updatedAt = nowIso();
+  store.db
+    .prepare(
+      `INSERT INTO background_tasks(
+        id,
+        session_id,
+        scope_key,
+        guild_id,
+        channel_id,
+        user_id,
+        trigger_message_id,
+        role,
+        source,
+        input,
+        status,
+        started_at,
+        completed_at,
+        updated_at,
+        progress_json,
+        worktree_path,
+        repo_root,
+        branch,
+        usage_json,
+        cost_usd,
+        error_message,
+        result_text
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        session_id = excluded.session_id,
+        scope_key = excluded.scope_key,
+        guild_id = excluded.guild_id,
+        channel_id = excluded.channel_id,
+        user_id = excluded.user_id,
+        trigger_message_id = excluded.trigger_message_id,
+        role = excluded.role,
+        source = excluded.source,
+        input = excluded.input,
+        status = excluded.status,
+        started_at = excluded.started_at,
+        completed_at = excluded.completed_at,
+        updated_at = excluded.updated_at,
+        progress_json = excluded.progress_json,
+        worktree_path = COALESCE(excluded.worktree_path, background_tasks.worktree_path),
+        repo_root = COALESCE(excluded.repo_root, background_tasks.repo_root),
+        branch = COALESCE(excluded.branch, background_tasks.branch),
+        usage_json = excluded.usage_json,
+        cost_usd = excluded.cost_usd,
+        error_message = excluded.error_message,
+        result_text = excluded.result_text`
+    )
+    .run(
+      id,
+      String(task.sessionId || id),
+      String(task.scopeKey || ""),
+      optionalText(task.guildId, 80),
+      optionalText(task.channelId, 80),
+      optionalText(task.userId, 80),
+      optionalText(task.triggerMessageId, 80),
+      String(task.role || "implementation"),
+      optionalText(task.source, 120),
+      String(task.input || "").slice(0, MAX_TASK_INPUT_CHARS),
+      String(task.status || "running"),
+      String(task.startedAt || updatedAt),
+      task.completedAt ? String(task.completedAt) : null,
+      updatedAt,
+      JSON.stringify(task.progress || {}),
+      optionalText(task.worktreePath, 1000),
+      optionalText(task.repoRoot, 1000),
+      optionalText(task.branch, 240),
+      JSON.stringify(task.usage || {}),
+      Math.max(0, Number(task.costUsd) || 0),
+      optionalText(task.errorMessage, 2000),
+      optionalText(task.resultText, MAX_TASK_RESULT_CHARS)
+    );
+  return getBackgroundTask(store, id);
+}
+
+export function getBackgroundTask(store: BackgroundTaskStore, taskId: string) {
+  const id = String(taskId || "").trim();
+  if (!id) return null;
+  const row = store.db
+    .prepare<BackgroundTaskRow, [string]>("SELECT * FROM background_tasks WHERE id = ? LIMIT 1")
+    .get(id);
+  return mapBackgroundTaskRow(row);
+}
+
+export function listBackgroundTasks(
+  store: BackgroundTaskStore,
+  {
+    statuses = [],
+    guildId = null,
+    limit = 50
+  }: {
+    statuses?: string[];
+    guildId?: string | null;
+    limit?: number;
+  } = {}
+) {
+  const boundedLimit = clamp(Math.floor(Number(limit) || 50), 1, 500);
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  const normalizedStatuses = (Array.isArray(statuses) ? statuses : [])
+    .map((status) => String(status || "").trim())
+    .filter(Boolean);
+  if (normalizedStatuses.length) {
+    conditions.push(`status IN (${normalizedStatuses.map(() => "?").join(", ")})`);
+    params.push(...normalizedStatuses);
+  }
+  const normalizedGuildId = String(guildId || "").trim();
+  if (normalizedGuildId) {
+    conditions.push("guild_id = ?");
+    params.push(normalizedGuildId);
+  }
+  const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  const rows = store.db
+    .prepare<BackgroundTaskRow, Array<string | number>>(
+      `SELECT *
+         FROM background_tasks
+         ${whereClause}
+         ORDER BY started_at DESC
+         LIMIT ?`
+    )
+    .all(...params, boundedLimit);
+  return rows.map((row) => mapBackgroundTaskRow(row)).filter((row): row is BackgroundTaskRecord => row !== null);
+}
+
+export function setBackgroundTaskStatus(
+  store: BackgroundTaskStore,
+  {
+    taskId,
+    status,
+    errorMessage = null,
+    completedAt = null
+  }: {
+    taskId: string;
+    status: string;
+    errorMessage?: string | null;
+    completedAt?: string | null;
+  }
+) {
+  const id = String(taskId || "").trim();
+  const normalizedStatus = String(status || "").trim();
+  if (!id || !normalizedStatus) return false;
+  const result = store.db
+    .prepare(
+      `UPDATE background_tasks
+         SET status = ?,
+             error_message = COALESCE(?, error_message),
+             completed_at = COALESCE(?, completed_at),
+             updated_at = ?
+         WHERE id = ?`
+    )
+    .run(normalizedStatus, optionalText(errorMessage, 2000), completedAt ? String(completedAt) : null, nowIso(), id);
+  return Number(result?.changes || 0) > 0;
+}
+
+export function pruneBackgroundTasks(
+  store: BackgroundTaskStore,
+  { beforeIso }: { beforeIso: string }
+) {
+  const normalizedBeforeIso = String(beforeIso || "").trim();
+  if (!normalizedBeforeIso) return 0;
+  const result = store.db
+    .prepare("DELETE FROM background_tasks WHERE status != 'running' AND updated_at < ?")
+    .run(normalizedBeforeIso);
+  return Number(result?.changes || 0);
+}
@@ -0,0 +1,165 @@
+// Extracted Store Methods
+import type { Database } from "bun:sqlite";
+
+import { nowIso } from "../utils.ts";
+
+interface DashboardUserStore {
+  db: Database;
+}
+
+export const DASHBOARD_USER_ROLES = ["viewer", "operator", "admin"] as const;
+export type DashboardUserRole = (typeof DASHBOARD_USER_ROLES)[number];
+
+export type DashboardUser = {
+  id: number;
+  createdAt: string;
+  updatedAt: string;
+  username: string;
+  role: DashboardUserRole;
+  lastSeenAt: string | null;
+  disabled: boolean;
+};
+
+interface DashboardUserRow {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  username: string;
+  role: string;
+  token_hash: string;
+  last_seen_at: string | null;
+  disabled_at: string | null;
+}
+
+const LAST_SEEN_THROTTLE_MS = 60_000;
+const DASHBOARD_USERNAME_RE = /^[a-z0-9][a-z0-9._-]{1,31}$/;
+
+export function normalizeDashboardUserRole(value: unknown): DashboardUserRole | null {
+  const normalized = String(value || "").trim().toLowerCase();
+  return DASHBOARD_USER_ROLES.find((role) => role === normalized) || null;
+}
+
+export function normalizeDashboardUsername(value: unknown) {
+  const normalized = String(value || "").trim().toLowerCase();
+  return DASHBOARD_USERNAME_RE.test(normalized) ? normalized : "";
+}
+
+function mapDashboardUserRow(row: DashboardUserRow): DashboardUser {
+  return {
+    id: Number(row.id),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    username: row.username,
+    role: normalizeDashboardUserRole(row.role) || "viewer",
+    lastSeenAt: row.last_seen_at || null,
+    disabled: Boolean(row.disabled_at)
+  };
+}
+
+export function createDashboardUser(
+  store: DashboardUserStore,
+  { username, role, tokenHash }: { username: string; role: DashboardUserRole; tokenHash: string }
+) {
+  const normalizedUsername = normalizeDashboardUsername(username);
+  const normalizedRole = normalizeDashboardUserRole(role);
+  if (!normalizedUsername || !normalizedRole || !tokenHash) return null;
+  const existing = store.db
+    .prepare<{ id: number }, [string]>("SELECT id FROM dashboard_users WHERE username = ?")
+    .get(normalizedUsername);
+  if (existing) return null;
+
+  const now = nowIso();
+  const result = store.db
+    .prepare(
+      `INSERT INTO dashboard_users(created_at, updated_at, username, role, token_hash)
+       VALUES (?, ?, ?, ?, ?)`
+    )
+    .run(now, now, normalizedUsername, normalizedRole, tokenHash);
+  return getDashboardUserById(store, Number(result.lastInsertRowid || 0));
+}
+
+export function getDashboardUserById(store: DashboardUserStore, userId: number) {
+  const id = Number(userId);
+  if (!Number.isInteger(id) || id <= 0) return null;
+  const row = store.db
+    .prepare<DashboardUserRow, [number]>("SELECT * FROM dashboard_users WHERE id = ?")
+    .get(id);
+  return row ? mapDashboardUserRow(row) : null;
+}
+
+/** Current token hash for `userId`, or null for unknown or disabled users. */
+export function getDashboardUserTokenHash(store: DashboardUserStore, userId: number) {
+  const id = Number(userId);
+  if (!Number.isInteger(id) || id <= 0) return null;
+  const row = store.db
+    .prepare<{ token_hash: string }, [number]>(
+      "SELECT token_hash FROM dashboard_users WHERE id = ? AND disabled_at IS NULL"
+    )
+    .get(id);
+  return row?.token_hash || null;
+}
+
+/** Active user whose access token hashes to `tokenHash`; disabled users never match. */
+export function findDashboardUserByTokenHash(store: DashboardUserStore, tokenHash: string) {
+  const normalizedHash = String(tokenHash || "").trim();
+  if (!normalizedHash) return null;
+  const row = store.db
+    .prepare<DashboardUserRow, [string]>(
+      "SELECT * FROM dashboard_users WHERE token_hash = ? AND disabled_at IS NULL LIMIT 1"
+    )
+    .get(normalizedHash);
+  return row ? mapDashboardUserRow(row) : null;
+}
+
+export function listDashboardUsers(store: DashboardUserStore, { includeDisabled = true }: { includeDisabled?: boolean } = {}) {
+  const rows = store.db
+    .prepare<DashboardUserRow, []>(
+      `SELECT * FROM dashboard_users ${includeDisabled ? "" : "WHERE disabled_at IS NULL "}ORDER BY username ASC`
+    )
+    .all();
+  return rows.map(mapDashboardUserRow);
+}
+
+export function updateDashboardUser(
+  store: DashboardUserStore,
+  {
+    userId,
+    role,
+    tokenHash,
+    disabled
+  }: { userId: number; role?: DashboardUserRole; tokenHash?: string; disabled?: boolean }
+) {
+  const current = getDashboardUserById(store, userId);
+  if (!current) return null;
+  const nextRole = role === undefined ? current.role : normalizeDashboardUserRole(role);
+  if (!nextRole) return null;
+
+  const now = nowIso();
+  store.db
+    .prepare(
+      `UPDATE dashboard_users
+          SET updated_at = ?,
+              role = ?,
+              token_hash = COALESCE(?, token_hash),
+              disabled_at = CASE WHEN ? IS NULL THEN disabled_at WHEN ? = 1 THEN COALESCE(disabled_at, ?) ELSE NULL END
+        WHERE id = ?`
+    )
+    .run(
+      now,
+      nextRole,
+      tokenHash || null,
+      disabled === undefined ? null : 1,
+      disabled ? 1 : 0,
+      now,
+      current.id
+    );
+  return getDashboardUserById(store, current.id);
+}
+
+/** Bumps last_seen_at at most once per minute so dashboard polling does not write on every request. */
+export function touchDashboardUser(store: DashboardUserStore, userId: number) {
+  const now = Date.now();
+  store.db
+    .prepare("UPDATE dashboard_users SET last_seen_at = ? WHERE id = ? AND (last_seen_at IS NULL OR last_seen_at < ?)")
+    .run(new Date(now).toISOString(), Number(userId) || 0, new Date(now - LAST_SEEN_THROTTLE_MS).toISOString());
+}
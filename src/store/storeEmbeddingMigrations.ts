@@ -0,0 +1,440 @@
+// Extracted Store Methods
+import type { Database } from "bun:sqlite";
+
+import { clamp, nowIso } from "../utils.ts";
+
+interface EmbeddingMigrationStore {
+  db: Database;
+}
+
+export type EmbeddingMigrationStatus = "running" | "completed" | "failed" | "cancelled";
+
+interface EmbeddingMigrationRow {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  target_model: string;
+  source_model: string | null;
+  status: EmbeddingMigrationStatus;
+  facts_total: number;
+  facts_done: number;
+  facts_failed: number;
+  fact_cursor: number;
+  messages_total: number;
+  messages_done: number;
+  messages_failed: number;
+  message_cursor: number;
+  transcripts_total: number;
+  transcripts_done: number;
+  transcripts_failed: number;
+  transcript_cursor: number;
+  error_message: string | null;
+}
+
+export type EmbeddingMigrationRecord = {
+  id: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  targetModel: string;
+  sourceModel: string | null;
+  status: EmbeddingMigrationStatus;
+  factsTotal: number;
+  factsDone: number;
+  factsFailed: number;
+  factCursor: number;
+  messagesTotal: number;
+  messagesDone: number;
+  messagesFailed: number;
+  messageCursor: number;
+  transcriptsTotal: number;
+  transcriptsDone: number;
+  transcriptsFailed: number;
+  transcriptCursor: number;
+  errorMessage: string | null;
+};
+
+export type EmbeddingMigrationProgressInput = {
+  status?: EmbeddingMigrationStatus;
+  factsDone?: number;
+  factsFailed?: number;
+  factCursor?: number;
+  messagesDone?: number;
+  messagesFailed?: number;
+  messageCursor?: number;
+  transcriptsDone?: number;
+  transcriptsFailed?: number;
+  transcriptCursor?: number;
+  errorMessage?: string | null;
+};
+
+export type EmbeddingMigrationFactRow = {
+  id: number;
+  fact: string;
+  fact_type: string;
+  evidence_text: string | null;
+  guild_id: string | null;
+};
+
+export type EmbeddingMigrationMessageRow = {
+  row_id: number;
+  message_id: string;
+  guild_id: string | null;
+  channel_id: string;
+  content: string;
+};
+
+export type EmbeddingMigrationTranscriptRow = {
+  row_id: number;
+  video_key: string;
+  chunk_index: number;
+  content: string;
+};
+
+const MIGRATION_SELECT_COLUMNS = `id, created_at, updated_at, completed_at, target_model, source_model, status,
+  facts_total, facts_done, facts_failed, fact_cursor,
+  messages_total, messages_done, messages_failed, message_cursor,
+  transcripts_total, transcripts_done, transcripts_failed, transcript_cursor, error_message`;
+
+function mapEmbeddingMigrationRow(row: EmbeddingMigrationRow | null | undefined): EmbeddingMigrationRecord | null {
+  if (!row) return null;
+  return {
+    id: Number(row.id),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at || null,
+    targetModel: row.target_model,
+    sourceModel: row.source_model || null,
+    status: row.status,
+    factsTotal: Number(row.facts_total) || 0,
+    factsDone: Number(row.facts_done) || 0,
+    factsFailed: Number(row.facts_failed) || 0,
+    factCursor: Number(row.fact_cursor) || 0,
+    messagesTotal: Number(row.messages_total) || 0,
+    messagesDone: Number(row.messages_done) || 0,
+    messagesFailed: Number(row.messages_failed) || 0,
+    messageCursor: Number(row.message_cursor) || 0,
+    transcriptsTotal: Number(row.transcripts_total) || 0,
+    transcriptsDone: Number(row.transcripts_done) || 0,
+    transcriptsFailed: Number(row.transcripts_failed) || 0,
+    transcriptCursor: Number(row.transcript_cursor) || 0,
+    errorMessage: row.error_message || null
+  };
+}
+
+function normalizeModel(model: unknown) {
+  return String(model || "").trim().slice(0, 120);
+}
+
+/** Vector counts per embedding model across durable facts, conversation messages, and video transcripts. */
+export function getEmbeddingModelUsage(store: EmbeddingMigrationStore) {
+  const rows = store.db
+    .prepare<{ model: string; facts: number; messages: number; transcripts: number }, []>(
+      `SELECT model, SUM(facts) AS facts, SUM(messages) AS messages, SUM(transcripts) AS transcripts
+         FROM (
+           SELECT v.model AS model, COUNT(*) AS facts, 0 AS messages, 0 AS transcripts
+             FROM memory_fact_vectors_native AS v
+             JOIN memory_facts AS f ON f.id = v.fact_id
+            WHERE f.is_active = 1
+            GROUP BY v.model
+           UNION ALL
+           SELECT model, 0 AS facts, COUNT(*) AS messages, 0 AS transcripts
+             FROM message_vectors_native
+            GROUP BY model
+           UNION ALL
+           SELECT model, 0 AS facts, 0 AS messages, COUNT(*) AS transcripts
+             FROM video_transcript_vectors_native
+            GROUP BY model
+         )
+        GROUP BY model
+        ORDER BY (SUM(facts) + SUM(messages) + SUM(transcripts)) DESC, model ASC`
+    )
+    .all();
+  return rows.map((row) => ({
+    model: String(row.model),
+    facts: Number(row.facts) || 0,
+    messages: Number(row.messages) || 0,
+    transcripts: Number(row.transcripts) || 0
+  }));
+}
+
+export function countFactsMissingEmbeddingModel(store: EmbeddingMigrationStore, model: string) {
+  return Number(
+    store.db
+      .prepare<{ count: number }, [string]>(
+        `SELECT COUNT(*) AS count
+           FROM memory_facts AS f
+          WHERE f.is_active = 1
+            AND NOT EXISTS (
+              SELECT 1 FROM memory_fact_vectors_native AS v
+               WHERE v.fact_id = f.id AND v.model = ?
+            )`
+      )
+      .get(normalizeModel(model))?.count || 0
+  );
+}
+
+/**
+ * Messages only join a migration if they were embedded under some other model; messages
+ * that were never embedded stay lexical-only, same as before the model change.
+ */
+export function countMessagesMissingEmbeddingModel(store: EmbeddingMigrationStore, model: string) {
+  return Number(
+    store.db
+      .prepare<{ count: number }, [string]>(
+        `SELECT COUNT(DISTINCT v.message_id) AS count
+           FROM message_vectors_native AS v
+          WHERE NOT EXISTS (
+            SELECT 1 FROM message_vectors_native AS t
+             WHERE t.message_id = v.message_id AND t.model = ?
+          )`
+      )
+      .get(normalizeModel(model))?.count || 0
+  );
+}
+
+/** Transcript chunks follow the message rule: only chunks embedded under another model migrate. */
+export function countTranscriptChunksMissingEmbeddingModel(store: EmbeddingMigrationStore, model: string) {
+  return Number(
+    store.db
+      .prepare<{ count: number }, [string]>(
+        `SELECT COUNT(*) AS count
+           FROM (
+             SELECT DISTINCT v.video_key, v.chunk_index
+               FROM video_transcript_vectors_native AS v
+              WHERE NOT EXISTS (
+                SELECT 1 FROM video_transcript_vectors_native AS t
+                 WHERE t.video_key = v.video_key AND t.chunk_index = v.chunk_index AND t.model = ?
+              )
+           )`
+      )
+      .get(normalizeModel(model))?.count || 0
+  );
+}
+
+export function getFactsMissingEmbeddingModel(
+  store: EmbeddingMigrationStore,
+  { model, afterId = 0, limit = 32 }: { model: string; afterId?: number; limit?: number }
+) {
+  return store.db
+    .prepare<EmbeddingMigrationFactRow, [number, string, number]>(
+      `SELECT f.id, f.fact, f.fact_type, f.evidence_text, f.guild_id
+         FROM memory_facts AS f
+        WHERE f.is_active = 1
+          AND f.id > ?
+          AND NOT EXISTS (
+            SELECT 1 FROM memory_fact_vectors_native AS v
+             WHERE v.fact_id = f.id AND v.model = ?
+          )
+        ORDER BY f.id ASC
+        LIMIT ?`
+    )
+    .all(Math.max(0, Math.floor(Number(afterId) || 0)), normalizeModel(model), clamp(limit, 1, 500));
+}
+
+export function getMessagesMissingEmbeddingModel(
+  store: EmbeddingMigrationStore,
+  { model, afterRowId = 0, limit = 32 }: { model: string; afterRowId?: number; limit?: number }
+) {
+  return store.db
+    .prepare<EmbeddingMigrationMessageRow, [number, string, number]>(
+      `SELECT m.rowid AS row_id, m.message_id, m.guild_id, m.channel_id, m.content
+         FROM messages AS m
+        WHERE m.rowid > ?
+          AND EXISTS (
+            SELECT 1 FROM message_vectors_native AS v
+             WHERE v.message_id = m.message_id
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM message_vectors_native AS t
+             WHERE t.message_id = m.message_id AND t.model = ?
+          )
+        ORDER BY m.rowid ASC
+        LIMIT ?`
+    )
+    .all(Math.max(0, Math.floor(Number(afterRowId) || 0)), normalizeModel(model), clamp(limit, 1, 500));
+}
+
+export function getTranscriptChunksMissingEmbeddingModel(
+  store: EmbeddingMigrationStore,
+  { model, afterRowId = 0, limit = 32 }: { model: string; afterRowId?: number; limit?: number }
+) {
+  return store.db
+    .prepare<EmbeddingMigrationTranscriptRow, [number, string, number]>(
+      `SELECT c.rowid AS row_id, c.video_key, c.chunk_index, c.content
+         FROM video_transcript_chunks AS c
+        WHERE c.rowid > ?
+          AND EXISTS (
+            SELECT 1 FROM video_transcript_vectors_native AS v
+             WHERE v.video_key = c.video_key AND v.chunk_index = c.chunk_index
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM video_transcript_vectors_native AS t
+             WHERE t.video_key = c.video_key AND t.chunk_index = c.chunk_index AND t.model = ?
+          )
+        ORDER BY c.rowid ASC
+        LIMIT ?`
+    )
+    .all(Math.max(0, Math.floor(Number(afterRowId) || 0)), normalizeModel(model), clamp(limit, 1, 500));
+}
+
+export function createEmbeddingMigration(
+  store: EmbeddingMigrationStore,
+  { targetModel, sourceModel = null }: { targetModel: string; sourceModel?: string | null }
+) {
+  const normalizedTargetModel = normalizeModel(targetModel);
+  if (!normalizedTargetModel) return null;
+  const createdAt = nowIso();
+  const result = store.db
+    .prepare(
+      `INSERT INTO embedding_migrations(
+        created_at,
+        updated_at,
+        target_model,
+        source_model,
+        status,
+        facts_total,
+        messages_total,
+        transcripts_total
+      ) VALUES (?, ?, ?, ?, 'running', ?, ?, ?)`
+    )
+    .run(
+      createdAt,
+      createdAt,
+      normalizedTargetModel,
+      normalizeModel(sourceModel) || null,
+      countFactsMissingEmbeddingModel(store, normalizedTargetModel),
+      countMessagesMissingEmbeddingModel(store, normalizedTargetModel),
+      countTranscriptChunksMissingEmbeddingModel(store, normalizedTargetModel)
+    );
+  return getEmbeddingMigration(store, Number(result.lastInsertRowid));
+}
+
+export function getEmbeddingMigration(store: EmbeddingMigrationStore, id: number) {
+  return mapEmbeddingMigrationRow(
+    store.db
+      .prepare<EmbeddingMigrationRow, [number]>(`SELECT ${MIGRATION_SELECT_COLUMNS} FROM embedding_migrations WHERE id = ?`)
+      .get(Number(id))
+  );
+}
+
+export function getLatestEmbeddingMigration(
+  store: EmbeddingMigrationStore,
+  { targetModel = null, status = null }: { targetModel?: string | null; status?: EmbeddingMigrationStatus | null } = {}
+) {
+  const where: string[] = [];
+  const args: string[] = [];
+  if (targetModel) {
+    where.push("target_model = ?");
+    args.push(normalizeModel(targetModel));
+  }
+  if (status) {
+    where.push("status = ?");
+    args.push(status);
+  }
+  return mapEmbeddingMigrationRow(
+    store.db
+      .prepare<EmbeddingMigrationRow, string[]>(
+        `SELECT ${MIGRATION_SELECT_COLUMNS}
+           FROM embedding_migrations
+          ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+          ORDER BY id DESC
+          LIMIT 1`
+      )
+      .get(...args)
+  );
+}
+
+export function updateEmbeddingMigration(
+  store: EmbeddingMigrationStore,
+  id: number,
+  progress: EmbeddingMigrationProgressInput
+) {
+  const current = getEmbeddingMigration(store, id);
+  if (!current) return null;
+  const status = progress.status || current.status;
+  const updatedAt = nowIso();
+  store.db
+    .prepare(
+      `UPDATE embedding_migrations
+          SET updated_at = ?,
+              completed_at = ?,
+              status = ?,
+              facts_done = ?,
+              facts_failed = ?,
+              fact_cursor = ?,
+              messages_done = ?,
+              messages_failed = ?,
+              message_cursor = ?,
+              transcripts_done = ?,
+              transcripts_failed = ?,
+              transcript_cursor = ?,
+              error_message = ?
+        WHERE id = ?`
+    )
+    .run(
+      updatedAt,
+      status === "running" ? null : current.completedAt || updatedAt,
+      status,
+      progress.factsDone ?? current.factsDone,
+      progress.factsFailed ?? current.factsFailed,
+      progress.factCursor ?? current.factCursor,
+      progress.messagesDone ?? current.messagesDone,
+      progress.messagesFailed ?? current.messagesFailed,
+      progress.messageCursor ?? current.messageCursor,
+      progress.transcriptsDone ?? current.transcriptsDone,
+      progress.transcriptsFailed ?? current.transcriptsFailed,
+      progress.transcriptCursor ?? current.transcriptCursor,
+      progress.errorMessage === undefined
+        ? current.errorMessage
+        : String(progress.errorMessage || "").slice(0, 2000) || null,
+      Number(id)
+    );
+  return getEmbeddingMigration(store, id);
+}
+
+/**
+ * Drops vectors from other models for rows that already have a vector under `model`, so the
+ * vector tables stop holding a mix once a migration has finished cleanly.
+ */
+export function pruneEmbeddingVectorsExceptModel(store: EmbeddingMigrationStore, model: string) {
+  const normalizedModel = normalizeModel(model);
+  if (!normalizedModel) return { factVectorsDeleted: 0, messageVectorsDeleted: 0, transcriptVectorsDeleted: 0 };
+  const pruneTx = store.db.transaction((targetModel: string) => {
+    const factVectorsDeleted = Number(
+      store.db
+        .prepare(
+          `DELETE FROM memory_fact_vectors_native
+            WHERE model <> ?
+              AND fact_id IN (SELECT fact_id FROM memory_fact_vectors_native WHERE model = ?)`
+        )
+        .run(targetModel, targetModel)?.changes || 0
+    );
+    const messageVectorsDeleted = Number(
+      store.db
+        .prepare(
+          `DELETE FROM message_vectors_native
+            WHERE model <> ?
+              AND message_id IN (SELECT message_id FROM message_vectors_native WHERE model = ?)`
+        )
+        .run(targetModel, targetModel)?.changes || 0
+    );
+    const transcriptVectorsDeleted = Number(
+      store.db
+        .prepare(
+          `DELETE FROM video_transcript_vectors_native
+            WHERE model <> ?
+              AND EXISTS (
+                SELECT 1 FROM video_transcript_vectors_native AS t
+                 WHERE t.video_key = video_transcript_vectors_native.video_key
+                   AND t.chunk_index = video_transcript_vectors_native.chunk_index
+                   AND t.model = ?
+              )`
+        )
+        .run(targetModel, targetModel)?.changes || 0
+    );
+    return { factVectorsDeleted, messageVectorsDeleted, transcriptVectorsDeleted };
+  });
+  return pruneTx(normalizedModel);
+}
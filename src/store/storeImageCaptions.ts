@@ -0,0 +1,311 @@
+// Extracted Store Methods
+import type { Database } from "bun:sqlite";
+
+import { clamp, nowIso } from "../utils.ts";
+import { isPerceptualHash, perceptualHashDistance } from "../vision/perceptualHash.ts";
+
+interface ImageCaptionStore {
+  db: Database;
+}
+
+const MAX_STORED_IMAGE_CAPTIONS = 5_000;
+const MAX_CAPTION_CHARS = 600;
+const MAX_SEARCH_TOKENS = 8;
+
+/** A persisted caption keyed by image fingerprint (see src/vision/perceptualHash.ts). */
+export type ImageCaptionRecord = {
+  imageHash: string;
+  caption: string;
+  provider: string | null;
+  model: string | null;
+  mimeType: string | null;
+  url: string | null;
+  guildId: string | null;
+  channelId: string | null;
+  messageId: string | null;
+  hitCount: number;
+  createdAt: string;
+  lastSeenAt: string;
+};
+
+/** Where a fingerprinted image was seen; one row per normalized URL. */
+export type ImageCaptionSighting = {
+  urlKey: string;
+  url: string;
+  guildId?: string | null;
+  channelId?: string | null;
+  messageId?: string | null;
+};
+
+interface ImageCaptionRow {
+  image_hash: string;
+  caption: string;
+  provider: string | null;
+  model: string | null;
+  mime_type: string | null;
+  url: string | null;
+  guild_id: string | null;
+  channel_id: string | null;
+  message_id: string | null;
+  hit_count: number;
+  created_at: string;
+  last_seen_at: string;
+}
+
+interface ImageCaptionHashRow {
+  image_hash: string;
+}
+
+const IMAGE_CAPTION_COLUMNS = `image_hash, caption, provider, model, mime_type, url, guild_id, channel_id,
+  message_id, hit_count, created_at, last_seen_at`;
+
+function optionalText(value: unknown, maxChars = 240) {
+  const text = String(value ?? "").trim();
+  return text ? text.slice(0, maxChars) : null;
+}
+
+function escapeSqlLikePattern(value: string) {
+  return String(value || "").replace(/[\\%_]/g, "\\$&");
+}
+
+function mapImageCaptionRow(row: ImageCaptionRow): ImageCaptionRecord {
+  return {
+    imageHash: row.image_hash,
+    caption: row.caption,
+    provider: row.provider,
+    model: row.model,
+    mimeType: row.mime_type,
+    url: row.url,
+    guildId: row.guild_id,
+    channelId: row.channel_id,
+    messageId: row.message_id,
+    hitCount: Number(row.hit_count) || 0,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at
+  };
+}
+
+export function getImageCaptionByHash(store: ImageCaptionStore, imageHash: string): ImageCaptionRecord | null {
+  const row = store.db
+    .prepare<ImageCaptionRow, [string]>(`SELECT ${IMAGE_CAPTION_COLUMNS} FROM image_captions WHERE image_hash = ?`)
+    .get(String(imageHash || ""));
+  return row ? mapImageCaptionRow(row) : null;
+}
+
+export function getImageCaptionByUrl(store: ImageCaptionStore, urlKey: string): ImageCaptionRecord | null {
+  const row = store.db
+    .prepare<ImageCaptionRow, [string]>(
+      `SELECT c.image_hash, c.caption, c.provider, c.model, c.mime_type, c.url, c.guild_id, c.channel_id,
+              c.message_id, c.hit_count, c.created_at, c.last_seen_at
+         FROM image_caption_urls u
+         JOIN image_captions c ON c.image_hash = u.image_hash
+        WHERE u.url_key = ?`
+    )
+    .get(String(urlKey || ""));
+  return row ? mapImageCaptionRow(row) : null;
+}
+
+/**
+ * Finds the stored caption whose fingerprint is closest to `imageHash`, within
+ * `maxDistance` bits. Byte-hash fingerprints only match exactly.
+ */
+export function findSimilarImageCaption(
+  store: ImageCaptionStore,
+  { imageHash, maxDistance }: { imageHash: string; maxDistance: number }
+): ImageCaptionRecord | null {
+  const exact = getImageCaptionByHash(store, imageHash);
+  if (exact || !isPerceptualHash(imageHash) || maxDistance <= 0) return exact;
+
+  // The table is capped, so a linear scan over the short hash column stays cheap.
+  const hashes = store.db
+    .prepare<ImageCaptionHashRow, []>("SELECT image_hash FROM image_captions WHERE image_hash LIKE 'dhash:%'")
+    .all();
+  let best: { imageHash: string; distance: number } | null = null;
+  for (const row of hashes) {
+    const distance = perceptualHashDistance(imageHash, row.image_hash);
+    if (distance > maxDistance) continue;
+    if (!best || distance < best.distance) best = { imageHash: row.image_hash, distance };
+  }
+  return best ? getImageCaptionByHash(store, best.imageHash) : null;
+}
+
+/** Links a URL to a stored caption and counts it as a cache hit. */
+export function recordImageCaptionSighting(
+  store: ImageCaptionStore,
+  { imageHash, sighting }: { imageHash: string; sighting: ImageCaptionSighting }
+) {
+  const seenAt = nowIso();
+  store.db
+    .prepare(
+      `INSERT INTO image_caption_urls(url_key, image_hash, url, guild_id, channel_id, message_id, seen_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(url_key) DO UPDATE SET
+         image_hash = excluded.image_hash,
+         url = excluded.url,
+         guild_id = COALESCE(excluded.guild_id, image_caption_urls.guild_id),
+         channel_id = COALESCE(excluded.channel_id, image_caption_urls.channel_id),
+         message_id = COALESCE(excluded.message_id, image_caption_urls.message_id),
+         seen_at = excluded.seen_at`
+    )
+    .run(
+      sighting.urlKey,
+      imageHash,
+      String(sighting.url || ""),
+      optionalText(sighting.guildId, 40),
+      optionalText(sighting.channelId, 40),
+      optionalText(sighting.messageId, 40),
+      seenAt
+    );
+  store.db
+    .prepare("UPDATE image_captions SET hit_count = hit_count + 1, last_seen_at = ? WHERE image_hash = ?")
+    .run(seenAt, imageHash);
+}
+
+export function saveImageCaption(
+  store: ImageCaptionStore,
+  {
+    imageHash,
+    caption,
+    provider = null,
+    model = null,
+    mimeType = null,
+    sighting
+  }: {
+    imageHash: string;
+    caption: string;
+    provider?: string | null;
+    model?: string | null;
+    mimeType?: string | null;
+    sighting: ImageCaptionSighting;
+  }
+) {
+  const normalizedCaption = String(caption || "").trim().slice(0, MAX_CAPTION_CHARS);
+  if (!imageHash || !normalizedCaption) return null;
+  const createdAt = nowIso();
+
+  store.db.transaction(() => {
+    store.db
+      .prepare(
+        `INSERT INTO image_captions(
+          image_hash, caption, provider, model, mime_type, url, guild_id, channel_id, message_id,
+          hit_count, created_at, last_seen_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
+        ON CONFLICT(image_hash) DO UPDATE SET
+          caption = excluded.caption,
+          provider = excluded.provider,
+          model = excluded.model,
+          mime_type = COALESCE(excluded.mime_type, image_captions.mime_type),
+          last_seen_at = excluded.last_seen_at`
+      )
+      .run(
+        imageHash,
+        normalizedCaption,
+        optionalText(provider, 80),
+        optionalText(model, 120),
+        optionalText(mimeType, 80),
+        String(sighting.url || ""),
+        optionalText(sighting.guildId, 40),
+        optionalText(sighting.channelId, 40),
+        optionalText(sighting.messageId, 40),
+        createdAt,
+        createdAt
+      );
+    store.db
+      .prepare(
+        `INSERT INTO image_caption_urls(url_key, image_hash, url, guild_id, channel_id, message_id, seen_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(url_key) DO UPDATE SET image_hash = excluded.image_hash, seen_at = excluded.seen_at`
+      )
+      .run(
+        sighting.urlKey,
+        imageHash,
+        String(sighting.url || ""),
+        optionalText(sighting.guildId, 40),
+        optionalText(sighting.channelId, 40),
+        optionalText(sighting.messageId, 40),
+        createdAt
+      );
+    pruneImageCaptions(store, { maxRows: MAX_STORED_IMAGE_CAPTIONS });
+  })();
+
+  return getImageCaptionByHash(store, imageHash);
+}
+
+/**
+ * Lexical search over stored captions, scoped to images seen in a guild (or,
+ * for DMs, in a channel). Returns one row per image with its latest sighting URL.
+ */
+export function searchImageCaptions(
+  store: ImageCaptionStore,
+  {
+    guildId = null,
+    channelId = null,
+    queryText = "",
+    queryTokens = [],
+    limit = 6
+  }: {
+    guildId?: string | null;
+    channelId?: string | null;
+    queryText?: string;
+    queryTokens?: string[];
+    limit?: number;
+  }
+): Array<ImageCaptionRecord & { score: number }> {
+  const scopeColumn = guildId ? "u.guild_id" : "u.channel_id";
+  const scopeValue = String(guildId || channelId || "").trim();
+  if (!scopeValue) return [];
+
+  const normalizedQueryText = String(queryText || "").trim();
+  const normalizedTokens = [
+    ...new Set((Array.isArray(queryTokens) ? queryTokens : []).map((value) => String(value || "").trim()).filter(Boolean))
+  ].slice(0, MAX_SEARCH_TOKENS);
+  if (!normalizedQueryText && !normalizedTokens.length) return [];
+
+  const scoreParts: string[] = [];
+  const scoreArgs: string[] = [];
+  if (normalizedQueryText) {
+    scoreParts.push("CASE WHEN c.caption LIKE ? ESCAPE '\\' COLLATE NOCASE THEN 6 ELSE 0 END");
+    scoreArgs.push(`%${escapeSqlLikePattern(normalizedQueryText)}%`);
+  }
+  for (const token of normalizedTokens) {
+    scoreParts.push("CASE WHEN c.caption LIKE ? ESCAPE '\\' COLLATE NOCASE THEN 2 ELSE 0 END");
+    scoreArgs.push(`%${escapeSqlLikePattern(token)}%`);
+  }
+
+  const rows = store.db
+    .prepare<ImageCaptionRow & { score: number }, Array<string | number>>(
+      `SELECT * FROM (
+         SELECT
+           c.image_hash, c.caption, c.provider, c.model, c.mime_type,
+           u.url, u.guild_id, u.channel_id, u.message_id,
+           c.hit_count, c.created_at, MAX(u.seen_at) AS last_seen_at,
+           (${scoreParts.join(" + ")}) AS score
+         FROM image_caption_urls u
+         JOIN image_captions c ON c.image_hash = u.image_hash
+         WHERE ${scopeColumn} = ?
+         GROUP BY c.image_hash
+       )
+       WHERE score > 0
+       ORDER BY score DESC, last_seen_at DESC
+       LIMIT ?`
+    )
+    .all(...scoreArgs, scopeValue, clamp(Math.floor(Number(limit) || 6), 1, 50));
+  return rows.map((row) => ({ ...mapImageCaptionRow(row), score: Number(row.score) || 0 }));
+}
+
+export function pruneImageCaptions(store: ImageCaptionStore, { maxRows = MAX_STORED_IMAGE_CAPTIONS } = {}) {
+  const deleted = store.db
+    .prepare(
+      `DELETE FROM image_captions
+        WHERE image_hash IN (
+          SELECT image_hash FROM image_captions ORDER BY last_seen_at DESC LIMIT -1 OFFSET ?
+        )`
+    )
+    .run(Math.max(1, Math.floor(Number(maxRows) || MAX_STORED_IMAGE_CAPTIONS)));
+  if (deleted.changes > 0) {
+    store.db
+      .prepare("DELETE FROM image_caption_urls WHERE image_hash NOT IN (SELECT image_hash FROM image_captions)")
+      .run();
+  }
+  return deleted.changes;
+}
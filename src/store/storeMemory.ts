@@ -62,6 +62,52 @@ interface MemoryFactSemanticSearchRow extends MemoryFactRow {
   semantic_score: number;
 }
 
+export const MEMORY_FACT_REVISION_ACTORS = ["reflection", "tool", "dashboard", "system"] as const;
+export type MemoryFactRevisionActor = (typeof MEMORY_FACT_REVISION_ACTORS)[number];
+export type MemoryFactRevisionAction =
+  | "created"
+  | "restored"
+  | "updated"
+  | "superseded"
+  | "rolled_back"
+  | "deleted"
+  | "archived";
+
+export interface MemoryFactRevisionRow {
+  id: number;
+  fact_id: number;
+  created_at: string;
+  action: MemoryFactRevisionAction;
+  actor: MemoryFactRevisionActor;
+  old_fact: string | null;
+  new_fact: string | null;
+  fact_type: string | null;
+  evidence_text: string | null;
+  confidence: number | null;
+  source_message_id: string | null;
+  rollback_revision_id: number | null;
+  source_author_name: string | null;
+  source_content: string | null;
+}
+
+interface MemoryFactSourceMessageRow {
+  message_id: string;
+  created_at: string;
+  channel_id: string;
+  author_id: string;
+  author_name: string;
+  content: string;
+}
+
+interface MemoryFactPriorRow {
+  id: number;
+  is_active: number;
+}
+
+export interface MemoryFactExportRow extends MemoryFactRow {
+  vector_models: string | null;
+}
+
 interface MemorySubjectRow {
   scope: MemoryFactScope;
   guild_id: string | null;
@@ -113,6 +159,87 @@ function deleteMemoryFactVectors(store: MemoryStore, factId: number) {
   return Number(result?.changes || 0);
 }
 
+function normalizeMemoryFactRevisionActor(value: unknown): MemoryFactRevisionActor {
+  const normalized = String(value || "").trim().toLowerCase();
+  return MEMORY_FACT_REVISION_ACTORS.find((actor) => actor === normalized) || "system";
+}
+
+function insertMemoryFactRevision(store: MemoryStore, {
+  factId,
+  action,
+  actor,
+  oldFact = null,
+  newFact = null,
+  factType = null,
+  evidenceText = null,
+  confidence = null,
+  sourceMessageId = null,
+  rollbackRevisionId = null,
+  createdAt = nowIso()
+}: {
+  factId: number;
+  action: MemoryFactRevisionAction;
+  actor: unknown;
+  oldFact?: string | null;
+  newFact?: string | null;
+  factType?: string | null;
+  evidenceText?: string | null;
+  confidence?: number | null;
+  sourceMessageId?: string | null;
+  rollbackRevisionId?: number | null;
+  createdAt?: string;
+}) {
+  store.db
+    .prepare(
+      `INSERT INTO memory_fact_revisions(
+          fact_id,
+          created_at,
+          action,
+          actor,
+          old_fact,
+          new_fact,
+          fact_type,
+          evidence_text,
+          confidence,
+          source_message_id,
+          rollback_revision_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      factId,
+      createdAt,
+      action,
+      normalizeMemoryFactRevisionActor(actor),
+      oldFact,
+      newFact,
+      factType,
+      evidenceText,
+      Number.isFinite(Number(confidence)) && confidence !== null ? Number(confidence) : null,
+      sourceMessageId ? String(sourceMessageId) : null,
+      rollbackRevisionId
+    );
+}
+
+// Facts written before revision tracking have no history; snapshot their current state
+// as the first revision so the pre-edit version stays restorable.
+function ensureMemoryFactBaselineRevision(store: MemoryStore, row: MemoryFactRow) {
+  const existing = store.db
+    .prepare<{ id: number }, [number]>("SELECT id FROM memory_fact_revisions WHERE fact_id = ? LIMIT 1")
+    .get(row.id);
+  if (existing) return;
+  insertMemoryFactRevision(store, {
+    factId: row.id,
+    action: "created",
+    actor: "system",
+    newFact: row.fact,
+    factType: row.fact_type,
+    evidenceText: row.evidence_text,
+    confidence: row.confidence,
+    sourceMessageId: row.source_message_id,
+    createdAt: row.created_at
+  });
+}
+
 const MEMORY_FACT_SELECT_COLUMNS = [
   "id",
   "created_at",
@@ -220,6 +347,21 @@ const normalizedUserId =
       return requestedUserId || normalizedSubject;
     })()
     : null;
+const prior = store.db
+  .prepare<MemoryFactPriorRow, Array<string | null>>(
+    `SELECT id, is_active
+         FROM memory_facts
+         WHERE scope = ?
+           AND COALESCE(guild_id, '') = COALESCE(?, '')
+           AND COALESCE(user_id, '') = COALESCE(?, '')
+           AND subject = ?
+           AND fact = ?
+         LIMIT 1`
+  )
+  .get(normalizedScope, normalizedGuildId || null, normalizedUserId, normalizedSubject, normalizedFact);
+const normalizedFactType = normalizeMemoryFactType(fact.factType);
+const normalizedEvidenceText = normalizeMemoryFactEvidence(fact.evidenceText);
+const sourceMessageId = fact.sourceMessageId ? String(fact.sourceMessageId) : null;
 const result = store.db
   .prepare(
     `INSERT INTO memory_facts(
@@ -258,13 +400,29 @@ const result = store.db
     normalizedUserId,
     normalizedSubject,
     normalizedFact,
-    normalizeMemoryFactType(fact.factType),
-    normalizeMemoryFactEvidence(fact.evidenceText),
-    fact.sourceMessageId ? String(fact.sourceMessageId) : null,
+    normalizedFactType,
+    normalizedEvidenceText,
+    sourceMessageId,
     confidence
   );
-
-return result.changes > 0;
+if (result.changes <= 0) return false;
+
+// Reinforcing an active fact leaves its text untouched, so only new or reactivated
+// rows get a revision.
+if (!prior || !prior.is_active) {
+  insertMemoryFactRevision(store, {
+    factId: prior ? Number(prior.id) : Number(result.lastInsertRowid),
+    action: prior ? "restored" : "created",
+    actor: fact.actor,
+    newFact: normalizedFact,
+    factType: normalizedFactType,
+    evidenceText: normalizedEvidenceText,
+    confidence,
+    sourceMessageId,
+    createdAt: now
+  });
+}
+return true;
 }
 
 export function getMemoryFactById(store: MemoryStore, factId, guildId = null, scope: MemoryFactScope | null = null) {
@@ -770,8 +928,61 @@ export function updateMemoryFact(store: MemoryStore, {
   fact,
   factType = "other",
   evidenceText = null,
-  confidence = 0.5
+  confidence = 0.5,
+  actor = "system",
+  sourceMessageId = null,
+  revisionAction = "updated"
+}: {
+  guildId?: string | null;
+  scope?: MemoryFactScope | null;
+  userId?: string | null;
+  factId: unknown;
+  subject: unknown;
+  fact: unknown;
+  factType?: unknown;
+  evidenceText?: unknown;
+  confidence?: unknown;
+  actor?: MemoryFactRevisionActor;
+  sourceMessageId?: string | null;
+  revisionAction?: "updated" | "superseded";
 }) {
+return writeMemoryFactUpdate(
+  store,
+  { guildId, scope, userId, factId, subject, fact, factType, evidenceText, confidence },
+  { action: revisionAction, actor, sourceMessageId, rollbackRevisionId: null }
+);
+}
+
+function writeMemoryFactUpdate(
+  store: MemoryStore,
+  {
+    guildId,
+    scope,
+    userId,
+    factId,
+    subject,
+    fact,
+    factType,
+    evidenceText,
+    confidence
+  }: {
+    guildId: string | null;
+    scope: MemoryFactScope | null;
+    userId: string | null;
+    factId: unknown;
+    subject: unknown;
+    fact: unknown;
+    factType: unknown;
+    evidenceText: unknown;
+    confidence: unknown;
+  },
+  revision: {
+    action: MemoryFactRevisionAction;
+    actor: unknown;
+    sourceMessageId: string | null;
+    rollbackRevisionId: number | null;
+  }
+) {
 const normalizedGuildId = String(guildId || "").trim();
 const normalizedScope = normalizeMemoryFactScope(scope, normalizedGuildId ? "guild" : "user");
 const factIdInt = Number(factId);
@@ -822,7 +1033,9 @@ if (Number.isInteger(Number(duplicate?.id)) && Number(duplicate.id) > 0) {
 const normalizedFactType = normalizeMemoryFactType(factType);
 const normalizedEvidenceText = normalizeMemoryFactEvidence(evidenceText);
 const normalizedConfidence = clamp(Number.isFinite(Number(confidence)) ? Number(confidence) : 0.5, 0, 1);
+const normalizedSourceMessageId = String(revision.sourceMessageId || "").trim() || null;
 const updatedAt = nowIso();
+ensureMemoryFactBaselineRevision(store, existing);
 const result = store.db
   .prepare(
     `UPDATE memory_facts
@@ -834,7 +1047,8 @@ const result = store.db
              fact = ?,
              fact_type = ?,
              evidence_text = ?,
-             confidence = ?
+             confidence = ?,
+             source_message_id = COALESCE(?, source_message_id)
          WHERE id = ?
            AND scope = ?
            AND IFNULL(guild_id, '') = IFNULL(?, '')
@@ -850,6 +1064,7 @@ const result = store.db
     normalizedFactType,
     normalizedEvidenceText,
     normalizedConfidence,
+    normalizedSourceMessageId,
     factIdInt,
     normalizedScope,
     normalizedGuildId || null
@@ -859,6 +1074,19 @@ if (Number(result?.changes || 0) <= 0) return { ok: false, reason: "not_found" }
 deleteMemoryFactVectors(store, factIdInt);
 const row = getMemoryFactById(store, factIdInt, normalizedGuildId || null, normalizedScope);
 if (!row) return { ok: false, reason: "not_found" } as const;
+insertMemoryFactRevision(store, {
+  factId: factIdInt,
+  action: revision.action,
+  actor: revision.actor,
+  oldFact: existing.fact,
+  newFact: row.fact,
+  factType: row.fact_type,
+  evidenceText: row.evidence_text,
+  confidence: row.confidence,
+  sourceMessageId: normalizedSourceMessageId,
+  rollbackRevisionId: revision.rollbackRevisionId,
+  createdAt: updatedAt
+});
 
 return {
   ok: true,
@@ -869,7 +1097,13 @@ return {
 export function deleteMemoryFact(store: MemoryStore, {
   guildId = null,
   scope = null,
-  factId
+  factId,
+  actor = "system"
+}: {
+  guildId?: string | null;
+  scope?: MemoryFactScope | null;
+  factId: unknown;
+  actor?: MemoryFactRevisionActor;
 }) {
 const normalizedGuildId = String(guildId || "").trim();
 const normalizedScope = normalizeMemoryFactScope(scope, normalizedGuildId ? "guild" : "user");
@@ -882,6 +1116,8 @@ if (!Number.isInteger(factIdInt) || factIdInt <= 0) {
   return { ok: false, reason: "invalid_fact_id", deleted: 0 } as const;
 }
 
+const existing = getMemoryFactById(store, factIdInt, normalizedGuildId || null, normalizedScope);
+const deletedAt = nowIso();
 const result = store.db
   .prepare(
     `UPDATE memory_facts
@@ -892,10 +1128,20 @@ const result = store.db
            AND IFNULL(guild_id, '') = IFNULL(?, '')
            AND is_active = 1`
   )
-  .run(nowIso(), factIdInt, normalizedScope, normalizedGuildId || null);
+  .run(deletedAt, factIdInt, normalizedScope, normalizedGuildId || null);
 const deleted = Number(result?.changes || 0);
 if (deleted > 0) {
   deleteMemoryFactVectors(store, factIdInt);
+  if (existing) {
+    ensureMemoryFactBaselineRevision(store, existing);
+    insertMemoryFactRevision(store, {
+      factId: factIdInt,
+      action: "deleted",
+      actor,
+      oldFact: existing.fact,
+      createdAt: deletedAt
+    });
+  }
 }
 return {
   ok: deleted > 0,
@@ -916,6 +1162,16 @@ if (!normalizedGuildId) {
 }
 
 const deleteTx = store.db.transaction((targetGuildId: string) => {
+  store.db
+    .prepare(
+      `DELETE FROM memory_fact_revisions
+         WHERE fact_id IN (
+           SELECT id
+             FROM memory_facts
+            WHERE guild_id = ?
+         )`
+    )
+    .run(targetGuildId);
   const vectorsDeleted = Number(
     store.db
       .prepare(
@@ -950,6 +1206,119 @@ return {
 } as const;
 }
 
+/**
+ * Hard-deletes user-scoped facts about one user, including their vectors and revision
+ * history, so a forgotten fact leaves no text behind. Without `factIds` every user-scoped
+ * fact (active or not) for the subject is removed.
+ */
+export function purgeMemoryFactsForUser(store: MemoryStore, {
+  userId,
+  factIds = null
+}: {
+  userId: string;
+  factIds?: number[] | null;
+}) {
+const normalizedUserId = String(userId || "").trim();
+if (!normalizedUserId) {
+  return {
+    ok: false,
+    reason: "user_required",
+    factIds: [] as number[],
+    factsDeleted: 0,
+    vectorsDeleted: 0
+  } as const;
+}
+
+const where = ["scope = 'user'", "subject = ?"];
+const args: Array<string | number> = [normalizedUserId];
+if (Array.isArray(factIds)) {
+  const normalizedFactIds = [...new Set(factIds.map((value) => Number(value)).filter((value) => Number.isInteger(value) && value > 0))];
+  if (!normalizedFactIds.length) {
+    return {
+      ok: false,
+      reason: "not_found",
+      factIds: [] as number[],
+      factsDeleted: 0,
+      vectorsDeleted: 0
+    } as const;
+  }
+  where.push(`id IN (${normalizedFactIds.map(() => "?").join(", ")})`);
+  args.push(...normalizedFactIds);
+}
+
+const purgeTx = store.db.transaction(() => {
+  const targetIds = store.db
+    .prepare<{ id: number }, Array<string | number>>(`SELECT id FROM memory_facts WHERE ${where.join(" AND ")}`)
+    .all(...args)
+    .map((row) => Number(row.id));
+  if (!targetIds.length) {
+    return { factIds: targetIds, factsDeleted: 0, vectorsDeleted: 0 };
+  }
+
+  const placeholders = targetIds.map(() => "?").join(", ");
+  store.db.prepare(`DELETE FROM memory_fact_revisions WHERE fact_id IN (${placeholders})`).run(...targetIds);
+  const vectorsDeleted = Number(
+    store.db.prepare(`DELETE FROM memory_fact_vectors_native WHERE fact_id IN (${placeholders})`).run(...targetIds)?.changes || 0
+  );
+  const factsDeleted = Number(
+    store.db.prepare(`DELETE FROM memory_facts WHERE id IN (${placeholders})`).run(...targetIds)?.changes || 0
+  );
+  return { factIds: targetIds, factsDeleted, vectorsDeleted };
+});
+
+const result = purgeTx();
+if (!result.factsDeleted) {
+  return {
+    ok: false,
+    reason: "not_found",
+    ...result
+  } as const;
+}
+return {
+  ok: true,
+  reason: "deleted",
+  ...result
+} as const;
+}
+
+/**
+ * Pages through every user-scoped fact about one user, behavioral and archived facts
+ * included, so the forget flow shows everything a forget-all would delete.
+ */
+export function listMemoryFactsForUser(store: MemoryStore, {
+  userId,
+  limit = 25,
+  offset = 0
+}: {
+  userId: string;
+  limit?: number;
+  offset?: number;
+}) {
+const normalizedUserId = String(userId || "").trim();
+if (!normalizedUserId) {
+  return { facts: [] as Array<MemoryFactRow & { is_active: number }>, total: 0 };
+}
+
+const totalRow = store.db
+  .prepare<{ count: number }, [string]>(
+    "SELECT COUNT(*) AS count FROM memory_facts WHERE scope = 'user' AND subject = ?"
+  )
+  .get(normalizedUserId);
+const facts = store.db
+  .prepare<MemoryFactRow & { is_active: number }, [string, number, number]>(
+    `SELECT ${MEMORY_FACT_SELECT_COLUMNS}, is_active
+         FROM memory_facts
+         WHERE scope = 'user' AND subject = ?
+         ORDER BY is_active DESC, id ASC
+         LIMIT ? OFFSET ?`
+  )
+  .all(normalizedUserId, clamp(Math.floor(Number(limit) || 0), 1, 200), Math.max(0, Math.floor(Number(offset) || 0)));
+return {
+  facts,
+  total: Number(totalRow?.count || 0)
+};
+}
+
 export function ensureSqliteVecReady(store: MemoryStore) {
 if (store.sqliteVecReady !== null) {
   return store.sqliteVecReady;
@@ -1171,8 +1540,178 @@ if (factType) {
 if (!staleIds.length) return 0;
 
 const placeholders = staleIds.map(() => "?").join(", ");
+const archivedAt = nowIso();
 const result = store.db
   .prepare(`UPDATE memory_facts SET is_active = 0, updated_at = ? WHERE id IN (${placeholders})`)
-  .run(nowIso(), ...staleIds);
+  .run(archivedAt, ...staleIds);
+store.db
+  .prepare(
+    `INSERT INTO memory_fact_revisions(fact_id, created_at, action, actor, old_fact)
+         SELECT id, ?, 'archived', 'system', fact
+           FROM memory_facts
+          WHERE id IN (${placeholders})`
+  )
+  .run(archivedAt, ...staleIds);
 return Number(result?.changes || 0);
 }
+
+export function getMemoryFactRevisions(store: MemoryStore, factId, limit = 50) {
+const factIdInt = Number(factId);
+if (!Number.isInteger(factIdInt) || factIdInt <= 0) return [];
+return store.db
+  .prepare<MemoryFactRevisionRow, [number, number]>(
+    `SELECT r.id,
+            r.fact_id,
+            r.created_at,
+            r.action,
+            r.actor,
+            r.old_fact,
+            r.new_fact,
+            r.fact_type,
+            r.evidence_text,
+            r.confidence,
+            r.source_message_id,
+            r.rollback_revision_id,
+            m.author_name AS source_author_name,
+            m.content AS source_content
+         FROM memory_fact_revisions r
+         LEFT JOIN messages m ON m.message_id = r.source_message_id
+         WHERE r.fact_id = ?
+         ORDER BY r.id DESC
+         LIMIT ?`
+  )
+  .all(factIdInt, clamp(Math.floor(Number(limit) || 50), 1, 200));
+}
+
+export function getMemoryFactHistory(store: MemoryStore, {
+  guildId = null,
+  scope = null,
+  factId,
+  limit = 50
+}: {
+  guildId?: string | null;
+  scope?: MemoryFactScope | null;
+  factId: unknown;
+  limit?: number;
+}) {
+const normalizedGuildId = String(guildId || "").trim();
+const normalizedScope = normalizeMemoryFactScope(scope, normalizedGuildId ? "guild" : "user");
+const fact = getMemoryFactById(store, factId, normalizedGuildId || null, normalizedScope);
+if (!fact) return null;
+
+const sourceMessage = fact.source_message_id
+  ? store.db
+    .prepare<MemoryFactSourceMessageRow, [string]>(
+      `SELECT message_id, created_at, channel_id, author_id, author_name, content
+           FROM messages
+           WHERE message_id = ?
+           LIMIT 1`
+    )
+    .get(fact.source_message_id) || null
+  : null;
+
+return {
+  fact,
+  sourceMessage,
+  revisions: getMemoryFactRevisions(store, fact.id, limit)
+};
+}
+
+export function rollbackMemoryFact(store: MemoryStore, {
+  guildId = null,
+  scope = null,
+  factId,
+  revisionId,
+  actor = "system"
+}: {
+  guildId?: string | null;
+  scope?: MemoryFactScope | null;
+  factId: unknown;
+  revisionId: unknown;
+  actor?: MemoryFactRevisionActor;
+}) {
+const normalizedGuildId = String(guildId || "").trim();
+const normalizedScope = normalizeMemoryFactScope(scope, normalizedGuildId ? "guild" : "user");
+const factIdInt = Number(factId);
+const revisionIdInt = Number(revisionId);
+if (!Number.isInteger(factIdInt) || factIdInt <= 0) return { ok: false, reason: "invalid_fact_id" } as const;
+if (!Number.isInteger(revisionIdInt) || revisionIdInt <= 0) {
+  return { ok: false, reason: "invalid_revision_id" } as const;
+}
+
+const target = store.db
+  .prepare<MemoryFactRevisionRow, [number, number]>(
+    `SELECT id, fact_id, new_fact, fact_type, evidence_text, confidence, source_message_id
+         FROM memory_fact_revisions
+         WHERE id = ?
+           AND fact_id = ?
+         LIMIT 1`
+  )
+  .get(revisionIdInt, factIdInt);
+if (!target) return { ok: false, reason: "revision_not_found" } as const;
+// Delete and archive revisions only record the text that was removed.
+if (!target.new_fact) return { ok: false, reason: "revision_not_restorable" } as const;
+
+const existing = getMemoryFactById(store, factIdInt, normalizedGuildId || null, normalizedScope);
+if (!existing) return { ok: false, reason: "not_found" } as const;
+
+return writeMemoryFactUpdate(
+  store,
+  {
+    guildId: normalizedGuildId || null,
+    scope: normalizedScope,
+    userId: existing.user_id,
+    factId: factIdInt,
+    subject: existing.subject,
+    fact: target.new_fact,
+    factType: target.fact_type || existing.fact_type,
+    evidenceText: target.evidence_text,
+    confidence: target.confidence ?? existing.confidence
+  },
+  {
+    action: "rolled_back",
+    actor,
+    sourceMessageId: target.source_message_id,
+    rollbackRevisionId: target.id
+  }
+);
+}
+
+export function getMemoryFactsForExport(store: MemoryStore, {
+  guildId = null,
+  userId = null
+}: {
+  guildId?: string | null;
+  userId?: string | null;
+}) {
+const normalizedGuildId = String(guildId || "").trim();
+const normalizedUserId = String(userId || "").trim();
+if (!normalizedGuildId && !normalizedUserId) return [];
+
+// Guild exports carry the guild's shared facts; user exports carry the user's
+// cross-guild facts. Naming both narrows the guild facts to that user's subject.
+const scopes: string[] = [];
+const args: string[] = [];
+if (normalizedGuildId) {
+  scopes.push(normalizedUserId ? "(f.scope = 'guild' AND f.guild_id = ? AND f.subject = ?)" : "(f.scope = 'guild' AND f.guild_id = ?)");
+  args.push(normalizedGuildId);
+  if (normalizedUserId) args.push(normalizedUserId);
+}
+if (normalizedUserId) {
+  scopes.push("(f.scope = 'user' AND f.user_id = ?)");
+  args.push(normalizedUserId);
+}
+
+return store.db
+  .prepare<MemoryFactExportRow, string[]>(
+    `SELECT ${MEMORY_FACT_SELECT_COLUMNS.split(", ").map((column) => `f.${column}`).join(", ")},
+            (SELECT GROUP_CONCAT(v.model, ',')
+               FROM memory_fact_vectors_native v
+              WHERE v.fact_id = f.id) AS vector_models
+         FROM memory_facts f
+         WHERE f.is_active = 1
+           AND (${scopes.join(" OR ")})
+         ORDER BY f.id ASC`
+  )
+  .all(...args);
+}
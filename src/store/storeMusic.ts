@@ -0,0 +1,628 @@
+// Extracted Store Methods
+import type { Database } from "bun:sqlite";
+
+import { clamp, nowIso } from "../utils.ts";
+import { safeJsonParse } from "../normalization/valueParsers.ts";
+
+interface MusicStore {
+  db: Database;
+}
+
+const MAX_STORED_QUEUE_TRACKS = 200;
+const MAX_PLAYLIST_TRACKS = 100;
+const MAX_PLAYLIST_NAME_CHARS = 80;
+
+export type MusicTrackRecord = {
+  id: string;
+  title: string;
+  artist: string | null;
+  durationMs: number | null;
+  platform: string;
+  externalUrl: string | null;
+};
+
+export type MusicQueueStateRecord = {
+  guildId: string;
+  voiceChannelId: string | null;
+  tracks: MusicTrackRecord[];
+  nowPlayingIndex: number | null;
+  isPaused: boolean;
+  volume: number;
+  updatedAt: string;
+};
+
+export type MusicPlayHistoryRecord = MusicTrackRecord & {
+  historyId: number;
+  playedAt: string;
+  guildId: string;
+  voiceChannelId: string | null;
+  requestedByUserId: string | null;
+  source: string | null;
+};
+
+export type MusicPlaylistRecord = {
+  id: number;
+  guildId: string;
+  name: string;
+  createdByUserId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  tracks: MusicTrackRecord[];
+};
+
+/** One indexed file under the local music library directory. */
+export type MusicLocalTrackRecord = {
+  filePath: string;
+  libraryDir: string;
+  relativePath: string;
+  mtimeMs: number;
+  sizeBytes: number;
+  title: string;
+  artist: string | null;
+  album: string | null;
+  durationMs: number | null;
+};
+
+/** Saved per-guild playback effects; the voice layer clamps values on read. */
+export type MusicPlaybackEffectsRecord = {
+  guildId: string;
+  crossfadeMs: number;
+  loudnessNormalization: boolean;
+  speed: number;
+  pitchSemitones: number;
+  bassBoostDb: number;
+  updatedByUserId: string | null;
+  updatedAt: string;
+};
+
+interface MusicQueueRow {
+  guild_id: string;
+  voice_channel_id: string | null;
+  tracks_json: string;
+  now_playing_index: number | null;
+  is_paused: number;
+  volume: number;
+  updated_at: string;
+}
+
+interface MusicPlayHistoryRow {
+  id: number;
+  created_at: string;
+  guild_id: string;
+  voice_channel_id: string | null;
+  track_id: string;
+  title: string;
+  artist: string | null;
+  platform: string;
+  external_url: string | null;
+  duration_ms: number | null;
+  requested_by_user_id: string | null;
+  source: string | null;
+}
+
+interface MusicPlaylistRow {
+  id: number;
+  guild_id: string;
+  name: string;
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+  tracks_json: string;
+}
+
+interface MusicLocalTrackRow {
+  file_path: string;
+  library_dir: string;
+  relative_path: string;
+  mtime_ms: number;
+  size_bytes: number;
+  title: string;
+  artist: string | null;
+  album: string | null;
+  duration_ms: number | null;
+}
+
+interface MusicPlaybackEffectsRow {
+  guild_id: string;
+  crossfade_ms: number;
+  loudness_normalization: number;
+  speed: number;
+  pitch_semitones: number;
+  bass_boost_db: number;
+  updated_by_user_id: string | null;
+  updated_at: string;
+}
+
+function optionalText(value: unknown, maxLen: number) {
+  const normalized = String(value ?? "").replace(/\s+/g, " ").trim().slice(0, maxLen);
+  return normalized || null;
+}
+
+export function normalizeMusicTrackRecord(value: unknown): MusicTrackRecord | null {
+  if (!value || typeof value !== "object") return null;
+  const entry = value as Record<string, unknown>;
+  const id = optionalText(entry.id, 180);
+  const title = optionalText(entry.title, 220);
+  if (!id || !title) return null;
+  const durationMs = Number(entry.durationMs);
+  return {
+    id,
+    title,
+    artist: optionalText(entry.artist, 220),
+    durationMs: Number.isFinite(durationMs) && durationMs >= 0 ? Math.round(durationMs) : null,
+    platform: optionalText(entry.platform, 32)?.toLowerCase() || "youtube",
+    externalUrl: optionalText(entry.externalUrl, 300)
+  };
+}
+
+function normalizeTrackList(value: unknown, maxTracks: number) {
+  return (Array.isArray(value) ? value : [])
+    .map((entry) => normalizeMusicTrackRecord(entry))
+    .filter((entry): entry is MusicTrackRecord => Boolean(entry))
+    .slice(0, maxTracks);
+}
+
+function parseTrackList(tracksJson: string, maxTracks: number) {
+  return normalizeTrackList(safeJsonParse(tracksJson, []), maxTracks);
+}
+
+/** Playlist names are matched case-insensitively within a guild. */
+export function normalizeMusicPlaylistName(value: unknown) {
+  return optionalText(value, MAX_PLAYLIST_NAME_CHARS);
+}
+
+function mapPlaylistRow(row: MusicPlaylistRow | null | undefined): MusicPlaylistRecord | null {
+  if (!row) return null;
+  return {
+    id: Number(row.id),
+    guildId: row.guild_id,
+    name: row.name,
+    createdByUserId: row.created_by_user_id || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    tracks: parseTrackList(row.tracks_json, MAX_PLAYLIST_TRACKS)
+  };
+}
+
+export function saveMusicQueueState(
+  store: MusicStore,
+  {
+    guildId,
+    voiceChannelId = null,
+    tracks,
+    nowPlayingIndex = null,
+    isPaused = false,
+    volume = 1
+  }: {
+    guildId: string;
+    voiceChannelId?: string | null;
+    tracks: unknown[];
+    nowPlayingIndex?: number | null;
+    isPaused?: boolean;
+    volume?: number;
+  }
+) {
+  const normalizedGuildId = optionalText(guildId, 120);
+  if (!normalizedGuildId) return null;
+  const normalizedTracks = normalizeTrackList(tracks, MAX_STORED_QUEUE_TRACKS);
+  const normalizedIndex =
+    Number.isInteger(nowPlayingIndex) && Number(nowPlayingIndex) >= 0 && Number(nowPlayingIndex) < normalizedTracks.length
+      ? Number(nowPlayingIndex)
+      : null;
+  store.db
+    .prepare(
+      `INSERT INTO music_queues(
+        guild_id,
+        voice_channel_id,
+        tracks_json,
+        now_playing_index,
+        is_paused,
+        volume,
+        updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(guild_id) DO UPDATE SET
+        voice_channel_id = excluded.voice_channel_id,
+        tracks_json = excluded.tracks_json,
+        now_playing_index = excluded.now_playing_index,
+        is_paused = excluded.is_paused,
+        volume = excluded.volume,
+        updated_at = excluded.updated_at`
+    )
+    .run(
+      normalizedGuildId,
+      optionalText(voiceChannelId, 120),
+      JSON.stringify(normalizedTracks),
+      normalizedIndex,
+      isPaused ? 1 : 0,
+      clamp(Number.isFinite(Number(volume)) ? Number(volume) : 1, 0, 1),
+      nowIso()
+    );
+  return getMusicQueueState(store, normalizedGuildId);
+}
+
+export function getMusicQueueState(store: MusicStore, guildId: string): MusicQueueStateRecord | null {
+  const row = store.db
+    .prepare<MusicQueueRow, [string]>(
+      `SELECT guild_id, voice_channel_id, tracks_json, now_playing_index, is_paused, volume, updated_at
+         FROM music_queues
+        WHERE guild_id = ?`
+    )
+    .get(String(guildId || "").trim());
+  if (!row) return null;
+  const tracks = parseTrackList(row.tracks_json, MAX_STORED_QUEUE_TRACKS);
+  const nowPlayingIndex = Number(row.now_playing_index);
+  return {
+    guildId: row.guild_id,
+    voiceChannelId: row.voice_channel_id || null,
+    tracks,
+    nowPlayingIndex:
+      row.now_playing_index != null && nowPlayingIndex >= 0 && nowPlayingIndex < tracks.length ? nowPlayingIndex : null,
+    isPaused: Boolean(row.is_paused),
+    volume: Number(row.volume) || 0,
+    updatedAt: row.updated_at
+  };
+}
+
+export function recordMusicPlay(
+  store: MusicStore,
+  {
+    guildId,
+    voiceChannelId = null,
+    track,
+    requestedByUserId = null,
+    source = null
+  }: {
+    guildId: string;
+    voiceChannelId?: string | null;
+    track: unknown;
+    requestedByUserId?: string | null;
+    source?: string | null;
+  }
+) {
+  const normalizedGuildId = optionalText(guildId, 120);
+  const normalizedTrack = normalizeMusicTrackRecord(track);
+  if (!normalizedGuildId || !normalizedTrack) return null;
+  const result = store.db
+    .prepare(
+      `INSERT INTO music_play_history(
+        created_at,
+        guild_id,
+        voice_channel_id,
+        track_id,
+        title,
+        artist,
+        platform,
+        external_url,
+        duration_ms,
+        requested_by_user_id,
+        source
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      nowIso(),
+      normalizedGuildId,
+      optionalText(voiceChannelId, 120),
+      normalizedTrack.id,
+      normalizedTrack.title,
+      normalizedTrack.artist,
+      normalizedTrack.platform,
+      normalizedTrack.externalUrl,
+      normalizedTrack.durationMs,
+      optionalText(requestedByUserId, 120),
+      optionalText(source, 80)
+    );
+  return Number(result.lastInsertRowid);
+}
+
+/** Play history for a guild, oldest first within the requested window. */
+export function getMusicPlayHistory(
+  store: MusicStore,
+  {
+    guildId,
+    sinceIso = null,
+    untilIso = null,
+    limit = 50
+  }: {
+    guildId: string;
+    sinceIso?: string | null;
+    untilIso?: string | null;
+    limit?: number;
+  }
+): MusicPlayHistoryRecord[] {
+  const where = ["guild_id = ?"];
+  const args: Array<string | number> = [String(guildId || "").trim()];
+  if (sinceIso) {
+    where.push("created_at >= ?");
+    args.push(String(sinceIso));
+  }
+  if (untilIso) {
+    where.push("created_at < ?");
+    args.push(String(untilIso));
+  }
+  args.push(clamp(Math.floor(Number(limit) || 50), 1, 500));
+  const rows = store.db
+    .prepare<MusicPlayHistoryRow, Array<string | number>>(
+      `SELECT * FROM (
+         SELECT id, created_at, guild_id, voice_channel_id, track_id, title, artist, platform,
+                external_url, duration_ms, requested_by_user_id, source
+           FROM music_play_history
+          WHERE ${where.join(" AND ")}
+          ORDER BY id DESC
+          LIMIT ?
+       ) ORDER BY id ASC`
+    )
+    .all(...args);
+  return rows.map((row) => ({
+    historyId: Number(row.id),
+    playedAt: row.created_at,
+    guildId: row.guild_id,
+    voiceChannelId: row.voice_channel_id || null,
+    id: row.track_id,
+    title: row.title,
+    artist: row.artist || null,
+    durationMs: row.duration_ms == null ? null : Number(row.duration_ms),
+    platform: row.platform,
+    externalUrl: row.external_url || null,
+    requestedByUserId: row.requested_by_user_id || null,
+    source: row.source || null
+  }));
+}
+
+export function saveMusicPlaylist(
+  store: MusicStore,
+  {
+    guildId,
+    name,
+    tracks,
+    createdByUserId = null
+  }: {
+    guildId: string;
+    name: string;
+    tracks: unknown[];
+    createdByUserId?: string | null;
+  }
+) {
+  const normalizedGuildId = optionalText(guildId, 120);
+  const normalizedName = normalizeMusicPlaylistName(name);
+  const normalizedTracks = normalizeTrackList(tracks, MAX_PLAYLIST_TRACKS);
+  if (!normalizedGuildId || !normalizedName || !normalizedTracks.length) return null;
+  const timestamp = nowIso();
+  store.db
+    .prepare(
+      `INSERT INTO music_playlists(
+        guild_id,
+        name,
+        name_key,
+        created_by_user_id,
+        created_at,
+        updated_at,
+        tracks_json
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(guild_id, name_key) DO UPDATE SET
+        name = excluded.name,
+        updated_at = excluded.updated_at,
+        tracks_json = excluded.tracks_json`
+    )
+    .run(
+      normalizedGuildId,
+      normalizedName,
+      normalizedName.toLowerCase(),
+      optionalText(createdByUserId, 120),
+      timestamp,
+      timestamp,
+      JSON.stringify(normalizedTracks)
+    );
+  return getMusicPlaylist(store, { guildId: normalizedGuildId, name: normalizedName });
+}
+
+export function getMusicPlaylist(store: MusicStore, { guildId, name }: { guildId: string; name: string }) {
+  const normalizedName = normalizeMusicPlaylistName(name);
+  if (!normalizedName) return null;
+  return mapPlaylistRow(
+    store.db
+      .prepare<MusicPlaylistRow, [string, string]>(
+        `SELECT id, guild_id, name, created_by_user_id, created_at, updated_at, tracks_json
+           FROM music_playlists
+          WHERE guild_id = ? AND name_key = ?`
+      )
+      .get(String(guildId || "").trim(), normalizedName.toLowerCase())
+  );
+}
+
+export function listMusicPlaylists(store: MusicStore, guildId: string) {
+  return store.db
+    .prepare<MusicPlaylistRow, [string]>(
+      `SELECT id, guild_id, name, created_by_user_id, created_at, updated_at, tracks_json
+         FROM music_playlists
+        WHERE guild_id = ?
+        ORDER BY name_key ASC`
+    )
+    .all(String(guildId || "").trim())
+    .map((row) => mapPlaylistRow(row))
+    .filter((row): row is MusicPlaylistRecord => Boolean(row));
+}
+
+export function deleteMusicPlaylist(store: MusicStore, { guildId, name }: { guildId: string; name: string }) {
+  const normalizedName = normalizeMusicPlaylistName(name);
+  if (!normalizedName) return false;
+  const result = store.db
+    .prepare("DELETE FROM music_playlists WHERE guild_id = ? AND name_key = ?")
+    .run(String(guildId || "").trim(), normalizedName.toLowerCase());
+  return Number(result?.changes || 0) > 0;
+}
+
+function mapLocalTrackRow(row: MusicLocalTrackRow): MusicLocalTrackRecord {
+  return {
+    filePath: row.file_path,
+    libraryDir: row.library_dir,
+    relativePath: row.relative_path,
+    mtimeMs: Number(row.mtime_ms) || 0,
+    sizeBytes: Number(row.size_bytes) || 0,
+    title: row.title,
+    artist: row.artist || null,
+    album: row.album || null,
+    durationMs: row.duration_ms == null ? null : Number(row.duration_ms)
+  };
+}
+
+export function listMusicLocalTracks(store: MusicStore, libraryDir: string): MusicLocalTrackRecord[] {
+  return store.db
+    .prepare<MusicLocalTrackRow, [string]>(
+      `SELECT file_path, library_dir, relative_path, mtime_ms, size_bytes, title, artist, album, duration_ms
+         FROM music_local_tracks
+        WHERE library_dir = ?
+        ORDER BY relative_path ASC`
+    )
+    .all(String(libraryDir || ""))
+    .map((row) => mapLocalTrackRow(row));
+}
+
+export function getMusicLocalTrack(store: MusicStore, filePath: string): MusicLocalTrackRecord | null {
+  const row = store.db
+    .prepare<MusicLocalTrackRow, [string]>(
+      `SELECT file_path, library_dir, relative_path, mtime_ms, size_bytes, title, artist, album, duration_ms
+         FROM music_local_tracks
+        WHERE file_path = ?`
+    )
+    .get(String(filePath || ""));
+  return row ? mapLocalTrackRow(row) : null;
+}
+
+export function upsertMusicLocalTracks(store: MusicStore, tracks: MusicLocalTrackRecord[]) {
+  if (!Array.isArray(tracks) || !tracks.length) return 0;
+  const statement = store.db.prepare(
+    `INSERT INTO music_local_tracks(
+      file_path,
+      library_dir,
+      relative_path,
+      mtime_ms,
+      size_bytes,
+      title,
+      artist,
+      album,
+      duration_ms,
+      indexed_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(file_path) DO UPDATE SET
+      library_dir = excluded.library_dir,
+      relative_path = excluded.relative_path,
+      mtime_ms = excluded.mtime_ms,
+      size_bytes = excluded.size_bytes,
+      title = excluded.title,
+      artist = excluded.artist,
+      album = excluded.album,
+      duration_ms = excluded.duration_ms,
+      indexed_at = excluded.indexed_at`
+  );
+  const upsertTx = store.db.transaction((rows: MusicLocalTrackRecord[], indexedAt: string) => {
+    for (const track of rows) {
+      statement.run(
+        track.filePath,
+        track.libraryDir,
+        track.relativePath,
+        Math.round(Number(track.mtimeMs) || 0),
+        Math.round(Number(track.sizeBytes) || 0),
+        optionalText(track.title, 220) || track.relativePath,
+        optionalText(track.artist, 220),
+        optionalText(track.album, 220),
+        Number.isFinite(Number(track.durationMs)) && track.durationMs != null ? Math.round(Number(track.durationMs)) : null,
+        indexedAt
+      );
+    }
+  });
+  upsertTx(tracks, nowIso());
+  return tracks.length;
+}
+
+export function deleteMusicLocalTracks(store: MusicStore, filePaths: string[]) {
+  if (!Array.isArray(filePaths) || !filePaths.length) return 0;
+  const statement = store.db.prepare("DELETE FROM music_local_tracks WHERE file_path = ?");
+  const deleteTx = store.db.transaction((paths: string[]) => {
+    let deleted = 0;
+    for (const filePath of paths) {
+      deleted += Number(statement.run(String(filePath)).changes || 0);
+    }
+    return deleted;
+  });
+  return deleteTx(filePaths);
+}
+
+export function getMusicPlaybackEffects(store: MusicStore, guildId: string): MusicPlaybackEffectsRecord | null {
+  const row = store.db
+    .prepare<MusicPlaybackEffectsRow, [string]>(
+      `SELECT guild_id, crossfade_ms, loudness_normalization, speed, pitch_semitones, bass_boost_db,
+              updated_by_user_id, updated_at
+         FROM music_playback_effects
+        WHERE guild_id = ?`
+    )
+    .get(String(guildId || "").trim());
+  if (!row) return null;
+  return {
+    guildId: row.guild_id,
+    crossfadeMs: Number(row.crossfade_ms) || 0,
+    loudnessNormalization: Boolean(row.loudness_normalization),
+    speed: Number(row.speed) || 1,
+    pitchSemitones: Number(row.pitch_semitones) || 0,
+    bassBoostDb: Number(row.bass_boost_db) || 0,
+    updatedByUserId: row.updated_by_user_id || null,
+    updatedAt: row.updated_at
+  };
+}
+
+export function saveMusicPlaybackEffects(
+  store: MusicStore,
+  {
+    guildId,
+    crossfadeMs,
+    loudnessNormalization,
+    speed,
+    pitchSemitones,
+    bassBoostDb,
+    updatedByUserId = null
+  }: {
+    guildId: string;
+    crossfadeMs: number;
+    loudnessNormalization: boolean;
+    speed: number;
+    pitchSemitones: number;
+    bassBoostDb: number;
+    updatedByUserId?: string | null;
+  }
+) {
+  const normalizedGuildId = optionalText(guildId, 120);
+  if (!normalizedGuildId) return null;
+  const finiteOr = (value: unknown, fallback: number) =>
+    Number.isFinite(Number(value)) ? Number(value) : fallback;
+  store.db
+    .prepare(
+      `INSERT INTO music_playback_effects(
+        guild_id,
+        crossfade_ms,
+        loudness_normalization,
+        speed,
+        pitch_semitones,
+        bass_boost_db,
+        updated_by_user_id,
+        updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(guild_id) DO UPDATE SET
+        crossfade_ms = excluded.crossfade_ms,
+        loudness_normalization = excluded.loudness_normalization,
+        speed = excluded.speed,
+        pitch_semitones = excluded.pitch_semitones,
+        bass_boost_db = excluded.bass_boost_db,
+        updated_by_user_id = excluded.updated_by_user_id,
+        updated_at = excluded.updated_at`
+    )
+    .run(
+      normalizedGuildId,
+      Math.max(0, Math.round(finiteOr(crossfadeMs, 0))),
+      loudnessNormalization ? 1 : 0,
+      finiteOr(speed, 1),
+      finiteOr(pitchSemitones, 0),
+      finiteOr(bassBoostDb, 0),
+      optionalText(updatedByUserId, 120),
+      nowIso()
+    );
+  return getMusicPlaybackEffects(store, normalizedGuildId);
+}
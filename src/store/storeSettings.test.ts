@@ -82,3 +82,152 @@ test("replaceSettingsWithVersion restores fields that were set back to defaults"
     store.close();
   }
 });
+
+test("settings overlays layer guild then channel values over the global settings", () => {
+  const store = new Store(":memory:");
+  store.init();
+
+  try {
+    store.setSettings({
+      identity: { botName: "global bot" },
+      initiative: { text: { eagerness: 20 } }
+    });
+    store.setSettingsOverlay({
+      guildId: "guild-1",
+      patch: {
+        persona: { flavor: "guild flavor" },
+        initiative: { text: { eagerness: 80 } },
+        memory: { enabled: false }
+      }
+    });
+    store.setSettingsOverlay({
+      guildId: "guild-1",
+      channelId: "channel-1",
+      patch: { initiative: { text: { eagerness: 5 } } }
+    });
+
+    const guildSettings = store.getScopedSettings({ guildId: "guild-1" });
+    assert.equal(guildSettings.identity.botName, "global bot");
+    assert.equal(guildSettings.persona.flavor, "guild flavor");
+    assert.equal(guildSettings.initiative.text.eagerness, 80);
+    assert.equal(guildSettings.memory.enabled, store.getSettings().memory.enabled);
+
+    const channelSettings = store.getScopedSettings({ guildId: "guild-1", channelId: "channel-1" });
+    assert.equal(channelSettings.persona.flavor, "guild flavor");
+    assert.equal(channelSettings.initiative.text.eagerness, 5);
+
+    const otherGuild = store.getScopedSettings({ guildId: "guild-2", channelId: "channel-1" });
+    assert.equal(otherGuild.initiative.text.eagerness, 20);
+
+    assert.deepEqual(
+      store.getSettingsOverlays().map((overlay) => [overlay.guildId, overlay.channelId]),
+      [["guild-1", null], ["guild-1", "channel-1"]]
+    );
+    assert.equal(store.getSettingsOverlay({ guildId: "guild-1" })?.patch.memory, undefined);
+    assert.equal(store.getSettings().initiative.text.eagerness, 20);
+  } finally {
+    store.close();
+  }
+});
+
+test("setSettingsOverlay with an empty patch removes the overlay", () => {
+  const store = new Store(":memory:");
+  store.init();
+
+  try {
+    store.setSettingsOverlay({ guildId: "guild-1", patch: { persona: { flavor: "temp" } } });
+    assert.ok(store.getSettingsOverlay({ guildId: "guild-1" }));
+
+    assert.equal(store.setSettingsOverlay({ guildId: "guild-1", patch: { agentStack: { preset: "openai_api" } } }), null);
+    assert.equal(store.getSettingsOverlay({ guildId: "guild-1" }), null);
+    assert.equal(store.deleteSettingsOverlay({ guildId: "guild-1" }), false);
+  } finally {
+    store.close();
+  }
+});
+
+test("settings writes record attributed versions that can be restored", () => {
+  const store = new Store(":memory:");
+  store.init();
+
+  try {
+    store.setSettings({ identity: { botName: "first" } }, { actor: "dashboard", actorLabel: "local" });
+    store.patchSettings(
+      { permissions: { replies: { maxMessagesPerHour: 12 } } },
+      { actor: "conversation", actorLabel: "channel:c-1", source: "initiative_source_add" }
+    );
+    store.patchSettings({ permissions: { replies: { maxMessagesPerHour: 12 } } });
+
+    const versions = store.listSettingsVersions();
+    assert.deepEqual(versions.map((version) => version.actor), ["conversation", "dashboard", "system"]);
+    assert.equal(versions[2]?.source, "baseline");
+    assert.equal(versions[1]?.actorLabel, "local");
+    assert.deepEqual(versions[1]?.changedPaths, ["identity.botName"]);
+    assert.deepEqual(versions[0]?.changedPaths, ["permissions.replies.maxMessagesPerHour"]);
+
+    const target = store.getSettingsVersion(versions[1]?.id ?? 0);
+    assert.ok(target);
+    const current = store.getSettingsRecord();
+    const restored = store.replaceSettingsWithVersion(target.intent, current.updatedAt, {
+      actor: "rollback",
+      rollbackVersionId: target.id
+    });
+
+    assert.equal(restored.ok, true);
+    assert.equal(restored.settings.identity.botName, "first");
+    assert.equal(
+      restored.settings.permissions.replies.maxMessagesPerHour,
+      normalizeSettings({}).permissions.replies.maxMessagesPerHour
+    );
+    const [latest] = store.listSettingsVersions({ limit: 1 });
+    assert.equal(latest?.actor, "rollback");
+    assert.equal(latest?.rollbackVersionId, target.id);
+    assert.equal(store.getPreviousSettingsVersion(latest?.id ?? 0)?.id, versions[0]?.id);
+  } finally {
+    store.close();
+  }
+});
+
+test("overlay writes record scoped versions without touching global history", () => {
+  const store = new Store(":memory:");
+  store.init();
+
+  try {
+    store.setSettings({ identity: { botName: "global" } }, { actor: "dashboard" });
+    store.setSettingsOverlay(
+      { guildId: "guild-1", patch: { persona: { flavor: "guild flavor" } } },
+      { actor: "dashboard", actorLabel: "local", source: "dashboard_overlay" }
+    );
+    store.setSettingsOverlay({ guildId: "guild-1", channelId: "chan-1", patch: { persona: { flavor: "channel" } } });
+    store.deleteSettingsOverlay({ guildId: "guild-1" }, { actor: "dashboard", source: "dashboard_overlay" });
+
+    const versions = store.listSettingsVersions();
+    assert.deepEqual(
+      versions.map((version) => [version.actor, version.scope]),
+      [
+        ["dashboard", { guildId: "guild-1", channelId: null }],
+        ["system", { guildId: "guild-1", channelId: "chan-1" }],
+        ["system", { guildId: "guild-1", channelId: "chan-1" }],
+        ["dashboard", { guildId: "guild-1", channelId: null }],
+        ["system", { guildId: "guild-1", channelId: null }],
+        ["dashboard", null],
+        ["system", null]
+      ]
+    );
+    const [cleared, , , saved] = versions;
+    assert.deepEqual(cleared?.changedPaths, ["persona"]);
+    assert.equal(saved?.actorLabel, "local");
+    assert.deepEqual(store.getSettingsVersion(cleared?.id ?? 0)?.intent, {});
+    assert.equal(store.getPreviousSettingsVersion(cleared?.id ?? 0)?.id, saved?.id);
+
+    const target = store.getSettingsVersion(saved?.id ?? 0);
+    assert.ok(target?.scope);
+    store.setSettingsOverlay({ ...target.scope, patch: target.intent }, { actor: "rollback", rollbackVersionId: target.id });
+    assert.deepEqual(store.getSettingsOverlay({ guildId: "guild-1" })?.patch, { persona: { flavor: "guild flavor" } });
+    const [latest] = store.listSettingsVersions({ limit: 1 });
+    assert.equal(latest?.rollbackVersionId, target.id);
+    assert.deepEqual(latest?.scope, { guildId: "guild-1", channelId: null });
+  } finally {
+    store.close();
+  }
+});
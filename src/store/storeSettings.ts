@@ -5,16 +5,27 @@ import { deepMerge, nowIso } from "../utils.ts";
 import { SETTINGS_KEY } from "./store.ts";
 import { isRecord } from "./normalize/primitives.ts";
 import { safeJsonParse } from "../normalization/valueParsers.ts";
-import { DEFAULT_SETTINGS, type SettingsInput } from "../settings/settingsSchema.ts";
+import {
+  DEFAULT_SETTINGS,
+  type SettingsInput,
+  type SettingsOverlay,
+  type SettingsOverlayScope
+} from "../settings/settingsSchema.ts";
 import { normalizeSettings } from "./settingsNormalization.ts";
 import { minimizeSettingsIntent } from "../settings/settingsIntent.ts";
+import { resolveScopedSettings, sanitizeSettingsOverlayPatch } from "../settings/agentStack.ts";
+import {
+  recordSettingsOverlayVersion,
+  recordSettingsVersion,
+  type SettingsWriteOrigin
+} from "./storeSettingsHistory.ts";
 
 type RuntimeSettings = ReturnType<typeof normalizeSettings>;
 
 interface SettingsStore {
   db: Database;
   getSettings(): RuntimeSettings;
-  setSettings(next: unknown): RuntimeSettings;
+  setSettings(next: unknown, origin?: SettingsWriteOrigin | null): RuntimeSettings;
 }
 
 interface SettingsValueRow {
@@ -22,6 +33,12 @@ interface SettingsValueRow {
   updated_at?: string;
 }
 
+interface SettingsOverlayRow {
+  key: string;
+  value: string;
+  updated_at: string;
+}
+
 interface RuntimeSettingsRecord {
   intent: SettingsInput;
   settings: RuntimeSettings;
@@ -40,6 +57,7 @@ type VersionedSettingsWriteResult =
     } & RuntimeSettingsRecord);
 
 const CANONICAL_DEFAULT_SETTINGS_INTENT = minimizeSettingsIntent({});
+const SETTINGS_OVERLAY_KEY_PREFIX = "runtime_settings_overlay:";
 
 function mergeSettingsPatch(current: SettingsInput, patch: unknown): SettingsInput {
   const patchRecord = isRecord(patch) ? patch : {};
@@ -87,24 +105,32 @@ export function getSettingsRecord(store: SettingsStore): RuntimeSettingsRecord {
   };
 }
 
-export function setSettings(store: SettingsStore, next) {
+export function setSettings(store: SettingsStore, next, origin: SettingsWriteOrigin | null = null) {
+  const previous = getSettingsRecord(store);
   const intent = minimizeSettingsIntent(next);
   const normalized = normalizeSettings(intent);
   store.db
     .prepare("UPDATE settings SET value = ?, updated_at = ? WHERE key = ?")
     .run(JSON.stringify(intent), nowIso(), SETTINGS_KEY);
+  recordSettingsVersion(store, {
+    previousIntent: previous.intent,
+    previousUpdatedAt: previous.updatedAt,
+    intent,
+    origin
+  });
   return normalized;
 }
 
-export function patchSettings(store: SettingsStore, patch) {
+export function patchSettings(store: SettingsStore, patch, origin: SettingsWriteOrigin | null = null) {
   const current = getSettingsRecord(store);
-  return store.setSettings(mergeSettingsPatch(current.intent, patch));
+  return store.setSettings(mergeSettingsPatch(current.intent, patch), origin);
 }
 
 export function patchSettingsWithVersion(
   store: SettingsStore,
   patch: unknown,
-  expectedUpdatedAt: string
+  expectedUpdatedAt: string,
+  origin: SettingsWriteOrigin | null = null
 ): VersionedSettingsWriteResult {
   const current = getSettingsRecord(store);
   if (current.updatedAt && expectedUpdatedAt !== current.updatedAt) {
@@ -128,6 +154,12 @@ export function patchSettingsWithVersion(
     };
   }
 
+  recordSettingsVersion(store, {
+    previousIntent: current.intent,
+    previousUpdatedAt: current.updatedAt,
+    intent: nextIntent,
+    origin
+  });
   return {
     ok: true,
     intent: nextIntent,
@@ -139,7 +171,8 @@ export function patchSettingsWithVersion(
 export function replaceSettingsWithVersion(
   store: SettingsStore,
   next: unknown,
-  expectedUpdatedAt: string
+  expectedUpdatedAt: string,
+  origin: SettingsWriteOrigin | null = null
 ): VersionedSettingsWriteResult {
   const current = getSettingsRecord(store);
   if (current.updatedAt && expectedUpdatedAt !== current.updatedAt) {
@@ -163,6 +196,12 @@ export function replaceSettingsWithVersion(
     };
   }
 
+  recordSettingsVersion(store, {
+    previousIntent: current.intent,
+    previousUpdatedAt: current.updatedAt,
+    intent: nextIntent,
+    origin
+  });
   return {
     ok: true,
     intent: nextIntent,
@@ -171,6 +210,117 @@ export function replaceSettingsWithVersion(
   };
 }
 
-export function resetSettings(store: SettingsStore) {
-  return store.setSettings(CANONICAL_DEFAULT_SETTINGS_INTENT);
+export function resetSettings(store: SettingsStore, origin: SettingsWriteOrigin | null = null) {
+  return store.setSettings(CANONICAL_DEFAULT_SETTINGS_INTENT, origin);
+}
+
+function normalizeOverlayScope(scope: SettingsOverlayScope | null | undefined) {
+  const guildId = String(scope?.guildId || "").trim();
+  const channelId = String(scope?.channelId || "").trim() || null;
+  return { guildId, channelId };
+}
+
+function buildSettingsOverlayKey(guildId: string, channelId: string | null) {
+  return `${SETTINGS_OVERLAY_KEY_PREFIX}${guildId}${channelId ? `:${channelId}` : ""}`;
+}
+
+function toSettingsOverlay(row: SettingsOverlayRow): SettingsOverlay | null {
+  const [guildId = "", channelId = ""] = String(row.key || "").slice(SETTINGS_OVERLAY_KEY_PREFIX.length).split(":");
+  if (!guildId) return null;
+  return {
+    guildId,
+    channelId: channelId || null,
+    patch: sanitizeSettingsOverlayPatch(safeJsonParse(row.value, {})),
+    updatedAt: String(row.updated_at || "")
+  };
+}
+
+export function getSettingsOverlays(store: SettingsStore, { guildId = null }: { guildId?: string | null } = {}) {
+  const normalizedGuildId = String(guildId || "").trim();
+  const pattern = normalizedGuildId
+    ? `${SETTINGS_OVERLAY_KEY_PREFIX}${normalizedGuildId}%`
+    : `${SETTINGS_OVERLAY_KEY_PREFIX}%`;
+  const rows = store.db
+    .prepare<SettingsOverlayRow, [string]>("SELECT key, value, updated_at FROM settings WHERE key LIKE ? ORDER BY key ASC")
+    .all(pattern);
+  return rows
+    .map((row) => toSettingsOverlay(row))
+    .filter((overlay): overlay is SettingsOverlay =>
+      Boolean(overlay) && (!normalizedGuildId || overlay.guildId === normalizedGuildId)
+    );
+}
+
+export function getSettingsOverlay(store: SettingsStore, scope: SettingsOverlayScope): SettingsOverlay | null {
+  const { guildId, channelId } = normalizeOverlayScope(scope);
+  if (!guildId) return null;
+  const row = store.db
+    .prepare<SettingsOverlayRow, [string]>("SELECT key, value, updated_at FROM settings WHERE key = ?")
+    .get(buildSettingsOverlayKey(guildId, channelId));
+  return row ? toSettingsOverlay(row) : null;
+}
+
+export function setSettingsOverlay(
+  store: SettingsStore,
+  { guildId, channelId = null, patch }: SettingsOverlayScope & { patch: unknown },
+  origin: SettingsWriteOrigin | null = null
+): SettingsOverlay | null {
+  const scope = normalizeOverlayScope({ guildId, channelId });
+  if (!scope.guildId) return null;
+  const sanitized = sanitizeSettingsOverlayPatch(patch);
+  if (!Object.keys(sanitized).length) {
+    deleteSettingsOverlay(store, scope, origin);
+    return null;
+  }
+  const previous = getSettingsOverlay(store, scope);
+  const updatedAt = nowIso();
+  store.db
+    .prepare(
+      `INSERT INTO settings(key, value, updated_at) VALUES(?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+    )
+    .run(buildSettingsOverlayKey(scope.guildId, scope.channelId), JSON.stringify(sanitized), updatedAt);
+  recordSettingsOverlayVersion(store, {
+    scope,
+    previousPatch: previous?.patch || {},
+    previousUpdatedAt: previous?.updatedAt || null,
+    patch: sanitized,
+    origin
+  });
+  return {
+    guildId: scope.guildId,
+    channelId: scope.channelId,
+    patch: sanitized,
+    updatedAt
+  };
+}
+
+export function deleteSettingsOverlay(
+  store: SettingsStore,
+  scope: SettingsOverlayScope,
+  origin: SettingsWriteOrigin | null = null
+) {
+  const { guildId, channelId } = normalizeOverlayScope(scope);
+  if (!guildId) return false;
+  const previous = getSettingsOverlay(store, { guildId, channelId });
+  const result = store.db
+    .prepare("DELETE FROM settings WHERE key = ?")
+    .run(buildSettingsOverlayKey(guildId, channelId));
+  const deleted = Number(result.changes || 0) > 0;
+  if (deleted) {
+    recordSettingsOverlayVersion(store, {
+      scope: { guildId, channelId },
+      previousPatch: previous?.patch || {},
+      previousUpdatedAt: previous?.updatedAt || null,
+      patch: {},
+      origin
+    });
+  }
+  return deleted;
+}
+
+export function getScopedSettings(store: SettingsStore, scope: SettingsOverlayScope | null | undefined) {
+  const settings = store.getSettings();
+  const { guildId } = normalizeOverlayScope(scope);
+  if (!guildId) return settings;
+  return resolveScopedSettings(settings, getSettingsOverlays(store, { guildId }), scope);
 }
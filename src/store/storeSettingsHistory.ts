@@ -0,0 +1,296 @@
+// Extracted Store Methods
+import type { Database } from "bun:sqlite";
+
+import { clamp, nowIso } from "../utils.ts";
+import { safeJsonParse } from "../normalization/valueParsers.ts";
+import type { SettingsInput, SettingsOverlayScope } from "../settings/settingsSchema.ts";
+import { diffSettings } from "../settings/settingsDiff.ts";
+import { normalizeSettings } from "./settingsNormalization.ts";
+
+interface SettingsHistoryStore {
+  db: Database;
+}
+
+export const SETTINGS_VERSION_ACTORS = ["dashboard", "conversation", "preset", "rollback", "system"] as const;
+export type SettingsVersionActor = (typeof SETTINGS_VERSION_ACTORS)[number];
+
+/** Who wrote a settings snapshot; recorded with every global or overlay settings write. */
+export type SettingsWriteOrigin = {
+  actor: SettingsVersionActor;
+  actorLabel?: string | null;
+  source?: string | null;
+  rollbackVersionId?: number | null;
+};
+
+export type SettingsVersionSummary = {
+  id: number;
+  createdAt: string;
+  actor: SettingsVersionActor;
+  actorLabel: string | null;
+  source: string | null;
+  changedPaths: string[];
+  rollbackVersionId: number | null;
+  // Null for global settings; an overlay version holds that overlay's patch as its intent.
+  scope: { guildId: string; channelId: string | null } | null;
+};
+
+export type SettingsVersion = SettingsVersionSummary & {
+  intent: SettingsInput;
+};
+
+interface SettingsVersionRow {
+  id: number;
+  created_at: string;
+  intent: string;
+  actor: string;
+  actor_label: string | null;
+  source: string | null;
+  changed_paths: string | null;
+  rollback_version_id: number | null;
+  guild_id: string | null;
+  channel_id: string | null;
+}
+
+const MAX_STORED_SETTINGS_VERSIONS = 500;
+const MAX_CHANGED_PATHS = 200;
+const SUMMARY_COLUMNS = "id, created_at, actor, actor_label, source, changed_paths, rollback_version_id, guild_id, channel_id";
+
+function normalizeSettingsVersionActor(value: unknown): SettingsVersionActor {
+  const normalized = String(value || "").trim().toLowerCase();
+  return SETTINGS_VERSION_ACTORS.find((actor) => actor === normalized) || "system";
+}
+
+function optionalText(value: unknown, maxChars: number) {
+  const text = String(value ?? "").trim();
+  return text ? text.slice(0, maxChars) : null;
+}
+
+function mapSummaryRow(row: Omit<SettingsVersionRow, "intent">): SettingsVersionSummary {
+  const changedPaths = safeJsonParse(row.changed_paths, []);
+  return {
+    id: Number(row.id),
+    createdAt: row.created_at,
+    actor: normalizeSettingsVersionActor(row.actor),
+    actorLabel: row.actor_label || null,
+    source: row.source || null,
+    changedPaths: Array.isArray(changedPaths) ? changedPaths.map(String) : [],
+    rollbackVersionId: row.rollback_version_id ? Number(row.rollback_version_id) : null,
+    scope: row.guild_id ? { guildId: row.guild_id, channelId: row.channel_id || null } : null
+  };
+}
+
+function normalizeVersionScope(scope: SettingsOverlayScope | null | undefined) {
+  const guildId = String(scope?.guildId || "").trim() || null;
+  const channelId = guildId ? String(scope?.channelId || "").trim() || null : null;
+  return { guildId, channelId };
+}
+
+function mapVersionRow(row: SettingsVersionRow): SettingsVersion {
+  return {
+    ...mapSummaryRow(row),
+    intent: safeJsonParse(row.intent, {})
+  };
+}
+
+function insertSettingsVersion(
+  store: SettingsHistoryStore,
+  {
+    intentJson,
+    origin,
+    changedPaths,
+    scope = null,
+    createdAt = nowIso()
+  }: {
+    intentJson: string;
+    origin: SettingsWriteOrigin;
+    changedPaths: string[];
+    scope?: SettingsOverlayScope | null;
+    createdAt?: string;
+  }
+) {
+  const { guildId, channelId } = normalizeVersionScope(scope);
+  const result = store.db
+    .prepare(
+      `INSERT INTO settings_versions(created_at, intent, actor, actor_label, source, changed_paths, rollback_version_id, guild_id, channel_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      createdAt,
+      intentJson,
+      normalizeSettingsVersionActor(origin.actor),
+      optionalText(origin.actorLabel, 120),
+      optionalText(origin.source, 120),
+      JSON.stringify(changedPaths.slice(0, MAX_CHANGED_PATHS)),
+      Number(origin.rollbackVersionId) > 0 ? Number(origin.rollbackVersionId) : null,
+      guildId,
+      channelId
+    );
+  return Number(result.lastInsertRowid || 0) || null;
+}
+
+/**
+ * Inserts a version unless it matches the latest one for the same scope. The
+ * first recorded write in a scope also snapshots the state it replaced, so the
+ * pre-history settings stay restorable.
+ */
+function recordScopedVersion(
+  store: SettingsHistoryStore,
+  {
+    previousIntent,
+    intent,
+    previousUpdatedAt,
+    origin,
+    scope,
+    changedPaths
+  }: {
+    previousIntent: unknown;
+    intent: unknown;
+    previousUpdatedAt: string | null;
+    origin: SettingsWriteOrigin | null | undefined;
+    scope: SettingsOverlayScope | null;
+    changedPaths: () => string[];
+  }
+) {
+  const { guildId, channelId } = normalizeVersionScope(scope);
+  const intentJson = JSON.stringify(intent);
+  const latest = store.db
+    .prepare<{ intent: string }, [string | null, string | null]>(
+      "SELECT intent FROM settings_versions WHERE guild_id IS ? AND channel_id IS ? ORDER BY id DESC LIMIT 1"
+    )
+    .get(guildId, channelId);
+  if (latest?.intent === intentJson) return null;
+
+  if (!latest) {
+    const previousJson = JSON.stringify(previousIntent);
+    if (previousJson === intentJson) return null;
+    insertSettingsVersion(store, {
+      intentJson: previousJson,
+      origin: { actor: "system", source: "baseline" },
+      changedPaths: [],
+      scope,
+      createdAt: previousUpdatedAt || nowIso()
+    });
+  }
+
+  const versionId = insertSettingsVersion(store, {
+    intentJson,
+    origin: origin || { actor: "system" },
+    changedPaths: changedPaths(),
+    scope
+  });
+  pruneSettingsVersions(store);
+  return versionId;
+}
+
+/** Records the settings intent written by a global settings write. Unchanged writes are skipped. */
+export function recordSettingsVersion(
+  store: SettingsHistoryStore,
+  {
+    previousIntent,
+    intent,
+    previousUpdatedAt = null,
+    origin
+  }: {
+    previousIntent: SettingsInput;
+    intent: SettingsInput;
+    previousUpdatedAt?: string | null;
+    origin?: SettingsWriteOrigin | null;
+  }
+) {
+  return recordScopedVersion(store, {
+    previousIntent,
+    intent,
+    previousUpdatedAt,
+    origin,
+    scope: null,
+    changedPaths: () =>
+      diffSettings(normalizeSettings(previousIntent), normalizeSettings(intent)).map((entry) => entry.path)
+  });
+}
+
+/**
+ * Records a guild or channel overlay write. The version intent is the overlay
+ * patch, `{}` once the overlay is cleared, so rolling back restores the overlay.
+ */
+export function recordSettingsOverlayVersion(
+  store: SettingsHistoryStore,
+  {
+    scope,
+    previousPatch,
+    patch,
+    previousUpdatedAt = null,
+    origin
+  }: {
+    scope: SettingsOverlayScope;
+    previousPatch: Record<string, unknown>;
+    patch: Record<string, unknown>;
+    previousUpdatedAt?: string | null;
+    origin?: SettingsWriteOrigin | null;
+  }
+) {
+  if (!normalizeVersionScope(scope).guildId) return null;
+  return recordScopedVersion(store, {
+    previousIntent: previousPatch,
+    intent: patch,
+    previousUpdatedAt,
+    origin,
+    scope,
+    changedPaths: () => diffSettings(previousPatch, patch).map((entry) => entry.path)
+  });
+}
+
+export function listSettingsVersions(
+  store: SettingsHistoryStore,
+  { limit = 50, beforeId = null }: { limit?: number; beforeId?: number | null } = {}
+) {
+  const boundedLimit = clamp(Math.floor(Number(limit) || 50), 1, 200);
+  const cursor = Number(beforeId);
+  const rows = Number.isInteger(cursor) && cursor > 0
+    ? store.db
+      .prepare<Omit<SettingsVersionRow, "intent">, [number, number]>(
+        `SELECT ${SUMMARY_COLUMNS} FROM settings_versions WHERE id < ? ORDER BY id DESC LIMIT ?`
+      )
+      .all(cursor, boundedLimit)
+    : store.db
+      .prepare<Omit<SettingsVersionRow, "intent">, [number]>(
+        `SELECT ${SUMMARY_COLUMNS} FROM settings_versions ORDER BY id DESC LIMIT ?`
+      )
+      .all(boundedLimit);
+  return rows.map(mapSummaryRow);
+}
+
+export function getSettingsVersion(store: SettingsHistoryStore, versionId: number): SettingsVersion | null {
+  const id = Number(versionId);
+  if (!Number.isInteger(id) || id <= 0) return null;
+  const row = store.db
+    .prepare<SettingsVersionRow, [number]>("SELECT * FROM settings_versions WHERE id = ?")
+    .get(id);
+  return row ? mapVersionRow(row) : null;
+}
+
+/** The version recorded just before `versionId` in the same scope (global or one overlay). */
+export function getPreviousSettingsVersion(store: SettingsHistoryStore, versionId: number): SettingsVersion | null {
+  const version = getSettingsVersion(store, versionId);
+  if (!version) return null;
+  const row = store.db
+    .prepare<SettingsVersionRow, [number, string | null, string | null]>(
+      `SELECT * FROM settings_versions
+        WHERE id < ? AND guild_id IS ? AND channel_id IS ?
+        ORDER BY id DESC LIMIT 1`
+    )
+    .get(version.id, version.scope?.guildId ?? null, version.scope?.channelId ?? null);
+  return row ? mapVersionRow(row) : null;
+}
+
+export function pruneSettingsVersions(
+  store: SettingsHistoryStore,
+  { maxRows = MAX_STORED_SETTINGS_VERSIONS }: { maxRows?: number } = {}
+) {
+  const deleted = store.db
+    .prepare(
+      `DELETE FROM settings_versions
+        WHERE id IN (SELECT id FROM settings_versions ORDER BY id DESC LIMIT -1 OFFSET ?)`
+    )
+    .run(Math.max(1, Math.floor(Number(maxRows) || MAX_STORED_SETTINGS_VERSIONS)));
+  return deleted.changes;
+}
@@ -0,0 +1,108 @@
+// Extracted Store Methods
+import type { Database } from "bun:sqlite";
+
+import { nowIso } from "../utils.ts";
+import { safeJsonParse } from "../normalization/valueParsers.ts";
+import { resolveSpendCapFeature, type SpendCapFeature, type SpendLedgerTotal } from "../llm/spendCaps.ts";
+
+interface SpendLedgerStore {
+  db: Database;
+}
+
+interface SpendLedgerTotalRow {
+  feature: string;
+  day_usd: number;
+  month_usd: number;
+}
+
+interface ActionSpendBackfillRow {
+  day: string;
+  kind: string;
+  metadata: string | null;
+  usd_cost: number;
+}
+
+function toLedgerDay(value: string) {
+  const parsed = Date.parse(String(value || ""));
+  return new Date(Number.isFinite(parsed) ? parsed : Date.now()).toISOString().slice(0, 10);
+}
+
+function addSpend(store: SpendLedgerStore, { day, feature, usdCost }: { day: string; feature: SpendCapFeature; usdCost: number }) {
+  store.db
+    .prepare(
+      `INSERT INTO spend_ledger(day, feature, usd_cost, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(day, feature) DO UPDATE SET
+           usd_cost = spend_ledger.usd_cost + excluded.usd_cost,
+           updated_at = excluded.updated_at`
+    )
+    .run(day, feature, usdCost, nowIso());
+}
+
+/**
+ * Adds a logged action's cost to its feature's UTC-day total. The ledger outlives
+ * action-log pruning, so monthly spend caps keep counting the whole month.
+ */
+export function recordSpendLedgerEntry(
+  store: SpendLedgerStore,
+  { kind, source = null, usdCost, createdAt = nowIso() }: {
+    kind: string;
+    source?: string | null;
+    usdCost: number;
+    createdAt?: string;
+  }
+) {
+  const cost = Number(usdCost) || 0;
+  if (cost <= 0) return;
+  const feature = resolveSpendCapFeature({ kind, source });
+  if (!feature) return;
+  addSpend(store, { day: toLedgerDay(createdAt), feature, usdCost: cost });
+}
+
+export function getSpendLedgerTotals(
+  store: SpendLedgerStore,
+  { monthSinceIso, daySinceIso }: { monthSinceIso: string; daySinceIso: string }
+): SpendLedgerTotal[] {
+  const rows = store.db
+    .prepare<SpendLedgerTotalRow, [string, string]>(
+      `SELECT feature,
+              COALESCE(SUM(CASE WHEN day >= ? THEN usd_cost ELSE 0 END), 0) AS day_usd,
+              COALESCE(SUM(usd_cost), 0) AS month_usd
+         FROM spend_ledger
+         WHERE day >= ?
+         GROUP BY feature`
+    )
+    .all(toLedgerDay(daySinceIso), toLedgerDay(monthSinceIso));
+
+  return rows.map((row) => ({
+    feature: row.feature as SpendCapFeature,
+    dayUsd: Number(row.day_usd) || 0,
+    monthUsd: Number(row.month_usd) || 0
+  }));
+}
+
+/**
+ * Seeds an empty ledger from the spend still present in the action log, so upgrading
+ * does not reset the current month's totals.
+ */
+export function backfillSpendLedgerFromActions(store: SpendLedgerStore) {
+  const existing = store.db.prepare("SELECT 1 FROM spend_ledger LIMIT 1").get();
+  if (existing) return;
+  const rows = store.db
+    .prepare<ActionSpendBackfillRow, []>(
+      `SELECT substr(created_at, 1, 10) AS day, kind, metadata, usd_cost
+         FROM actions
+         WHERE usd_cost > 0`
+    )
+    .all();
+  if (!rows.length) return;
+  store.db.transaction(() => {
+    for (const row of rows) {
+      const metadata = safeJsonParse(row.metadata, null);
+      const source = metadata && typeof metadata === "object" ? (metadata as Record<string, unknown>).source : null;
+      const feature = resolveSpendCapFeature({ kind: row.kind, source });
+      if (!feature) continue;
+      addSpend(store, { day: row.day, feature, usdCost: Number(row.usd_cost) || 0 });
+    }
+  })();
+}
@@ -0,0 +1,547 @@
+// Extracted Store Methods
+import type { Database } from "bun:sqlite";
+
+import { clamp, nowIso } from "../utils.ts";
+import { normalizeEmbeddingVector, vectorToBlob } from "./storeHelpers.ts";
+
+interface VideoContextStore {
+  db: Database;
+  ensureSqliteVecReady?: () => boolean;
+}
+
+const MAX_STORED_VIDEO_CONTEXTS = 2_000;
+const MAX_STORED_TRANSCRIPT_CHARS = 40_000;
+const MAX_SEARCH_TOKENS = 8;
+const DEFAULT_VIDEO_SEARCH_MAX_AGE_HOURS = 24 * 90;
+const MAX_VIDEO_SEARCH_MAX_AGE_HOURS = 24 * 365;
+const VIDEO_SEARCH_CANDIDATE_MULTIPLIER = 4;
+const VIDEO_SEARCH_SNIPPET_CHARS = 320;
+
+/** Summary of a fetched video, keyed by its `VideoTarget.key`. */
+export type StoredVideoContext = {
+  videoKey: string;
+  provider: string | null;
+  kind: string | null;
+  videoId: string | null;
+  url: string;
+  title: string | null;
+  channel: string | null;
+  publishedAt: string | null;
+  durationSeconds: number | null;
+  viewCount: number | null;
+  description: string;
+  transcript: string;
+  transcriptSource: string;
+  transcriptError: string | null;
+  fetchedAt: string;
+  lastSeenAt: string;
+  hitCount: number;
+};
+
+/** Fields of a `VideoContextService` summary that get persisted. */
+export type VideoContextSummaryInput = {
+  provider?: string | null;
+  kind?: string | null;
+  videoId?: string | null;
+  url?: string | null;
+  title?: string | null;
+  channel?: string | null;
+  publishedAt?: string | null;
+  durationSeconds?: number | null;
+  viewCount?: number | null;
+  description?: string | null;
+  transcript?: string | null;
+  transcriptSource?: string | null;
+  transcriptError?: string | null;
+};
+
+/** Where a video was linked; one row per video and channel. */
+export type VideoContextLink = {
+  videoKey: string;
+  guildId?: string | null;
+  channelId: string;
+  userId?: string | null;
+  messageId?: string | null;
+};
+
+export type VideoTranscriptSearchMatch = {
+  videoKey: string;
+  url: string;
+  title: string | null;
+  channel: string | null;
+  provider: string | null;
+  transcriptSource: string;
+  chunkIndex: number;
+  snippet: string;
+  guildId: string | null;
+  channelId: string;
+  userId: string | null;
+  messageId: string | null;
+  linkedAt: string;
+  score: number;
+};
+
+interface VideoContextRow {
+  video_key: string;
+  provider: string | null;
+  kind: string | null;
+  video_id: string | null;
+  url: string;
+  title: string | null;
+  channel: string | null;
+  published_at: string | null;
+  duration_seconds: number | null;
+  view_count: number | null;
+  description: string | null;
+  transcript: string | null;
+  transcript_source: string | null;
+  transcript_error: string | null;
+  fetched_at: string;
+  last_seen_at: string;
+  hit_count: number;
+}
+
+interface VideoTranscriptChunkRow {
+  chunk_index: number;
+  content: string;
+}
+
+interface VideoTranscriptMatchRow {
+  video_key: string;
+  url: string;
+  title: string | null;
+  channel: string | null;
+  provider: string | null;
+  transcript_source: string | null;
+  chunk_index: number;
+  content: string;
+  guild_id: string | null;
+  channel_id: string;
+  user_id: string | null;
+  message_id: string | null;
+  last_linked_at: string;
+  score: number;
+}
+
+const VIDEO_CONTEXT_COLUMNS = `video_key, provider, kind, video_id, url, title, channel, published_at, duration_seconds,
+  view_count, description, transcript, transcript_source, transcript_error, fetched_at, last_seen_at, hit_count`;
+
+function optionalText(value: unknown, maxChars = 240) {
+  const text = String(value ?? "").trim();
+  return text ? text.slice(0, maxChars) : null;
+}
+
+function optionalNumber(value: unknown) {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function escapeSqlLikePattern(value: string) {
+  return String(value || "").replace(/[\\%_]/g, "\\$&");
+}
+
+function mapVideoContextRow(row: VideoContextRow): StoredVideoContext {
+  return {
+    videoKey: row.video_key,
+    provider: row.provider,
+    kind: row.kind,
+    videoId: row.video_id,
+    url: row.url,
+    title: row.title,
+    channel: row.channel,
+    publishedAt: row.published_at,
+    durationSeconds: optionalNumber(row.duration_seconds),
+    viewCount: optionalNumber(row.view_count),
+    description: String(row.description || ""),
+    transcript: String(row.transcript || ""),
+    transcriptSource: String(row.transcript_source || ""),
+    transcriptError: row.transcript_error,
+    fetchedAt: row.fetched_at,
+    lastSeenAt: row.last_seen_at,
+    hitCount: Number(row.hit_count) || 0
+  };
+}
+
+function mapVideoTranscriptMatchRow(row: VideoTranscriptMatchRow): VideoTranscriptSearchMatch {
+  return {
+    videoKey: row.video_key,
+    url: row.url,
+    title: row.title,
+    channel: row.channel,
+    provider: row.provider,
+    transcriptSource: String(row.transcript_source || ""),
+    chunkIndex: Number(row.chunk_index) || 0,
+    snippet: String(row.content || "").slice(0, VIDEO_SEARCH_SNIPPET_CHARS),
+    guildId: row.guild_id,
+    channelId: row.channel_id,
+    userId: row.user_id,
+    messageId: row.message_id,
+    linkedAt: row.last_linked_at,
+    score: Number(row.score) || 0
+  };
+}
+
+function resolveVideoSearchScope({
+  guildId,
+  channelId,
+  maxAgeHours
+}: {
+  guildId?: string | null;
+  channelId?: string | null;
+  maxAgeHours?: number;
+}) {
+  const normalizedGuildId = String(guildId || "").trim();
+  const normalizedChannelId = String(channelId || "").trim();
+  if (!normalizedGuildId && !normalizedChannelId) return null;
+  const boundedMaxAgeHours = clamp(
+    Math.floor(Number(maxAgeHours) || DEFAULT_VIDEO_SEARCH_MAX_AGE_HOURS),
+    1,
+    MAX_VIDEO_SEARCH_MAX_AGE_HOURS
+  );
+  return {
+    column: normalizedGuildId ? "l.guild_id" : "l.channel_id",
+    value: normalizedGuildId || normalizedChannelId,
+    sinceIso: new Date(Date.now() - boundedMaxAgeHours * 60 * 60 * 1000).toISOString()
+  };
+}
+
+export function getVideoContext(store: VideoContextStore, videoKey: string): StoredVideoContext | null {
+  const row = store.db
+    .prepare<VideoContextRow, [string]>(`SELECT ${VIDEO_CONTEXT_COLUMNS} FROM video_contexts WHERE video_key = ?`)
+    .get(String(videoKey || ""));
+  return row ? mapVideoContextRow(row) : null;
+}
+
+/**
+ * Upserts a fetched video summary. When `transcriptChunks` is given the
+ * transcript index is replaced and its vectors dropped for re-embedding.
+ */
+export function saveVideoContext(
+  store: VideoContextStore,
+  {
+    videoKey,
+    context,
+    transcriptChunks = null
+  }: {
+    videoKey: string;
+    context: VideoContextSummaryInput;
+    transcriptChunks?: string[] | null;
+  }
+) {
+  const normalizedKey = String(videoKey || "").trim();
+  const url = String(context?.url || "").trim();
+  if (!normalizedKey || !url) return null;
+  const savedAt = nowIso();
+
+  store.db.transaction(() => {
+    store.db
+      .prepare(
+        `INSERT INTO video_contexts(
+          video_key, provider, kind, video_id, url, title, channel, published_at, duration_seconds,
+          view_count, description, transcript, transcript_source, transcript_error, fetched_at, last_seen_at, hit_count
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)
+        ON CONFLICT(video_key) DO UPDATE SET
+          provider = excluded.provider,
+          kind = excluded.kind,
+          video_id = excluded.video_id,
+          url = excluded.url,
+          title = excluded.title,
+          channel = excluded.channel,
+          published_at = excluded.published_at,
+          duration_seconds = excluded.duration_seconds,
+          view_count = excluded.view_count,
+          description = excluded.description,
+          transcript = excluded.transcript,
+          transcript_source = excluded.transcript_source,
+          transcript_error = excluded.transcript_error,
+          fetched_at = excluded.fetched_at,
+          last_seen_at = excluded.last_seen_at`
+      )
+      .run(
+        normalizedKey,
+        optionalText(context.provider, 40),
+        optionalText(context.kind, 40),
+        optionalText(context.videoId, 120),
+        url.slice(0, 2000),
+        optionalText(context.title, 240),
+        optionalText(context.channel, 160),
+        optionalText(context.publishedAt, 40),
+        optionalNumber(context.durationSeconds),
+        optionalNumber(context.viewCount),
+        String(context.description || "").slice(0, 1000),
+        String(context.transcript || "").slice(0, MAX_STORED_TRANSCRIPT_CHARS),
+        optionalText(context.transcriptSource, 40),
+        optionalText(context.transcriptError, 400),
+        savedAt,
+        savedAt
+      );
+
+    if (Array.isArray(transcriptChunks)) {
+      store.db.prepare("DELETE FROM video_transcript_vectors_native WHERE video_key = ?").run(normalizedKey);
+      store.db.prepare("DELETE FROM video_transcript_chunks WHERE video_key = ?").run(normalizedKey);
+      const insertChunk = store.db.prepare(
+        "INSERT INTO video_transcript_chunks(video_key, chunk_index, content) VALUES (?, ?, ?)"
+      );
+      transcriptChunks
+        .map((chunk) => String(chunk || "").trim())
+        .filter(Boolean)
+        .forEach((chunk, index) => insertChunk.run(normalizedKey, index, chunk));
+    }
+    pruneVideoContexts(store, { maxRows: MAX_STORED_VIDEO_CONTEXTS });
+  })();
+
+  return getVideoContext(store, normalizedKey);
+}
+
+/** Counts a cache hit and records (or refreshes) where the video was linked. */
+export function recordVideoContextLink(store: VideoContextStore, link: VideoContextLink) {
+  const videoKey = String(link?.videoKey || "").trim();
+  const channelId = String(link?.channelId || "").trim();
+  if (!videoKey) return false;
+  const linkedAt = nowIso();
+
+  store.db
+    .prepare("UPDATE video_contexts SET hit_count = hit_count + 1, last_seen_at = ? WHERE video_key = ?")
+    .run(linkedAt, videoKey);
+  if (!channelId) return false;
+  const result = store.db
+    .prepare(
+      `INSERT INTO video_context_links(
+        video_key, guild_id, channel_id, user_id, message_id, first_linked_at, last_linked_at, link_count
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+      ON CONFLICT(video_key, channel_id) DO UPDATE SET
+        guild_id = COALESCE(excluded.guild_id, video_context_links.guild_id),
+        user_id = COALESCE(excluded.user_id, video_context_links.user_id),
+        message_id = COALESCE(excluded.message_id, video_context_links.message_id),
+        last_linked_at = excluded.last_linked_at,
+        link_count = video_context_links.link_count + 1`
+    )
+    .run(
+      videoKey,
+      optionalText(link.guildId, 40),
+      channelId.slice(0, 40),
+      optionalText(link.userId, 40),
+      optionalText(link.messageId, 40),
+      linkedAt,
+      linkedAt
+    );
+  return Number(result?.changes || 0) > 0;
+}
+
+/**
+ * Transcript chunks for a video. With `missingVectorModel`, only chunks that
+ * have no embedding for that model yet.
+ */
+export function getVideoTranscriptChunks(
+  store: VideoContextStore,
+  { videoKey, missingVectorModel = null }: { videoKey: string; missingVectorModel?: string | null }
+) {
+  const normalizedModel = String(missingVectorModel || "").trim();
+  const rows = normalizedModel
+    ? store.db
+      .prepare<VideoTranscriptChunkRow, [string, string]>(
+        `SELECT c.chunk_index, c.content
+           FROM video_transcript_chunks AS c
+           LEFT JOIN video_transcript_vectors_native AS v
+             ON v.video_key = c.video_key AND v.chunk_index = c.chunk_index AND v.model = ?
+          WHERE c.video_key = ? AND v.video_key IS NULL
+          ORDER BY c.chunk_index ASC`
+      )
+      .all(normalizedModel, String(videoKey || ""))
+    : store.db
+      .prepare<VideoTranscriptChunkRow, [string]>(
+        "SELECT chunk_index, content FROM video_transcript_chunks WHERE video_key = ? ORDER BY chunk_index ASC"
+      )
+      .all(String(videoKey || ""));
+  return rows.map((row) => ({ chunkIndex: Number(row.chunk_index) || 0, content: String(row.content || "") }));
+}
+
+export function upsertVideoTranscriptVectorNative(
+  store: VideoContextStore,
+  {
+    videoKey,
+    chunkIndex,
+    model,
+    embedding,
+    updatedAt = nowIso()
+  }: {
+    videoKey: string;
+    chunkIndex: number;
+    model: string;
+    embedding: number[];
+    updatedAt?: string;
+  }
+) {
+  const normalizedKey = String(videoKey || "").trim();
+  const normalizedModel = String(model || "").trim().slice(0, 120);
+  const normalizedChunkIndex = Math.floor(Number(chunkIndex));
+  const vector = normalizeEmbeddingVector(embedding);
+  if (!normalizedKey || !normalizedModel || !vector.length) return false;
+  if (!Number.isInteger(normalizedChunkIndex) || normalizedChunkIndex < 0) return false;
+
+  const result = store.db
+    .prepare(
+      `INSERT INTO video_transcript_vectors_native(video_key, chunk_index, model, dims, embedding_blob, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT(video_key, chunk_index, model) DO UPDATE SET
+             dims = excluded.dims,
+             embedding_blob = excluded.embedding_blob,
+             updated_at = excluded.updated_at`
+    )
+    .run(normalizedKey, normalizedChunkIndex, normalizedModel, vector.length, vectorToBlob(vector), updatedAt);
+  return Number(result?.changes || 0) > 0;
+}
+
+/**
+ * Lexical search over transcripts and titles of videos linked in a guild (or,
+ * for DMs, a channel). Returns the best chunk per video.
+ */
+export function searchVideoTranscripts(
+  store: VideoContextStore,
+  {
+    guildId = null,
+    channelId = null,
+    queryText = "",
+    queryTokens = [],
+    limit = 4,
+    maxAgeHours = DEFAULT_VIDEO_SEARCH_MAX_AGE_HOURS
+  }: {
+    guildId?: string | null;
+    channelId?: string | null;
+    queryText?: string;
+    queryTokens?: string[];
+    limit?: number;
+    maxAgeHours?: number;
+  }
+): VideoTranscriptSearchMatch[] {
+  const scope = resolveVideoSearchScope({ guildId, channelId, maxAgeHours });
+  if (!scope) return [];
+  const normalizedQueryText = String(queryText || "").trim();
+  const normalizedTokens = [
+    ...new Set((Array.isArray(queryTokens) ? queryTokens : []).map((value) => String(value || "").trim()).filter(Boolean))
+  ].slice(0, MAX_SEARCH_TOKENS);
+  if (!normalizedQueryText && !normalizedTokens.length) return [];
+
+  const scoreParts: string[] = [];
+  const scoreArgs: string[] = [];
+  if (normalizedQueryText) {
+    const pattern = `%${escapeSqlLikePattern(normalizedQueryText)}%`;
+    scoreParts.push("CASE WHEN c.content LIKE ? ESCAPE '\\' COLLATE NOCASE THEN 6 ELSE 0 END");
+    scoreParts.push("CASE WHEN v.title LIKE ? ESCAPE '\\' COLLATE NOCASE THEN 4 ELSE 0 END");
+    scoreArgs.push(pattern, pattern);
+  }
+  for (const token of normalizedTokens) {
+    const pattern = `%${escapeSqlLikePattern(token)}%`;
+    scoreParts.push("CASE WHEN c.content LIKE ? ESCAPE '\\' COLLATE NOCASE THEN 2 ELSE 0 END");
+    scoreParts.push("CASE WHEN v.title LIKE ? ESCAPE '\\' COLLATE NOCASE THEN 1 ELSE 0 END");
+    scoreArgs.push(pattern, pattern);
+  }
+
+  const boundedLimit = clamp(Math.floor(Number(limit) || 4), 1, 20);
+  const rows = store.db
+    .prepare<VideoTranscriptMatchRow, Array<string | number>>(
+      `SELECT * FROM (
+         SELECT
+           v.video_key, v.url, v.title, v.channel, v.provider, v.transcript_source,
+           c.chunk_index, c.content,
+           l.guild_id, l.channel_id, l.user_id, l.message_id, l.last_linked_at,
+           (${scoreParts.join(" + ")}) AS score
+         FROM video_transcript_chunks AS c
+         JOIN video_contexts AS v ON v.video_key = c.video_key
+         JOIN video_context_links AS l ON l.video_key = c.video_key
+         WHERE ${scope.column} = ? AND l.last_linked_at >= ?
+       )
+       WHERE score > 0
+       ORDER BY score DESC, last_linked_at DESC
+       LIMIT ?`
+    )
+    .all(...scoreArgs, scope.value, scope.sinceIso, boundedLimit * VIDEO_SEARCH_CANDIDATE_MULTIPLIER);
+  return dedupeVideoMatches(rows, boundedLimit);
+}
+
+/** Semantic transcript search; returns [] when sqlite-vec is unavailable. */
+export function searchVideoTranscriptsByEmbedding(
+  store: VideoContextStore,
+  {
+    guildId = null,
+    channelId = null,
+    queryEmbedding,
+    model,
+    limit = 4,
+    maxAgeHours = DEFAULT_VIDEO_SEARCH_MAX_AGE_HOURS
+  }: {
+    guildId?: string | null;
+    channelId?: string | null;
+    queryEmbedding: number[];
+    model: string;
+    limit?: number;
+    maxAgeHours?: number;
+  }
+): VideoTranscriptSearchMatch[] {
+  if (typeof store.ensureSqliteVecReady !== "function" || !store.ensureSqliteVecReady()) return [];
+  const scope = resolveVideoSearchScope({ guildId, channelId, maxAgeHours });
+  const normalizedModel = String(model || "").trim();
+  const normalizedQueryEmbedding = normalizeEmbeddingVector(queryEmbedding);
+  if (!scope || !normalizedModel || !normalizedQueryEmbedding.length) return [];
+
+  const boundedLimit = clamp(Math.floor(Number(limit) || 4), 1, 20);
+  const rows = store.db
+    .prepare<VideoTranscriptMatchRow, Array<string | number | Buffer>>(
+      `SELECT
+             v.video_key, v.url, v.title, v.channel, v.provider, v.transcript_source,
+             c.chunk_index, c.content,
+             l.guild_id, l.channel_id, l.user_id, l.message_id, l.last_linked_at,
+             (1 - vec_distance_cosine(e.embedding_blob, ?)) AS score
+           FROM video_transcript_vectors_native AS e
+           JOIN video_transcript_chunks AS c
+             ON c.video_key = e.video_key AND c.chunk_index = e.chunk_index
+           JOIN video_contexts AS v ON v.video_key = e.video_key
+           JOIN video_context_links AS l ON l.video_key = e.video_key
+          WHERE ${scope.column} = ? AND l.last_linked_at >= ?
+            AND e.model = ?
+            AND e.dims = ?
+          ORDER BY score DESC, l.last_linked_at DESC
+          LIMIT ?`
+    )
+    .all(
+      vectorToBlob(normalizedQueryEmbedding),
+      scope.value,
+      scope.sinceIso,
+      normalizedModel,
+      normalizedQueryEmbedding.length,
+      boundedLimit * VIDEO_SEARCH_CANDIDATE_MULTIPLIER
+    );
+  return dedupeVideoMatches(rows, boundedLimit);
+}
+
+function dedupeVideoMatches(rows: VideoTranscriptMatchRow[], limit: number) {
+  const seen = new Set<string>();
+  const matches: VideoTranscriptSearchMatch[] = [];
+  for (const row of rows) {
+    if (seen.has(row.video_key)) continue;
+    seen.add(row.video_key);
+    matches.push(mapVideoTranscriptMatchRow(row));
+    if (matches.length >= limit) break;
+  }
+  return matches;
+}
+
+export function pruneVideoContexts(store: VideoContextStore, { maxRows = MAX_STORED_VIDEO_CONTEXTS } = {}) {
+  const deleted = store.db
+    .prepare(
+      `DELETE FROM video_contexts
+        WHERE video_key IN (
+          SELECT video_key FROM video_contexts ORDER BY last_seen_at DESC LIMIT -1 OFFSET ?
+        )`
+    )
+    .run(Math.max(1, Math.floor(Number(maxRows) || MAX_STORED_VIDEO_CONTEXTS)));
+  if (deleted.changes > 0) {
+    for (const table of ["video_context_links", "video_transcript_chunks", "video_transcript_vectors_native"]) {
+      store.db
+        .prepare(`DELETE FROM ${table} WHERE video_key NOT IN (SELECT video_key FROM video_contexts)`)
+        .run();
+    }
+  }
+  return deleted.changes;
+}
@@ -1,7 +1,7 @@
 import { test } from "bun:test";
 import assert from "node:assert/strict";
 import { SubAgentSessionManager } from "../agents/subAgentSession.ts";
-import { buildReplyToolSet, executeReplyTool } from "./replyTools.ts";
+import { buildReplyToolSet, executeReplyTool, rejectUnpermittedReplyToolCall } from "./replyTools.ts";
 
 test("buildReplyToolSet includes browser_browse when browser agent is enabled and available", () => {
   const tools = buildReplyToolSet({
@@ -76,6 +76,7 @@ test("buildReplyToolSet includes memory tools and conversation search when memor
 
   assert.equal(toolNames.includes("memory_search"), true);
   assert.equal(toolNames.includes("memory_write"), true);
+  assert.equal(toolNames.includes("memory_forget"), true);
   assert.equal(toolNames.includes("conversation_search"), true);
 });
 
@@ -103,6 +104,49 @@ test("buildReplyToolSet includes code_task when dev task runtime and permissions
   assert.equal(toolNames.includes("code_task"), true);
 });
 
+test("buildReplyToolSet limits restricted tools to allowed users and roles", () => {
+  const settings = {
+    browser: { enabled: false },
+    webSearch: { enabled: false },
+    memory: { enabled: true },
+    permissions: {
+      tools: {
+        rules: [
+          { toolName: "memory_write", surfaces: ["reply"], allowedUserIds: ["user-1"], allowedRoleIds: ["role-mods"] },
+          { toolName: "memory_forget", surfaces: ["voice_realtime"], allowedUserIds: [] }
+        ]
+      }
+    }
+  };
+  const toolNamesFor = (requester) =>
+    buildReplyToolSet(settings, { memoryAvailable: true }, requester).map((tool) => tool.name);
+
+  assert.equal(toolNamesFor({ userId: "user-1" }).includes("memory_write"), true);
+  assert.equal(toolNamesFor({ userId: "user-2", roleIds: ["role-mods"] }).includes("memory_write"), true);
+  assert.equal(toolNamesFor({ userId: "user-2", roleIds: ["role-other"] }).includes("memory_write"), false);
+  assert.equal(toolNamesFor(null).includes("memory_write"), false);
+  assert.equal(toolNamesFor({ userId: "user-2" }).includes("memory_search"), true);
+  assert.equal(toolNamesFor({ userId: "user-2" }).includes("memory_forget"), true);
+});
+
+test("rejectUnpermittedReplyToolCall re-checks tool rules at call time", () => {
+  const settings = {
+    permissions: {
+      tools: {
+        rules: [{ toolName: "memory_write", surfaces: ["reply"], allowedUserIds: ["user-1"], allowedRoleIds: [] }]
+      }
+    }
+  };
+
+  assert.equal(rejectUnpermittedReplyToolCall(settings, "memory_write", { userId: "user-1" }), null);
+  assert.equal(rejectUnpermittedReplyToolCall(settings, "memory_search", { userId: "user-2" }), null);
+  assert.deepEqual(rejectUnpermittedReplyToolCall(settings, "memory_write", { userId: "user-2" }), {
+    content: "Tool memory_write is not permitted for this requester.",
+    isError: true
+  });
+  assert.equal(rejectUnpermittedReplyToolCall(settings, "memory_write", null)?.isError, true);
+});
+
 test("executeReplyTool forwards code_task role to the code agent runtime", async () => {
   const calls: Array<Record<string, unknown>> = [];
 
@@ -362,11 +406,102 @@ test("executeReplyTool resolves video_context by VID ref from current message at
       guildId: "guild-1",
       channelId: "channel-1",
       userId: "user-1",
+      messageId: "msg-1",
       source: "video_context_tool"
     }
   }]);
 });
 
+test("executeReplyTool video_context searches previously linked videos by query", async () => {
+  const searches: Array<Record<string, unknown>> = [];
+
+  const result = await executeReplyTool(
+    "video_context",
+    { query: "sourdough starter" },
+    {
+      video: {
+        async fetchContext() {
+          throw new Error("should not fetch without a url");
+        },
+        async searchLinkedVideos(opts) {
+          searches.push(opts);
+          return [
+            {
+              title: "Bread for beginners",
+              channel: "Bake Lab",
+              url: "https://www.youtube.com/watch?v=bread01",
+              linkedAt: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000).toISOString(),
+              snippet: "feed your sourdough starter twice a day"
+            }
+          ];
+        }
+      }
+    },
+    {
+      settings: {},
+      guildId: "guild-1",
+      channelId: "channel-1",
+      userId: "user-1",
+      sourceMessageId: "msg-1",
+      sourceText: "what was that bread video",
+      trace: { source: "reply_message" }
+    }
+  );
+
+  assert.equal(result.isError, undefined);
+  assert.match(result.content, /\[V1\] "Bread for beginners" by Bake Lab, linked 20d ago: https:\/\/www\.youtube\.com\/watch\?v=bread01/);
+  assert.match(result.content, /feed your sourdough starter twice a day/);
+  assert.equal(searches.length, 1);
+  assert.equal(searches[0]?.guildId, "guild-1");
+  assert.equal(searches[0]?.queryText, "sourdough starter");
+});
+
+test("executeReplyTool memory_forget lists and forgets only the speaker's facts", async () => {
+  const forgetCalls: Array<Record<string, unknown>> = [];
+  const runtime = {
+    memory: {
+      async searchDurableFacts() {
+        return [];
+      },
+      async rememberDirectiveLineDetailed() {
+        return { ok: true };
+      },
+      listUserMemoryFacts({ userId }) {
+        const facts = userId === "user-1" ? [{ id: 7, fact: "Likes surf rock.", fact_type: "preference", is_active: 1 }] : [];
+        return { facts, total: facts.length, page: 1, pageCount: 1 };
+      },
+      async forgetUserMemory(opts) {
+        forgetCalls.push(opts);
+        return { ok: true, reason: "deleted", factIds: [7], factsDeleted: 1, journalEntriesDeleted: 0 };
+      }
+    }
+  };
+  const context = {
+    settings: {},
+    guildId: "guild-1",
+    channelId: "channel-1",
+    userId: "user-1",
+    sourceMessageId: "msg-1",
+    sourceText: "forget that I like surf rock",
+    trace: { source: "reply_message" }
+  };
+
+  const listed = await executeReplyTool("memory_forget", {}, runtime, context);
+  assert.match(listed.content, /#7 \[preference\] Likes surf rock\./);
+  assert.equal(forgetCalls.length, 0);
+
+  const forgotten = await executeReplyTool("memory_forget", { fact_ids: [7, "nope"] }, runtime, context);
+  assert.equal(forgotten.isError, undefined);
+  assert.equal(forgotten.content, "Forgot facts: #7");
+  assert.deepEqual(forgetCalls, [{
+    userId: "user-1",
+    guildId: "guild-1",
+    channelId: "channel-1",
+    factIds: [7],
+    source: "reply_tool_memory_forget"
+  }]);
+});
+
 test("executeReplyTool delegates conversation_search to store history search", async () => {
   const queries: Array<Record<string, unknown>> = [];
 
@@ -691,3 +826,53 @@ test("executeReplyTool delegates media_reply_handoff to the voice runtime", asyn
   assert.deepEqual(calls, ["duck"]);
   assert.match(result.content, /"mode":"duck"/);
 });
+
+test("buildReplyToolSet exposes MCP server tools and executeReplyTool enforces the allow-list", async () => {
+  const mcpServers = [{
+    serverName: "docs",
+    tools: [
+      { name: "search_docs", description: "Search docs", inputSchema: { type: "object", properties: {} } },
+      { name: "delete_page", description: "Delete a page", inputSchema: { type: "object", properties: {} } }
+    ]
+  }];
+  const settings = {
+    mcp: {
+      enabled: true,
+      servers: [{ serverName: "docs", enabled: true, allowedTools: ["search_docs"] }]
+    }
+  };
+  const tools = buildReplyToolSet(settings, { mcpServers });
+  const toolNames = tools.map((tool) => tool.name);
+  assert.equal(toolNames.includes("mcp__docs__search_docs"), true);
+  assert.equal(toolNames.includes("mcp__docs__delete_page"), false);
+
+  const calls = [];
+  const runtime = {
+    mcp: {
+      listServerTools: () => mcpServers,
+      async callTool(opts) {
+        calls.push(opts);
+        return { content: "found it", isError: false };
+      }
+    }
+  };
+  const context = {
+    settings,
+    guildId: "guild-1",
+    channelId: "channel-1",
+    userId: "user-1",
+    sourceMessageId: "msg-1",
+    sourceText: "look it up",
+    trace: { source: "reply_message" }
+  };
+
+  const allowed = await executeReplyTool("mcp__docs__search_docs", { query: "voice" }, runtime, context);
+  assert.deepEqual(allowed, { content: "found it", isError: false });
+  assert.deepEqual(calls.map((call) => [call.serverName, call.toolName, call.args]), [
+    ["docs", "search_docs", { query: "voice" }]
+  ]);
+
+  const denied = await executeReplyTool("mcp__docs__delete_page", {}, runtime, context);
+  assert.equal(denied.isError, true);
+  assert.equal(calls.length, 1);
+});
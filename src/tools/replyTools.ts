@@ -6,7 +6,7 @@ import {
   executeSharedMemoryToolSearch,
   executeSharedMemoryToolWrite
 } from "../memory/memoryToolRuntime.ts";
-import { formatConversationWindows } from "../prompts/promptFormatters.ts";
+import { formatConversationWindows, formatLinkedVideoMatches } from "../prompts/promptFormatters.ts";
 import type { SubAgentSessionManager, SubAgentSession } from "../agents/subAgentSession.ts";
 import {
   normalizeCodeAgentRole,
@@ -14,7 +14,16 @@ import {
   type CodeAgentRole
 } from "../agents/codeAgent.ts";
 import { toAnthropicTool } from "./sharedToolSchemas.ts";
-import { buildReplyToolSchemas, type ReplyToolAvailability } from "./toolRegistry.ts";
+import {
+  buildReplyToolSchemas,
+  isMcpToolAllowed,
+  isMcpToolName,
+  isToolPermittedForRequester,
+  resolveMcpToolTarget,
+  type ReplyToolAvailability,
+  type ToolRequester
+} from "./toolRegistry.ts";
+import type { McpClientManager } from "../mcp/mcpClient.ts";
 import {
   startBrowserSessionStreamPublish,
   type BrowserStreamPublishManager
@@ -54,6 +63,7 @@ const MAX_BACKGROUND_TASK_RESULT_PREVIEW_CHARS = 500;
 
 // Music tool input clamps and defaults.
 const MAX_MUSIC_PLATFORM_LEN = 32;
+const MAX_MUSIC_HISTORY_BOUNDARY_LEN = 40;
 const MAX_MUSIC_TRACK_IDS = 12;
 const MIN_MUSIC_RESULT_COUNT = 1;
 const MAX_MUSIC_RESULT_COUNT = 10;
@@ -265,6 +275,28 @@ export type ReplyToolRuntime = {
       reason?: string;
       factText?: string;
     }>;
+    listUserMemoryFacts?: (opts: {
+      userId: string;
+      page?: number | null;
+    }) => {
+      facts: Array<{ id: number; fact: string; fact_type: string; is_active?: number }>;
+      total: number;
+      page: number;
+      pageCount: number;
+    };
+    forgetUserMemory?: (opts: {
+      userId: string;
+      guildId?: string | null;
+      channelId?: string | null;
+      factIds?: number[] | null;
+      source?: string;
+    }) => Promise<{
+      ok: boolean;
+      reason?: string;
+      factIds: number[];
+      factsDeleted: number;
+      journalEntriesDeleted: number;
+    }>;
   };
   store?: {
     logAction: (opts: Record<string, unknown>) => void;
@@ -341,6 +373,9 @@ export type ReplyToolRuntime = {
       position?: number | "end";
       platform?: string | null;
       max_results?: number;
+      playlist?: string | null;
+      history_since?: string | null;
+      history_until?: string | null;
     }) => Promise<Record<string, unknown>>;
     musicQueueNext: (args: {
       tracks?: string[];
@@ -354,7 +389,9 @@ export type ReplyToolRuntime = {
     musicResume: () => Promise<Record<string, unknown>>;
     musicReplyHandoff: (mode: "pause" | "duck" | "none") => Promise<Record<string, unknown>>;
     musicSkip: () => Promise<Record<string, unknown>>;
-    musicNowPlaying: () => Promise<Record<string, unknown>>;
+    musicNowPlaying: (includeDetails?: boolean) => Promise<Record<string, unknown>>;
+    musicSeek?: (position: string) => Promise<Record<string, unknown>>;
+    musicEffects?: (effects: Record<string, unknown>) => Promise<Record<string, unknown>>;
     stopVideoShare?: () => Promise<Record<string, unknown>>;
     playSoundboard: (refs: string[], transcript: string) => Promise<Record<string, unknown>>;
     leaveVoiceChannel: () => Promise<Record<string, unknown>>;
@@ -369,6 +406,15 @@ export type ReplyToolRuntime = {
       imageInputs?: ImageInput[];
       isError?: boolean;
     }>;
+    searchLinkedVideos?: (opts: {
+      guildId?: string | null;
+      channelId?: string | null;
+      queryText: string;
+      settings?: Record<string, unknown> | null;
+      trace?: Record<string, unknown>;
+      limit?: number;
+      maxAgeHours?: number;
+    }) => Promise<Array<Record<string, unknown>>>;
   };
   voiceJoin?: () => Promise<{
     ok: boolean;
@@ -376,6 +422,7 @@ export type ReplyToolRuntime = {
     voiceChannelName?: string;
     voiceSession?: ReplyToolRuntime["voiceSession"];
   }>;
+  mcp?: Pick<McpClientManager, "listServerTools" | "callTool"> | null;
 };
 
 export type ReplyToolContext = {
@@ -396,9 +443,24 @@ export type ReplyToolContext = {
 
 export function buildReplyToolSet(
   settings: Record<string, unknown>,
-  capabilities: ReplyToolAvailability = {}
+  capabilities: ReplyToolAvailability = {},
+  requester: ToolRequester | null = null
 ): ReplyToolDefinition[] {
-  return buildReplyToolSchemas(settings, capabilities).map((schema) => toAnthropicTool(schema));
+  return buildReplyToolSchemas(settings, capabilities, requester).map((schema) => toAnthropicTool(schema));
+}
+
+/**
+ * Tool loops only offer the tools a requester may use, but the model can still
+ * name others. Re-checks the rules at call time, like the realtime path does,
+ * and returns the error result to send back in place of running the tool.
+ */
+export function rejectUnpermittedReplyToolCall(
+  settings: Record<string, unknown>,
+  toolName: string,
+  requester: ToolRequester | null
+): ReplyToolResult | null {
+  if (isToolPermittedForRequester(settings, "reply", toolName, requester)) return null;
+  return { content: `Tool ${toolName} is not permitted for this requester.`, isError: true };
 }
 
 // --- Tool executor ---
@@ -413,6 +475,7 @@ const REPLY_TOOL_HANDLERS: Record<
   browser_browse: executeBrowserBrowse,
   memory_search: executeMemorySearch,
   memory_write: executeMemoryWrite,
+  memory_forget: executeMemoryForget,
   conversation_search: executeConversationSearch,
   image_lookup: async (input, runtime, context) => await executeImageLookup(input, runtime, context),
   start_screen_watch: async (input, runtime, context) => await executeStartScreenWatch(input, runtime, context),
@@ -436,6 +499,8 @@ const REPLY_TOOL_HANDLERS: Record<
   media_reply_handoff: async (input, runtime, context) => await executeVoiceTool("media_reply_handoff", input, runtime, context),
   media_skip: async (input, runtime, context) => await executeVoiceTool("media_skip", input, runtime, context),
   media_now_playing: async (input, runtime, context) => await executeVoiceTool("media_now_playing", input, runtime, context),
+  media_seek: async (input, runtime, context) => await executeVoiceTool("media_seek", input, runtime, context),
+  media_effects: async (input, runtime, context) => await executeVoiceTool("media_effects", input, runtime, context),
   stop_video_share: async (input, runtime, context) => await executeVoiceTool("stop_video_share", input, runtime, context)
 };
 
@@ -448,11 +513,52 @@ export async function executeReplyTool(
   throwIfAborted(context.signal, "Reply tool cancelled");
   const handler = REPLY_TOOL_HANDLERS[toolName];
   if (!handler) {
+    if (isMcpToolName(toolName)) {
+      return await executeMcpTool(toolName, input, runtime, context);
+    }
     return { content: `Unknown tool: ${toolName}`, isError: true };
   }
   return await handler(input, runtime, context);
 }
 
+async function executeMcpTool(
+  toolName: string,
+  input: ReplyToolCallInput,
+  runtime: ReplyToolRuntime,
+  context: ReplyToolContext
+): Promise<ReplyToolResult> {
+  if (!runtime.mcp) {
+    return { content: "MCP tools are unavailable in this context.", isError: true };
+  }
+  const target = resolveMcpToolTarget(toolName, runtime.mcp.listServerTools());
+  if (!target) {
+    return { content: `Unknown tool: ${toolName}`, isError: true };
+  }
+  if (!isMcpToolAllowed(context.settings, target.serverName, target.toolName)) {
+    return { content: `MCP tool ${target.toolName} on ${target.serverName} is disabled in settings.`, isError: true };
+  }
+  const result = await runtime.mcp.callTool({
+    serverName: target.serverName,
+    toolName: target.toolName,
+    args: input && typeof input === "object" ? input : {},
+    signal: context.signal
+  });
+  runtime.store?.logAction({
+    kind: "runtime",
+    guildId: context.guildId,
+    channelId: context.channelId,
+    userId: context.userId,
+    content: "mcp_tool_call",
+    metadata: {
+      serverName: target.serverName,
+      toolName: target.toolName,
+      isError: result.isError,
+      source: context.trace?.source || null
+    }
+  });
+  return result;
+}
+
 async function executeConversationSearch(
   input: ReplyToolCallInput,
   runtime: ReplyToolRuntime,
@@ -507,12 +613,19 @@ async function executeConversationSearch(
         before: CONVERSATION_WINDOW_BEFORE_TURNS,
         after: CONVERSATION_WINDOW_AFTER_TURNS
       });
-    if (!Array.isArray(windows) || !windows.length) {
+    const linkedVideos = await searchLinkedVideosSafely(runtime, context, {
+      query,
+      maxAgeHours,
+      source: "reply_tool_conversation_search"
+    });
+    const hasWindows = Array.isArray(windows) && windows.length > 0;
+    if (!hasWindows && !linkedVideos.length) {
       return { content: `No conversation history found for: "${query}"` };
     }
-    return {
-      content: `Conversation history for "${query}":\n${formatConversationWindows(windows)}`
-    };
+    const sections: string[] = [];
+    if (hasWindows) sections.push(`Conversation history for "${query}":\n${formatConversationWindows(windows)}`);
+    if (linkedVideos.length) sections.push(`Linked videos matching "${query}":\n${formatLinkedVideoMatches(linkedVideos)}`);
+    return { content: sections.join("\n\n") };
   } catch (error) {
     return {
       content: `Conversation history search failed: ${String((error as Error)?.message || error)}`,
@@ -521,6 +634,32 @@ async function executeConversationSearch(
   }
 }
 
+async function searchLinkedVideosSafely(
+  runtime: ReplyToolRuntime,
+  context: ReplyToolContext,
+  { query, maxAgeHours, source }: { query: string; maxAgeHours?: number; source: string }
+) {
+  if (!runtime.video?.searchLinkedVideos) return [];
+  try {
+    const matches = await runtime.video.searchLinkedVideos({
+      guildId: context.guildId,
+      channelId: context.channelId,
+      queryText: query,
+      settings: context.settings,
+      trace: {
+        guildId: context.guildId,
+        channelId: context.channelId,
+        userId: context.userId,
+        source
+      },
+      maxAgeHours
+    });
+    return Array.isArray(matches) ? matches : [];
+  } catch {
+    return [];
+  }
+}
+
 async function executeWebSearch(
   input: ReplyToolCallInput,
   runtime: ReplyToolRuntime,
@@ -665,6 +804,19 @@ async function executeVideoContext(
   const inputUrl = String(input?.url || "").trim().slice(0, MAX_VIDEO_CONTEXT_URL_LEN);
   const videoRef = String(input?.videoRef || input?.videoId || "").trim();
   const url = inputUrl || resolveVideoLookupUrl(videoRef, context);
+  const query = normalizeDirectiveText(String(input?.query || ""), MAX_TOOL_QUERY_LEN);
+  if (!url && !videoRef && query) {
+    if (!runtime.video?.searchLinkedVideos) {
+      return { content: "Linked video search is not available.", isError: true };
+    }
+    const matches = await searchLinkedVideosSafely(runtime, context, { query, source: "video_context_tool_search" });
+    if (!matches.length) {
+      return { content: `No previously linked videos matched: "${query}"` };
+    }
+    return {
+      content: `Previously linked videos matching "${query}" (pass a url for full context):\n${formatLinkedVideoMatches(matches)}`
+    };
+  }
   if (!url) {
     if (videoRef) {
       const refs = listAvailableVideoRefs(context);
@@ -693,6 +845,7 @@ async function executeVideoContext(
         guildId: context.guildId,
         channelId: context.channelId,
         userId: context.userId,
+        messageId: context.sourceMessageId || null,
         source: "video_context_tool"
       }
     });
@@ -963,6 +1116,68 @@ async function executeMemoryWrite(
   }
 }
 
+async function executeMemoryForget(
+  input: ReplyToolCallInput,
+  runtime: ReplyToolRuntime,
+  context: ReplyToolContext
+): Promise<ReplyToolResult> {
+  throwIfAborted(context.signal, "Reply tool cancelled");
+  if (!runtime.memory?.listUserMemoryFacts || !runtime.memory?.forgetUserMemory) {
+    return { content: "Memory forget is not available (memory runtime not configured).", isError: true };
+  }
+
+  const factIds = Array.isArray(input?.fact_ids)
+    ? input.fact_ids.map((value) => Number(value)).filter((value) => Number.isInteger(value) && value > 0)
+    : [];
+  const forgetAll = input?.all === true;
+
+  try {
+    if (!forgetAll && !factIds.length) {
+      const { facts, total, page, pageCount } = runtime.memory.listUserMemoryFacts({
+        userId: context.userId,
+        page: Number(input?.page) || 1
+      });
+      if (!total) {
+        return { content: "No durable facts are stored about this speaker." };
+      }
+      const lines = facts.map((fact) => `- #${fact.id} [${fact.fact_type}]${fact.is_active === 0 ? " (archived)" : ""} ${fact.fact}`);
+      if (page < pageCount) {
+        lines.push(`More facts on page ${page + 1}; call memory_forget with page=${page + 1} to list them.`);
+      }
+      return {
+        content: `Facts stored about this speaker (page ${page} of ${pageCount}, ${total} total):\n${lines.join("\n")}`
+      };
+    }
+
+    const result = await runtime.memory.forgetUserMemory({
+      userId: context.userId,
+      guildId: context.guildId,
+      channelId: context.channelId,
+      factIds: forgetAll ? null : factIds,
+      source: "reply_tool_memory_forget"
+    });
+    if (!result.ok) {
+      return {
+        content: result.reason === "not_found"
+          ? "None of those fact ids belong to this speaker. Call memory_forget with no arguments to list them."
+          : `Memory forget failed: ${String(result.reason || "unknown_error")}`,
+        isError: true
+      };
+    }
+    if (forgetAll) {
+      return {
+        content: `Forgot everything about this speaker: ${result.factsDeleted} facts deleted, ${result.journalEntriesDeleted} daily-log lines scrubbed.`
+      };
+    }
+    return { content: `Forgot facts: ${result.factIds.map((id) => `#${id}`).join(", ")}` };
+  } catch (error) {
+    return {
+      content: `Memory forget failed: ${String((error as Error)?.message || error)}`,
+      isError: true
+    };
+  }
+}
+
 async function executeImageLookup(
   input: ReplyToolCallInput,
   _runtime: ReplyToolRuntime,
@@ -1526,8 +1741,14 @@ async function executeVoiceTool(
           MIN_MUSIC_RESULT_COUNT,
           Math.min(MAX_MUSIC_RESULT_COUNT, Math.floor(Number(input?.max_results) || DEFAULT_MUSIC_RESULT_COUNT))
         );
-        if (!tracks.length && !query && !selectionId) {
-          return { content: "No queue target provided. Use query, selection_id, or track IDs.", isError: true };
+        const playlist = String(input?.playlist || "").trim().slice(0, MAX_VOICE_MUSIC_QUERY_LEN) || null;
+        const historySince = String(input?.history_since || "").trim().slice(0, MAX_MUSIC_HISTORY_BOUNDARY_LEN) || null;
+        const historyUntil = String(input?.history_until || "").trim().slice(0, MAX_MUSIC_HISTORY_BOUNDARY_LEN) || null;
+        if (!tracks.length && !query && !selectionId && !playlist && !historySince && !historyUntil) {
+          return {
+            content: "No queue target provided. Use query, selection_id, track IDs, playlist, or a history window.",
+            isError: true
+          };
         }
         const rawPos = input?.position;
         const position = rawPos === "end"
@@ -1544,7 +1765,10 @@ async function executeVoiceTool(
           selection_id: selectionId,
           position,
           platform,
-          max_results: maxResults
+          max_results: maxResults,
+          playlist,
+          history_since: historySince,
+          history_until: historyUntil
         });
         break;
       }
@@ -1603,7 +1827,33 @@ async function executeVoiceTool(
         break;
       case "media_now_playing":
         throwIfAborted(context.signal, "Reply tool cancelled");
-        result = await runtime.voiceSession.musicNowPlaying();
+        result = await runtime.voiceSession.musicNowPlaying(input?.include_details === true);
+        break;
+      case "media_seek": {
+        const position = String(input?.position ?? "").trim();
+        if (!position) {
+          return { content: "Missing seek position. Use seconds or m:ss.", isError: true };
+        }
+        if (typeof runtime.voiceSession.musicSeek !== "function") {
+          return { content: "Seeking is not available.", isError: true };
+        }
+        throwIfAborted(context.signal, "Reply tool cancelled");
+        result = await runtime.voiceSession.musicSeek(position);
+        break;
+      }
+      case "media_effects":
+        if (typeof runtime.voiceSession.musicEffects !== "function") {
+          return { content: "Music effects are not available.", isError: true };
+        }
+        throwIfAborted(context.signal, "Reply tool cancelled");
+        result = await runtime.voiceSession.musicEffects({
+          crossfade_seconds: input?.crossfade_seconds,
+          loudness_normalization: input?.loudness_normalization,
+          speed: input?.speed,
+          pitch_semitones: input?.pitch_semitones,
+          bass_boost_db: input?.bass_boost_db,
+          reset: input?.reset
+        });
         break;
       case "stop_video_share":
         throwIfAborted(context.signal, "Reply tool cancelled");
@@ -137,9 +137,35 @@ export const MEMORY_WRITE_SCHEMA: SharedToolSchema = {
   }
 };
 
+export const MEMORY_FORGET_SCHEMA: SharedToolSchema = {
+  name: "memory_forget",
+  description: "List or delete the durable facts stored about the current speaker, only when they ask. Call with no arguments to list their facts with ids; pass fact_ids to delete specific facts, or all=true to forget everything about them.",
+  voiceContinuationPolicy: "always",
+  parameters: {
+    type: "object",
+    properties: {
+      fact_ids: {
+        type: "array",
+        items: { type: "integer", minimum: 1 },
+        maxItems: 20
+      },
+      all: {
+        type: "boolean",
+        description: "Forget every fact about the speaker and scrub their lines from the daily logs. Only when they explicitly ask to be forgotten entirely."
+      },
+      page: {
+        type: "integer",
+        minimum: 1,
+        description: "Page of the fact listing when called without fact_ids."
+      }
+    },
+    additionalProperties: false
+  }
+};
+
 export const CONVERSATION_SEARCH_SCHEMA: SharedToolSchema = {
   name: "conversation_search",
-  description: "Search saved conversation history to recall earlier exchanges, not durable facts.",
+  description: "Search saved conversation history to recall earlier exchanges, not durable facts. Also matches transcripts of videos linked in the conversation.",
   voiceContinuationPolicy: "always",
   parameters: {
     type: "object",
@@ -160,7 +186,7 @@ export const CONVERSATION_SEARCH_SCHEMA: SharedToolSchema = {
 export const IMAGE_LOOKUP_SCHEMA: SharedToolSchema = {
   name: "image_lookup",
   description:
-    "Look up a previously shared image from message history. Use a specific image ref like IMG 3 or a short query when the user refers to an earlier image/photo.",
+    "Look up a previously shared image from message history. Use a specific image ref like IMG 3 or a short query when the user refers to an earlier image/photo. Queries also match captions of older images shared in this server.",
   parameters: {
     type: "object",
     properties: {
@@ -180,7 +206,7 @@ export const IMAGE_LOOKUP_SCHEMA: SharedToolSchema = {
 
 export const VIDEO_CONTEXT_SCHEMA: SharedToolSchema = {
   name: "video_context",
-  description: "Extract metadata, transcript, and keyframes from a video URL (YouTube, TikTok, X/Twitter, Reddit, Twitch, Streamable, or any yt-dlp-supported source). Returns structured data including title, channel, duration, transcript text, and optional keyframe images. Prefer this over web_scrape or browser_browse when you want video-specific content like transcripts.",
+  description: "Extract metadata, transcript, and keyframes from a video URL (YouTube, TikTok, X/Twitter, Reddit, Twitch, Streamable, or any yt-dlp-supported source). Returns structured data including title, channel, duration, transcript text, and optional keyframe images. Prefer this over web_scrape or browser_browse when you want video-specific content like transcripts. Pass query instead of a URL to find videos linked here earlier by what they talked about.",
   voiceContinuationPolicy: "always",
   parameters: {
     type: "object",
@@ -192,6 +218,10 @@ export const VIDEO_CONTEXT_SCHEMA: SharedToolSchema = {
       videoRef: {
         type: "string",
         description: "Video ref from the current message context, for example VID 1."
+      },
+      query: {
+        type: "string",
+        description: "Topic to search for in transcripts of previously linked videos when no URL is known."
       }
     },
     additionalProperties: false
@@ -291,6 +321,7 @@ const SHARED_TOOL_SCHEMAS: SharedToolSchema[] = [
   BROWSER_BROWSE_SCHEMA,
   MEMORY_SEARCH_SCHEMA,
   MEMORY_WRITE_SCHEMA,
+  MEMORY_FORGET_SCHEMA,
   CONVERSATION_SEARCH_SCHEMA,
   CODE_TASK_SCHEMA
 ];
@@ -337,7 +368,7 @@ export const VIDEO_SEARCH_SCHEMA: SharedToolSchema = {
 
 export const MUSIC_QUEUE_ADD_SCHEMA: SharedToolSchema = {
   name: "music_queue_add",
-  description: "Append one or more tracks to the queue. You may pass direct query text, a prior selection_id, or exact track IDs from music_search/music_play.",
+  description: "Append one or more tracks to the queue. You may pass direct query text, a prior selection_id, exact track IDs from music_search/music_play, a saved playlist name, or a play-history window.",
   voiceContinuationPolicy: "always",
   parameters: {
     type: "object",
@@ -358,7 +389,7 @@ export const MUSIC_QUEUE_ADD_SCHEMA: SharedToolSchema = {
       },
       platform: {
         type: "string",
-        enum: ["youtube", "soundcloud", "auto"]
+        enum: ["youtube", "soundcloud", "bandcamp", "radio", "local", "auto"]
       },
       max_results: {
         type: "integer"
@@ -366,6 +397,18 @@ export const MUSIC_QUEUE_ADD_SCHEMA: SharedToolSchema = {
       position: {
         type: "string",
         description: "Queue position: \"end\" to append, or a zero-based index as a string (e.g. \"0\" for front)"
+      },
+      playlist: {
+        type: "string",
+        description: "Name of a saved playlist to queue. Leave empty when not loading a playlist."
+      },
+      history_since: {
+        type: "string",
+        description: "Queue what was played here from this ISO date or datetime on (e.g. \"2026-03-06\" for last Friday). A date alone covers that whole day."
+      },
+      history_until: {
+        type: "string",
+        description: "Optional end of the play-history window as an ISO date or datetime. A date alone includes that whole day."
       }
     },
     additionalProperties: false
@@ -390,7 +433,7 @@ export const MUSIC_PLAY_SCHEMA: SharedToolSchema = {
       },
       platform: {
         type: "string",
-        enum: ["youtube", "soundcloud", "auto"]
+        enum: ["youtube", "soundcloud", "bandcamp", "radio", "local", "auto"]
       }
     },
     required: ["query"],
@@ -443,7 +486,7 @@ export const MUSIC_QUEUE_NEXT_SCHEMA: SharedToolSchema = {
       },
       platform: {
         type: "string",
-        enum: ["youtube", "soundcloud", "auto"]
+        enum: ["youtube", "soundcloud", "bandcamp", "radio", "local", "auto"]
       },
       max_results: {
         type: "integer"
@@ -517,11 +560,53 @@ export const MUSIC_SKIP_SCHEMA: SharedToolSchema = {
 
 export const MUSIC_NOW_PLAYING_SCHEMA: SharedToolSchema = {
   name: "media_now_playing",
-  description: "Read current playback and queue status.",
+  description:
+    "Read current playback and queue status, including the position in the current track. Set include_details to also look up album, release year and the lyric lines around the current position (for questions like what album is this or what did they just say).",
   voiceContinuationPolicy: "always",
   parameters: {
     type: "object",
-    properties: {},
+    properties: {
+      include_details: {
+        type: "boolean",
+        description: "Look up album, release year and time-synced lyrics. Slower; only use when asked about the song itself."
+      }
+    },
+    additionalProperties: false
+  }
+};
+
+export const MUSIC_SEEK_SCHEMA: SharedToolSchema = {
+  name: "media_seek",
+  description: "Jump to a position in the currently playing track. Not available for radio streams or while paused.",
+  voiceContinuationPolicy: "fire_and_forget",
+  parameters: {
+    type: "object",
+    properties: {
+      position: {
+        type: "string",
+        description: "Target position as seconds (\"90\") or m:ss (\"1:30\"). Use media_now_playing first for relative jumps."
+      }
+    },
+    required: ["position"],
+    additionalProperties: false
+  }
+};
+
+export const MUSIC_EFFECTS_SCHEMA: SharedToolSchema = {
+  name: "media_effects",
+  description:
+    "Change this server's music playback effects: crossfade between tracks, loudness normalization, speed, pitch and bass boost. Omitted fields keep their current value; call with no fields to read the current effects.",
+  voiceContinuationPolicy: "fire_and_forget",
+  parameters: {
+    type: "object",
+    properties: {
+      crossfade_seconds: { type: "number", minimum: 0, maximum: 12, description: "Crossfade between tracks; 0 turns it off." },
+      loudness_normalization: { type: "boolean", description: "Normalize loudness across tracks (EBU R128)." },
+      speed: { type: "number", minimum: 0.5, maximum: 2, description: "Playback speed; 1 is normal." },
+      pitch_semitones: { type: "number", minimum: -12, maximum: 12, description: "Pitch shift in semitones; 0 is normal." },
+      bass_boost_db: { type: "number", minimum: 0, maximum: 20, description: "Bass boost in dB; 0 turns it off." },
+      reset: { type: "boolean", description: "Reset every effect to default before applying the other fields." }
+    },
     additionalProperties: false
   }
 };
@@ -668,6 +753,8 @@ export const VOICE_TOOL_SCHEMAS: SharedToolSchema[] = [
   MUSIC_REPLY_HANDOFF_SCHEMA,
   MUSIC_SKIP_SCHEMA,
   MUSIC_NOW_PLAYING_SCHEMA,
+  MUSIC_SEEK_SCHEMA,
+  MUSIC_EFFECTS_SCHEMA,
   SHARE_BROWSER_SESSION_SCHEMA,
   STREAM_VISUALIZER_SCHEMA,
   STOP_VIDEO_SHARE_SCHEMA,
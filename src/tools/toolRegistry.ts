@@ -3,6 +3,7 @@ import {
   CODE_TASK_SCHEMA,
   CONVERSATION_SEARCH_SCHEMA,
   IMAGE_LOOKUP_SCHEMA,
+  MEMORY_FORGET_SCHEMA,
   MEMORY_SEARCH_SCHEMA,
   MEMORY_WRITE_SCHEMA,
   SEE_SCREENSHARE_SNAPSHOT_SCHEMA,
@@ -17,14 +18,21 @@ import {
   type SharedToolSchema
 } from "./sharedToolSchemas.ts";
 import {
+  getMcpSettings,
   getMemorySettings,
+  getToolPermissions,
   getVideoContextSettings,
   isBrowserEnabled,
   isDevTaskEnabled,
   isResearchEnabled
 } from "../settings/agentStack.ts";
+import type { McpServerToolListing } from "../mcp/mcpClient.ts";
 
 export type LocalToolSurface = "reply" | "voice_realtime";
+export type ToolSurface = LocalToolSurface | "mcp";
+
+const MCP_TOOL_NAME_PREFIX = "mcp__";
+const MAX_PROVIDER_TOOL_NAME_LEN = 64;
 
 export type ReplyToolAvailability = {
   webSearchAvailable?: boolean;
@@ -39,6 +47,7 @@ export type ReplyToolAvailability = {
   soundboardAvailable?: boolean;
   codeAgentAvailable?: boolean;
   voiceToolsAvailable?: boolean;
+  mcpServers?: McpServerToolListing[];
 };
 
 export type VoiceRealtimeLocalToolAvailability = {
@@ -51,6 +60,12 @@ export type VoiceRealtimeLocalToolAvailability = {
   webSearchAvailable: boolean;
 };
 
+/** Who a tool list is being resolved for; role ids are the requester's guild roles. */
+export type ToolRequester = {
+  userId?: string | null;
+  roleIds?: readonly string[] | null;
+};
+
 type ReplyToolResolverContext = {
   settings: Record<string, unknown>;
   capabilities: ReplyToolAvailability;
@@ -74,6 +89,7 @@ const TOOL_SCHEMA_BY_NAME = new Map(
     BROWSER_BROWSE_SCHEMA,
     MEMORY_SEARCH_SCHEMA,
     MEMORY_WRITE_SCHEMA,
+    MEMORY_FORGET_SCHEMA,
     CONVERSATION_SEARCH_SCHEMA,
     IMAGE_LOOKUP_SCHEMA,
     VIDEO_CONTEXT_SCHEMA,
@@ -136,6 +152,12 @@ const LOCAL_TOOL_REGISTRY: LocalToolRegistryEntry[] = [
       capabilities.memoryAvailable !== false && Boolean(getMemorySettings(settings).enabled),
     isVoiceRealtimeAvailable: ({ capabilities }) => capabilities.memoryAvailable
   },
+  {
+    name: "memory_forget",
+    surfaces: ["reply"],
+    isReplyAvailable: ({ settings, capabilities }) =>
+      capabilities.memoryAvailable !== false && Boolean(getMemorySettings(settings).enabled)
+  },
   {
     name: "conversation_search",
     surfaces: ["reply", "voice_realtime"],
@@ -258,6 +280,18 @@ const LOCAL_TOOL_REGISTRY: LocalToolRegistryEntry[] = [
     isReplyAvailable: ({ capabilities }) => Boolean(capabilities.voiceToolsAvailable),
     isVoiceRealtimeAvailable: () => true
   },
+  {
+    name: "media_seek",
+    surfaces: ["reply", "voice_realtime"],
+    isReplyAvailable: ({ capabilities }) => Boolean(capabilities.voiceToolsAvailable),
+    isVoiceRealtimeAvailable: () => true
+  },
+  {
+    name: "media_effects",
+    surfaces: ["reply", "voice_realtime"],
+    isReplyAvailable: ({ capabilities }) => Boolean(capabilities.voiceToolsAvailable),
+    isVoiceRealtimeAvailable: () => true
+  },
   {
     name: "play_soundboard",
     surfaces: ["reply", "voice_realtime"],
@@ -295,19 +329,136 @@ function resolveToolSchemas(
 
 export function buildReplyToolSchemas(
   settings: Record<string, unknown>,
-  capabilities: ReplyToolAvailability = {}
+  capabilities: ReplyToolAvailability = {},
+  requester: ToolRequester | null = null
 ): SharedToolSchema[] {
-  return resolveToolSchemas(
+  const localSchemas = resolveToolSchemas(
     "reply",
     (entry) => entry.isReplyAvailable?.({ settings, capabilities }) === true
   );
+  return [...localSchemas, ...buildMcpToolSchemas(settings, capabilities.mcpServers || [])]
+    .filter((schema) => isToolPermittedForRequester(settings, "reply", schema.name, requester));
+}
+
+// ── Tool permissions ─────────────────────────────────────────────────
+// permissions.tools.rules restricts individual tools to listed users and
+// guild roles per surface. Tools without a rule stay open to everyone the
+// bot replies to; a rule with no users or roles disables the tool there.
+
+function findToolPermissionRule(settings: Record<string, unknown>, surface: LocalToolSurface, toolName: string) {
+  const normalizedToolName = String(toolName || "").trim();
+  return getToolPermissions(settings).rules.find((rule) =>
+    rule.toolName === normalizedToolName && rule.surfaces.includes(surface)
+  ) || null;
+}
+
+export function isToolPermittedForRequester(
+  settings: Record<string, unknown>,
+  surface: LocalToolSurface,
+  toolName: string,
+  requester: ToolRequester | null = null
+) {
+  const rule = findToolPermissionRule(settings, surface, toolName);
+  if (!rule) return true;
+  const userId = String(requester?.userId || "").trim();
+  if (userId && rule.allowedUserIds.includes(userId)) return true;
+  const roleIds = Array.isArray(requester?.roleIds) ? requester.roleIds : [];
+  return roleIds.some((roleId) => rule.allowedRoleIds.includes(String(roleId)));
+}
+
+export function isToolPermittedForAnyone(
+  settings: Record<string, unknown>,
+  surface: LocalToolSurface,
+  toolName: string
+) {
+  const rule = findToolPermissionRule(settings, surface, toolName);
+  return !rule || rule.allowedUserIds.length > 0 || rule.allowedRoleIds.length > 0;
+}
+
+// ── MCP surface ──────────────────────────────────────────────────────
+// MCP tools are discovered at runtime, so they are not part of
+// LOCAL_TOOL_REGISTRY. Settings decide which servers and tools the text
+// tool loops may see; the same check gates execution.
+
+function sanitizeMcpNameSegment(value: string) {
+  return String(value || "")
+    .trim()
+    .replace(/[^a-zA-Z0-9_-]+/g, "_")
+    .replace(/_+/g, "_");
+}
+
+export function buildMcpToolName(serverName: string, toolName: string) {
+  return `${MCP_TOOL_NAME_PREFIX}${sanitizeMcpNameSegment(serverName)}__${sanitizeMcpNameSegment(toolName)}`
+    .slice(0, MAX_PROVIDER_TOOL_NAME_LEN);
+}
+
+export function isMcpToolName(toolName: string) {
+  return String(toolName || "").startsWith(MCP_TOOL_NAME_PREFIX);
+}
+
+export function isMcpToolAllowed(settings: Record<string, unknown>, serverName: string, toolName: string) {
+  const mcpSettings = getMcpSettings(settings);
+  if (!mcpSettings.enabled) return false;
+  const policy = mcpSettings.servers.find((entry) => entry.serverName === serverName);
+  if (!policy) return true;
+  if (!policy.enabled) return false;
+  return policy.allowedTools.length === 0 || policy.allowedTools.includes(toolName);
+}
+
+export function resolveMcpToolTarget(toolName: string, servers: McpServerToolListing[]) {
+  if (!isMcpToolName(toolName)) return null;
+  for (const server of servers) {
+    for (const tool of server.tools) {
+      if (buildMcpToolName(server.serverName, tool.name) === toolName) {
+        return { serverName: server.serverName, toolName: tool.name };
+      }
+    }
+  }
+  return null;
+}
+
+export function buildMcpToolSchemas(
+  settings: Record<string, unknown>,
+  servers: McpServerToolListing[]
+): SharedToolSchema[] {
+  const seen = new Set<string>();
+  const schemas: SharedToolSchema[] = [];
+  for (const server of servers) {
+    for (const tool of server.tools) {
+      if (!isMcpToolAllowed(settings, server.serverName, tool.name)) continue;
+      const name = buildMcpToolName(server.serverName, tool.name);
+      if (seen.has(name)) continue;
+      seen.add(name);
+      const inputSchema = tool.inputSchema || {};
+      schemas.push({
+        name,
+        description: `[MCP ${server.serverName}] ${tool.description || tool.name}`.slice(0, 1000),
+        parameters: {
+          ...inputSchema,
+          type: "object",
+          properties:
+            inputSchema.properties && typeof inputSchema.properties === "object"
+              ? inputSchema.properties as Record<string, unknown>
+              : {}
+        }
+      });
+    }
+  }
+  return schemas;
 }
 
+/**
+ * Realtime sessions declare one tool list for every speaker, so per-user rules
+ * are checked when a call arrives; here only tools nobody may use are dropped.
+ */
 export function buildVoiceRealtimeLocalToolSchemas(
-  capabilities: VoiceRealtimeLocalToolAvailability
+  capabilities: VoiceRealtimeLocalToolAvailability,
+  settings: Record<string, unknown> | null = null
 ): SharedToolSchema[] {
   return resolveToolSchemas(
     "voice_realtime",
-    (entry) => entry.isVoiceRealtimeAvailable?.({ capabilities }) === true
+    (entry) =>
+      entry.isVoiceRealtimeAvailable?.({ capabilities }) === true &&
+      (!settings || isToolPermittedForAnyone(settings, "voice_realtime", entry.name))
   );
 }
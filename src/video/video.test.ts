@@ -1,6 +1,11 @@
 import { test } from "bun:test";
 import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Store } from "../store/store.ts";
 import { VideoContextService } from "./videoContextService.ts";
+import { chunkVideoTranscript } from "./videoTranscriptChunks.ts";
 
 function createService() {
   const logs = [];
@@ -80,3 +85,183 @@ test("fetchContexts aggregates successes and isolates per-target errors", async
   assert.equal(logs.some((entry) => entry.kind === "video_context_call"), true);
   assert.equal(logs.some((entry) => entry.kind === "video_context_error"), true);
 });
+
+test("resolveAsrProvider falls back to local whisper.cpp when the hosted provider is not ready", () => {
+  const readyProviders = new Set(["local"]);
+  const service = new VideoContextService({
+    store: { logAction() {} },
+    llm: {
+      isAsrReady(provider) {
+        return readyProviders.has(provider);
+      }
+    }
+  });
+
+  assert.equal(service.resolveAsrProvider("openai"), "local");
+  assert.equal(service.resolveAsrProvider("local"), "local");
+  readyProviders.add("openai");
+  assert.equal(service.resolveAsrProvider("openai"), "openai");
+  readyProviders.clear();
+  assert.equal(service.resolveAsrProvider("openai"), null);
+});
+
+const EMBEDDING_VOCAB = ["bread", "sourdough", "starter", "flour", "guitar", "chord", "tuning", "string"];
+
+// Bag-of-words embeddings over a tiny vocabulary; the trailing 1 keeps vectors non-zero.
+function createEmbeddingLlm() {
+  return {
+    isEmbeddingReady() {
+      return true;
+    },
+    resolveEmbeddingModel() {
+      return "test-embed";
+    },
+    async embedText({ text }) {
+      const words = String(text || "").toLowerCase().match(/[a-z]+/g) || [];
+      return {
+        model: "test-embed",
+        embedding: [...EMBEDDING_VOCAB.map((term) => words.filter((word) => word === term).length), 1]
+      };
+    }
+  };
+}
+
+async function withTempStore(run) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-video-context-test-"));
+  const store = new Store(path.join(dir, "clanker.db"));
+  store.init();
+  try {
+    await run(store);
+  } finally {
+    store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function buildSummary({ videoId, title, transcript }) {
+  return {
+    provider: "youtube",
+    kind: "youtube",
+    videoId,
+    url: `https://www.youtube.com/watch?v=${videoId}`,
+    title,
+    channel: "channel",
+    publishedAt: null,
+    durationSeconds: 600,
+    viewCount: null,
+    description: "",
+    transcript,
+    transcriptSource: "captions",
+    transcriptError: null
+  };
+}
+
+async function linkVideo(service, { videoId, title, transcript, guildId, channelId }) {
+  service.fetchBaseSummary = async () => buildSummary({ videoId, title, transcript });
+  const context = await service.fetchVideoContext({
+    target: { key: `youtube:${videoId}`, kind: "youtube", url: `https://youtu.be/${videoId}`, videoId },
+    maxTranscriptChars: 200,
+    keyframeIntervalSeconds: 0,
+    maxKeyframesPerVideo: 0,
+    allowAsrFallback: false,
+    maxAsrSeconds: 120,
+    trace: { guildId, channelId, userId: "user-1", messageId: `msg-${videoId}`, source: "test" }
+  });
+  await Promise.all(service.transcriptIndexing.values());
+  return context;
+}
+
+test("chunkVideoTranscript splits long transcripts on sentence boundaries with overlap", () => {
+  const sentence = "The starter needs flour and water every day. ";
+  const chunks = chunkVideoTranscript(sentence.repeat(60), { chunkChars: 400, overlapChars: 60 });
+
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert.ok(chunk.length <= 400);
+  }
+  assert.equal(chunks[0]?.endsWith("every day."), true);
+  assert.deepEqual(chunkVideoTranscript("   "), []);
+});
+
+test("fetchVideoContext persists summaries so repeated links never refetch across restarts", async () => {
+  await withTempStore(async (store) => {
+    const transcript = "Feed your sourdough starter with flour. ".repeat(40).trim();
+    const first = new VideoContextService({ store, llm: createEmbeddingLlm() });
+    const context = await linkVideo(first, {
+      videoId: "bread01",
+      title: "Bread basics",
+      transcript,
+      guildId: "guild-1",
+      channelId: "chan-1"
+    });
+
+    assert.equal(context.cacheHit, false);
+    assert.ok(context.transcript.length <= 200);
+    assert.equal(store.getVideoContext("youtube:bread01")?.transcript, transcript);
+    assert.ok(store.getVideoTranscriptChunks({ videoKey: "youtube:bread01" }).length > 1);
+    assert.deepEqual(store.getVideoTranscriptChunks({ videoKey: "youtube:bread01", missingVectorModel: "test-embed" }), []);
+
+    const restarted = new VideoContextService({ store, llm: createEmbeddingLlm() });
+    restarted.fetchBaseSummary = async () => {
+      throw new Error("should not refetch a persisted video");
+    };
+    const repeat = await restarted.fetchVideoContext({
+      target: { key: "youtube:bread01", kind: "youtube", url: "https://www.youtube.com/watch?v=bread01", videoId: "bread01" },
+      maxTranscriptChars: 300,
+      keyframeIntervalSeconds: 0,
+      maxKeyframesPerVideo: 0,
+      allowAsrFallback: false,
+      maxAsrSeconds: 120,
+      trace: { guildId: "guild-1", channelId: "chan-2", userId: "user-2", source: "test" }
+    });
+
+    assert.equal(repeat.cacheHit, true);
+    assert.equal(repeat.title, "Bread basics");
+    assert.ok(repeat.transcript.length <= 300);
+    assert.equal(store.getVideoContext("youtube:bread01")?.hitCount, 2);
+  });
+});
+
+test("searchLinkedVideos finds transcripts semantically and falls back to lexical search within scope", async () => {
+  await withTempStore(async (store) => {
+    const service = new VideoContextService({ store, llm: createEmbeddingLlm() });
+    await linkVideo(service, {
+      videoId: "bread01",
+      title: "Weekend baking",
+      transcript: "Today we feed the sourdough starter and mix bread flour.",
+      guildId: "guild-1",
+      channelId: "chan-1"
+    });
+    await linkVideo(service, {
+      videoId: "guitar01",
+      title: "Weekend music",
+      transcript: "Drop D tuning makes this guitar chord easy on the low string.",
+      guildId: "guild-1",
+      channelId: "chan-1"
+    });
+    await linkVideo(service, {
+      videoId: "guitar02",
+      title: "Other server guitar",
+      transcript: "Another guitar chord lesson about tuning.",
+      guildId: "guild-2",
+      channelId: "chan-9"
+    });
+
+    const semantic = await service.searchLinkedVideos({
+      guildId: "guild-1",
+      channelId: "chan-1",
+      queryText: "how do I keep a sourdough starter alive"
+    });
+    assert.equal(semantic[0]?.videoKey, "youtube:bread01");
+    assert.equal(semantic[0]?.userId, "user-1");
+    assert.equal(semantic[0]?.messageId, "msg-bread01");
+
+    const lexicalOnly = new VideoContextService({ store, llm: {} });
+    const lexical = await lexicalOnly.searchLinkedVideos({
+      guildId: "guild-1",
+      queryText: "guitar tuning"
+    });
+    assert.deepEqual(lexical.map((match) => match.videoKey), ["youtube:guitar01"]);
+    assert.match(lexical[0]?.snippet || "", /Drop D tuning/);
+  });
+});
@@ -16,6 +16,7 @@ import {
   parseVideoTarget,
   type VideoTarget
 } from "./videoTargets.ts";
+import { chunkVideoTranscript } from "./videoTranscriptChunks.ts";
 import {
   type ErrorWithAttempts,
   getRetryDelayMs,
@@ -31,6 +32,14 @@ const MAX_FETCH_ATTEMPTS = 3;
 const MAX_FETCH_REDIRECTS = 5;
 const CACHE_TTL_MS = 30 * 60 * 1000;
 
+// Persisted transcripts keep far more text than any single prompt; callers get
+// a clipped copy and the full text is chunked and embedded for search.
+const MAX_STORED_TRANSCRIPT_CHARS = 40_000;
+const MAX_LINKED_VIDEO_QUERY_CHARS = 320;
+const MAX_LINKED_VIDEO_QUERY_TOKENS = 8;
+const DEFAULT_LINKED_VIDEO_SEARCH_LIMIT = 3;
+const LINKED_VIDEO_SEMANTIC_SCORE_FLOOR = 0.2;
+
 // External tool execution timeouts and log-capture bounds.
 const YT_DLP_TIMEOUT_MS = 50_000;
 const FFMPEG_TIMEOUT_MS = 45_000;
@@ -67,6 +76,7 @@ type VideoTrace = {
   guildId?: string | null;
   channelId?: string | null;
   userId?: string | null;
+  messageId?: string | null;
   source?: string;
 };
 
@@ -76,6 +86,7 @@ export class VideoContextService {
   cache;
   toolAvailabilityPromise;
   toolAvailabilityCheckedAt;
+  transcriptIndexing: Map<string, Promise<number>>;
 
   constructor({ store, llm }) {
     this.store = store;
@@ -83,6 +94,7 @@ export class VideoContextService {
     this.cache = new Map();
     this.toolAvailabilityPromise = null;
     this.toolAvailabilityCheckedAt = 0;
+    this.transcriptIndexing = new Map();
   }
 
   logCleanupError(scope: string, error: unknown, metadata: Record<string, unknown> | null = null) {
@@ -152,6 +164,7 @@ export class VideoContextService {
     keyframeIntervalSeconds = DEFAULT_KEYFRAME_INTERVAL_SECONDS,
     maxKeyframesPerVideo = 0,
     allowAsrFallback = false,
+    asrProvider = "openai",
     maxAsrSeconds = DEFAULT_MAX_ASR_SECONDS,
     trace = {}
   }: {
@@ -160,6 +173,7 @@ export class VideoContextService {
     keyframeIntervalSeconds?: number;
     maxKeyframesPerVideo?: number;
     allowAsrFallback?: boolean;
+    asrProvider?: string;
     maxAsrSeconds?: number;
     trace?: VideoTrace;
   }) {
@@ -192,6 +206,7 @@ export class VideoContextService {
           keyframeIntervalSeconds: keyframeInterval,
           maxKeyframesPerVideo: keyframeCount,
           allowAsrFallback: asrEnabled,
+          asrProvider,
           maxAsrSeconds: asrSeconds,
           trace
         });
@@ -255,6 +270,7 @@ export class VideoContextService {
     keyframeIntervalSeconds,
     maxKeyframesPerVideo,
     allowAsrFallback,
+    asrProvider = "openai",
     maxAsrSeconds,
     trace = {}
   }: {
@@ -263,22 +279,27 @@ export class VideoContextService {
     keyframeIntervalSeconds: number;
     maxKeyframesPerVideo: number;
     allowAsrFallback: boolean;
+    asrProvider?: string;
     maxAsrSeconds: number;
     trace?: VideoTrace;
   }) {
     this.pruneCache();
     const cached = this.cache.get(target.key);
     const hasFreshCache = cached && Date.now() - cached.cachedAt < CACHE_TTL_MS;
+    const stored = hasFreshCache ? null : this.loadStoredSummary(target.key);
     let base = null;
-    if (hasFreshCache) {
+    if (hasFreshCache || stored) {
       base = {
-        ...cached.value,
+        ...(hasFreshCache ? cached.value : stored),
         cacheHit: true
       };
+      if (!hasFreshCache) {
+        this.cache.set(target.key, { cachedAt: Date.now(), value: stored });
+      }
     } else {
       const fetched = await this.fetchBaseSummary({
         target,
-        maxTranscriptChars
+        maxTranscriptChars: MAX_STORED_TRANSCRIPT_CHARS
       });
       base = {
         ...fetched,
@@ -291,12 +312,15 @@ export class VideoContextService {
           cacheHit: false
         }
       });
+      this.persistSummary(target.key, fetched, trace);
     }
+    this.recordLink(target.key, trace);
 
     const needKeyframes = Number(keyframeIntervalSeconds) > 0 && Number(maxKeyframesPerVideo) > 0;
     const shouldAsr = Boolean(allowAsrFallback) && !String(base.transcript || "").trim();
     const context = {
       ...base,
+      transcript: sanitizeText(base.transcript, maxTranscriptChars),
       keyframeCount: 0,
       keyframeError: null,
       frameImages: []
@@ -340,14 +364,24 @@ export class VideoContextService {
         try {
           const transcript = await this.transcribeFromInput({
             input: media.input,
+            asrProvider,
             maxAsrSeconds,
-            maxTranscriptChars,
+            maxTranscriptChars: MAX_STORED_TRANSCRIPT_CHARS,
             trace
           });
           if (transcript) {
-            context.transcript = transcript;
+            context.transcript = sanitizeText(transcript, maxTranscriptChars);
             context.transcriptSource = "asr";
             context.transcriptError = null;
+            const summary = {
+              ...base,
+              transcript,
+              transcriptSource: "asr",
+              transcriptError: null,
+              cacheHit: false
+            };
+            this.cache.set(target.key, { cachedAt: Date.now(), value: summary });
+            this.persistSummary(target.key, summary, trace);
           }
         } catch (error) {
           if (!context.transcriptError) {
@@ -372,6 +406,185 @@ export class VideoContextService {
     return context;
   }
 
+  loadStoredSummary(videoKey: string) {
+    if (typeof this.store?.getVideoContext !== "function") return null;
+    try {
+      const stored = this.store.getVideoContext(videoKey);
+      if (!stored) return null;
+      return {
+        provider: stored.provider,
+        kind: stored.kind,
+        videoId: stored.videoId,
+        url: stored.url,
+        title: stored.title,
+        channel: stored.channel,
+        publishedAt: stored.publishedAt,
+        durationSeconds: stored.durationSeconds,
+        viewCount: stored.viewCount,
+        description: stored.description,
+        transcript: stored.transcript,
+        transcriptSource: stored.transcriptSource,
+        transcriptError: stored.transcriptError,
+        cacheHit: true
+      };
+    } catch (error) {
+      this.logCleanupError("video_context_load_failed", error, { key: videoKey });
+      return null;
+    }
+  }
+
+  persistSummary(videoKey: string, summary, trace: VideoTrace = {}) {
+    if (typeof this.store?.saveVideoContext !== "function") return;
+    const transcriptChunks = chunkVideoTranscript(summary?.transcript);
+    try {
+      this.store.saveVideoContext({ videoKey, context: summary, transcriptChunks });
+    } catch (error) {
+      this.logCleanupError("video_context_persist_failed", error, { key: videoKey });
+      return;
+    }
+    if (transcriptChunks.length) {
+      void this.indexTranscript(videoKey, trace);
+    }
+  }
+
+  recordLink(videoKey: string, trace: VideoTrace = {}) {
+    if (typeof this.store?.recordVideoContextLink !== "function") return;
+    try {
+      this.store.recordVideoContextLink({
+        videoKey,
+        guildId: trace.guildId || null,
+        channelId: String(trace.channelId || ""),
+        userId: trace.userId || null,
+        messageId: trace.messageId || null
+      });
+    } catch (error) {
+      this.logCleanupError("video_context_link_failed", error, { key: videoKey });
+    }
+  }
+
+  /**
+   * Embeds transcript chunks that have no vector for the configured embedding
+   * model yet. Concurrent calls for the same video share one run.
+   */
+  indexTranscript(videoKey: string, trace: VideoTrace = {}): Promise<number> {
+    const inflight = this.transcriptIndexing.get(videoKey);
+    if (inflight) return inflight;
+    const run = this.embedTranscriptChunks(videoKey, trace)
+      .catch((error) => {
+        this.logCleanupError("video_transcript_index_failed", error, { key: videoKey });
+        return 0;
+      })
+      .finally(() => {
+        this.transcriptIndexing.delete(videoKey);
+      });
+    this.transcriptIndexing.set(videoKey, run);
+    return run;
+  }
+
+  async embedTranscriptChunks(videoKey: string, trace: VideoTrace = {}) {
+    if (
+      typeof this.store?.getVideoTranscriptChunks !== "function" ||
+      typeof this.store?.upsertVideoTranscriptVectorNative !== "function"
+    ) {
+      return 0;
+    }
+    const settings = this.store.getSettings?.() || null;
+    if (!this.llm?.isEmbeddingReady?.(settings)) return 0;
+
+    const model = String(this.llm.resolveEmbeddingModel?.(settings) || "").trim() || null;
+    const chunks = this.store.getVideoTranscriptChunks({ videoKey, missingVectorModel: model });
+    let indexed = 0;
+    for (const chunk of chunks) {
+      const embedded = await this.llm.embedText({
+        settings,
+        text: chunk.content,
+        trace: {
+          guildId: trace.guildId || null,
+          channelId: trace.channelId || null,
+          userId: trace.userId || null,
+          source: "video_transcript_embed"
+        }
+      });
+      const vector = Array.isArray(embedded?.embedding) ? embedded.embedding.map((value) => Number(value)) : [];
+      const embeddedModel = String(embedded?.model || "").trim();
+      if (!vector.length || !embeddedModel) continue;
+      this.store.upsertVideoTranscriptVectorNative({
+        videoKey,
+        chunkIndex: chunk.chunkIndex,
+        model: embeddedModel,
+        embedding: vector
+      });
+      indexed += 1;
+    }
+    return indexed;
+  }
+
+  /**
+   * Finds previously linked videos whose transcript or title matches a query,
+   * scoped to a guild (or a DM channel). Semantic when embeddings are ready,
+   * lexical otherwise.
+   */
+  async searchLinkedVideos({
+    guildId = null,
+    channelId = null,
+    queryText,
+    settings = null,
+    trace = {},
+    limit = DEFAULT_LINKED_VIDEO_SEARCH_LIMIT,
+    maxAgeHours
+  }: {
+    guildId?: string | null;
+    channelId?: string | null;
+    queryText: string;
+    settings?: Record<string, unknown> | null;
+    trace?: VideoTrace;
+    limit?: number;
+    maxAgeHours?: number;
+  }) {
+    const query = String(queryText || "").replace(/\s+/g, " ").trim().slice(0, MAX_LINKED_VIDEO_QUERY_CHARS);
+    if (!query || (!guildId && !channelId)) return [];
+
+    if (
+      this.llm?.isEmbeddingReady?.(settings) &&
+      typeof this.store?.searchVideoTranscriptsByEmbedding === "function"
+    ) {
+      try {
+        const embedded = await this.llm.embedText({
+          settings,
+          text: query,
+          trace: {
+            guildId: trace.guildId || guildId,
+            channelId: trace.channelId || channelId,
+            userId: trace.userId || null,
+            source: trace.source || "video_transcript_query"
+          }
+        });
+        const vector = Array.isArray(embedded?.embedding) ? embedded.embedding.map((value) => Number(value)) : [];
+        const model = String(embedded?.model || "").trim();
+        if (vector.length && model) {
+          const matches = this.store
+            .searchVideoTranscriptsByEmbedding({ guildId, channelId, queryEmbedding: vector, model, limit, maxAgeHours })
+            .filter((match) => Number(match.score) >= LINKED_VIDEO_SEMANTIC_SCORE_FLOOR);
+          if (matches.length) return matches;
+        }
+      } catch {
+        // Fall back to lexical transcript search below.
+      }
+    }
+
+    if (typeof this.store?.searchVideoTranscripts !== "function") return [];
+    const normalizedQuery = query.toLowerCase();
+    const queryTokens = [...new Set(normalizedQuery.match(/[a-z0-9]{3,}/g) || [])].slice(0, MAX_LINKED_VIDEO_QUERY_TOKENS);
+    return this.store.searchVideoTranscripts({
+      guildId,
+      channelId,
+      queryText: normalizedQuery,
+      queryTokens,
+      limit,
+      maxAgeHours
+    });
+  }
+
   pruneCache() {
     const now = Date.now();
     for (const [key, entry] of this.cache.entries()) {
@@ -758,13 +971,27 @@ export class VideoContextService {
     }
   }
 
+  /**
+   * Picks the ASR provider for a video: the configured one when it is ready,
+   * otherwise the local whisper.cpp provider so transcription keeps working
+   * without a hosted key. Returns null when nothing is ready.
+   */
+  resolveAsrProvider(configuredProvider: string) {
+    const provider = String(configuredProvider || "openai").trim().toLowerCase() || "openai";
+    if (this.llm?.isAsrReady?.(provider)) return provider;
+    if (provider !== "local" && this.llm?.isAsrReady?.("local")) return "local";
+    return null;
+  }
+
   async transcribeFromInput({
     input,
+    asrProvider = "openai",
     maxAsrSeconds,
     maxTranscriptChars,
     trace = {}
   }: {
     input: string;
+    asrProvider?: string;
     maxAsrSeconds: number;
     maxTranscriptChars: number;
     trace?: VideoTrace;
@@ -772,8 +999,13 @@ export class VideoContextService {
     if (!(await this.hasFfmpeg())) {
       throw new Error("ffmpeg is not installed.");
     }
-    if (!this.llm?.isAsrReady?.()) {
-      throw new Error("ASR fallback requires OPENAI_API_KEY.");
+    const provider = this.resolveAsrProvider(asrProvider);
+    if (!provider) {
+      throw new Error(
+        asrProvider === "local"
+          ? "ASR fallback requires a whisper.cpp binary and model (WHISPER_CPP_BIN, WHISPER_CPP_MODEL)."
+          : "ASR fallback requires OPENAI_API_KEY or a local whisper.cpp model."
+      );
     }
 
     const segmentSeconds = clamp(
@@ -808,6 +1040,8 @@ export class VideoContextService {
 
       const transcript = await this.llm.transcribeAudio({
         filePath: audioPath,
+        provider,
+        ...(provider === "openai" ? {} : { model: "" }),
         trace: {
           ...trace,
           source: trace.source || "video_context_asr"
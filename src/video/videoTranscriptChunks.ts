@@ -0,0 +1,50 @@
+// Transcript chunking for the persisted video transcript index.
+const DEFAULT_CHUNK_CHARS = 1_200;
+const DEFAULT_CHUNK_OVERLAP_CHARS = 150;
+const MIN_CHUNK_CHARS = 200;
+export const MAX_TRANSCRIPT_CHUNKS = 40;
+
+/**
+ * Splits a transcript into overlapping chunks, breaking on sentence ends (or
+ * word boundaries) so each chunk embeds as a coherent passage.
+ */
+export function chunkVideoTranscript(
+  transcript: string,
+  {
+    chunkChars = DEFAULT_CHUNK_CHARS,
+    overlapChars = DEFAULT_CHUNK_OVERLAP_CHARS,
+    maxChunks = MAX_TRANSCRIPT_CHUNKS
+  }: {
+    chunkChars?: number;
+    overlapChars?: number;
+    maxChunks?: number;
+  } = {}
+): string[] {
+  const text = String(transcript || "").replace(/\s+/g, " ").trim();
+  if (!text) return [];
+  const size = Math.max(MIN_CHUNK_CHARS, Math.floor(Number(chunkChars) || DEFAULT_CHUNK_CHARS));
+  const overlap = Math.max(0, Math.min(Math.floor(size / 2), Math.floor(Number(overlapChars) || 0)));
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length && chunks.length < maxChunks) {
+    let end = Math.min(text.length, start + size);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const sentenceEnd = Math.max(window.lastIndexOf(". "), window.lastIndexOf("? "), window.lastIndexOf("! "));
+      const wordEnd = window.lastIndexOf(" ");
+      // Only break early when it keeps the chunk at least half full.
+      if (sentenceEnd >= size / 2) end = start + sentenceEnd + 1;
+      else if (wordEnd >= size / 2) end = start + wordEnd;
+    }
+    const chunk = text.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= text.length) break;
+
+    let next = Math.max(start + 1, end - overlap);
+    const nextSpace = text.indexOf(" ", next);
+    if (overlap > 0 && nextSpace > next && nextSpace < end) next = nextSpace + 1;
+    start = next;
+  }
+  return chunks;
+}
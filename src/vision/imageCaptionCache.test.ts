@@ -1,5 +1,9 @@
 import { test, describe } from "node:test";
 import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Store } from "../store/store.ts";
 import { ImageCaptionCache } from "./imageCaptionCache.ts";
 
 
@@ -285,3 +289,131 @@ describe("ImageCaptionCache hasOrInflight", () => {
         assert.equal(cache.has("https://example.com/inflight.jpg"), true);
     });
 });
+
+
+// --- Persistent captions ---
+
+describe("ImageCaptionCache with a store", () => {
+    const MEME_HASH = "dhash:ff00ff00ff00ff00";
+    // One bit away: the same meme re-encoded by another upload.
+    const REPOST_HASH = "dhash:ff00ff00ff00ff01";
+
+    async function withTempStore(run: (store: Store) => Promise<void>) {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-caption-cache-test-"));
+        const store = new Store(path.join(dir, "clanker.db"));
+        store.init();
+        try {
+            await run(store);
+        } finally {
+            store.close();
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    }
+
+    function createCache(store: Store, hashesByUrl: Record<string, string>, fetched: string[] = []) {
+        return new ImageCaptionCache({
+            store,
+            fetchImage: async (url) => {
+                fetched.push(url);
+                return { dataBase64: Buffer.from(url).toString("base64"), mimeType: "image/png" };
+            },
+            // The fake bytes are the fetched URL; CDN query tokens do not change the image.
+            fingerprint: async (bytes) => hashesByUrl[Buffer.from(bytes).toString().split("?")[0]] || `sha256:${bytes.length}`
+        });
+    }
+
+    function createLlm(captions: string[]) {
+        const calls: unknown[] = [];
+        return {
+            calls,
+            llm: {
+                isProviderConfigured: () => true,
+                generate: async (payload: { imageInputs?: unknown[] }) => {
+                    calls.push(payload.imageInputs?.[0]);
+                    return { text: captions[calls.length - 1] || "", provider: "anthropic", model: "claude-haiku-4-5" };
+                }
+            }
+        };
+    }
+
+    test("captions survive a restart and re-posts under other URLs reuse them", async () => {
+        await withTempStore(async (store) => {
+            const original = "https://cdn.discordapp.com/attachments/1/2/meme.png";
+            const repost = "https://media.discordapp.net/attachments/9/8/meme-copy.webp";
+            const hashes = { [original]: MEME_HASH, [repost]: REPOST_HASH };
+            const { llm, calls } = createLlm(["A cat staring at a cucumber in horror"]);
+
+            const first = await createCache(store, hashes).getOrCaption({
+                url: `${original}?ex=abc`,
+                llm,
+                trace: { guildId: "guild-1", channelId: "chan-1", messageId: "msg-1", source: "test" }
+            });
+            assert.equal(first?.caption, "A cat staring at a cucumber in horror");
+            assert.equal(first?.imageHash, MEME_HASH);
+            // The caption call gets the fetched bytes rather than the URL.
+            assert.deepEqual(calls, [{ mediaType: "image/png", dataBase64: Buffer.from(`${original}?ex=abc`).toString("base64") }]);
+
+            // A fresh cache stands in for a restart: the URL hit needs neither a fetch nor a caption call.
+            const fetched: string[] = [];
+            const restarted = createCache(store, hashes, fetched);
+            assert.equal(restarted.get(original)?.caption, "A cat staring at a cucumber in horror");
+            assert.equal(restarted.has(`${original}?ex=other`), true);
+
+            const reposted = await restarted.getOrCaption({
+                url: repost,
+                llm,
+                trace: { guildId: "guild-2", channelId: "chan-9", source: "test" }
+            });
+            assert.equal(reposted?.caption, "A cat staring at a cucumber in horror");
+            assert.deepEqual(fetched, [repost]);
+            assert.equal(calls.length, 1);
+            assert.equal(store.getImageCaptionByHash(MEME_HASH)?.hitCount, 1);
+        });
+    });
+
+    test("images far from any stored hash are captioned separately", async () => {
+        await withTempStore(async (store) => {
+            const hashes = {
+                "https://example.com/a.png": MEME_HASH,
+                "https://example.com/b.png": "dhash:00ff00ff00ff00ff"
+            };
+            const { llm, calls } = createLlm(["A cat meme", "A bar chart of GPU prices"]);
+            const cache = createCache(store, hashes);
+
+            await cache.getOrCaption({ url: "https://example.com/a.png", llm });
+            const chart = await cache.getOrCaption({ url: "https://example.com/b.png", llm });
+            assert.equal(chart?.caption, "A bar chart of GPU prices");
+            assert.equal(calls.length, 2);
+        });
+    });
+
+    test("search matches captions of images seen in the same guild", async () => {
+        await withTempStore(async (store) => {
+            const hashes = {
+                "https://example.com/cat.png": MEME_HASH,
+                "https://example.com/dm.png": "dhash:0f0f0f0f0f0f0f0f"
+            };
+            const { llm } = createLlm(["A ginger cat asleep on a keyboard", "A ginger cat in a DM"]);
+            const cache = createCache(store, hashes);
+            await cache.getOrCaption({
+                url: "https://example.com/cat.png",
+                llm,
+                trace: { guildId: "guild-1", channelId: "chan-1", messageId: "msg-7" }
+            });
+            await cache.getOrCaption({
+                url: "https://example.com/dm.png",
+                llm,
+                trace: { guildId: null, channelId: "dm-1" }
+            });
+
+            const matches = cache.search({ query: "that cat on the keyboard", guildId: "guild-1" });
+            assert.deepEqual(
+                matches.map((match) => [match.url, match.messageId, match.caption]),
+                [["https://example.com/cat.png", "msg-7", "A ginger cat asleep on a keyboard"]]
+            );
+            assert.deepEqual(cache.search({ query: "cat", guildId: "guild-2" }), []);
+            assert.equal(cache.search({ query: "ginger cat", channelId: "dm-1" })[0]?.caption, "A ginger cat in a DM");
+            assert.deepEqual(new ImageCaptionCache().search({ query: "cat", guildId: "guild-1" }), []);
+        });
+    });
+});
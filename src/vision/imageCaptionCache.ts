@@ -4,54 +4,125 @@
  * Each image URL is captioned at most once. Subsequent lookups return the
  * cached caption until it expires or the cache is evicted.
  *
+ * With a store attached, captions are also persisted in SQLite keyed by a
+ * perceptual hash of the image bytes, so restarts, re-uploads under different
+ * CDN URLs and re-posts in other channels reuse the first caption. The
+ * in-memory map stays in front of the store as a hot cache.
+ *
  * Concurrent requests for the same URL are coalesced — only one vision call
  * fires, and all waiters receive the same result.
  */
 
-import { captionImage } from "./captionImage.ts";
+import { captionImage, fetchImageAsBase64 } from "./captionImage.ts";
+import { computeImageFingerprint, DEFAULT_PERCEPTUAL_HASH_MAX_DISTANCE } from "./perceptualHash.ts";
 
 const DEFAULT_MAX_ENTRIES = 200;
 const DEFAULT_TTL_MS = 60 * 60 * 1000; // 1 hour
+const MAX_SEARCH_QUERY_TOKENS = 7;
 
 interface CachedCaption {
     caption: string;
     captionedAt: number;
     provider: string | null;
     model: string | null;
+    imageHash?: string | null;
+}
+
+interface StoredImageCaption {
+    imageHash: string;
+    caption: string;
+    provider: string | null;
+    model: string | null;
+    mimeType: string | null;
+    url: string | null;
+    guildId: string | null;
+    channelId: string | null;
+    messageId: string | null;
+    createdAt: string;
+    lastSeenAt: string;
+}
+
+interface ImageCaptionSighting {
+    urlKey: string;
+    url: string;
+    guildId?: string | null;
+    channelId?: string | null;
+    messageId?: string | null;
+}
+
+export interface ImageCaptionStoreLike {
+    getImageCaptionByUrl: (urlKey: string) => StoredImageCaption | null;
+    findSimilarImageCaption: (opts: { imageHash: string; maxDistance: number }) => StoredImageCaption | null;
+    recordImageCaptionSighting: (opts: { imageHash: string; sighting: ImageCaptionSighting }) => void;
+    saveImageCaption: (opts: {
+        imageHash: string;
+        caption: string;
+        provider?: string | null;
+        model?: string | null;
+        mimeType?: string | null;
+        sighting: ImageCaptionSighting;
+    }) => unknown;
+    searchImageCaptions: (opts: {
+        guildId?: string | null;
+        channelId?: string | null;
+        queryText?: string;
+        queryTokens?: string[];
+        limit?: number;
+    }) => Array<StoredImageCaption & { score: number }>;
 }
 
+type FetchedImage = { dataBase64: string; mimeType: string };
+
 export class ImageCaptionCache {
     private cache: Map<string, CachedCaption>;
     private inflight: Map<string, Promise<CachedCaption | null>>;
     private maxEntries: number;
     private defaultTtlMs: number;
+    private store: ImageCaptionStoreLike | null;
+    private maxHashDistance: number;
+    private fetchImage: (url: string) => Promise<FetchedImage | null>;
+    private fingerprint: (bytes: Uint8Array) => Promise<string>;
 
     constructor({
         maxEntries = DEFAULT_MAX_ENTRIES,
-        defaultTtlMs = DEFAULT_TTL_MS
+        defaultTtlMs = DEFAULT_TTL_MS,
+        store = null,
+        maxHashDistance = DEFAULT_PERCEPTUAL_HASH_MAX_DISTANCE,
+        fetchImage = fetchImageAsBase64,
+        fingerprint = computeImageFingerprint
+    }: {
+        maxEntries?: number;
+        defaultTtlMs?: number;
+        store?: ImageCaptionStoreLike | null;
+        maxHashDistance?: number;
+        fetchImage?: (url: string) => Promise<FetchedImage | null>;
+        fingerprint?: (bytes: Uint8Array) => Promise<string>;
     } = {}) {
         this.cache = new Map();
         this.inflight = new Map();
         this.maxEntries = Math.max(10, Number(maxEntries) || DEFAULT_MAX_ENTRIES);
         this.defaultTtlMs = Math.max(1, Number(defaultTtlMs) || DEFAULT_TTL_MS);
+        this.store = store;
+        this.maxHashDistance = Math.max(0, Math.floor(Number(maxHashDistance) || 0));
+        this.fetchImage = fetchImage;
+        this.fingerprint = fingerprint;
     }
 
     /**
-     * Get a cached caption by URL without generating.
+     * Get a cached caption by URL without generating. Falls back to captions
+     * persisted for the same URL when a store is attached.
      */
     get(rawUrl: string): CachedCaption | null {
         const key = normalizeUrl(rawUrl);
         if (!key) return null;
-        return this.cache.get(key) || null;
+        return this.cache.get(key) || this.loadStoredByUrl(key);
     }
 
     /**
      * Check if a URL has a cached caption.
      */
     has(rawUrl: string): boolean {
-        const key = normalizeUrl(rawUrl);
-        if (!key) return false;
-        return this.cache.has(key);
+        return this.get(rawUrl) !== null;
     }
 
     /**
@@ -60,7 +131,29 @@ export class ImageCaptionCache {
     hasOrInflight(rawUrl: string): boolean {
         const key = normalizeUrl(rawUrl);
         if (!key) return false;
-        return this.cache.has(key) || this.inflight.has(key);
+        return this.inflight.has(key) || this.get(rawUrl) !== null;
+    }
+
+    /**
+     * Search persisted captions for images seen in a guild (or a DM channel).
+     * Returns an empty list without a store.
+     */
+    search({
+        query,
+        guildId = null,
+        channelId = null,
+        limit = 6
+    }: {
+        query: string;
+        guildId?: string | null;
+        channelId?: string | null;
+        limit?: number;
+    }) {
+        if (!this.store) return [];
+        const queryText = String(query || "").replace(/\s+/g, " ").trim().toLowerCase();
+        if (!queryText) return [];
+        const queryTokens = [...new Set(queryText.match(/[a-z0-9]{3,}/g) || [])].slice(0, MAX_SEARCH_QUERY_TOKENS);
+        return this.store.searchImageCaptions({ guildId, channelId, queryText, queryTokens, limit });
     }
 
     /**
@@ -83,8 +176,8 @@ export class ImageCaptionCache {
         const key = normalizeUrl(url);
         if (!key) return null;
 
-        // Cache hit
-        const existing = this.cache.get(key);
+        // Cache hit (memory, then persisted captions for this URL)
+        const existing = this.cache.get(key) || this.loadStoredByUrl(key);
         if (existing) return existing;
 
         // Coalesce concurrent requests
@@ -160,23 +253,69 @@ export class ImageCaptionCache {
         mimeType: string,
         trace: Record<string, unknown> | null
     ): Promise<CachedCaption | null> {
+        // Persistence needs the image bytes for the fingerprint. Without a store,
+        // or when the fetch fails, the provider fetches the URL itself and the
+        // caption only lives in memory.
+        const image = this.store ? await this.fetchImage(url) : null;
+        if (!this.store || !image) {
+            const result = await captionImage({ llm, settings, url, mimeType, trace });
+            if (!result?.caption) return null;
+            return this.remember(key, {
+                caption: result.caption,
+                captionedAt: Date.now(),
+                provider: result.provider || null,
+                model: result.model || null
+            });
+        }
+
+        const imageHash = await this.fingerprint(Buffer.from(image.dataBase64, "base64"));
+        const sighting: ImageCaptionSighting = {
+            urlKey: key,
+            url,
+            guildId: readTraceId(trace, "guildId"),
+            channelId: readTraceId(trace, "channelId"),
+            messageId: readTraceId(trace, "messageId")
+        };
+
+        const similar = this.store.findSimilarImageCaption({ imageHash, maxDistance: this.maxHashDistance });
+        if (similar) {
+            this.store.recordImageCaptionSighting({ imageHash: similar.imageHash, sighting });
+            return this.remember(key, toCachedCaption(similar));
+        }
+
+        const resolvedMimeType = image.mimeType || mimeType;
         const result = await captionImage({
             llm,
             settings,
-            url,
-            mimeType,
+            dataBase64: image.dataBase64,
+            mimeType: resolvedMimeType,
             trace
         });
-
         if (!result?.caption) return null;
 
-        const entry: CachedCaption = {
+        this.store.saveImageCaption({
+            imageHash,
+            caption: result.caption,
+            provider: result.provider || null,
+            model: result.model || null,
+            mimeType: resolvedMimeType || null,
+            sighting
+        });
+        return this.remember(key, {
             caption: result.caption,
             captionedAt: Date.now(),
             provider: result.provider || null,
-            model: result.model || null
-        };
+            model: result.model || null,
+            imageHash
+        });
+    }
+
+    private loadStoredByUrl(key: string): CachedCaption | null {
+        const stored = this.store?.getImageCaptionByUrl(key);
+        return stored ? this.remember(key, toCachedCaption(stored)) : null;
+    }
 
+    private remember(key: string, entry: CachedCaption): CachedCaption {
         this.enforceMaxEntries();
         this.cache.set(key, entry);
         return entry;
@@ -197,6 +336,21 @@ export class ImageCaptionCache {
     }
 }
 
+function toCachedCaption(stored: StoredImageCaption): CachedCaption {
+    return {
+        caption: stored.caption,
+        captionedAt: Date.parse(stored.createdAt) || Date.now(),
+        provider: stored.provider,
+        model: stored.model,
+        imageHash: stored.imageHash
+    };
+}
+
+function readTraceId(trace: Record<string, unknown> | null, field: string): string | null {
+    const value = String(trace?.[field] ?? "").trim();
+    return value || null;
+}
+
 function normalizeUrl(rawUrl: unknown): string {
     const text = String(rawUrl || "").trim();
     if (!text) return "";
@@ -0,0 +1,54 @@
+import { test } from "bun:test";
+import assert from "node:assert/strict";
+import {
+    DHASH_HEIGHT,
+    DHASH_WIDTH,
+    computeDHash,
+    fingerprintFromThumbnail,
+    perceptualHashDistance
+} from "./perceptualHash.ts";
+
+function gradientThumbnail(tweak: (row: number, col: number) => number = () => 0) {
+    const pixels = new Uint8Array(DHASH_WIDTH * DHASH_HEIGHT);
+    for (let row = 0; row < DHASH_HEIGHT; row++) {
+        for (let col = 0; col < DHASH_WIDTH; col++) {
+            // Brightness falls left-to-right on even rows and rises on odd rows.
+            const base = row % 2 === 0 ? 200 - col * 20 : 20 + col * 20;
+            pixels[row * DHASH_WIDTH + col] = base + tweak(row, col);
+        }
+    }
+    return pixels;
+}
+
+test("computeDHash encodes left-brighter-than-right bits row by row", () => {
+    assert.equal(computeDHash(gradientThumbnail()), "ff00ff00ff00ff00");
+    assert.equal(computeDHash(new Uint8Array(10)), null);
+});
+
+test("re-encoded copies stay within a few bits while different images do not", () => {
+    const original = fingerprintFromThumbnail(new Uint8Array([1]), gradientThumbnail());
+    // Recompression noise nudges a couple of pixels across their neighbours.
+    const recompressed = fingerprintFromThumbnail(
+        new Uint8Array([2]),
+        gradientThumbnail((row, col) => (row === 1 && col === 3 ? 25 : 0))
+    );
+    const mirrored = fingerprintFromThumbnail(
+        new Uint8Array([3]),
+        gradientThumbnail((row, col) => (row % 2 === 0 ? col * 40 - 160 : 160 - col * 40))
+    );
+
+    assert.equal(original, "dhash:ff00ff00ff00ff00");
+    assert.ok(perceptualHashDistance(original, recompressed) <= 2);
+    assert.equal(perceptualHashDistance(original, mirrored), 64);
+});
+
+test("undecodable and flat images fall back to an exact byte hash", () => {
+    const bytes = new TextEncoder().encode("not really a png");
+    const undecoded = fingerprintFromThumbnail(bytes, null);
+    const flat = fingerprintFromThumbnail(bytes, new Uint8Array(DHASH_WIDTH * DHASH_HEIGHT).fill(128));
+
+    assert.match(undecoded, /^sha256:[0-9a-f]{64}$/);
+    assert.equal(flat, undecoded);
+    assert.equal(perceptualHashDistance(undecoded, fingerprintFromThumbnail(new Uint8Array([9]), null)), Infinity);
+    assert.equal(perceptualHashDistance(undecoded, undecoded), 0);
+});
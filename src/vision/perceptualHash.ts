@@ -0,0 +1,145 @@
+/**
+ * Perceptual image fingerprints for caption dedupe.
+ *
+ * Images are fingerprinted with a 64-bit difference hash (dHash): the image is
+ * shrunk to 9x8 grayscale and each bit records whether a pixel is brighter
+ * than its right neighbour. Re-encoded, resized or re-uploaded copies of the
+ * same image land within a few bits of each other.
+ *
+ * Decoding goes through ffmpeg. When ffmpeg is missing or cannot decode the
+ * bytes, the fingerprint falls back to a SHA-256 of the raw bytes, which still
+ * dedupes byte-identical re-posts.
+ */
+
+import { createHash } from "node:crypto";
+
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+
+/** Bit distance at or under which two dHashes are treated as the same image. */
+export const DEFAULT_PERCEPTUAL_HASH_MAX_DISTANCE = 4;
+
+const DHASH_PREFIX = "dhash:";
+const SHA256_PREFIX = "sha256:";
+const IMAGE_DECODE_TIMEOUT_MS = 4_000;
+
+/** Flat or near-flat images hash to (almost) all zeros or ones and would collide with each other. */
+const MIN_DHASH_SET_BITS = 3;
+const MAX_DHASH_SET_BITS = 61;
+
+let cachedFfmpegPath: string | null | undefined;
+
+function resolveFfmpegPath(): string | null {
+    if (cachedFfmpegPath !== undefined) return cachedFfmpegPath;
+    cachedFfmpegPath =
+        typeof Bun !== "undefined" && typeof Bun.which === "function"
+            ? Bun.which("ffmpeg") || null
+            : null;
+    return cachedFfmpegPath;
+}
+
+/**
+ * Compute a dHash from a row-major 9x8 grayscale thumbnail.
+ * Returns 16 hex characters, or null when the pixel buffer is the wrong size.
+ */
+export function computeDHash(pixels: Uint8Array): string | null {
+    if (!pixels || pixels.length !== DHASH_WIDTH * DHASH_HEIGHT) return null;
+    let hash = 0n;
+    for (let row = 0; row < DHASH_HEIGHT; row++) {
+        for (let col = 0; col < DHASH_WIDTH - 1; col++) {
+            const left = pixels[row * DHASH_WIDTH + col];
+            const right = pixels[row * DHASH_WIDTH + col + 1];
+            hash = (hash << 1n) | (left > right ? 1n : 0n);
+        }
+    }
+    return hash.toString(16).padStart(16, "0");
+}
+
+function countSetBits(value: bigint) {
+    let count = 0;
+    let remaining = value;
+    while (remaining > 0n) {
+        count += Number(remaining & 1n);
+        remaining >>= 1n;
+    }
+    return count;
+}
+
+/**
+ * Bit distance between two fingerprints. Only dHash fingerprints have a
+ * meaningful distance; any other pair is 0 when identical and Infinity otherwise.
+ */
+export function perceptualHashDistance(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!isPerceptualHash(a) || !isPerceptualHash(b)) return Number.POSITIVE_INFINITY;
+    const left = BigInt(`0x${a.slice(DHASH_PREFIX.length)}`);
+    const right = BigInt(`0x${b.slice(DHASH_PREFIX.length)}`);
+    return countSetBits(left ^ right);
+}
+
+export function isPerceptualHash(fingerprint: string) {
+    return String(fingerprint || "").startsWith(DHASH_PREFIX);
+}
+
+/** Fingerprint from already-decoded thumbnail pixels, falling back to the byte hash. */
+export function fingerprintFromThumbnail(bytes: Uint8Array, thumbnail: Uint8Array | null): string {
+    const dhash = thumbnail ? computeDHash(thumbnail) : null;
+    if (dhash) {
+        const setBits = countSetBits(BigInt(`0x${dhash}`));
+        if (setBits >= MIN_DHASH_SET_BITS && setBits <= MAX_DHASH_SET_BITS) {
+            return `${DHASH_PREFIX}${dhash}`;
+        }
+    }
+    return `${SHA256_PREFIX}${createHash("sha256").update(bytes).digest("hex")}`;
+}
+
+/**
+ * Decode image bytes to a 9x8 grayscale thumbnail with ffmpeg.
+ * Returns null when ffmpeg is unavailable, times out or cannot decode the input.
+ */
+export async function decodeDHashThumbnail(bytes: Uint8Array): Promise<Uint8Array | null> {
+    const ffmpegPath = resolveFfmpegPath();
+    if (!ffmpegPath || !bytes?.length) return null;
+
+    const process = Bun.spawn(
+        [
+            ffmpegPath,
+            "-loglevel", "error",
+            "-i", "pipe:0",
+            "-frames:v", "1",
+            "-vf", `scale=${DHASH_WIDTH}:${DHASH_HEIGHT}:flags=area,format=gray`,
+            "-f", "rawvideo",
+            "pipe:1"
+        ],
+        {
+            stdin: bytes,
+            stdout: "pipe",
+            stderr: "ignore"
+        }
+    );
+    const timeout = setTimeout(() => {
+        try {
+            process.kill("SIGKILL");
+        } catch {
+            // ignore
+        }
+    }, IMAGE_DECODE_TIMEOUT_MS);
+
+    try {
+        const [output, exitCode] = await Promise.all([
+            new Response(process.stdout).arrayBuffer(),
+            process.exited
+        ]);
+        if (exitCode !== 0) return null;
+        const pixels = new Uint8Array(output);
+        return pixels.length === DHASH_WIDTH * DHASH_HEIGHT ? pixels : null;
+    } catch {
+        return null;
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+export async function computeImageFingerprint(bytes: Uint8Array): Promise<string> {
+    return fingerprintFromThumbnail(bytes, await decodeDHashThumbnail(bytes));
+}
@@ -269,6 +269,66 @@ test("ClankvoxClient subscribeUserVideo forwards the native video subscription c
   ]);
 });
 
+test("ClankvoxClient musicPlay forwards audio filter, seek and crossfade fields only when set", () => {
+  const client = new ClankvoxClient("guild-1", "channel-1", null);
+  const child = new FakeSubprocess();
+  const handleMessage = Reflect.get(client, "_handleMessage").bind(client);
+  attachFakeChild(client, child);
+  handleMessage({
+    type: "ready",
+    capabilities: ["music_audio_filter", "music_seek", "music_crossfade", "future_thing"]
+  });
+
+  assert.equal(client.supportsCapability("music_seek"), true);
+  client.musicPlay("https://cdn.example.com/a.webm", true);
+  client.musicPlay("https://cdn.example.com/b.webm", true, null, {
+    audioFilter: "atempo=1.25",
+    startMs: 61_000.4,
+    crossfadeMs: 4000
+  });
+
+  assert.deepEqual(child.commands, [
+    {
+      type: "music_play",
+      url: "https://cdn.example.com/a.webm",
+      resolvedDirectUrl: true
+    },
+    {
+      type: "music_play",
+      url: "https://cdn.example.com/b.webm",
+      resolvedDirectUrl: true,
+      audioFilter: "atempo=1.25",
+      startMs: 61_000,
+      crossfadeMs: 4000
+    }
+  ]);
+});
+
+test("ClankvoxClient drops music fields a build without the capability handshake would ignore", () => {
+  const client = new ClankvoxClient("guild-1", "channel-1", null);
+  const child = new FakeSubprocess();
+  const handleMessage = Reflect.get(client, "_handleMessage").bind(client);
+  attachFakeChild(client, child);
+  handleMessage({ type: "ready" });
+
+  assert.equal(client.supportsCapability("music_audio_filter"), false);
+  assert.equal(client.supportsCapability("music_seek"), false);
+  assert.equal(client.supportsCapability("music_crossfade"), false);
+  client.musicPlay("https://cdn.example.com/b.webm", true, null, {
+    audioFilter: "atempo=1.25",
+    startMs: 61_000,
+    crossfadeMs: 4000
+  });
+
+  assert.deepEqual(child.commands, [
+    {
+      type: "music_play",
+      url: "https://cdn.example.com/b.webm",
+      resolvedDirectUrl: true
+    }
+  ]);
+});
+
 test("ClankvoxClient forwards stream watch connect and disconnect commands", () => {
   const client = new ClankvoxClient("guild-1", "channel-1", null);
   const child = new FakeSubprocess();
@@ -23,6 +23,10 @@ type VoiceStateUpdatePayload = JsonRecord & {
   user_id?: string | null;
 };
 export type ClankvoxTransportRole = "voice" | "stream_watch" | "stream_publish";
+// Optional music_play features a clankvox build advertises in its ready message.
+// Builds that predate the handshake advertise none.
+export type ClankvoxCapability = "music_audio_filter" | "music_seek" | "music_crossfade";
+const CLANKVOX_CAPABILITIES: readonly ClankvoxCapability[] = ["music_audio_filter", "music_seek", "music_crossfade"];
 export type ClankvoxTransportState = {
   role: ClankvoxTransportRole;
   status: string;
@@ -165,6 +169,12 @@ type ClankvoxCommand =
       url: string;
       resolvedDirectUrl: boolean;
       visualizerMode?: StreamWatchVisualizerMode | null;
+      // ffmpeg -af chain applied to the music decode pipeline.
+      audioFilter?: string;
+      // Input seek offset for the new pipeline.
+      startMs?: number;
+      // Overlap the outgoing track with the new one instead of resetting playback.
+      crossfadeMs?: number;
     }
   | { type: "music_stop" }
   | { type: "music_pause" }
@@ -392,6 +402,7 @@ export class ClankvoxClient extends EventEmitter {
   private _exitWaiterPromise: Promise<void> | null = null;
   private lastVoiceSessionId: string | null = null;
   private lastVoiceStateUserId: string | null = null;
+  private capabilities = new Set<ClankvoxCapability>();
   logAction: ((action: { kind: string; guildId?: string | null; channelId?: string | null; userId?: string | null; content: string; metadata?: Record<string, unknown> }) => void) | null = null;
 
   constructor(guildId: string, channelId: string, guild: ClankvoxGuildLike) {
@@ -662,6 +673,12 @@ export class ClankvoxClient extends EventEmitter {
 
     switch (msgType) {
       case "ready":
+        this.capabilities = new Set(
+          (Array.isArray(msg.capabilities) ? msg.capabilities : []).filter(
+            (value): value is ClankvoxCapability => CLANKVOX_CAPABILITIES.includes(value as ClankvoxCapability)
+          )
+        );
+        this.log("voice_runtime", "clankvox_capabilities", { capabilities: [...this.capabilities] });
         this.emit("ready");
         break;
       case "adapter_send":
@@ -1245,16 +1262,33 @@ export class ClankvoxClient extends EventEmitter {
     });
   }
 
+  supportsCapability(capability: ClankvoxCapability) {
+    return this.capabilities.has(capability);
+  }
+
   musicPlay(
     url: string,
     resolvedDirectUrl = false,
-    visualizerMode: StreamWatchVisualizerMode | null = null
+    visualizerMode: StreamWatchVisualizerMode | null = null,
+    {
+      audioFilter = null,
+      startMs = 0,
+      crossfadeMs = 0
+    }: {
+      audioFilter?: string | null;
+      startMs?: number;
+      crossfadeMs?: number;
+    } = {}
   ) {
     this._send({
       type: "music_play",
       url,
       resolvedDirectUrl,
-      visualizerMode: visualizerMode || undefined
+      visualizerMode: visualizerMode || undefined,
+      // Never send fields the running clankvox build would silently ignore.
+      audioFilter: audioFilter && this.supportsCapability("music_audio_filter") ? audioFilter : undefined,
+      startMs: startMs > 0 && this.supportsCapability("music_seek") ? Math.round(startMs) : undefined,
+      crossfadeMs: crossfadeMs > 0 && this.supportsCapability("music_crossfade") ? Math.round(crossfadeMs) : undefined
     });
   }
 
@@ -934,8 +934,11 @@ export class InstructionManager {
           "- For a fresh video request, pass query to video_play. For a followup choice after disambiguation, call video_play with selection_id.",
           "- If Music playback context already shows a selection_id for the exact track you want, reuse that selection_id with music_play and include the matching query text instead of re-searching.",
           "- Use music_queue_next to place a track after the current one and music_queue_add to append. Both can take direct query text or exact prior IDs.",
+          "- music_queue_add can also queue a saved playlist by name, or past plays via history_since/history_until (ISO dates, a date alone covers that day), e.g. \"what we listened to last Friday\".",
           "- For requests like \"play X, then queue Y\", call music_play for X first and music_queue_next for Y second in the same tool response.",
           "- Do not claim a track is queued or added until music_queue_next or music_queue_add succeeds.",
+          "- For questions about the playing song (album, year, \"what did they just say\"), call media_now_playing with include_details and answer from the returned lyric lines instead of guessing.",
+          "- Use media_seek for \"go back to the start\" or \"skip ahead 30 seconds\" (read position_ms from media_now_playing for relative jumps), and media_effects for crossfade, loudness normalization, speed, pitch or bass requests. Effects persist for this server until changed.",
           "- Use media_stop to stop playback.",
           "- Do not emulate play-now by chaining music_queue_add and media_skip.",
           "- Do not use media_skip as a substitute for media_stop.",
@@ -1,4 +1,5 @@
 import { SlashCommandSubcommandGroupBuilder } from "discord.js";
+import { MUSIC_EFFECT_LIMITS } from "./musicEffects.ts";
 
 export function addMusicSubcommandGroup(group: SlashCommandSubcommandGroupBuilder) {
   return group
@@ -60,11 +61,122 @@ export function addMusicSubcommandGroup(group: SlashCommandSubcommandGroupBuilde
     .addSubcommand((subcommand) =>
       subcommand
         .setName("resume")
-        .setDescription("Resume paused music")
+        .setDescription("Resume paused music, or restore the saved queue when nothing is playing")
     )
     .addSubcommand((subcommand) =>
       subcommand
         .setName("stop")
         .setDescription("Stop playback and clear the queue")
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("seek")
+        .setDescription("Jump to a position in the current track")
+        .addStringOption((option) =>
+          option
+            .setName("position")
+            .setDescription("Position as seconds or m:ss, e.g. 1:30")
+            .setRequired(true)
+            .setMaxLength(12)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("effects")
+        .setDescription("Show or change crossfade, loudness, speed, pitch and bass for this server")
+        .addNumberOption((option) =>
+          option
+            .setName("crossfade")
+            .setDescription("Crossfade between tracks in seconds (0 turns it off)")
+            .setMinValue(MUSIC_EFFECT_LIMITS.crossfadeMs.min / 1000)
+            .setMaxValue(MUSIC_EFFECT_LIMITS.crossfadeMs.max / 1000)
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName("normalize")
+            .setDescription("Normalize loudness (EBU R128)")
+        )
+        .addNumberOption((option) =>
+          option
+            .setName("speed")
+            .setDescription("Playback speed, 1 is normal")
+            .setMinValue(MUSIC_EFFECT_LIMITS.speed.min)
+            .setMaxValue(MUSIC_EFFECT_LIMITS.speed.max)
+        )
+        .addNumberOption((option) =>
+          option
+            .setName("pitch")
+            .setDescription("Pitch shift in semitones")
+            .setMinValue(MUSIC_EFFECT_LIMITS.pitchSemitones.min)
+            .setMaxValue(MUSIC_EFFECT_LIMITS.pitchSemitones.max)
+        )
+        .addIntegerOption((option) =>
+          option
+            .setName("bass")
+            .setDescription("Bass boost in dB (0 turns it off)")
+            .setMinValue(MUSIC_EFFECT_LIMITS.bassBoostDb.min)
+            .setMaxValue(MUSIC_EFFECT_LIMITS.bassBoostDb.max)
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName("reset")
+            .setDescription("Reset every effect to default before applying the other options")
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("playlist_save")
+        .setDescription("Save the current queue as a named playlist")
+        .addStringOption((option) =>
+          option
+            .setName("name")
+            .setDescription("Playlist name")
+            .setRequired(true)
+            .setMaxLength(80)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("playlist_load")
+        .setDescription("Add a saved playlist to the queue")
+        .addStringOption((option) =>
+          option
+            .setName("name")
+            .setDescription("Playlist name")
+            .setRequired(true)
+            .setMaxLength(80)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("playlist_delete")
+        .setDescription("Delete a saved playlist")
+        .addStringOption((option) =>
+          option
+            .setName("name")
+            .setDescription("Playlist name")
+            .setRequired(true)
+            .setMaxLength(80)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("playlists")
+        .setDescription("List saved playlists for this server")
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("history")
+        .setDescription("Show what was played recently or on a given day")
+        .addStringOption((option) =>
+          option
+            .setName("date")
+            .setDescription("Day to look up, as YYYY-MM-DD")
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName("queue")
+            .setDescription("Queue those tracks instead of just listing them")
+        )
     );
 }
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { test } from "bun:test";
+import {
+  DEFAULT_MUSIC_PLAYBACK_EFFECTS,
+  buildMusicAudioFilter,
+  describeMusicPlaybackEffects,
+  formatMusicPosition,
+  normalizeMusicPlaybackEffects,
+  parseMusicSeekPosition
+} from "./musicEffects.ts";
+
+test("normalizeMusicPlaybackEffects clamps a patch onto the base and keeps invalid fields", () => {
+  const base = normalizeMusicPlaybackEffects({ crossfadeMs: 3000, bassBoostDb: 4 });
+  assert.deepEqual(
+    normalizeMusicPlaybackEffects(
+      { speed: 5, pitchSemitones: "-30", loudnessNormalization: "on", bassBoostDb: "loud", crossfadeMs: null },
+      base
+    ),
+    {
+      crossfadeMs: 3000,
+      loudnessNormalization: true,
+      speed: 2,
+      pitchSemitones: -12,
+      bassBoostDb: 4
+    }
+  );
+  assert.deepEqual(normalizeMusicPlaybackEffects(null), DEFAULT_MUSIC_PLAYBACK_EFFECTS);
+});
+
+test("buildMusicAudioFilter keeps speed and pitch independent and ends with loudness normalization", () => {
+  assert.equal(buildMusicAudioFilter(DEFAULT_MUSIC_PLAYBACK_EFFECTS), null);
+  // Crossfade alone is a transition setting, not a filter.
+  assert.equal(buildMusicAudioFilter({ ...DEFAULT_MUSIC_PLAYBACK_EFFECTS, crossfadeMs: 5000 }), null);
+  assert.equal(buildMusicAudioFilter({ ...DEFAULT_MUSIC_PLAYBACK_EFFECTS, speed: 1.5 }), "atempo=1.5");
+  assert.equal(
+    buildMusicAudioFilter({ ...DEFAULT_MUSIC_PLAYBACK_EFFECTS, pitchSemitones: 12 }),
+    "asetrate=96000,aresample=48000,atempo=0.5"
+  );
+  assert.equal(
+    buildMusicAudioFilter({ ...DEFAULT_MUSIC_PLAYBACK_EFFECTS, speed: 0.5, pitchSemitones: 12 }),
+    "asetrate=96000,aresample=48000,atempo=0.5,atempo=0.5"
+  );
+  assert.equal(
+    buildMusicAudioFilter({
+      ...DEFAULT_MUSIC_PLAYBACK_EFFECTS,
+      loudnessNormalization: true,
+      bassBoostDb: 8
+    }),
+    "bass=g=8:f=110:w=0.6,loudnorm=I=-16:TP=-1.5:LRA=11,aresample=48000"
+  );
+});
+
+test("seek positions parse seconds and clock formats", () => {
+  assert.equal(parseMusicSeekPosition("90"), 90_000);
+  assert.equal(parseMusicSeekPosition("1:30"), 90_000);
+  assert.equal(parseMusicSeekPosition("1:02:03"), 3_723_000);
+  assert.equal(parseMusicSeekPosition(12.5), 12_500);
+  assert.equal(parseMusicSeekPosition("1:75"), null);
+  assert.equal(parseMusicSeekPosition("soon"), null);
+  assert.equal(parseMusicSeekPosition(-1), null);
+  assert.equal(formatMusicPosition(3_723_000), "1:02:03");
+  assert.equal(formatMusicPosition(65_400), "1:05");
+  assert.equal(
+    describeMusicPlaybackEffects({ ...DEFAULT_MUSIC_PLAYBACK_EFFECTS, crossfadeMs: 4000, pitchSemitones: 2 }),
+    "crossfade 4s, loudness normalization off, speed 1x, pitch +2 st, bass boost off"
+  );
+});
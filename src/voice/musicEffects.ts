@@ -0,0 +1,173 @@
+/**
+ * Per-guild playback effects for music routed through clankvox.
+ *
+ * The subprocess owns the ffmpeg pipeline, so effects travel as an ffmpeg
+ * `-af` filter chain plus crossfade/seek fields on `music_play`. Everything
+ * here is pure: normalization, the filter builder, and reply formatting.
+ */
+import { clamp } from "../utils.ts";
+
+/** clankvox decodes music to 48 kHz PCM before Opus encoding. */
+const MUSIC_OUTPUT_SAMPLE_RATE = 48_000;
+
+/** Loudness target for EBU R128 normalization, close to what streaming services use. */
+const LOUDNORM_FILTER = "loudnorm=I=-16:TP=-1.5:LRA=11";
+
+/** Short overlap used when effects or position change mid-track with crossfade off. */
+export const MUSIC_EFFECT_SWAP_CROSSFADE_MS = 150;
+
+export const MUSIC_EFFECT_LIMITS = {
+  crossfadeMs: { min: 0, max: 12_000 },
+  speed: { min: 0.5, max: 2 },
+  pitchSemitones: { min: -12, max: 12 },
+  bassBoostDb: { min: 0, max: 20 }
+} as const;
+
+export type MusicPlaybackEffects = {
+  crossfadeMs: number;
+  loudnessNormalization: boolean;
+  speed: number;
+  pitchSemitones: number;
+  bassBoostDb: number;
+};
+
+export const DEFAULT_MUSIC_PLAYBACK_EFFECTS: MusicPlaybackEffects = Object.freeze({
+  crossfadeMs: 0,
+  loudnessNormalization: false,
+  speed: 1,
+  pitchSemitones: 0,
+  bassBoostDb: 0
+});
+
+function finiteOr(value: unknown, fallback: number) {
+  if (value === null || value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function booleanOr(value: unknown, fallback: boolean) {
+  if (typeof value === "boolean") return value;
+  const token = String(value ?? "").trim().toLowerCase();
+  if (["true", "on", "yes", "1"].includes(token)) return true;
+  if (["false", "off", "no", "0"].includes(token)) return false;
+  return fallback;
+}
+
+/**
+ * Clamps a partial effects patch onto `base`. Unknown or invalid fields keep the
+ * base value, so callers can pass raw tool args or slash options straight through.
+ */
+export function normalizeMusicPlaybackEffects(
+  value: unknown,
+  base: MusicPlaybackEffects = DEFAULT_MUSIC_PLAYBACK_EFFECTS
+): MusicPlaybackEffects {
+  const patch = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const { crossfadeMs, speed, pitchSemitones, bassBoostDb } = MUSIC_EFFECT_LIMITS;
+  return {
+    crossfadeMs: Math.round(
+      clamp(finiteOr(patch.crossfadeMs, base.crossfadeMs), crossfadeMs.min, crossfadeMs.max)
+    ),
+    loudnessNormalization: booleanOr(patch.loudnessNormalization, base.loudnessNormalization),
+    speed: Math.round(clamp(finiteOr(patch.speed, base.speed), speed.min, speed.max) * 100) / 100,
+    pitchSemitones:
+      Math.round(
+        clamp(finiteOr(patch.pitchSemitones, base.pitchSemitones), pitchSemitones.min, pitchSemitones.max) * 10
+      ) / 10,
+    bassBoostDb: Math.round(clamp(finiteOr(patch.bassBoostDb, base.bassBoostDb), bassBoostDb.min, bassBoostDb.max))
+  };
+}
+
+export function isDefaultMusicPlaybackEffects(effects: MusicPlaybackEffects) {
+  return (
+    !effects.loudnessNormalization &&
+    effects.speed === 1 &&
+    effects.pitchSemitones === 0 &&
+    effects.bassBoostDb === 0
+  );
+}
+
+function formatFilterNumber(value: number) {
+  return String(Number(value.toFixed(6)));
+}
+
+/** atempo only accepts 0.5..2 per instance on older ffmpeg builds, so larger factors are chained. */
+function buildAtempoChain(factor: number) {
+  const filters: string[] = [];
+  let remaining = factor;
+  while (remaining > 2) {
+    filters.push("atempo=2");
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    filters.push("atempo=0.5");
+    remaining /= 0.5;
+  }
+  if (Math.abs(remaining - 1) > 1e-6) {
+    filters.push(`atempo=${formatFilterNumber(remaining)}`);
+  }
+  return filters;
+}
+
+/**
+ * Builds the ffmpeg `-af` chain for clankvox, or null when no filter is needed.
+ *
+ * Pitch is shifted by resampling (which also changes tempo) and the tempo is then
+ * corrected with atempo, so speed and pitch stay independent. Loudness
+ * normalization runs last and is followed by a resample because loudnorm
+ * upsamples internally.
+ */
+export function buildMusicAudioFilter(effects: MusicPlaybackEffects): string | null {
+  const filters: string[] = [];
+  const pitchRatio = Math.pow(2, effects.pitchSemitones / 12);
+  if (effects.pitchSemitones !== 0) {
+    filters.push(
+      `asetrate=${Math.round(MUSIC_OUTPUT_SAMPLE_RATE * pitchRatio)}`,
+      `aresample=${MUSIC_OUTPUT_SAMPLE_RATE}`
+    );
+  }
+  filters.push(...buildAtempoChain(effects.speed / pitchRatio));
+  if (effects.bassBoostDb > 0) {
+    filters.push(`bass=g=${effects.bassBoostDb}:f=110:w=0.6`);
+  }
+  if (effects.loudnessNormalization) {
+    filters.push(LOUDNORM_FILTER, `aresample=${MUSIC_OUTPUT_SAMPLE_RATE}`);
+  }
+  return filters.length ? filters.join(",") : null;
+}
+
+/** One-line summary used by slash replies and tool results. */
+export function describeMusicPlaybackEffects(effects: MusicPlaybackEffects) {
+  const parts = [
+    effects.crossfadeMs > 0 ? `crossfade ${effects.crossfadeMs / 1000}s` : "crossfade off",
+    effects.loudnessNormalization ? "loudness normalization on" : "loudness normalization off",
+    `speed ${effects.speed}x`,
+    `pitch ${effects.pitchSemitones > 0 ? "+" : ""}${effects.pitchSemitones} st`,
+    effects.bassBoostDb > 0 ? `bass boost +${effects.bassBoostDb} dB` : "bass boost off"
+  ];
+  return parts.join(", ");
+}
+
+/** Parses `90`, `1:30` or `1:02:03` into milliseconds. */
+export function parseMusicSeekPosition(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value * 1000) : null;
+  }
+  const text = String(value ?? "").trim();
+  if (!text) return null;
+  if (/^\d+(?:\.\d+)?$/.test(text)) return Math.round(Number(text) * 1000);
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})$/.exec(text);
+  if (!match) return null;
+  const hours = Number(match[1] || 0);
+  const minutes = Number(match[2]);
+  const seconds = Number(match[3]);
+  if (seconds >= 60 || (match[1] && minutes >= 60)) return null;
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+export function formatMusicPosition(positionMs: number) {
+  const totalSeconds = Math.max(0, Math.floor(positionMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
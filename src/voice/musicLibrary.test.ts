@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { test } from "bun:test";
+import { collectMusicHistoryTracks, resolveMusicHistoryWindow, toMusicLibraryQueueTrack } from "./musicLibrary.ts";
+import type { MusicPlayHistoryRecord } from "../store/storeMusic.ts";
+
+function historyRow(id: string, platform = "youtube"): MusicPlayHistoryRecord {
+  return {
+    id,
+    title: id,
+    artist: null,
+    durationMs: null,
+    platform,
+    externalUrl: null,
+    historyId: 1,
+    playedAt: "2026-03-06T20:00:00.000Z",
+    guildId: "guild-1",
+    voiceChannelId: null,
+    requestedByUserId: null,
+    source: null
+  };
+}
+
+test("resolveMusicHistoryWindow treats a lone date as that whole local day", () => {
+  const window = resolveMusicHistoryWindow({ since: "2026-03-06" });
+  assert.equal(window?.sinceIso, new Date(2026, 2, 6).toISOString());
+  assert.equal(window?.untilIso, new Date(2026, 2, 7).toISOString());
+
+  const range = resolveMusicHistoryWindow({ since: "2026-03-06", until: "2026-03-08" });
+  assert.equal(range?.untilIso, new Date(2026, 2, 9).toISOString());
+
+  const open = resolveMusicHistoryWindow({ since: "2026-03-06T18:00:00.000Z" });
+  assert.deepEqual(open, { sinceIso: "2026-03-06T18:00:00.000Z", untilIso: null });
+});
+
+test("resolveMusicHistoryWindow rejects empty, unparseable, and inverted windows", () => {
+  assert.equal(resolveMusicHistoryWindow({}), null);
+  assert.equal(resolveMusicHistoryWindow({ since: "last friday" }), null);
+  assert.equal(resolveMusicHistoryWindow({ since: "2026-03-08", until: "2026-03-06T00:00:00.000Z" }), null);
+});
+
+test("collectMusicHistoryTracks keeps first plays of each track up to the limit", () => {
+  const rows = [historyRow("a"), historyRow("b"), historyRow("a"), historyRow("a", "soundcloud"), historyRow("c")];
+  assert.deepEqual(
+    collectMusicHistoryTracks(rows).map((track) => `${track.platform}:${track.id}`),
+    ["youtube:a", "youtube:b", "soundcloud:a", "youtube:c"]
+  );
+  assert.equal(collectMusicHistoryTracks(rows, 2).length, 2);
+  assert.equal(toMusicLibraryQueueTrack(collectMusicHistoryTracks(rows)[2]).source, "sc");
+});
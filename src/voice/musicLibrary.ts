@@ -0,0 +1,113 @@
+import type { MusicPlayHistoryRecord, MusicTrackRecord } from "../store/storeMusic.ts";
+import { isMusicPlatform } from "./musicSearch.ts";
+import type { MusicSelectionPlatform } from "./voiceSessionTypes.ts";
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_MUSIC_HISTORY_QUEUE_TRACKS = 25;
+export const MAX_MUSIC_PLAYLIST_QUEUE_TRACKS = 50;
+
+type QueueTrackLike = {
+  id: string;
+  title: string;
+  artist?: string | null;
+  durationMs?: number | null;
+  platform?: string | null;
+  externalUrl?: string | null;
+  streamUrl?: string | null;
+};
+
+export type MusicLibraryQueueTrack = {
+  id: string;
+  title: string;
+  artist: string;
+  durationMs: number | null;
+  source: "yt" | "sc";
+  streamUrl: string | null;
+  platform: MusicSelectionPlatform;
+  externalUrl: string | null;
+};
+
+function parseBoundary(value: unknown): { at: Date; dateOnly: boolean } | null {
+  const text = String(value || "").trim();
+  if (!text) return null;
+  const dateOnly = DATE_ONLY_PATTERN.exec(text);
+  if (dateOnly) {
+    // Date-only values mean the server's local calendar day, which is how people say "last Friday".
+    const at = new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+    return Number.isNaN(at.getTime()) ? null : { at, dateOnly: true };
+  }
+  const at = new Date(text);
+  return Number.isNaN(at.getTime()) ? null : { at, dateOnly: false };
+}
+
+/**
+ * Turns `since`/`until` (ISO dates or datetimes) into a half-open ISO window for history
+ * lookups. A date-only `until` includes that whole day, and a lone date-only `since` covers
+ * just that day.
+ */
+export function resolveMusicHistoryWindow({ since, until }: { since?: unknown; until?: unknown }) {
+  const start = parseBoundary(since);
+  const end = parseBoundary(until);
+  if (!start && !end) return null;
+  const untilAt = end
+    ? new Date(end.at.getTime() + (end.dateOnly ? DAY_MS : 0))
+    : start?.dateOnly
+      ? new Date(start.at.getTime() + DAY_MS)
+      : null;
+  if (start && untilAt && untilAt.getTime() <= start.at.getTime()) return null;
+  return {
+    sinceIso: start ? start.at.toISOString() : null,
+    untilIso: untilAt ? untilAt.toISOString() : null
+  };
+}
+
+/** Distinct tracks from a history window in first-played order. */
+export function collectMusicHistoryTracks(rows: MusicPlayHistoryRecord[], limit = MAX_MUSIC_HISTORY_QUEUE_TRACKS) {
+  const seen = new Set<string>();
+  const tracks: MusicTrackRecord[] = [];
+  for (const row of rows) {
+    const key = `${row.platform}:${row.id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    tracks.push({
+      id: row.id,
+      title: row.title,
+      artist: row.artist,
+      durationMs: row.durationMs,
+      platform: row.platform,
+      externalUrl: row.externalUrl
+    });
+    if (tracks.length >= limit) break;
+  }
+  return tracks;
+}
+
+export function toMusicLibraryQueueTrack(track: MusicTrackRecord): MusicLibraryQueueTrack {
+  const platform: MusicSelectionPlatform =
+    isMusicPlatform(track.platform) || track.platform === "discord" || track.platform === "auto"
+      ? track.platform
+      : "youtube";
+  return {
+    id: track.id,
+    title: track.title,
+    artist: track.artist || "",
+    durationMs: track.durationMs,
+    source: platform === "soundcloud" ? "sc" : "yt",
+    streamUrl: track.externalUrl,
+    platform,
+    externalUrl: track.externalUrl
+  };
+}
+
+export function toMusicTrackRecord(track: QueueTrackLike): MusicTrackRecord {
+  return {
+    id: track.id,
+    title: track.title,
+    artist: track.artist || null,
+    durationMs: track.durationMs ?? null,
+    platform: String(track.platform || "youtube"),
+    externalUrl: track.externalUrl || track.streamUrl || null
+  };
+}
@@ -0,0 +1,31 @@
+import { test } from "bun:test";
+import assert from "node:assert/strict";
+import type { ClankvoxClient } from "./clankvoxClient.ts";
+import { DiscordMusicPlayer } from "./musicPlayer.ts";
+
+test("music player refuses queued radio tracks that point at internal hosts", async () => {
+  const played: string[] = [];
+  const player = new DiscordMusicPlayer();
+  player.setVoxClient({
+    isAlive: true,
+    musicPlay(url: string) {
+      played.push(url);
+    }
+  } as ClankvoxClient);
+
+  const result = await player.play({
+    id: "radio:internal",
+    title: "169.254.169.254/latest/meta-data/",
+    artist: "Radio stream",
+    platform: "radio",
+    streamUrl: null,
+    durationSeconds: null,
+    thumbnailUrl: null,
+    externalUrl: "http://169.254.169.254/latest/meta-data/"
+  });
+
+  assert.equal(result.ok, false);
+  assert.match(String(result.error), /blocked host/);
+  assert.deepEqual(played, []);
+  assert.equal(player.getCurrentTrack(), null);
+});
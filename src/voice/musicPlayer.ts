@@ -11,9 +11,11 @@
  */
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
+import { assertPublicUrl } from "../services/urlSafety.ts";
 import type { StreamWatchVisualizerMode } from "../settings/voiceDashboardMappings.ts";
 import type { ClankvoxClient } from "./clankvoxClient.ts";
 import type { MusicSearchResult } from "./musicSearch.ts";
+import { resolveLocalTrackPath } from "./musicSources.ts";
 
 const execFileAsync = promisify(execFile);
 
@@ -90,6 +92,9 @@ export class DiscordMusicPlayer {
     track: MusicSearchResult,
     options: {
       visualizerMode?: StreamWatchVisualizerMode | null;
+      audioFilter?: string | null;
+      startMs?: number;
+      crossfadeMs?: number;
     } = {}
   ): Promise<MusicPlayerResult> {
     if (!this.voxClient?.isAlive) {
@@ -114,17 +119,28 @@ export class DiscordMusicPlayer {
           resolvedDirectUrl: false
         };
       }
+      // Queued and saved radio tracks carry user-supplied URLs; re-check
+      // them here so nothing private reaches ffmpeg.
+      if (track.platform === "radio") {
+        await assertPublicUrl(resolvedPlaybackUrl.url);
+      }
 
       // Delegate to subprocess — it handles yt-dlp, ffmpeg, and AudioPlayer.
-      // The subprocess calls resetPlayback() internally before starting.
+      // The subprocess calls resetPlayback() internally before starting,
+      // unless a crossfade asks it to overlap the outgoing pipeline.
       this.voxClient.musicPlay(
         resolvedPlaybackUrl.url,
         resolvedPlaybackUrl.resolvedDirectUrl,
-        options.visualizerMode
+        options.visualizerMode,
+        {
+          audioFilter: options.audioFilter,
+          startMs: options.startMs,
+          crossfadeMs: options.crossfadeMs
+        }
       );
       this.currentTrack = track;
 
-      this.log("music_player_queued_subprocess_playback", { title: track.title, platform: track.platform, resolveMs: Date.now() - resolutionStartedAt, source: resolvedPlaybackUrl.source, direct: resolvedPlaybackUrl.resolvedDirectUrl });
+      this.log("music_player_queued_subprocess_playback", { title: track.title, platform: track.platform, resolveMs: Date.now() - resolutionStartedAt, source: resolvedPlaybackUrl.source, direct: resolvedPlaybackUrl.resolvedDirectUrl, audioFilter: options.audioFilter || null, startMs: options.startMs || 0, crossfadeMs: options.crossfadeMs || 0 });
       return {
         ok: true,
         error: null,
@@ -272,7 +288,7 @@ export class DiscordMusicPlayer {
       return null;
     }
 
-    if (track.platform === "youtube" || track.platform === "soundcloud") {
+    if (track.platform === "youtube" || track.platform === "soundcloud" || track.platform === "bandcamp") {
       const directUrl = await this.resolveDirectStreamUrl(track, fallbackUrl);
       if (directUrl) {
         return {
@@ -302,6 +318,13 @@ export class DiscordMusicPlayer {
     if (track.streamUrl) {
       return track.streamUrl;
     }
+    // Local files and radio streams are handed to ffmpeg as-is; queued copies only keep externalUrl.
+    if (track.platform === "local") {
+      return resolveLocalTrackPath(track.externalUrl);
+    }
+    if (track.platform === "radio") {
+      return String(track.externalUrl || "").trim() || null;
+    }
 
     return null;
   }
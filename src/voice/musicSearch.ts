@@ -1,4 +1,9 @@
-export type MusicPlatform = "youtube" | "soundcloud";
+import { createMusicSources } from "./musicSources.ts";
+import type { MusicLocalTrackStore, MusicRadioStation, MusicSource } from "./musicSources.ts";
+
+export const MUSIC_PLATFORMS = ["youtube", "soundcloud", "bandcamp", "radio", "local"] as const;
+
+export type MusicPlatform = (typeof MUSIC_PLATFORMS)[number];
 
 export type MusicSearchResult = {
   id: string;
@@ -16,17 +21,28 @@ type MusicSearchOptions = {
   limit?: number;
 };
 
-type MusicSearchResponse = {
+export type MusicSearchResponse = {
   ok: boolean;
   query: string;
   results: MusicSearchResult[];
   error: string | null;
 };
 
-const YOUTUBE_API_BASE = "https://www.googleapis.com/youtube/v3";
 const SEARCH_LIMIT_DEFAULT = 10;
 const SEARCH_LIMIT_MAX = 25;
 
+const PLATFORM_LABELS: Record<MusicPlatform, string> = {
+  youtube: "YT",
+  soundcloud: "SC",
+  bandcamp: "BC",
+  radio: "Radio",
+  local: "Local"
+};
+
+export function isMusicPlatform(value: unknown): value is MusicPlatform {
+  return MUSIC_PLATFORMS.includes(value as MusicPlatform);
+}
+
 function normalizeQuery(value = ""): string {
   return String(value || "").replace(/\s+/g, " ").trim();
 }
@@ -36,7 +52,7 @@ function clampLimit(value = 0): number {
   return Math.max(1, Math.min(n, SEARCH_LIMIT_MAX));
 }
 
-function calculateFuzzyScore(query: string, title: string, artist: string): number {
+export function calculateFuzzyScore(query: string, title: string, artist: string): number {
   const q = normalizeQuery(query).toLowerCase();
   const t = normalizeQuery(title).toLowerCase();
   const a = normalizeQuery(artist).toLowerCase();
@@ -58,20 +74,56 @@ function calculateFuzzyScore(query: string, title: string, artist: string): numb
   return Math.min(1.0, score);
 }
 
+function rankMusicSearchResult(query: string, result: MusicSearchResult): number {
+  // A pasted link that a source echoed back is exactly what was asked for.
+  if (result.externalUrl && result.externalUrl === query) return 1.1;
+  return calculateFuzzyScore(query, result.title, result.artist);
+}
+
 export class MusicSearchProvider {
   youtubeApiKey: string;
   soundcloudClientId: string;
+  sources: MusicSource[];
 
   constructor({
     youtubeApiKey = "",
-    soundcloudClientId = ""
+    soundcloudClientId = "",
+    ytDlpSearchEnabled = false,
+    bandcampSearchEnabled = false,
+    radioEnabled = false,
+    radioStations = [],
+    localLibraryDir = "",
+    localLibraryStore = null,
+    sources = null
+  }: {
+    youtubeApiKey?: string;
+    soundcloudClientId?: string;
+    ytDlpSearchEnabled?: boolean;
+    bandcampSearchEnabled?: boolean;
+    radioEnabled?: boolean;
+    radioStations?: MusicRadioStation[];
+    localLibraryDir?: string;
+    localLibraryStore?: MusicLocalTrackStore | null;
+    sources?: MusicSource[] | null;
   } = {}) {
     this.youtubeApiKey = String(youtubeApiKey || "").trim();
     this.soundcloudClientId = String(soundcloudClientId || "").trim();
+    this.sources =
+      sources ||
+      createMusicSources({
+        youtubeApiKey: this.youtubeApiKey,
+        soundcloudClientId: this.soundcloudClientId,
+        ytDlpSearchEnabled,
+        bandcampSearchEnabled,
+        radioEnabled,
+        radioStations,
+        localLibraryDir,
+        localLibraryStore
+      });
   }
 
   isConfigured(): boolean {
-    return Boolean(this.youtubeApiKey || this.soundcloudClientId);
+    return this.sources.some((source) => source.isConfigured());
   }
 
   async search(query: string, options: MusicSearchOptions = {}): Promise<MusicSearchResponse> {
@@ -83,23 +135,31 @@ export class MusicSearchProvider {
     const platform = options.platform || "auto";
     const limit = clampLimit(options.limit || SEARCH_LIMIT_DEFAULT);
 
-    const searches: Promise<MusicSearchResponse>[] = [];
-
-    if (platform === "auto" || platform === "youtube") {
-      searches.push(this.searchYoutube(normalizedQuery, limit));
-    }
-    if (platform === "auto" || platform === "soundcloud") {
-      searches.push(this.searchSoundcloud(normalizedQuery, limit));
-    }
-
-    const results = await Promise.all(searches);
-    const allResults = results.flatMap((r) => r.results);
+    const sources = this.sources.filter(
+      (source) => source.isConfigured() && (platform === "auto" || source.platform === platform)
+    );
+    const results = await Promise.all(
+      sources.map((source) =>
+        source.search(normalizedQuery, limit).catch((error) => ({
+          ok: true,
+          query: normalizedQuery,
+          results: [],
+          error: String(error?.message || error)
+        }))
+      )
+    );
+
+    // Two sources can find the same track (YouTube API and yt-dlp); keep the first.
+    const seenIds = new Set<string>();
+    const allResults = results
+      .flatMap((r) => r.results)
+      .filter((result) => {
+        if (seenIds.has(result.id)) return false;
+        seenIds.add(result.id);
+        return true;
+      });
 
-    allResults.sort((a, b) => {
-      const scoreA = calculateFuzzyScore(normalizedQuery, a.title, a.artist);
-      const scoreB = calculateFuzzyScore(normalizedQuery, b.title, b.artist);
-      return scoreB - scoreA;
-    });
+    allResults.sort((a, b) => rankMusicSearchResult(normalizedQuery, b) - rankMusicSearchResult(normalizedQuery, a));
 
     return {
       ok: true,
@@ -109,106 +169,6 @@ export class MusicSearchProvider {
     };
   }
 
-  private async searchYoutube(query: string, limit: number): Promise<MusicSearchResponse> {
-    if (!this.youtubeApiKey) {
-      return { ok: true, query, results: [], error: null };
-    }
-
-    try {
-      const params = new URLSearchParams({
-        part: "snippet",
-        q: query,
-        type: "video",
-        videoCategoryId: "10",
-        maxResults: String(limit),
-        key: this.youtubeApiKey
-      });
-
-      const response = await fetch(`${YOUTUBE_API_BASE}/search?${params}`);
-      if (!response.ok) {
-        return { ok: true, query, results: [], error: `youtube api error: ${response.status}` };
-      }
-
-      const data = await response.json().catch(() => null);
-      if (!data?.items) {
-        return { ok: true, query, results: [], error: null };
-      }
-
-      const results: MusicSearchResult[] = data.items
-        .filter((item: Record<string, unknown>) => (item.id as Record<string, string>)?.videoId)
-        .map((item: Record<string, unknown>) => {
-          const snippet = item.snippet as Record<string, unknown>;
-          const idObj = item.id as Record<string, string>;
-          const videoId = idObj.videoId || "";
-          const thumbnails = (snippet.thumbnails as Record<string, { url?: string }>) || {};
-          return {
-            id: `youtube:${videoId}`,
-            title: String(snippet.title || "Unknown"),
-            artist: String(snippet.channelTitle || "Unknown Artist"),
-            platform: "youtube" as MusicPlatform,
-            streamUrl: null,
-            durationSeconds: null,
-            thumbnailUrl: thumbnails.medium?.url || thumbnails.default?.url || null,
-            externalUrl: `https://www.youtube.com/watch?v=${videoId}`
-          };
-        });
-
-      return { ok: true, query, results, error: null };
-    } catch (error) {
-      return { ok: true, query, results: [], error: String(error?.message || error) };
-    }
-  }
-
-  private async searchSoundcloud(query: string, limit: number): Promise<MusicSearchResponse> {
-    if (!this.soundcloudClientId) {
-      return { ok: true, query, results: [], error: null };
-    }
-
-    try {
-      const params = new URLSearchParams({
-        q: query,
-        client_id: this.soundcloudClientId,
-        limit: String(limit),
-        offset: "0"
-      });
-
-      const response = await fetch(`https://api.soundcloud.com/tracks?${params}`);
-      if (!response.ok) {
-        return { ok: true, query, results: [], error: `soundcloud api error: ${response.status}` };
-      }
-
-      const data = await response.json().catch(() => null);
-      if (!Array.isArray(data)) {
-        return { ok: true, query, results: [], error: null };
-      }
-
-      const results: MusicSearchResult[] = data
-        .filter((track: Record<string, unknown>) => track.id && track.stream_url)
-        .map((track: Record<string, unknown>) => {
-          const permalinkUrl = String(track.permalink_url || "").trim();
-          const normalizedExternalUrl = permalinkUrl
-            ? /^https?:\/\//i.test(permalinkUrl)
-              ? permalinkUrl
-              : `https://soundcloud.com${permalinkUrl.startsWith("/") ? "" : "/"}${permalinkUrl}`
-            : "";
-          return {
-            id: `soundcloud:${track.id}`,
-            title: (track.title as string) || "Unknown",
-            artist: ((track.user as Record<string, unknown>)?.username as string) || "Unknown Artist",
-            platform: "soundcloud" as MusicPlatform,
-            streamUrl: `${track.stream_url}?client_id=${this.soundcloudClientId}`,
-            durationSeconds: track.duration ? Math.floor((track.duration as number) / 1000) : null,
-            thumbnailUrl: (track.artwork_url as string) || null,
-            externalUrl: normalizedExternalUrl
-          };
-        });
-
-      return { ok: true, query, results, error: null };
-    } catch (error) {
-      return { ok: true, query, results: [], error: String(error?.message || error) };
-    }
-  }
-
   async resolveStreamUrl(result: MusicSearchResult): Promise<string | null> {
     if (result.streamUrl) return result.streamUrl;
 
@@ -232,7 +192,7 @@ export class MusicSearchProvider {
     }
 
     const display = results.slice(0, 5).map((r, i) => {
-      const p = r.platform === "youtube" ? "YT" : "SC";
+      const p = PLATFORM_LABELS[r.platform] || r.platform;
       return `${i + 1}. "${r.title}" by ${r.artist} (${p})`;
     });
 
@@ -240,12 +200,26 @@ export class MusicSearchProvider {
   }
 }
 
-export function createMusicSearchProvider(appConfig: {
-  youtubeApiKey?: string;
-  soundcloudClientId?: string;
-}): MusicSearchProvider {
+export function createMusicSearchProvider(
+  appConfig: {
+    youtubeApiKey?: string;
+    soundcloudClientId?: string;
+    musicYtDlpSearchEnabled?: boolean;
+    musicBandcampSearchEnabled?: boolean;
+    musicRadioEnabled?: boolean;
+    musicRadioStations?: MusicRadioStation[];
+    musicLocalLibraryDir?: string;
+  },
+  { store = null }: { store?: MusicLocalTrackStore | null } = {}
+): MusicSearchProvider {
   return new MusicSearchProvider({
     youtubeApiKey: appConfig?.youtubeApiKey,
-    soundcloudClientId: appConfig?.soundcloudClientId
+    soundcloudClientId: appConfig?.soundcloudClientId,
+    ytDlpSearchEnabled: appConfig?.musicYtDlpSearchEnabled,
+    bandcampSearchEnabled: appConfig?.musicBandcampSearchEnabled,
+    radioEnabled: appConfig?.musicRadioEnabled,
+    radioStations: appConfig?.musicRadioStations,
+    localLibraryDir: appConfig?.musicLocalLibraryDir,
+    localLibraryStore: store
   });
 }
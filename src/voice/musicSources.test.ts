@@ -0,0 +1,195 @@
+import assert from "node:assert/strict";
+import { test } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Store } from "../store/store.ts";
+import { MusicSearchProvider } from "./musicSearch.ts";
+import type { MusicSearchResult } from "./musicSearch.ts";
+import {
+  LocalFileMusicSource,
+  RadioMusicSource,
+  YtDlpMusicSource,
+  parseLocalTrackName,
+  resolveLocalTrackPath
+} from "./musicSources.ts";
+import type { MusicSource } from "./musicSources.ts";
+
+function createFakeSource(platform: MusicSource["platform"], results: Array<Partial<MusicSearchResult>>): MusicSource {
+  return {
+    platform,
+    isConfigured: () => true,
+    async search(query) {
+      return {
+        ok: true,
+        query,
+        results: results.map((result) => ({
+          id: `${platform}:${result.title}`,
+          title: "",
+          artist: "",
+          platform,
+          streamUrl: null,
+          durationSeconds: null,
+          thumbnailUrl: null,
+          externalUrl: "",
+          ...result
+        })),
+        error: null
+      };
+    }
+  };
+}
+
+test("yt-dlp source parses flat search output into youtube results", async () => {
+  const calls: string[][] = [];
+  const source = new YtDlpMusicSource({
+    enabled: true,
+    async run(args) {
+      calls.push(args);
+      return [
+        JSON.stringify({ id: "abc123", title: "Windowlicker", channel: "Aphex Twin", duration: 367.4 }),
+        "not json",
+        JSON.stringify({ title: "missing id" })
+      ].join("\n");
+    }
+  });
+
+  const response = await source.search("windowlicker", 3);
+  assert.equal(calls[0]?.at(-1), "ytsearch3:windowlicker");
+  assert.deepEqual(response.results, [
+    {
+      id: "youtube:abc123",
+      title: "Windowlicker",
+      artist: "Aphex Twin",
+      platform: "youtube",
+      streamUrl: null,
+      durationSeconds: 367,
+      thumbnailUrl: null,
+      externalUrl: "https://www.youtube.com/watch?v=abc123"
+    }
+  ]);
+  assert.equal(new YtDlpMusicSource().isConfigured(), false);
+});
+
+test("radio source matches configured stations and accepts direct stream URLs", async () => {
+  const source = new RadioMusicSource({
+    enabled: true,
+    stations: [
+      { name: "Groove Salad", url: "https://ice1.somafm.com/groovesalad-128-mp3", genre: "ambient" },
+      { name: "KEXP", url: "https://kexp.streamguys1.com/kexp160.aac", genre: "indie" }
+    ],
+    // Skip the DNS lookup so the public example URL resolves offline.
+    assertStreamUrl: async () => undefined
+  });
+
+  const byGenre = await source.search("play some ambient radio", 5);
+  assert.deepEqual(byGenre.results.map((result) => result.title), ["Groove Salad"]);
+  assert.equal(byGenre.results[0]?.streamUrl, "https://ice1.somafm.com/groovesalad-128-mp3");
+
+  const allStations = await source.search("radio", 5);
+  assert.equal(allStations.results.length, 2);
+
+  const direct = await source.search("https://stream.example.com/live.mp3", 5);
+  assert.equal(direct.results[0]?.platform, "radio");
+  assert.equal(direct.results[0]?.streamUrl, "https://stream.example.com/live.mp3");
+
+  const pageLink = await source.search("https://www.youtube.com/watch?v=abc123", 5);
+  assert.deepEqual(pageLink.results, []);
+
+});
+
+test("radio source rejects direct stream URLs that point at internal hosts", async () => {
+  const source = new RadioMusicSource({ enabled: true });
+  for (const internalUrl of [
+    "http://127.0.0.1:8000/stream",
+    "http://localhost:8000/live.mp3",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://10.0.0.5/live"
+  ]) {
+    const blocked = await source.search(internalUrl, 5);
+    assert.deepEqual(blocked.results, []);
+    assert.match(String(blocked.error), /stream url rejected: blocked host/);
+  }
+});
+
+test("local file source indexes tags into the store and only re-reads changed files", async () => {
+  const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-music-library-"));
+  const store = new Store(path.join(rootDir, "clanker.db"));
+  store.init();
+  const readPaths: string[] = [];
+  const readTags = async (filePath: string) => {
+    readPaths.push(filePath);
+    return filePath.endsWith(".flac")
+      ? { title: "Roygbiv", artist: "Boards of Canada", album: "Music Has the Right to Children", durationMs: 151_000 }
+      : { title: null, artist: null, album: null, durationMs: null };
+  };
+  const libraryDir = path.join(rootDir, "library");
+
+  try {
+    await fs.mkdir(path.join(libraryDir, "Boards of Canada"), { recursive: true });
+    await fs.writeFile(path.join(libraryDir, "Boards of Canada", "03 track.flac"), "");
+    await fs.writeFile(path.join(libraryDir, "Burial - Archangel.mp3"), "");
+    await fs.writeFile(path.join(libraryDir, "cover.jpg"), "");
+
+    const source = new LocalFileMusicSource({ rootDir: libraryDir, store, readTags });
+    const byAlbum = await source.search("right to children", 5);
+    assert.equal(byAlbum.results.length, 1);
+    const [track] = byAlbum.results;
+    assert.equal(track?.title, "Roygbiv");
+    assert.equal(track?.artist, "Boards of Canada");
+    assert.equal(track?.platform, "local");
+    assert.equal(track?.durationSeconds, 151);
+    assert.equal(resolveLocalTrackPath(track?.externalUrl), path.join(libraryDir, "Boards of Canada", "03 track.flac"));
+
+    const byFileName = await source.search("burial archangel", 5);
+    assert.deepEqual(byFileName.results.map((result) => result.title), ["Archangel"]);
+    assert.deepEqual((await source.search("cover", 5)).results, []);
+    assert.equal(store.listMusicLocalTracks(libraryDir).length, 2);
+    assert.equal(readPaths.length, 2);
+
+    // A fresh source (as after a restart) reuses the stored tags for unchanged files.
+    await fs.rm(path.join(libraryDir, "Burial - Archangel.mp3"));
+    const restarted = new LocalFileMusicSource({ rootDir: libraryDir, store, readTags });
+    assert.equal((await restarted.search("roygbiv", 5)).results.length, 1);
+    assert.equal(readPaths.length, 2);
+    assert.deepEqual(store.listMusicLocalTracks(libraryDir).map((row) => row.title), ["Roygbiv"]);
+    assert.equal(new LocalFileMusicSource().isConfigured(), false);
+  } finally {
+    store.close();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  }
+});
+
+test("parseLocalTrackName splits artist and title from file names", () => {
+  assert.deepEqual(parseLocalTrackName("Burial - Archangel.mp3"), { artist: "Burial", title: "Archangel" });
+  assert.deepEqual(parseLocalTrackName("Untrue/02_Archangel.ogg"), { artist: "Untrue", title: "Archangel" });
+  assert.deepEqual(parseLocalTrackName("loose track.wav"), { artist: "Unknown Artist", title: "loose track" });
+  assert.equal(resolveLocalTrackPath("https://example.com/a.mp3"), null);
+});
+
+test("music search ranks results across sources and drops duplicate ids", async () => {
+  const provider = new MusicSearchProvider({
+    sources: [
+      createFakeSource("youtube", [
+        { id: "youtube:1", title: "Archangel (live)", artist: "Someone" },
+        { id: "youtube:2", title: "Archangel", artist: "Burial" }
+      ]),
+      createFakeSource("youtube", [{ id: "youtube:2", title: "Archangel", artist: "Burial" }]),
+      createFakeSource("local", [{ id: "local:1", title: "Unrelated", artist: "Nobody" }]),
+      {
+        platform: "bandcamp",
+        isConfigured: () => true,
+        async search() {
+          throw new Error("bandcamp down");
+        }
+      }
+    ]
+  });
+
+  const response = await provider.search("archangel");
+  assert.equal(response.ok, true);
+  assert.deepEqual(response.results.map((result) => result.id), ["youtube:2", "youtube:1", "local:1"]);
+
+  const localOnly = await provider.search("archangel", { platform: "local" });
+  assert.deepEqual(localOnly.results.map((result) => result.id), ["local:1"]);
+});
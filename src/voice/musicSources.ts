@@ -0,0 +1,668 @@
+/**
+ * Pluggable music search backends.
+ *
+ * Each source answers one platform and returns `MusicSearchResult`s;
+ * `MusicSearchProvider` fans a query out to every configured source and
+ * ranks the merged list. Sources never throw from `search()` — failures
+ * come back as an empty result list with `error` set.
+ */
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { promisify } from "node:util";
+import { assertPublicUrl } from "../services/urlSafety.ts";
+import type { MusicLocalTrackRecord } from "../store/storeMusic.ts";
+import { calculateFuzzyScore } from "./musicSearch.ts";
+import type { MusicPlatform, MusicSearchResponse, MusicSearchResult } from "./musicSearch.ts";
+import { readAudioFileTags } from "./musicTags.ts";
+import type { AudioFileTags } from "./musicTags.ts";
+
+const execFileAsync = promisify(execFile);
+
+const YOUTUBE_API_BASE = "https://www.googleapis.com/youtube/v3";
+const BANDCAMP_SEARCH_URL = "https://bandcamp.com/api/bcsearch_public_api/1/autocomplete_elastic";
+const YT_DLP_SEARCH_TIMEOUT_MS = 15_000;
+const YT_DLP_SEARCH_MAX_BUFFER_BYTES = 2 * 1024 * 1024;
+const LOCAL_LIBRARY_RESCAN_MS = 5 * 60_000;
+const LOCAL_LIBRARY_MAX_FILES = 10_000;
+const LOCAL_MATCH_MIN_SCORE = 0.3;
+const LOCAL_AUDIO_EXTENSIONS = new Set([".mp3", ".flac", ".ogg", ".oga", ".opus", ".m4a", ".aac", ".wav"]);
+const RADIO_QUERY_FILLER_WORDS = new Set(["radio", "station", "stream", "live", "the", "some", "play"]);
+// URLs these hosts serve are pages, not audio streams; the platform sources handle them.
+const NON_STREAM_URL_HOST_RE = /(^|\.)(youtube\.com|youtu\.be|soundcloud\.com|bandcamp\.com)$/i;
+
+export interface MusicSource {
+  readonly platform: MusicPlatform;
+  isConfigured(): boolean;
+  search(query: string, limit: number): Promise<MusicSearchResponse>;
+}
+
+export type MusicRadioStation = {
+  name: string;
+  url: string;
+  genre?: string | null;
+};
+
+export type YtDlpRunner = (args: string[]) => Promise<string>;
+
+function emptyResponse(query: string, error: string | null = null): MusicSearchResponse {
+  return { ok: true, query, results: [], error };
+}
+
+function errorText(error: unknown) {
+  return String((error as Error)?.message || error);
+}
+
+function normalizeToken(value: unknown) {
+  return String(value || "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function queryTokens(query: string) {
+  return normalizeToken(query).split(" ").filter(Boolean);
+}
+
+function shortHash(value: string) {
+  return createHash("sha1").update(value).digest("hex").slice(0, 16);
+}
+
+async function runYtDlp(args: string[]) {
+  const { stdout } = await execFileAsync("yt-dlp", args, {
+    timeout: YT_DLP_SEARCH_TIMEOUT_MS,
+    maxBuffer: YT_DLP_SEARCH_MAX_BUFFER_BYTES,
+    encoding: "utf8"
+  });
+  return String(stdout || "");
+}
+
+export class YoutubeApiMusicSource implements MusicSource {
+  readonly platform = "youtube" as const;
+  private readonly apiKey: string;
+
+  constructor(apiKey = "") {
+    this.apiKey = String(apiKey || "").trim();
+  }
+
+  isConfigured() {
+    return Boolean(this.apiKey);
+  }
+
+  async search(query: string, limit: number): Promise<MusicSearchResponse> {
+    if (!this.apiKey) return emptyResponse(query);
+
+    try {
+      const params = new URLSearchParams({
+        part: "snippet",
+        q: query,
+        type: "video",
+        videoCategoryId: "10",
+        maxResults: String(limit),
+        key: this.apiKey
+      });
+
+      const response = await fetch(`${YOUTUBE_API_BASE}/search?${params}`);
+      if (!response.ok) {
+        return emptyResponse(query, `youtube api error: ${response.status}`);
+      }
+
+      const data = await response.json().catch(() => null);
+      if (!data?.items) return emptyResponse(query);
+
+      const results: MusicSearchResult[] = data.items
+        .filter((item: Record<string, unknown>) => (item.id as Record<string, string>)?.videoId)
+        .map((item: Record<string, unknown>) => {
+          const snippet = item.snippet as Record<string, unknown>;
+          const idObj = item.id as Record<string, string>;
+          const videoId = idObj.videoId || "";
+          const thumbnails = (snippet.thumbnails as Record<string, { url?: string }>) || {};
+          return {
+            id: `youtube:${videoId}`,
+            title: String(snippet.title || "Unknown"),
+            artist: String(snippet.channelTitle || "Unknown Artist"),
+            platform: "youtube" as MusicPlatform,
+            streamUrl: null,
+            durationSeconds: null,
+            thumbnailUrl: thumbnails.medium?.url || thumbnails.default?.url || null,
+            externalUrl: `https://www.youtube.com/watch?v=${videoId}`
+          };
+        });
+
+      return { ok: true, query, results, error: null };
+    } catch (error) {
+      return emptyResponse(query, errorText(error));
+    }
+  }
+}
+
+export class SoundcloudMusicSource implements MusicSource {
+  readonly platform = "soundcloud" as const;
+  private readonly clientId: string;
+
+  constructor(clientId = "") {
+    this.clientId = String(clientId || "").trim();
+  }
+
+  isConfigured() {
+    return Boolean(this.clientId);
+  }
+
+  async search(query: string, limit: number): Promise<MusicSearchResponse> {
+    if (!this.clientId) return emptyResponse(query);
+
+    try {
+      const params = new URLSearchParams({
+        q: query,
+        client_id: this.clientId,
+        limit: String(limit),
+        offset: "0"
+      });
+
+      const response = await fetch(`https://api.soundcloud.com/tracks?${params}`);
+      if (!response.ok) {
+        return emptyResponse(query, `soundcloud api error: ${response.status}`);
+      }
+
+      const data = await response.json().catch(() => null);
+      if (!Array.isArray(data)) return emptyResponse(query);
+
+      const results: MusicSearchResult[] = data
+        .filter((track: Record<string, unknown>) => track.id && track.stream_url)
+        .map((track: Record<string, unknown>) => {
+          const permalinkUrl = String(track.permalink_url || "").trim();
+          const normalizedExternalUrl = permalinkUrl
+            ? /^https?:\/\//i.test(permalinkUrl)
+              ? permalinkUrl
+              : `https://soundcloud.com${permalinkUrl.startsWith("/") ? "" : "/"}${permalinkUrl}`
+            : "";
+          return {
+            id: `soundcloud:${track.id}`,
+            title: (track.title as string) || "Unknown",
+            artist: ((track.user as Record<string, unknown>)?.username as string) || "Unknown Artist",
+            platform: "soundcloud" as MusicPlatform,
+            streamUrl: `${track.stream_url}?client_id=${this.clientId}`,
+            durationSeconds: track.duration ? Math.floor((track.duration as number) / 1000) : null,
+            thumbnailUrl: (track.artwork_url as string) || null,
+            externalUrl: normalizedExternalUrl
+          };
+        });
+
+      return { ok: true, query, results, error: null };
+    } catch (error) {
+      return emptyResponse(query, errorText(error));
+    }
+  }
+}
+
+/** YouTube search through yt-dlp's `ytsearch` extractor, for installs without an API key. */
+export class YtDlpMusicSource implements MusicSource {
+  readonly platform = "youtube" as const;
+  private readonly enabled: boolean;
+  private readonly run: YtDlpRunner;
+
+  constructor({ enabled = false, run = runYtDlp }: { enabled?: boolean; run?: YtDlpRunner } = {}) {
+    this.enabled = Boolean(enabled);
+    this.run = run;
+  }
+
+  isConfigured() {
+    return this.enabled;
+  }
+
+  async search(query: string, limit: number): Promise<MusicSearchResponse> {
+    if (!this.enabled) return emptyResponse(query);
+
+    try {
+      const stdout = await this.run([
+        "--no-warnings",
+        "--quiet",
+        "--flat-playlist",
+        "--dump-json",
+        `ytsearch${limit}:${query}`
+      ]);
+      const results: MusicSearchResult[] = [];
+      for (const line of stdout.split(/\r?\n/)) {
+        const entry = parseJsonLine(line);
+        const videoId = String(entry?.id || "").trim();
+        if (!entry || !videoId) continue;
+        const duration = Number(entry.duration);
+        const thumbnails = Array.isArray(entry.thumbnails) ? entry.thumbnails : [];
+        const lastThumbnail = thumbnails[thumbnails.length - 1] as { url?: unknown } | undefined;
+        results.push({
+          id: `youtube:${videoId}`,
+          title: String(entry.title || "Unknown"),
+          artist: String(entry.channel || entry.uploader || "Unknown Artist"),
+          platform: "youtube",
+          streamUrl: null,
+          durationSeconds: Number.isFinite(duration) && duration > 0 ? Math.floor(duration) : null,
+          thumbnailUrl: typeof lastThumbnail?.url === "string" ? lastThumbnail.url : null,
+          externalUrl: `https://www.youtube.com/watch?v=${videoId}`
+        });
+      }
+      return { ok: true, query, results: results.slice(0, limit), error: null };
+    } catch (error) {
+      return emptyResponse(query, `yt-dlp search failed: ${errorText(error)}`);
+    }
+  }
+}
+
+function parseJsonLine(line: string): Record<string, unknown> | null {
+  const text = line.trim();
+  if (!text) return null;
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Bandcamp track search via the public autocomplete endpoint; playback resolves through yt-dlp. */
+export class BandcampMusicSource implements MusicSource {
+  readonly platform = "bandcamp" as const;
+  private readonly enabled: boolean;
+
+  constructor({ enabled = false }: { enabled?: boolean } = {}) {
+    this.enabled = Boolean(enabled);
+  }
+
+  isConfigured() {
+    return this.enabled;
+  }
+
+  async search(query: string, limit: number): Promise<MusicSearchResponse> {
+    if (!this.enabled) return emptyResponse(query);
+
+    try {
+      const response = await fetch(BANDCAMP_SEARCH_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          search_text: query,
+          search_filter: "t",
+          full_page: false,
+          fan_id: null
+        })
+      });
+      if (!response.ok) {
+        return emptyResponse(query, `bandcamp search error: ${response.status}`);
+      }
+
+      const data = await response.json().catch(() => null);
+      const rows = Array.isArray(data?.auto?.results) ? data.auto.results : [];
+      const results: MusicSearchResult[] = rows
+        .filter((row: Record<string, unknown>) => row?.type === "t" && row.id && row.item_url_path)
+        .slice(0, limit)
+        .map((row: Record<string, unknown>) => ({
+          id: `bandcamp:${row.id}`,
+          title: String(row.name || "Unknown"),
+          artist: String(row.band_name || "Unknown Artist"),
+          platform: "bandcamp" as MusicPlatform,
+          streamUrl: null,
+          durationSeconds: null,
+          thumbnailUrl: typeof row.img === "string" ? row.img : null,
+          externalUrl: String(row.item_url_path)
+        }));
+
+      return { ok: true, query, results, error: null };
+    } catch (error) {
+      return emptyResponse(query, errorText(error));
+    }
+  }
+}
+
+/**
+ * Configured HTTP/Icecast stations matched by name or genre, plus any direct
+ * stream URL the user pastes. Results carry the stream URL so playback skips yt-dlp.
+ */
+export class RadioMusicSource implements MusicSource {
+  readonly platform = "radio" as const;
+  private readonly enabled: boolean;
+  private readonly stations: MusicRadioStation[];
+  private readonly assertStreamUrl: (url: string) => Promise<void>;
+
+  constructor({
+    enabled = false,
+    stations = [],
+    assertStreamUrl = assertPublicUrl
+  }: {
+    enabled?: boolean;
+    stations?: MusicRadioStation[];
+    assertStreamUrl?: (url: string) => Promise<void>;
+  } = {}) {
+    this.enabled = Boolean(enabled);
+    this.stations = normalizeRadioStations(stations);
+    this.assertStreamUrl = assertStreamUrl;
+  }
+
+  isConfigured() {
+    return this.enabled;
+  }
+
+  async search(query: string, limit: number): Promise<MusicSearchResponse> {
+    if (!this.enabled) return emptyResponse(query);
+    const directStream = toDirectStreamResult(query);
+    if (directStream) {
+      // User-supplied stream URLs go straight to ffmpeg, so they must not
+      // reach loopback, private or metadata addresses.
+      try {
+        await this.assertStreamUrl(String(directStream.streamUrl));
+      } catch (error) {
+        return emptyResponse(query, `stream url rejected: ${errorText(error)}`);
+      }
+      return { ok: true, query, results: [directStream], error: null };
+    }
+
+    const tokens = queryTokens(query).filter((token) => !RADIO_QUERY_FILLER_WORDS.has(token));
+    const mentionsRadio = /\b(radio|station)\b/i.test(query);
+    const matches = this.stations.filter((station) => {
+      const haystack = normalizeToken(`${station.name} ${station.genre || ""}`);
+      if (!tokens.length) return mentionsRadio;
+      return tokens.every((token) => haystack.includes(token));
+    });
+    return {
+      ok: true,
+      query,
+      results: matches.slice(0, limit).map((station) => toStationResult(station)),
+      error: null
+    };
+  }
+}
+
+export function normalizeRadioStations(value: unknown): MusicRadioStation[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => {
+      const name = String(entry?.name || "").trim();
+      const url = String(entry?.url || "").trim();
+      if (!name || !/^https?:\/\//i.test(url)) return null;
+      const genre = String(entry?.genre || "").trim() || null;
+      return { name, url, genre };
+    })
+    .filter((entry): entry is { name: string; url: string; genre: string | null } => Boolean(entry));
+}
+
+function toStationResult(station: MusicRadioStation): MusicSearchResult {
+  return {
+    id: `radio:${shortHash(station.url)}`,
+    title: station.name,
+    artist: station.genre ? `${station.genre} radio` : "Radio",
+    platform: "radio",
+    streamUrl: station.url,
+    durationSeconds: null,
+    thumbnailUrl: null,
+    externalUrl: station.url
+  };
+}
+
+function toDirectStreamResult(query: string): MusicSearchResult | null {
+  const text = String(query || "").trim();
+  if (!/^https?:\/\/\S+$/i.test(text)) return null;
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return null;
+  }
+  if (NON_STREAM_URL_HOST_RE.test(url.hostname)) return null;
+  const label = `${url.hostname}${url.pathname === "/" ? "" : url.pathname}`;
+  return {
+    id: `radio:${shortHash(url.href)}`,
+    title: label,
+    artist: "Radio stream",
+    platform: "radio",
+    streamUrl: url.href,
+    durationSeconds: null,
+    thumbnailUrl: null,
+    externalUrl: url.href
+  };
+}
+
+/** The store surface the local library persists its tag index through. */
+export type MusicLocalTrackStore = {
+  listMusicLocalTracks(libraryDir: string): MusicLocalTrackRecord[];
+  upsertMusicLocalTracks(tracks: MusicLocalTrackRecord[]): unknown;
+  deleteMusicLocalTracks(filePaths: string[]): unknown;
+};
+
+export type AudioTagReader = (filePath: string) => Promise<AudioFileTags>;
+
+type LocalLibraryFile = {
+  filePath: string;
+  relativePath: string;
+  mtimeMs: number;
+  sizeBytes: number;
+};
+
+/**
+ * Audio files under a configured directory, indexed by their ID3/Vorbis/FLAC
+ * tags (file names fill in whatever the tags lack). The index lives in SQLite
+ * when a store is provided, so a restart only re-reads files whose size or
+ * mtime changed; the directory is rescanned at most every few minutes.
+ */
+export class LocalFileMusicSource implements MusicSource {
+  readonly platform = "local" as const;
+  private readonly rootDir: string;
+  private readonly store: MusicLocalTrackStore | null;
+  private readonly readTags: AudioTagReader;
+  private tracks = new Map<string, MusicLocalTrackRecord>();
+  private loadedFromStore = false;
+  private indexedAt = 0;
+  private indexing: Promise<MusicLocalTrackRecord[]> | null = null;
+
+  constructor({
+    rootDir = "",
+    store = null,
+    readTags = readAudioFileTags
+  }: {
+    rootDir?: string;
+    store?: MusicLocalTrackStore | null;
+    readTags?: AudioTagReader;
+  } = {}) {
+    const normalized = String(rootDir || "").trim();
+    this.rootDir = normalized ? path.resolve(normalized) : "";
+    this.store = store;
+    this.readTags = readTags;
+  }
+
+  isConfigured() {
+    return Boolean(this.rootDir);
+  }
+
+  async search(query: string, limit: number): Promise<MusicSearchResponse> {
+    if (!this.rootDir) return emptyResponse(query);
+
+    try {
+      const tracks = await this.getIndex();
+      const wordCount = queryTokens(query).length;
+      if (!wordCount) return emptyResponse(query);
+      // One matching word is enough for a one-word query; longer queries need two.
+      const minScore = Math.min(LOCAL_MATCH_MIN_SCORE * 2, LOCAL_MATCH_MIN_SCORE * wordCount);
+      const results = tracks
+        .map((track) => ({ track, score: scoreLocalTrack(query, track) }))
+        .filter((entry) => entry.score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map((entry) => toLocalTrackResult(entry.track));
+      return { ok: true, query, results, error: null };
+    } catch (error) {
+      return emptyResponse(query, `local library scan failed: ${errorText(error)}`);
+    }
+  }
+
+  /** Rescans the directory now instead of waiting for the index to go stale. */
+  async refresh() {
+    this.indexedAt = 0;
+    return this.getIndex();
+  }
+
+  private async getIndex() {
+    if (this.indexedAt && Date.now() - this.indexedAt < LOCAL_LIBRARY_RESCAN_MS) {
+      return [...this.tracks.values()];
+    }
+    if (!this.indexing) {
+      this.indexing = this.reindex()
+        .then((tracks) => {
+          this.indexedAt = Date.now();
+          return tracks;
+        })
+        .finally(() => {
+          this.indexing = null;
+        });
+    }
+    return this.indexing;
+  }
+
+  private async reindex() {
+    if (!this.loadedFromStore) {
+      this.loadedFromStore = true;
+      for (const track of this.store?.listMusicLocalTracks(this.rootDir) || []) {
+        this.tracks.set(track.filePath, track);
+      }
+    }
+
+    const files = await scanLocalLibrary(this.rootDir);
+    const next = new Map<string, MusicLocalTrackRecord>();
+    const changed: MusicLocalTrackRecord[] = [];
+    for (const file of files) {
+      const known = this.tracks.get(file.filePath);
+      if (known && known.mtimeMs === file.mtimeMs && known.sizeBytes === file.sizeBytes) {
+        next.set(file.filePath, known);
+        continue;
+      }
+      const track = await this.indexFile(file);
+      next.set(file.filePath, track);
+      changed.push(track);
+    }
+    const removed = [...this.tracks.keys()].filter((filePath) => !next.has(filePath));
+
+    this.tracks = next;
+    if (changed.length) this.store?.upsertMusicLocalTracks(changed);
+    if (removed.length) this.store?.deleteMusicLocalTracks(removed);
+    return [...next.values()];
+  }
+
+  private async indexFile(file: LocalLibraryFile): Promise<MusicLocalTrackRecord> {
+    const tags = await this.readTags(file.filePath).catch(() => null);
+    const fromName = parseLocalTrackName(file.relativePath);
+    return {
+      filePath: file.filePath,
+      libraryDir: this.rootDir,
+      relativePath: file.relativePath,
+      mtimeMs: file.mtimeMs,
+      sizeBytes: file.sizeBytes,
+      title: tags?.title || fromName.title,
+      artist: tags?.artist || fromName.artist,
+      album: tags?.album || null,
+      durationMs: tags?.durationMs ?? null
+    };
+  }
+}
+
+function scoreLocalTrack(query: string, track: MusicLocalTrackRecord) {
+  const artist = track.artist || "";
+  return Math.max(
+    calculateFuzzyScore(query, track.title, artist),
+    track.album ? calculateFuzzyScore(query, track.album, artist) : 0
+  );
+}
+
+function toLocalTrackResult(track: MusicLocalTrackRecord): MusicSearchResult {
+  return {
+    id: `local:${shortHash(track.relativePath)}`,
+    title: track.title,
+    artist: track.artist || "Unknown Artist",
+    platform: "local",
+    streamUrl: track.filePath,
+    durationSeconds: track.durationMs != null ? Math.round(track.durationMs / 1000) : null,
+    thumbnailUrl: null,
+    externalUrl: pathToFileURL(track.filePath).href
+  };
+}
+
+async function scanLocalLibrary(rootDir: string) {
+  const files: LocalLibraryFile[] = [];
+  const pending = [rootDir];
+  while (pending.length && files.length < LOCAL_LIBRARY_MAX_FILES) {
+    const dir = pending.shift() as string;
+    const dirents = await fs.readdir(dir, { withFileTypes: true });
+    for (const dirent of dirents) {
+      const filePath = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) {
+        pending.push(filePath);
+        continue;
+      }
+      if (!dirent.isFile() || !LOCAL_AUDIO_EXTENSIONS.has(path.extname(dirent.name).toLowerCase())) continue;
+      const stat = await fs.stat(filePath).catch(() => null);
+      if (!stat) continue;
+      files.push({
+        filePath,
+        relativePath: path.relative(rootDir, filePath),
+        mtimeMs: Math.round(stat.mtimeMs),
+        sizeBytes: stat.size
+      });
+      if (files.length >= LOCAL_LIBRARY_MAX_FILES) break;
+    }
+  }
+  return files;
+}
+
+export function parseLocalTrackName(relativePath: string) {
+  const baseName = path.basename(relativePath, path.extname(relativePath)).replace(/_/g, " ").trim();
+  const withoutTrackNumber = baseName.replace(/^\d{1,3}[\s.-]+/, "");
+  const separatorIndex = withoutTrackNumber.indexOf(" - ");
+  if (separatorIndex > 0) {
+    return {
+      artist: withoutTrackNumber.slice(0, separatorIndex).trim(),
+      title: withoutTrackNumber.slice(separatorIndex + 3).trim() || baseName
+    };
+  }
+  const parentDir = path.basename(path.dirname(relativePath));
+  return {
+    artist: parentDir && parentDir !== "." ? parentDir : "Unknown Artist",
+    title: withoutTrackNumber || baseName
+  };
+}
+
+/** File path for a `local` track's `file://` URL, or null for anything else. */
+export function resolveLocalTrackPath(externalUrl: string | null | undefined) {
+  const text = String(externalUrl || "").trim();
+  if (!text.startsWith("file://")) return null;
+  try {
+    return fileURLToPath(text);
+  } catch {
+    return null;
+  }
+}
+
+export function createMusicSources({
+  youtubeApiKey = "",
+  soundcloudClientId = "",
+  ytDlpSearchEnabled = false,
+  bandcampSearchEnabled = false,
+  radioEnabled = false,
+  radioStations = [],
+  localLibraryDir = "",
+  localLibraryStore = null
+}: {
+  youtubeApiKey?: string;
+  soundcloudClientId?: string;
+  ytDlpSearchEnabled?: boolean;
+  bandcampSearchEnabled?: boolean;
+  radioEnabled?: boolean;
+  radioStations?: MusicRadioStation[];
+  localLibraryDir?: string;
+  localLibraryStore?: MusicLocalTrackStore | null;
+} = {}): MusicSource[] {
+  return [
+    new YoutubeApiMusicSource(youtubeApiKey),
+    new SoundcloudMusicSource(soundcloudClientId),
+    new YtDlpMusicSource({ enabled: ytDlpSearchEnabled }),
+    new BandcampMusicSource({ enabled: bandcampSearchEnabled }),
+    new RadioMusicSource({ enabled: radioEnabled, stations: radioStations }),
+    new LocalFileMusicSource({ rootDir: localLibraryDir, store: localLibraryStore })
+  ];
+}
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { test } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { parseAudioFileTags, readAudioFileTags } from "./musicTags.ts";
+
+function syncsafe(size: number) {
+  return Buffer.from([(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+}
+
+function id3v23Frame(id: string, text: string) {
+  const body = Buffer.concat([Buffer.from([3]), Buffer.from(text, "utf8")]);
+  const header = Buffer.alloc(10);
+  header.write(id, 0, "latin1");
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+function vorbisComment(entries: string[]) {
+  const vendor = Buffer.from("test");
+  const parts = [Buffer.alloc(4), vendor, Buffer.alloc(4)];
+  parts[0].writeUInt32LE(vendor.length);
+  parts[2].writeUInt32LE(entries.length);
+  for (const entry of entries) {
+    const value = Buffer.from(entry, "utf8");
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(value.length);
+    parts.push(length, value);
+  }
+  return Buffer.concat(parts);
+}
+
+function oggPage(packet: Buffer, granule: bigint) {
+  const header = Buffer.alloc(27);
+  header.write("OggS", 0, "latin1");
+  header.writeBigInt64LE(granule, 6);
+  const segments: number[] = [];
+  let remaining = packet.length;
+  while (remaining >= 255) {
+    segments.push(255);
+    remaining -= 255;
+  }
+  segments.push(remaining);
+  header[26] = segments.length;
+  return Buffer.concat([header, Buffer.from(segments), packet]);
+}
+
+test("mp3 tags come from ID3v2 frames and duration from the Xing frame count", () => {
+  const frames = Buffer.concat([
+    id3v23Frame("TIT2", "Archangel"),
+    id3v23Frame("TPE1", "Burial"),
+    id3v23Frame("TALB", "Untrue")
+  ]);
+  const id3 = Buffer.concat([Buffer.from("ID3"), Buffer.from([3, 0, 0]), syncsafe(frames.length), frames]);
+  // MPEG1 Layer III, 128 kbps, 44.1 kHz, stereo, followed by a Xing header with 1000 frames.
+  const mpegFrame = Buffer.alloc(417);
+  mpegFrame.set([0xff, 0xfb, 0x90, 0x00]);
+  mpegFrame.write("Xing", 36, "latin1");
+  mpegFrame.writeUInt32BE(0x01, 40);
+  mpegFrame.writeUInt32BE(1000, 44);
+  const file = Buffer.concat([id3, mpegFrame]);
+
+  assert.deepEqual(parseAudioFileTags(".mp3", file, file, file.length), {
+    title: "Archangel",
+    artist: "Burial",
+    album: "Untrue",
+    durationMs: 26_122
+  });
+});
+
+test("mp3 files without ID3v2 fall back to ID3v1 and constant-bitrate duration", () => {
+  const audio = Buffer.alloc(160_000);
+  audio.set([0xff, 0xfb, 0x90, 0x00]);
+  const v1 = Buffer.alloc(128);
+  v1.write("TAG", 0, "latin1");
+  v1.write("Roygbiv", 3, "latin1");
+  v1.write("Boards of Canada", 33, "latin1");
+  const file = Buffer.concat([audio, v1]);
+
+  const tags = parseAudioFileTags(".mp3", file, file.subarray(file.length - 1024), file.length);
+  assert.equal(tags.title, "Roygbiv");
+  assert.equal(tags.artist, "Boards of Canada");
+  assert.equal(tags.album, null);
+  assert.equal(tags.durationMs, 10_000);
+});
+
+test("flac tags come from the Vorbis comment block and duration from STREAMINFO", () => {
+  const streamInfo = Buffer.alloc(34);
+  // 44.1 kHz, stereo, 16-bit, 441000 samples.
+  streamInfo[10] = 0x0a;
+  streamInfo[11] = 0xc4;
+  streamInfo[12] = 0x42;
+  streamInfo[13] = 0xf0;
+  streamInfo.writeUInt32BE(441_000, 14);
+  const comments = vorbisComment(["title=Teardrop", "ALBUMARTIST=Massive Attack", "ALBUM=Mezzanine"]);
+  const blockHeader = (type: number, length: number, last: boolean) =>
+    Buffer.from([(last ? 0x80 : 0) | type, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+  const file = Buffer.concat([
+    Buffer.from("fLaC"),
+    blockHeader(0, streamInfo.length, false),
+    streamInfo,
+    blockHeader(4, comments.length, true),
+    comments
+  ]);
+
+  assert.deepEqual(parseAudioFileTags(".flac", file, file, file.length), {
+    title: "Teardrop",
+    artist: "Massive Attack",
+    album: "Mezzanine",
+    durationMs: 10_000
+  });
+});
+
+test("opus files read OpusTags and the last page granule position", async () => {
+  const head = Buffer.alloc(19);
+  head.write("OpusHead", 0, "latin1");
+  head[8] = 1;
+  head[9] = 2;
+  head.writeUInt16LE(312, 10);
+  const tags = Buffer.concat([Buffer.from("OpusTags"), vorbisComment(["TITLE=Svefn-g-englar", "ARTIST=Sigur Rós"])]);
+  const file = Buffer.concat([oggPage(head, 0n), oggPage(tags, 0n), oggPage(Buffer.alloc(10), 96_312n)]);
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-music-tags-"));
+  try {
+    const filePath = path.join(dir, "track.opus");
+    await fs.writeFile(filePath, file);
+    assert.deepEqual(await readAudioFileTags(filePath), {
+      title: "Svefn-g-englar",
+      artist: "Sigur Rós",
+      album: null,
+      durationMs: 2000
+    });
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("unknown formats and truncated headers return empty tags", () => {
+  const empty = { title: null, artist: null, album: null, durationMs: null };
+  assert.deepEqual(parseAudioFileTags(".m4a", Buffer.alloc(16), Buffer.alloc(16), 16), empty);
+  const truncated = Buffer.concat([Buffer.from("fLaC"), Buffer.from([0, 0, 0, 34])]);
+  assert.deepEqual(parseAudioFileTags(".flac", truncated, truncated, truncated.length), empty);
+});
@@ -0,0 +1,341 @@
+/**
+ * Minimal tag readers for the local music library: ID3v2/ID3v1 and MPEG frame
+ * headers for MP3, STREAMINFO and Vorbis comments for FLAC, the comment headers
+ * of Ogg Vorbis/Opus, and RIFF INFO chunks for WAV. Other formats (m4a, aac)
+ * return empty tags and fall back to the file name.
+ */
+import fs from "node:fs/promises";
+import path from "node:path";
+
+const HEAD_BYTES = 512 * 1024;
+const TAIL_BYTES = 64 * 1024;
+const MAX_TAG_TEXT_CHARS = 220;
+
+export type AudioFileTags = {
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  durationMs: number | null;
+};
+
+type TagFields = Partial<Pick<AudioFileTags, "title" | "artist" | "album">>;
+
+const EMPTY_TAGS: AudioFileTags = { title: null, artist: null, album: null, durationMs: null };
+
+const MPEG1_LAYER3_KBPS = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_LAYER3_KBPS = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MPEG1_SAMPLE_RATES = [44100, 48000, 32000];
+
+const ID3_FRAME_FIELDS: Record<string, keyof TagFields> = {
+  TIT2: "title",
+  TT2: "title",
+  TPE1: "artist",
+  TP1: "artist",
+  TALB: "album",
+  TAL: "album"
+};
+
+function cleanTagText(value: string) {
+  const text = value.replace(/\0.*$/s, "").replace(/\s+/g, " ").trim().slice(0, MAX_TAG_TEXT_CHARS);
+  return text || null;
+}
+
+function toDurationMs(seconds: number) {
+  return Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : null;
+}
+
+function decodeUtf16(bytes: Buffer, littleEndian: boolean) {
+  const even = bytes.subarray(0, bytes.length - (bytes.length % 2));
+  if (littleEndian) return even.toString("utf16le");
+  const swapped = Buffer.from(even);
+  swapped.swap16();
+  return swapped.toString("utf16le");
+}
+
+function decodeId3Text(frame: Buffer) {
+  const encoding = frame[0];
+  const body = frame.subarray(1);
+  if (encoding === 1) {
+    if (body[0] === 0xfe && body[1] === 0xff) return decodeUtf16(body.subarray(2), false);
+    if (body[0] === 0xff && body[1] === 0xfe) return decodeUtf16(body.subarray(2), true);
+    return decodeUtf16(body, true);
+  }
+  if (encoding === 2) return decodeUtf16(body, false);
+  if (encoding === 3) return body.toString("utf8");
+  return body.toString("latin1");
+}
+
+function readSyncsafe(buffer: Buffer, offset: number) {
+  return (
+    ((buffer[offset] & 0x7f) << 21) |
+    ((buffer[offset + 1] & 0x7f) << 14) |
+    ((buffer[offset + 2] & 0x7f) << 7) |
+    (buffer[offset + 3] & 0x7f)
+  );
+}
+
+/** Total ID3v2 tag length at the start of the buffer, or 0 when there is none. */
+function id3v2Length(head: Buffer) {
+  if (head.length < 10 || head.toString("latin1", 0, 3) !== "ID3") return 0;
+  const footer = head[5] & 0x10 ? 10 : 0;
+  return 10 + readSyncsafe(head, 6) + footer;
+}
+
+function readId3v2(head: Buffer) {
+  const fields: TagFields = {};
+  let lengthMs: number | null = null;
+  const version = head[3];
+  const tagEnd = Math.min(head.length, 10 + readSyncsafe(head, 6));
+  let offset = 10;
+  if (head[5] & 0x40) {
+    offset += version === 4 ? readSyncsafe(head, 10) : head.readUInt32BE(10) + 4;
+  }
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+
+  while (offset + headerLength <= tagEnd) {
+    const id = head.toString("latin1", offset, offset + idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+    const size =
+      version === 2
+        ? head.readUIntBE(offset + 3, 3)
+        : version === 4
+          ? readSyncsafe(head, offset + 4)
+          : head.readUInt32BE(offset + 4);
+    const dataStart = offset + headerLength;
+    const dataEnd = dataStart + size;
+    if (size <= 0 || dataEnd > tagEnd) break;
+    const frame = head.subarray(dataStart, dataEnd);
+    const field = ID3_FRAME_FIELDS[id];
+    if (field && !fields[field]) {
+      fields[field] = cleanTagText(decodeId3Text(frame));
+    } else if (id === "TLEN" || id === "TLE") {
+      const parsed = Number(cleanTagText(decodeId3Text(frame)));
+      lengthMs = Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : null;
+    }
+    offset = dataEnd;
+  }
+  return { fields, lengthMs };
+}
+
+function readId3v1(tail: Buffer): TagFields {
+  if (tail.length < 128) return {};
+  const tag = tail.subarray(tail.length - 128);
+  if (tag.toString("latin1", 0, 3) !== "TAG") return {};
+  return {
+    title: cleanTagText(tag.toString("latin1", 3, 33)),
+    artist: cleanTagText(tag.toString("latin1", 33, 63)),
+    album: cleanTagText(tag.toString("latin1", 63, 93))
+  };
+}
+
+/** Duration from the first MPEG Layer III frame: the Xing/Info frame count when present, else CBR size math. */
+function estimateMp3DurationMs(head: Buffer, audioStart: number, audioBytes: number) {
+  const searchEnd = Math.min(head.length - 4, audioStart + 64 * 1024);
+  for (let offset = audioStart; offset < searchEnd; offset += 1) {
+    if (head[offset] !== 0xff || (head[offset + 1] & 0xe0) !== 0xe0) continue;
+    const versionBits = (head[offset + 1] >> 3) & 0x03;
+    const layerBits = (head[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = head[offset + 2] >> 4;
+    const sampleRateIndex = (head[offset + 2] >> 2) & 0x03;
+    if (versionBits === 1 || layerBits !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+      continue;
+    }
+    const mpeg1 = versionBits === 3;
+    const sampleRate = MPEG1_SAMPLE_RATES[sampleRateIndex] / (mpeg1 ? 1 : versionBits === 2 ? 2 : 4);
+    const samplesPerFrame = mpeg1 ? 1152 : 576;
+    const mono = (head[offset + 3] >> 6) === 3;
+    const xingOffset = offset + 4 + (mpeg1 ? (mono ? 17 : 32) : mono ? 9 : 17);
+    const marker = head.toString("latin1", xingOffset, xingOffset + 4);
+    if ((marker === "Xing" || marker === "Info") && xingOffset + 12 <= head.length) {
+      const flags = head.readUInt32BE(xingOffset + 4);
+      if (flags & 0x01) {
+        return toDurationMs((head.readUInt32BE(xingOffset + 8) * samplesPerFrame) / sampleRate);
+      }
+    }
+    const kbps = (mpeg1 ? MPEG1_LAYER3_KBPS : MPEG2_LAYER3_KBPS)[bitrateIndex];
+    return toDurationMs(((audioBytes - (offset - audioStart)) * 8) / (kbps * 1000));
+  }
+  return null;
+}
+
+function readMp3(head: Buffer, tail: Buffer, fileSize: number): AudioFileTags {
+  const id3Length = id3v2Length(head);
+  const id3 = id3Length ? readId3v2(head) : { fields: {}, lengthMs: null };
+  const v1 = readId3v1(tail);
+  const audioBytes = fileSize - id3Length - (v1.title || v1.artist || v1.album ? 128 : 0);
+  return {
+    title: id3.fields.title || v1.title || null,
+    artist: id3.fields.artist || v1.artist || null,
+    album: id3.fields.album || v1.album || null,
+    durationMs: id3.lengthMs ?? estimateMp3DurationMs(head, id3Length, audioBytes)
+  };
+}
+
+/** Vorbis comment block (shared by FLAC and Ogg): little-endian vendor string, then `KEY=value` entries. */
+function readVorbisComments(buffer: Buffer, offset = 0): TagFields {
+  const fields: TagFields = {};
+  let albumArtist: string | null = null;
+  if (offset + 4 > buffer.length) return fields;
+  let cursor = offset + 4 + buffer.readUInt32LE(offset);
+  if (cursor + 4 > buffer.length) return fields;
+  const count = buffer.readUInt32LE(cursor);
+  cursor += 4;
+  for (let index = 0; index < count && cursor + 4 <= buffer.length; index += 1) {
+    const length = buffer.readUInt32LE(cursor);
+    cursor += 4;
+    if (cursor + length > buffer.length) break;
+    const entry = buffer.toString("utf8", cursor, cursor + length);
+    cursor += length;
+    const separator = entry.indexOf("=");
+    if (separator <= 0) continue;
+    const key = entry.slice(0, separator).toUpperCase();
+    const value = cleanTagText(entry.slice(separator + 1));
+    if (key === "TITLE" && !fields.title) fields.title = value;
+    else if (key === "ARTIST" && !fields.artist) fields.artist = value;
+    else if (key === "ALBUM" && !fields.album) fields.album = value;
+    else if (key === "ALBUMARTIST" && !albumArtist) albumArtist = value;
+  }
+  if (!fields.artist && albumArtist) fields.artist = albumArtist;
+  return fields;
+}
+
+function readFlac(head: Buffer): AudioFileTags {
+  const start = id3v2Length(head);
+  if (head.toString("latin1", start, start + 4) !== "fLaC") return { ...EMPTY_TAGS };
+  const tags: AudioFileTags = { ...EMPTY_TAGS };
+  let offset = start + 4;
+  while (offset + 4 <= head.length) {
+    const isLast = Boolean(head[offset] & 0x80);
+    const blockType = head[offset] & 0x7f;
+    const length = head.readUIntBE(offset + 1, 3);
+    const blockStart = offset + 4;
+    if (blockStart + length > head.length) break;
+    if (blockType === 0 && length >= 18) {
+      const sampleRate = (head[blockStart + 10] << 12) | (head[blockStart + 11] << 4) | (head[blockStart + 12] >> 4);
+      const totalSamples = (head[blockStart + 13] & 0x0f) * 2 ** 32 + head.readUInt32BE(blockStart + 14);
+      tags.durationMs = sampleRate > 0 ? toDurationMs(totalSamples / sampleRate) : null;
+    } else if (blockType === 4) {
+      Object.assign(tags, readVorbisComments(head.subarray(blockStart, blockStart + length)));
+    }
+    if (isLast) break;
+    offset = blockStart + length;
+  }
+  return tags;
+}
+
+/** Reassembles the first few Ogg packets; the identification and comment headers always come first. */
+function readOggPackets(head: Buffer, maxPackets: number) {
+  const packets: Buffer[] = [];
+  let pending: Buffer[] = [];
+  let offset = 0;
+  while (offset + 27 <= head.length && packets.length < maxPackets) {
+    if (head.toString("latin1", offset, offset + 4) !== "OggS") break;
+    const segmentCount = head[offset + 26];
+    const tableStart = offset + 27;
+    let dataOffset = tableStart + segmentCount;
+    if (dataOffset > head.length) break;
+    for (let segment = 0; segment < segmentCount; segment += 1) {
+      const size = head[tableStart + segment];
+      pending.push(head.subarray(dataOffset, Math.min(head.length, dataOffset + size)));
+      dataOffset += size;
+      if (size < 255) {
+        packets.push(Buffer.concat(pending));
+        pending = [];
+        if (packets.length >= maxPackets) break;
+      }
+    }
+    offset = dataOffset;
+  }
+  return packets;
+}
+
+function lastOggGranule(tail: Buffer) {
+  const index = tail.lastIndexOf("OggS");
+  if (index < 0 || index + 14 > tail.length) return null;
+  const granule = Number(tail.readBigInt64LE(index + 6));
+  return granule > 0 ? granule : null;
+}
+
+function readOgg(head: Buffer, tail: Buffer): AudioFileTags {
+  const [identification, comments] = readOggPackets(head, 2);
+  if (!identification || !comments) return { ...EMPTY_TAGS };
+  const granule = lastOggGranule(tail);
+  if (identification.toString("latin1", 0, 8) === "OpusHead" && comments.toString("latin1", 0, 8) === "OpusTags") {
+    // Opus granule positions always count 48 kHz samples, including the encoder pre-skip.
+    const preSkip = identification.length >= 12 ? identification.readUInt16LE(10) : 0;
+    return {
+      ...EMPTY_TAGS,
+      ...readVorbisComments(comments, 8),
+      durationMs: granule ? toDurationMs((granule - preSkip) / 48_000) : null
+    };
+  }
+  if (identification.toString("latin1", 1, 7) === "vorbis" && comments.toString("latin1", 1, 7) === "vorbis") {
+    const sampleRate = identification.length >= 16 ? identification.readUInt32LE(12) : 0;
+    return {
+      ...EMPTY_TAGS,
+      ...readVorbisComments(comments, 7),
+      durationMs: granule && sampleRate > 0 ? toDurationMs(granule / sampleRate) : null
+    };
+  }
+  return { ...EMPTY_TAGS };
+}
+
+function readWav(head: Buffer): AudioFileTags {
+  if (head.toString("latin1", 0, 4) !== "RIFF" || head.toString("latin1", 8, 12) !== "WAVE") return { ...EMPTY_TAGS };
+  const tags: AudioFileTags = { ...EMPTY_TAGS };
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= head.length) {
+    const chunkId = head.toString("latin1", offset, offset + 4);
+    const size = head.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+    if (chunkId === "fmt " && chunkStart + 12 <= head.length) {
+      byteRate = head.readUInt32LE(chunkStart + 8);
+    } else if (chunkId === "data") {
+      tags.durationMs = byteRate > 0 ? toDurationMs(size / byteRate) : null;
+    } else if (chunkId === "LIST" && head.toString("latin1", chunkStart, chunkStart + 4) === "INFO") {
+      let cursor = chunkStart + 4;
+      const listEnd = Math.min(head.length, chunkStart + size);
+      while (cursor + 8 <= listEnd) {
+        const infoId = head.toString("latin1", cursor, cursor + 4);
+        const infoSize = head.readUInt32LE(cursor + 4);
+        const value = cleanTagText(head.toString("utf8", cursor + 8, Math.min(listEnd, cursor + 8 + infoSize)));
+        if (infoId === "INAM") tags.title = value;
+        else if (infoId === "IART") tags.artist = value;
+        else if (infoId === "IPRD") tags.album = value;
+        cursor += 8 + infoSize + (infoSize % 2);
+      }
+    }
+    offset = chunkStart + size + (size % 2);
+  }
+  return tags;
+}
+
+/** Reads title/artist/album and duration from an audio file; unknown formats and parse failures return nulls. */
+export async function readAudioFileTags(filePath: string): Promise<AudioFileTags> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    const head = Buffer.alloc(Math.min(size, HEAD_BYTES));
+    await handle.read(head, 0, head.length, 0);
+    const tailLength = Math.min(size, TAIL_BYTES);
+    const tail = Buffer.alloc(tailLength);
+    await handle.read(tail, 0, tailLength, size - tailLength);
+    return parseAudioFileTags(path.extname(filePath).toLowerCase(), head, tail, size);
+  } finally {
+    await handle.close();
+  }
+}
+
+export function parseAudioFileTags(extension: string, head: Buffer, tail: Buffer, fileSize: number): AudioFileTags {
+  try {
+    if (extension === ".mp3") return readMp3(head, tail, fileSize);
+    if (extension === ".flac") return readFlac(head);
+    if (extension === ".ogg" || extension === ".oga" || extension === ".opus") return readOgg(head, tail);
+    if (extension === ".wav") return readWav(head);
+  } catch {
+    // Truncated or malformed headers read past the buffer; treat them as untagged.
+  }
+  return { ...EMPTY_TAGS };
+}
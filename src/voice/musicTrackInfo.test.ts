@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { test } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  LrcFileTrackInfoProvider,
+  LrclibTrackInfoProvider,
+  MusicTrackInfoService,
+  normalizeTrackForLookup,
+  parseLrc,
+  selectLyricWindow
+} from "./musicTrackInfo.ts";
+import type { MusicTrackInfoProvider } from "./musicTrackInfo.ts";
+
+const SAMPLE_LRC = [
+  "[ar:Burial]",
+  "[al:Untrue]",
+  "[offset:500]",
+  "[00:10.50]holding you",
+  "[00:20.00][01:00.00]tell me I belong",
+  "[00:30.00]",
+  "[00:40.25]something else"
+].join("\n");
+
+test("parseLrc orders repeated timestamps and applies the offset header", () => {
+  const parsed = parseLrc(SAMPLE_LRC);
+  assert.equal(parsed.album, "Untrue");
+  assert.equal(parsed.plainText, null);
+  assert.deepEqual(parsed.lines, [
+    { timeMs: 10_000, text: "holding you" },
+    { timeMs: 19_500, text: "tell me I belong" },
+    { timeMs: 29_500, text: "" },
+    { timeMs: 39_750, text: "something else" },
+    { timeMs: 59_500, text: "tell me I belong" }
+  ]);
+  assert.equal(parseLrc("just some words\nno timestamps").plainText, "just some words\nno timestamps");
+});
+
+test("selectLyricWindow picks the line at the playback position with context", () => {
+  const { lines } = parseLrc(SAMPLE_LRC);
+  assert.deepEqual(selectLyricWindow(lines, 5_000), { current: null, previous: [], next: ["holding you", "tell me I belong"] });
+  assert.deepEqual(selectLyricWindow(lines, 25_000, { before: 1, after: 1 }), {
+    current: "tell me I belong",
+    previous: ["holding you"],
+    next: []
+  });
+  assert.equal(selectLyricWindow(lines, 31_000).current, null);
+  assert.deepEqual(selectLyricWindow(lines, 31_000).previous, ["holding you", "tell me I belong"]);
+});
+
+test("normalizeTrackForLookup strips upload noise and splits channel uploads", () => {
+  assert.deepEqual(normalizeTrackForLookup({ title: "Burial - Archangel (Official Video)", artist: "BurialVEVO" }), {
+    title: "Archangel",
+    artist: "Burial"
+  });
+  assert.deepEqual(normalizeTrackForLookup({ title: "Archangel [HD]", artist: "Burial - Topic" }), {
+    title: "Archangel",
+    artist: "Burial"
+  });
+});
+
+test("lrc file provider reads sidecar files next to local tracks and the lyrics directory", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-lyrics-"));
+  try {
+    const trackPath = path.join(dir, "01 Archangel.mp3");
+    await fs.writeFile(path.join(dir, "01 Archangel.lrc"), SAMPLE_LRC);
+    await fs.mkdir(path.join(dir, "lyrics"));
+    await fs.writeFile(path.join(dir, "lyrics", "Burial - Near Dark.lrc"), "[00:05.00]near dark");
+
+    const provider = new LrcFileTrackInfoProvider(path.join(dir, "lyrics"));
+    const sidecar = await provider.lookup({
+      id: "local:1",
+      title: "Archangel",
+      artist: "Burial",
+      platform: "local",
+      externalUrl: pathToFileURL(trackPath).href
+    });
+    assert.equal(sidecar?.album, "Untrue");
+    assert.equal(sidecar?.syncedLyrics?.length, 5);
+
+    const fromDir = await provider.lookup({ id: "youtube:1", title: "Near Dark", artist: "Burial", platform: "youtube" });
+    assert.deepEqual(fromDir?.syncedLyrics, [{ timeMs: 5000, text: "near dark" }]);
+    assert.equal(await provider.lookup({ id: "youtube:2", title: "Unknown", artist: "Nobody" }), null);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("lrclib provider sends cleaned title, artist and duration", async () => {
+  const urls: string[] = [];
+  const provider = new LrclibTrackInfoProvider({
+    async fetchImpl(url) {
+      urls.push(url);
+      return new Response(
+        JSON.stringify({ albumName: "Untrue", syncedLyrics: "[00:01.00]hi", plainLyrics: "hi" }),
+        { status: 200, headers: { "content-type": "application/json" } }
+      );
+    }
+  });
+  const found = await provider.lookup({
+    id: "youtube:1",
+    title: "Archangel (Official Audio)",
+    artist: "Burial",
+    durationSeconds: 238.4
+  });
+  const params = new URL(urls[0] || "").searchParams;
+  assert.equal(params.get("track_name"), "Archangel");
+  assert.equal(params.get("artist_name"), "Burial");
+  assert.equal(params.get("duration"), "238");
+  assert.equal(found?.album, "Untrue");
+  assert.deepEqual(found?.syncedLyrics, [{ timeMs: 1000, text: "hi" }]);
+});
+
+test("track info service merges providers in order and caches per track", async () => {
+  let calls = 0;
+  const provider = (name: string, details: object | Error): MusicTrackInfoProvider => ({
+    name,
+    async lookup() {
+      calls += 1;
+      if (details instanceof Error) throw details;
+      return details;
+    }
+  });
+  const service = new MusicTrackInfoService([
+    provider("plain", { plainLyrics: "words" }),
+    provider("broken", new Error("offline")),
+    provider("tags", { album: "Untrue", syncedLyrics: [{ timeMs: 0, text: "synced" }] }),
+    provider("brainz", { album: "Other", releaseYear: 2007 })
+  ]);
+  const track = { id: "youtube:1", title: "Archangel", artist: "Burial", platform: "youtube" };
+
+  const info = await service.lookup(track);
+  assert.deepEqual(info, {
+    album: "Untrue",
+    releaseYear: 2007,
+    syncedLyrics: [{ timeMs: 0, text: "synced" }],
+    plainLyrics: null,
+    sources: ["plain", "tags", "brainz"]
+  });
+  assert.equal(calls, 4);
+  assert.equal(await service.lookup(track), info);
+  assert.equal(calls, 4);
+});
@@ -0,0 +1,356 @@
+/**
+ * Track metadata enrichment for now-playing: album, release year and lyrics.
+ *
+ * Providers run in order and each fills only the fields still missing, so a
+ * local LRC file wins over LRCLIB and local tags win over MusicBrainz.
+ * Lookups are cached per track. Synced lyrics are windowed around the playback
+ * position by `selectLyricWindow` so the voice brain can answer "what did they
+ * just say" mid-song.
+ */
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { MusicLocalTrackRecord } from "../store/storeMusic.ts";
+import { resolveLocalTrackPath } from "./musicSources.ts";
+
+const LRCLIB_API_URL = "https://lrclib.net/api/get";
+const MUSICBRAINZ_API_URL = "https://musicbrainz.org/ws/2/recording";
+const METADATA_USER_AGENT = "clanky/0.1 (https://github.com/Volpestyle/clanker_conk)";
+const PROVIDER_TIMEOUT_MS = 4000;
+const TRACK_INFO_CACHE_TTL_MS = 6 * 60 * 60_000;
+const TRACK_INFO_CACHE_MAX_ENTRIES = 200;
+const MUSICBRAINZ_MIN_SCORE = 80;
+const MAX_PLAIN_LYRICS_CHARS = 6000;
+const LRC_TIMESTAMP_RE = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+// Upload-title noise that keeps lyric and metadata lookups from matching.
+const TITLE_NOISE_RE =
+  /\s*[([](?:official|lyrics?|lyric video|audio|video|hd|hq|4k|visuali[sz]er|explicit|remaster(?:ed)?)[^)\]]*[)\]]/gi;
+
+export type LyricLine = {
+  timeMs: number;
+  text: string;
+};
+
+export type MusicTrackInfoQuery = {
+  id: string;
+  title: string;
+  artist: string | null;
+  platform?: string | null;
+  externalUrl?: string | null;
+  durationSeconds?: number | null;
+};
+
+export type MusicTrackDetails = {
+  album: string | null;
+  releaseYear: number | null;
+  syncedLyrics: LyricLine[] | null;
+  plainLyrics: string | null;
+};
+
+export type MusicTrackInfo = MusicTrackDetails & {
+  /** Provider names that contributed at least one field, in lookup order. */
+  sources: string[];
+};
+
+export interface MusicTrackInfoProvider {
+  readonly name: string;
+  lookup(track: MusicTrackInfoQuery): Promise<Partial<MusicTrackDetails> | null>;
+}
+
+export type MusicLocalTrackLookup = {
+  getMusicLocalTrack(filePath: string): MusicLocalTrackRecord | null;
+};
+
+type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+function optionalText(value: unknown) {
+  const text = String(value ?? "").trim();
+  return text || null;
+}
+
+function parseReleaseYear(value: unknown) {
+  const match = /^(\d{4})/.exec(String(value || "").trim());
+  return match ? Number(match[1]) : null;
+}
+
+/** Strips upload noise ("(Official Video)", "[Lyrics]") and splits "Artist - Title" uploads. */
+export function normalizeTrackForLookup(track: Pick<MusicTrackInfoQuery, "title" | "artist">) {
+  let title = String(track.title || "").replace(TITLE_NOISE_RE, "").trim();
+  let artist = String(track.artist || "").replace(/\s+-\s+Topic$/i, "").trim();
+  const separator = title.indexOf(" - ");
+  if (separator > 0) {
+    const leading = title.slice(0, separator).trim();
+    // Channel uploads put the real artist in the title; trust it over the channel name.
+    if (!artist || /vevo$/i.test(artist) || leading.toLowerCase().includes(artist.toLowerCase())) {
+      artist = leading;
+      title = title.slice(separator + 3).trim();
+    }
+  }
+  return { title, artist };
+}
+
+/** Parses LRC text into time-ordered lines; `[offset:ms]` shifts every timestamp. */
+export function parseLrc(text: string) {
+  const lines: LyricLine[] = [];
+  const headers: Record<string, string> = {};
+  for (const rawLine of String(text || "").split(/\r?\n/)) {
+    const header = /^\[([a-z]+):(.*)\]\s*$/i.exec(rawLine.trim());
+    if (header) {
+      headers[header[1].toLowerCase()] = header[2].trim();
+      continue;
+    }
+    const stamps = [...rawLine.matchAll(LRC_TIMESTAMP_RE)];
+    if (!stamps.length) continue;
+    const lyric = rawLine.replace(LRC_TIMESTAMP_RE, "").replace(/<\d+:\d+(?:\.\d+)?>/g, "").trim();
+    for (const stamp of stamps) {
+      const fraction = stamp[3] ? Number(stamp[3].padEnd(3, "0")) : 0;
+      lines.push({ timeMs: Number(stamp[1]) * 60_000 + Number(stamp[2]) * 1000 + fraction, text: lyric });
+    }
+  }
+  const offsetMs = Number(headers.offset);
+  if (Number.isFinite(offsetMs) && offsetMs !== 0) {
+    // A positive offset means lyrics come up sooner.
+    for (const line of lines) line.timeMs = Math.max(0, line.timeMs - offsetMs);
+  }
+  lines.sort((a, b) => a.timeMs - b.timeMs);
+  return {
+    lines,
+    album: optionalText(headers.al),
+    plainText: lines.length ? null : optionalText(text)
+  };
+}
+
+/** The lyric line at `positionMs` with a few lines of context either side. */
+export function selectLyricWindow(
+  lines: LyricLine[],
+  positionMs: number,
+  { before = 3, after = 2 }: { before?: number; after?: number } = {}
+) {
+  let currentIndex = -1;
+  for (let index = 0; index < lines.length && lines[index].timeMs <= positionMs; index += 1) {
+    currentIndex = index;
+  }
+  const pick = (from: number, to: number) =>
+    lines.slice(Math.max(0, from), Math.max(0, to)).filter((line) => line.text).map((line) => line.text);
+  return {
+    current: currentIndex >= 0 ? lines[currentIndex].text || null : null,
+    previous: pick(currentIndex - before, currentIndex),
+    next: pick(currentIndex + 1, currentIndex + 1 + after)
+  };
+}
+
+function lyricsFromLrc(text: string): Partial<MusicTrackDetails> {
+  const parsed = parseLrc(text);
+  return {
+    album: parsed.album,
+    syncedLyrics: parsed.lines.length ? parsed.lines : null,
+    plainLyrics: parsed.plainText ? parsed.plainText.slice(0, MAX_PLAIN_LYRICS_CHARS) : null
+  };
+}
+
+function safeFileName(value: string) {
+  return value.replace(/[\\/:*?"<>|]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+async function readTextFile(filePath: string) {
+  return fs.readFile(filePath, "utf8").catch(() => null);
+}
+
+/**
+ * `.lrc` files: a sidecar next to a local track (`song.flac` → `song.lrc`), then
+ * `Artist - Title.lrc` in the configured lyrics directory.
+ */
+export class LrcFileTrackInfoProvider implements MusicTrackInfoProvider {
+  readonly name = "lrc_file";
+  private readonly lyricsDir: string;
+
+  constructor(lyricsDir = "") {
+    const normalized = String(lyricsDir || "").trim();
+    this.lyricsDir = normalized ? path.resolve(normalized) : "";
+  }
+
+  async lookup(track: MusicTrackInfoQuery) {
+    const candidates: string[] = [];
+    const localPath = track.platform === "local" ? resolveLocalTrackPath(track.externalUrl) : null;
+    if (localPath) {
+      candidates.push(path.join(path.dirname(localPath), `${path.basename(localPath, path.extname(localPath))}.lrc`));
+    }
+    if (this.lyricsDir) {
+      const { title, artist } = normalizeTrackForLookup(track);
+      if (title && artist) candidates.push(path.join(this.lyricsDir, `${safeFileName(`${artist} - ${title}`)}.lrc`));
+      if (title) candidates.push(path.join(this.lyricsDir, `${safeFileName(title)}.lrc`));
+    }
+    for (const candidate of candidates) {
+      const text = await readTextFile(candidate);
+      if (text?.trim()) return lyricsFromLrc(text);
+    }
+    return null;
+  }
+}
+
+/** Album from the local library's tag index. */
+export class LocalTagTrackInfoProvider implements MusicTrackInfoProvider {
+  readonly name = "local_tags";
+  private readonly store: MusicLocalTrackLookup | null;
+
+  constructor(store: MusicLocalTrackLookup | null = null) {
+    this.store = store;
+  }
+
+  async lookup(track: MusicTrackInfoQuery) {
+    if (track.platform !== "local" || typeof this.store?.getMusicLocalTrack !== "function") return null;
+    const filePath = resolveLocalTrackPath(track.externalUrl);
+    const row = filePath ? this.store.getMusicLocalTrack(filePath) : null;
+    return row?.album ? { album: row.album } : null;
+  }
+}
+
+/** LRCLIB (https://lrclib.net): free synced and plain lyrics, no API key. */
+export class LrclibTrackInfoProvider implements MusicTrackInfoProvider {
+  readonly name = "lrclib";
+  private readonly fetchImpl: FetchLike;
+
+  constructor({ fetchImpl = fetch }: { fetchImpl?: FetchLike } = {}) {
+    this.fetchImpl = fetchImpl;
+  }
+
+  async lookup(track: MusicTrackInfoQuery) {
+    const { title, artist } = normalizeTrackForLookup(track);
+    if (!title || !artist) return null;
+    const params = new URLSearchParams({ track_name: title, artist_name: artist });
+    const durationSeconds = Number(track.durationSeconds);
+    if (Number.isFinite(durationSeconds) && durationSeconds > 0) params.set("duration", String(Math.round(durationSeconds)));
+    const response = await this.fetchImpl(`${LRCLIB_API_URL}?${params}`, {
+      headers: { "User-Agent": METADATA_USER_AGENT },
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+    });
+    if (!response.ok) return null;
+    const data = await response.json().catch(() => null);
+    if (!data || typeof data !== "object") return null;
+    const synced = typeof data.syncedLyrics === "string" ? parseLrc(data.syncedLyrics).lines : [];
+    const plain = optionalText(data.plainLyrics);
+    return {
+      album: optionalText(data.albumName),
+      syncedLyrics: synced.length ? synced : null,
+      plainLyrics: plain ? plain.slice(0, MAX_PLAIN_LYRICS_CHARS) : null
+    };
+  }
+}
+
+/** MusicBrainz recording search for album and first release year. */
+export class MusicBrainzTrackInfoProvider implements MusicTrackInfoProvider {
+  readonly name = "musicbrainz";
+  private readonly fetchImpl: FetchLike;
+
+  constructor({ fetchImpl = fetch }: { fetchImpl?: FetchLike } = {}) {
+    this.fetchImpl = fetchImpl;
+  }
+
+  async lookup(track: MusicTrackInfoQuery) {
+    const { title, artist } = normalizeTrackForLookup(track);
+    if (!title || !artist) return null;
+    const escape = (value: string) => value.replace(/(["\\])/g, "\\$1");
+    const params = new URLSearchParams({
+      query: `recording:"${escape(title)}" AND artist:"${escape(artist)}"`,
+      fmt: "json",
+      limit: "1"
+    });
+    const response = await this.fetchImpl(`${MUSICBRAINZ_API_URL}?${params}`, {
+      headers: { "User-Agent": METADATA_USER_AGENT, Accept: "application/json" },
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+    });
+    if (!response.ok) return null;
+    const data = await response.json().catch(() => null);
+    const recording = Array.isArray(data?.recordings) ? data.recordings[0] : null;
+    if (!recording || Number(recording.score) < MUSICBRAINZ_MIN_SCORE) return null;
+    const release = Array.isArray(recording.releases) ? recording.releases[0] : null;
+    return {
+      album: optionalText(release?.title),
+      releaseYear: parseReleaseYear(recording["first-release-date"] || release?.date)
+    };
+  }
+}
+
+type CachedTrackInfo = {
+  info: MusicTrackInfo;
+  expiresAt: number;
+};
+
+export class MusicTrackInfoService {
+  readonly providers: MusicTrackInfoProvider[];
+  private readonly cache = new Map<string, CachedTrackInfo>();
+  private readonly inFlight = new Map<string, Promise<MusicTrackInfo>>();
+
+  constructor(providers: MusicTrackInfoProvider[] = []) {
+    this.providers = providers;
+  }
+
+  async lookup(track: MusicTrackInfoQuery): Promise<MusicTrackInfo> {
+    const key = `${track.platform || "unknown"}:${track.id || track.externalUrl || track.title}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.info;
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const lookup = this.runProviders(track)
+      .then((info) => {
+        this.cache.delete(key);
+        this.cache.set(key, { info, expiresAt: Date.now() + TRACK_INFO_CACHE_TTL_MS });
+        while (this.cache.size > TRACK_INFO_CACHE_MAX_ENTRIES) {
+          const oldestKey = this.cache.keys().next().value;
+          if (oldestKey === undefined) break;
+          this.cache.delete(oldestKey);
+        }
+        return info;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+    this.inFlight.set(key, lookup);
+    return lookup;
+  }
+
+  private async runProviders(track: MusicTrackInfoQuery) {
+    const info: MusicTrackInfo = { album: null, releaseYear: null, syncedLyrics: null, plainLyrics: null, sources: [] };
+    for (const provider of this.providers) {
+      if (info.album && info.releaseYear && info.syncedLyrics) break;
+      const found = await provider.lookup(track).catch(() => null);
+      if (!found) continue;
+      let contributed = false;
+      if (!info.album && found.album) {
+        info.album = found.album;
+        contributed = true;
+      }
+      if (!info.releaseYear && found.releaseYear) {
+        info.releaseYear = found.releaseYear;
+        contributed = true;
+      }
+      if (!info.syncedLyrics && found.syncedLyrics?.length) {
+        info.syncedLyrics = found.syncedLyrics;
+        info.plainLyrics = null;
+        contributed = true;
+      } else if (!info.syncedLyrics && !info.plainLyrics && found.plainLyrics) {
+        info.plainLyrics = found.plainLyrics;
+        contributed = true;
+      }
+      if (contributed) info.sources.push(provider.name);
+    }
+    return info;
+  }
+}
+
+export function createMusicTrackInfoService(
+  appConfig: {
+    musicLyricsDir?: string;
+    musicLrclibEnabled?: boolean;
+    musicBrainzEnabled?: boolean;
+  },
+  { store = null }: { store?: MusicLocalTrackLookup | null } = {}
+) {
+  const providers: MusicTrackInfoProvider[] = [
+    new LrcFileTrackInfoProvider(appConfig?.musicLyricsDir),
+    new LocalTagTrackInfoProvider(store)
+  ];
+  if (appConfig?.musicLrclibEnabled) providers.push(new LrclibTrackInfoProvider());
+  if (appConfig?.musicBrainzEnabled) providers.push(new MusicBrainzTrackInfoProvider());
+  return new MusicTrackInfoService(providers);
+}
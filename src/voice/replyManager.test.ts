@@ -39,10 +39,11 @@ function createSession(overrides = {}) {
   };
 }
 
-function createReplyManagerHarness({ hasActiveCapture = false } = {}) {
+function createReplyManagerHarness({ hasActiveCapture = false, spendLedgerTotals = [] } = {}) {
   const logs = [];
   const resumeCalls = [];
   const haltCalls = [];
+  const endSessionCalls = [];
   let deferredTurnBlockingActiveCapture = Boolean(hasActiveCapture);
   const replyManager = new ReplyManager({
     client: { user: { id: "bot-user" } },
@@ -52,6 +53,9 @@ function createReplyManagerHarness({ hasActiveCapture = false } = {}) {
       },
       getSettings() {
         return null;
+      },
+      getSpendLedgerTotals() {
+        return spendLedgerTotals;
       }
     },
     activeReplies: null,
@@ -87,7 +91,10 @@ function createReplyManagerHarness({ hasActiveCapture = false } = {}) {
     hasDeferredTurnBlockingActiveCapture() {
       return deferredTurnBlockingActiveCapture;
     },
-    endSession: async () => true,
+    endSession: async (args) => {
+      endSessionCalls.push(args);
+      return true;
+    },
     scheduleBotSpeechMusicUnduck() {},
     getMusicPhase(session) {
       return session?.music?.phase || "idle";
@@ -110,6 +117,7 @@ function createReplyManagerHarness({ hasActiveCapture = false } = {}) {
     logs,
     resumeCalls,
     haltCalls,
+    endSessionCalls,
     setHasDeferredTurnBlockingActiveCapture(value) {
       deferredTurnBlockingActiveCapture = Boolean(value);
     }
@@ -275,6 +283,39 @@ test("clearStaleRealtimeResponse skips clear when a fresh response replaced the
   assert.equal(activeResponseId, "fresh_resp_2");
 });
 
+test("createTrackedAudioResponse leaves voice instead of requesting audio once the voice spend cap is reached", () => {
+  const { replyManager, logs, endSessionCalls } = createReplyManagerHarness({
+    spendLedgerTotals: [{ feature: "voice", dayUsd: 0.5, monthUsd: 12 }]
+  });
+  let createAudioResponseCalls = 0;
+  const session = createSession({
+    settingsSnapshot: {
+      spendCaps: {
+        enabled: true,
+        features: {
+          voice: { dailyUsd: 0, monthlyUsd: 10, onExceeded: "refuse" }
+        }
+      }
+    },
+    realtimeClient: {
+      createAudioResponse() {
+        createAudioResponseCalls += 1;
+      }
+    }
+  });
+
+  const created = replyManager.createTrackedAudioResponse({ session, userId: "user-1" });
+
+  assert.equal(created, false);
+  assert.equal(createAudioResponseCalls, 0);
+  assert.equal(session.pendingResponse, null);
+  assert.equal(endSessionCalls.length, 1);
+  assert.equal(endSessionCalls[0]?.reason, "spend_cap_exceeded");
+  const capLog = logs.find((entry) => entry.kind === "spend_cap_exceeded");
+  assert.equal(capLog?.metadata?.window, "monthly");
+  assert.equal(capLog?.metadata?.event, "response_create");
+});
+
 test("handleResponseDone waits for buffered assistant playback before requesting wake-word music resume", async () => {
   const { replyManager, resumeCalls, haltCalls } = createReplyManagerHarness();
   const requestedAt = Date.now() - 10;
@@ -1,6 +1,7 @@
 import { estimateUsdCost } from "../llm/pricing.ts";
 import type { ActiveReplyRegistry } from "../tools/activeReplyRegistry.ts";
 import { buildVoiceReplyScopeKey } from "../tools/activeReplyRegistry.ts";
+import type { SpendCapStore } from "../llm/spendCaps.ts";
 import {
   getReplyGenerationSettings,
   getVoiceRuntimeConfig
@@ -37,7 +38,8 @@ import {
   parseResponseDoneModel,
   parseResponseDoneStatus,
   parseResponseDoneUsage,
-  resolveRealtimeProvider
+  resolveRealtimeProvider,
+  resolveRealtimeVoiceSpendCapBlock
 } from "./voiceSessionHelpers.ts";
 import {
   createVoiceOutputLease,
@@ -72,7 +74,7 @@ interface SilentResponseRecoveryArgs {
   responseStatus?: string | null;
 }
 
-type ReplyManagerStoreLike = {
+type ReplyManagerStoreLike = SpendCapStore & {
   getSettings: () => ReplyManagerSettings;
   logAction: (entry: {
     kind: string;
@@ -1036,6 +1038,33 @@ export class ReplyManager {
     });
   }
 
+  /**
+   * Leaves voice once realtime spend reaches the voice cap, so an active session stops
+   * billing the provider instead of only blocking the next join.
+   */
+  endSessionIfVoiceSpendCapReached(
+    session: VoiceSession,
+    event: string,
+    settings: ReplyManagerSettings = null
+  ) {
+    const spendCap = resolveRealtimeVoiceSpendCapBlock({
+      store: this.host.store,
+      settings: settings || session.settingsSnapshot || this.host.store.getSettings(),
+      guildId: session.guildId,
+      channelId: session.textChannelId,
+      userId: this.botUserId,
+      event
+    });
+    if (!spendCap) return false;
+    void this.host.endSession({
+      guildId: session.guildId,
+      reason: "spend_cap_exceeded",
+      announcement: "voice spend cap reached, leaving vc.",
+      settings: session.settingsSnapshot
+    });
+    return true;
+  }
+
   createTrackedAudioResponse({
     session,
     userId = null,
@@ -1076,6 +1105,9 @@ export class ReplyManager {
       });
       return false;
     }
+    if (emitCreateEvent && this.endSessionIfVoiceSpendCapReached(session, "response_create")) {
+      return false;
+    }
     if (emitCreateEvent) {
       session.realtimeClient.createAudioResponse();
     }
@@ -1432,6 +1464,10 @@ export class ReplyManager {
             : null
       }
     });
+    if (responseUsdCost > 0 && this.endSessionIfVoiceSpendCapReached(session, "response_done", resolvedSettings)) {
+      this.clearPendingResponse(session);
+      return;
+    }
 
     // --- Bot utterance completion telemetry ---
     // Closes the observability gap between "text sent to TTS" and
@@ -1,8 +1,10 @@
 import {
   getVoiceChannelPolicy,
   getVoiceSessionLimits,
-  getVoiceSettings
+  getVoiceSettings,
+  resolveScopedSettings
 } from "../settings/agentStack.ts";
+import type { Settings } from "../settings/settingsSchema.ts";
 import { getPromptBotName } from "../prompts/promptCore.ts";
 import { clamp } from "../utils.ts";
 import {
@@ -274,13 +276,22 @@ export class SessionLifecycle {
     });
   }
 
-  async reconcileSettings(settings: SessionLifecycleSettings) {
-    const voiceEnabled = Boolean(getVoiceSettings(settings).enabled);
-    const voiceChannelPolicy = getVoiceChannelPolicy(settings);
-    const allowlist = new Set(voiceChannelPolicy.allowedChannelIds || []);
-    const blocklist = new Set(voiceChannelPolicy.blockedChannelIds || []);
+  async reconcileSettings(globalSettings: SessionLifecycleSettings) {
+    const overlays = typeof this.host.store?.getSettingsOverlays === "function"
+      ? this.host.store.getSettingsOverlays()
+      : [];
 
     for (const session of [...this.host.sessions.values()]) {
+      const settings = globalSettings
+        ? resolveScopedSettings(globalSettings as Settings, overlays, {
+            guildId: session.guildId,
+            channelId: session.textChannelId
+          }) as SessionLifecycleSettings
+        : globalSettings;
+      const voiceEnabled = Boolean(getVoiceSettings(settings).enabled);
+      const voiceChannelPolicy = getVoiceChannelPolicy(settings);
+      const allowlist = new Set(voiceChannelPolicy.allowedChannelIds || []);
+      const blocklist = new Set(voiceChannelPolicy.blockedChannelIds || []);
       session.settingsSnapshot = settings || session.settingsSnapshot;
 
       if (!voiceEnabled) {
@@ -287,7 +287,7 @@ type TurnProcessorStoreLike = {
 };
 
 type TurnProcessorLlmLike = {
-  isAsrReady?: () => boolean;
+  isAsrReady?: (provider?: string) => boolean;
   transcribeAudio?: unknown;
   synthesizeSpeech?: unknown;
 } | null;
@@ -1870,9 +1870,11 @@ export class TurnProcessor {
           ? voiceRuntime.elevenLabsRealtime?.transcriptionModel
           : voiceRuntime.openaiRealtime?.inputTranscriptionModel;
       const transcriptionModel =
-        transcriberProvider === "elevenlabs"
-          ? String(preferredModel || "").trim()
-          : String(preferredModel || "gpt-4o-mini-transcribe").trim() || "gpt-4o-mini-transcribe";
+        transcriberProvider === "local"
+          ? ""
+          : transcriberProvider === "elevenlabs"
+            ? String(preferredModel || "").trim()
+            : String(preferredModel || "gpt-4o-mini-transcribe").trim() || "gpt-4o-mini-transcribe";
       const sampleRateHz = Number(session.realtimeInputSampleRateHz) || 24000;
       const transcriptionPlan = hasTranscriptOverride
         ? {
@@ -1991,7 +1993,7 @@ export class TurnProcessor {
           }
         });
         return;
-      } else if (!hasTranscriptOverride && this.llm?.isAsrReady?.() && this.llm?.transcribeAudio) {
+      } else if (!hasTranscriptOverride && this.llm?.isAsrReady?.(transcriberProvider) && this.llm?.transcribeAudio) {
         // File-based ASR path: used when the ASR bridge is intentionally
         // disabled (e.g. transcriptionMethod: "file_wav" or no OpenAI API key).
         asrStartedAtMs = Date.now();
@@ -2531,10 +2533,12 @@ export class TurnProcessor {
     const voiceRuntime = getVoiceRuntimeConfig(settings);
     const transcriberProvider = resolveTranscriberProvider(settings);
     const transcriptionModelPrimary =
-      transcriberProvider === "elevenlabs"
-        ? String(voiceRuntime.elevenLabsRealtime?.transcriptionModel || "").trim()
-        : String(voiceRuntime.openaiRealtime?.inputTranscriptionModel || "gpt-4o-mini-transcribe").trim() ||
-          "gpt-4o-mini-transcribe";
+      transcriberProvider === "local"
+        ? ""
+        : transcriberProvider === "elevenlabs"
+          ? String(voiceRuntime.elevenLabsRealtime?.transcriptionModel || "").trim()
+          : String(voiceRuntime.openaiRealtime?.inputTranscriptionModel || "gpt-4o-mini-transcribe").trim() ||
+            "gpt-4o-mini-transcribe";
     const sampleRateHz = 24000;
     const silenceGate = this.host.evaluatePcmSilenceGate({
       pcmBuffer,
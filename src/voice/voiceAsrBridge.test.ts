@@ -545,3 +545,44 @@ test("closeSharedAsrSession logs shared scope metadata", async () => {
   assert.equal(metadata.sessionScope, "shared");
   assert.equal(metadata.reason, "session_end");
 });
+
+test("local ASR sessions buffer the utterance and transcribe it on commit without a realtime socket", async () => {
+  const logs: Array<Record<string, unknown>> = [];
+  const session = createSession({
+    perUserAsrEnabled: true,
+    sharedAsrEnabled: false,
+    asrBridgeProvider: "local"
+  });
+  const transcribeCalls: Array<{ audioBytes: Buffer; provider: string; language: string; sampleRateHz: number }> = [];
+  const deps: AsrBridgeDeps = {
+    ...createDeps(session, logs),
+    async transcribeAudio(args) {
+      transcribeCalls.push(args);
+      return "  play the next song  ";
+    }
+  };
+
+  assert.equal(beginAsrUtterance("per_user", session, deps, session.settingsSnapshot, "speaker-1"), true);
+  const pcmA = Buffer.alloc(24_000, 1);
+  const pcmB = Buffer.alloc(24_000, 2);
+  appendAudioToAsr("per_user", session, deps, session.settingsSnapshot, "speaker-1", pcmA);
+  appendAudioToAsr("per_user", session, deps, session.settingsSnapshot, "speaker-1", pcmB);
+  const asrState = getOrCreatePerUserAsrState(session, "speaker-1")!;
+  assert.equal(asrState.client, null);
+  assert.equal(asrState.pendingAudioBytes, pcmA.length + pcmB.length);
+
+  const result = await commitAsrUtterance("per_user", deps, session.settingsSnapshot, "speaker-1", "stream_end");
+
+  assert.equal(result?.transcript, "play the next song");
+  assert.equal(result?.transcriptionModelPrimary, "whisper_cpp");
+  assert.equal(result?.transcriptionPlanReason, "local_per_user_transcription");
+  assert.equal(transcribeCalls.length, 1);
+  assert.equal(transcribeCalls[0]?.provider, "local");
+  assert.equal(transcribeCalls[0]?.language, "en");
+  assert.equal(transcribeCalls[0]?.sampleRateHz, 24_000);
+  // 44-byte WAV header plus both buffered chunks.
+  assert.equal(transcribeCalls[0]?.audioBytes.length, 44 + pcmA.length + pcmB.length);
+  assert.equal(asrState.pendingAudioBytes, 0);
+  assert.equal(asrState.phase, "ready");
+  await closeAllPerUserAsrSessions(session, deps, "test_done");
+});
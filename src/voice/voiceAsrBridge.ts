@@ -8,7 +8,8 @@ import {
   inspectAsrTranscript,
   normalizeVoiceText,
   normalizeInlineText,
-  getRealtimeCommitMinimumBytes
+  getRealtimeCommitMinimumBytes,
+  encodePcm16MonoAsWav
 } from "./voiceSessionHelpers.ts";
 import {
   OPENAI_REALTIME_DEFAULT_TRANSCRIPTION_MODEL,
@@ -202,6 +203,24 @@ export interface AsrBridgeDeps {
     itemId?: string | null;
     previousItemId?: string | null;
   }) => void;
+  /** Transcribes a buffered utterance when the session uses local ASR (see `asrBridgeProvider`). */
+  transcribeAudio?: (args: {
+    audioBytes: Buffer;
+    fileName: string;
+    provider: string;
+    model: string;
+    language: string;
+    prompt: string;
+    sampleRateHz: number;
+    trace: {
+      guildId: string;
+      channelId: string;
+      userId: string;
+      sessionId: string;
+      source: string;
+      captureReason: string;
+    };
+  }) => Promise<string>;
 }
 
 // ── State creation ───────────────────────────────────────────────────
@@ -211,6 +230,16 @@ export interface AsrBridgeDeps {
 const ASR_EMPTY_COMMIT_RECONNECT_THRESHOLD = 3;
 const ASR_EMPTY_COMMIT_MIN_BYTES = 48_000; // ~1s of 24kHz PCM16
 
+// Local ASR keeps a whole utterance buffered until commit instead of the
+// few seconds the OpenAI bridge holds while its socket connects.
+const LOCAL_ASR_MAX_UTTERANCE_SECONDS = 60;
+const LOCAL_ASR_MODEL_LABEL = "whisper_cpp";
+
+/** Local sessions transcribe buffered utterances with whisper.cpp instead of a realtime socket. */
+function usesLocalAsrBridge(session: VoiceSession) {
+  return session.asrBridgeProvider === "local";
+}
+
 export function createAsrBridgeState(): AsrBridgeState {
   return {
     phase: "idle",
@@ -1024,6 +1053,14 @@ export async function ensureAsrSessionConnected(
   const asrState = getAsrState(mode, session, userId);
   if (!asrState || asrPhaseIsClosing(asrState.phase)) return null;
 
+  if (usesLocalAsrBridge(session)) {
+    // Nothing to connect: audio stays in pendingAudioChunks until commit.
+    if (asrState.phase === "idle" || asrState.phase === "connecting") {
+      asrState.phase = "ready";
+    }
+    return asrState;
+  }
+
   const ws = asrState.client?.ws;
   if (ws && ws.readyState === 1) {
     // Ensure phase reflects the live connection
@@ -1278,7 +1315,9 @@ export function appendAudioToAsr(
 
   asrState.pendingAudioChunks.push(queuedChunk);
   asrState.pendingAudioBytes = Math.max(0, Number(asrState.pendingAudioBytes || 0)) + chunk.length;
-  const maxBufferedBytes = 24_000 * 2 * 10;
+  const maxBufferedBytes = usesLocalAsrBridge(session)
+    ? (Number(session.realtimeInputSampleRateHz) || 24_000) * 2 * LOCAL_ASR_MAX_UTTERANCE_SECONDS
+    : 24_000 * 2 * 10;
   if (asrState.pendingAudioBytes > maxBufferedBytes && asrState.pendingAudioChunks.length > 1) {
     while (asrState.pendingAudioChunks.length > 1 && asrState.pendingAudioBytes > maxBufferedBytes) {
       const dropped = asrState.pendingAudioChunks.shift();
@@ -1364,13 +1403,18 @@ export async function commitAsrUtterance(
   const trackedUtteranceId = Math.max(0, Number(trackedUtterance?.id || 0));
   if (!trackedUtteranceId) return null;
 
-  const transcriptionModelPrimary = normalizeOpenAiRealtimeTranscriptionModel(
-    session.openAiPerUserAsrModel,
-    OPENAI_REALTIME_DEFAULT_TRANSCRIPTION_MODEL
-  );
-  const planReason = mode === "per_user"
-    ? "openai_realtime_per_user_transcription"
-    : "openai_realtime_shared_transcription";
+  const localAsr = usesLocalAsrBridge(session);
+  const transcriptionModelPrimary = localAsr
+    ? LOCAL_ASR_MODEL_LABEL
+    : normalizeOpenAiRealtimeTranscriptionModel(
+      session.openAiPerUserAsrModel,
+      OPENAI_REALTIME_DEFAULT_TRANSCRIPTION_MODEL
+    );
+  const planReason = localAsr
+    ? "local_per_user_transcription"
+    : mode === "per_user"
+      ? "openai_realtime_per_user_transcription"
+      : "openai_realtime_shared_transcription";
   const utteranceBytesSent = Math.max(0, Number(trackedUtterance?.bytesSent || 0));
   const minCommitBytes = getRealtimeCommitMinimumBytes(
     session.mode,
@@ -1434,6 +1478,46 @@ export async function commitAsrUtterance(
 
   const asrStartedAtMs = Date.now();
   try {
+    if (localAsr) {
+      const transcript = await transcribeLocalAsrUtterance(deps, settings, asrState, {
+        userId: normalizedUserId,
+        utteranceId: trackedUtteranceId,
+        captureReason
+      });
+      const asrCompletedAtMs = Date.now();
+      scheduleAsrIdleClose(mode, session, deps, normalizedUserId);
+      if (trackedUtterance) trackedUtterance.bytesSent = 0;
+
+      if (!transcript) {
+        store.logAction({
+          kind: "voice_runtime",
+          guildId: session.guildId,
+          channelId: session.textChannelId,
+          userId: normalizedUserId,
+          content: "voice_realtime_transcription_empty",
+          metadata: {
+            sessionId: session.id,
+            source: "local_asr",
+            model: transcriptionModelPrimary,
+            captureReason: String(captureReason || "stream_end"),
+            trackedUtteranceId
+          }
+        });
+      }
+
+      return {
+        transcript,
+        asrStartedAtMs,
+        asrCompletedAtMs,
+        transcriptionModelPrimary,
+        transcriptionModelFallback: null,
+        transcriptionPlanReason: planReason,
+        usedFallbackModel: false,
+        captureReason: String(captureReason || "stream_end"),
+        transcriptLogprobs: null
+      };
+    }
+
     if (mode === "shared") {
       // Shared mode: register commit request, commit, wait for item mapping + transcript
       const commitRequestId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
@@ -1598,7 +1682,7 @@ export async function commitAsrUtterance(
       guildId: session.guildId,
       channelId: session.textChannelId,
       userId: normalizedUserId,
-      content: `openai_realtime_asr_commit_failed: ${String((error as Error)?.message || error)}`,
+      content: `${localAsr ? "local_asr_commit_failed" : "openai_realtime_asr_commit_failed"}: ${String((error as Error)?.message || error)}`,
       metadata: { sessionId: session.id }
     });
     return null;
@@ -1616,6 +1700,55 @@ export async function commitAsrUtterance(
   }
 }
 
+/**
+ * Takes the buffered audio for one utterance out of the pending queue and
+ * transcribes it through the local provider. Returns "" when nothing was
+ * buffered.
+ */
+async function transcribeLocalAsrUtterance(
+  deps: AsrBridgeDeps,
+  settings: Record<string, unknown> | null,
+  asrState: AsrBridgeState,
+  { userId, utteranceId, captureReason }: { userId: string; utteranceId: number; captureReason: string }
+) {
+  const { session, store } = deps;
+  const utteranceChunks: Buffer[] = [];
+  const remainingChunks: AsrPendingAudioChunk[] = [];
+  for (const entry of asrState.pendingAudioChunks) {
+    if (Number(entry?.utteranceId || 0) === utteranceId) utteranceChunks.push(entry.chunk);
+    else remainingChunks.push(entry);
+  }
+  asrState.pendingAudioChunks = remainingChunks;
+  asrState.pendingAudioBytes = remainingChunks.reduce((total, entry) => total + entry.chunk.length, 0);
+  if (!utteranceChunks.length) return "";
+  if (typeof deps.transcribeAudio !== "function") {
+    throw new Error("local ASR transcriber is not configured");
+  }
+
+  const resolvedSettings = settings || session.settingsSnapshot || store.getSettings();
+  const { language, prompt } = resolveAsrModelParams(session, resolvedSettings);
+  const sampleRateHz = Number(session.realtimeInputSampleRateHz) || 24_000;
+  const transcript = await deps.transcribeAudio({
+    audioBytes: encodePcm16MonoAsWav(Buffer.concat(utteranceChunks), sampleRateHz),
+    fileName: "utterance.wav",
+    provider: "local",
+    model: "",
+    language,
+    prompt,
+    sampleRateHz,
+    trace: {
+      guildId: session.guildId,
+      channelId: session.textChannelId,
+      userId,
+      sessionId: session.id,
+      source: "voice_local_asr",
+      captureReason: String(captureReason || "stream_end")
+    }
+  });
+  asrState.lastTranscriptAt = Date.now();
+  return normalizeVoiceText(transcript, STT_TRANSCRIPT_MAX_CHARS_LOCAL);
+}
+
 // ── Idle close scheduling ────────────────────────────────────────────
 
 export function scheduleAsrIdleClose(
@@ -309,6 +309,19 @@ describe("shouldUsePerUserTranscription", () => {
 
     assert.equal(result, true);
   });
+
+  test("local ASR bridge sessions stay per-user without an OpenAI key", () => {
+    const settings = createVoiceSettings({
+      runtimeMode: "voice_agent",
+      openaiRealtime: {
+        usePerUserAsrBridge: false
+      }
+    });
+    const session = { ...createSession("voice_agent", settings), asrBridgeProvider: "local" };
+
+    assert.equal(shouldUsePerUserTranscription({ session, settings, hasOpenAiApiKey: false }), true);
+    assert.equal(shouldUseSharedTranscription({ session, settings, hasOpenAiApiKey: true }), false);
+  });
 });
 
 describe("shouldUseSharedTranscription", () => {
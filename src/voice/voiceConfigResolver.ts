@@ -33,6 +33,7 @@ type VoiceConfigSessionLike = {
   ending?: boolean;
   mode?: string;
   realtimeToolOwnership?: RealtimeToolOwnership | null;
+  asrBridgeProvider?: string | null;
   settingsSnapshot?: VoiceConfigSettings;
 } | null;
 
@@ -147,7 +148,9 @@ export function shouldUsePerUserTranscription({
 } = {}) {
   if (!session || session.ending) return false;
   if (!providerSupports(session.mode || "", "perUserAsr")) return false;
-  if (!hasOpenAiApiKey) return false;
+  // Local ASR buffers each speaker separately, so it is always per-user and needs no OpenAI key.
+  const usesLocalAsrBridge = session.asrBridgeProvider === "local";
+  if (!hasOpenAiApiKey && !usesLocalAsrBridge) return false;
   const resolvedSettings = resolveConfigSettings(session, settings);
   const voiceConversation = getVoiceConversationPolicy(resolvedSettings);
   const voiceRuntime = getVoiceRuntimeConfig(resolvedSettings);
@@ -163,7 +166,7 @@ export function shouldUsePerUserTranscription({
   if (transcriptionMethod !== "realtime_bridge") {
     return false;
   }
-  if (!voiceRuntime.openaiRealtime?.usePerUserAsrBridge) {
+  if (!voiceRuntime.openaiRealtime?.usePerUserAsrBridge && !usesLocalAsrBridge) {
     return false;
   }
   return true;
@@ -180,6 +183,7 @@ export function shouldUseSharedTranscription({
 } = {}) {
   if (!session || session.ending) return false;
   if (!providerSupports(session.mode || "", "sharedAsr")) return false;
+  if (session.asrBridgeProvider === "local") return false;
   if (!hasOpenAiApiKey) return false;
   const resolvedSettings = resolveConfigSettings(session, settings);
   const voiceConversation = getVoiceConversationPolicy(resolvedSettings);
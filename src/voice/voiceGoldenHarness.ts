@@ -10,13 +10,25 @@ import { runJsonJudge } from "../../scripts/replay/core/judge.ts";
 import { summarizeNamedMetricRows, type NumericStats } from "../../scripts/replay/core/metrics.ts";
 import { formatPct, stableNumber } from "../../scripts/replay/core/utils.ts";
 import { VoiceSessionManager } from "./voiceSessionManager.ts";
+import { OpenAiRealtimeClient } from "./openaiRealtimeClient.ts";
+import { buildVoiceInstructions } from "./voiceConfigResolver.ts";
+import { getVoiceRuntimeConfig } from "../settings/agentStack.ts";
 import { VOICE_RUNTIME_MODES, parseVoiceRuntimeMode } from "./voiceModes.ts";
+import {
+  DEFAULT_VOICE_GOLDEN_FIXTURE_PATH,
+  VoiceGoldenRecorder,
+  readVoiceGoldenFixture,
+  writeVoiceGoldenFixture
+} from "./voiceGoldenRecording.ts";
 import { sleep } from "../normalization/time.ts";
 
 export const VOICE_GOLDEN_MODES = VOICE_RUNTIME_MODES;
 
 type VoiceGoldenMode = (typeof VOICE_GOLDEN_MODES)[number];
-type VoiceGoldenRunMode = "simulated" | "live";
+type VoiceGoldenRunMode = "simulated" | "live" | "record" | "replay";
+
+const REALTIME_RESPONSE_WAIT_MS = 20_000;
+const REPLAY_REALTIME_API_KEY = "voice-golden-replay";
 
 type VoiceGoldenCase = {
   id: string;
@@ -50,6 +62,7 @@ type VoiceGoldenHarnessOptions = {
   judge?: Partial<VoiceGoldenJudgeConfig>;
   allowMissingCredentials?: boolean;
   maxCases?: number;
+  fixturePath?: string;
   onCaseProgress?: (event: VoiceGoldenCaseProgressEvent) => void;
 };
 
@@ -64,6 +77,7 @@ type VoiceGoldenResolvedOptions = {
   judge: VoiceGoldenJudgeConfig;
   allowMissingCredentials: boolean;
   maxCases: number;
+  fixturePath: string;
 };
 
 type StageTimings = {
@@ -518,7 +532,9 @@ function resolveExpectedResponse(caseRow: VoiceGoldenCase) {
 }
 
 function normalizeMode(value: unknown): VoiceGoldenRunMode {
-  return String(value || "simulated").trim().toLowerCase() === "live" ? "live" : "simulated";
+  const normalized = String(value || "simulated").trim().toLowerCase();
+  if (normalized === "live" || normalized === "record" || normalized === "replay") return normalized;
+  return "simulated";
 }
 
 function normalizeVoiceModeList(values: unknown): VoiceGoldenMode[] {
@@ -542,8 +558,9 @@ function normalizeVoiceMode(value: unknown): VoiceGoldenMode | null {
 
 function resolveDefaults(options: VoiceGoldenHarnessOptions = {}): VoiceGoldenResolvedOptions {
   const requestedModes = normalizeVoiceModeList(options.modes);
+  const mode = normalizeMode(options.mode);
   return {
-    mode: normalizeMode(options.mode),
+    mode,
     modes: requestedModes.length ? requestedModes : [...VOICE_GOLDEN_MODES],
     iterations: Math.max(1, Math.floor(Number(options.iterations) || 1)),
     actorProvider: String(options.actorProvider || "claude-oauth").trim() || "claude-oauth",
@@ -551,15 +568,20 @@ function resolveDefaults(options: VoiceGoldenHarnessOptions = {}): VoiceGoldenRe
     deciderProvider: String(options.deciderProvider || "claude-oauth").trim() || "claude-oauth",
     deciderModel: String(options.deciderModel || "claude-sonnet-4-6").trim() || "claude-sonnet-4-6",
     judge: {
+      // Replay scores against the recorded outcome; a recorded judge verdict would
+      // describe the recording, not the replayed run.
       enabled:
-        options.judge?.enabled !== undefined
-          ? Boolean(options.judge.enabled)
-          : true,
+        mode === "replay"
+          ? false
+          : options.judge?.enabled !== undefined
+            ? Boolean(options.judge.enabled)
+            : true,
       provider: String(options.judge?.provider || "claude-oauth").trim() || "claude-oauth",
       model: String(options.judge?.model || "claude-sonnet-4-6").trim() || "claude-sonnet-4-6"
     },
     allowMissingCredentials: parseBooleanFlag(options.allowMissingCredentials, false),
-    maxCases: Math.max(1, Math.min(VOICE_GOLDEN_CASES.length, Math.floor(Number(options.maxCases) || DEFAULT_MAX_CASES)))
+    maxCases: Math.max(1, Math.min(VOICE_GOLDEN_CASES.length, Math.floor(Number(options.maxCases) || DEFAULT_MAX_CASES))),
+    fixturePath: String(options.fixturePath || "").trim() || DEFAULT_VOICE_GOLDEN_FIXTURE_PATH
   };
 }
 
@@ -942,6 +964,48 @@ function buildExecutionSession({
   return session;
 }
 
+/**
+ * Opens a real OpenAI realtime session for record/replay runs so the provider
+ * websocket streams are captured (or served back) instead of a stub client.
+ */
+async function connectRecordedOpenAiRealtimeClient({
+  recorder,
+  settings
+}: {
+  recorder: VoiceGoldenRecorder;
+  settings: Record<string, unknown>;
+}) {
+  const client = new OpenAiRealtimeClient({
+    apiKey: recorder.mode === "replay" ? REPLAY_REALTIME_API_KEY : appConfig.openaiApiKey
+  });
+  recorder.attachRealtimeSocket(client);
+  const openAiRealtimeSettings = getVoiceRuntimeConfig(settings).openaiRealtime;
+  await client.connect({
+    model: openAiRealtimeSettings?.model,
+    voice: String(openAiRealtimeSettings?.voice || "alloy").trim() || "alloy",
+    instructions: buildVoiceInstructions(settings),
+    inputAudioFormat: openAiRealtimeSettings?.inputAudioFormat,
+    outputAudioFormat: openAiRealtimeSettings?.outputAudioFormat,
+    inputTranscriptionModel: openAiRealtimeSettings?.inputTranscriptionModel
+  });
+  return client;
+}
+
+async function waitForRealtimeResponseDone(client: OpenAiRealtimeClient) {
+  if (!client.isResponseInProgress()) return;
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(finish, REALTIME_RESPONSE_WAIT_MS);
+    function finish() {
+      clearTimeout(timer);
+      client.off("response_done", finish);
+      client.off("socket_closed", finish);
+      resolve();
+    }
+    client.once("response_done", finish);
+    client.once("socket_closed", finish);
+  });
+}
+
 function latestVoiceReplyFromActions({
   actions
 }: {
@@ -962,7 +1026,8 @@ async function runLiveProductionCase({
   settings,
   mode,
   caseRow,
-  directAddressed
+  directAddressed,
+  recorder
 }: {
   manager: VoiceSessionManager;
   store: HarnessStore;
@@ -970,6 +1035,7 @@ async function runLiveProductionCase({
   mode: VoiceGoldenMode;
   caseRow: VoiceGoldenCase;
   directAddressed: boolean;
+  recorder: VoiceGoldenRecorder | null;
 }): Promise<ModeExecutionResult> {
   const stage = {
     connectMs: 0,
@@ -985,6 +1051,11 @@ async function runLiveProductionCase({
     mode,
     caseRow
   });
+  const realtimeClient =
+    recorder && mode === "openai_realtime" ? await connectRecordedOpenAiRealtimeClient({ recorder, settings }) : null;
+  if (realtimeClient) {
+    session.realtimeClient = realtimeClient;
+  }
   const actionStart = store.actions.length;
   const responseStartedAt = performance.now();
   const originalSpeakVoiceLineWithTts = manager.speakVoiceLineWithTts.bind(manager);
@@ -1009,8 +1080,12 @@ async function runLiveProductionCase({
       directAddressed,
       source: "voice_golden_production"
     });
+    if (realtimeClient) {
+      await waitForRealtimeResponseDone(realtimeClient);
+    }
   } finally {
     manager.speakVoiceLineWithTts = originalSpeakVoiceLineWithTts;
+    await realtimeClient?.close();
   }
 
   stage.responseMs = performance.now() - responseStartedAt;
@@ -1085,12 +1160,15 @@ function hasProviderCredentials(provider: string) {
 
 function validateHarnessCredentials(options: VoiceGoldenResolvedOptions) {
   const required = [
-    ...(options.mode === "live"
+    ...(options.mode === "live" || options.mode === "record"
       ? [
           { role: "actor", provider: options.actorProvider },
           { role: "decider", provider: options.deciderProvider }
         ]
       : []),
+    ...(options.mode === "record" && options.modes.includes("openai_realtime")
+      ? [{ role: "realtime", provider: "openai" }]
+      : []),
     ...(options.judge.enabled ? [{ role: "judge", provider: options.judge.provider }] : [])
   ];
   const missing = new Set<string>();
@@ -1250,7 +1328,8 @@ async function runSingleCase({
   manager,
   executionStore,
   caseRow,
-  iteration
+  iteration,
+  recorder
 }: {
   options: VoiceGoldenResolvedOptions;
   llm: LLMService | null;
@@ -1261,6 +1340,7 @@ async function runSingleCase({
   executionStore: HarnessStore;
   caseRow: VoiceGoldenCase;
   iteration: number;
+  recorder: VoiceGoldenRecorder | null;
 }): Promise<VoiceGoldenCaseResult> {
   const startedAt = performance.now();
 
@@ -1278,6 +1358,11 @@ async function runSingleCase({
   let timings = buildEmptyTimings(0);
 
   try {
+    recorder?.beginCase({
+      mode,
+      caseId: caseRow.id,
+      iteration
+    });
     applyCaseContextToManager({
       manager,
       caseRow
@@ -1318,7 +1403,8 @@ async function runSingleCase({
         settings,
         mode,
         caseRow,
-        directAddressed: Boolean(decisionData.directAddressed)
+        directAddressed: Boolean(decisionData.directAddressed),
+        recorder
       });
 
       transcript = liveResult.transcript || decisionData.transcript || caseRow.userText;
@@ -1335,6 +1421,13 @@ async function runSingleCase({
   }
 
   timings.totalMs = Math.max(0, performance.now() - startedAt);
+  const driftIssues =
+    recorder?.endCase({
+      decisionAllow: decisionData.allow,
+      decisionReason: decisionData.reason,
+      responseText,
+      error: errorText
+    }) || [];
 
   let judge: JudgeResult;
   if (options.judge.enabled && llm && judgeSettings) {
@@ -1368,6 +1461,14 @@ async function runSingleCase({
       error: errorText
     });
   }
+  if (driftIssues.length) {
+    judge = {
+      ...judge,
+      pass: false,
+      summary: "replay_drift",
+      issues: [...judge.issues, ...driftIssues]
+    };
+  }
 
   return {
     mode,
@@ -1434,6 +1535,15 @@ export async function runVoiceGoldenHarness(inputOptions: VoiceGoldenHarnessOpti
       }
     };
   }
+  const recorder =
+    options.mode === "record"
+      ? new VoiceGoldenRecorder({ mode: "record" })
+      : options.mode === "replay"
+        ? new VoiceGoldenRecorder({
+            mode: "replay",
+            fixture: await readVoiceGoldenFixture(options.fixturePath)
+          })
+        : null;
   const cases = VOICE_GOLDEN_CASES.slice(0, options.maxCases);
   const modeReports: VoiceGoldenModeReport[] = [];
   const totalCaseCount = Math.max(0, options.modes.length * options.iterations * cases.length);
@@ -1452,7 +1562,7 @@ export async function runVoiceGoldenHarness(inputOptions: VoiceGoldenHarnessOpti
     let executionStore: HarnessStore;
     let llm: LLMService | null = null;
 
-    if (options.mode === "live") {
+    if (options.mode !== "simulated") {
       executionStore = new HarnessStore();
       llm = new LLMService({
         appConfig,
@@ -1462,6 +1572,8 @@ export async function runVoiceGoldenHarness(inputOptions: VoiceGoldenHarnessOpti
         appConfig,
         store: executionStore
       });
+      recorder?.attachLlm(llm);
+      recorder?.attachSearch(search);
       const runtime = createLiveExecutionRuntime({
         llm,
         search,
@@ -1508,7 +1620,8 @@ export async function runVoiceGoldenHarness(inputOptions: VoiceGoldenHarnessOpti
           manager,
           executionStore,
           caseRow,
-          iteration
+          iteration,
+          recorder
         });
         results.push(row);
         onCaseProgress?.({
@@ -1541,6 +1654,11 @@ export async function runVoiceGoldenHarness(inputOptions: VoiceGoldenHarnessOpti
     }
   }
 
+  await recorder?.close();
+  if (recorder?.mode === "record") {
+    await writeVoiceGoldenFixture(options.fixturePath, recorder.fixture);
+  }
+
   const allResults = modeReports.flatMap((report) => report.results);
   const passed = allResults.filter((row) => row.pass).length;
   const executed = allResults.length;
@@ -1566,6 +1684,9 @@ export function printVoiceGoldenHarnessReport(report: VoiceGoldenHarnessReport)
   console.log(`startedAt=${report.startedAt}`);
   console.log(`finishedAt=${report.finishedAt}`);
   console.log(`mode=${report.options.mode}`);
+  if (report.options.mode === "record" || report.options.mode === "replay") {
+    console.log(`fixture=${report.options.fixturePath}`);
+  }
   console.log(`modes=[${report.options.modes.join(", ")}]`);
   console.log(`iterations=${report.options.iterations}`);
   console.log(`judge=${report.options.judge.enabled ? "on" : "off"}`);
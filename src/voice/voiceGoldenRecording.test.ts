@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { test } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { OpenAiRealtimeClient } from "./openaiRealtimeClient.ts";
+import {
+  VoiceGoldenFixtureMissError,
+  VoiceGoldenRecorder,
+  readVoiceGoldenFixture,
+  writeVoiceGoldenFixture
+} from "./voiceGoldenRecording.ts";
+
+const CASE_KEY = { mode: "openai_realtime", caseId: "wake-ping", iteration: 1 };
+const SOCKET_FIXTURE_PATH = path.join(import.meta.dir, "../../tests/fixtures/voice-golden/openai-realtime-wake-ping.json");
+
+function decisionPayload(source: string, userPrompt: string) {
+  return { userPrompt, trace: { source } };
+}
+
+async function recordWakePing() {
+  const recorder = new VoiceGoldenRecorder({ mode: "record" });
+  const providerCalls: string[] = [];
+  const generate = async (payload: ReturnType<typeof decisionPayload>) => {
+    providerCalls.push(payload.trace.source);
+    return { text: payload.trace.source === "voice_reply_decision" ? "YES" : "yo what's up", provider: "anthropic" };
+  };
+
+  // Calls outside a case (judge, background work) pass through unrecorded.
+  await recorder.capture("llm.generate", decisionPayload("voice_golden_judge", "score"), () =>
+    generate(decisionPayload("voice_golden_judge", "score"))
+  );
+
+  recorder.beginCase(CASE_KEY);
+  const decision = decisionPayload("voice_reply_decision", "transcript: \"yo clanker\"");
+  await recorder.capture("llm.generate", decision, () => generate(decision));
+  const reply = decisionPayload("voice_realtime_brain", "yo clanker");
+  await recorder.capture("llm.generateStreaming", reply, () => generate(reply));
+  recorder.endCase({ decisionAllow: true, decisionReason: "llm_yes", responseText: "yo what's up", error: null });
+
+  return { recorder, providerCalls };
+}
+
+test("recording captures in-case provider calls", async () => {
+  const { recorder, providerCalls } = await recordWakePing();
+  assert.deepEqual(providerCalls, ["voice_golden_judge", "voice_reply_decision", "voice_realtime_brain"]);
+
+  const entry = recorder.fixture.cases["openai_realtime:wake-ping:1"];
+  assert.deepEqual(
+    entry?.calls.map((call) => [call.kind, call.source]),
+    [
+      ["llm.generate", "voice_reply_decision"],
+      ["llm.generateStreaming", "voice_realtime_brain"]
+    ]
+  );
+  assert.deepEqual(entry?.calls[0]?.result, { text: "YES", provider: "anthropic" });
+  assert.deepEqual(entry?.socket, []);
+  assert.equal(entry?.outcome?.responseText, "yo what's up");
+});
+
+test("replay serves recorded results by source and reports drift against the recorded outcome", async () => {
+  const { recorder: recording } = await recordWakePing();
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "clanker-voice-golden-"));
+  try {
+    const fixturePath = path.join(dir, "nested", "recorded.json");
+    await writeVoiceGoldenFixture(fixturePath, recording.fixture);
+    const fixture = await readVoiceGoldenFixture(fixturePath);
+
+    const replay = new VoiceGoldenRecorder({ mode: "replay", fixture });
+    const unreachable = async () => {
+      throw new Error("replay must not reach the provider");
+    };
+    replay.beginCase(CASE_KEY);
+    // The brain call is served even when it arrives before the decider call.
+    const brain = await replay.capture("llm.generateStreaming", decisionPayload("voice_realtime_brain", "changed"), unreachable);
+    const decision = await replay.capture("llm.generate", decisionPayload("voice_reply_decision", "changed"), unreachable);
+    assert.deepEqual(brain, { text: "yo what's up", provider: "anthropic" });
+    assert.deepEqual(decision, { text: "YES", provider: "anthropic" });
+    await assert.rejects(
+      replay.capture("llm.generate", decisionPayload("voice_reply_decision", "again"), unreachable),
+      VoiceGoldenFixtureMissError
+    );
+    assert.deepEqual(
+      replay.endCase({ decisionAllow: false, decisionReason: "llm_no", responseText: "", error: null }),
+      [
+        "fixture_call_missing:llm.generate:voice_reply_decision",
+        "decision_drift:allow->deny",
+        "response_drift"
+      ]
+    );
+
+    replay.beginCase(CASE_KEY);
+    assert.deepEqual(
+      replay.endCase({ decisionAllow: true, decisionReason: "llm_yes", responseText: "yo what's up", error: null }),
+      ["fixture_calls_unused:2"]
+    );
+
+    assert.throws(() => replay.beginCase({ ...CASE_KEY, iteration: 2 }), /fixture_case_missing:openai_realtime:wake-ping:2/);
+    await assert.rejects(readVoiceGoldenFixture(path.join(dir, "missing.json")), /--mode record/);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+async function replayRealtimeCase(recorder: VoiceGoldenRecorder, speak: (client: OpenAiRealtimeClient) => void) {
+  recorder.beginCase(CASE_KEY);
+  const client = new OpenAiRealtimeClient({ apiKey: "voice-golden-replay" });
+  recorder.attachRealtimeSocket(client);
+  const transcripts: string[] = [];
+  let audioBytes = 0;
+  client.on("transcript", ({ text, eventType }) => {
+    if (eventType === "response.output_audio_transcript.delta") transcripts.push(text);
+  });
+  client.on("audio_delta", (audioBase64: string) => {
+    audioBytes += Buffer.byteLength(audioBase64, "base64");
+  });
+  await client.connect({ voice: "alloy", instructions: "Keep replies short." });
+  const responseDone = new Promise((resolve) => client.once("response_done", resolve));
+  speak(client);
+  await Promise.race([responseDone, new Promise((resolve) => setTimeout(resolve, 500))]);
+  await client.close();
+  const issues = recorder.endCase({
+    decisionAllow: true,
+    decisionReason: "llm_yes",
+    responseText: transcripts.join(""),
+    error: null
+  });
+  return { issues, transcripts, audioBytes, sessionId: client.sessionId };
+}
+
+test("replay serves the recorded OpenAI realtime socket stream to a real client", async () => {
+  const fixture = await readVoiceGoldenFixture(SOCKET_FIXTURE_PATH);
+  const replay = new VoiceGoldenRecorder({ mode: "replay", fixture });
+  try {
+    const replayed = await replayRealtimeCase(replay, (client) => client.requestPlaybackUtterance("yo what's up"));
+    assert.deepEqual(replayed.issues, []);
+    assert.deepEqual(replayed.transcripts, ["yo ", "what's up"]);
+    assert.equal(replayed.audioBytes, 14_400);
+    assert.equal(replayed.sessionId, "sess_golden");
+
+    // Sending a different event sequence than the recording is drift.
+    const drifted = await replayRealtimeCase(replay, (client) => client.requestTextUtterance("yo what's up"));
+    assert.deepEqual(drifted.issues, [
+      "realtime_socket_drift:[session.update,response.create]->[session.update,conversation.item.create,response.create]"
+    ]);
+  } finally {
+    await replay.close();
+  }
+});
@@ -0,0 +1,445 @@
+/**
+ * Record/replay layer for the voice golden harness.
+ *
+ * `record` runs the live harness and captures every provider-facing call made
+ * while a case executes: LLM generations (decider, brain, tool loops), web
+ * search results, and the inbound and outbound event streams on the realtime
+ * provider websocket. `replay` serves those captures back in order, the socket
+ * streams from a loopback server, so the same cases run deterministically
+ * without credentials or network access, and flags drift between the replayed
+ * run and the recorded outcome.
+ */
+import fs from "node:fs/promises";
+import path from "node:path";
+import WebSocket, { WebSocketServer, type RawData } from "ws";
+import type { LLMService } from "../llm.ts";
+import type { WebSearchService } from "../services/search.ts";
+
+export const VOICE_GOLDEN_FIXTURE_VERSION = 2;
+export const DEFAULT_VOICE_GOLDEN_FIXTURE_PATH = "tests/fixtures/voice-golden/recorded.json";
+
+const PROMPT_PREVIEW_CHARS = 240;
+// Audio and video payloads are stored as their decoded size only; replay sends
+// zero-filled data of the same size.
+const REDACTED_BASE64_MIN_CHARS = 256;
+const REDACTED_BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const REDACTED_BASE64_MARKER = /^<base64:(\d+) bytes>$/;
+
+export type VoiceGoldenRecordingMode = "record" | "replay";
+
+type VoiceGoldenCallKind =
+  | "llm.generate"
+  | "llm.generateStreaming"
+  | "llm.chatWithTools"
+  | "search.searchAndRead";
+
+export type VoiceGoldenRecordedCall = {
+  kind: VoiceGoldenCallKind;
+  source: string;
+  promptPreview: string;
+  result?: unknown;
+  error?: string;
+};
+
+export type VoiceGoldenRecordedSocketEvent = {
+  direction: "inbound" | "outbound";
+  type: string;
+  payload: unknown;
+};
+
+export type VoiceGoldenRecordedOutcome = {
+  decisionAllow: boolean;
+  decisionReason: string;
+  responseText: string;
+  error: string | null;
+};
+
+export type VoiceGoldenRecordedCase = {
+  mode: string;
+  caseId: string;
+  iteration: number;
+  calls: VoiceGoldenRecordedCall[];
+  socket: VoiceGoldenRecordedSocketEvent[];
+  outcome: VoiceGoldenRecordedOutcome | null;
+};
+
+export type VoiceGoldenFixture = {
+  version: number;
+  recordedAt: string;
+  searchConfigured: boolean;
+  cases: Record<string, VoiceGoldenRecordedCase>;
+};
+
+type VoiceGoldenCaseKey = {
+  mode: string;
+  caseId: string;
+  iteration: number;
+};
+
+type ActiveCase = {
+  entry: VoiceGoldenRecordedCase;
+  consumed: Set<number>;
+  socket: VoiceGoldenRecordedSocketEvent[];
+  misses: string[];
+};
+
+/** Any realtime client that opens its provider socket through an overridable `openSocket`. */
+type RealtimeSocketClientLike = {
+  openSocket: (url?: string) => Promise<WebSocket>;
+};
+
+export class VoiceGoldenFixtureMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VoiceGoldenFixtureMissError";
+  }
+}
+
+export function buildVoiceGoldenCaseKey({ mode, caseId, iteration }: VoiceGoldenCaseKey) {
+  return `${mode}:${caseId}:${iteration}`;
+}
+
+export function createEmptyVoiceGoldenFixture(): VoiceGoldenFixture {
+  return {
+    version: VOICE_GOLDEN_FIXTURE_VERSION,
+    recordedAt: new Date().toISOString(),
+    searchConfigured: false,
+    cases: {}
+  };
+}
+
+export async function readVoiceGoldenFixture(filePath: string): Promise<VoiceGoldenFixture> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf8");
+  } catch {
+    throw new Error(`Voice golden fixture not found at ${filePath}. Run the harness with --mode record first.`);
+  }
+  const parsed: unknown = JSON.parse(raw);
+  if (
+    !parsed ||
+    typeof parsed !== "object" ||
+    !("version" in parsed) ||
+    parsed.version !== VOICE_GOLDEN_FIXTURE_VERSION ||
+    !("cases" in parsed) ||
+    !parsed.cases ||
+    typeof parsed.cases !== "object"
+  ) {
+    throw new Error(`Voice golden fixture at ${filePath} is not a version ${VOICE_GOLDEN_FIXTURE_VERSION} fixture.`);
+  }
+  return parsed as VoiceGoldenFixture;
+}
+
+export async function writeVoiceGoldenFixture(filePath: string, fixture: VoiceGoldenFixture) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+}
+
+function readTraceSource(payload: unknown) {
+  if (!payload || typeof payload !== "object" || !("trace" in payload)) return "";
+  const trace = payload.trace;
+  if (!trace || typeof trace !== "object" || !("source" in trace)) return "";
+  return String(trace.source || "").trim();
+}
+
+function readPromptPreview(payload: unknown) {
+  if (!payload || typeof payload !== "object") return "";
+  const prompt =
+    ("userPrompt" in payload && payload.userPrompt) || ("query" in payload && payload.query) || "";
+  return String(prompt).replace(/\s+/g, " ").trim().slice(0, PROMPT_PREVIEW_CHARS);
+}
+
+/** Round-trips through JSON so recorded results hold no functions, class instances or abort signals. */
+function toFixtureValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  return JSON.parse(JSON.stringify(value));
+}
+
+function readResultText(result: unknown) {
+  if (!result || typeof result !== "object" || !("text" in result)) return "";
+  return String(result.text || "");
+}
+
+function redactSocketPayload(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length >= REDACTED_BASE64_MIN_CHARS && REDACTED_BASE64_PATTERN.test(value)
+      ? `<base64:${Buffer.byteLength(value, "base64")} bytes>`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(redactSocketPayload);
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, redactSocketPayload(entry)]));
+}
+
+function restoreSocketPayload(value: unknown): unknown {
+  if (typeof value === "string") {
+    const match = value.match(REDACTED_BASE64_MARKER);
+    return match ? Buffer.alloc(Number(match[1])).toString("base64") : value;
+  }
+  if (Array.isArray(value)) return value.map(restoreSocketPayload);
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, restoreSocketPayload(entry)]));
+}
+
+function toSocketEvent(direction: VoiceGoldenRecordedSocketEvent["direction"], data: unknown) {
+  const raw = Buffer.isBuffer(data) ? data.toString("utf8") : String(data ?? "");
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    payload = raw;
+  }
+  const type =
+    payload && typeof payload === "object" && "type" in payload ? String(payload.type || "unknown") : "unknown";
+  return { direction, type, payload: redactSocketPayload(payload) };
+}
+
+function describeOutboundTypes(events: VoiceGoldenRecordedSocketEvent[]) {
+  return events
+    .filter((event) => event.direction === "outbound")
+    .map((event) => event.type)
+    .join(",");
+}
+
+export class VoiceGoldenRecorder {
+  readonly mode: VoiceGoldenRecordingMode;
+  readonly fixture: VoiceGoldenFixture;
+  private activeCase: ActiveCase | null;
+  private replayServer: WebSocketServer | null;
+  private replayUrl: Promise<string> | null;
+
+  constructor({
+    mode,
+    fixture = createEmptyVoiceGoldenFixture()
+  }: {
+    mode: VoiceGoldenRecordingMode;
+    fixture?: VoiceGoldenFixture;
+  }) {
+    this.mode = mode;
+    this.fixture = fixture;
+    this.activeCase = null;
+    this.replayServer = null;
+    this.replayUrl = null;
+  }
+
+  beginCase(key: VoiceGoldenCaseKey) {
+    const fixtureKey = buildVoiceGoldenCaseKey(key);
+    if (this.mode === "record") {
+      this.activeCase = {
+        entry: { ...key, calls: [], socket: [], outcome: null },
+        consumed: new Set(),
+        socket: [],
+        misses: []
+      };
+      return;
+    }
+    const entry = this.fixture.cases[fixtureKey];
+    if (!entry) {
+      this.activeCase = null;
+      throw new VoiceGoldenFixtureMissError(`fixture_case_missing:${fixtureKey}`);
+    }
+    this.activeCase = { entry, consumed: new Set(), socket: [], misses: [] };
+  }
+
+  /**
+   * Closes the active case. Recording stores the outcome; replay compares it
+   * with the recorded one and returns drift issues (empty when nothing drifted).
+   */
+  endCase(outcome: VoiceGoldenRecordedOutcome): string[] {
+    const active = this.activeCase;
+    this.activeCase = null;
+    if (!active) return [];
+    const { entry } = active;
+
+    if (this.mode === "record") {
+      entry.socket = active.socket;
+      entry.outcome = outcome;
+      this.fixture.cases[buildVoiceGoldenCaseKey(entry)] = entry;
+      return [];
+    }
+
+    // The runtime swallows most provider errors, so misses are reported here too.
+    const issues = [...active.misses];
+    const unused = entry.calls.length - active.consumed.size;
+    if (unused > 0) issues.push(`fixture_calls_unused:${unused}`);
+    const recordedOutbound = describeOutboundTypes(entry.socket || []);
+    const replayedOutbound = describeOutboundTypes(active.socket);
+    if (recordedOutbound !== replayedOutbound) {
+      issues.push(`realtime_socket_drift:[${recordedOutbound}]->[${replayedOutbound}]`);
+    }
+    const recorded = entry.outcome;
+    if (recorded) {
+      if (recorded.decisionAllow !== outcome.decisionAllow) {
+        issues.push(`decision_drift:${recorded.decisionAllow ? "allow" : "deny"}->${outcome.decisionAllow ? "allow" : "deny"}`);
+      } else if (recorded.decisionReason !== outcome.decisionReason) {
+        issues.push(`decision_reason_drift:${recorded.decisionReason}->${outcome.decisionReason}`);
+      }
+      if (recorded.responseText.trim() !== outcome.responseText.trim()) issues.push("response_drift");
+      if (Boolean(recorded.error) !== Boolean(outcome.error)) issues.push("error_drift");
+    }
+    return issues;
+  }
+
+  /**
+   * Routes one provider call through the fixture. Outside an active case the
+   * call passes through when recording (judge calls, background work) and
+   * fails when replaying, since there is nothing to serve it from.
+   */
+  async capture<T>(kind: VoiceGoldenCallKind, payload: unknown, run: () => Promise<T>): Promise<T> {
+    const source = readTraceSource(payload);
+    const active = this.activeCase;
+
+    if (this.mode === "replay") {
+      const index = active
+        ? active.entry.calls.findIndex(
+            (call, callIndex) => !active.consumed.has(callIndex) && call.kind === kind && call.source === source
+          )
+        : -1;
+      if (!active || index < 0) {
+        const miss = `fixture_call_missing:${kind}:${source || "unknown"}`;
+        active?.misses.push(miss);
+        throw new VoiceGoldenFixtureMissError(miss);
+      }
+      active.consumed.add(index);
+      const call = active.entry.calls[index];
+      if (call.error) throw new Error(call.error);
+      return call.result as T;
+    }
+
+    if (!active) return await run();
+    const call: VoiceGoldenRecordedCall = {
+      kind,
+      source,
+      promptPreview: readPromptPreview(payload)
+    };
+    active.entry.calls.push(call);
+    try {
+      const result = await run();
+      call.result = toFixtureValue(result);
+      return result;
+    } catch (error) {
+      call.error = String((error as Error)?.message || error || "unknown_error");
+      throw error;
+    }
+  }
+
+  /** Installs capture on the LLM entry points the voice runtime uses. */
+  attachLlm(llm: LLMService) {
+    const originalGenerate = llm.generate.bind(llm);
+    const originalGenerateStreaming = llm.generateStreaming.bind(llm);
+    const originalChatWithTools = llm.chatWithTools.bind(llm);
+
+    llm.generate = async (payload) =>
+      await this.capture("llm.generate", payload, () => originalGenerate(payload));
+    llm.generateStreaming = async (payload) => {
+      const result = await this.capture<Awaited<ReturnType<LLMService["generateStreaming"]>>>(
+        "llm.generateStreaming",
+        payload,
+        () => originalGenerateStreaming(payload)
+      );
+      if (this.mode === "replay") {
+        const text = readResultText(result);
+        if (text) payload.onTextDelta?.(text);
+      }
+      return result;
+    };
+    llm.chatWithTools = async (args) =>
+      await this.capture("llm.chatWithTools", args, () => originalChatWithTools(args));
+
+    if (this.mode === "replay") {
+      // Replayed runs have no credentials; report providers as configured so the
+      // runtime takes the same paths it took while recording.
+      llm.isProviderConfigured = () => true;
+    }
+  }
+
+  attachSearch(search: WebSearchService) {
+    const originalSearchAndRead = search.searchAndRead.bind(search);
+    search.searchAndRead = async (payload) =>
+      await this.capture("search.searchAndRead", payload, () => originalSearchAndRead(payload));
+
+    if (this.mode === "record") {
+      this.fixture.searchConfigured = search.isConfigured();
+    } else {
+      const searchConfigured = Boolean(this.fixture.searchConfigured);
+      search.isConfigured = () => searchConfigured;
+    }
+  }
+
+  /**
+   * Captures both directions of every provider socket the client opens. When
+   * replaying, the client is pointed at a loopback server that serves the
+   * active case's recorded stream instead of the provider.
+   */
+  attachRealtimeSocket(client: RealtimeSocketClientLike) {
+    const originalOpenSocket = client.openSocket.bind(client);
+    client.openSocket = async (url) => {
+      const ws = await originalOpenSocket(this.mode === "replay" ? await this.ensureReplayServer() : url);
+      this.captureSocket(ws);
+      return ws;
+    };
+  }
+
+  /** Stops the replay server, if one was started. */
+  async close() {
+    const server = this.replayServer;
+    this.replayServer = null;
+    this.replayUrl = null;
+    if (!server) return;
+    for (const socket of server.clients) socket.terminate();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private captureSocket(ws: WebSocket) {
+    const send = ws.send;
+    ws.send = (...args: unknown[]) => {
+      this.activeCase?.socket.push(toSocketEvent("outbound", args[0]));
+      Reflect.apply(send, ws, args);
+    };
+    ws.on("message", (data: RawData) => {
+      this.activeCase?.socket.push(toSocketEvent("inbound", data));
+    });
+  }
+
+  private async ensureReplayServer() {
+    if (!this.replayUrl) {
+      this.replayUrl = new Promise<string>((resolve, reject) => {
+        const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+        this.replayServer = server;
+        server.once("error", reject);
+        server.once("listening", () => {
+          const address = server.address();
+          resolve(`ws://127.0.0.1:${typeof address === "object" && address ? address.port : 0}`);
+        });
+        server.on("connection", (socket) => this.serveRecordedSocket(socket));
+      });
+    }
+    return await this.replayUrl;
+  }
+
+  /**
+   * Sends the inbound events that preceded the first outbound event, then,
+   * for each outbound event the client sends, the inbound events recorded
+   * after its match. Unmatched outbound events surface as drift in `endCase`.
+   */
+  private serveRecordedSocket(socket: WebSocket) {
+    const events = this.activeCase?.entry.socket || [];
+    let cursor = 0;
+    const flushInbound = () => {
+      while (cursor < events.length && events[cursor].direction === "inbound") {
+        socket.send(JSON.stringify(restoreSocketPayload(events[cursor].payload)));
+        cursor += 1;
+      }
+    };
+    socket.on("message", (data: RawData) => {
+      const { type } = toSocketEvent("outbound", data);
+      const index = events.findIndex(
+        (event, eventIndex) => eventIndex >= cursor && event.direction === "outbound" && event.type === type
+      );
+      if (index < 0) return;
+      cursor = index + 1;
+      flushInbound();
+    });
+    flushInbound();
+  }
+}
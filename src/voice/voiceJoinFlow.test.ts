@@ -330,6 +330,40 @@ test("requestJoin enforces per-day voice session cap", async () => {
   assert.equal(operationalMessages.at(-1)?.reason, "max_sessions_per_day_reached");
 });
 
+test("requestJoin refuses realtime sessions once the voice spend cap is reached", async () => {
+  const loggedActions: Array<{ kind: string; metadata?: Record<string, unknown> }> = [];
+  const { manager, operationalMessages } = createManager({
+    store: {
+      logAction(entry: { kind: string; metadata?: Record<string, unknown> }) {
+        loggedActions.push(entry);
+      },
+      getSpendLedgerTotals() {
+        return [{ feature: "voice", dayUsd: 2.5, monthUsd: 2.5 }];
+      }
+    }
+  });
+  const result = await requestJoin(manager, {
+    message: createMessage(),
+    settings: {
+      ...baseSettings(),
+      spendCaps: {
+        enabled: true,
+        degradeModel: { provider: "openai", model: "gpt-5-nano" },
+        features: {
+          voice: { dailyUsd: 2, monthlyUsd: 0, onExceeded: "degrade" }
+        }
+      }
+    }
+  });
+
+  assert.equal(result, true);
+  assert.equal(operationalMessages.at(-1)?.reason, "voice_spend_cap_reached");
+  assert.equal(manager.sessions.size, 0);
+  const capAction = loggedActions.find((entry) => entry.kind === "spend_cap_exceeded");
+  assert.equal(capAction?.metadata?.feature, "voice");
+  assert.equal(capAction?.metadata?.window, "daily");
+});
+
 test("requestJoin reports already_in_channel for existing same-channel session", async () => {
   const { manager, operationalMessages } = createManager();
   manager.sessions.set("guild-1", {
@@ -858,3 +892,35 @@ test("requestJoin requires OpenAI ASR backing for xAI text-mediated sessions", a
   assert.equal(result, true);
   assert.equal(operationalMessages.at(-1)?.reason, "openai_audio_api_key_missing");
 });
+
+test("requestJoin lets local transcription back xAI sessions without an OpenAI key", async () => {
+  const { manager, operationalMessages } = createManager({
+    appConfig: {
+      xaiApiKey: "xai-key"
+    },
+    llm: {
+      isAsrReady(provider?: string) {
+        return provider !== "local";
+      }
+    }
+  });
+
+  const result = await requestJoin(manager, {
+    message: createMessage(),
+    settings: baseSettings({
+      voice: {
+        mode: "voice_agent",
+        replyPath: "bridge",
+        openaiRealtime: {
+          transcriptionMethod: "realtime_bridge"
+        },
+        transcription: {
+          provider: "local"
+        }
+      }
+    })
+  });
+
+  assert.equal(result, true);
+  assert.equal(operationalMessages.at(-1)?.reason, "voice_local_asr_unavailable");
+});
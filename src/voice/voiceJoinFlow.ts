@@ -13,6 +13,7 @@ import {
   resolveRealtimeProvider,
   resolveTranscriberProvider,
   resolveVoiceApiTtsProvider,
+  resolveRealtimeVoiceSpendCapBlock,
   resolveVoiceRuntimeMode,
   shortError
 } from "./voiceSessionHelpers.ts";
@@ -197,6 +198,36 @@ export async function requestJoin(manager, { message, settings, intentConfidence
       }
     }
 
+    const voiceSpendCap = resolveRealtimeVoiceSpendCapBlock({
+      store: manager.store,
+      settings,
+      guildId,
+      channelId: message.channelId,
+      userId,
+      event: "voice_join_request"
+    });
+    if (voiceSpendCap) {
+      await sendOperationalMessage(manager, {
+        channel: message.channel,
+        settings,
+        guildId,
+        channelId: message.channelId,
+        userId,
+        messageId: message.id,
+        event: "voice_join_request",
+        reason: "voice_spend_cap_reached",
+        details: {
+          window: voiceSpendCap.exceededWindow,
+          dailySpentUsd: voiceSpendCap.dailySpentUsd,
+          monthlySpentUsd: voiceSpendCap.monthlySpentUsd,
+          dailyCapUsd: voiceSpendCap.dailyCapUsd,
+          monthlyCapUsd: voiceSpendCap.monthlyCapUsd
+        },
+        mustNotify: true
+      });
+      return true;
+    }
+
     const existing = manager.sessions.get(guildId);
     if (existing) {
       if (existing.voiceChannelId === targetVoiceChannelId) {
@@ -247,7 +278,7 @@ export async function requestJoin(manager, { message, settings, intentConfidence
       !voiceConversation.textOnlyMode;
     const usesApiTts = replyPath === "brain" && ttsMode === "api";
     const needsOpenAiAudioApi =
-      usesRealtimeBridgeAsr ||
+      (usesRealtimeBridgeAsr && transcriberProvider !== "local") ||
       (usesFileTurnTranscription && transcriberProvider === "openai") ||
       (usesApiTts && voiceApiTtsProvider === "openai");
     const needsElevenLabsAudioApi =
@@ -463,6 +494,25 @@ export async function requestJoin(manager, { message, settings, intentConfidence
       });
       return true;
     }
+    if (usesRealtimeBridgeAsr && transcriberProvider === "local" && !manager.llm?.isAsrReady?.("local")) {
+      await sendOperationalMessage(manager, {
+        channel: message.channel,
+        settings,
+        guildId,
+        channelId: message.channelId,
+        userId,
+        messageId: message.id,
+        event: "voice_join_request",
+        reason: "voice_local_asr_unavailable",
+        details: {
+          mode: runtimeMode,
+          transcriptionMethod,
+          transcriberProvider
+        },
+        mustNotify: true
+      });
+      return true;
+    }
     if (usesApiTts && !manager.llm?.isSpeechSynthesisReady?.(voiceApiTtsProvider)) {
       await sendOperationalMessage(manager, {
         channel: message.channel,
@@ -544,6 +594,7 @@ export async function requestJoin(manager, { message, settings, intentConfidence
     let realtimeOutputSampleRateHz = 24000;
     let perUserAsrEnabled = false;
     let sharedAsrEnabled = false;
+    let asrBridgeProvider: "openai" | "local" = "openai";
     let openAiPerUserAsrModel = OPENAI_REALTIME_DEFAULT_TRANSCRIPTION_MODEL;
     let openAiPerUserAsrLanguage = "";
     let openAiPerUserAsrPrompt = "";
@@ -729,6 +780,18 @@ export async function requestJoin(manager, { message, settings, intentConfidence
         );
         openAiPerUserAsrLanguage = voiceAsrGuidance.language;
         openAiPerUserAsrPrompt = voiceAsrGuidance.prompt;
+      } else if (transcriberProvider === "local" && isRealtimeMode(runtimeMode)) {
+        // Local ASR has no streaming session: the bridge buffers each
+        // speaker's utterance and transcribes it with whisper.cpp on commit.
+        const transcriptionMethod = String(
+          openAiRealtimeSettings?.transcriptionMethod || "realtime_bridge"
+        )
+          .trim()
+          .toLowerCase();
+        perUserAsrEnabled = transcriptionMethod !== "file_wav" && providerSupports(runtimeMode, "perUserAsr");
+        asrBridgeProvider = "local";
+        openAiPerUserAsrLanguage = voiceAsrGuidance.language;
+        openAiPerUserAsrPrompt = voiceAsrGuidance.prompt;
       }
 
       // --- Await subprocess that was spawning in parallel with API connect ---
@@ -813,6 +876,7 @@ export async function requestJoin(manager, { message, settings, intentConfidence
         openAiAsrSessions: new Map(),
         perUserAsrEnabled,
         sharedAsrEnabled,
+        asrBridgeProvider,
         openAiSharedAsrState: null,
         openAiPerUserAsrModel,
         openAiPerUserAsrLanguage,
@@ -1,6 +1,6 @@
 const VOICE_PROVIDERS = ["openai", "xai", "gemini", "elevenlabs"] as const;
 const BRAIN_PROVIDERS = ["native", "openai", "anthropic", "xai", "gemini"] as const;
-const TRANSCRIBER_PROVIDERS = ["openai", "elevenlabs"] as const;
+const TRANSCRIBER_PROVIDERS = ["openai", "elevenlabs", "local"] as const;
 
 type VoiceProvider = (typeof VOICE_PROVIDERS)[number];
 type BrainProvider = (typeof BRAIN_PROVIDERS)[number];
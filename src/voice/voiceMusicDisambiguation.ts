@@ -8,6 +8,7 @@ import {
   getResolvedVoiceGenerationBinding
 } from "../settings/agentStack.ts";
 import type {
+  MusicSelectionPlatform,
   MusicSelectionResult,
   VoiceToolRuntimeSessionLike
 } from "./voiceSessionTypes.ts";
@@ -20,7 +21,7 @@ type MusicPromptAction = "play_now" | "stop" | "pause" | "resume" | "skip" | nul
 type MusicDisambiguationPromptContext = {
   active: true;
   query: string | null;
-  platform: "youtube" | "soundcloud" | "discord" | "auto";
+  platform: MusicSelectionPlatform;
   action: "play_now" | "queue_next" | "queue_add";
   requestedByUserId: string | null;
   options: MusicSelectionResult[];
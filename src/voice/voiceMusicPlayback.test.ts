@@ -5,10 +5,14 @@ import type { ChatInputCommandInteraction } from "discord.js";
 import {
   ensureSessionMusicState,
   getMusicDisambiguationPromptContext,
+  getMusicPlaybackPositionMs,
   handleMusicSlashCommand,
   maybeHandleMusicPlaybackTurn,
   requestPlayMusic,
-  setMusicPhase
+  requestSeekMusic,
+  setMusicPhase,
+  shouldCrossfadeMusicTransition,
+  updateMusicPlaybackEffects
 } from "./voiceMusicPlayback.ts";
 import type { MusicPlaybackHost } from "./voiceMusicPlayback.ts";
 import type { MusicSelectionResult, VoiceSession } from "./voiceSessionTypes.ts";
@@ -227,6 +231,150 @@ function createPausedSession(manager: MusicPlaybackHost) {
   return session;
 }
 
+test("seek and live effect changes re-issue the current track from the tracked position", async () => {
+  const { manager, loggedEvents } = createPlaybackHost();
+  const playCalls: Array<Record<string, unknown>> = [];
+  const savedEffects = new Map<string, Record<string, unknown>>();
+  const currentTrack = {
+    id: "youtube:track-1",
+    title: "Archangel",
+    artist: "Burial",
+    platform: "youtube" as const,
+    streamUrl: null,
+    durationSeconds: 240,
+    thumbnailUrl: null,
+    externalUrl: "https://www.youtube.com/watch?v=track-1"
+  };
+  manager.store.getMusicPlaybackEffects = (guildId) => {
+    const saved = savedEffects.get(guildId);
+    return saved
+      ? {
+          guildId,
+          crossfadeMs: Number(saved.crossfadeMs),
+          loudnessNormalization: Boolean(saved.loudnessNormalization),
+          speed: Number(saved.speed),
+          pitchSemitones: Number(saved.pitchSemitones),
+          bassBoostDb: Number(saved.bassBoostDb),
+          updatedByUserId: null,
+          updatedAt: ""
+        }
+      : null;
+  };
+  manager.store.saveMusicPlaybackEffects = ({ guildId, ...effects }) => {
+    savedEffects.set(guildId, effects);
+    return manager.store.getMusicPlaybackEffects?.(guildId) || null;
+  };
+  manager.musicPlayer = {
+    ...manager.musicPlayer,
+    getCurrentTrack: () => currentTrack,
+    play: async (track, options = {}) => {
+      playCalls.push({ trackId: track.id, ...options });
+      return { ok: true, error: null, track, playbackUrl: "https://cdn.example.com/a", resolvedDirectUrl: true };
+    }
+  };
+  const session = createPausedSession(manager) as VoiceSession;
+  session.voxClient = { supportsCapability: () => true } as VoiceSession["voxClient"];
+
+  const paused = await requestSeekMusic(manager, { session, position: "1:00" });
+  assert.deepEqual(paused, { ok: false, error: "music_paused" });
+
+  setMusicPhase(manager, session, "playing");
+  assert.deepEqual(await requestSeekMusic(manager, { session, position: "9:00" }), {
+    ok: false,
+    error: "seek_past_end"
+  });
+  const seek = await requestSeekMusic(manager, { session, position: "1:30", requestedByUserId: "user-1" });
+  assert.equal(seek.ok, true);
+  assert.equal(playCalls[0]?.startMs, 90_000);
+  assert.equal(playCalls[0]?.audioFilter, null);
+
+  const music = ensureSessionMusicState(manager, session);
+  assert.ok(music);
+  music.startedAt -= 10_000;
+  const updated = await updateMusicPlaybackEffects(manager, {
+    guildId: "guild-1",
+    session,
+    patch: { speed: 1.5, crossfadeMs: 3000 },
+    requestedByUserId: "user-1"
+  });
+  assert.equal(updated.appliedLive, true);
+  const liveRestart = playCalls[1];
+  assert.equal(liveRestart?.audioFilter, "atempo=1.5");
+  assert.ok(Math.abs(Number(liveRestart?.startMs) - 100_000) < 500);
+  music.startedAt -= 2_000;
+  assert.ok(Math.abs(Number(getMusicPlaybackPositionMs(music)) - Number(liveRestart?.startMs) - 3_000) < 500);
+  assert.equal(shouldCrossfadeMusicTransition(manager, session), true);
+
+  // Crossfade alone does not change the filter chain, so the track is not restarted.
+  const crossfadeOnly = await updateMusicPlaybackEffects(manager, {
+    guildId: "guild-1",
+    session,
+    patch: { crossfadeMs: 0 }
+  });
+  assert.equal(crossfadeOnly.appliedLive, false);
+  assert.equal(playCalls.length, 2);
+  assert.equal(shouldCrossfadeMusicTransition(manager, session), false);
+  assert.ok(loggedEvents.some((event) => event.content === "voice_music_seek"));
+});
+
+test("seek, effects and crossfade report unsupported when clankvox does not advertise them", async () => {
+  const { manager, loggedEvents } = createPlaybackHost();
+  const playCalls: Array<Record<string, unknown>> = [];
+  const saveCalls: Array<Record<string, unknown>> = [];
+  manager.store.getMusicPlaybackEffects = (guildId) => ({
+    guildId,
+    crossfadeMs: 4000,
+    loudnessNormalization: false,
+    speed: 1,
+    pitchSemitones: 0,
+    bassBoostDb: 0,
+    updatedByUserId: null,
+    updatedAt: ""
+  });
+  manager.store.saveMusicPlaybackEffects = (effects) => {
+    saveCalls.push(effects);
+    return null;
+  };
+  manager.musicPlayer = {
+    ...manager.musicPlayer,
+    getCurrentTrack: () => ({
+      id: "youtube:track-1",
+      title: "Archangel",
+      artist: "Burial",
+      platform: "youtube" as const,
+      streamUrl: null,
+      durationSeconds: 240,
+      thumbnailUrl: null,
+      externalUrl: "https://www.youtube.com/watch?v=track-1"
+    }),
+    play: async (track, options = {}) => {
+      playCalls.push({ trackId: track.id, ...options });
+      return { ok: true, error: null, track, playbackUrl: "https://cdn.example.com/a", resolvedDirectUrl: true };
+    }
+  };
+  const session = createPausedSession(manager) as VoiceSession;
+  session.voxClient = { supportsCapability: () => false } as VoiceSession["voxClient"];
+  setMusicPhase(manager, session, "playing");
+
+  assert.deepEqual(await requestSeekMusic(manager, { session, position: "1:30" }), {
+    ok: false,
+    error: "seek_unsupported"
+  });
+  const updated = await updateMusicPlaybackEffects(manager, {
+    guildId: "guild-1",
+    session,
+    patch: { speed: 1.5 }
+  });
+  assert.equal(updated.ok, false);
+  assert.equal(updated.error, "effects_unsupported");
+  assert.deepEqual("unsupported" in updated ? updated.unsupported : null, ["audio_filter"]);
+  assert.equal(saveCalls.length, 0);
+  assert.equal(playCalls.length, 0);
+  // Saved crossfade cannot be honored, so skip must stop the current track first.
+  assert.equal(shouldCrossfadeMusicTransition(manager, session), false);
+  assert.ok(loggedEvents.some((event) => event.content === "voice_music_effects_unsupported"));
+});
+
 test("requestPlayMusic preserves a newer pre-playback voice turn when an older async music start completes", async () => {
   let resolveStartPlayback: ((value: {
     ok: boolean;
@@ -904,10 +1052,12 @@ function createSlashInteraction(
   query?: string,
   {
     voiceChannelId = "voice-1",
-    displayName = "User 1"
+    displayName = "User 1",
+    stringOptions = {}
   }: {
     voiceChannelId?: string | null;
     displayName?: string;
+    stringOptions?: Record<string, string>;
   } = {}
 ) {
   const replies: string[] = [];
@@ -975,6 +1125,7 @@ function createSlashInteraction(
         return subcommand;
       },
       getString(name: string, required?: boolean) {
+        if (name in stringOptions) return stringOptions[name];
         if (name !== "query") return null;
         if (query) return query;
         if (required) throw new Error("missing query");
@@ -1258,6 +1409,59 @@ test("music slash play reports when voice-session bootstrap does not produce a s
   );
 });
 
+test("music slash playlist_load queues a saved playlist, autoplays when idle, and persists the queue", async () => {
+  const { manager, session, queuePlayCalls } = createSlashPlaybackHost([]);
+  const savedQueues: Array<{ guildId: string; tracks: unknown[] }> = [];
+  manager.store.getMusicPlaylist = ({ name }) =>
+    name === "friday"
+      ? {
+          id: 1,
+          guildId: "guild-1",
+          name: "Friday",
+          createdByUserId: "user-1",
+          createdAt: "2026-03-06T20:00:00.000Z",
+          updatedAt: "2026-03-06T20:00:00.000Z",
+          tracks: [
+            {
+              id: "youtube:all-caps",
+              title: "All Caps",
+              artist: "MF DOOM",
+              durationMs: 140000,
+              platform: "youtube",
+              externalUrl: "https://youtube.com/watch?v=allcaps"
+            },
+            {
+              id: "soundcloud:accordion",
+              title: "Accordion",
+              artist: null,
+              durationMs: null,
+              platform: "soundcloud",
+              externalUrl: "https://soundcloud.com/madvillain/accordion"
+            }
+          ]
+        }
+      : null;
+  manager.store.saveMusicQueueState = (state) => {
+    savedQueues.push(state);
+    return null;
+  };
+  const slash = createSlashInteraction("playlist_load", undefined, { stringOptions: { name: "friday" } });
+
+  await handleMusicSlashCommand(manager, slash.interaction as ChatInputCommandInteraction, null);
+
+  assert.deepEqual(
+    session.musicQueueState?.tracks.map((track) => [track.id, track.source]),
+    [["youtube:all-caps", "yt"], ["soundcloud:accordion", "sc"]]
+  );
+  assert.deepEqual(queuePlayCalls, [0]);
+  assert.equal(savedQueues.at(-1)?.tracks.length, 2);
+  assert.equal(slash.edits[0], "Queued 2 tracks from playlist \"Friday\". Now playing: All Caps - MF DOOM");
+
+  const missing = createSlashInteraction("playlist_load", undefined, { stringOptions: { name: "monday" } });
+  await handleMusicSlashCommand(manager, missing.interaction as ChatInputCommandInteraction, null);
+  assert.equal(missing.replies[0], "No saved playlist with that name. Use /clank music playlists to see them.");
+});
+
 test("music slash add appends to the queue without interrupting current playback", async () => {
   const currentTrack: MusicSelectionResult = {
     id: "youtube:track-current",
@@ -34,11 +34,36 @@ import { RECENT_ENGAGEMENT_WINDOW_MS } from "./voiceSessionManager.constants.ts"
 
 import { clamp } from "../utils.ts";
 import type { BargeInController } from "./bargeInController.ts";
+import type { ClankvoxCapability } from "./clankvoxClient.ts";
 import type { DeferredActionQueue } from "./deferredActionQueue.ts";
 import type { DiscordMusicPlayer } from "./musicPlayer.ts";
+import { isMusicPlatform } from "./musicSearch.ts";
 import type { MusicSearchProvider } from "./musicSearch.ts";
 import type { ReplyManager } from "./replyManager.ts";
 import { resolveVoiceDirectAddressSignal } from "./voiceAddressing.ts";
+import type {
+  MusicPlayHistoryRecord,
+  MusicPlaybackEffectsRecord,
+  MusicPlaylistRecord,
+  MusicQueueStateRecord
+} from "../store/storeMusic.ts";
+import {
+  MAX_MUSIC_HISTORY_QUEUE_TRACKS,
+  MAX_MUSIC_PLAYLIST_QUEUE_TRACKS,
+  collectMusicHistoryTracks,
+  resolveMusicHistoryWindow,
+  toMusicLibraryQueueTrack,
+  toMusicTrackRecord
+} from "./musicLibrary.ts";
+import {
+  MUSIC_EFFECT_SWAP_CROSSFADE_MS,
+  buildMusicAudioFilter,
+  describeMusicPlaybackEffects,
+  formatMusicPosition,
+  normalizeMusicPlaybackEffects,
+  parseMusicSeekPosition
+} from "./musicEffects.ts";
+import type { MusicPlaybackEffects } from "./musicEffects.ts";
 
 type MusicPlaybackTrack = {
   id: string;
@@ -100,13 +125,16 @@ const VOICE_MUSIC_BRAIN_TOOL_NAMES = new Set([
   "media_pause",
   "media_resume",
   "media_skip",
-  "media_now_playing"
+  "media_now_playing",
+  "media_seek",
+  "media_effects"
 ]);
 const VOICE_MUSIC_BRAIN_TOOL_DEFINITIONS = VOICE_TOOL_SCHEMAS
   .filter((schema) => VOICE_MUSIC_BRAIN_TOOL_NAMES.has(schema.name))
   .map((schema) => toAnthropicTool(schema));
 
 import type {
+  MusicSelectionPlatform,
   MusicSelectionResult,
   MusicDisambiguationPayload,
   MusicTextRequestPayload,
@@ -140,6 +168,42 @@ type MusicPlaybackStoreLike = {
     metadata?: Record<string, unknown>;
     usdCost?: number | null;
   }) => void;
+  saveMusicQueueState?: (state: {
+    guildId: string;
+    voiceChannelId?: string | null;
+    tracks: unknown[];
+    nowPlayingIndex?: number | null;
+    isPaused?: boolean;
+    volume?: number;
+  }) => unknown;
+  getMusicQueueState?: (guildId: string) => MusicQueueStateRecord | null;
+  recordMusicPlay?: (entry: {
+    guildId: string;
+    voiceChannelId?: string | null;
+    track: unknown;
+    requestedByUserId?: string | null;
+    source?: string | null;
+  }) => unknown;
+  getMusicPlayHistory?: (opts: {
+    guildId: string;
+    sinceIso?: string | null;
+    untilIso?: string | null;
+    limit?: number;
+  }) => MusicPlayHistoryRecord[];
+  saveMusicPlaylist?: (opts: {
+    guildId: string;
+    name: string;
+    tracks: unknown[];
+    createdByUserId?: string | null;
+  }) => MusicPlaylistRecord | null;
+  getMusicPlaylist?: (opts: { guildId: string; name: string }) => MusicPlaylistRecord | null;
+  listMusicPlaylists?: (guildId: string) => MusicPlaylistRecord[];
+  deleteMusicPlaylist?: (opts: { guildId: string; name: string }) => boolean;
+  getMusicPlaybackEffects?: (guildId: string) => MusicPlaybackEffectsRecord | null;
+  saveMusicPlaybackEffects?: (opts: {
+    guildId: string;
+    updatedByUserId?: string | null;
+  } & MusicPlaybackEffects) => MusicPlaybackEffectsRecord | null;
 };
 
 type MusicRuntimeSessionLike = {
@@ -160,7 +224,9 @@ type MusicRuntimeSessionLike = {
   } | null;
   music?: VoiceSessionMusicState | null;
   musicQueueState?: Record<string, unknown> | null;
-  [key: string]: unknown;
+  voxClient?: {
+    supportsCapability?: (capability: ClankvoxCapability) => boolean;
+  } | null;
 };
 
 type MusicPlaybackLogArgs = Parameters<MusicPlaybackStoreLike["logAction"]>[0];
@@ -228,7 +294,10 @@ export interface MusicPlaybackHost {
   clearVoiceCommandSession: (
     session: MusicRuntimeSessionLike | null | undefined
   ) => void;
-  musicPlayer?: Pick<DiscordMusicPlayer, "duck" | "unduck" | "play" | "stop" | "pause" | "resume"> | null;
+  musicPlayer?:
+    | (Pick<DiscordMusicPlayer, "duck" | "unduck" | "play" | "stop" | "pause" | "resume"> &
+        Partial<Pick<DiscordMusicPlayer, "getCurrentTrack">>)
+    | null;
   musicPlayback?: MusicPlaybackProviderLike | null;
   musicSearch?: Pick<MusicSearchProvider, "isConfigured" | "search"> | null;
   maybeClearActiveReplyInterruptionPolicy: (session: MusicRuntimeSessionLike | null | undefined) => void;
@@ -445,6 +514,7 @@ function clearToolMusicQueueState(
   queueState.tracks = [];
   queueState.nowPlayingIndex = null;
   queueState.isPaused = false;
+  persistToolMusicQueueState(manager, session);
   return queueState;
 }
 
@@ -492,6 +562,10 @@ export function ensureSessionMusicState(
     replyHandoffAt: 0,
     startedAt: 0,
     stoppedAt: 0,
+    pausedAt: 0,
+    pausedMs: 0,
+    startOffsetMs: 0,
+    playbackRate: 1,
     provider: null,
     source: null,
     lastTrackId: null,
@@ -590,6 +664,13 @@ export function setMusicPhase(
 ): void {
   const music = ensureSessionMusicState(manager, session);
   if (!music) return;
+  const now = Date.now();
+  if (musicPhaseCanResume(phase)) {
+    if (!music.pausedAt) music.pausedAt = now;
+  } else if (music.pausedAt) {
+    music.pausedMs = Number(music.pausedMs || 0) + Math.max(0, now - music.pausedAt);
+    music.pausedAt = 0;
+  }
   music.phase = phase;
   music.pauseReason = pauseReason;
   if (music.replyHandoffMode === "pause" && phase !== "paused_wake_word") {
@@ -610,6 +691,25 @@ export function setMusicPhase(
   }
 }
 
+/**
+ * Milliseconds into the current track, excluding paused time and scaled by the
+ * playback speed; null when nothing has started.
+ */
+export function getMusicPlaybackPositionMs(
+  music:
+    | Pick<VoiceSessionMusicState, "phase" | "startedAt" | "pausedAt" | "pausedMs" | "startOffsetMs" | "playbackRate">
+    | null
+    | undefined,
+  now = Date.now()
+) {
+  if (!music || !musicPhaseIsActive(music.phase) || !(Number(music.startedAt) > 0)) return null;
+  const pausedAt = Number(music.pausedAt || 0);
+  const end = pausedAt > 0 ? pausedAt : now;
+  const elapsedMs = Math.max(0, end - Number(music.startedAt) - Number(music.pausedMs || 0));
+  const rate = Number(music.playbackRate) > 0 ? Number(music.playbackRate) : 1;
+  return Math.round(Math.max(0, Number(music.startOffsetMs || 0)) + elapsedMs * rate);
+}
+
 export function setPendingMusicReplyHandoff(
   manager: MusicPlaybackHost,
   session: MusicRuntimeSessionLike | null | undefined,
@@ -963,16 +1063,18 @@ async function executeCompactVoiceMusicControlCommand(
       const queueState = ensureToolMusicQueueState(manager, session);
       if (!queueState || queueState.nowPlayingIndex == null) return false;
       const nextIndex = queueState.nowPlayingIndex + 1;
-      await requestStopMusic(manager, {
-        guildId: session.guildId,
-        channelId: session.textChannelId || null,
-        requestedByUserId: normalizedUserId,
-        settings,
-        reason: "voice_fast_path_skip",
-        source,
-        requestText: transcript,
-        mustNotify: false
-      });
+      if (nextIndex >= queueState.tracks.length || !shouldCrossfadeMusicTransition(manager, session)) {
+        await requestStopMusic(manager, {
+          guildId: session.guildId,
+          channelId: session.textChannelId || null,
+          requestedByUserId: normalizedUserId,
+          settings,
+          reason: "voice_fast_path_skip",
+          source,
+          requestText: transcript,
+          mustNotify: false
+        });
+      }
       if (nextIndex < queueState.tracks.length) {
         await manager.playVoiceQueueTrackByIndex({ session, settings, index: nextIndex });
       } else {
@@ -1328,12 +1430,12 @@ export async function releaseBotSpeechMusicDuck(
 export function normalizeMusicPlatformToken(
   manager: MusicPlaybackHost,
   value: unknown = "",
-  fallback: "youtube" | "soundcloud" | "discord" | "auto" | null = null
+  fallback: MusicSelectionPlatform | null = null
 ) {
   const token = String(value || "")
     .trim()
     .toLowerCase();
-  if (token === "youtube" || token === "soundcloud" || token === "discord" || token === "auto") {
+  if (isMusicPlatform(token) || token === "discord" || token === "auto") {
     return token;
   }
   return fallback;
@@ -1445,7 +1547,7 @@ export function getMusicDisambiguationPromptContext(
 ): {
   active: true;
   query: string | null;
-  platform: "youtube" | "soundcloud" | "discord" | "auto";
+  platform: MusicSelectionPlatform;
   action: "play_now" | "queue_next" | "queue_add";
   requestedByUserId: string | null;
   options: MusicSelectionResult[];
@@ -1525,6 +1627,91 @@ export function ensureToolMusicQueueState(
   return next;
 }
 
+/**
+ * Writes the session queue through to the store so it outlives the voice session. Sessions
+ * call this on queue changes, track starts, and teardown.
+ */
+export function persistToolMusicQueueState(
+  manager: MusicPlaybackHost,
+  session: MusicRuntimeSessionLike | null | undefined
+) {
+  const queueState = ensureToolMusicQueueState(manager, session);
+  if (!queueState?.guildId || typeof manager.store.saveMusicQueueState !== "function") return queueState;
+  manager.store.saveMusicQueueState({
+    guildId: queueState.guildId,
+    voiceChannelId: queueState.voiceChannelId || null,
+    tracks: queueState.tracks.map((track) => toMusicTrackRecord(track)),
+    nowPlayingIndex: queueState.nowPlayingIndex,
+    isPaused: queueState.isPaused,
+    volume: queueState.volume
+  });
+  return queueState;
+}
+
+/**
+ * Loads the queue a previous session left behind (the interrupted track onwards) into an
+ * empty session queue. Returns the number of restored tracks.
+ */
+export function restorePersistedMusicQueue(
+  manager: MusicPlaybackHost,
+  session: MusicRuntimeSessionLike | null | undefined
+) {
+  const queueState = ensureToolMusicQueueState(manager, session);
+  if (!queueState?.guildId || queueState.tracks.length > 0) return 0;
+  const saved = manager.store.getMusicQueueState?.(queueState.guildId) || null;
+  if (!saved || saved.nowPlayingIndex == null) return 0;
+  const remainingTracks = saved.tracks.slice(saved.nowPlayingIndex).map((track) => toMusicLibraryQueueTrack(track));
+  if (!remainingTracks.length) return 0;
+  queueState.tracks = remainingTracks;
+  queueState.nowPlayingIndex = 0;
+  queueState.isPaused = false;
+  return remainingTracks.length;
+}
+
+/**
+ * Resolves saved-library sources for queueing: a named playlist or a play-history window
+ * ("what we listened to last Friday"). Returns null when neither was requested.
+ */
+export function resolveMusicLibraryTracks(
+  manager: MusicPlaybackHost,
+  {
+    guildId,
+    playlist = null,
+    historySince = null,
+    historyUntil = null
+  }: {
+    guildId: string;
+    playlist?: string | null;
+    historySince?: string | null;
+    historyUntil?: string | null;
+  }
+):
+  | { ok: true; label: string; tracks: ReturnType<typeof toMusicLibraryQueueTrack>[] }
+  | { ok: false; error: string }
+  | null {
+  const playlistName = normalizeInlineText(playlist, 80);
+  if (playlistName) {
+    const saved = manager.store.getMusicPlaylist?.({ guildId, name: playlistName }) || null;
+    if (!saved) return { ok: false, error: "playlist_not_found" };
+    return {
+      ok: true,
+      label: `playlist "${saved.name}"`,
+      tracks: saved.tracks.slice(0, MAX_MUSIC_PLAYLIST_QUEUE_TRACKS).map((track) => toMusicLibraryQueueTrack(track))
+    };
+  }
+  if (!historySince && !historyUntil) return null;
+  const window = resolveMusicHistoryWindow({ since: historySince, until: historyUntil });
+  if (!window) return { ok: false, error: "invalid_history_window" };
+  const rows = manager.store.getMusicPlayHistory?.({ guildId, ...window, limit: 500 }) || [];
+  const tracks = collectMusicHistoryTracks(rows, MAX_MUSIC_HISTORY_QUEUE_TRACKS);
+  if (!tracks.length) return { ok: false, error: "history_empty" };
+  return {
+    ok: true,
+    label: "play history",
+    tracks: tracks.map((track) => toMusicLibraryQueueTrack(track))
+  };
+}
+
 // All three music heuristics (stop, pause, skip) require verb + music cue word.
 // Bot-name commands ("Clanker, stop") go through the directAddressedToBot → LLM path instead.
 export function isLikelyMusicStopPhrase(
@@ -1873,10 +2060,7 @@ export async function requestPlayMusic(manager: MusicPlaybackHost, {
   }
 
   if (!resolvedTrackId && !selectedResult && resolvedQuery && manager.musicSearch?.isConfigured?.()) {
-    const resolvedSearchPlatform =
-      resolvedPlatform === "youtube" || resolvedPlatform === "soundcloud"
-        ? resolvedPlatform
-        : "auto";
+    const resolvedSearchPlatform = isMusicPlatform(resolvedPlatform) ? resolvedPlatform : "auto";
     const searchStartedAt = Date.now();
     const searchResponse = await manager.musicSearch.search(resolvedQuery, {
       platform: resolvedSearchPlatform,
@@ -1942,13 +2126,11 @@ export async function requestPlayMusic(manager: MusicPlaybackHost, {
 
   const selectedResultPlatform = normalizeMusicPlatformToken(manager, selectedResult?.platform, null);
   const useDiscordStreaming = Boolean(
-    selectedResult && (
-      selectedResultPlatform === "youtube" ||
-      selectedResultPlatform === "soundcloud" ||
-      selectedResultPlatform === "discord"
-    )
+    selectedResult && (isMusicPlatform(selectedResultPlatform) || selectedResultPlatform === "discord")
   );
   const willAttemptPlayback = Boolean(selectedResult || playbackProviderConfigured);
+  // Only a track that is audible right now can be crossfaded out.
+  const crossfadeFromCurrentTrack = getMusicPhase(manager, session) === "playing";
   if (music && willAttemptPlayback) {
     setMusicPhase(manager, session, "loading");
   }
@@ -1956,9 +2138,12 @@ export async function requestPlayMusic(manager: MusicPlaybackHost, {
   let playbackResult: { ok: boolean; provider: string; reason: string; message: string; status: number; track: { id: string; title: string; artistNames: string[]; externalUrl: string | null } | null; query: string | null } | null = null;
   let playbackUrlForState: string | null = null;
   let playbackResolvedDirectUrlForState = false;
+  let playbackRateForState = 1;
 
   if (useDiscordStreaming) {
-    const discordResult = await playMusicViaDiscord(manager, session, selectedResult);
+    const discordResult = await playMusicViaDiscord(manager, session, selectedResult, {
+      crossfade: crossfadeFromCurrentTrack
+    });
     if (!discordResult.ok) {
       if (music) {
         setMusicPhase(manager, session, "idle");
@@ -2019,6 +2204,7 @@ export async function requestPlayMusic(manager: MusicPlaybackHost, {
     if (music) {
       playbackUrlForState = discordResult.playbackUrl || selectedResult.externalUrl || null;
       playbackResolvedDirectUrlForState = Boolean(discordResult.resolvedDirectUrl);
+      playbackRateForState = discordResult.playbackRate;
     }
   } else {
     const playbackProvider = manager.musicPlayback;
@@ -2091,6 +2277,10 @@ export async function requestPlayMusic(manager: MusicPlaybackHost, {
     clearPendingMusicReplyHandoff(manager, session);
     music.startedAt = Date.now();
     music.stoppedAt = 0;
+    music.pausedAt = 0;
+    music.pausedMs = 0;
+    music.startOffsetMs = 0;
+    music.playbackRate = playbackRateForState;
     music.provider = playbackResult.provider || null;
     music.source = String(source || "text_voice_intent");
     music.lastTrackId = playbackResult.track?.id || null;
@@ -2110,6 +2300,25 @@ export async function requestPlayMusic(manager: MusicPlaybackHost, {
     manager.clearVoiceCommandSession(session);
   }
 
+  if (playbackResult.track?.id && playbackResult.track?.title) {
+    manager.store.recordMusicPlay?.({
+      guildId: session.guildId,
+      voiceChannelId: session.voiceChannelId || null,
+      track: {
+        id: playbackResult.track.id,
+        title: playbackResult.track.title,
+        artist: playbackResult.track.artistNames?.join(", ") || selectedResult?.artist || null,
+        durationMs: Number.isFinite(Number(selectedResult?.durationSeconds))
+          ? Number(selectedResult?.durationSeconds) * 1000
+          : null,
+        platform: selectedResult?.platform || playbackResult.provider || "youtube",
+        externalUrl: playbackResult.track.externalUrl || selectedResult?.externalUrl || null
+      },
+      requestedByUserId: resolvedUserId || null,
+      source: String(source || "text_voice_intent")
+    });
+  }
+
   haltSessionOutputForMusicPlayback(manager, session, "music_playback_started", {
     originAcceptedAt: resolvedOriginAcceptedAt
   });
@@ -2164,17 +2373,26 @@ export async function requestPlayMusic(manager: MusicPlaybackHost, {
   return true;
 }
 
+function resolveMusicVisualizerMode(manager: MusicPlaybackHost, session: VoiceSession) {
+  const streamWatchSettings = getVoiceStreamWatchSettings(
+    session.settingsSnapshot || manager.store.getSettings()
+  );
+  return normalizeStreamWatchVisualizerMode(streamWatchSettings.visualizerMode);
+}
+
 export async function playMusicViaDiscord(
   manager: MusicPlaybackHost,
   session: VoiceSession,
-  track: { id: string; title: string; artist: string; platform: string; externalUrl: string | null }
+  track: { id: string; title: string; artist: string; platform: string; externalUrl: string | null },
+  { crossfade = false }: { crossfade?: boolean } = {}
 ) {
   if (!session?.guildId) {
     return {
       ok: false,
       error: "no session",
       playbackUrl: null,
-      resolvedDirectUrl: false
+      resolvedDirectUrl: false,
+      playbackRate: 1
     };
   }
 
@@ -2184,7 +2402,8 @@ export async function playMusicViaDiscord(
       ok: false,
       error: "guild not found",
       playbackUrl: null,
-      resolvedDirectUrl: false
+      resolvedDirectUrl: false,
+      playbackRate: 1
     };
   }
 
@@ -2193,7 +2412,8 @@ export async function playMusicViaDiscord(
       ok: false,
       error: "not connected to voice",
       playbackUrl: null,
-      resolvedDirectUrl: false
+      resolvedDirectUrl: false,
+      playbackRate: 1
     };
   }
   const musicPlayer = manager.musicPlayer;
@@ -2202,15 +2422,12 @@ export async function playMusicViaDiscord(
       ok: false,
       error: "music player unavailable",
       playbackUrl: null,
-      resolvedDirectUrl: false
+      resolvedDirectUrl: false,
+      playbackRate: 1
     };
   }
-  const streamWatchSettings = getVoiceStreamWatchSettings(
-    session.settingsSnapshot || manager.store.getSettings()
-  );
 
-  const searchPlatform: "youtube" | "soundcloud" =
-    track.platform === "soundcloud" ? "soundcloud" : "youtube";
+  const searchPlatform = isMusicPlatform(track.platform) ? track.platform : "youtube";
   const searchResult = {
     id: track.id,
     title: track.title,
@@ -2221,18 +2438,241 @@ export async function playMusicViaDiscord(
     thumbnailUrl: null,
     externalUrl: track.externalUrl || ""
   };
+  const effects = resolveMusicPlaybackEffects(manager, session.guildId);
+  const requestedFilter = buildMusicAudioFilter(effects);
+  const audioFilter = supportsClankvoxMusicCapability(session, "music_audio_filter") ? requestedFilter : null;
+  const applyCrossfade = crossfade && supportsClankvoxMusicCapability(session, "music_crossfade");
+  const unsupported = [
+    ...(requestedFilter && !audioFilter ? ["audio_filter"] : []),
+    ...(crossfade && !applyCrossfade ? ["crossfade"] : [])
+  ];
+  if (unsupported.length) {
+    logMusicAction(manager, {
+      kind: "voice_runtime",
+      guildId: session.guildId,
+      channelId: session.textChannelId,
+      userId: manager.client.user?.id || null,
+      content: "voice_music_effects_unsupported",
+      metadata: {
+        sessionId: session.id,
+        trackId: track.id,
+        unsupported
+      }
+    });
+  }
 
   const result = await musicPlayer.play(searchResult, {
-    visualizerMode: normalizeStreamWatchVisualizerMode(streamWatchSettings.visualizerMode)
+    visualizerMode: resolveMusicVisualizerMode(manager, session),
+    audioFilter,
+    crossfadeMs: applyCrossfade ? effects.crossfadeMs : 0
   });
   return {
     ok: result.ok,
     error: result.error,
     playbackUrl: result.playbackUrl,
-    resolvedDirectUrl: result.resolvedDirectUrl
+    resolvedDirectUrl: result.resolvedDirectUrl,
+    playbackRate: audioFilter ? effects.speed : 1
   };
 }
 
+/**
+ * Whether the session's clankvox build advertised an optional music feature in
+ * its ready handshake. Builds without the handshake support none of them.
+ */
+export function supportsClankvoxMusicCapability(
+  session: MusicRuntimeSessionLike | null | undefined,
+  capability: ClankvoxCapability
+) {
+  return Boolean(session?.voxClient?.supportsCapability?.(capability));
+}
+
+/** Saved effects for a guild, clamped to the supported ranges; defaults when none are saved. */
+export function resolveMusicPlaybackEffects(manager: MusicPlaybackHost, guildId: string | null | undefined) {
+  const record = guildId ? manager.store.getMusicPlaybackEffects?.(String(guildId)) : null;
+  return normalizeMusicPlaybackEffects(record);
+}
+
+/**
+ * Whether a queue advance should crossfade instead of stopping first. Callers
+ * skip `requestStopMusic` when this is true so clankvox can overlap the tracks.
+ */
+export function shouldCrossfadeMusicTransition(
+  manager: MusicPlaybackHost,
+  session: MusicRuntimeSessionLike | null | undefined
+) {
+  if (!session?.guildId || getMusicPhase(manager, session) !== "playing") return false;
+  if (!supportsClankvoxMusicCapability(session, "music_crossfade")) return false;
+  return resolveMusicPlaybackEffects(manager, session.guildId).crossfadeMs > 0;
+}
+
+/**
+ * Re-issues the current track at `startMs` with the guild's effects. A short
+ * overlap keeps the swap gapless when crossfade is off and clankvox can overlap.
+ */
+async function restartCurrentMusicTrack(
+  manager: MusicPlaybackHost,
+  session: VoiceSession,
+  { startMs, effects }: { startMs: number; effects: MusicPlaybackEffects }
+) {
+  const music = ensureSessionMusicState(manager, session);
+  const track = manager.musicPlayer?.getCurrentTrack?.() || null;
+  if (!music || !track || !manager.musicPlayer?.play) {
+    return { ok: false, error: "no_current_track" };
+  }
+  if (startMs > 0 && !supportsClankvoxMusicCapability(session, "music_seek")) {
+    return { ok: false, error: "seek_unsupported" };
+  }
+  const audioFilter = buildMusicAudioFilter(effects);
+  if (audioFilter && !supportsClankvoxMusicCapability(session, "music_audio_filter")) {
+    return { ok: false, error: "effects_unsupported" };
+  }
+  const result = await manager.musicPlayer.play(track, {
+    visualizerMode: resolveMusicVisualizerMode(manager, session),
+    audioFilter,
+    startMs,
+    crossfadeMs: supportsClankvoxMusicCapability(session, "music_crossfade")
+      ? Math.max(MUSIC_EFFECT_SWAP_CROSSFADE_MS, Math.min(effects.crossfadeMs, 2000))
+      : 0
+  });
+  if (!result.ok) {
+    return { ok: false, error: result.error || "music_restart_failed" };
+  }
+  music.startedAt = Date.now();
+  music.pausedAt = 0;
+  music.pausedMs = 0;
+  music.startOffsetMs = Math.max(0, Math.round(startMs));
+  music.playbackRate = effects.speed;
+  return { ok: true, error: null };
+}
+
+export async function requestSeekMusic(manager: MusicPlaybackHost, {
+  session,
+  position,
+  requestedByUserId = null,
+  source = "voice_tool_call"
+}: {
+  session: VoiceSession | null | undefined;
+  position: unknown;
+  requestedByUserId?: string | null;
+  source?: string;
+}) {
+  if (!session || session.ending) return { ok: false, error: "not_in_voice" };
+  const positionMs = parseMusicSeekPosition(position);
+  if (positionMs == null) return { ok: false, error: "invalid_position" };
+  const phase = getMusicPhase(manager, session);
+  if (musicPhaseCanResume(phase)) return { ok: false, error: "music_paused" };
+  if (phase !== "playing") return { ok: false, error: "nothing_playing" };
+  if (!supportsClankvoxMusicCapability(session, "music_seek")) return { ok: false, error: "seek_unsupported" };
+  const track = manager.musicPlayer?.getCurrentTrack?.() || null;
+  if (track?.platform === "radio") return { ok: false, error: "not_seekable" };
+  const durationMs = Number(track?.durationSeconds) > 0 ? Number(track?.durationSeconds) * 1000 : null;
+  if (durationMs != null && positionMs >= durationMs) return { ok: false, error: "seek_past_end" };
+
+  const music = ensureSessionMusicState(manager, session);
+  const fromMs = getMusicPlaybackPositionMs(music);
+  const effects = resolveMusicPlaybackEffects(manager, session.guildId);
+  const result = await restartCurrentMusicTrack(manager, session, { startMs: positionMs, effects });
+  logMusicAction(manager, {
+    kind: result.ok ? "voice_runtime" : "voice_error",
+    guildId: session.guildId,
+    channelId: session.textChannelId,
+    userId: requestedByUserId || manager.client.user?.id || null,
+    content: result.ok ? "voice_music_seek" : "voice_music_seek_failed",
+    metadata: {
+      sessionId: session.id,
+      source,
+      fromMs,
+      toMs: positionMs,
+      trackId: track?.id || null,
+      error: result.error
+    }
+  });
+  return result.ok
+    ? { ok: true, error: null, positionMs, position: formatMusicPosition(positionMs) }
+    : { ok: false, error: result.error };
+}
+
+/**
+ * Saves an effects patch for the guild. While a track is audible the new chain is
+ * applied from the current position; otherwise it takes effect on the next track.
+ * A patch the connected clankvox build cannot apply is refused instead of saved.
+ */
+export async function updateMusicPlaybackEffects(manager: MusicPlaybackHost, {
+  guildId,
+  session = null,
+  patch,
+  reset = false,
+  requestedByUserId = null,
+  source = "voice_tool_call"
+}: {
+  guildId: string;
+  session?: VoiceSession | null;
+  patch: Record<string, unknown> | null;
+  reset?: boolean;
+  requestedByUserId?: string | null;
+  source?: string;
+}) {
+  const previous = resolveMusicPlaybackEffects(manager, guildId);
+  const effects = normalizeMusicPlaybackEffects(patch, reset ? normalizeMusicPlaybackEffects(null) : previous);
+  if (!manager.store.saveMusicPlaybackEffects) {
+    return { ok: false, error: "effects_unavailable", effects: previous, appliedLive: false };
+  }
+  const filterChanged = buildMusicAudioFilter(previous) !== buildMusicAudioFilter(effects);
+  if (session?.voxClient && !session.ending) {
+    const unsupported = [
+      ...(filterChanged && buildMusicAudioFilter(effects) && !supportsClankvoxMusicCapability(session, "music_audio_filter")
+        ? ["audio_filter"]
+        : []),
+      ...(effects.crossfadeMs > 0 &&
+      effects.crossfadeMs !== previous.crossfadeMs &&
+      !supportsClankvoxMusicCapability(session, "music_crossfade")
+        ? ["crossfade"]
+        : [])
+    ];
+    if (unsupported.length) {
+      logMusicAction(manager, {
+        kind: "voice_runtime",
+        guildId,
+        channelId: session.textChannelId || null,
+        userId: requestedByUserId || manager.client.user?.id || null,
+        content: "voice_music_effects_unsupported",
+        metadata: {
+          sessionId: session.id || null,
+          source,
+          unsupported
+        }
+      });
+      return { ok: false, error: "effects_unsupported", unsupported, effects: previous, appliedLive: false };
+    }
+  }
+  manager.store.saveMusicPlaybackEffects({ guildId, ...effects, updatedByUserId: requestedByUserId });
+
+  let appliedLive = false;
+  if (filterChanged && session && !session.ending && getMusicPhase(manager, session) === "playing") {
+    const track = manager.musicPlayer?.getCurrentTrack?.() || null;
+    if (track) {
+      // Radio has no position to resume from, so it rejoins the live stream.
+      const positionMs =
+        track.platform === "radio" ? 0 : getMusicPlaybackPositionMs(ensureSessionMusicState(manager, session)) || 0;
+      appliedLive = (await restartCurrentMusicTrack(manager, session, { startMs: positionMs, effects })).ok;
+    }
+  }
+  logMusicAction(manager, {
+    kind: "voice_runtime",
+    guildId,
+    channelId: session?.textChannelId || null,
+    userId: requestedByUserId || manager.client.user?.id || null,
+    content: "voice_music_effects_updated",
+    metadata: {
+      sessionId: session?.id || null,
+      source,
+      effects,
+      appliedLive
+    }
+  });
+  return { ok: true, error: null, effects, summary: describeMusicPlaybackEffects(effects), appliedLive };
+}
+
 export async function requestStopMusic(manager: MusicPlaybackHost, {
   message = null,
   guildId = null,
@@ -2624,9 +3064,11 @@ export async function maybeHandleMusicPlaybackTurn(manager: MusicPlaybackHost, {
     const voiceRuntime = getVoiceRuntimeConfig(settings);
     const transcriberProvider = resolveTranscriberProvider(settings);
     const preferredModel =
-      transcriberProvider === "elevenlabs"
-        ? voiceRuntime.elevenLabsRealtime?.transcriptionModel
-        : voiceRuntime.openaiRealtime?.inputTranscriptionModel;
+      transcriberProvider === "local"
+        ? ""
+        : transcriberProvider === "elevenlabs"
+          ? voiceRuntime.elevenLabsRealtime?.transcriptionModel
+          : voiceRuntime.openaiRealtime?.inputTranscriptionModel;
     const transcriptionPlan = resolveTurnTranscriptionPlan({
       mode: session.mode,
       provider: transcriberProvider,
@@ -3086,6 +3528,7 @@ export async function handleMusicSlashCommand(
       queueState.tracks = [queuedTrack, ...trailingTracks];
       queueState.nowPlayingIndex = 0;
       queueState.isPaused = false;
+      persistToolMusicQueueState(manager, session);
 
       await requestPlayMusic(manager, {
         guildId,
@@ -3117,6 +3560,7 @@ export async function handleMusicSlashCommand(
     if (queueState.nowPlayingIndex == null && queueState.tracks.length > 0) {
       queueState.nowPlayingIndex = 0;
     }
+    persistToolMusicQueueState(manager, session);
 
     const shouldAutoPlay =
       action === "queue_next"
@@ -3264,6 +3708,49 @@ export async function handleMusicSlashCommand(
     });
   };
 
+  const enqueueLibraryTracks = async ({
+    session,
+    tracks
+  }: {
+    session: VoiceSession;
+    tracks: ReturnType<typeof toMusicLibraryQueueTrack>[];
+  }) => {
+    const queueState = ensureToolMusicQueueState(manager, session);
+    if (!queueState) return { ok: false, autoPlaying: false };
+    const wasEmpty = queueState.tracks.length === 0;
+    queueState.tracks.push(...tracks);
+    if (queueState.nowPlayingIndex == null && queueState.tracks.length > 0) {
+      queueState.nowPlayingIndex = 0;
+    }
+    persistToolMusicQueueState(manager, session);
+    const autoPlaying = wasEmpty && !isMusicPlaybackActive(manager, session) && !queueState.isPaused;
+    if (autoPlaying) {
+      await manager.playVoiceQueueTrackByIndex({
+        session,
+        settings: resolveVoiceSettingsSnapshot(manager.store, session, settings),
+        index: queueState.nowPlayingIndex ?? 0
+      });
+    }
+    return { ok: true, autoPlaying };
+  };
+
+  const formatHistoryReply = (rows: MusicPlayHistoryRecord[], dateLabel: string | null) => {
+    if (!rows.length) {
+      return dateLabel ? `Nothing was played on ${dateLabel}.` : "No music has been played here yet.";
+    }
+    const lines = rows.slice(-15).map((row) => {
+      const playedAt = new Date(row.playedAt);
+      const timeLabel = Number.isNaN(playedAt.getTime()) ? row.playedAt : playedAt.toLocaleString();
+      return `${timeLabel} - ${formatTrackLabel(row)}`;
+    });
+    const hiddenCount = Math.max(0, rows.length - lines.length);
+    return [
+      dateLabel ? `Played on ${dateLabel}:` : "Recently played:",
+      ...(hiddenCount > 0 ? [`...${hiddenCount} earlier play${hiddenCount === 1 ? "" : "s"} not shown.`] : []),
+      ...lines
+    ].join("\n");
+  };
+
   const guildId = guild.id;
   const subcommand = interaction.options.getSubcommand(true);
   const getActiveSession = () => {
@@ -3325,6 +3812,143 @@ export async function handleMusicSlashCommand(
   };
   let session = getActiveSession();
 
+  if (subcommand === "playlists") {
+    const playlists = manager.store.listMusicPlaylists?.(guildId) || [];
+    await interaction.reply(
+      ephemeralReply(
+        playlists.length
+          ? [
+              `Saved playlists (${playlists.length}):`,
+              ...playlists.map((playlist) => `- ${playlist.name} (${playlist.tracks.length} track${playlist.tracks.length === 1 ? "" : "s"})`)
+            ].join("\n")
+          : "No saved playlists yet. Use /clank music playlist_save to save the current queue."
+      )
+    );
+    return;
+  }
+
+  if (subcommand === "playlist_save") {
+    const name = interaction.options.getString("name", true);
+    const liveTracks = session ? ensureToolMusicQueueState(manager, session)?.tracks || [] : [];
+    const tracks = liveTracks.length
+      ? liveTracks.map((track) => toMusicTrackRecord(track))
+      : manager.store.getMusicQueueState?.(guildId)?.tracks || [];
+    if (!tracks.length) {
+      await interaction.reply(ephemeralReply("The queue is empty, so there is nothing to save."));
+      return;
+    }
+    const saved = manager.store.saveMusicPlaylist?.({
+      guildId,
+      name,
+      tracks,
+      createdByUserId: user.id
+    });
+    await interaction.reply(
+      saved
+        ? `Saved playlist "${saved.name}" with ${saved.tracks.length} track${saved.tracks.length === 1 ? "" : "s"}.`
+        : ephemeralReply("Couldn't save that playlist. Check the name and try again.")
+    );
+    return;
+  }
+
+  if (subcommand === "playlist_delete") {
+    const name = interaction.options.getString("name", true);
+    const deleted = Boolean(manager.store.deleteMusicPlaylist?.({ guildId, name }));
+    await interaction.reply(
+      ephemeralReply(deleted ? `Deleted playlist "${name}".` : `No saved playlist named "${name}".`)
+    );
+    return;
+  }
+
+  if (subcommand === "effects") {
+    const crossfadeSeconds = interaction.options.getNumber("crossfade");
+    const patch = {
+      crossfadeMs: crossfadeSeconds == null ? null : crossfadeSeconds * 1000,
+      loudnessNormalization: interaction.options.getBoolean("normalize"),
+      speed: interaction.options.getNumber("speed"),
+      pitchSemitones: interaction.options.getNumber("pitch"),
+      bassBoostDb: interaction.options.getInteger("bass")
+    };
+    const reset = Boolean(interaction.options.getBoolean("reset"));
+    if (!reset && Object.values(patch).every((value) => value == null)) {
+      await interaction.reply(
+        ephemeralReply(`Music effects: ${describeMusicPlaybackEffects(resolveMusicPlaybackEffects(manager, guildId))}.`)
+      );
+      return;
+    }
+    await interaction.deferReply();
+    const result = await updateMusicPlaybackEffects(manager, {
+      guildId,
+      session,
+      patch,
+      reset,
+      requestedByUserId: user.id,
+      source: "slash_command"
+    });
+    await interaction.editReply(
+      result.ok
+        ? `Music effects: ${result.summary}.${result.appliedLive ? "" : " They apply from the next track."}`
+        : result.error === "effects_unsupported"
+          ? "This voice runtime can't apply those effects. Update clankvox to use them."
+          : "Music effects can't be saved right now."
+    );
+    return;
+  }
+
+  const historyDate = subcommand === "history" ? interaction.options.getString("date") : null;
+  const historyShouldQueue = subcommand === "history" && Boolean(interaction.options.getBoolean("queue"));
+  if (subcommand === "history" && !historyShouldQueue) {
+    const window = historyDate ? resolveMusicHistoryWindow({ since: historyDate }) : null;
+    if (historyDate && !window) {
+      await interaction.reply(ephemeralReply("Use a date like 2026-03-06."));
+      return;
+    }
+    const rows = manager.store.getMusicPlayHistory?.({ guildId, ...(window || {}), limit: 200 }) || [];
+    await interaction.reply(ephemeralReply(formatHistoryReply(rows, historyDate)));
+    return;
+  }
+
+  if (subcommand === "playlist_load" || subcommand === "history") {
+    const library = resolveMusicLibraryTracks(manager, {
+      guildId,
+      playlist: subcommand === "playlist_load" ? interaction.options.getString("name", true) : null,
+      historySince: subcommand === "history" ? historyDate || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString() : null
+    });
+    if (!library || library.ok === false) {
+      const reason = library?.ok === false ? library.error : "history_empty";
+      await interaction.reply(
+        ephemeralReply(
+          reason === "playlist_not_found"
+            ? "No saved playlist with that name. Use /clank music playlists to see them."
+            : reason === "invalid_history_window"
+              ? "Use a date like 2026-03-06."
+              : "Nothing in the play history for that day."
+        )
+      );
+      return;
+    }
+    await interaction.deferReply();
+    session = session || await ensureSlashPlaybackSession();
+    if (!session) {
+      await interaction.editReply(
+        "I couldn't start a voice session for music playback. Join a voice channel first, or check the channel for the join failure."
+      );
+      return;
+    }
+    const result = await enqueueLibraryTracks({ session, tracks: library.tracks });
+    if (!result.ok) {
+      await interaction.editReply("Music queue is unavailable for this voice session.");
+      return;
+    }
+    const countLabel = `${library.tracks.length} track${library.tracks.length === 1 ? "" : "s"}`;
+    await interaction.editReply(
+      result.autoPlaying
+        ? `Queued ${countLabel} from ${library.label}. Now playing: ${formatTrackLabel(library.tracks[0])}`
+        : `Queued ${countLabel} from ${library.label}.`
+    );
+    return;
+  }
+
   if (subcommand === "play" || subcommand === "add" || subcommand === "next") {
     const query = interaction.options.getString("query", true);
     await interaction.deferReply();
@@ -3354,6 +3978,34 @@ export async function handleMusicSlashCommand(
     return;
   }
 
+  if (subcommand === "seek") {
+    await interaction.deferReply();
+    const result = await requestSeekMusic(manager, {
+      session,
+      position: interaction.options.getString("position", true),
+      requestedByUserId: user.id,
+      source: "slash_command"
+    });
+    await interaction.editReply(
+      result.ok
+        ? `Jumped to ${result.position}.`
+        : result.error === "invalid_position"
+          ? "Use a position like 90 or 1:30."
+          : result.error === "music_paused"
+            ? "Music is paused. Resume it before seeking."
+            : result.error === "seek_unsupported"
+              ? "This voice runtime can't seek. Update clankvox to use it."
+              : result.error === "not_seekable"
+                ? "Radio streams can't be seeked."
+                : result.error === "seek_past_end"
+                  ? "That position is past the end of the track."
+                  : result.error === "nothing_playing"
+                    ? "No music is currently playing."
+                    : "Couldn't seek the current track."
+    );
+    return;
+  }
+
   if (subcommand === "queue") {
     await interaction.reply(formatQueueReply(session));
     return;
@@ -3408,6 +4060,19 @@ export async function handleMusicSlashCommand(
 
   if (subcommand === "resume") {
     const phase = getMusicPhase(manager, session);
+    if (!musicPhaseIsActive(phase) && !musicPhaseCanResume(phase) && restorePersistedMusicQueue(manager, session) > 0) {
+      await interaction.deferReply();
+      const restoredQueue = ensureToolMusicQueueState(manager, session);
+      await manager.playVoiceQueueTrackByIndex({
+        session,
+        settings: resolveVoiceSettingsSnapshot(manager.store, session, settings),
+        index: 0
+      });
+      await interaction.editReply(
+        `Restored the saved queue (${restoredQueue?.tracks.length || 0} tracks). Now playing: ${formatTrackLabel(restoredQueue?.tracks[0])}`
+      );
+      return;
+    }
     if (!musicPhaseCanResume(phase)) {
       await interaction.reply(ephemeralReply("No music is currently paused."));
       return;
@@ -3434,15 +4099,17 @@ export async function handleMusicSlashCommand(
     }
     await interaction.deferReply();
     const nextIndex = queueState.nowPlayingIndex + 1;
-    await requestStopMusic(manager, {
-      guildId,
-      channelId: interaction.channelId,
-      requestedByUserId: user.id,
-      settings,
-      reason: "slash_command_skip",
-      source: "slash_command",
-      mustNotify: false
-    });
+    if (nextIndex >= queueState.tracks.length || !shouldCrossfadeMusicTransition(manager, session)) {
+      await requestStopMusic(manager, {
+        guildId,
+        channelId: interaction.channelId,
+        requestedByUserId: user.id,
+        settings,
+        reason: "slash_command_skip",
+        source: "slash_command",
+        mustNotify: false
+      });
+    }
     if (nextIndex < queueState.tracks.length) {
       await manager.playVoiceQueueTrackByIndex({ session, settings, index: nextIndex });
       const nextTrack = queueState.tracks[nextIndex];
@@ -272,11 +272,13 @@ function buildAsrSessionsSnapshot(
         finalSegments: Array.isArray(asr.utterance.finalSegments) ? asr.utterance.finalSegments.length : 0,
         bytesSent: Number(asr.utterance.bytesSent || 0)
       } : null,
-      model: String(
-        asr.client?.sessionConfig?.inputTranscriptionModel ||
-        session.openAiPerUserAsrModel ||
-        ""
-      ).trim() || null,
+      model: session.asrBridgeProvider === "local"
+        ? "whisper_cpp"
+        : String(
+          asr.client?.sessionConfig?.inputTranscriptionModel ||
+          session.openAiPerUserAsrModel ||
+          ""
+        ).trim() || null,
       sessionId: asr.client?.sessionId || null
     };
   });
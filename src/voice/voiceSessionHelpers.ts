@@ -9,6 +9,7 @@ import {
   resolveAgentStack
 } from "../settings/agentStack.ts";
 import { resolveVoiceProviderFromRuntimeMode } from "../settings/voiceDashboardMappings.ts";
+import { resolveSpendCapDecision, type SpendCapFeatureStatus, type SpendCapStore } from "../llm/spendCaps.ts";
 import type { VoiceRuntimeEventContext } from "./voiceSessionTypes.ts";
 
 const VOICE_ADDRESSING_ALL_TOKENS = new Set([
@@ -463,6 +464,55 @@ export function isRealtimeMode(mode) {
   return Boolean(resolveRealtimeProvider(mode));
 }
 
+/**
+ * Returns the voice spend-cap status once the cap is reached, logging a
+ * `spend_cap_exceeded` action. Realtime provider audio has no cheaper binding to swap
+ * in, so a `degrade` policy blocks realtime sessions the same way `refuse` does.
+ */
+export function resolveRealtimeVoiceSpendCapBlock({
+  store,
+  settings,
+  guildId = null,
+  channelId = null,
+  userId = null,
+  event
+}: {
+  store: SpendCapStore & {
+    logAction: (entry: {
+      kind: string;
+      guildId?: string | null;
+      channelId?: string | null;
+      userId?: string | null;
+      content: string;
+      metadata?: Record<string, unknown>;
+    }) => void;
+  };
+  settings: unknown;
+  guildId?: string | null;
+  channelId?: string | null;
+  userId?: string | null;
+  event: string;
+}): SpendCapFeatureStatus | null {
+  const spendCap = resolveSpendCapDecision({ store, settings, feature: "voice" });
+  if (spendCap.action === "allow") return null;
+  store.logAction({
+    kind: "spend_cap_exceeded",
+    guildId,
+    channelId,
+    userId,
+    content: spendCap.status.feature,
+    metadata: {
+      feature: spendCap.status.feature,
+      window: spendCap.status.exceededWindow,
+      dailySpentUsd: spendCap.status.dailySpentUsd,
+      monthlySpentUsd: spendCap.status.monthlySpentUsd,
+      source: "voice_realtime",
+      event
+    }
+  });
+  return spendCap.status;
+}
+
 export function getRealtimeRuntimeLabel(mode) {
   const provider = resolveRealtimeProvider(mode);
   if (provider === "xai") return "xai";
@@ -5,6 +5,7 @@ import {
   getVoiceRuntimeConfig,
 } from "../settings/agentStack.ts";
 import { DEFAULT_SETTINGS } from "../settings/settingsSchema.ts";
+import type { McpClientManager } from "../mcp/mcpClient.ts";
 import { getPromptBotName } from "../prompts/promptCore.ts";
 import { buildSingleTurnPromptLog } from "../promptLogging.ts";
 import { clamp } from "../utils.ts";
@@ -12,6 +13,7 @@ import { buildVoiceReplyScopeKey } from "../tools/activeReplyRegistry.ts";
 import { isCancelIntent } from "../tools/cancelDetection.ts";
 import { SoundboardDirector } from "./soundboardDirector.ts";
 import { createMusicSearchProvider } from "./musicSearch.ts";
+import { createMusicTrackInfoService } from "./musicTrackInfo.ts";
 import { createDiscordMusicPlayer } from "./musicPlayer.ts";
 import {
   clearMusicDisambiguationState as clearMusicDisambiguationStateRuntime,
@@ -28,10 +30,13 @@ import {
   maybeHandleMusicTextStopRequest as maybeHandleMusicTextStopRequestRuntime,
   normalizeMusicPlatformToken as normalizeMusicPlatformTokenRuntime,
   normalizeMusicSelectionResult as normalizeMusicSelectionResultRuntime,
+  persistToolMusicQueueState as persistToolMusicQueueStateRuntime,
   playMusicViaDiscord as playMusicViaDiscordRuntime,
   requestPauseMusic as requestPauseMusicRuntime,
   requestPlayMusic as requestPlayMusicRuntime,
   requestStopMusic as requestStopMusicRuntime,
+  resolveMusicLibraryTracks as resolveMusicLibraryTracksRuntime,
+  restorePersistedMusicQueue as restorePersistedMusicQueueRuntime,
   engageBotSpeechMusicDuck as engageBotSpeechMusicDuckRuntime,
   scheduleBotSpeechMusicUnduck as scheduleBotSpeechMusicUnduckRuntime,
   releaseBotSpeechMusicDuck as releaseBotSpeechMusicDuckRuntime,
@@ -237,6 +242,7 @@ import type {
   CaptureState,
   LoggedVoicePromptBundle,
   MusicDisambiguationPayload,
+  MusicSelectionPlatform,
   MusicSelectionResult,
   MusicTextCommandMessage,
   MusicTextRequestPayload,
@@ -360,6 +366,7 @@ export class VoiceSessionManager {
   memory;
   search;
   browserManager;
+  mcp: McpClientManager | null;
   activeReplies;
   composeOperationalMessage;
   generateVoiceTurn;
@@ -372,6 +379,7 @@ export class VoiceSessionManager {
   soundboardDirector;
   musicPlayback;
   musicSearch;
+  musicTrackInfo;
   musicPlayer;
   bargeInController;
   captureManager;
@@ -399,6 +407,7 @@ export class VoiceSessionManager {
     memory = null,
     search = null,
     browserManager = null,
+    mcp = null,
     activeReplies = null,
     composeOperationalMessage = null,
     generateVoiceTurn = null,
@@ -413,6 +422,7 @@ export class VoiceSessionManager {
     this.memory = memory || null;
     this.search = search || null;
     this.browserManager = browserManager || null;
+    this.mcp = mcp || null;
     this.activeReplies = activeReplies || null;
     this.composeOperationalMessage =
       typeof composeOperationalMessage === "function" ? composeOperationalMessage : null;
@@ -435,7 +445,8 @@ export class VoiceSessionManager {
       appConfig
     });
     this.musicPlayback = null;
-    this.musicSearch = createMusicSearchProvider(this.appConfig || {});
+    this.musicSearch = createMusicSearchProvider(this.appConfig || {}, { store });
+    this.musicTrackInfo = createMusicTrackInfoService(this.appConfig || {}, { store });
     this.musicPlayer = createDiscordMusicPlayer();
     this.musicPlayer.logAction = (entry) => this.store.logAction(entry);
     this.bargeInController = new BargeInController(this);
@@ -930,7 +941,7 @@ export class VoiceSessionManager {
   getMusicDisambiguationPromptContext(session): {
     active: true;
     query: string | null;
-    platform: "youtube" | "soundcloud" | "discord" | "auto";
+    platform: MusicSelectionPlatform;
     action: "play_now" | "queue_next" | "queue_add";
     requestedByUserId: string | null;
     options: MusicSelectionResult[];
@@ -942,6 +953,23 @@ export class VoiceSessionManager {
     return ensureToolMusicQueueStateRuntime(this, session);
   }
 
+  persistToolMusicQueueState(session) {
+    return persistToolMusicQueueStateRuntime(this, session);
+  }
+
+  restorePersistedMusicQueue(session) {
+    return restorePersistedMusicQueueRuntime(this, session);
+  }
+
+  resolveMusicLibraryTracks(opts: {
+    guildId: string;
+    playlist?: string | null;
+    historySince?: string | null;
+    historyUntil?: string | null;
+  }) {
+    return resolveMusicLibraryTracksRuntime(this, opts);
+  }
+
   hasBotNameCueForTranscript({ transcript = "", settings = null } = {}) {
     return hasBotNameCueForTranscript({
       transcript,
@@ -3822,6 +3850,7 @@ export class VoiceSessionManager {
     session?: {
       ending?: boolean;
       mode?: string;
+      asrBridgeProvider?: string | null;
       settingsSnapshot?: Record<string, unknown> | null;
     } | null;
     settings?: Record<string, unknown> | null;
@@ -3840,6 +3869,7 @@ export class VoiceSessionManager {
     session?: {
       ending?: boolean;
       mode?: string;
+      asrBridgeProvider?: string | null;
       settingsSnapshot?: Record<string, unknown> | null;
     } | null;
     settings?: Record<string, unknown> | null;
@@ -3892,6 +3922,7 @@ export class VoiceSessionManager {
     session?: {
       ending?: boolean;
       mode?: string;
+      asrBridgeProvider?: string | null;
       settingsSnapshot?: Record<string, unknown> | null;
     } | null;
     settings?: Record<string, unknown> | null;
@@ -5171,7 +5202,8 @@ export class VoiceSessionManager {
       resolveVoiceSpeakerName: (s, userId) => this.resolveVoiceSpeakerName(s, userId),
       handleSpeechStarted: (payload) => this.handleAsrBridgeSpeechStarted(payload),
       handleSpeechStopped: (payload) => this.handleAsrBridgeSpeechStopped(payload),
-      handleTranscriptOverlapSegment: (payload) => this.handleAsrBridgeTranscriptOverlapSegment(payload)
+      handleTranscriptOverlapSegment: (payload) => this.handleAsrBridgeTranscriptOverlapSegment(payload),
+      transcribeAudio: (args) => this.llm.transcribeAudio(args)
     };
   }
 
@@ -6601,6 +6633,7 @@ export class VoiceSessionManager {
     });
     queueState.nowPlayingIndex = normalizedIndex;
     queueState.isPaused = false;
+    this.persistToolMusicQueueState(session);
     return {
       ok: true,
       now_playing: {
@@ -7080,9 +7113,11 @@ export class VoiceSessionManager {
     const voiceRuntime = getVoiceRuntimeConfig(resolvedSettings);
     const elevenLabsSettings = voiceRuntime.elevenLabsRealtime;
     const resolvedModel =
-      transcriberProvider === "elevenlabs"
-        ? String(model || elevenLabsSettings?.transcriptionModel || "").trim()
-        : String(model || "gpt-4o-mini-transcribe").trim() || "gpt-4o-mini-transcribe";
+      transcriberProvider === "local"
+        ? String(model || "").trim()
+        : transcriberProvider === "elevenlabs"
+          ? String(model || elevenLabsSettings?.transcriptionModel || "").trim()
+          : String(model || "gpt-4o-mini-transcribe").trim() || "gpt-4o-mini-transcribe";
     const source = String(traceSource || "voice_file_asr_turn");
     const emptyTranscriptThreshold = Math.max(1, Math.floor(Number(emptyTranscriptErrorStreakThreshold) || 1));
     if (!session.asrEmptyTranscriptStreakBySource || typeof session.asrEmptyTranscriptStreakBySource !== "object") {
@@ -7661,6 +7696,9 @@ export class VoiceSessionManager {
         position?: number | "end";
         platform?: string | null;
         max_results?: number;
+        playlist?: string | null;
+        history_since?: string | null;
+        history_until?: string | null;
       }) =>
         executeVoiceMusicQueueAddTool(this, { session, settings, args }),
       musicQueueNext: (args: {
@@ -7686,8 +7724,17 @@ export class VoiceSessionManager {
         }),
       musicSkip: () =>
         executeLocalVoiceToolCall(this, { session, settings, toolName: "media_skip", args: {} }),
-      musicNowPlaying: () =>
-        executeLocalVoiceToolCall(this, { session, settings, toolName: "media_now_playing", args: {} }),
+      musicNowPlaying: (includeDetails = false) =>
+        executeLocalVoiceToolCall(this, {
+          session,
+          settings,
+          toolName: "media_now_playing",
+          args: includeDetails ? { include_details: true } : {}
+        }),
+      musicSeek: (position: string) =>
+        executeLocalVoiceToolCall(this, { session, settings, toolName: "media_seek", args: { position } }),
+      musicEffects: (effects: Record<string, unknown>) =>
+        executeLocalVoiceToolCall(this, { session, settings, toolName: "media_effects", args: effects }),
       stopVideoShare: () =>
         executeLocalVoiceToolCall(this, { session, settings, toolName: "stop_video_share", args: {} }),
       playSoundboard: async (refs: string[], transcript: string) => {
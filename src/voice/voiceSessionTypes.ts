@@ -15,6 +15,7 @@ import type {
 import type { MemoryFactRow } from "../store/storeMemory.ts";
 import type { VoiceToolResultSummary } from "./voiceToolResultSummary.ts";
 import type { LoggedPromptBundle } from "../promptLogging.ts";
+import type { MusicPlatform } from "./musicSearch.ts";
 
 export type {
     AssistantOutputLockReason,
@@ -224,6 +225,8 @@ export type VoiceToolExecutionState = {
 
 export type VoiceMcpServerStatus = {
     serverName: string;
+    /** `shared` servers run through the bot's McpClientManager; `voice_bridge` is the legacy VOICE_MCP_SERVERS_JSON HTTP bridge. */
+    source: "shared" | "voice_bridge";
     connected: boolean;
     tools: Array<{ name: string; description: string; inputSchema?: Record<string, unknown> }>;
     lastError: string | null;
@@ -266,6 +269,7 @@ export type VoiceToolRuntimeSessionLike = {
     lastRealtimeToolHash?: string | null;
     lastRealtimeToolRefreshAt?: number | null;
     guildId?: string;
+    voiceChannelId?: string;
     textChannelId?: string;
     id?: string;
     realtimeToolResponseDebounceTimer?: ReturnType<typeof setTimeout> | null;
@@ -294,17 +298,19 @@ export type VoiceToolRuntimeSessionLike = {
     } | null;
 };
 
+export type MusicSelectionPlatform = MusicPlatform | "discord" | "auto";
+
 export type MusicSelectionResult = {
     id: string;
     title: string;
     artist: string;
-    platform: "youtube" | "soundcloud" | "discord" | "auto";
+    platform: MusicSelectionPlatform;
     externalUrl: string | null;
     durationSeconds: number | null;
 };
 
 export type MusicDisambiguationPayload = {
-    session?: Record<string, unknown> | null;
+    session?: VoiceSession | VoiceToolRuntimeSessionLike | null;
     query?: string;
     platform?: string;
     action?: "play_now" | "queue_next" | "queue_add";
@@ -436,7 +442,7 @@ interface VoiceMusicQueueTrack {
     durationMs: number | null;
     source: "yt" | "sc";
     streamUrl: string | null;
-    platform: "youtube" | "soundcloud" | "discord" | "auto";
+    platform: MusicSelectionPlatform;
     externalUrl: string | null;
 }
 
@@ -637,6 +643,14 @@ export interface VoiceSessionMusicState {
     replyHandoffAt?: number;
     startedAt: number;
     stoppedAt: number;
+    /** When the current pause began (0 while not paused); see `getMusicPlaybackPositionMs`. */
+    pausedAt?: number;
+    /** Paused time accumulated since `startedAt`, excluded from the playback position. */
+    pausedMs?: number;
+    /** Track position at `startedAt`; non-zero after a seek or a mid-track effects change. */
+    startOffsetMs?: number;
+    /** Playback speed applied by the current pipeline; track time advances at this rate. */
+    playbackRate?: number;
     provider: string | null;
     source: string | null;
     lastTrackId: string | null;
@@ -651,7 +665,7 @@ export interface VoiceSessionMusicState {
     lastCommandAt: number;
     lastCommandReason: string | null;
     pendingQuery: string | null;
-    pendingPlatform: "auto" | "youtube" | "soundcloud" | "discord";
+    pendingPlatform: MusicSelectionPlatform;
     pendingAction: "play_now" | "queue_next" | "queue_add";
     pendingResults: MusicSelectionResult[];
     pendingRequestedByUserId: string | null;
@@ -1180,6 +1194,8 @@ export interface VoiceSession {
     openAiAsrSessions: Map<string, AsrBridgeState>;
     perUserAsrEnabled: boolean;
     sharedAsrEnabled: boolean;
+    /** Which backend the ASR bridge transcribes with; `local` buffers utterances for whisper.cpp. */
+    asrBridgeProvider?: "openai" | "local";
     openAiSharedAsrState: AsrBridgeState | null;
     openAiPerUserAsrModel: string;
     openAiPerUserAsrLanguage: string;
@@ -1226,6 +1242,8 @@ export interface VoiceSession {
     goLiveStreams: VoiceSessionGoLiveStreamMap;
     streamPublish: VoiceSessionStreamPublishState;
     music: VoiceSessionMusicState;
+    botSpeechMusicDucked?: boolean;
+    botSpeechMusicUnduckTimer?: ReturnType<typeof setTimeout> | null;
     soundboard: VoiceSessionSoundboardState;
     latencyStages: VoiceLatencyStageEntry[];
     membershipEvents: VoiceMembershipEvent[];
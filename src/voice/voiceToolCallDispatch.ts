@@ -19,6 +19,8 @@ import {
   executeVoiceMusicReplyHandoffTool,
   executeVoiceMusicResumeTool,
   executeVoiceMusicSkipTool,
+  executeVoiceMusicSeekTool,
+  executeVoiceMusicEffectsTool,
   executeVoiceMusicStopTool,
   executeVoiceStreamVisualizerTool,
   executeVoiceVideoPlayTool,
@@ -205,6 +207,19 @@ const LOCAL_VOICE_TOOL_HANDLERS: Record<
   media_now_playing: async (manager, opts) =>
     await executeVoiceMusicNowPlayingTool(manager, {
       session: opts.session,
+      args: opts.args,
+      signal: opts.signal
+    }),
+  media_seek: async (manager, opts) =>
+    await executeVoiceMusicSeekTool(manager, {
+      session: opts.session,
+      args: opts.args,
+      signal: opts.signal
+    }),
+  media_effects: async (manager, opts) =>
+    await executeVoiceMusicEffectsTool(manager, {
+      session: opts.session,
+      args: opts.args,
       signal: opts.signal
     }),
   play_soundboard: async (manager, opts) =>
@@ -471,6 +486,9 @@ export async function executeMcpVoiceToolCall(
   if (!serverStatus) {
     throw new Error(`mcp_server_not_found:${serverName}`);
   }
+  if (serverStatus.source === "shared") {
+    return await executeSharedMcpVoiceToolCall(manager, { session, serverName, toolName, args, signal });
+  }
 
   const baseUrl = String(serverStatus.baseUrl || "").trim().replace(/\/+$/, "");
   const toolPath = String(serverStatus.toolPath || "/tools/call").trim() || "/tools/call";
@@ -532,3 +550,45 @@ export async function executeMcpVoiceToolCall(
     throw error;
   }
 }
+
+async function executeSharedMcpVoiceToolCall(
+  manager: VoiceToolCallManager,
+  {
+    session,
+    serverName,
+    toolName,
+    args,
+    signal
+  }: {
+    session: McpVoiceToolCallOptions["session"];
+    serverName: string;
+    toolName: string;
+    args: McpVoiceToolCallOptions["args"];
+    signal?: AbortSignal;
+  }
+) {
+  if (!manager.mcp) {
+    throw new Error(`mcp_server_not_found:${serverName}`);
+  }
+  const result = await manager.mcp.callTool({
+    serverName,
+    toolName,
+    args: args && typeof args === "object" ? args : {},
+    signal
+  });
+  const status = manager.mcp.getServerStatuses().find((entry) => entry.serverName === serverName) || null;
+  manager.updateVoiceMcpStatus(session, serverName, {
+    connected: Boolean(status?.connected),
+    lastError: status?.lastError || null,
+    lastCallAt: status?.lastCallAt || new Date().toISOString(),
+    lastConnectedAt: status?.lastConnectedAt || null
+  });
+  if (result.isError) {
+    throw new Error(result.content);
+  }
+  return {
+    ok: true,
+    output: result.content,
+    error: null
+  };
+}
@@ -1,5 +1,6 @@
 import { test } from "bun:test";
 import assert from "node:assert/strict";
+import { McpClientManager, normalizeMcpServerConfigs } from "../mcp/mcpClient.ts";
 import { createAbortError } from "../tools/browserTaskRuntime.ts";
 import { buildRealtimeFunctionTools } from "./voiceToolCallToolRegistry.ts";
 import { refreshRealtimeTools } from "./voiceToolCallInfra.ts";
@@ -334,6 +335,81 @@ test("handleRealtimeFunctionCallEvent executes media_now_playing and sends funct
   assert.equal(toolEvents[0]?.toolName, "media_now_playing");
 });
 
+test("realtime voice exposes and calls tools from the shared MCP client", async () => {
+  const manager = createVoiceTestManager();
+  manager.scheduleRealtimeToolFollowupResponse = () => {};
+  const toolCalls = [];
+  manager.mcp = new McpClientManager({
+    servers: normalizeMcpServerConfigs([{ serverName: "docs", url: "https://example.com/mcp" }]),
+    createTransport: () => ({
+      async request(method, params) {
+        if (method === "initialize") return { serverInfo: { version: "1.0.0" } };
+        if (method === "tools/list") {
+          return {
+            tools: [
+              { name: "search_docs", description: "Search docs", inputSchema: { type: "object", properties: {} } },
+              { name: "delete_docs", description: "Delete docs", inputSchema: { type: "object", properties: {} } }
+            ]
+          };
+        }
+        toolCalls.push(params);
+        return { content: [{ type: "text", text: "found 3 pages" }] };
+      },
+      async notify() {},
+      async close() {}
+    })
+  });
+  await manager.mcp.connectAll();
+  manager.appConfig.voiceMcpServers = [
+    { serverName: "docs", baseUrl: "https://legacy.local", tools: [{ name: "legacy_docs" }] }
+  ];
+
+  const sentFunctionOutputs = [];
+  const session = {
+    id: "session-openai-shared-mcp-1",
+    guildId: "guild-1",
+    textChannelId: "chan-1",
+    voiceChannelId: "voice-1",
+    mode: "openai_realtime",
+    ending: false,
+    realtimeToolOwnership: "provider_native",
+    realtimeClient: {
+      sendFunctionCallOutput(payload) {
+        sentFunctionOutputs.push(payload);
+      }
+    }
+  };
+  const settings = createVoiceTestSettings({
+    voice: { conversationPolicy: { replyPath: "bridge" } },
+    mcp: { enabled: true, servers: [{ serverName: "docs", enabled: true, allowedTools: ["search_docs"] }] }
+  });
+  session.realtimeToolDefinitions = buildRealtimeFunctionTools(manager, { session, settings });
+  const mcpToolNames = session.realtimeToolDefinitions
+    .filter((tool) => tool.toolType === "mcp")
+    .map((tool) => tool.name);
+  assert.deepEqual(mcpToolNames, ["search_docs"]);
+
+  await manager.handleRealtimeFunctionCallEvent({
+    session,
+    settings,
+    event: {
+      type: "response.output_item.done",
+      item: {
+        type: "function_call",
+        call_id: "call_shared_mcp_1",
+        name: "search_docs",
+        arguments: "{\"query\":\"voice\"}"
+      }
+    }
+  });
+
+  assert.deepEqual(toolCalls, [{ name: "search_docs", arguments: { query: "voice" } }]);
+  assert.equal(sentFunctionOutputs.length, 1);
+  const outputPayload = JSON.parse(String(sentFunctionOutputs[0]?.output || "{}"));
+  assert.equal(outputPayload?.ok, true);
+  assert.equal(outputPayload?.output, "found 3 pages");
+});
+
 test("handleRealtimeFunctionCallEvent executes play_soundboard and sends function output", async () => {
   const manager = createVoiceTestManager();
   manager.scheduleRealtimeToolFollowupResponse = () => {};
@@ -408,6 +484,105 @@ test("handleRealtimeFunctionCallEvent executes play_soundboard and sends functio
   assert.equal(toolEvents[0]?.toolName, "play_soundboard");
 });
 
+test("handleRealtimeFunctionCallEvent enforces tool permission rules against the calling speaker", async () => {
+  const manager = createVoiceTestManager();
+  manager.scheduleRealtimeToolFollowupResponse = () => {};
+
+  const soundboardPlayCalls = [];
+  const sentFunctionOutputs = [];
+  const session = {
+    id: "session-openai-tool-call-permissions-1",
+    guildId: "guild-1",
+    textChannelId: "chan-1",
+    voiceChannelId: "voice-1",
+    mode: "openai_realtime",
+    ending: false,
+    realtimeToolOwnership: "provider_native",
+    lastRealtimeToolCallerUserId: "user-guest",
+    soundboard: {
+      playCount: 0,
+      lastPlayedAt: 0
+    },
+    realtimeClient: {
+      sendFunctionCallOutput(payload) {
+        sentFunctionOutputs.push(payload);
+      }
+    }
+  };
+  manager.soundboardDirector.play = async (payload) => {
+    soundboardPlayCalls.push(payload);
+    return { ok: true };
+  };
+
+  const settings = createVoiceTestSettings({
+    permissions: {
+      tools: {
+        rules: [{ toolName: "play_soundboard", surfaces: ["voice_realtime"], allowedUserIds: ["user-dj"] }]
+      }
+    },
+    voice: {
+      conversationPolicy: {
+        replyPath: "bridge"
+      },
+      soundboard: {
+        enabled: true,
+        preferredSoundIds: ["airhorn@123"]
+      }
+    }
+  });
+  session.realtimeToolDefinitions = buildRealtimeFunctionTools(manager, {
+    session,
+    settings
+  });
+  assert.equal(session.realtimeToolDefinitions.some((tool) => tool.name === "play_soundboard"), true);
+
+  const callSoundboard = (callId) => manager.handleRealtimeFunctionCallEvent({
+    session,
+    settings,
+    event: {
+      type: "response.output_item.done",
+      item: {
+        type: "function_call",
+        call_id: callId,
+        name: "play_soundboard",
+        arguments: "{\"refs\":[\"airhorn@123\"]}"
+      }
+    }
+  });
+
+  await callSoundboard("call_soundboard_denied");
+  assert.equal(soundboardPlayCalls.length, 0);
+  const deniedOutput = JSON.parse(String(sentFunctionOutputs[0]?.output || "{}"));
+  assert.equal(deniedOutput?.is_error, true);
+  assert.match(String(deniedOutput?.error?.message || ""), /tool_not_permitted:play_soundboard/);
+
+  session.lastRealtimeToolCallerUserId = "user-dj";
+  await callSoundboard("call_soundboard_allowed");
+  assert.equal(soundboardPlayCalls.length, 1);
+});
+
+test("buildRealtimeFunctionTools drops tools whose permission rule allows nobody", () => {
+  const manager = createVoiceTestManager();
+  const settings = createVoiceTestSettings({
+    permissions: {
+      tools: {
+        rules: [{ toolName: "play_soundboard", surfaces: ["voice_realtime"] }]
+      }
+    },
+    voice: {
+      soundboard: {
+        enabled: true,
+        preferredSoundIds: ["airhorn@123"]
+      }
+    }
+  });
+  const toolNames = buildRealtimeFunctionTools(manager, {
+    session: { id: "session-permissions-2", guildId: "guild-1", mode: "openai_realtime" },
+    settings
+  }).map((tool) => tool.name);
+  assert.equal(toolNames.includes("play_soundboard"), false);
+});
+
 test("handleRealtimeFunctionCallEvent ignores provider function calls in brain sessions", async () => {
   const manager = createVoiceTestManager();
   manager.scheduleRealtimeToolFollowupResponse = () => {};
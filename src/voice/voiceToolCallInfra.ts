@@ -13,6 +13,8 @@ import {
 } from "./voiceToolCallToolRegistry.ts";
 import { executeLocalVoiceToolCall, executeMcpVoiceToolCall } from "./voiceToolCallDispatch.ts";
 import { buildVoiceReplyScopeKey } from "../tools/activeReplyRegistry.ts";
+import { isToolPermittedForRequester } from "../tools/toolRegistry.ts";
+import { getMemberRoleIds } from "../bot/permissions.ts";
 import { isAbortError } from "../tools/browserTaskRuntime.ts";
 import { shouldRequestVoiceToolFollowup } from "../tools/sharedToolSchemas.ts";
 
@@ -59,6 +61,27 @@ function normalizeRealtimeToolOutputForModel(output: unknown, success: boolean)
   };
 }
 
+/**
+ * Realtime sessions declare one tool list for everyone in the channel, so
+ * per-user tool rules are checked against whoever triggered this call.
+ */
+function isRealtimeToolCallerPermitted(
+  manager: VoiceToolCallManager,
+  session: ToolRuntimeSession,
+  settings: VoiceRealtimeToolSettings | null,
+  toolName: string
+) {
+  if (!settings) return true;
+  const callerUserId = String(session.lastRealtimeToolCallerUserId || "").trim() || null;
+  const member = callerUserId
+    ? manager.client.guilds?.cache?.get(String(session.guildId || ""))?.members?.cache?.get(callerUserId)
+    : null;
+  return isToolPermittedForRequester(settings, "voice_realtime", toolName, {
+    userId: callerUserId,
+    roleIds: getMemberRoleIds(member)
+  });
+}
+
 export async function executeRealtimeFunctionCall(
   manager: VoiceToolCallManager,
   { session, settings, pendingCall }: { session?: ToolRuntimeSession | null; settings?: VoiceRealtimeToolSettings | null; pendingCall: VoicePendingToolCallState }
@@ -110,6 +133,9 @@ export async function executeRealtimeFunctionCall(
   let errorMessage = "";
   try {
     if (!toolDescriptor) throw new Error(`unknown_tool:${toolName || "unnamed"}`);
+    if (!isRealtimeToolCallerPermitted(manager, session, resolvedSettings, toolDescriptor.name)) {
+      throw new Error(`tool_not_permitted:${toolDescriptor.name}`);
+    }
     output = toolDescriptor.toolType === "mcp"
       ? await executeMcpVoiceToolCall(manager, {
           session,
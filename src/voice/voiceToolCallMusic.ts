@@ -5,6 +5,7 @@ import {
   noteMusicResumeRequest,
   setKnownMusicQueuePausedState
 } from "./musicResumeState.ts";
+import { isMusicPlatform } from "./musicSearch.ts";
 import { normalizeInlineText } from "./voiceSessionHelpers.ts";
 import { ensureSessionToolRuntimeState } from "./voiceToolCallToolRegistry.ts";
 import {
@@ -15,13 +16,21 @@ import {
   getMusicPhase,
   getMusicDisambiguationPromptContext,
   releaseBotSpeechMusicDuck,
+  getMusicPlaybackPositionMs,
   setMusicPhase,
   setPendingMusicReplyHandoff,
-  setMusicDisambiguationState
+  setMusicDisambiguationState,
+  requestSeekMusic,
+  shouldCrossfadeMusicTransition,
+  updateMusicPlaybackEffects,
+  resolveMusicPlaybackEffects
 } from "./voiceMusicPlayback.ts";
+import { describeMusicPlaybackEffects } from "./musicEffects.ts";
+import { selectLyricWindow } from "./musicTrackInfo.ts";
 import { throwIfAborted } from "../tools/browserTaskRuntime.ts";
 import { musicPhaseCanResume, musicPhaseIsActive } from "./voiceSessionTypes.ts";
 import type { MusicSelectionResult, VoiceRealtimeToolSettings, VoiceSession, VoiceToolRuntimeSessionLike } from "./voiceSessionTypes.ts";
+import type { MusicPlatform } from "./musicSearch.ts";
 import type { VoiceToolCallArgs, VoiceToolCallManager } from "./voiceToolCallTypes.ts";
 
 type ToolRuntimeSession = VoiceSession | VoiceToolRuntimeSessionLike;
@@ -67,10 +76,7 @@ function isMusicSelectionResult(value: unknown): value is MusicSelectionResult {
     typeof candidate.id === "string" &&
     typeof candidate.title === "string" &&
     typeof candidate.artist === "string" &&
-    (candidate.platform === "youtube" ||
-      candidate.platform === "soundcloud" ||
-      candidate.platform === "discord" ||
-      candidate.platform === "auto")
+    (isMusicPlatform(candidate.platform) || candidate.platform === "discord" || candidate.platform === "auto")
   );
 }
 function toMusicQueueTrack(track: MusicSelectionResult): MusicQueueTrack {
@@ -194,7 +200,7 @@ function searchVoiceMusicCatalog(
   }: {
     session?: ToolRuntimeSession | null;
     query: string;
-    platform: "youtube" | "soundcloud" | "auto";
+    platform: MusicPlatform | "auto";
     maxResults: number;
   }
 ) {
@@ -265,11 +271,12 @@ function resolveMusicPlaySelection(
 
   const musicState = manager.ensureSessionMusicState(session);
   if (musicState?.lastTrackId === selectionId && musicState.lastTrackTitle) {
+    const providerToken = String(musicState.provider || "").trim().toLowerCase();
     return manager.normalizeMusicSelectionResult({
       id: musicState.lastTrackId,
       title: musicState.lastTrackTitle,
       artist: Array.isArray(musicState.lastTrackArtists) ? musicState.lastTrackArtists.join(", ") : "",
-      platform: String(musicState.provider || "").trim().toLowerCase() === "soundcloud" ? "soundcloud" : "youtube",
+      platform: isMusicPlatform(providerToken) ? providerToken : "youtube",
       externalUrl: musicState.lastTrackUrl || null,
       durationSeconds: null
     });
@@ -524,10 +531,7 @@ async function resolveVoiceMusicQueueToolTracks(
   const query = normalizeInlineText(args?.query, 180);
   const selectionId = normalizeInlineText(args?.selection_id, 180);
   const platformToken = normalizeInlineText(args?.platform, 32)?.toLowerCase();
-  const platform =
-    platformToken === "youtube" || platformToken === "soundcloud" || platformToken === "auto"
-      ? platformToken
-      : "auto";
+  const platform = isMusicPlatform(platformToken) ? platformToken : "auto";
   const maxResults = clamp(Math.floor(Number(args?.max_results || 5)), 1, 10);
   const catalog = runtimeSession.toolMusicTrackCatalog instanceof Map
     ? runtimeSession.toolMusicTrackCatalog
@@ -536,6 +540,27 @@ async function resolveVoiceMusicQueueToolTracks(
     runtimeSession.toolMusicTrackCatalog = catalog;
   }
 
+  const playlist = normalizeInlineText(args?.playlist, 80) || null;
+  const historySince = normalizeInlineText(args?.history_since, 40) || null;
+  const historyUntil = normalizeInlineText(args?.history_until, 40) || null;
+  const library = playlist || historySince || historyUntil
+    ? manager.resolveMusicLibraryTracks({
+      guildId: String(session?.guildId || "").trim(),
+      playlist,
+      historySince,
+      historyUntil
+    })
+    : null;
+  if (library?.ok === false) {
+    return {
+      ok: false,
+      response: { ok: false, queue_length: queueLength, added: [], error: library.error }
+    };
+  }
+  if (library) {
+    return { ok: true, query: library.label, resolvedTracks: library.tracks };
+  }
+
   if (requestedTrackIds.length > 0) {
     const resolvedTracks = resolveMusicCatalogTracks(catalog, requestedTrackIds);
     if (!resolvedTracks.length) {
@@ -696,6 +721,7 @@ export async function executeVoiceMusicQueueAddTool(
   if (queueState.nowPlayingIndex == null && queueState.tracks.length > 0) {
     queueState.nowPlayingIndex = 0;
   }
+  manager.persistToolMusicQueueState?.(session);
   const shouldAutoPlay = wasEmpty && !manager.isMusicPlaybackActive(session) && !queueState.isPaused;
   if (shouldAutoPlay && settings) {
     const playIndex = queueState.nowPlayingIndex ?? 0;
@@ -756,6 +782,7 @@ export async function executeVoiceMusicQueueNextTool(
   if (queueState.nowPlayingIndex == null && queueState.tracks.length > 0) {
     queueState.nowPlayingIndex = 0;
   }
+  manager.persistToolMusicQueueState?.(session);
   const shouldAutoPlay = !manager.isMusicPlaybackActive(session) && !queueState.isPaused;
   if (shouldAutoPlay && settings) {
     await manager.playVoiceQueueTrackByIndex({ session, settings, index: queueState.nowPlayingIndex ?? 0 });
@@ -781,10 +808,7 @@ export async function executeVoiceMusicPlayTool(
   const query = normalizeInlineText(args?.query, 180);
   const selectionId = normalizeInlineText(args?.selection_id, 180);
   const platformToken = normalizeInlineText(args?.platform, 32)?.toLowerCase();
-  const platform =
-    platformToken === "youtube" || platformToken === "soundcloud" || platformToken === "auto"
-      ? platformToken
-      : "auto";
+  const platform = isMusicPlatform(platformToken) ? platformToken : "auto";
   const maxResults = clamp(Math.floor(Number(args?.max_results || 5)), 1, 10);
   if (!query && !selectionId) return { ok: false, error: "query_or_selection_id_required" };
 
@@ -1120,10 +1144,25 @@ export async function executeVoiceMusicPauseTool(
 
 export async function executeVoiceMusicResumeTool(
   manager: VoiceToolCallManager,
-  { session, signal }: VoiceMusicToolOptions
+  { session, settings, signal }: VoiceMusicToolOptions
 ) {
   throwIfAborted(signal, "Voice music resume cancelled");
   const currentPhase = session ? getMusicPhase(manager, session) : "idle";
+  // Nothing to unpause: pick up the queue the last session left behind, if any.
+  if (
+    settings &&
+    !musicPhaseIsActive(currentPhase) &&
+    !musicPhaseCanResume(currentPhase) &&
+    Number(manager.restorePersistedMusicQueue?.(session) || 0) > 0
+  ) {
+    const playback = await manager.playVoiceQueueTrackByIndex({ session, settings, index: 0 });
+    return {
+      ok: playback.ok,
+      status: "queue_restored",
+      phase: session ? getMusicPhase(manager, session) : currentPhase,
+      queue_state: manager.buildVoiceQueueStatePayload(session)
+    };
+  }
   if (!musicPhaseCanResume(currentPhase)) {
     return {
       ok: false,
@@ -1288,15 +1327,17 @@ export async function executeVoiceMusicSkipTool(
     return { ok: true, queue_state: manager.buildVoiceQueueStatePayload(session) };
   }
   const nextIndex = queueState.nowPlayingIndex + 1;
-  await manager.requestStopMusic({
-    guildId: session?.guildId,
-    channelId: session?.textChannelId,
-    requestedByUserId: session?.lastRealtimeToolCallerUserId || null,
-    settings,
-    reason: "voice_tool_music_skip",
-    source: "voice_tool_call",
-    mustNotify: false
-  });
+  if (nextIndex >= queueState.tracks.length || !shouldCrossfadeMusicTransition(manager, session)) {
+    await manager.requestStopMusic({
+      guildId: session?.guildId,
+      channelId: session?.textChannelId,
+      requestedByUserId: session?.lastRealtimeToolCallerUserId || null,
+      settings,
+      reason: "voice_tool_music_skip",
+      source: "voice_tool_call",
+      mustNotify: false
+    });
+  }
   if (nextIndex < queueState.tracks.length) {
     return manager.playVoiceQueueTrackByIndex({ session, settings, index: nextIndex });
   }
@@ -1307,7 +1348,7 @@ export async function executeVoiceMusicSkipTool(
 
 export async function executeVoiceMusicNowPlayingTool(
   manager: VoiceToolCallManager,
-  { session, signal }: VoiceMusicToolOptions
+  { session, args, signal }: VoiceMusicToolOptions
 ) {
   throwIfAborted(signal, "Voice music now playing cancelled");
   const queueState = manager.ensureToolMusicQueueState(session);
@@ -1315,23 +1356,75 @@ export async function executeVoiceMusicNowPlayingTool(
     ? queueState.tracks[queueState.nowPlayingIndex] || null
     : null;
   const musicState = manager.ensureSessionMusicState(session);
+  const nowPlaying = nowTrack
+    ? { ...nowTrack }
+    : musicState?.lastTrackTitle
+      ? {
+          id: musicState.lastTrackId || null,
+          title: musicState.lastTrackTitle,
+          artist: Array.isArray(musicState.lastTrackArtists) ? musicState.lastTrackArtists.join(", ") : null,
+          source: String(musicState.provider || "").trim().toLowerCase() === "discord" ? "yt" : "yt",
+          streamUrl: musicState.lastTrackUrl || null
+        }
+      : null;
+  const positionMs = getMusicPlaybackPositionMs(musicState);
+  const details =
+    args?.include_details === true && nowPlaying
+      ? await lookupNowPlayingDetails(manager, nowPlaying, positionMs)
+      : null;
+  throwIfAborted(signal, "Voice music now playing cancelled");
   return {
     ok: true,
-    now_playing: nowTrack
-      ? { ...nowTrack }
-      : musicState?.lastTrackTitle
-        ? {
-            id: musicState.lastTrackId || null,
-            title: musicState.lastTrackTitle,
-            artist: Array.isArray(musicState.lastTrackArtists) ? musicState.lastTrackArtists.join(", ") : null,
-            source: String(musicState.provider || "").trim().toLowerCase() === "discord" ? "yt" : "yt",
-            streamUrl: musicState.lastTrackUrl || null
-          }
-        : null,
+    now_playing: nowPlaying,
+    position_ms: positionMs,
+    ...(details ? { details } : {}),
     queue_state: manager.buildVoiceQueueStatePayload(session)
   };
 }
 
+async function lookupNowPlayingDetails(
+  manager: VoiceToolCallManager,
+  track: {
+    id: string | null;
+    title: string;
+    artist: string | null;
+    durationMs?: number | null;
+    platform?: string | null;
+    externalUrl?: string | null;
+    streamUrl?: string | null;
+  },
+  positionMs: number | null
+) {
+  if (typeof manager.musicTrackInfo?.lookup !== "function") {
+    return { available: false, reason: "track_info_unavailable" };
+  }
+  const info = await manager.musicTrackInfo.lookup({
+    id: String(track.id || ""),
+    title: track.title,
+    artist: track.artist || null,
+    platform: track.platform || null,
+    externalUrl: track.externalUrl || track.streamUrl || null,
+    durationSeconds: Number.isFinite(Number(track.durationMs)) ? Math.round(Number(track.durationMs) / 1000) : null
+  });
+  const synced = info.syncedLyrics?.length && positionMs != null ? selectLyricWindow(info.syncedLyrics, positionMs) : null;
+  return {
+    available: true,
+    album: info.album,
+    release_year: info.releaseYear,
+    lyrics: synced
+      ? {
+          synced: true,
+          current_line: synced.current,
+          previous_lines: synced.previous,
+          next_lines: synced.next
+        }
+      : info.plainLyrics
+        ? { synced: false, text: info.plainLyrics }
+        : null,
+    sources: info.sources
+  };
+}
+
 export async function executeVoiceStreamVisualizerTool(
   manager: VoiceToolCallManager,
   { session, args, signal }: VoiceMusicToolOptions
@@ -1360,3 +1453,62 @@ export async function executeVoiceStreamVisualizerTool(
     reason: String(result?.reason || "").trim() || null
   };
 }
+
+export async function executeVoiceMusicSeekTool(
+  manager: VoiceToolCallManager,
+  { session, args, signal }: VoiceMusicToolOptions
+) {
+  throwIfAborted(signal, "Voice music seek cancelled");
+  if (!hasFullVoiceSessionShape(session)) {
+    return { ok: false, error: "not_in_voice" };
+  }
+  const result = await requestSeekMusic(manager, {
+    session,
+    position: args?.position,
+    requestedByUserId: session.lastRealtimeToolCallerUserId || null,
+    source: "voice_tool_call"
+  });
+  return result.ok
+    ? { ok: true, position: result.position, position_ms: result.positionMs }
+    : { ok: false, error: result.error };
+}
+
+export async function executeVoiceMusicEffectsTool(
+  manager: VoiceToolCallManager,
+  { session, args, signal }: VoiceMusicToolOptions
+) {
+  throwIfAborted(signal, "Voice music effects cancelled");
+  const guildId = String(session?.guildId || "").trim();
+  if (!guildId) {
+    return { ok: false, error: "not_in_voice" };
+  }
+  const patch = {
+    crossfadeMs: args?.crossfade_seconds == null ? null : Number(args.crossfade_seconds) * 1000,
+    loudnessNormalization: args?.loudness_normalization,
+    speed: args?.speed,
+    pitchSemitones: args?.pitch_semitones,
+    bassBoostDb: args?.bass_boost_db
+  };
+  const reset = args?.reset === true;
+  if (!reset && Object.values(patch).every((value) => value == null)) {
+    const effects = resolveMusicPlaybackEffects(manager, guildId);
+    return { ok: true, effects, summary: describeMusicPlaybackEffects(effects), changed: false };
+  }
+  const result = await updateMusicPlaybackEffects(manager, {
+    guildId,
+    session: hasFullVoiceSessionShape(session) ? session : null,
+    patch,
+    reset,
+    requestedByUserId: session?.lastRealtimeToolCallerUserId || null,
+    source: "voice_tool_call"
+  });
+  return result.ok
+    ? {
+        ok: true,
+        effects: result.effects,
+        summary: result.summary,
+        changed: true,
+        applies: result.appliedLive ? "now" : "next_track"
+      }
+    : { ok: false, error: result.error, ...("unsupported" in result ? { unsupported: result.unsupported } : {}) };
+}
@@ -8,7 +8,7 @@ import {
   isResearchEnabled
 } from "../settings/agentStack.ts";
 import { toRealtimeTool } from "../tools/sharedToolSchemas.ts";
-import { buildVoiceRealtimeLocalToolSchemas } from "../tools/toolRegistry.ts";
+import { buildVoiceRealtimeLocalToolSchemas, isMcpToolAllowed } from "../tools/toolRegistry.ts";
 import { OPENAI_TOOL_CALL_ARGUMENTS_MAX_CHARS, OPENAI_TOOL_CALL_EVENT_MAX } from "./voiceSessionManager.constants.ts";
 import { normalizeInlineText } from "./voiceSessionHelpers.ts";
 import { summarizeVoiceToolResult } from "./voiceToolResultSummary.ts";
@@ -106,10 +106,37 @@ export function ensureSessionToolRuntimeState(
   return session;
 }
 
-export function getVoiceMcpServerStatuses(manager: VoiceToolCallManager) {
+/**
+ * Voice MCP servers come from the bot's shared McpClientManager (the same
+ * `MCP_SERVERS_JSON` servers text replies use). Deprecated
+ * `VOICE_MCP_SERVERS_JSON` bridge entries are still listed after them, unless
+ * a shared server already owns that name.
+ */
+export function getVoiceMcpServerStatuses(manager: VoiceToolCallManager): VoiceMcpServerStatus[] {
+  const sharedStatuses: VoiceMcpServerStatus[] = (manager.mcp?.getServerStatuses() || []).map((status) => ({
+    serverName: status.serverName,
+    source: "shared",
+    connected: status.connected,
+    tools: status.connected ? status.tools.map((tool) => ({ ...tool })) : [],
+    lastError: status.lastError,
+    lastConnectedAt: status.lastConnectedAt,
+    lastCallAt: status.lastCallAt,
+    baseUrl: "",
+    toolPath: "",
+    timeoutMs: 0,
+    headers: {}
+  }));
+  const sharedNames = new Set(sharedStatuses.map((status) => status.serverName));
+  return [
+    ...sharedStatuses,
+    ...getVoiceBridgeMcpServerStatuses(manager).filter((status) => !sharedNames.has(status.serverName))
+  ];
+}
+
+function getVoiceBridgeMcpServerStatuses(manager: VoiceToolCallManager) {
   const servers = Array.isArray(manager.appConfig?.voiceMcpServers) ? manager.appConfig.voiceMcpServers : [];
   return servers
-    .map((server) => {
+    .map((server): VoiceMcpServerStatus | null => {
       if (!server || typeof server !== "object") return null;
       const serverName = normalizeInlineText(server.serverName || server.name, 80);
       const baseUrl = normalizeInlineText(server.baseUrl, 280);
@@ -144,6 +171,7 @@ export function getVoiceMcpServerStatuses(manager: VoiceToolCallManager) {
           : {};
       return {
         serverName,
+        source: "voice_bridge",
         connected: true,
         tools,
         lastError: null,
@@ -190,6 +218,7 @@ export function resolveVoiceRealtimeToolDescriptors(
         if (!tool || typeof tool !== "object") return null;
         const name = normalizeInlineText(tool.name, 120);
         if (!name) return null;
+        if (server.source === "shared" && !isMcpToolAllowed(settings || {}, serverName, name)) return null;
         return {
           toolType: "mcp",
           name,
@@ -242,7 +271,7 @@ export function resolveVoiceRealtimeToolDescriptors(
     screenShareSnapshotAvailable: includeScreenShareSnapshot,
     soundboardAvailable: includeSoundboard,
     webSearchAvailable: includeWebSearch
-  }).map((schema) => adaptRealtimeToolDescriptorForTarget(toRealtimeTool(schema), exportTarget));
+  }, settings || null).map((schema) => adaptRealtimeToolDescriptorForTarget(toRealtimeTool(schema), exportTarget));
   return [
     ...localTools,
     ...mcpTools
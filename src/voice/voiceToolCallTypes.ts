@@ -26,19 +26,24 @@ export type VoiceToolCallManager = Pick<
   | "isMusicPlaybackActive"
   | "instructionManager"
   | "llm"
+  | "mcp"
   | "memory"
   | "maybeClearActiveReplyInterruptionPolicy"
   | "maybeHandlePendingMusicDisambiguationTurn"
   | "musicPlayback"
   | "musicPlayer"
   | "musicSearch"
+  | "musicTrackInfo"
   | "normalizeMusicSelectionResult"
+  | "persistToolMusicQueueState"
   | "startVoiceScreenWatch"
   | "playVoiceQueueTrackByIndex"
   | "requestPauseMusic"
   | "requestPlayMusic"
   | "requestRealtimePromptUtterance"
   | "requestStopMusic"
+  | "resolveMusicLibraryTracks"
+  | "restorePersistedMusicQueue"
   | "refreshSessionGuildFactProfile"
   | "refreshSessionUserFactProfile"
   | "replyManager"
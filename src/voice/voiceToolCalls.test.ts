@@ -5,7 +5,9 @@ import {
 } from "./voiceToolCallAgents.ts";
 import { executeLocalVoiceToolCall } from "./voiceToolCallDispatch.ts";
 import {
+  executeVoiceMusicNowPlayingTool,
   executeVoiceMusicPlayTool,
+  executeVoiceMusicQueueAddTool,
   executeVoiceMusicQueueNextTool,
   executeVoiceVideoPlayTool
 } from "./voiceToolCallMusic.ts";
@@ -1168,6 +1170,163 @@ test("music_queue_next resolves a direct query and inserts it after the current
   assert.equal(calls.some((entry) => entry.method === "beginVoiceCommandSession"), false);
 });
 
+test("music_queue_add queues a play-history window, persists the queue, and autoplays when idle", async () => {
+  const queueState = {
+    guildId: "guild-1",
+    voiceChannelId: "vc-1",
+    tracks: [],
+    nowPlayingIndex: null,
+    isPaused: false,
+    volume: 1
+  };
+  const calls: Array<{ method: string; args: unknown }> = [];
+  const session = {
+    id: "voice-session-history-1",
+    guildId: "guild-1",
+    textChannelId: "channel-1",
+    lastRealtimeToolCallerUserId: "user-1",
+    toolMusicTrackCatalog: new Map<string, unknown>()
+  };
+  const historyTrack = {
+    id: "youtube:all-caps",
+    title: "All Caps",
+    artist: "MF DOOM",
+    durationMs: 140000,
+    source: "yt",
+    streamUrl: "https://youtube.com/watch?v=allcaps",
+    platform: "youtube",
+    externalUrl: "https://youtube.com/watch?v=allcaps"
+  };
+
+  const manager = {
+    client: {
+      user: {
+        id: "bot-user"
+      }
+    },
+    ensureToolMusicQueueState: () => queueState,
+    resolveMusicLibraryTracks: (opts: unknown) => {
+      calls.push({ method: "resolveMusicLibraryTracks", args: opts });
+      return { ok: true, label: "play history", tracks: [historyTrack] };
+    },
+    persistToolMusicQueueState: () => {
+      calls.push({ method: "persistToolMusicQueueState", args: [] });
+      return queueState;
+    },
+    isMusicPlaybackActive: () => false,
+    playVoiceQueueTrackByIndex: async ({ index }: { index: number }) => {
+      calls.push({ method: "playVoiceQueueTrackByIndex", args: index });
+      return { ok: true };
+    },
+    store: {
+      getSettings: () => null,
+      logAction: () => undefined
+    }
+  };
+
+  const result = await executeVoiceMusicQueueAddTool(manager, {
+    session,
+    settings: createTestSettings({}),
+    args: {
+      history_since: "2026-03-06"
+    }
+  });
+
+  assert.equal(result.ok, true);
+  assert.equal(result.query, "play history");
+  assert.deepEqual(result.added, ["youtube:all-caps"]);
+  assert.equal(result.auto_playing, true);
+  assert.deepEqual(calls.map((entry) => entry.method), [
+    "resolveMusicLibraryTracks",
+    "persistToolMusicQueueState",
+    "playVoiceQueueTrackByIndex"
+  ]);
+  assert.deepEqual(calls[0]?.args, {
+    guildId: "guild-1",
+    playlist: null,
+    historySince: "2026-03-06",
+    historyUntil: null
+  });
+});
+
+test("media_now_playing include_details returns album and lyric lines around the playback position", async () => {
+  const track = {
+    id: "local:abc",
+    title: "Archangel",
+    artist: "Burial",
+    durationMs: 238000,
+    source: "yt",
+    streamUrl: null,
+    platform: "local",
+    externalUrl: "file:///music/Burial%20-%20Archangel.mp3"
+  };
+  const queueState = {
+    guildId: "guild-1",
+    voiceChannelId: "vc-1",
+    tracks: [track],
+    nowPlayingIndex: 0,
+    isPaused: false
+  };
+  const lookups: unknown[] = [];
+  const now = Date.now();
+  const manager = {
+    ensureToolMusicQueueState: () => queueState,
+    ensureSessionMusicState: () => ({
+      phase: "paused",
+      startedAt: now - 60_000,
+      pausedAt: now - 10_000,
+      pausedMs: 20_000
+    }),
+    buildVoiceQueueStatePayload: () => ({ tracks: 1 }),
+    musicTrackInfo: {
+      async lookup(query: unknown) {
+        lookups.push(query);
+        return {
+          album: "Untrue",
+          releaseYear: 2007,
+          syncedLyrics: [
+            { timeMs: 10_000, text: "holding you" },
+            { timeMs: 25_000, text: "tell me I belong" },
+            { timeMs: 40_000, text: "something else" }
+          ],
+          plainLyrics: null,
+          sources: ["lrc_file", "local_tags"]
+        };
+      }
+    }
+  };
+
+  const summary = await executeVoiceMusicNowPlayingTool(manager, { session: { id: "voice-session-1" }, args: {} });
+  assert.equal(summary.position_ms, 30_000);
+  assert.equal("details" in summary, false);
+  assert.equal(lookups.length, 0);
+
+  const result = await executeVoiceMusicNowPlayingTool(manager, {
+    session: { id: "voice-session-1" },
+    args: { include_details: true }
+  });
+  assert.deepEqual(lookups[0], {
+    id: "local:abc",
+    title: "Archangel",
+    artist: "Burial",
+    platform: "local",
+    externalUrl: "file:///music/Burial%20-%20Archangel.mp3",
+    durationSeconds: 238
+  });
+  assert.deepEqual(result.details, {
+    available: true,
+    album: "Untrue",
+    release_year: 2007,
+    lyrics: {
+      synced: true,
+      current_line: "tell me I belong",
+      previous_lines: ["holding you"],
+      next_lines: ["something else"]
+    },
+    sources: ["lrc_file", "local_tags"]
+  });
+});
+
 test("music_play resolves selection_id from saved last-track state when the catalog is empty", async () => {
   const queueState = {
     guildId: "guild-1",